@@ -0,0 +1,211 @@
+// MockFolksLendingPool.algo.ts - Mock for testing RareFiFolksVault
+// This simulates a Folks Finance V2 lending pool for localnet testing
+// Exposes the same ARC-4 signatures as the real pool, so the vault's raw
+// FOLKS_DEPOSIT_SELECTOR / FOLKS_WITHDRAW_SELECTOR inner calls route here unchanged
+// fTokens are minted and redeemed at a deposit interest index that tests can advance
+// Redemptions can be paused to simulate a Folks outage
+
+import {
+  GlobalState,
+  itxn,
+  gtxn,
+  Global,
+  assert,
+  Uint64,
+  uint64,
+  Account,
+  Asset,
+  Application,
+  arc4,
+  Txn,
+  baremethod,
+  TransactionType,
+} from '@algorandfoundation/algorand-typescript';
+import { mulw, divmodw } from '@algorandfoundation/algorand-typescript/op';
+
+const ONE_14: uint64 = Uint64(100_000_000_000_000);       // Folks interest index precision (1e14 = 1.0)
+const FEE_BPS_BASE: uint64 = Uint64(10_000);
+const FTOKEN_SUPPLY: uint64 = Uint64(10_000_000_000_000_000n); // 10B fTokens with 6 decimals
+
+/**
+ * Stand-in for the Folks Finance pool manager app.
+ * Real pools only need the manager as a foreign app reference, so an empty app is enough.
+ */
+export class MockFolksPoolManager extends arc4.Contract {
+  @baremethod({ onCreate: 'require' })
+  createApplication(): void {}
+}
+
+export class MockFolksLendingPool extends arc4.Contract {
+  // Pool configuration
+  underlyingAsset = GlobalState<uint64>();      // Asset users lend (e.g. USDC)
+  fTokenAsset = GlobalState<uint64>();          // Receipt token minted by this pool (0 until initialized)
+  poolManagerAppId = GlobalState<uint64>();     // MockFolksPoolManager app ID
+
+  // Interest accounting
+  depositInterestIndex = GlobalState<uint64>(); // Underlying per fToken, scaled by ONE_14
+
+  // Outage simulation
+  withdrawalsPaused = GlobalState<uint64>();    // 1 = pool.withdraw rejects
+
+  /**
+   * Safe multiplication and division: floor(n1 * n2 / d)
+   */
+  private mulDivFloor(n1: uint64, n2: uint64, d: uint64): uint64 {
+    const [hi, lo] = mulw(n1, n2);
+    const [q_hi, q_lo, _r_hi, _r_lo] = divmodw(hi, lo, Uint64(0), d);
+    assert(q_hi === Uint64(0), 'Overflow');
+    return q_lo;
+  }
+
+  /**
+   * Validate the pool references passed by the caller (ARC-4 index encoded)
+   */
+  private checkReferences(asset: Asset, fAsset: Asset, poolManager: Application): void {
+    assert(this.fTokenAsset.value !== Uint64(0), 'Pool not initialized');
+    assert(asset === Asset(this.underlyingAsset.value), 'Wrong underlying asset');
+    assert(fAsset === Asset(this.fTokenAsset.value), 'Wrong fToken asset');
+    assert(poolManager === Application(this.poolManagerAppId.value), 'Wrong pool manager');
+  }
+
+  @arc4.abimethod({ onCreate: 'require' })
+  createPool(underlyingAssetId: uint64, poolManagerAppId: uint64): void {
+    assert(underlyingAssetId !== Uint64(0), 'Invalid underlying asset');
+    assert(poolManagerAppId !== Uint64(0), 'Invalid pool manager app ID');
+
+    this.underlyingAsset.value = underlyingAssetId;
+    this.fTokenAsset.value = Uint64(0);
+    this.poolManagerAppId.value = poolManagerAppId;
+    this.depositInterestIndex.value = ONE_14;
+    this.withdrawalsPaused.value = Uint64(0);
+  }
+
+  /**
+   * Opt into the underlying asset and mint the fToken ASA
+   * Pool account must be funded for MBR (2 ASAs) before calling
+   * @returns The created fToken asset ID
+   */
+  @arc4.abimethod()
+  initializePool(): uint64 {
+    assert(Txn.sender === Global.creatorAddress, 'Only creator can initialize');
+    assert(this.fTokenAsset.value === Uint64(0), 'Pool already initialized');
+
+    const appAddr: Account = Global.currentApplicationAddress;
+
+    itxn.assetTransfer({
+      assetReceiver: appAddr,
+      xferAsset: Asset(this.underlyingAsset.value),
+      assetAmount: Uint64(0),
+      fee: Uint64(0),
+    }).submit();
+
+    const fToken = itxn.assetConfig({
+      total: FTOKEN_SUPPLY,
+      decimals: Uint64(6),
+      unitName: 'fMOCK',
+      assetName: 'Folks Mock fToken',
+      manager: appAddr,
+      reserve: appAddr,
+      fee: Uint64(0),
+    }).submit().createdAsset;
+
+    this.fTokenAsset.value = fToken.id;
+    return fToken.id;
+  }
+
+  /**
+   * Simulate borrower interest by raising the deposit interest index
+   * Tests must also send the matching underlying to the pool so redemptions can be paid
+   * @param increaseBps - Index increase in basis points (e.g. 500 = +5%)
+   */
+  @arc4.abimethod()
+  advanceInterestIndex(increaseBps: uint64): void {
+    assert(Txn.sender === Global.creatorAddress, 'Only creator can advance index');
+    const index = this.depositInterestIndex.value;
+    this.depositInterestIndex.value = index + this.mulDivFloor(index, increaseBps, FEE_BPS_BASE);
+  }
+
+  /**
+   * Simulate a Folks outage: while paused, pool.withdraw fails
+   * @param paused - 1 to pause withdrawals, 0 to resume
+   */
+  @arc4.abimethod()
+  setWithdrawalsPaused(paused: uint64): void {
+    assert(Txn.sender === Global.creatorAddress, 'Only creator can pause');
+    this.withdrawalsPaused.value = paused;
+  }
+
+  /**
+   * Folks V2 pool.deposit - deposit(txn,account,asset,asset,application)uint64
+   * Expects an underlying transfer to the pool immediately before this call
+   * @returns fTokens minted to receiver
+   */
+  @arc4.abimethod({ resourceEncoding: 'index' })
+  deposit(txn: gtxn.Transaction, receiver: Account, asset: Asset, fAsset: Asset, poolManager: Application): uint64 {
+    this.checkReferences(asset, fAsset, poolManager);
+
+    assert(txn.type === TransactionType.AssetTransfer, 'Mock only supports ASA deposits');
+    const depositTransfer = gtxn.AssetTransferTxn(txn.groupIndex);
+    assert(depositTransfer.xferAsset === asset, 'Must transfer underlying asset');
+    assert(depositTransfer.assetReceiver === Global.currentApplicationAddress, 'Must send to pool');
+
+    const fAmount = this.mulDivFloor(depositTransfer.assetAmount, ONE_14, this.depositInterestIndex.value);
+    assert(fAmount > Uint64(0), 'Deposit too small');
+
+    itxn.assetTransfer({
+      assetReceiver: receiver,
+      xferAsset: fAsset,
+      assetAmount: fAmount,
+      fee: Uint64(0),
+    }).submit();
+
+    return fAmount;
+  }
+
+  /**
+   * Folks V2 pool.withdraw - withdraw(axfer,uint64,account,asset,asset,application)uint64
+   * Expects an fToken transfer to the pool immediately before this call
+   * @param receivedAmount - Exact underlying to receive, or 0 to redeem all fTokens sent
+   * @returns Underlying sent to receiver
+   */
+  @arc4.abimethod({ resourceEncoding: 'index' })
+  withdraw(
+    fTokenTransfer: gtxn.AssetTransferTxn,
+    receivedAmount: uint64,
+    receiver: Account,
+    asset: Asset,
+    fAsset: Asset,
+    poolManager: Application,
+  ): uint64 {
+    this.checkReferences(asset, fAsset, poolManager);
+    assert(this.withdrawalsPaused.value === Uint64(0), 'Withdrawals paused');
+
+    assert(fTokenTransfer.xferAsset === fAsset, 'Must transfer fToken asset');
+    assert(fTokenTransfer.assetReceiver === Global.currentApplicationAddress, 'Must send to pool');
+
+    const redeemable = this.mulDivFloor(fTokenTransfer.assetAmount, this.depositInterestIndex.value, ONE_14);
+    let amount = redeemable;
+    if (receivedAmount > Uint64(0)) {
+      assert(receivedAmount <= redeemable, 'Insufficient fTokens sent');
+      amount = receivedAmount;
+    }
+    assert(amount > Uint64(0), 'Withdraw too small');
+
+    itxn.assetTransfer({
+      assetReceiver: receiver,
+      xferAsset: asset,
+      assetAmount: amount,
+      fee: Uint64(0),
+    }).submit();
+
+    return amount;
+  }
+
+  /**
+   * Get the current deposit interest index (scaled by 1e14)
+   */
+  @arc4.abimethod({ readonly: true })
+  getDepositInterestIndex(): uint64 {
+    return this.depositInterestIndex.value;
+  }
+}
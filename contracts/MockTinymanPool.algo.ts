@@ -20,12 +20,14 @@ import {
   gtxn,
   Application,
   OnCompleteAction,
+  TransactionType,
 } from '@algorandfoundation/algorand-typescript';
 import { mulw, divmodw, btoi } from '@algorandfoundation/algorand-typescript/op';
 
 // Tinyman V2 uses 30 bps (0.3%) base fee, but can be higher
 const DEFAULT_FEE_BPS: uint64 = Uint64(30);
 const FEE_BPS_BASE: uint64 = Uint64(10_000);
+const ALGO_ASSET_ID: uint64 = Uint64(0);  // Tinyman V2 uses asset ID 0 for ALGO
 
 export class MockTinymanPool extends Contract {
   // Pool assets (global state for internal tracking)
@@ -205,25 +207,30 @@ export class MockTinymanPool extends Contract {
   private optInAssets(): void {
     const appAddr: Account = Global.currentApplicationAddress;
 
-    itxn.assetTransfer({
-      assetReceiver: appAddr,
-      xferAsset: Asset(this.asset1Id.value),
-      assetAmount: Uint64(0),
-      fee: Uint64(0),
-    }).submit();
-
-    itxn.assetTransfer({
-      assetReceiver: appAddr,
-      xferAsset: Asset(this.asset2Id.value),
-      assetAmount: Uint64(0),
-      fee: Uint64(0),
-    }).submit();
+    // ALGO (asset ID 0) needs no opt-in
+    if (this.asset1Id.value !== ALGO_ASSET_ID) {
+      itxn.assetTransfer({
+        assetReceiver: appAddr,
+        xferAsset: Asset(this.asset1Id.value),
+        assetAmount: Uint64(0),
+        fee: Uint64(0),
+      }).submit();
+    }
+
+    if (this.asset2Id.value !== ALGO_ASSET_ID) {
+      itxn.assetTransfer({
+        assetReceiver: appAddr,
+        xferAsset: Asset(this.asset2Id.value),
+        assetAmount: Uint64(0),
+        fee: Uint64(0),
+      }).submit();
+    }
   }
 
   /**
    * Mock swap - simulates Tinyman V2 swap using constant product AMM
    * Uses raw app args like real Tinyman V2
-   * Expects: asset transfer in previous txn, then this app call
+   * Expects: asset transfer (or ALGO payment) in previous txn, then this app call
    *
    * In testing, the vault sends assets to the state holder (who holds local state).
    * The pool reads reserves from state holder's local state and sends output from its own balance.
@@ -236,13 +243,24 @@ export class MockTinymanPool extends Contract {
     const currentIndex = Txn.groupIndex;
     assert(currentIndex >= Uint64(1), 'Must follow asset transfer');
 
-    // Check the incoming asset transfer
+    // Check the incoming transfer
     // In testing, vault sends to state holder (poolAddress in vault config)
-    const incomingTransfer = gtxn.AssetTransferTxn(currentIndex - Uint64(1));
-    const incomingAsset = incomingTransfer.xferAsset;
-    const incomingAmount = incomingTransfer.assetAmount;
+    let incomingAssetId: uint64;
+    let incomingAmount: uint64;
+    let incomingReceiver: Account;
+    if (gtxn.Transaction(currentIndex - Uint64(1)).type === TransactionType.Payment) {
+      const incomingPayment = gtxn.PaymentTxn(currentIndex - Uint64(1));
+      incomingAssetId = ALGO_ASSET_ID;
+      incomingAmount = incomingPayment.amount;
+      incomingReceiver = incomingPayment.receiver;
+    } else {
+      const incomingTransfer = gtxn.AssetTransferTxn(currentIndex - Uint64(1));
+      incomingAssetId = incomingTransfer.xferAsset.id;
+      incomingAmount = incomingTransfer.assetAmount;
+      incomingReceiver = incomingTransfer.assetReceiver;
+    }
     // Accept assets sent to either pool app or state holder
-    const validReceiver = incomingTransfer.assetReceiver === appAddr || incomingTransfer.assetReceiver === stateHolder;
+    const validReceiver = incomingReceiver === appAddr || incomingReceiver === stateHolder;
     assert(validReceiver, 'Must send to pool or state holder');
 
     // Get pool state from local storage (stored in stateHolder's local state)
@@ -252,19 +270,19 @@ export class MockTinymanPool extends Contract {
 
     let inputReserves: uint64;
     let outputReserves: uint64;
-    let outAsset: Asset;
+    let outAssetId: uint64;
 
-    if (incomingAsset === Asset(this.asset1Id.value)) {
+    if (incomingAssetId === this.asset1Id.value) {
       // Swapping asset1 -> asset2
       inputReserves = asset1Reserves;
       outputReserves = asset2Reserves;
-      outAsset = Asset(this.asset2Id.value);
+      outAssetId = this.asset2Id.value;
     } else {
       // Swapping asset2 -> asset1
-      assert(incomingAsset === Asset(this.asset2Id.value), 'Unknown asset');
+      assert(incomingAssetId === this.asset2Id.value, 'Unknown asset');
       inputReserves = asset2Reserves;
       outputReserves = asset1Reserves;
-      outAsset = Asset(this.asset1Id.value);
+      outAssetId = this.asset1Id.value;
     }
 
     // Calculate output using constant product formula with fee
@@ -277,7 +295,7 @@ export class MockTinymanPool extends Contract {
     assert(outAmount >= minAmountOut, 'Slippage exceeded');
 
     // Update reserves in local state
-    if (incomingAsset === Asset(this.asset1Id.value)) {
+    if (incomingAssetId === this.asset1Id.value) {
       this.asset_1_reserves(stateHolder).value = inputReserves + incomingAmount;
       this.asset_2_reserves(stateHolder).value = outputReserves - outAmount;
     } else {
@@ -286,12 +304,20 @@ export class MockTinymanPool extends Contract {
     }
 
     // Send output to the caller (which is the vault contract)
-    itxn.assetTransfer({
-      assetReceiver: Txn.sender,
-      xferAsset: outAsset,
-      assetAmount: outAmount,
-      fee: Uint64(0),
-    }).submit();
+    if (outAssetId === ALGO_ASSET_ID) {
+      itxn.payment({
+        receiver: Txn.sender,
+        amount: outAmount,
+        fee: Uint64(0),
+      }).submit();
+    } else {
+      itxn.assetTransfer({
+        assetReceiver: Txn.sender,
+        xferAsset: Asset(outAssetId),
+        assetAmount: outAmount,
+        fee: Uint64(0),
+      }).submit();
+    }
   }
 
   private updateFee(newFeeBps: uint64): void {
@@ -2,10 +2,11 @@
 // Users deposit Alpha and earn yield in USDC which is auto-swapped back to Alpha
 // Uses share-based accounting: yield compounds automatically into deposits
 // When users withdraw, they receive original deposit + accumulated yield
+// Optional tokenized mode: shares are a vault-minted ASA instead of a position box (transferable, no app opt-in)
 
 import {
   GlobalState,
-  LocalState,
+  BoxMap,
   itxn,
   gtxn,
   Global,
@@ -19,20 +20,87 @@ import {
   Txn,
   Bytes,
   baremethod,
+  clone,
+  emit,
 } from '@algorandfoundation/algorand-typescript';
-import { mulw, divmodw, itob, AppLocal } from '@algorandfoundation/algorand-typescript/op';
+import { mulw, divmodw, addw, itob, AppLocal, AssetHolding } from '@algorandfoundation/algorand-typescript/op';
 
 // Constants
 const SCALE: uint64 = Uint64(1_000_000_000_000);      // 1e12 for share price display precision
 const MAX_FEE_RATE: uint64 = Uint64(6);                 // 6% max fee (percentage 0-6)
 const FEE_PERCENT_BASE: uint64 = Uint64(100);          // Fee percentage base (feeRate/100 = percentage)
 const MIN_FARM_EMISSION_BPS: uint64 = Uint64(1_000);    // 10% minimum when farm has balance
+const MAX_FARM_SCHEDULES: uint64 = Uint64(3);           // Concurrent farm emission schedules
+const MAX_FARM_SCHEDULE_DURATION: uint64 = Uint64(31_536_000); // 365 days max per schedule
+const MAX_LOCK_TIERS: uint64 = Uint64(3);               // Configurable lock durations for boosted deposits
+const MAX_LOCK_DURATION: uint64 = Uint64(31_536_000);   // 365 days max lock
+const BOOST_BPS_BASE: uint64 = Uint64(10_000);          // 1x shares (unlocked deposits)
+const MAX_LOCK_BOOST_BPS: uint64 = Uint64(30_000);      // 3x max shares for a lock tier
+const MAX_EXIT_FEE_BPS: uint64 = Uint64(500);           // 5% max exit fee
+const MAX_EXIT_FEE_PERIOD: uint64 = Uint64(2_592_000);  // 30 days max for the exit fee to decay to zero
 const MIN_DEPOSIT_AMOUNT: uint64 = Uint64(1_000_000);  // Minimum deposit (1 token with 6 decimals)
 const MIN_SWAP_AMOUNT: uint64 = Uint64(100_000);       // Minimum swap amount (0.10 USDC)
 const MAX_SWAP_THRESHOLD: uint64 = Uint64(50_000_000);  // Maximum swap threshold (50 USDC)
 const FEE_BPS_BASE: uint64 = Uint64(10_000);           // Basis points denominator (10000 = 100%)
 const MAX_SLIPPAGE_BPS: uint64 = Uint64(10_000);        // Absolute ceiling for maxSlippageBps setting
 const MIN_MAX_SLIPPAGE_BPS: uint64 = Uint64(500);       // 5% minimum for maxSlippageBps (prevents creator from setting too low)
+const SHARE_TOKEN_SUPPLY: uint64 = Uint64(18_446_744_073_709_551_615n); // Max uint64 - vault holds all unissued shares
+const SHARE_TOKEN_DECIMALS: uint64 = Uint64(6);         // Matches Alpha (first deposit mints 1:1)
+const POSITION_MBR: uint64 = Uint64(22_100);            // Position box MBR: 2500 + 400 * (33 key + 16 value)
+const LOCK_MBR: uint64 = Uint64(28_500);                // Lock box MBR: 2500 + 400 * (33 key + 32 value)
+const MAX_PAUSE_DURATION: uint64 = Uint64(604_800);     // 7 days - a pause always auto-expires within this window
+const ALGO_ASSET_ID: uint64 = Uint64(0);                // Tinyman V2 uses asset ID 0 for ALGO
+const MAX_CANDIDATE_POOLS: uint64 = Uint64(2);         // Allowlisted alternative pools compared against the creation route
+const PRICE_PROBE_AMOUNT: uint64 = Uint64(1_000_000);   // Oracle price = route output for 1 USDC
+const TWAP_WINDOW: uint64 = Uint64(1_800);              // 30 min minimum averaging window for the TWAP
+const DEFAULT_MAX_PRICE_DEVIATION_BPS: uint64 = Uint64(1_000); // 10% default spot-vs-TWAP limit for swaps
+const MIN_PRICE_DEVIATION_BPS: uint64 = Uint64(100);    // 1% minimum for maxPriceDeviationBps
+const MAX_UINT64: uint64 = Uint64(18_446_744_073_709_551_615n); // Wrap point for priceCumulative
+
+/**
+ * Farm emission schedule: amount released linearly from startTime to endTime (amount 0 = empty slot)
+ */
+export class FarmSchedule extends arc4.Struct<{
+  startTime: arc4.Uint64;
+  endTime: arc4.Uint64;
+  amount: arc4.Uint64;    // Total Alpha to release
+  released: arc4.Uint64;  // Compounded into totalAlpha so far
+}> {}
+
+/**
+ * Lock tier: deposits locked for `duration` seconds mint boostBps shares (duration 0 = empty slot)
+ */
+export class LockTier extends arc4.Struct<{
+  duration: arc4.Uint64;
+  boostBps: arc4.Uint64;
+}> {}
+
+/**
+ * Per-user share balance, stored in a box keyed by the user's address (box mode only)
+ */
+export class SharePosition extends arc4.Struct<{
+  shares: arc4.Uint64;        // User's share balance
+  depositTime: arc4.Uint64;   // Share-weighted average deposit time (the exit fee decays from here)
+}> {}
+
+/**
+ * Locked part of a user's shares (box mode only)
+ * Boost shares earn compounded yield like any share, but their bonusBasis is not paid out
+ */
+export class LockPosition extends arc4.Struct<{
+  lockedUntil: arc4.Uint64;   // Locked shares can't be redeemed before this timestamp
+  lockedShares: arc4.Uint64;  // Shares minted for locked deposits
+  bonusShares: arc4.Uint64;   // Boost shares minted on top
+  bonusBasis: arc4.Uint64;    // Alpha value of bonusShares when minted (not held by the vault)
+}> {}
+
+/**
+ * Allowlisted alternative USDC/Alpha pool (poolAppId 0 = empty slot)
+ */
+export class CandidatePool extends arc4.Struct<{
+  poolAppId: arc4.Uint64;
+  poolAddress: arc4.Address;
+}> {}
 
 export class RareFiAlphaCompoundingVault extends arc4.Contract {
   // ============================================
@@ -55,23 +123,57 @@ export class RareFiAlphaCompoundingVault extends arc4.Contract {
   minSwapThreshold = GlobalState<uint64>();  // Minimum USDC before swap allowed
   maxSlippageBps = GlobalState<uint64>();    // Maximum slippage tolerance in basis points
   totalYieldCompounded = GlobalState<uint64>(); // Total yield compounded (for stats)
+  totalBonusBasis = GlobalState<uint64>();   // Virtual Alpha backing boost shares (in the share price, not in totalAlpha)
 
   // Tinyman V2 integration (USDC/Alpha pool)
-  tinymanPoolAppId = GlobalState<uint64>();  // Tinyman V2 pool app ID
+  tinymanPoolAppId = GlobalState<uint64>();  // Tinyman V2 pool app ID (USDC/Alpha, or USDC/ALGO when routed)
   tinymanPoolAddress = GlobalState<Account>(); // Tinyman pool address
+  hopPoolAppId = GlobalState<uint64>();      // Optional second pool app ID (ALGO/Alpha), 0 = direct swap
+  hopPoolAddress = GlobalState<Account>();   // Second pool address
+  candidatePools = GlobalState<arc4.StaticArray<CandidatePool, 2>>(); // Alternative pools for best execution (swaps use the highest quote)
+
+  // Price oracle - TWAP of the creation route, used to bound swaps against manipulation
+  priceCumulative = GlobalState<uint64>();      // Running sum of spot price x seconds (wraps on overflow)
+  lastSpotPrice = GlobalState<uint64>();        // Creation-route output for PRICE_PROBE_AMOUNT at last observation
+  lastObservationTime = GlobalState<uint64>();  // Timestamp of last observation (0 = oracle not seeded)
+  twapAnchorCumulative = GlobalState<uint64>(); // priceCumulative at the start of the current window
+  twapAnchorTime = GlobalState<uint64>();       // Start of the current window
+  twapPrice = GlobalState<uint64>();            // Time-weighted price over the last completed window
+  twapSeedRound = GlobalState<uint64>();        // Round of the seeding observation (the TWAP only guards swaps in later rounds)
+  maxPriceDeviationBps = GlobalState<uint64>(); // Max spot-vs-TWAP deviation allowed for swaps
 
   // Farm feature - dynamic yield distribution
   farmBalance = GlobalState<uint64>();         // Total Alpha available for farm bonus
   emissionRatio = GlobalState<uint64>();       // Multiplier for dynamic rate: rate = farmBalance * emissionRatio / totalAlpha
+  farmSchedules = GlobalState<arc4.StaticArray<FarmSchedule, 3>>(); // Time-based farm campaigns, compounded independent of swaps
+
+  // Time-locked deposits - boost shares in exchange for locked principal (box mode only)
+  lockTiers = GlobalState<arc4.StaticArray<LockTier, 3>>(); // Creator-configured lock durations and their boosts
+
+  // Exit fee - decays to zero over exitFeePeriod after deposit, left in totalAlpha for the remaining shareholders (box mode only)
+  exitFeeBps = GlobalState<uint64>();         // Exit fee right after depositing (0 = disabled)
+  exitFeePeriod = GlobalState<uint64>();      // Seconds for the exit fee to decay to zero
+
+  // Zap deposits - USDC swapped into Alpha on the way in
+  zapPoolAppId = GlobalState<uint64>();       // Tinyman V2 USDC/Alpha pool app ID (0 = zaps disabled)
+  zapPoolAddress = GlobalState<Account>();    // Zap pool address
 
   // Setup guard
   assetsOptedIn = GlobalState<uint64>();      // 1 if assets are opted in, 0 otherwise
 
+  // Tokenized shares (0 = shares tracked in position boxes)
+  shareAsset = GlobalState<uint64>();         // Share ASA ID minted by the vault in optInAssetsWithShareToken
+
+  // Emergency pause (deposits, compounding and farm contributions only)
+  guardianAddress = GlobalState<Account>();   // Can pause the vault (defaults to rarefiAddress)
+  pausedUntil = GlobalState<uint64>();        // Timestamp the pause expires at (0 = not paused)
+
   // ============================================
-  // LOCAL STATE (per user)
+  // BOX STORAGE (per user)
   // ============================================
 
-  userShares = LocalState<uint64>();         // User's share balance (represents proportional ownership)
+  userShares = BoxMap<Account, SharePosition>({ keyPrefix: 'p' }); // User address -> share balance (box mode only)
+  locks = BoxMap<Account, LockPosition>({ keyPrefix: 'l' }); // User address -> locked shares (created by depositLocked)
 
   // ============================================
   // HELPER FUNCTIONS
@@ -88,6 +190,24 @@ export class RareFiAlphaCompoundingVault extends arc4.Contract {
     return q_lo;
   }
 
+  /**
+   * Returns ceil(n1 * n2 / d)
+   */
+  private mulDivCeil(n1: uint64, n2: uint64, d: uint64): uint64 {
+    const [hi, lo] = mulw(n1, n2);
+    const [q_hi, q_lo, r_hi, r_lo] = divmodw(hi, lo, Uint64(0), d);
+    assert(q_hi === Uint64(0), 'Multiplication overflow in mulDivCeil');
+    return r_hi === Uint64(0) && r_lo === Uint64(0) ? q_lo : q_lo + Uint64(1);
+  }
+
+  /**
+   * Reject the call while a guardian pause is active
+   * Withdraw and closeOut never call this, so users can always exit
+   */
+  private assertNotPaused(): void {
+    assert(Global.latestTimestamp >= this.pausedUntil.value, 'Vault is paused');
+  }
+
   /**
    * Calculate dynamic farm emission rate based on farmBalance / totalAlpha ratio
    * Rate = farmBalance * emissionRatio / totalAlpha, floored at 10% when farm has balance
@@ -104,38 +224,292 @@ export class RareFiAlphaCompoundingVault extends arc4.Contract {
     return dynamicRate < MIN_FARM_EMISSION_BPS ? MIN_FARM_EMISSION_BPS : dynamicRate;
   }
 
+  /**
+   * Amount of a farm schedule vested at `now` (linear between startTime and endTime)
+   */
+  private vestedFarmAmount(schedule: FarmSchedule, now: uint64): uint64 {
+    const startTime = schedule.startTime.asUint64();
+    const endTime = schedule.endTime.asUint64();
+    const amount = schedule.amount.asUint64();
+
+    if (now <= startTime) {
+      return Uint64(0);
+    }
+    if (now >= endTime) {
+      return amount;
+    }
+    return this.mulDivFloor(amount, now - startTime, endTime - startTime);
+  }
+
+  /**
+   * Vault cut of the farm schedule amounts vested since the last accrual
+   * Lets read-only methods price shares as if accrueFarmSchedules had just run (0 right after it runs)
+   */
+  private pendingFarmAlpha(): uint64 {
+    if (this.totalShares.value === Uint64(0)) {
+      return Uint64(0);
+    }
+
+    const now = Global.latestTimestamp;
+    const schedules = clone(this.farmSchedules.value);
+    let vested: uint64 = Uint64(0);
+    for (let i: uint64 = Uint64(0); i < MAX_FARM_SCHEDULES; i++) {
+      const schedule = clone(schedules[i]);
+      vested = vested + this.vestedFarmAmount(clone(schedule), now) - schedule.released.asUint64();
+    }
+    return vested - this.mulDivFloor(vested, this.creatorFeeRate.value, FEE_PERCENT_BASE);
+  }
+
+  /**
+   * Compound vested farm schedule amounts into totalAlpha, with the same creator fee as the compound farm bonus
+   * Must run before shares are minted or burned; amounts that vest while the vault is empty move to farmBalance
+   */
+  private accrueFarmSchedules(): void {
+    const now = Global.latestTimestamp;
+    const schedules = clone(this.farmSchedules.value);
+    let released: uint64 = Uint64(0);
+
+    for (let i: uint64 = Uint64(0); i < MAX_FARM_SCHEDULES; i++) {
+      const schedule = clone(schedules[i]);
+      const vested = this.vestedFarmAmount(clone(schedule), now);
+      released = released + vested - schedule.released.asUint64();
+
+      if (vested === schedule.amount.asUint64()) {
+        // Fully released (or already empty): free the slot
+        schedules[i] = new FarmSchedule({
+          startTime: new arc4.Uint64(0),
+          endTime: new arc4.Uint64(0),
+          amount: new arc4.Uint64(0),
+          released: new arc4.Uint64(0),
+        });
+      } else {
+        schedule.released = new arc4.Uint64(vested);
+        schedules[i] = clone(schedule);
+      }
+    }
+    this.farmSchedules.value = clone(schedules);
+
+    if (released === Uint64(0)) {
+      return;
+    }
+
+    if (this.totalShares.value === Uint64(0)) {
+      this.farmBalance.value = this.farmBalance.value + released;
+      return;
+    }
+
+    const creatorCut: uint64 = this.mulDivFloor(released, this.creatorFeeRate.value, FEE_PERCENT_BASE);
+    this.creatorUnclaimedAlpha.value = this.creatorUnclaimedAlpha.value + creatorCut;
+    this.totalAlpha.value = this.totalAlpha.value + released - creatorCut;
+    this.totalYieldCompounded.value = this.totalYieldCompounded.value + released;
+
+    emit('FarmStreamed', released, creatorCut);
+  }
+
+  /**
+   * Validate the Alpha transfer preceding a farm contribution and return its amount
+   */
+  private receiveFarmContribution(): uint64 {
+    const appAddr: Account = Global.currentApplicationAddress;
+    const currentIndex = Txn.groupIndex;
+    assert(currentIndex >= Uint64(1), 'App call must follow asset transfer');
+
+    // Validate the contribution transfer
+    const farmTransfer = gtxn.AssetTransferTxn(currentIndex - Uint64(1));
+    assert(farmTransfer.xferAsset === Asset(this.alphaAsset.value), 'Must transfer Alpha asset');
+    assert(farmTransfer.assetReceiver === appAddr, 'Must send to contract');
+    assert(farmTransfer.sender === Txn.sender, 'Transfer must be from caller');
+
+    // SECURITY: Prevent phishing attacks - reject dangerous fields
+    assert(farmTransfer.rekeyTo === Global.zeroAddress, 'rekeyTo must be zero');
+    assert(farmTransfer.assetCloseTo === Global.zeroAddress, 'assetCloseTo must be zero');
+
+    const amount = farmTransfer.assetAmount;
+    assert(amount > Uint64(0), 'Contribution must be positive');
+    return amount;
+  }
+
   /**
    * Convert Alpha amount to shares
    * shares = (alphaAmount * totalShares) / totalAlpha
    * If first deposit, 1:1 ratio (no scaling needed)
+   * totalAlpha includes farm schedule amounts vested since the last accrual and the boost shares' basis
    */
   private alphaToShares(alphaAmount: uint64): uint64 {
     if (this.totalShares.value === Uint64(0)) {
       // First depositor: 1:1 shares, no multiplication needed
       return alphaAmount;
     }
-    return this.mulDivFloor(alphaAmount, this.totalShares.value, this.totalAlpha.value);
+    const totalAlpha: uint64 = this.totalAlpha.value + this.pendingFarmAlpha() + this.totalBonusBasis.value;
+    return this.mulDivFloor(alphaAmount, this.totalShares.value, totalAlpha);
   }
 
   /**
    * Convert shares to Alpha amount
    * alphaAmount = (shares * totalAlpha) / totalShares
+   * totalAlpha includes farm schedule amounts vested since the last accrual and the boost shares' basis
    */
   private sharesToAlpha(shares: uint64): uint64 {
     if (this.totalShares.value === Uint64(0)) {
       return Uint64(0);
     }
-    return this.mulDivFloor(shares, this.totalAlpha.value, this.totalShares.value);
+    const totalAlpha: uint64 = this.totalAlpha.value + this.pendingFarmAlpha() + this.totalBonusBasis.value;
+    return this.mulDivFloor(shares, totalAlpha, this.totalShares.value);
   }
 
   /**
-   * Calculate expected swap output by reading Tinyman V2 pool state
-   * Pool is USDC/Alpha
+   * Share balance of a user: share ASA holding in tokenized mode, position box otherwise
    */
-  private getExpectedSwapOutput(inputAmount: uint64): uint64 {
-    const poolApp = this.tinymanPoolAppId.value;
-    const poolAddr = this.tinymanPoolAddress.value;
+  private getShareBalance(user: Account): uint64 {
+    if (this.shareAsset.value !== Uint64(0)) {
+      const [balance, optedIn] = AssetHolding.assetBalance(user, this.shareAsset.value);
+      return optedIn ? balance : Uint64(0);
+    }
+    if (!this.userShares(user).exists) {
+      return Uint64(0);
+    }
+    return this.userShares(user).value.shares.asUint64();
+  }
+
+  /**
+   * Add and remove shares in a user's position box
+   */
+  private addShares(user: Account, added: uint64, removed: uint64): void {
+    const position = clone(this.userShares(user).value);
+    position.shares = new arc4.Uint64(position.shares.asUint64() + added - removed);
+    this.userShares(user).value = clone(position);
+  }
+
+  /**
+   * Current exit fee rate of a position, decaying linearly from exitFeeBps at depositTime to 0 after exitFeePeriod
+   */
+  private currentExitFeeBps(position: SharePosition): uint64 {
+    const period = this.exitFeePeriod.value;
+    const held: uint64 = Global.latestTimestamp - position.depositTime.asUint64();
+    if (this.exitFeeBps.value === Uint64(0) || held >= period) {
+      return Uint64(0);
+    }
+    return this.mulDivFloor(this.exitFeeBps.value, period - held, period);
+  }
+
+  /**
+   * Exit fee withheld from a box-mode redemption; it stays in totalAlpha, raising the share price
+   * Call after the redeemed shares are removed from totalShares; waived if no shares are left
+   * @returns Alpha withheld from the redemption
+   */
+  private chargeExitFee(user: Account, position: SharePosition, alphaAmount: uint64): uint64 {
+    if (this.totalShares.value === Uint64(0)) {
+      return Uint64(0);
+    }
+    const fee = this.mulDivFloor(alphaAmount, this.currentExitFeeBps(position), FEE_BPS_BASE);
+    if (fee === Uint64(0)) {
+      return Uint64(0);
+    }
+    emit('ExitFeeCharged', user, fee);
+    return fee;
+  }
+
+  /**
+   * Boost of the lock tier with this duration (fails if no tier has it)
+   */
+  private lockTierBoost(duration: uint64): uint64 {
+    const tiers = clone(this.lockTiers.value);
+    let boostBps: uint64 = Uint64(0);
+    for (let i: uint64 = Uint64(0); i < MAX_LOCK_TIERS; i++) {
+      if (tiers[i].duration.asUint64() === duration) {
+        boostBps = tiers[i].boostBps.asUint64();
+      }
+    }
+    assert(boostBps !== Uint64(0), 'Unknown lock duration');
+    return boostBps;
+  }
+
+  /**
+   * Shares of a user's position that can't be redeemed yet
+   * Unwinds an expired lock first: boost shares worth their basis are burned and the rest become regular shares,
+   * so the user keeps the compounded growth on the basis but not the basis itself
+   * Call after accrueFarmSchedules
+   */
+  private settleLock(user: Account): uint64 {
+    if (!this.locks(user).exists) {
+      return Uint64(0);
+    }
+    const lock = clone(this.locks(user).value);
+    const bonusShares = lock.bonusShares.asUint64();
+    if (Global.latestTimestamp < lock.lockedUntil.asUint64()) {
+      return lock.lockedShares.asUint64() + bonusShares;
+    }
+    if (lock.lockedShares.asUint64() === Uint64(0) && bonusShares === Uint64(0)) {
+      return Uint64(0);
+    }
+
+    // Burning at the current price leaves every other holder's share value unchanged
+    const basis = lock.bonusBasis.asUint64();
+    let burned = this.mulDivCeil(basis, this.totalShares.value, this.totalAlpha.value + this.totalBonusBasis.value);
+    if (burned > bonusShares) {
+      burned = bonusShares;
+    }
+    this.totalShares.value = this.totalShares.value - burned;
+    this.totalBonusBasis.value = this.totalBonusBasis.value - basis;
+    this.addShares(user, Uint64(0), burned);
+
+    this.locks(user).value = new LockPosition({
+      lockedUntil: new arc4.Uint64(0),
+      lockedShares: new arc4.Uint64(0),
+      bonusShares: new arc4.Uint64(0),
+      bonusBasis: new arc4.Uint64(0),
+    });
+
+    emit('LockReleased', user, burned);
+    return Uint64(0);
+  }
+
+  /**
+   * Verify the setup payment and opt the vault into Alpha and USDC
+   */
+  private optInVaultAssets(totalRequired: uint64): void {
+    assert(Txn.sender === this.creatorAddress.value, 'Only creator can opt-in assets');
+    assert(this.assetsOptedIn.value === Uint64(0), 'Assets already opted in');
+
+    const appAddr: Account = Global.currentApplicationAddress;
+
+    // Verify payment covers setup requirement
+    const currentIndex = Txn.groupIndex;
+    assert(currentIndex >= Uint64(1), 'App call must follow payment');
+
+    const algoPayment = gtxn.PaymentTxn(currentIndex - Uint64(1));
+    assert(algoPayment.receiver === appAddr, 'Payment must be to app');
+    assert(algoPayment.amount >= totalRequired, 'Insufficient ALGO for setup');
+    assert(algoPayment.sender === Txn.sender, 'Payment must be from caller');
+
+    // SECURITY: Prevent phishing attacks - reject dangerous fields
+    assert(algoPayment.rekeyTo === Global.zeroAddress, 'rekeyTo must be zero');
+    assert(algoPayment.closeRemainderTo === Global.zeroAddress, 'closeRemainderTo must be zero');
 
+    // Opt-in to Alpha asset
+    itxn.assetTransfer({
+      assetReceiver: appAddr,
+      xferAsset: Asset(this.alphaAsset.value),
+      assetAmount: Uint64(0),
+      fee: Uint64(0),
+    }).submit();
+
+    // Opt-in to USDC asset
+    itxn.assetTransfer({
+      assetReceiver: appAddr,
+      xferAsset: Asset(this.usdcAsset.value),
+      assetAmount: Uint64(0),
+      fee: Uint64(0),
+    }).submit();
+
+    this.assetsOptedIn.value = Uint64(1);
+  }
+
+  /**
+   * Calculate the output of a single Tinyman V2 pool swap
+   * inputAssetId 0 = ALGO
+   */
+  private getPoolSwapOutput(poolApp: uint64, poolAddr: Account, inputAssetId: uint64, inputAmount: uint64): uint64 {
     // Read pool state from local state of pool address
     const [asset1Id, hasAsset1Id] = AppLocal.getExUint64(poolAddr, poolApp, Bytes('asset_1_id'));
     assert(hasAsset1Id, 'Cannot read pool asset_1_id');
@@ -149,16 +523,16 @@ export class RareFiAlphaCompoundingVault extends arc4.Contract {
     const [totalFeeShare, hasTotalFeeShare] = AppLocal.getExUint64(poolAddr, poolApp, Bytes('total_fee_share'));
     assert(hasTotalFeeShare, 'Cannot read pool total_fee_share');
 
-    // Determine which asset is input (USDC) and which is output (Alpha)
+    // Determine which asset is input and which is output
     let inputReserves: uint64;
     let outputReserves: uint64;
 
-    if (asset1Id === this.usdcAsset.value) {
-      // USDC is asset_1, Alpha is asset_2
+    if (asset1Id === inputAssetId) {
+      // Input is asset_1, output is asset_2
       inputReserves = asset1Reserves;
       outputReserves = asset2Reserves;
     } else {
-      // Alpha is asset_1, USDC is asset_2
+      // Output is asset_1, input is asset_2
       inputReserves = asset2Reserves;
       outputReserves = asset1Reserves;
     }
@@ -174,43 +548,238 @@ export class RareFiAlphaCompoundingVault extends arc4.Contract {
   }
 
   /**
-   * Execute USDC -> Alpha swap, apply farm bonus, split fees, update vault state
-   * Shared by deposit (auto-compound) and compoundYield
+   * Calculate expected swap output by reading Tinyman V2 pool state
+   * Pool is USDC/Alpha, or USDC/ALGO chained with the ALGO/Alpha hop pool
    */
-  private executeCompound(usdcBalance: uint64, slippageBps: uint64): void {
-    const appAddr: Account = Global.currentApplicationAddress;
+  private getExpectedSwapOutput(inputAmount: uint64): uint64 {
+    const firstHopOutput = this.getPoolSwapOutput(
+      this.tinymanPoolAppId.value,
+      this.tinymanPoolAddress.value,
+      this.usdcAsset.value,
+      inputAmount
+    );
 
-    // Calculate expected output ON-CHAIN by reading pool state
-    const expectedOutput = this.getExpectedSwapOutput(usdcBalance);
-    assert(expectedOutput > Uint64(0), 'Expected output is zero');
+    if (this.hopPoolAppId.value === Uint64(0)) {
+      return firstHopOutput;
+    }
 
-    // Apply slippage tolerance
-    const minAmountOut = this.mulDivFloor(expectedOutput, FEE_BPS_BASE - slippageBps, FEE_BPS_BASE);
+    return this.getPoolSwapOutput(
+      this.hopPoolAppId.value,
+      this.hopPoolAddress.value,
+      ALGO_ASSET_ID,
+      firstHopOutput
+    );
+  }
 
-    // Record Alpha balance before swap
-    const alphaBefore = Asset(this.alphaAsset.value).balance(appAddr);
+  /**
+   * a - b modulo 2^64 (priceCumulative wraps on overflow)
+   */
+  private wrappingSub(a: uint64, b: uint64): uint64 {
+    if (a >= b) {
+      return a - b;
+    }
+    return MAX_UINT64 - b + a + Uint64(1);
+  }
 
-    // Execute Tinyman V2 swap: USDC -> Alpha
+  /**
+   * Record a price observation for the TWAP oracle
+   * Accumulates the previous spot price over the elapsed time, rolls the TWAP once
+   * TWAP_WINDOW has passed, then stores the current spot price (clamped to the TWAP band)
+   * The first observation seeds the TWAP at the current spot price; swaps in the same
+   * round would only be compared against themselves, so the guard rejects them
+   *
+   * @returns Current creation-route spot price (output for PRICE_PROBE_AMOUNT)
+   */
+  private updatePriceObservation(): uint64 {
+    const now = Global.latestTimestamp;
+    const spotPrice = this.getExpectedSwapOutput(PRICE_PROBE_AMOUNT);
+
+    if (this.lastObservationTime.value === Uint64(0)) {
+      this.twapPrice.value = spotPrice;
+      this.twapAnchorCumulative.value = this.priceCumulative.value;
+      this.twapAnchorTime.value = now;
+      this.twapSeedRound.value = Global.round;
+    } else if (now > this.lastObservationTime.value) {
+      const [, weightedPrice] = mulw(this.lastSpotPrice.value, now - this.lastObservationTime.value);
+      const [, cumulative] = addw(this.priceCumulative.value, weightedPrice);
+      this.priceCumulative.value = cumulative;
+
+      const windowElapsed: uint64 = now - this.twapAnchorTime.value;
+      if (windowElapsed >= TWAP_WINDOW) {
+        this.twapPrice.value = this.wrappingSub(cumulative, this.twapAnchorCumulative.value) / windowElapsed;
+        this.twapAnchorCumulative.value = cumulative;
+        this.twapAnchorTime.value = now;
+      }
+    }
+
+    // Weighted over the whole gap to the next observation, so keep it inside the swap band
+    this.lastSpotPrice.value = this.clampToTwapBand(spotPrice);
+    this.lastObservationTime.value = now;
+    return spotPrice;
+  }
+
+  /**
+   * Clamp a spot price to within maxPriceDeviationBps of the TWAP
+   * A spot skewed for a single observation then moves the TWAP at most as far as the swap guard already allows
+   */
+  private clampToTwapBand(spotPrice: uint64): uint64 {
+    const twap = this.twapPrice.value;
+    const band = this.mulDivFloor(twap, this.maxPriceDeviationBps.value, FEE_BPS_BASE);
+    if (spotPrice > twap + band) {
+      return twap + band;
+    }
+    if (spotPrice + band < twap) {
+      return twap - band;
+    }
+    return spotPrice;
+  }
+
+  /**
+   * Spot price (output for PRICE_PROBE_AMOUNT) of route 0 or candidatePools[routeIndex - 1]
+   */
+  private getRouteSpotPrice(routeIndex: uint64): uint64 {
+    if (routeIndex === Uint64(0)) {
+      return this.getExpectedSwapOutput(PRICE_PROBE_AMOUNT);
+    }
+    const pool = clone(this.candidatePools.value[routeIndex - Uint64(1)]);
+    return this.getPoolSwapOutput(pool.poolAppId.asUint64(), pool.poolAddress.native, this.usdcAsset.value, PRICE_PROBE_AMOUNT);
+  }
+
+  /**
+   * Fail if a spot price deviates from the TWAP by more than maxPriceDeviationBps (either direction)
+   * Also fails in the round the TWAP was seeded, when it only reflects that same spot price
+   */
+  private assertPriceNearTwap(spotPrice: uint64): void {
+    assert(this.twapSeedRound.value !== Global.round, 'TWAP seeded this round');
+    const twap = this.twapPrice.value;
+    const deviation: uint64 = spotPrice > twap ? spotPrice - twap : twap - spotPrice;
+    const maxDeviation = this.mulDivFloor(twap, this.maxPriceDeviationBps.value, FEE_BPS_BASE);
+    assert(deviation <= maxDeviation, 'Spot price deviates from TWAP');
+  }
+
+  /**
+   * Pick the route with the highest expected Alpha output
+   * Route 0 is the creation route (tinymanPool, plus hopPool if set); route i is candidatePools[i - 1]
+   *
+   * @param inputAmount - Amount of USDC to swap
+   * @returns [routeIndex, poolAppId, expectedOutput]
+   */
+  private getBestRoute(inputAmount: uint64): [uint64, uint64, uint64] {
+    let bestRoute: uint64 = Uint64(0);
+    let bestPoolAppId: uint64 = this.tinymanPoolAppId.value;
+    let bestOutput: uint64 = this.getExpectedSwapOutput(inputAmount);
+
+    const pools = clone(this.candidatePools.value);
+    for (let i: uint64 = Uint64(0); i < MAX_CANDIDATE_POOLS; i++) {
+      const poolAppId = pools[i].poolAppId.asUint64();
+      if (poolAppId !== Uint64(0)) {
+        const output = this.getPoolSwapOutput(poolAppId, pools[i].poolAddress.native, this.usdcAsset.value, inputAmount);
+        if (output > bestOutput) {
+          bestRoute = i + Uint64(1);
+          bestPoolAppId = poolAppId;
+          bestOutput = output;
+        }
+      }
+    }
+
+    return [bestRoute, bestPoolAppId, bestOutput];
+  }
+
+  /**
+   * Swap USDC -> Alpha through a single Tinyman V2 pool
+   */
+  private swapUsdcViaPool(poolAppId: uint64, poolAddress: Account, amount: uint64, minAmountOut: uint64): void {
     itxn.submitGroup(
       itxn.assetTransfer({
-        assetReceiver: this.tinymanPoolAddress.value,
+        assetReceiver: poolAddress,
         xferAsset: Asset(this.usdcAsset.value),
-        assetAmount: usdcBalance,
+        assetAmount: amount,
         fee: Uint64(0),
       }),
       itxn.applicationCall({
-        appId: Application(this.tinymanPoolAppId.value),
+        appId: Application(poolAppId),
         appArgs: [Bytes('swap'), Bytes('fixed-input'), itob(minAmountOut)],
         assets: [Asset(this.alphaAsset.value)],
-        accounts: [this.tinymanPoolAddress.value],
+        accounts: [poolAddress],
         fee: Uint64(0),
       }),
     );
+  }
+
+  /**
+   * Execute USDC -> Alpha swap, apply farm bonus, split fees, update vault state
+   * Shared by deposit (auto-compound, creation route) and compoundYield (best route)
+   *
+   * Callers check the route's spot price against the TWAP first
+   *
+   * @param routeIndex - 0 = creation route, i = candidatePools[i - 1]
+   * @param expectedOutput - Quote for usdcBalance on that route
+   * @param minAmountOut - Caller-supplied absolute output floor (0 = slippageBps only)
+   */
+  private executeCompound(usdcBalance: uint64, slippageBps: uint64, routeIndex: uint64, expectedOutput: uint64, minAmountOut: uint64): void {
+    const appAddr: Account = Global.currentApplicationAddress;
+
+    assert(expectedOutput > Uint64(0), 'Expected output is zero');
+
+    // Apply slippage tolerance; an absolute floor from the caller is enforced on top of it
+    assert(expectedOutput >= minAmountOut, 'Quote below minAmountOut');
+    const slippageMin = this.mulDivFloor(expectedOutput, FEE_BPS_BASE - slippageBps, FEE_BPS_BASE);
+    const swapMin: uint64 = slippageMin > minAmountOut ? slippageMin : minAmountOut;
+
+    // Record Alpha balance before swap
+    const alphaBefore = Asset(this.alphaAsset.value).balance(appAddr);
+
+    if (routeIndex !== Uint64(0)) {
+      // Allowlisted candidate pool: single USDC -> Alpha swap
+      const pool = clone(this.candidatePools.value[routeIndex - Uint64(1)]);
+      this.swapUsdcViaPool(pool.poolAppId.asUint64(), pool.poolAddress.native, usdcBalance, swapMin);
+    } else if (this.hopPoolAppId.value === Uint64(0)) {
+      // Execute Tinyman V2 swap: USDC -> Alpha
+      this.swapUsdcViaPool(this.tinymanPoolAppId.value, this.tinymanPoolAddress.value, usdcBalance, swapMin);
+    } else {
+      // Routed swap, first hop: USDC -> ALGO (slippage is enforced on the final Alpha output)
+      const algoBefore: uint64 = appAddr.balance;
+      itxn.submitGroup(
+        itxn.assetTransfer({
+          assetReceiver: this.tinymanPoolAddress.value,
+          xferAsset: Asset(this.usdcAsset.value),
+          assetAmount: usdcBalance,
+          fee: Uint64(0),
+        }),
+        itxn.applicationCall({
+          appId: Application(this.tinymanPoolAppId.value),
+          appArgs: [Bytes('swap'), Bytes('fixed-input'), itob(Uint64(1))],
+          assets: [Asset(this.usdcAsset.value)],
+          accounts: [this.tinymanPoolAddress.value],
+          fee: Uint64(0),
+        }),
+      );
+
+      // Inner txn fees are pooled (fee 0), so the balance delta is exactly the ALGO received
+      const algoReceived: uint64 = appAddr.balance - algoBefore;
+      assert(algoReceived > Uint64(0), 'First hop output is zero');
+
+      // Second hop: ALGO -> Alpha
+      itxn.submitGroup(
+        itxn.payment({
+          receiver: this.hopPoolAddress.value,
+          amount: algoReceived,
+          fee: Uint64(0),
+        }),
+        itxn.applicationCall({
+          appId: Application(this.hopPoolAppId.value),
+          appArgs: [Bytes('swap'), Bytes('fixed-input'), itob(swapMin)],
+          assets: [Asset(this.alphaAsset.value)],
+          accounts: [this.hopPoolAddress.value],
+          fee: Uint64(0),
+        }),
+      );
+    }
 
     // Calculate actual swap output
     const alphaAfter: uint64 = Asset(this.alphaAsset.value).balance(appAddr);
     const swapOutput: uint64 = alphaAfter - alphaBefore;
-    assert(swapOutput >= minAmountOut, 'Swap output below minimum');
+    assert(swapOutput >= swapMin, 'Swap output below minimum');
 
     // Calculate farm bonus using dynamic emission rate
     let farmBonus: uint64 = Uint64(0);
@@ -236,6 +805,8 @@ export class RareFiAlphaCompoundingVault extends arc4.Contract {
 
     // Track total yield compounded
     this.totalYieldCompounded.value = this.totalYieldCompounded.value + totalOutput;
+
+    emit('YieldCompounded', usdcBalance, swapOutput, farmBonus, creatorCut);
   }
 
   // ============================================
@@ -255,6 +826,8 @@ export class RareFiAlphaCompoundingVault extends arc4.Contract {
     maxSlippageBps: uint64,
     tinymanPoolAppId: uint64,
     tinymanPoolAddress: Account,
+    hopPoolAppId: uint64,
+    hopPoolAddress: Account,
     rarefiAddress: Account
   ): void {
     // SECURITY: Prevent rekey attacks on app call
@@ -270,6 +843,7 @@ export class RareFiAlphaCompoundingVault extends arc4.Contract {
     assert(usdcAssetId !== Uint64(0), 'Invalid USDC asset');
     assert(alphaAssetId !== usdcAssetId, 'Alpha and USDC must be different');
     assert(tinymanPoolAppId !== Uint64(0), 'Invalid Tinyman pool app ID');
+    assert(hopPoolAppId !== tinymanPoolAppId, 'Hop pool must differ from Tinyman pool');
 
     // Set asset IDs
     this.alphaAsset.value = alphaAssetId;
@@ -284,6 +858,7 @@ export class RareFiAlphaCompoundingVault extends arc4.Contract {
     // Initialize vault state
     this.totalShares.value = Uint64(0);
     this.totalAlpha.value = Uint64(0);
+    this.totalBonusBasis.value = Uint64(0);
     this.minSwapThreshold.value = minSwapThreshold;
     this.maxSlippageBps.value = maxSlippageBps;
     this.totalYieldCompounded.value = Uint64(0);
@@ -291,13 +866,54 @@ export class RareFiAlphaCompoundingVault extends arc4.Contract {
     // Tinyman integration
     this.tinymanPoolAppId.value = tinymanPoolAppId;
     this.tinymanPoolAddress.value = tinymanPoolAddress;
+    this.hopPoolAppId.value = hopPoolAppId;
+    this.hopPoolAddress.value = hopPoolAddress;
+    const emptyPool = new CandidatePool({
+      poolAppId: new arc4.Uint64(0),
+      poolAddress: new arc4.Address(Global.zeroAddress),
+    });
+    this.candidatePools.value = new arc4.StaticArray<CandidatePool, 2>(clone(emptyPool), clone(emptyPool));
+
+    // Price oracle is seeded by the first observation
+    this.priceCumulative.value = Uint64(0);
+    this.lastSpotPrice.value = Uint64(0);
+    this.lastObservationTime.value = Uint64(0);
+    this.twapAnchorCumulative.value = Uint64(0);
+    this.twapAnchorTime.value = Uint64(0);
+    this.twapPrice.value = Uint64(0);
+    this.twapSeedRound.value = Uint64(0);
+    this.maxPriceDeviationBps.value = DEFAULT_MAX_PRICE_DEVIATION_BPS;
 
     // Initialize farm state
     this.farmBalance.value = Uint64(0);
     this.emissionRatio.value = Uint64(0); // Disabled by default, creator sets via setEmissionRatio
+    const emptySchedule = new FarmSchedule({
+      startTime: new arc4.Uint64(0),
+      endTime: new arc4.Uint64(0),
+      amount: new arc4.Uint64(0),
+      released: new arc4.Uint64(0),
+    });
+    this.farmSchedules.value = new arc4.StaticArray<FarmSchedule, 3>(clone(emptySchedule), clone(emptySchedule), clone(emptySchedule));
+
+    // No lock tiers until the creator configures them
+    const emptyTier = new LockTier({ duration: new arc4.Uint64(0), boostBps: new arc4.Uint64(0) });
+    this.lockTiers.value = new arc4.StaticArray<LockTier, 3>(clone(emptyTier), clone(emptyTier), clone(emptyTier));
+
+    // No exit fee until the creator sets one
+    this.exitFeeBps.value = Uint64(0);
+    this.exitFeePeriod.value = Uint64(0);
+
+    // Zaps are disabled until the creator or RareFi sets a pool
+    this.zapPoolAppId.value = Uint64(0);
+    this.zapPoolAddress.value = Global.zeroAddress;
 
     // Setup guard
     this.assetsOptedIn.value = Uint64(0);
+    this.shareAsset.value = Uint64(0);
+
+    // Emergency pause
+    this.guardianAddress.value = rarefiAddress;
+    this.pausedUntil.value = Uint64(0);
   }
 
   /**
@@ -308,42 +924,36 @@ export class RareFiAlphaCompoundingVault extends arc4.Contract {
   @arc4.abimethod()
   optInAssets(): void {
     assert(Txn.rekeyTo === Global.zeroAddress, 'rekeyTo must be zero');
-    assert(Txn.sender === this.creatorAddress.value, 'Only creator can opt-in assets');
-    assert(this.assetsOptedIn.value === Uint64(0), 'Assets already opted in');
-
-    const appAddr: Account = Global.currentApplicationAddress;
-    const totalRequired: uint64 = Uint64(5_400_000); // 5.4 ALGO
-
-    // Verify payment covers setup requirement
-    const currentIndex = Txn.groupIndex;
-    assert(currentIndex >= Uint64(1), 'App call must follow payment');
-
-    const algoPayment = gtxn.PaymentTxn(currentIndex - Uint64(1));
-    assert(algoPayment.receiver === appAddr, 'Payment must be to app');
-    assert(algoPayment.amount >= totalRequired, 'Insufficient ALGO (need 5.4 ALGO)');
-    assert(algoPayment.sender === Txn.sender, 'Payment must be from caller');
-
-    // SECURITY: Prevent phishing attacks - reject dangerous fields
-    assert(algoPayment.rekeyTo === Global.zeroAddress, 'rekeyTo must be zero');
-    assert(algoPayment.closeRemainderTo === Global.zeroAddress, 'closeRemainderTo must be zero');
+    this.optInVaultAssets(Uint64(5_400_000)); // 5.4 ALGO
+  }
 
-    // Opt-in to Alpha asset
-    itxn.assetTransfer({
-      assetReceiver: appAddr,
-      xferAsset: Asset(this.alphaAsset.value),
-      assetAmount: Uint64(0),
+  /**
+   * Opt the contract into required assets and mint the vault's share ASA (tokenized mode)
+   * Shares are then held as ASA balances: transferable, and users don't opt in to the app.
+   * Must be called by creator after deployment (instead of optInAssets) with:
+   * - 5.5 ALGO payment (5.4 ALGO setup + 0.1 ALGO share ASA MBR)
+   *
+   * Required outer txn fee: 4000 µALGO (outer + 2 opt-ins + share ASA creation)
+   * @returns The share ASA ID
+   */
+  @arc4.abimethod()
+  optInAssetsWithShareToken(): uint64 {
+    assert(Txn.rekeyTo === Global.zeroAddress, 'rekeyTo must be zero');
+    assert(this.exitFeeBps.value === Uint64(0), 'Exit fee set, tokenized shares have no exit fee');
+    this.optInVaultAssets(Uint64(5_500_000)); // 5.5 ALGO
+
+    // Immutable share token: no manager, reserve, freeze or clawback
+    const shareToken = itxn.assetConfig({
+      total: SHARE_TOKEN_SUPPLY,
+      decimals: SHARE_TOKEN_DECIMALS,
+      defaultFrozen: false,
+      assetName: Bytes('RareFi Compounding Share'),
+      unitName: Bytes('rfSHARE'),
       fee: Uint64(0),
-    }).submit();
+    }).submit().createdAsset;
 
-    // Opt-in to USDC asset
-    itxn.assetTransfer({
-      assetReceiver: appAddr,
-      xferAsset: Asset(this.usdcAsset.value),
-      assetAmount: Uint64(0),
-      fee: Uint64(0),
-    }).submit();
-
-    this.assetsOptedIn.value = Uint64(1);
+    this.shareAsset.value = shareToken.id;
+    return shareToken.id;
   }
 
   // ============================================
@@ -351,39 +961,83 @@ export class RareFiAlphaCompoundingVault extends arc4.Contract {
   // ============================================
 
   /**
-   * User opts into the contract to enable local storage
+   * User opens a position box
+   * Expects a payment covering the box MBR in the group before this call
    */
-  @arc4.abimethod({ allowActions: 'OptIn' })
+  @arc4.abimethod()
   optIn(): void {
     assert(Txn.rekeyTo === Global.zeroAddress, 'rekeyTo must be zero');
-    // Initialize local state for user
-    this.userShares(Txn.sender).value = Uint64(0);
+    assert(this.shareAsset.value === Uint64(0), 'Shares are tokenized, opt in to the share ASA instead');
+    assert(!this.userShares(Txn.sender).exists, 'Already opted in');
+
+    const currentIndex = Txn.groupIndex;
+    assert(currentIndex >= Uint64(1), 'App call must follow MBR payment');
+
+    const mbrPayment = gtxn.PaymentTxn(currentIndex - Uint64(1));
+    assert(mbrPayment.sender === Txn.sender, 'Payment must be from caller');
+    assert(mbrPayment.receiver === Global.currentApplicationAddress, 'Payment must be to app');
+    assert(mbrPayment.amount >= POSITION_MBR, 'Insufficient ALGO for position box');
+
+    // SECURITY: Prevent phishing attacks - reject dangerous fields
+    assert(mbrPayment.rekeyTo === Global.zeroAddress, 'rekeyTo must be zero');
+    assert(mbrPayment.closeRemainderTo === Global.zeroAddress, 'closeRemainderTo must be zero');
+
+    // Initialize position for user
+    this.userShares(Txn.sender).value = new SharePosition({
+      shares: new arc4.Uint64(0),
+      depositTime: new arc4.Uint64(0),
+    });
   }
 
   /**
-   * User closes out - withdraws all Alpha (deposit + yield)
+   * User closes out - withdraws all Alpha (deposit + yield),
+   * then deletes the position box (and lock box) and refunds their MBR
+   * The exit fee applies as for withdraw; fails while a lock is active
    */
-  @arc4.abimethod({ allowActions: 'CloseOut' })
+  @arc4.abimethod()
   closeOut(): void {
     assert(Txn.rekeyTo === Global.zeroAddress, 'rekeyTo must be zero');
-    const shares = this.userShares(Txn.sender).value;
+    assert(this.userShares(Txn.sender).exists, 'User not opted in');
+    this.accrueFarmSchedules();
+
+    let refund: uint64 = POSITION_MBR;
+    if (this.locks(Txn.sender).exists) {
+      assert(this.settleLock(Txn.sender) === Uint64(0), 'Deposit is locked');
+      this.locks(Txn.sender).delete();
+      refund = refund + LOCK_MBR;
+    }
+
+    const position = clone(this.userShares(Txn.sender).value);
+    const shares = position.shares.asUint64();
+    this.userShares(Txn.sender).delete();
 
+    let alphaAmount: uint64 = Uint64(0);
     if (shares > Uint64(0)) {
       // Calculate Alpha amount for user's shares
-      const alphaAmount = this.sharesToAlpha(shares);
+      alphaAmount = this.sharesToAlpha(shares);
 
-      // Update global state
+      // Update global state (the exit fee stays in totalAlpha)
       this.totalShares.value = this.totalShares.value - shares;
-      this.totalAlpha.value = this.totalAlpha.value - alphaAmount;
+      const exitFee = this.chargeExitFee(Txn.sender, clone(position), alphaAmount);
+      this.totalAlpha.value = this.totalAlpha.value - alphaAmount + exitFee;
 
       // Transfer Alpha to user
       itxn.assetTransfer({
         assetReceiver: Txn.sender,
         xferAsset: Asset(this.alphaAsset.value),
-        assetAmount: alphaAmount,
+        assetAmount: alphaAmount - exitFee,
         fee: Uint64(0),
       }).submit();
     }
+
+    // Refund position (and lock) box MBR
+    itxn.payment({
+      receiver: Txn.sender,
+      amount: refund,
+      fee: Uint64(0),
+    }).submit();
+
+    emit('CloseOut', Txn.sender, shares, alphaAmount);
   }
 
   // ============================================
@@ -398,29 +1052,107 @@ export class RareFiAlphaCompoundingVault extends arc4.Contract {
    * compounds yield BEFORE processing deposit. This ensures yield goes to
    * existing depositors, not the new one.
    *
+   * Tokenized mode: shares are sent as share ASA (caller must be opted in to it)
+   *
    * @param slippageBps - Slippage tolerance for auto-compound (ignored if no compound needed)
    */
   @arc4.abimethod()
   deposit(slippageBps: uint64): void {
     assert(Txn.rekeyTo === Global.zeroAddress, 'rekeyTo must be zero');
-    assert(slippageBps <= this.maxSlippageBps.value, 'Slippage exceeds maximum allowed');
+    this.processDeposit(Txn.sender, slippageBps);
+  }
 
-    const appAddr: Account = Global.currentApplicationAddress;
-    const usdcBalance = Asset(this.usdcAsset.value).balance(appAddr);
+  /**
+   * Deposit Alpha on behalf of another account (partner apps, treasuries, zaps)
+   * The caller funds the preceding asset transfer; shares are credited to the beneficiary
+   *
+   * Tokenized mode: share tokens are sent to the beneficiary (must be opted in to the share ASA)
+   * Box mode: the beneficiary must already have a share box
+   *
+   * @param beneficiary - Account that receives the shares
+   * @param slippageBps - Slippage tolerance for auto-compound (ignored if no compound needed)
+   */
+  @arc4.abimethod()
+  depositFor(beneficiary: Account, slippageBps: uint64): void {
+    assert(Txn.rekeyTo === Global.zeroAddress, 'rekeyTo must be zero');
+    this.processDeposit(beneficiary, slippageBps);
+  }
 
-    // Auto-compound if threshold met and has existing depositors
-    // This distributes yield to EXISTING shareholders before new deposit is added
-    if (usdcBalance >= this.minSwapThreshold.value && this.totalShares.value > Uint64(0)) {
-      this.executeCompound(usdcBalance, slippageBps);
+  /**
+   * Deposit and lock the minted shares for one of the creator's lock tiers (box mode only)
+   * Mints extra boost shares: (boostBps - 10000) / 10000 of the deposit's shares, backed by a virtual basis
+   * so other holders' share value is unchanged. Boost shares earn compounded yield until the lock is released,
+   * then shares worth the basis are burned. A lock can be extended but never shortened.
+   *
+   * Expects [payment of LOCK_MBR (first lock only), Alpha transfer] in the group before this call
+   *
+   * @param slippageBps - Slippage tolerance for auto-compound (ignored if no compound needed)
+   * @param lockDuration - Lock tier duration in seconds
+   */
+  @arc4.abimethod()
+  depositLocked(slippageBps: uint64, lockDuration: uint64): void {
+    assert(Txn.rekeyTo === Global.zeroAddress, 'rekeyTo must be zero');
+    assert(this.shareAsset.value === Uint64(0), 'Shares are tokenized, locks need position boxes');
+    const boostBps = this.lockTierBoost(lockDuration);
+
+    if (!this.locks(Txn.sender).exists) {
+      const currentIndex = Txn.groupIndex;
+      assert(currentIndex >= Uint64(2), 'App call must follow MBR payment and asset transfer');
+
+      const mbrPayment = gtxn.PaymentTxn(currentIndex - Uint64(2));
+      assert(mbrPayment.sender === Txn.sender, 'Payment must be from caller');
+      assert(mbrPayment.receiver === Global.currentApplicationAddress, 'Payment must be to app');
+      assert(mbrPayment.amount >= LOCK_MBR, 'Insufficient ALGO for lock box');
+
+      // SECURITY: Prevent phishing attacks - reject dangerous fields
+      assert(mbrPayment.rekeyTo === Global.zeroAddress, 'rekeyTo must be zero');
+      assert(mbrPayment.closeRemainderTo === Global.zeroAddress, 'closeRemainderTo must be zero');
+
+      this.locks(Txn.sender).value = new LockPosition({
+        lockedUntil: new arc4.Uint64(0),
+        lockedShares: new arc4.Uint64(0),
+        bonusShares: new arc4.Uint64(0),
+        bonusBasis: new arc4.Uint64(0),
+      });
     }
 
+    const sharesToMint = this.processDeposit(Txn.sender, slippageBps);
+    this.settleLock(Txn.sender);
+
+    const lock = clone(this.locks(Txn.sender).value);
+    const lockedUntil: uint64 = Global.latestTimestamp + lockDuration;
+    assert(lockedUntil >= lock.lockedUntil.asUint64(), 'Cannot shorten an active lock');
+
+    // Boost shares at the current share price, backed by a basis the vault doesn't hold
+    const bonusShares = this.mulDivFloor(sharesToMint, boostBps - BOOST_BPS_BASE, BOOST_BPS_BASE);
+    const bonusBasis = this.mulDivCeil(bonusShares, this.totalAlpha.value + this.totalBonusBasis.value, this.totalShares.value);
+    this.totalShares.value = this.totalShares.value + bonusShares;
+    this.totalBonusBasis.value = this.totalBonusBasis.value + bonusBasis;
+    this.addShares(Txn.sender, bonusShares, Uint64(0));
+
+    lock.lockedUntil = new arc4.Uint64(lockedUntil);
+    lock.lockedShares = new arc4.Uint64(lock.lockedShares.asUint64() + sharesToMint);
+    lock.bonusShares = new arc4.Uint64(lock.bonusShares.asUint64() + bonusShares);
+    lock.bonusBasis = new arc4.Uint64(lock.bonusBasis.asUint64() + bonusBasis);
+    this.locks(Txn.sender).value = clone(lock);
+
+    emit('Locked', Txn.sender, lockedUntil, sharesToMint, bonusShares);
+  }
+
+  /**
+   * Shared by deposit, depositLocked and depositFor, returns the shares minted
+   * The transfer must come from the caller; shares are credited to user
+   */
+  private processDeposit(user: Account, slippageBps: uint64): uint64 {
+    this.autoCompoundBeforeDeposit(slippageBps, Uint64(0));
+
     // Process the deposit
     const currentIndex = Txn.groupIndex;
     assert(currentIndex >= Uint64(1), 'App call must follow asset transfer');
 
     const depositTransfer = gtxn.AssetTransferTxn(currentIndex - Uint64(1));
     assert(depositTransfer.xferAsset === Asset(this.alphaAsset.value), 'Must transfer Alpha asset');
-    assert(depositTransfer.assetReceiver === appAddr, 'Must send to contract');
+    assert(depositTransfer.assetReceiver === Global.currentApplicationAddress, 'Must send to contract');
     assert(depositTransfer.sender === Txn.sender, 'Transfer must be from caller');
 
     // SECURITY: Prevent phishing attacks - reject dangerous fields
@@ -430,51 +1162,145 @@ export class RareFiAlphaCompoundingVault extends arc4.Contract {
     const amount = depositTransfer.assetAmount;
     assert(amount >= MIN_DEPOSIT_AMOUNT, 'Deposit too small');
 
+    return this.creditDeposit(user, amount);
+  }
+
+  /**
+   * Checks shared by every deposit path, then the auto-compound that must run before new principal is credited
+   *
+   * If USDC balance >= threshold and has existing depositors, compounds yield first so it
+   * goes to existing shareholders, not the new one. While the spot price is away from the
+   * TWAP that compound can't run, so the deposit is rejected instead of minting shares at a stale price.
+   *
+   * @param zapAmount - USDC already received for a zap deposit, which is principal and not compounded as yield
+   */
+  private autoCompoundBeforeDeposit(slippageBps: uint64, zapAmount: uint64): void {
+    this.assertNotPaused();
+    assert(slippageBps <= this.maxSlippageBps.value, 'Slippage exceeds maximum allowed');
+
+    const spotPrice = this.updatePriceObservation();
+
+    // Farm schedules vested so far belong to existing shareholders too
+    this.accrueFarmSchedules();
+
+    const usdcBalance: uint64 = Asset(this.usdcAsset.value).balance(Global.currentApplicationAddress) - zapAmount;
+    if (usdcBalance >= this.minSwapThreshold.value && this.totalShares.value > Uint64(0)) {
+      // Manipulation guard: reject the deposit rather than mint shares ahead of uncompounded yield
+      this.assertPriceNearTwap(spotPrice);
+      this.executeCompound(usdcBalance, slippageBps, Uint64(0), this.getExpectedSwapOutput(usdcBalance), Uint64(0));
+    }
+  }
+
+  /**
+   * Mint shares for Alpha received into the vault, returns the shares minted
+   */
+  private creditDeposit(user: Account, amount: uint64): uint64 {
     // Calculate shares to mint
     const sharesToMint = this.alphaToShares(amount);
     assert(sharesToMint > Uint64(0), 'Shares to mint is zero');
 
     // Update state
-    this.userShares(Txn.sender).value = this.userShares(Txn.sender).value + sharesToMint;
     this.totalShares.value = this.totalShares.value + sharesToMint;
     this.totalAlpha.value = this.totalAlpha.value + amount;
+
+    if (this.shareAsset.value !== Uint64(0)) {
+      // Issue share tokens from the vault's unissued supply
+      itxn.assetTransfer({
+        assetReceiver: user,
+        xferAsset: Asset(this.shareAsset.value),
+        assetAmount: sharesToMint,
+        fee: Uint64(0),
+      }).submit();
+    } else {
+      assert(this.userShares(user).exists, 'User not opted in');
+
+      // A top-up moves the exit fee clock towards now in proportion to its size
+      const position = clone(this.userShares(user).value);
+      const previousShares = position.shares.asUint64();
+      const depositTime = position.depositTime.asUint64();
+      position.shares = new arc4.Uint64(previousShares + sharesToMint);
+      position.depositTime = new arc4.Uint64(
+        depositTime + this.mulDivFloor(Global.latestTimestamp - depositTime, sharesToMint, previousShares + sharesToMint)
+      );
+      this.userShares(user).value = clone(position);
+    }
+
+    emit('Deposit', user, amount, sharesToMint);
+    return sharesToMint;
   }
 
   /**
    * User withdraws Alpha from the vault
    * Receives proportional share of vault's Alpha (original deposit + compounded yield)
-   * @param shareAmount - Shares to redeem (0 = withdraw all)
+   *
+   * Tokenized mode: expects a share ASA transfer to the vault before this call;
+   * the transferred amount is redeemed (shareAmount must be 0 or equal to it)
+   *
+   * Box mode: locked shares can't be redeemed until the lock expires; an expired lock is released first.
+   * Within exitFeePeriod of depositing, the decayed exit fee is withheld and left in totalAlpha
+   *
+   * @param shareAmount - Shares to redeem (0 = withdraw all unlocked shares)
    */
   @arc4.abimethod()
   withdraw(shareAmount: uint64): void {
     assert(Txn.rekeyTo === Global.zeroAddress, 'rekeyTo must be zero');
-    const userShareBalance = this.userShares(Txn.sender).value;
     let sharesToRedeem = shareAmount;
+    this.accrueFarmSchedules();
 
-    // If amount is 0, withdraw all
-    if (sharesToRedeem === Uint64(0)) {
-      sharesToRedeem = userShareBalance;
-    }
+    if (this.shareAsset.value !== Uint64(0)) {
+      const currentIndex = Txn.groupIndex;
+      assert(currentIndex >= Uint64(1), 'App call must follow share transfer');
+
+      const shareTransfer = gtxn.AssetTransferTxn(currentIndex - Uint64(1));
+      assert(shareTransfer.xferAsset === Asset(this.shareAsset.value), 'Must transfer share asset');
+      assert(shareTransfer.assetReceiver === Global.currentApplicationAddress, 'Must send to contract');
+      assert(shareTransfer.sender === Txn.sender, 'Transfer must be from caller');
+
+      // SECURITY: Prevent phishing attacks - reject dangerous fields
+      assert(shareTransfer.rekeyTo === Global.zeroAddress, 'rekeyTo must be zero');
+      assert(shareTransfer.assetCloseTo === Global.zeroAddress, 'assetCloseTo must be zero');
+
+      assert(sharesToRedeem === Uint64(0) || sharesToRedeem === shareTransfer.assetAmount, 'Share amount mismatch');
+      sharesToRedeem = shareTransfer.assetAmount;
+      assert(sharesToRedeem > Uint64(0), 'Nothing to withdraw');
+    } else {
+      const lockedShares = this.settleLock(Txn.sender);
+      const userShareBalance = this.getShareBalance(Txn.sender);
 
-    assert(sharesToRedeem > Uint64(0), 'Nothing to withdraw');
-    assert(sharesToRedeem <= userShareBalance, 'Insufficient shares');
+      // If amount is 0, withdraw all unlocked shares
+      if (sharesToRedeem === Uint64(0)) {
+        sharesToRedeem = userShareBalance - lockedShares;
+        assert(sharesToRedeem > Uint64(0) || lockedShares === Uint64(0), 'Deposit is locked');
+      }
+
+      assert(sharesToRedeem > Uint64(0), 'Nothing to withdraw');
+      assert(sharesToRedeem <= userShareBalance, 'Insufficient shares');
+      assert(sharesToRedeem <= userShareBalance - lockedShares, 'Deposit is locked');
+
+      this.addShares(Txn.sender, Uint64(0), sharesToRedeem);
+    }
 
     // Calculate Alpha amount for shares
     const alphaAmount = this.sharesToAlpha(sharesToRedeem);
     assert(alphaAmount > Uint64(0), 'Alpha amount is zero');
 
-    // Update state
-    this.userShares(Txn.sender).value = userShareBalance - sharesToRedeem;
+    // Update state (the exit fee stays in totalAlpha)
     this.totalShares.value = this.totalShares.value - sharesToRedeem;
-    this.totalAlpha.value = this.totalAlpha.value - alphaAmount;
+    let exitFee: uint64 = Uint64(0);
+    if (this.shareAsset.value === Uint64(0)) {
+      exitFee = this.chargeExitFee(Txn.sender, clone(this.userShares(Txn.sender).value), alphaAmount);
+    }
+    this.totalAlpha.value = this.totalAlpha.value - alphaAmount + exitFee;
 
     // Transfer Alpha to user
     itxn.assetTransfer({
       assetReceiver: Txn.sender,
       xferAsset: Asset(this.alphaAsset.value),
-      assetAmount: alphaAmount,
+      assetAmount: alphaAmount - exitFee,
       fee: Uint64(0),
     }).submit();
+
+    emit('Withdraw', Txn.sender, sharesToRedeem, alphaAmount);
   }
 
   // ============================================
@@ -489,6 +1315,7 @@ export class RareFiAlphaCompoundingVault extends arc4.Contract {
     assert(Txn.rekeyTo === Global.zeroAddress, 'rekeyTo must be zero');
     assert(Txn.sender === this.creatorAddress.value, 'Only creator can claim');
 
+    this.accrueFarmSchedules();
     const claimable = this.creatorUnclaimedAlpha.value;
     assert(claimable > Uint64(0), 'Nothing to claim');
 
@@ -502,6 +1329,8 @@ export class RareFiAlphaCompoundingVault extends arc4.Contract {
       assetAmount: claimable,
       fee: Uint64(0),
     }).submit();
+
+    emit('CreatorClaim', Txn.sender, claimable);
   }
 
   // ============================================
@@ -511,6 +1340,8 @@ export class RareFiAlphaCompoundingVault extends arc4.Contract {
   /**
    * Swaps accumulated USDC to Alpha and compounds into vault
    * The Alpha is added to totalAlpha, increasing the value of all shares
+   * Routes through whichever of the creation route and allowlisted candidate pools quotes
+   * the highest output, and logs the choice as a SwapRouteSelected event
    * Permissionless - anyone can trigger, slippage capped by maxSlippageBps
    *
    * @param slippageBps - Slippage tolerance in basis points (e.g., 50 = 0.5%, 100 = 1%)
@@ -518,6 +1349,29 @@ export class RareFiAlphaCompoundingVault extends arc4.Contract {
   @arc4.abimethod()
   compoundYield(slippageBps: uint64): void {
     assert(Txn.rekeyTo === Global.zeroAddress, 'rekeyTo must be zero');
+    this.processCompoundYield(slippageBps, Uint64(0));
+  }
+
+  /**
+   * compoundYield with an absolute output floor computed off-chain by the keeper
+   * Enforced in addition to slippageBps: the swap fails if either the relative minimum
+   * or minAmountOut is not met, so a pool skewed before the call cannot pass on slippageBps alone
+   *
+   * @param slippageBps - Slippage tolerance in basis points, capped by maxSlippageBps
+   * @param minAmountOut - Minimum Alpha out of the swap (before farm bonus and fees)
+   */
+  @arc4.abimethod()
+  compoundYieldWithMinOut(slippageBps: uint64, minAmountOut: uint64): void {
+    assert(Txn.rekeyTo === Global.zeroAddress, 'rekeyTo must be zero');
+    assert(minAmountOut > Uint64(0), 'minAmountOut must be positive');
+    this.processCompoundYield(slippageBps, minAmountOut);
+  }
+
+  /**
+   * Shared body of compoundYield and compoundYieldWithMinOut
+   */
+  private processCompoundYield(slippageBps: uint64, minAmountOut: uint64): void {
+    this.assertNotPaused();
     assert(slippageBps <= this.maxSlippageBps.value, 'Slippage exceeds maximum allowed');
 
     const appAddr: Account = Global.currentApplicationAddress;
@@ -526,7 +1380,26 @@ export class RareFiAlphaCompoundingVault extends arc4.Contract {
     assert(usdcBalance >= this.minSwapThreshold.value, 'Below minimum swap threshold');
     assert(this.totalShares.value > Uint64(0), 'No depositors to compound for');
 
-    this.executeCompound(usdcBalance, slippageBps);
+    this.updatePriceObservation();
+
+    // Best execution: compare the creation route against allowlisted candidate pools
+    const [routeIndex, poolAppId, expectedOutput] = this.getBestRoute(usdcBalance);
+    emit('SwapRouteSelected', routeIndex, poolAppId, expectedOutput);
+
+    // Manipulation guard: the route's spot price must stay near the TWAP
+    this.assertPriceNearTwap(this.getRouteSpotPrice(routeIndex));
+
+    this.executeCompound(usdcBalance, slippageBps, routeIndex, expectedOutput, minAmountOut);
+  }
+
+  /**
+   * Record a TWAP price observation without swapping
+   * Permissionless - keepers call this between swaps to keep the oracle fresh
+   */
+  @arc4.abimethod()
+  observePrice(): void {
+    assert(Txn.rekeyTo === Global.zeroAddress, 'rekeyTo must be zero');
+    this.updatePriceObservation();
   }
 
   // ============================================
@@ -543,10 +1416,10 @@ export class RareFiAlphaCompoundingVault extends arc4.Contract {
     const appAddr: Account = Global.currentApplicationAddress;
     const usdcBalance = Asset(this.usdcAsset.value).balance(appAddr);
 
-    // Calculate share price (how much Alpha per share, scaled)
+    // Calculate share price (how much Alpha per share, scaled; boost shares are priced against their basis)
     let sharePrice: uint64 = SCALE; // Default 1:1 if no shares
     if (this.totalShares.value > Uint64(0)) {
-      sharePrice = this.mulDivFloor(this.totalAlpha.value, SCALE, this.totalShares.value);
+      sharePrice = this.mulDivFloor(this.totalAlpha.value + this.totalBonusBasis.value, SCALE, this.totalShares.value);
     }
 
     return [
@@ -561,20 +1434,25 @@ export class RareFiAlphaCompoundingVault extends arc4.Contract {
 
   /**
    * Get user's current Alpha balance (shares converted to Alpha)
-   * This includes their original deposit + all compounded yield
+   * This includes their original deposit + all compounded yield, less the basis of any boost shares
    */
   @arc4.abimethod({ readonly: true })
   getUserAlphaBalance(user: Account): uint64 {
-    const shares = this.userShares(user).value;
-    return this.sharesToAlpha(shares);
+    const shares = this.getShareBalance(user);
+    const alpha = this.sharesToAlpha(shares);
+    if (this.shareAsset.value !== Uint64(0) || !this.locks(user).exists) {
+      return alpha;
+    }
+    const basis = this.locks(user).value.bonusBasis.asUint64();
+    return alpha > basis ? alpha - basis : Uint64(0);
   }
 
   /**
-   * Get user's share balance
+   * Get user's share balance (share ASA holding in tokenized mode)
    */
   @arc4.abimethod({ readonly: true })
   getUserShares(user: Account): uint64 {
-    return this.userShares(user).value;
+    return this.getShareBalance(user);
   }
 
   /**
@@ -612,6 +1490,46 @@ export class RareFiAlphaCompoundingVault extends arc4.Contract {
     return [usdcBalance, expectedOutput, minAt50Bps];
   }
 
+  /**
+   * Preview best-execution compound across the creation route and allowlisted candidate pools
+   * Same route selection as compoundYield
+   * @returns [usdcBalance, routeIndex, poolAppId, expectedAlphaOutput] (routeIndex 0 = creation route)
+   */
+  @arc4.abimethod({ readonly: true })
+  getBestSwapQuote(): [uint64, uint64, uint64, uint64] {
+    const appAddr: Account = Global.currentApplicationAddress;
+    const usdcBalance = Asset(this.usdcAsset.value).balance(appAddr);
+
+    if (usdcBalance === Uint64(0)) {
+      return [Uint64(0), Uint64(0), this.tinymanPoolAppId.value, Uint64(0)];
+    }
+
+    const [routeIndex, poolAppId, expectedOutput] = this.getBestRoute(usdcBalance);
+    return [usdcBalance, routeIndex, poolAppId, expectedOutput];
+  }
+
+  /**
+   * Get the candidate pool allowlist (poolAppId 0 = empty slot)
+   */
+  @arc4.abimethod({ readonly: true })
+  getCandidatePools(): arc4.StaticArray<CandidatePool, 2> {
+    return clone(this.candidatePools.value);
+  }
+
+  /**
+   * Get price oracle state (prices are creation-route output for 1 USDC)
+   * @returns [spotPrice, twapPrice, lastObservationTime, maxPriceDeviationBps]
+   */
+  @arc4.abimethod({ readonly: true })
+  getPriceOracle(): [uint64, uint64, uint64, uint64] {
+    return [
+      this.getExpectedSwapOutput(PRICE_PROBE_AMOUNT),
+      this.twapPrice.value,
+      this.lastObservationTime.value,
+      this.maxPriceDeviationBps.value,
+    ];
+  }
+
   // ============================================
   // ADMIN METHODS
   // ============================================
@@ -679,6 +1597,156 @@ export class RareFiAlphaCompoundingVault extends arc4.Contract {
     this.creatorFeeRate.value = newFeeRate;
   }
 
+  /**
+   * Update the maximum spot-vs-TWAP price deviation allowed for swaps
+   * Only callable by creator or RareFi
+   */
+  @arc4.abimethod()
+  updateMaxPriceDeviation(newMaxDeviationBps: uint64): void {
+    assert(Txn.rekeyTo === Global.zeroAddress, 'rekeyTo must be zero');
+    const isCreator = Txn.sender === this.creatorAddress.value;
+    const isRarefi = Txn.sender === this.rarefiAddress.value;
+    assert(isCreator || isRarefi, 'Only creator or RareFi can update');
+    assert(newMaxDeviationBps >= MIN_PRICE_DEVIATION_BPS, 'Price deviation too low (min 1%)');
+    assert(newMaxDeviationBps <= FEE_BPS_BASE, 'Price deviation too high');
+    this.maxPriceDeviationBps.value = newMaxDeviationBps;
+  }
+
+  // ============================================
+  // CANDIDATE POOLS (best-execution routing)
+  // ============================================
+
+  /**
+   * Allowlist an alternative USDC/Alpha pool for compoundYield
+   * Only callable by creator or RareFi
+   *
+   * @param poolAppId - Tinyman V2 pool app ID
+   * @param poolAddress - Pool address holding the pool's local state
+   */
+  @arc4.abimethod()
+  addCandidatePool(poolAppId: uint64, poolAddress: Account): void {
+    assert(Txn.rekeyTo === Global.zeroAddress, 'rekeyTo must be zero');
+    const isCreator = Txn.sender === this.creatorAddress.value;
+    const isRarefi = Txn.sender === this.rarefiAddress.value;
+    assert(isCreator || isRarefi, 'Only creator or RareFi can update');
+    assert(poolAppId !== Uint64(0), 'Invalid pool app ID');
+    assert(poolAddress !== Global.zeroAddress, 'Cannot set zero address');
+    assert(poolAppId !== this.tinymanPoolAppId.value, 'Pool is the creation route');
+
+    // Pool must trade exactly USDC <-> Alpha
+    const [asset1Id, hasAsset1Id] = AppLocal.getExUint64(poolAddress, poolAppId, Bytes('asset_1_id'));
+    assert(hasAsset1Id, 'Cannot read pool asset_1_id');
+    const [asset2Id, hasAsset2Id] = AppLocal.getExUint64(poolAddress, poolAppId, Bytes('asset_2_id'));
+    assert(hasAsset2Id, 'Cannot read pool asset_2_id');
+    const usdcAssetId = this.usdcAsset.value;
+    const alphaAssetId = this.alphaAsset.value;
+    assert(
+      (asset1Id === usdcAssetId && asset2Id === alphaAssetId) || (asset1Id === alphaAssetId && asset2Id === usdcAssetId),
+      'Pool does not trade USDC/Alpha'
+    );
+
+    const pools = clone(this.candidatePools.value);
+    let freeSlot: uint64 = MAX_CANDIDATE_POOLS;
+    for (let i: uint64 = Uint64(0); i < MAX_CANDIDATE_POOLS; i++) {
+      const slotAppId = pools[i].poolAppId.asUint64();
+      assert(slotAppId !== poolAppId, 'Pool already allowlisted');
+      if (slotAppId === Uint64(0) && freeSlot === MAX_CANDIDATE_POOLS) {
+        freeSlot = i;
+      }
+    }
+    assert(freeSlot < MAX_CANDIDATE_POOLS, 'Candidate pool list full');
+
+    pools[freeSlot] = new CandidatePool({
+      poolAppId: new arc4.Uint64(poolAppId),
+      poolAddress: new arc4.Address(poolAddress),
+    });
+    this.candidatePools.value = clone(pools);
+  }
+
+  /**
+   * Remove a pool from the candidate allowlist
+   * Only callable by creator or RareFi
+   */
+  @arc4.abimethod()
+  removeCandidatePool(poolAppId: uint64): void {
+    assert(Txn.rekeyTo === Global.zeroAddress, 'rekeyTo must be zero');
+    const isCreator = Txn.sender === this.creatorAddress.value;
+    const isRarefi = Txn.sender === this.rarefiAddress.value;
+    assert(isCreator || isRarefi, 'Only creator or RareFi can update');
+    assert(poolAppId !== Uint64(0), 'Invalid pool app ID');
+
+    const pools = clone(this.candidatePools.value);
+    let found = false;
+    for (let i: uint64 = Uint64(0); i < MAX_CANDIDATE_POOLS; i++) {
+      if (pools[i].poolAppId.asUint64() === poolAppId) {
+        pools[i] = new CandidatePool({
+          poolAppId: new arc4.Uint64(0),
+          poolAddress: new arc4.Address(Global.zeroAddress),
+        });
+        found = true;
+      }
+    }
+    assert(found, 'Pool not allowlisted');
+    this.candidatePools.value = clone(pools);
+  }
+
+  // ============================================
+  // EMERGENCY PAUSE
+  // ============================================
+
+  /**
+   * Pause deposits, compounding and farm contributions
+   * Only callable by guardian. Withdraw and closeOut stay open.
+   * The pause expires on its own after `duration` seconds (max 7 days)
+   *
+   * @param duration - Pause length in seconds
+   */
+  @arc4.abimethod()
+  pause(duration: uint64): void {
+    assert(Txn.rekeyTo === Global.zeroAddress, 'rekeyTo must be zero');
+    assert(Txn.sender === this.guardianAddress.value, 'Only guardian can pause');
+    assert(duration > Uint64(0), 'Duration must be positive');
+    assert(duration <= MAX_PAUSE_DURATION, 'Pause duration exceeds maximum (7 days)');
+    assert(Global.latestTimestamp >= this.pausedUntil.value, 'Already paused');
+    this.pausedUntil.value = Global.latestTimestamp + duration;
+  }
+
+  /**
+   * Lift an active pause before it expires
+   * Only callable by guardian
+   */
+  @arc4.abimethod()
+  unpause(): void {
+    assert(Txn.rekeyTo === Global.zeroAddress, 'rekeyTo must be zero');
+    assert(Txn.sender === this.guardianAddress.value, 'Only guardian can unpause');
+    this.pausedUntil.value = Uint64(0);
+  }
+
+  /**
+   * Update the guardian address
+   * Only callable by RareFi
+   */
+  @arc4.abimethod()
+  updateGuardian(newGuardianAddress: Account): void {
+    assert(Txn.rekeyTo === Global.zeroAddress, 'rekeyTo must be zero');
+    assert(Txn.sender === this.rarefiAddress.value, 'Only RareFi can update guardian');
+    assert(newGuardianAddress !== Global.zeroAddress, 'Cannot set zero address');
+    this.guardianAddress.value = newGuardianAddress;
+  }
+
+  /**
+   * Get pause state
+   * @returns [isPaused, pausedUntil, secondsRemaining]
+   */
+  @arc4.abimethod({ readonly: true })
+  getPauseState(): [uint64, uint64, uint64] {
+    const now = Global.latestTimestamp;
+    if (now >= this.pausedUntil.value) {
+      return [Uint64(0), this.pausedUntil.value, Uint64(0)];
+    }
+    return [Uint64(1), this.pausedUntil.value, this.pausedUntil.value - now];
+  }
+
   // ============================================
   // FARM FEATURE - Bonus yield distribution
   // ============================================
@@ -693,25 +1761,60 @@ export class RareFiAlphaCompoundingVault extends arc4.Contract {
   @arc4.abimethod()
   contributeFarm(): void {
     assert(Txn.rekeyTo === Global.zeroAddress, 'rekeyTo must be zero');
-    const appAddr: Account = Global.currentApplicationAddress;
-    const currentIndex = Txn.groupIndex;
-    assert(currentIndex >= Uint64(1), 'App call must follow asset transfer');
+    this.assertNotPaused();
+    const amount = this.receiveFarmContribution();
 
-    // Validate the contribution transfer
-    const farmTransfer = gtxn.AssetTransferTxn(currentIndex - Uint64(1));
-    assert(farmTransfer.xferAsset === Asset(this.alphaAsset.value), 'Must transfer Alpha asset');
-    assert(farmTransfer.assetReceiver === appAddr, 'Must send to contract');
-    assert(farmTransfer.sender === Txn.sender, 'Transfer must be from caller');
+    // Add to farm balance
+    this.farmBalance.value = this.farmBalance.value + amount;
 
-    // SECURITY: Prevent phishing attacks - reject dangerous fields
-    assert(farmTransfer.rekeyTo === Global.zeroAddress, 'rekeyTo must be zero');
-    assert(farmTransfer.assetCloseTo === Global.zeroAddress, 'assetCloseTo must be zero');
+    emit('FarmContributed', Txn.sender, amount);
+  }
 
-    const amount = farmTransfer.assetAmount;
-    assert(amount > Uint64(0), 'Contribution must be positive');
+  /**
+   * Contribute Alpha as a farm campaign released linearly from startTime to endTime
+   * Compounded into totalAlpha by time (at every deposit, withdraw and close out), independent of compounds
+   * Only callable by creator or RareFi, since schedule slots are limited
+   *
+   * Expects an asset transfer of alphaAsset before this call
+   *
+   * @param startTime - Release start (a time in the past starts now)
+   * @param endTime - Release end, at most MAX_FARM_SCHEDULE_DURATION after the start
+   */
+  @arc4.abimethod()
+  contributeFarmSchedule(startTime: uint64, endTime: uint64): void {
+    assert(Txn.rekeyTo === Global.zeroAddress, 'rekeyTo must be zero');
+    const isCreator = Txn.sender === this.creatorAddress.value;
+    const isRarefi = Txn.sender === this.rarefiAddress.value;
+    assert(isCreator || isRarefi, 'Only creator or RareFi can schedule farm emissions');
+    this.assertNotPaused();
+    const amount = this.receiveFarmContribution();
+
+    const now = Global.latestTimestamp;
+    const start: uint64 = startTime > now ? startTime : now;
+    assert(endTime > start, 'Schedule must end after it starts');
+    assert(endTime - start <= MAX_FARM_SCHEDULE_DURATION, 'Schedule too long');
+
+    // Frees the slots of finished schedules
+    this.accrueFarmSchedules();
+
+    const schedules = clone(this.farmSchedules.value);
+    let freeSlot: uint64 = MAX_FARM_SCHEDULES;
+    for (let i: uint64 = Uint64(0); i < MAX_FARM_SCHEDULES; i++) {
+      if (schedules[i].amount.asUint64() === Uint64(0) && freeSlot === MAX_FARM_SCHEDULES) {
+        freeSlot = i;
+      }
+    }
+    assert(freeSlot < MAX_FARM_SCHEDULES, 'Farm schedule list full');
 
-    // Add to farm balance
-    this.farmBalance.value = this.farmBalance.value + amount;
+    schedules[freeSlot] = new FarmSchedule({
+      startTime: new arc4.Uint64(start),
+      endTime: new arc4.Uint64(endTime),
+      amount: new arc4.Uint64(amount),
+      released: new arc4.Uint64(0),
+    });
+    this.farmSchedules.value = clone(schedules);
+
+    emit('FarmScheduled', Txn.sender, freeSlot, start, endTime, amount);
   }
 
   /**
@@ -730,19 +1833,266 @@ export class RareFiAlphaCompoundingVault extends arc4.Contract {
     assert(newRatio > Uint64(0), 'Emission ratio must be positive');
 
     this.emissionRatio.value = newRatio;
+
+    emit('EmissionRatioSet', newRatio);
   }
 
   /**
-   * Get farm statistics including dynamic emission rate
-   * @returns [farmBalance, emissionRatio, currentDynamicRate]
+   * Get farm statistics including dynamic emission rate and schedules
+   * scheduledAmount is the total of active schedules, scheduledRemaining what they have yet to vest
+   * @returns [farmBalance, emissionRatio, currentDynamicRate, scheduledAmount, scheduledRemaining]
    */
   @arc4.abimethod({ readonly: true })
-  getFarmStats(): [uint64, uint64, uint64] {
+  getFarmStats(): [uint64, uint64, uint64, uint64, uint64] {
     let currentRate: uint64 = Uint64(0);
     if (this.emissionRatio.value > Uint64(0) && this.farmBalance.value > Uint64(0)) {
       currentRate = this.calculateDynamicEmissionRate();
     }
-    return [this.farmBalance.value, this.emissionRatio.value, currentRate];
+
+    const now = Global.latestTimestamp;
+    const schedules = clone(this.farmSchedules.value);
+    let scheduledAmount: uint64 = Uint64(0);
+    let scheduledRemaining: uint64 = Uint64(0);
+    for (let i: uint64 = Uint64(0); i < MAX_FARM_SCHEDULES; i++) {
+      const amount = schedules[i].amount.asUint64();
+      scheduledAmount = scheduledAmount + amount;
+      scheduledRemaining = scheduledRemaining + amount - this.vestedFarmAmount(clone(schedules[i]), now);
+    }
+
+    return [this.farmBalance.value, this.emissionRatio.value, currentRate, scheduledAmount, scheduledRemaining];
+  }
+
+  /**
+   * Get a farm schedule slot
+   * @returns [startTime, endTime, amount, vested] (all 0 for an empty slot)
+   */
+  @arc4.abimethod({ readonly: true })
+  getFarmSchedule(slot: uint64): [uint64, uint64, uint64, uint64] {
+    assert(slot < MAX_FARM_SCHEDULES, 'Invalid schedule slot');
+    const schedule = clone(this.farmSchedules.value[slot]);
+    return [
+      schedule.startTime.asUint64(),
+      schedule.endTime.asUint64(),
+      schedule.amount.asUint64(),
+      this.vestedFarmAmount(clone(schedule), Global.latestTimestamp),
+    ];
+  }
+
+  // ============================================
+  // TIME-LOCKED DEPOSITS - Boost shares for locked principal
+  // ============================================
+
+  /**
+   * Configure a lock tier offered by depositLocked
+   * Only callable by creator; existing locks keep the boost shares they were minted
+   *
+   * @param slot - Tier slot (0-2)
+   * @param duration - Lock duration in seconds (0 = remove the tier)
+   * @param boostBps - Shares minted per deposit share while locked (10000 = 1x, max 30000)
+   */
+  @arc4.abimethod()
+  setLockTier(slot: uint64, duration: uint64, boostBps: uint64): void {
+    assert(Txn.rekeyTo === Global.zeroAddress, 'rekeyTo must be zero');
+    assert(Txn.sender === this.creatorAddress.value, 'Only creator can set lock tiers');
+    assert(slot < MAX_LOCK_TIERS, 'Invalid lock tier slot');
+
+    const tiers = clone(this.lockTiers.value);
+    if (duration === Uint64(0)) {
+      tiers[slot] = new LockTier({ duration: new arc4.Uint64(0), boostBps: new arc4.Uint64(0) });
+    } else {
+      assert(duration <= MAX_LOCK_DURATION, 'Lock duration too long');
+      assert(boostBps > BOOST_BPS_BASE && boostBps <= MAX_LOCK_BOOST_BPS, 'Boost out of range');
+      for (let i: uint64 = Uint64(0); i < MAX_LOCK_TIERS; i++) {
+        assert(i === slot || tiers[i].duration.asUint64() !== duration, 'Lock duration already offered');
+      }
+      tiers[slot] = new LockTier({ duration: new arc4.Uint64(duration), boostBps: new arc4.Uint64(boostBps) });
+    }
+    this.lockTiers.value = clone(tiers);
+
+    emit('LockTierSet', slot, duration, tiers[slot].boostBps.asUint64());
+  }
+
+  /**
+   * Release an expired lock so its boost shares stop earning on the basis
+   * Permissionless; withdraw and closeOut do the same for the caller's own lock
+   */
+  @arc4.abimethod()
+  releaseLock(user: Account): void {
+    assert(Txn.rekeyTo === Global.zeroAddress, 'rekeyTo must be zero');
+    assert(this.locks(user).exists, 'No boosted lock');
+    const lock = clone(this.locks(user).value);
+    assert(lock.lockedShares.asUint64() > Uint64(0), 'No boosted lock');
+    assert(Global.latestTimestamp >= lock.lockedUntil.asUint64(), 'Deposit is locked');
+
+    this.accrueFarmSchedules();
+    this.settleLock(user);
+  }
+
+  /**
+   * Get the lock tiers (duration 0 = empty slot)
+   */
+  @arc4.abimethod({ readonly: true })
+  getLockTiers(): arc4.StaticArray<LockTier, 3> {
+    return clone(this.lockTiers.value);
+  }
+
+  /**
+   * Get user's lock
+   * @returns [lockedUntil, lockedShares, bonusShares, bonusBasis] (all zero if no lock)
+   */
+  @arc4.abimethod({ readonly: true })
+  getUserLock(user: Account): [uint64, uint64, uint64, uint64] {
+    if (!this.locks(user).exists) {
+      return [Uint64(0), Uint64(0), Uint64(0), Uint64(0)];
+    }
+    const lock = clone(this.locks(user).value);
+    return [
+      lock.lockedUntil.asUint64(),
+      lock.lockedShares.asUint64(),
+      lock.bonusShares.asUint64(),
+      lock.bonusBasis.asUint64(),
+    ];
+  }
+
+  // ============================================
+  // EXIT FEE - Early withdrawal penalty for the remaining shareholders
+  // ============================================
+
+  /**
+   * Set the exit fee charged on box-mode withdrawals, decaying linearly to zero over exitFeePeriod after depositing
+   * Only callable by creator; applies to existing positions from their deposit time
+   * Fails on tokenized vaults: share ASAs carry no deposit time, so redemptions are never charged
+   *
+   * @param exitFeeBps - Fee right after depositing in basis points (0 = disabled, max 500)
+   * @param exitFeePeriod - Seconds for the fee to reach zero (0 = disabled, max 30 days)
+   */
+  @arc4.abimethod()
+  setExitFee(exitFeeBps: uint64, exitFeePeriod: uint64): void {
+    assert(Txn.rekeyTo === Global.zeroAddress, 'rekeyTo must be zero');
+    assert(Txn.sender === this.creatorAddress.value, 'Only creator can set exit fee');
+    assert(this.shareAsset.value === Uint64(0), 'Shares are tokenized, exit fees need position boxes');
+    assert(exitFeeBps <= MAX_EXIT_FEE_BPS, 'Exit fee too high');
+    assert(exitFeePeriod <= MAX_EXIT_FEE_PERIOD, 'Exit fee period too long');
+    assert((exitFeeBps === Uint64(0)) === (exitFeePeriod === Uint64(0)), 'Set both exit fee and period, or neither');
+
+    this.exitFeeBps.value = exitFeeBps;
+    this.exitFeePeriod.value = exitFeePeriod;
+
+    emit('ExitFeeSet', exitFeeBps, exitFeePeriod);
+  }
+
+  /**
+   * Get the exit fee settings and a user's current rate
+   * @returns [exitFeeBps, exitFeePeriod, userFeeBps] (userFeeBps 0 if no position box)
+   */
+  @arc4.abimethod({ readonly: true })
+  getExitFee(user: Account): [uint64, uint64, uint64] {
+    let userFeeBps: uint64 = Uint64(0);
+    if (this.userShares(user).exists) {
+      userFeeBps = this.currentExitFeeBps(clone(this.userShares(user).value));
+    }
+    return [this.exitFeeBps.value, this.exitFeePeriod.value, userFeeBps];
+  }
+
+  // ============================================
+  // ZAP DEPOSIT - Deposit USDC, credited as Alpha
+  // ============================================
+
+  /**
+   * Set the Tinyman V2 pool zapDeposit swaps USDC through (poolAppId 0 disables zaps)
+   * The pool must trade exactly USDC <-> Alpha; it may be the creation route
+   * Only callable by creator or RareFi
+   *
+   * @param poolAppId - Tinyman V2 pool app ID
+   * @param poolAddress - Pool address holding the pool's local state
+   */
+  @arc4.abimethod()
+  setZapPool(poolAppId: uint64, poolAddress: Account): void {
+    assert(Txn.rekeyTo === Global.zeroAddress, 'rekeyTo must be zero');
+    const isCreator = Txn.sender === this.creatorAddress.value;
+    const isRarefi = Txn.sender === this.rarefiAddress.value;
+    assert(isCreator || isRarefi, 'Only creator or RareFi can update');
+
+    if (poolAppId === Uint64(0)) {
+      this.zapPoolAppId.value = Uint64(0);
+      this.zapPoolAddress.value = Global.zeroAddress;
+      emit('ZapPoolSet', Uint64(0));
+      return;
+    }
+
+    assert(poolAddress !== Global.zeroAddress, 'Cannot set zero address');
+    const [asset1Id, hasAsset1Id] = AppLocal.getExUint64(poolAddress, poolAppId, Bytes('asset_1_id'));
+    assert(hasAsset1Id, 'Cannot read pool asset_1_id');
+    const [asset2Id, hasAsset2Id] = AppLocal.getExUint64(poolAddress, poolAppId, Bytes('asset_2_id'));
+    assert(hasAsset2Id, 'Cannot read pool asset_2_id');
+    const usdcAssetId = this.usdcAsset.value;
+    const alphaAssetId = this.alphaAsset.value;
+    assert(
+      (asset1Id === usdcAssetId && asset2Id === alphaAssetId) || (asset1Id === alphaAssetId && asset2Id === usdcAssetId),
+      'Pool does not trade USDC/Alpha'
+    );
+
+    this.zapPoolAppId.value = poolAppId;
+    this.zapPoolAddress.value = poolAddress;
+    emit('ZapPoolSet', poolAppId);
+  }
+
+  /**
+   * Deposit USDC: it is swapped to Alpha through the zap pool and the output is credited as the deposit
+   * Expects a USDC transfer from the caller in the group before this call
+   *
+   * Yield already in the vault is auto-compounded first, exactly as in deposit; the zapped USDC
+   * is excluded from it. The zap swap is bounded by minDepositOut only (no TWAP check), so
+   * callers should quote it with getZapQuote.
+   *
+   * Tokenized mode: shares are sent as share ASA (caller must be opted in to it)
+   *
+   * @param slippageBps - Slippage tolerance for auto-compound (ignored if no compound needed)
+   * @param minDepositOut - Minimum Alpha the zap swap must return
+   */
+  @arc4.abimethod()
+  zapDeposit(slippageBps: uint64, minDepositOut: uint64): void {
+    assert(Txn.rekeyTo === Global.zeroAddress, 'rekeyTo must be zero');
+    assert(this.zapPoolAppId.value !== Uint64(0), 'Zap pool not set');
+    assert(minDepositOut >= MIN_DEPOSIT_AMOUNT, 'Deposit too small');
+
+    const currentIndex = Txn.groupIndex;
+    assert(currentIndex >= Uint64(1), 'App call must follow asset transfer');
+
+    const zapTransfer = gtxn.AssetTransferTxn(currentIndex - Uint64(1));
+    assert(zapTransfer.xferAsset === Asset(this.usdcAsset.value), 'Must transfer USDC asset');
+    assert(zapTransfer.assetReceiver === Global.currentApplicationAddress, 'Must send to contract');
+    assert(zapTransfer.sender === Txn.sender, 'Transfer must be from caller');
+
+    // SECURITY: Prevent phishing attacks - reject dangerous fields
+    assert(zapTransfer.rekeyTo === Global.zeroAddress, 'rekeyTo must be zero');
+    assert(zapTransfer.assetCloseTo === Global.zeroAddress, 'assetCloseTo must be zero');
+
+    const usdcIn = zapTransfer.assetAmount;
+    assert(usdcIn > Uint64(0), 'Zap amount is zero');
+
+    this.autoCompoundBeforeDeposit(slippageBps, usdcIn);
+
+    // Swap the zapped USDC -> Alpha
+    const appAddr: Account = Global.currentApplicationAddress;
+    const alphaBefore = Asset(this.alphaAsset.value).balance(appAddr);
+    this.swapUsdcViaPool(this.zapPoolAppId.value, this.zapPoolAddress.value, usdcIn, minDepositOut);
+    const amount: uint64 = Asset(this.alphaAsset.value).balance(appAddr) - alphaBefore;
+    assert(amount >= minDepositOut, 'Swap output below minimum');
+
+    emit('Zapped', Txn.sender, usdcIn, amount);
+    this.creditDeposit(Txn.sender, amount);
+  }
+
+  /**
+   * Expected Alpha out of the zap pool for a USDC amount (0 when zaps are disabled)
+   */
+  @arc4.abimethod({ readonly: true })
+  getZapQuote(usdcAmount: uint64): uint64 {
+    if (this.zapPoolAppId.value === Uint64(0)) {
+      return Uint64(0);
+    }
+    return this.getPoolSwapOutput(this.zapPoolAppId.value, this.zapPoolAddress.value, this.usdcAsset.value, usdcAmount);
   }
 
   // ============================================
@@ -27,8 +27,9 @@
 //     - No vault opt-in to the Folks pool app required — only ASA opt-ins
 //
 //   Fee requirements for outer transaction (fee pooling, all inner txns use fee=0):
-//     deposit():     outer fee >= 4000 µALGO  (outer + vault axfer + Folks appcall + Folks fToken issue)
+//     deposit(), depositFor(): outer fee >= 4000 µALGO  (outer + vault axfer + Folks appcall + Folks fToken issue)
 //     withdraw():    outer fee >= 5000 µALGO  (outer + vault axfer + Folks appcall + Folks underlying send + vault send to user)
+//     emergencyWithdraw(): >= 2000 µALGO  (outer + vault fToken send to user; no Folks call)
 //     harvestYield() without swap: >= 4000 µALGO
 //     harvestYield() with swap:    >= 7000 µALGO  (adds Tinyman axfer + appcall + Tinyman inner send)
 //     swapYield():   >= 4000 µALGO
@@ -40,7 +41,7 @@
 
 import {
   GlobalState,
-  LocalState,
+  BoxMap,
   itxn,
   gtxn,
   Global,
@@ -53,31 +54,98 @@ import {
   arc4,
   Txn,
   Bytes,
+  bytes,
   baremethod,
+  clone,
+  emit,
 } from '@algorandfoundation/algorand-typescript';
-import { mulw, divmodw, itob, AppLocal } from '@algorandfoundation/algorand-typescript/op';
+import { mulw, divmodw, addw, itob, AppLocal } from '@algorandfoundation/algorand-typescript/op';
 
 // ── Constants ─────────────────────────────────────────────────────────────────
 const SCALE: uint64 = Uint64(1_000_000_000_000);      // 1e12 yield-per-token precision
 const MAX_FEE_RATE: uint64 = Uint64(6);                // 6% max creator fee (percentage)
 const FEE_PERCENT_BASE: uint64 = Uint64(100);          // creatorFeeRate / 100 = percentage
 const MIN_FARM_EMISSION_BPS: uint64 = Uint64(1_000);   // 10% floor when farm has balance
+const MAX_FARM_SCHEDULES: uint64 = Uint64(3);          // Concurrent farm emission schedules
+const MAX_FARM_SCHEDULE_DURATION: uint64 = Uint64(31_536_000); // 365 days max per schedule
+const MAX_LOCK_TIERS: uint64 = Uint64(3);              // Configurable lock durations for boosted deposits
+const MAX_LOCK_DURATION: uint64 = Uint64(31_536_000);  // 365 days max lock
+const BOOST_BPS_BASE: uint64 = Uint64(10_000);         // 1x weight (unlocked deposits)
+const MAX_LOCK_BOOST_BPS: uint64 = Uint64(30_000);     // 3x max weight for a lock tier
+const MAX_EXIT_FEE_BPS: uint64 = Uint64(500);          // 5% max exit fee
+const MAX_EXIT_FEE_PERIOD: uint64 = Uint64(2_592_000); // 30 days max for the exit fee to decay to zero
 const MIN_DEPOSIT_AMOUNT: uint64 = Uint64(1_000_000);  // Minimum deposit (1 token, 6 decimals)
 const MIN_SWAP_AMOUNT: uint64 = Uint64(100_000);       // 0.10 of deposit asset (6 decimals)
 const MAX_SWAP_THRESHOLD: uint64 = Uint64(50_000_000); // 50 of deposit asset max threshold
 const FEE_BPS_BASE: uint64 = Uint64(10_000);           // Basis points denominator
 const MAX_SLIPPAGE_BPS: uint64 = Uint64(10_000);       // 100% absolute ceiling
 const MIN_MAX_SLIPPAGE_BPS: uint64 = Uint64(500);      // 5% minimum for maxSlippageBps
+const POSITION_MBR: uint64 = Uint64(38_100);           // Position box MBR: 2500 + 400 * (33 key + 56 value)
+const CLAIM_SETTINGS_MBR: uint64 = Uint64(41_300);     // Claim settings box MBR: 2500 + 400 * (33 key + 64 value)
+const MAX_PAUSE_DURATION: uint64 = Uint64(604_800);    // 7 days max guardian pause
+const PRICE_PROBE_AMOUNT: uint64 = Uint64(1_000_000);  // Oracle price = swap output for 1 deposit token
+const TWAP_WINDOW: uint64 = Uint64(1_800);             // 30 min minimum averaging window for the TWAP
+const DEFAULT_MAX_PRICE_DEVIATION_BPS: uint64 = Uint64(1_000); // 10% default spot-vs-TWAP limit
+const MIN_PRICE_DEVIATION_BPS: uint64 = Uint64(100);   // 1% minimum for maxPriceDeviationBps
+const MAX_UINT64: uint64 = Uint64(18_446_744_073_709_551_615n); // Wrap point for priceCumulative
+const FTOKEN_RATE_SCALE: uint64 = Uint64(100_000_000_000_000); // fTokenRate precision (1e14, same as Folks' interest index)
 
 // ── Folks Finance V2 ARC-4 method selectors ───────────────────────────────────
 // Verified from @folks-finance/algorand-sdk@0.2.3 src/lend/abi-contracts/pool.json
 // Selector = first 4 bytes of SHA-512/256 of the ARC-4 method signature string.
 
 // deposit(txn,account,asset,asset,application)uint64  →  0xb9d542fb
-const FOLKS_DEPOSIT_SELECTOR: bytes = Bytes('\xb9\xd5\x42\xfb');
+const FOLKS_DEPOSIT_SELECTOR: bytes = Bytes.fromHex('b9d542fb');
 
 // withdraw(axfer,uint64,account,asset,asset,application)uint64  →  0xeabe829d
-const FOLKS_WITHDRAW_SELECTOR: bytes = Bytes('\xea\xbe\x82\x9d');
+const FOLKS_WITHDRAW_SELECTOR: bytes = Bytes.fromHex('eabe829d');
+
+// ── User Position ─────────────────────────────────────────────────────────────
+
+/**
+ * Per-user position, stored in a box keyed by the user's address.
+ */
+export class UserPosition extends arc4.Struct<{
+  depositedAmount: arc4.Uint64;    // User's underlying principal in vault
+  userYieldPerToken: arc4.Uint64;  // Snapshot of yieldPerToken at last interaction
+  earnedYield: arc4.Uint64;        // Accumulated unclaimed swapAsset
+  weight: arc4.Uint64;             // depositedAmount × boostBps / 10000, the position's share of yield
+  boostBps: arc4.Uint64;           // Weight multiplier of the current lock (10000 = no boost)
+  lockedUntil: arc4.Uint64;        // Principal can't be withdrawn before this timestamp
+  depositTime: arc4.Uint64;        // Amount-weighted average deposit time (the exit fee decays from here)
+}> {}
+
+// ── Claim Settings ────────────────────────────────────────────────────────────
+
+/**
+ * Per-user claim routing, stored in an optional box created by setYieldRecipient or approveClaimer.
+ */
+export class ClaimSettings extends arc4.Struct<{
+  recipient: arc4.Address;  // Receives claimed swapAsset yield (zero address = the user)
+  claimer: arc4.Address;    // Operator allowed to call claimFor (zero address = none)
+}> {}
+
+// ── Lock Tier ─────────────────────────────────────────────────────────────────
+
+/**
+ * Deposits locked for `duration` seconds get boostBps weight (duration 0 = empty slot).
+ */
+export class LockTier extends arc4.Struct<{
+  duration: arc4.Uint64;
+  boostBps: arc4.Uint64;
+}> {}
+
+// ── Farm Schedule ─────────────────────────────────────────────────────────────
+
+/**
+ * swapAsset released linearly from startTime to endTime (amount 0 = empty slot).
+ */
+export class FarmSchedule extends arc4.Struct<{
+  startTime: arc4.Uint64;
+  endTime: arc4.Uint64;
+  amount: arc4.Uint64;    // Total swapAsset to release
+  released: arc4.Uint64;  // Streamed to depositors so far
+}> {}
 
 export class RareFiFolksVault extends arc4.Contract {
   // ── Global State ─────────────────────────────────────────────────────────────
@@ -96,6 +164,16 @@ export class RareFiFolksVault extends arc4.Contract {
   tinymanPoolAppId = GlobalState<uint64>();      // Tinyman V2 pool app ID (depositAsset/swapAsset)
   tinymanPoolAddress = GlobalState<Account>();   // Tinyman pool address
 
+  // Price oracle (TWAP of the Tinyman pool, bounds swaps against manipulation)
+  priceCumulative = GlobalState<uint64>();       // Running sum of spot price × seconds (wraps on overflow)
+  lastSpotPrice = GlobalState<uint64>();         // Swap output for PRICE_PROBE_AMOUNT at last observation
+  lastObservationTime = GlobalState<uint64>();   // Timestamp of last observation (0 = not seeded)
+  twapAnchorCumulative = GlobalState<uint64>();  // priceCumulative at the start of the current window
+  twapAnchorTime = GlobalState<uint64>();        // Start of the current window
+  twapPrice = GlobalState<uint64>();             // Time-weighted price over the last completed window
+  twapSeedRound = GlobalState<uint64>();         // Round of the seeding observation (the TWAP only guards swaps in later rounds)
+  maxPriceDeviationBps = GlobalState<uint64>();  // Max spot-vs-TWAP deviation allowed for swaps
+
   // Creator / fee settings
   creatorAddress = GlobalState<Account>();
   rarefiAddress = GlobalState<Account>();
@@ -104,7 +182,9 @@ export class RareFiFolksVault extends arc4.Contract {
 
   // Vault accounting
   totalDeposits = GlobalState<uint64>();             // Total underlying deposited (principal)
+  totalWeight = GlobalState<uint64>();               // Sum of position weights (yield is distributed per unit of weight)
   totalPrincipalFTokens = GlobalState<uint64>();     // fTokens received on deposit — never harvested
+  fTokenRate = GlobalState<uint64>();                // Underlying per fToken at the last Folks deposit/redeem (scaled by FTOKEN_RATE_SCALE)
   yieldPerToken = GlobalState<uint64>();             // Yield accumulator (scaled by SCALE)
   totalYieldGenerated = GlobalState<uint64>();       // Cumulative swapAsset yield distributed
   minSwapThreshold = GlobalState<uint64>();          // Minimum underlying balance to trigger swap
@@ -113,15 +193,26 @@ export class RareFiFolksVault extends arc4.Contract {
   // Farm feature
   farmBalance = GlobalState<uint64>();               // swapAsset bonus pool
   emissionRatio = GlobalState<uint64>();             // Farm emission multiplier (0 = disabled)
+  farmSchedules = GlobalState<arc4.StaticArray<FarmSchedule, 3>>(); // Time-based farm campaigns, streamed independent of swaps
+
+  // Time-locked deposits
+  lockTiers = GlobalState<arc4.StaticArray<LockTier, 3>>(); // Creator-configured lock durations and their boosts
+
+  // Exit fee
+  exitFeeBps = GlobalState<uint64>();                // Exit fee right after depositing (0 = disabled)
+  exitFeePeriod = GlobalState<uint64>();             // Seconds for the exit fee to decay to zero
 
   // Setup guard
   assetsOptedIn = GlobalState<uint64>();             // 1 once all ASAs are opted in
 
-  // ── Local State (per user) ───────────────────────────────────────────────────
+  // Emergency pause
+  guardianAddress = GlobalState<Account>();          // Can pause deposits/harvests (defaults to rarefiAddress)
+  pausedUntil = GlobalState<uint64>();               // Pause expiry timestamp (0 = not paused)
+
+  // ── Box Storage (per user) ───────────────────────────────────────────────────
 
-  depositedAmount = LocalState<uint64>();        // User's underlying principal in vault
-  userYieldPerToken = LocalState<uint64>();      // Snapshot of yieldPerToken at last interaction
-  earnedYield = LocalState<uint64>();            // Accumulated unclaimed swapAsset
+  positions = BoxMap<Account, UserPosition>({ keyPrefix: 'p' }); // User address → position
+  claimSettings = BoxMap<Account, ClaimSettings>({ keyPrefix: 'c' }); // User address → claim routing (optional)
 
   // ── Private Helpers ──────────────────────────────────────────────────────────
 
@@ -135,6 +226,14 @@ export class RareFiFolksVault extends arc4.Contract {
     return q_lo;
   }
 
+  /**
+   * Rejects the call while a guardian pause is active.
+   * Exit paths (withdraw, emergencyWithdraw, claim, closeOut) never check this.
+   */
+  private assertNotPaused(): void {
+    assert(Global.latestTimestamp >= this.pausedUntil.value, 'Vault is paused');
+  }
+
   /**
    * Dynamic farm emission rate: farmBalance * emissionRatio / totalDeposits,
    * floored at MIN_FARM_EMISSION_BPS when farm has a balance.
@@ -148,21 +247,199 @@ export class RareFiFolksVault extends arc4.Contract {
     return dynamicRate < MIN_FARM_EMISSION_BPS ? MIN_FARM_EMISSION_BPS : dynamicRate;
   }
 
+  /**
+   * Amount of a farm schedule vested at `now` (linear between startTime and endTime).
+   */
+  private vestedFarmAmount(schedule: FarmSchedule, now: uint64): uint64 {
+    const startTime = schedule.startTime.asUint64();
+    const endTime = schedule.endTime.asUint64();
+    const amount = schedule.amount.asUint64();
+    if (now <= startTime) {
+      return Uint64(0);
+    }
+    if (now >= endTime) {
+      return amount;
+    }
+    return this.mulDivFloor(amount, now - startTime, endTime - startTime);
+  }
+
+  /**
+   * yieldPerToken increase the next accrueFarmSchedules would apply (for read-only methods).
+   */
+  private pendingFarmYieldPerToken(): uint64 {
+    if (this.totalDeposits.value === Uint64(0)) {
+      return Uint64(0);
+    }
+
+    const now = Global.latestTimestamp;
+    const schedules = clone(this.farmSchedules.value);
+    let vested: uint64 = Uint64(0);
+    for (let i: uint64 = Uint64(0); i < MAX_FARM_SCHEDULES; i++) {
+      const schedule = clone(schedules[i]);
+      vested = vested + this.vestedFarmAmount(clone(schedule), now) - schedule.released.asUint64();
+    }
+    const userCut: uint64 = vested - this.mulDivFloor(vested, this.creatorFeeRate.value, FEE_PERCENT_BASE);
+    return this.mulDivFloor(userCut, SCALE, this.totalWeight.value);
+  }
+
+  /**
+   * Stream vested farm schedule amounts to depositors, with the same creator fee as the farm bonus.
+   * Must run before totalWeight changes; amounts vested while the vault is empty move to farmBalance.
+   */
+  private accrueFarmSchedules(): void {
+    const now = Global.latestTimestamp;
+    const schedules = clone(this.farmSchedules.value);
+    let released: uint64 = Uint64(0);
+
+    for (let i: uint64 = Uint64(0); i < MAX_FARM_SCHEDULES; i++) {
+      const schedule = clone(schedules[i]);
+      const vested = this.vestedFarmAmount(clone(schedule), now);
+      released = released + vested - schedule.released.asUint64();
+
+      if (vested === schedule.amount.asUint64()) {
+        // Fully released (or already empty): free the slot
+        schedules[i] = new FarmSchedule({
+          startTime: new arc4.Uint64(0),
+          endTime: new arc4.Uint64(0),
+          amount: new arc4.Uint64(0),
+          released: new arc4.Uint64(0),
+        });
+      } else {
+        schedule.released = new arc4.Uint64(vested);
+        schedules[i] = clone(schedule);
+      }
+    }
+    this.farmSchedules.value = clone(schedules);
+
+    if (released === Uint64(0)) {
+      return;
+    }
+    if (this.totalDeposits.value === Uint64(0)) {
+      this.farmBalance.value = this.farmBalance.value + released;
+      return;
+    }
+
+    this.totalYieldGenerated.value = this.totalYieldGenerated.value + released;
+    const creatorCut: uint64 = this.mulDivFloor(released, this.creatorFeeRate.value, FEE_PERCENT_BASE);
+    const userCut: uint64 = released - creatorCut;
+    this.creatorUnclaimedYield.value = this.creatorUnclaimedYield.value + creatorCut;
+    if (userCut > Uint64(0)) {
+      this.yieldPerToken.value = this.yieldPerToken.value + this.mulDivFloor(userCut, SCALE, this.totalWeight.value);
+    }
+
+    emit('FarmStreamed', released, creatorCut);
+  }
+
+  /**
+   * Validate the swapAsset transfer preceding a farm contribution and return its amount.
+   */
+  private receiveFarmContribution(): uint64 {
+    const appAddr: Account = Global.currentApplicationAddress;
+    const currentIndex = Txn.groupIndex;
+    assert(currentIndex >= Uint64(1), 'App call must follow asset transfer');
+
+    const farmTransfer = gtxn.AssetTransferTxn(currentIndex - Uint64(1));
+    assert(farmTransfer.xferAsset === Asset(this.swapAsset.value), 'Must transfer swap asset');
+    assert(farmTransfer.assetReceiver === appAddr, 'Must send to contract');
+    assert(farmTransfer.sender === Txn.sender, 'Transfer must be from caller');
+    assert(farmTransfer.rekeyTo === Global.zeroAddress, 'rekeyTo must be zero');
+    assert(farmTransfer.assetCloseTo === Global.zeroAddress, 'assetCloseTo must be zero');
+
+    const amount = farmTransfer.assetAmount;
+    assert(amount > Uint64(0), 'Contribution must be positive');
+    return amount;
+  }
+
   /**
    * Sync a user's earned yield to the current accumulator snapshot.
    * Must be called before any state change that affects depositedAmount.
    */
   private updateEarnedYield(user: Account): void {
-    const deposited = this.depositedAmount(user).value;
-    if (deposited > Uint64(0)) {
+    // Stream farm schedules first so the snapshot includes everything vested so far
+    this.accrueFarmSchedules();
+
+    const position = this.getPosition(user);
+    const weight = position.weight.asUint64();
+    if (weight > Uint64(0)) {
       const currentYPT = this.yieldPerToken.value;
-      const userYPT = this.userYieldPerToken(user).value;
+      const userYPT = position.userYieldPerToken.asUint64();
       if (currentYPT > userYPT) {
-        const pending = this.mulDivFloor(deposited, currentYPT - userYPT, SCALE);
-        this.earnedYield(user).value = this.earnedYield(user).value + pending;
+        const pending = this.mulDivFloor(weight, currentYPT - userYPT, SCALE);
+        position.earnedYield = new arc4.Uint64(position.earnedYield.asUint64() + pending);
+      }
+    }
+    position.userYieldPerToken = new arc4.Uint64(this.yieldPerToken.value);
+    this.positions(user).value = clone(position);
+  }
+
+  /**
+   * Recompute a user's weight from their deposit and lock boost, keeping totalWeight in sync.
+   * An expired lock drops back to no boost. Call after updateEarnedYield.
+   */
+  private updateWeight(user: Account): void {
+    const position = clone(this.positions(user).value);
+    if (position.boostBps.asUint64() !== BOOST_BPS_BASE && Global.latestTimestamp >= position.lockedUntil.asUint64()) {
+      position.boostBps = new arc4.Uint64(BOOST_BPS_BASE);
+      emit('LockReleased', user);
+    }
+
+    const weight = this.mulDivFloor(position.depositedAmount.asUint64(), position.boostBps.asUint64(), BOOST_BPS_BASE);
+    this.totalWeight.value = this.totalWeight.value - position.weight.asUint64() + weight;
+    position.weight = new arc4.Uint64(weight);
+    this.positions(user).value = clone(position);
+  }
+
+  /**
+   * Current exit fee rate of a position, decaying linearly from exitFeeBps at depositTime to 0 after exitFeePeriod.
+   */
+  private currentExitFeeBps(position: UserPosition): uint64 {
+    const period = this.exitFeePeriod.value;
+    const held: uint64 = Global.latestTimestamp - position.depositTime.asUint64();
+    if (this.exitFeeBps.value === Uint64(0) || held >= period) {
+      return Uint64(0);
+    }
+    return this.mulDivFloor(this.exitFeeBps.value, period - held, period);
+  }
+
+  /**
+   * Principal fTokens withheld from a withdrawal as exit fee. They drop out of
+   * totalPrincipalFTokens with the withdrawal, so they are harvested as yield for the
+   * remaining depositors. Waived for the last depositor. Call before totalDeposits changes.
+   */
+  private chargeExitFee(user: Account, position: UserPosition, amount: uint64, fTokens: uint64): uint64 {
+    if (amount === this.totalDeposits.value) {
+      return Uint64(0);
+    }
+    const feeBps = this.currentExitFeeBps(position);
+    const feeFTokens = this.mulDivFloor(fTokens, feeBps, FEE_BPS_BASE);
+    if (feeFTokens === Uint64(0)) {
+      return Uint64(0);
+    }
+    emit('ExitFeeCharged', user, this.mulDivFloor(amount, feeBps, FEE_BPS_BASE));
+    return feeFTokens;
+  }
+
+  /**
+   * Boost of the lock tier with this duration. Fails if no tier has it.
+   */
+  private lockTierBoost(duration: uint64): uint64 {
+    const tiers = clone(this.lockTiers.value);
+    let boostBps: uint64 = Uint64(0);
+    for (let i: uint64 = Uint64(0); i < MAX_LOCK_TIERS; i++) {
+      if (tiers[i].duration.asUint64() === duration) {
+        boostBps = tiers[i].boostBps.asUint64();
       }
     }
-    this.userYieldPerToken(user).value = this.yieldPerToken.value;
+    assert(boostBps !== Uint64(0), 'Unknown lock duration');
+    return boostBps;
+  }
+
+  /**
+   * Load a user's position box. Fails if the user has not opted in.
+   */
+  private getPosition(user: Account): UserPosition {
+    assert(this.positions(user).exists, 'User not opted in');
+    return clone(this.positions(user).value);
   }
 
   /**
@@ -200,18 +477,118 @@ export class RareFiFolksVault extends arc4.Contract {
     return this.mulDivFloor(outputReserves, netInput, inputReserves + netInput);
   }
 
+  /**
+   * fTokens above the principal baseline (the harvestable appreciation).
+   */
+  private getHarvestableFTokenAmount(): uint64 {
+    const fTokenBalance = Asset(this.fTokenAsset.value).balance(Global.currentApplicationAddress);
+    return fTokenBalance > this.totalPrincipalFTokens.value
+      ? fTokenBalance - this.totalPrincipalFTokens.value
+      : Uint64(0);
+  }
+
+  /**
+   * Record the underlying-per-fToken rate Folks just paid or charged.
+   * The interest index only rises, so estimates from it err low.
+   */
+  private recordFTokenRate(underlyingAmount: uint64, fTokenAmount: uint64): void {
+    this.fTokenRate.value = this.mulDivFloor(underlyingAmount, FTOKEN_RATE_SCALE, fTokenAmount);
+  }
+
+  /**
+   * a - b modulo 2^64 (priceCumulative wraps on overflow).
+   */
+  private wrappingSub(a: uint64, b: uint64): uint64 {
+    if (a >= b) {
+      return a - b;
+    }
+    return MAX_UINT64 - b + a + Uint64(1);
+  }
+
+  /**
+   * Record a TWAP price observation: accumulate the previous spot price over the
+   * elapsed time, roll the TWAP once TWAP_WINDOW has passed, store the current spot
+   * (clamped to the TWAP band).
+   * The first observation (or the first after a pool change) seeds the TWAP at spot;
+   * swaps in that same round would only be compared against themselves and are rejected.
+   * Returns the current spot price.
+   */
+  private updatePriceObservation(): uint64 {
+    const now = Global.latestTimestamp;
+    const spotPrice = this.getExpectedSwapOutput(PRICE_PROBE_AMOUNT);
+
+    if (this.lastObservationTime.value === Uint64(0)) {
+      this.twapPrice.value = spotPrice;
+      this.twapAnchorCumulative.value = this.priceCumulative.value;
+      this.twapAnchorTime.value = now;
+      this.twapSeedRound.value = Global.round;
+    } else if (now > this.lastObservationTime.value) {
+      const [, weightedPrice] = mulw(this.lastSpotPrice.value, now - this.lastObservationTime.value);
+      const [, cumulative] = addw(this.priceCumulative.value, weightedPrice);
+      this.priceCumulative.value = cumulative;
+
+      const windowElapsed: uint64 = now - this.twapAnchorTime.value;
+      if (windowElapsed >= TWAP_WINDOW) {
+        this.twapPrice.value = this.wrappingSub(cumulative, this.twapAnchorCumulative.value) / windowElapsed;
+        this.twapAnchorCumulative.value = cumulative;
+        this.twapAnchorTime.value = now;
+      }
+    }
+
+    // Weighted over the whole gap to the next observation, so keep it inside the swap band
+    this.lastSpotPrice.value = this.clampToTwapBand(spotPrice);
+    this.lastObservationTime.value = now;
+    return spotPrice;
+  }
+
+  /**
+   * Clamp a spot price to within maxPriceDeviationBps of the TWAP. A spot skewed for a
+   * single observation then moves the TWAP at most as far as the swap guard already allows.
+   */
+  private clampToTwapBand(spotPrice: uint64): uint64 {
+    const twap = this.twapPrice.value;
+    const band = this.mulDivFloor(twap, this.maxPriceDeviationBps.value, FEE_BPS_BASE);
+    if (spotPrice > twap + band) {
+      return twap + band;
+    }
+    if (spotPrice + band < twap) {
+      return twap - band;
+    }
+    return spotPrice;
+  }
+
+  /**
+   * Fail if the spot price deviates from the TWAP by more than maxPriceDeviationBps.
+   */
+  private assertPriceNearTwap(spotPrice: uint64): void {
+    assert(this.twapSeedRound.value !== Global.round, 'TWAP seeded this round');
+    const twap = this.twapPrice.value;
+    const deviation: uint64 = spotPrice > twap ? spotPrice - twap : twap - spotPrice;
+    const maxDeviation = this.mulDivFloor(twap, this.maxPriceDeviationBps.value, FEE_BPS_BASE);
+    assert(deviation <= maxDeviation, 'Spot price deviates from TWAP');
+  }
+
   /**
    * Execute depositAsset → swapAsset swap on Tinyman V2, apply farm bonus,
    * split fees, and update the yieldPerToken accumulator.
    * Sweeps the entire vault depositAsset balance.
+   * minAmountOut is a caller-supplied absolute floor enforced on top of slippageBps (0 = none).
+   * Always swaps through tinymanPool: harvests already use all 8 transaction references,
+   * so there are no candidate pools to compare as in the other vaults.
    */
-  private executeSwapAndDistribute(depositBalance: uint64, slippageBps: uint64): void {
+  private executeSwapAndDistribute(depositBalance: uint64, slippageBps: uint64, minAmountOut: uint64): void {
     const appAddr: Account = Global.currentApplicationAddress;
 
+    // Manipulation guard: observe first, then the spot price must stay near the TWAP
+    this.assertPriceNearTwap(this.updatePriceObservation());
+
     const expectedOutput = this.getExpectedSwapOutput(depositBalance);
     assert(expectedOutput > Uint64(0), 'Expected swap output is zero');
 
-    const minAmountOut = this.mulDivFloor(expectedOutput, FEE_BPS_BASE - slippageBps, FEE_BPS_BASE);
+    assert(expectedOutput >= minAmountOut, 'Quote below minAmountOut');
+
+    const slippageMin = this.mulDivFloor(expectedOutput, FEE_BPS_BASE - slippageBps, FEE_BPS_BASE);
+    const swapMin: uint64 = slippageMin > minAmountOut ? slippageMin : minAmountOut;
     const swapAssetBefore = Asset(this.swapAsset.value).balance(appAddr);
 
     // Tinyman V2 fixed-input swap: depositAsset → swapAsset
@@ -224,7 +601,7 @@ export class RareFiFolksVault extends arc4.Contract {
       }),
       itxn.applicationCall({
         appId: Application(this.tinymanPoolAppId.value),
-        appArgs: [Bytes('swap'), Bytes('fixed-input'), itob(minAmountOut)],
+        appArgs: [Bytes('swap'), Bytes('fixed-input'), itob(swapMin)],
         assets: [Asset(this.swapAsset.value)],
         accounts: [this.tinymanPoolAddress.value],
         fee: Uint64(0),
@@ -233,7 +610,7 @@ export class RareFiFolksVault extends arc4.Contract {
 
     const swapAssetAfter: uint64 = Asset(this.swapAsset.value).balance(appAddr);
     const swapOutput: uint64 = swapAssetAfter - swapAssetBefore;
-    assert(swapOutput >= minAmountOut, 'Swap output below minimum');
+    assert(swapOutput >= swapMin, 'Swap output below minimum');
 
     // Farm bonus
     let farmBonus: uint64 = Uint64(0);
@@ -253,9 +630,11 @@ export class RareFiFolksVault extends arc4.Contract {
     this.creatorUnclaimedYield.value = this.creatorUnclaimedYield.value + creatorCut;
 
     if (userCut > Uint64(0)) {
-      const yieldIncrease: uint64 = this.mulDivFloor(userCut, SCALE, this.totalDeposits.value);
+      const yieldIncrease: uint64 = this.mulDivFloor(userCut, SCALE, this.totalWeight.value);
       this.yieldPerToken.value = this.yieldPerToken.value + yieldIncrease;
     }
+
+    emit('YieldSwapped', depositBalance, swapOutput, farmBonus, creatorCut);
   }
 
   /**
@@ -301,12 +680,51 @@ export class RareFiFolksVault extends arc4.Contract {
     );
 
     const depositAfter = Asset(this.depositAsset.value).balance(appAddr);
-    const received = depositAfter - depositBefore;
+    const received: uint64 = depositAfter - depositBefore;
     assert(received > Uint64(0), 'No underlying received from Folks');
+    this.recordFTokenRate(received, fTokensToRedeem);
 
     return received;
   }
 
+  /**
+   * Caller's claim settings, new (and paid for by the preceding payment) if they have none yet.
+   */
+  private loadClaimSettings(): ClaimSettings {
+    assert(this.positions(Txn.sender).exists, 'User not opted in');
+    if (this.claimSettings(Txn.sender).exists) {
+      return clone(this.claimSettings(Txn.sender).value);
+    }
+
+    const currentIndex = Txn.groupIndex;
+    assert(currentIndex >= Uint64(1), 'App call must follow MBR payment');
+
+    const mbrPayment = gtxn.PaymentTxn(currentIndex - Uint64(1));
+    assert(mbrPayment.sender === Txn.sender, 'Payment must be from caller');
+    assert(mbrPayment.receiver === Global.currentApplicationAddress, 'Payment must be to app');
+    assert(mbrPayment.amount >= CLAIM_SETTINGS_MBR, 'Insufficient ALGO for claim settings box');
+    assert(mbrPayment.rekeyTo === Global.zeroAddress, 'rekeyTo must be zero');
+    assert(mbrPayment.closeRemainderTo === Global.zeroAddress, 'closeRemainderTo must be zero');
+
+    return new ClaimSettings({
+      recipient: new arc4.Address(Global.zeroAddress),
+      claimer: new arc4.Address(Global.zeroAddress),
+    });
+  }
+
+  /**
+   * Where a user's claimed yield is sent: their recipient if set, otherwise the user.
+   */
+  private yieldRecipient(user: Account): Account {
+    if (this.claimSettings(user).exists) {
+      const recipient = this.claimSettings(user).value.recipient.native;
+      if (recipient !== Global.zeroAddress) {
+        return recipient;
+      }
+    }
+    return user;
+  }
+
   // ── Initialization ───────────────────────────────────────────────────────────
 
   /**
@@ -371,6 +789,7 @@ export class RareFiFolksVault extends arc4.Contract {
     this.creatorUnclaimedYield.value = Uint64(0);
 
     this.totalDeposits.value = Uint64(0);
+    this.totalWeight.value = Uint64(0);
     this.totalPrincipalFTokens.value = Uint64(0);
     this.yieldPerToken.value = Uint64(0);
     this.totalYieldGenerated.value = Uint64(0);
@@ -379,8 +798,36 @@ export class RareFiFolksVault extends arc4.Contract {
 
     this.farmBalance.value = Uint64(0);
     this.emissionRatio.value = Uint64(0);
+    const emptySchedule = new FarmSchedule({
+      startTime: new arc4.Uint64(0),
+      endTime: new arc4.Uint64(0),
+      amount: new arc4.Uint64(0),
+      released: new arc4.Uint64(0),
+    });
+    this.farmSchedules.value = new arc4.StaticArray<FarmSchedule, 3>(clone(emptySchedule), clone(emptySchedule), clone(emptySchedule));
+
+    const emptyTier = new LockTier({ duration: new arc4.Uint64(0), boostBps: new arc4.Uint64(0) });
+    this.lockTiers.value = new arc4.StaticArray<LockTier, 3>(clone(emptyTier), clone(emptyTier), clone(emptyTier));
+    this.exitFeeBps.value = Uint64(0);
+    this.exitFeePeriod.value = Uint64(0);
 
     this.assetsOptedIn.value = Uint64(0);
+
+    // Price oracle is seeded by the first observation
+    this.priceCumulative.value = Uint64(0);
+    this.lastSpotPrice.value = Uint64(0);
+    this.lastObservationTime.value = Uint64(0);
+    this.twapAnchorCumulative.value = Uint64(0);
+    this.twapAnchorTime.value = Uint64(0);
+    this.twapPrice.value = Uint64(0);
+    this.twapSeedRound.value = Uint64(0);
+    this.maxPriceDeviationBps.value = DEFAULT_MAX_PRICE_DEVIATION_BPS;
+
+    // Set by the first deposit
+    this.fTokenRate.value = Uint64(0);
+
+    this.guardianAddress.value = rarefiAddress;
+    this.pausedUntil.value = Uint64(0);
   }
 
   /**
@@ -438,30 +885,58 @@ export class RareFiFolksVault extends arc4.Contract {
   // ── User Opt-In / Close-Out ──────────────────────────────────────────────────
 
   /**
-   * User opts into the contract to enable local storage.
+   * User opens a position box.
+   * Expects a preceding payment covering POSITION_MBR to the vault in the group.
    */
-  @arc4.abimethod({ allowActions: 'OptIn' })
+  @arc4.abimethod()
   optIn(): void {
     assert(Txn.rekeyTo === Global.zeroAddress, 'rekeyTo must be zero');
-    this.depositedAmount(Txn.sender).value = Uint64(0);
-    this.userYieldPerToken(Txn.sender).value = Uint64(0);
-    this.earnedYield(Txn.sender).value = Uint64(0);
+    assert(!this.positions(Txn.sender).exists, 'Already opted in');
+
+    const currentIndex = Txn.groupIndex;
+    assert(currentIndex >= Uint64(1), 'App call must follow MBR payment');
+
+    const mbrPayment = gtxn.PaymentTxn(currentIndex - Uint64(1));
+    assert(mbrPayment.sender === Txn.sender, 'Payment must be from caller');
+    assert(mbrPayment.receiver === Global.currentApplicationAddress, 'Payment must be to app');
+    assert(mbrPayment.amount >= POSITION_MBR, 'Insufficient ALGO for position box');
+    assert(mbrPayment.rekeyTo === Global.zeroAddress, 'rekeyTo must be zero');
+    assert(mbrPayment.closeRemainderTo === Global.zeroAddress, 'closeRemainderTo must be zero');
+
+    this.positions(Txn.sender).value = new UserPosition({
+      depositedAmount: new arc4.Uint64(0),
+      userYieldPerToken: new arc4.Uint64(this.yieldPerToken.value),
+      earnedYield: new arc4.Uint64(0),
+      weight: new arc4.Uint64(0),
+      boostBps: new arc4.Uint64(BOOST_BPS_BASE),
+      lockedUntil: new arc4.Uint64(0),
+      depositTime: new arc4.Uint64(0),
+    });
   }
 
   /**
-   * User closes out — redeems all deposited principal from Folks Finance
-   * and claims any pending swapAsset yield in one transaction.
+   * User closes out — redeems all deposited principal from Folks Finance,
+   * claims any pending swapAsset yield, deletes the position box and
+   * refunds its MBR in one transaction. The exit fee applies as for withdraw.
+   * Fails while the deposit is locked. Records a TWAP price observation, so the
+   * Tinyman pool app and address must be referenced.
    *
-   * Required outer txn fee: ≥ 6000 µALGO
-   * (outer + vault axfer fToken + Folks appcall + Folks underlying send + vault send underlying + vault send yield)
+   * Required outer txn fee: ≥ 7000 µALGO
+   * (outer + vault axfer fToken + Folks appcall + Folks underlying send + vault send underlying
+   *  + vault send yield + MBR refund)
    */
-  @arc4.abimethod({ allowActions: 'CloseOut' })
+  @arc4.abimethod()
   closeOut(): void {
     assert(Txn.rekeyTo === Global.zeroAddress, 'rekeyTo must be zero');
+    assert(Global.latestTimestamp >= this.getPosition(Txn.sender).lockedUntil.asUint64(), 'Deposit is locked');
+    this.updatePriceObservation();
     this.updateEarnedYield(Txn.sender);
 
-    const userDeposit = this.depositedAmount(Txn.sender).value;
-    const userYield = this.earnedYield(Txn.sender).value;
+    const position = clone(this.positions(Txn.sender).value);
+    const userDeposit = position.depositedAmount.asUint64();
+    const userYield = position.earnedYield.asUint64();
+    this.positions(Txn.sender).delete();
+    this.totalWeight.value = this.totalWeight.value - position.weight.asUint64();
 
     if (userDeposit > Uint64(0)) {
       // Last depositor uses all remaining fTokens to avoid dust accumulation
@@ -472,7 +947,8 @@ export class RareFiFolksVault extends arc4.Contract {
         fTokensToRedeem = this.mulDivFloor(userDeposit, this.totalPrincipalFTokens.value, this.totalDeposits.value);
       }
 
-      const underlyingReceived = this.redeemFTokens(fTokensToRedeem);
+      const exitFeeFTokens = this.chargeExitFee(Txn.sender, clone(position), userDeposit, fTokensToRedeem);
+      const underlyingReceived = this.redeemFTokens(fTokensToRedeem - exitFeeFTokens);
 
       this.totalPrincipalFTokens.value = this.totalPrincipalFTokens.value - fTokensToRedeem;
       this.totalDeposits.value = this.totalDeposits.value - userDeposit;
@@ -493,6 +969,14 @@ export class RareFiFolksVault extends arc4.Contract {
         fee: Uint64(0),
       }).submit();
     }
+
+    itxn.payment({
+      receiver: Txn.sender,
+      amount: POSITION_MBR,
+      fee: Uint64(0),
+    }).submit();
+
+    emit('CloseOut', Txn.sender, userDeposit, userYield);
   }
 
   // ── Deposit / Withdraw ───────────────────────────────────────────────────────
@@ -510,13 +994,58 @@ export class RareFiFolksVault extends arc4.Contract {
    *   [3] f_asset index (1 byte) — 2 = foreignAssets[1] = fTokenAsset
    *   [4] pool_manager app index (1 byte) — 1 = foreignApps[0] = folksPoolManagerAppId
    *
+   * Adding to a locked position keeps the lock and its boost.
+   * Records a TWAP price observation, so the Tinyman pool app and address must be referenced.
+   *
    * Required outer txn fee: ≥ 4000 µALGO
    */
   @arc4.abimethod()
   deposit(): void {
     assert(Txn.rekeyTo === Global.zeroAddress, 'rekeyTo must be zero');
+    this.processDeposit(Txn.sender, Uint64(0));
+  }
+
+  /**
+   * Deposit underlying on behalf of another account (partner apps, treasuries, zaps).
+   * The caller funds the preceding asset transfer; the beneficiary's position is credited.
+   * The beneficiary must already have a position box; an existing lock is kept.
+   *
+   * @param beneficiary - Account whose position receives the deposit
+   *
+   * Required outer txn fee: ≥ 4000 µALGO
+   */
+  @arc4.abimethod()
+  depositFor(beneficiary: Account): void {
+    assert(Txn.rekeyTo === Global.zeroAddress, 'rekeyTo must be zero');
+    assert(this.positions(beneficiary).exists, 'Beneficiary not opted in');
+    this.processDeposit(beneficiary, Uint64(0));
+  }
+
+  /**
+   * Deposit and lock the whole position for one of the creator's lock tiers.
+   * The position's weight is boosted by the tier's boostBps until the lock expires.
+   * A lock can be extended but never shortened.
+   *
+   * @param lockDuration - Lock tier duration in seconds
+   *
+   * Required outer txn fee: ≥ 4000 µALGO
+   */
+  @arc4.abimethod()
+  depositLocked(lockDuration: uint64): void {
+    assert(Txn.rekeyTo === Global.zeroAddress, 'rekeyTo must be zero');
+    this.processDeposit(Txn.sender, lockDuration);
+  }
+
+  /**
+   * Shared by deposit, depositLocked and depositFor (lockDuration 0 = no new lock).
+   * The transfer must come from the caller; the deposit is credited to user.
+   */
+  private processDeposit(user: Account, lockDuration: uint64): void {
+    this.assertNotPaused();
     assert(this.assetsOptedIn.value === Uint64(1), 'Vault assets not yet opted in');
 
+    this.updatePriceObservation();
+
     const appAddr: Account = Global.currentApplicationAddress;
     const currentIndex = Txn.groupIndex;
     assert(currentIndex >= Uint64(1), 'App call must follow asset transfer');
@@ -532,7 +1061,7 @@ export class RareFiFolksVault extends arc4.Contract {
     assert(amount >= MIN_DEPOSIT_AMOUNT, 'Deposit too small');
 
     // Sync yield before state changes
-    this.updateEarnedYield(Txn.sender);
+    this.updateEarnedYield(user);
 
     // Snapshot fToken balance before forwarding to Folks
     const fTokenBefore = Asset(this.fTokenAsset.value).balance(appAddr);
@@ -562,19 +1091,43 @@ export class RareFiFolksVault extends arc4.Contract {
 
     // fTokens received = balance delta (Folks sends fTokens to vault via inner axfer)
     const fTokenAfter = Asset(this.fTokenAsset.value).balance(appAddr);
-    const fTokensReceived = fTokenAfter - fTokenBefore;
+    const fTokensReceived: uint64 = fTokenAfter - fTokenBefore;
     assert(fTokensReceived > Uint64(0), 'No fTokens received from Folks');
+    this.recordFTokenRate(amount, fTokensReceived);
 
     // Record principal baseline and update user state
     this.totalPrincipalFTokens.value = this.totalPrincipalFTokens.value + fTokensReceived;
-    this.depositedAmount(Txn.sender).value = this.depositedAmount(Txn.sender).value + amount;
+    // A top-up moves the exit fee clock towards now in proportion to its size
+    const position = clone(this.positions(user).value);
+    const previousDeposit = position.depositedAmount.asUint64();
+    const depositTime = position.depositTime.asUint64();
+    position.depositedAmount = new arc4.Uint64(previousDeposit + amount);
+    position.depositTime = new arc4.Uint64(
+      depositTime + this.mulDivFloor(Global.latestTimestamp - depositTime, amount, previousDeposit + amount),
+    );
+
+    if (lockDuration > Uint64(0)) {
+      const boostBps = this.lockTierBoost(lockDuration);
+      const lockedUntil: uint64 = Global.latestTimestamp + lockDuration;
+      assert(lockedUntil >= position.lockedUntil.asUint64(), 'Cannot shorten an active lock');
+      position.boostBps = new arc4.Uint64(boostBps);
+      position.lockedUntil = new arc4.Uint64(lockedUntil);
+      emit('Locked', user, lockedUntil, boostBps);
+    }
+
+    this.positions(user).value = clone(position);
     this.totalDeposits.value = this.totalDeposits.value + amount;
+    this.updateWeight(user);
+
+    emit('Deposit', user, amount, fTokensReceived);
   }
 
   /**
    * User withdraws underlying principal.
    * Redeems proportional fTokens from Folks Finance and returns the underlying.
-   * Auto-claims any pending yield on withdrawal.
+   * Auto-claims any pending yield on withdrawal. Fails while the deposit is locked.
+   * Within exitFeePeriod of depositing, the decayed exit fee is withheld in fTokens.
+   * Records a TWAP price observation, so the Tinyman pool app and address must be referenced.
    *
    * @param amount - Amount to withdraw (0 = withdraw all)
    *
@@ -584,7 +1137,9 @@ export class RareFiFolksVault extends arc4.Contract {
   withdraw(amount: uint64): void {
     assert(Txn.rekeyTo === Global.zeroAddress, 'rekeyTo must be zero');
 
-    const userBalance = this.depositedAmount(Txn.sender).value;
+    const current = this.getPosition(Txn.sender);
+    assert(Global.latestTimestamp >= current.lockedUntil.asUint64(), 'Deposit is locked');
+    const userBalance = current.depositedAmount.asUint64();
     let withdrawAmount = amount;
     if (withdrawAmount === Uint64(0)) {
       withdrawAmount = userBalance;
@@ -593,6 +1148,8 @@ export class RareFiFolksVault extends arc4.Contract {
     assert(withdrawAmount > Uint64(0), 'Nothing to withdraw');
     assert(withdrawAmount <= userBalance, 'Insufficient balance');
 
+    this.updatePriceObservation();
+
     // Sync yield before state changes
     this.updateEarnedYield(Txn.sender);
 
@@ -604,11 +1161,18 @@ export class RareFiFolksVault extends arc4.Contract {
       fTokensToRedeem = this.mulDivFloor(withdrawAmount, this.totalPrincipalFTokens.value, this.totalDeposits.value);
     }
 
-    const underlyingReceived = this.redeemFTokens(fTokensToRedeem);
+    const exitFeeFTokens = this.chargeExitFee(Txn.sender, clone(current), withdrawAmount, fTokensToRedeem);
+    const underlyingReceived = this.redeemFTokens(fTokensToRedeem - exitFeeFTokens);
+
+    const position = clone(this.positions(Txn.sender).value);
+    const pendingYield = position.earnedYield.asUint64();
+    position.depositedAmount = new arc4.Uint64(userBalance - withdrawAmount);
+    position.earnedYield = new arc4.Uint64(0);
+    this.positions(Txn.sender).value = clone(position);
 
     this.totalPrincipalFTokens.value = this.totalPrincipalFTokens.value - fTokensToRedeem;
-    this.depositedAmount(Txn.sender).value = userBalance - withdrawAmount;
     this.totalDeposits.value = this.totalDeposits.value - withdrawAmount;
+    this.updateWeight(Txn.sender);
 
     // Return underlying to user
     itxn.assetTransfer({
@@ -619,9 +1183,7 @@ export class RareFiFolksVault extends arc4.Contract {
     }).submit();
 
     // Auto-claim any pending yield
-    const pendingYield = this.earnedYield(Txn.sender).value;
     if (pendingYield > Uint64(0)) {
-      this.earnedYield(Txn.sender).value = Uint64(0);
       itxn.assetTransfer({
         assetReceiver: Txn.sender,
         xferAsset: Asset(this.swapAsset.value),
@@ -629,6 +1191,65 @@ export class RareFiFolksVault extends arc4.Contract {
         fee: Uint64(0),
       }).submit();
     }
+
+    emit('Withdraw', Txn.sender, withdrawAmount, underlyingReceived, pendingYield);
+  }
+
+  /**
+   * Emergency exit that skips Folks Finance: sends the user their pro-rata
+   * principal fTokens directly instead of redeeming them. Works while the
+   * Folks pool is paused. Pending yield stays in the position and can be
+   * claimed separately. Caller must be opted in to the fToken asset.
+   * Locked deposits can't exit this way either, and the exit fee applies as for withdraw.
+   *
+   * @param amount - Principal to exit (0 = exit all)
+   *
+   * Required outer txn fee: ≥ 2000 µALGO
+   */
+  @arc4.abimethod()
+  emergencyWithdraw(amount: uint64): void {
+    assert(Txn.rekeyTo === Global.zeroAddress, 'rekeyTo must be zero');
+
+    const current = this.getPosition(Txn.sender);
+    assert(Global.latestTimestamp >= current.lockedUntil.asUint64(), 'Deposit is locked');
+    const userBalance = current.depositedAmount.asUint64();
+    let withdrawAmount = amount;
+    if (withdrawAmount === Uint64(0)) {
+      withdrawAmount = userBalance;
+    }
+
+    assert(withdrawAmount > Uint64(0), 'Nothing to withdraw');
+    assert(withdrawAmount <= userBalance, 'Insufficient balance');
+
+    // Sync yield before state changes
+    this.updateEarnedYield(Txn.sender);
+
+    // Same proportion as withdraw; last depositor takes all remaining principal fTokens
+    let fTokensToSend: uint64;
+    if (withdrawAmount === this.totalDeposits.value) {
+      fTokensToSend = this.totalPrincipalFTokens.value;
+    } else {
+      fTokensToSend = this.mulDivFloor(withdrawAmount, this.totalPrincipalFTokens.value, this.totalDeposits.value);
+    }
+    assert(fTokensToSend > Uint64(0), 'fToken amount is zero');
+    const exitFeeFTokens = this.chargeExitFee(Txn.sender, clone(current), withdrawAmount, fTokensToSend);
+
+    const position = clone(this.positions(Txn.sender).value);
+    position.depositedAmount = new arc4.Uint64(userBalance - withdrawAmount);
+    this.positions(Txn.sender).value = clone(position);
+
+    this.totalPrincipalFTokens.value = this.totalPrincipalFTokens.value - fTokensToSend;
+    this.totalDeposits.value = this.totalDeposits.value - withdrawAmount;
+    this.updateWeight(Txn.sender);
+
+    itxn.assetTransfer({
+      assetReceiver: Txn.sender,
+      xferAsset: Asset(this.fTokenAsset.value),
+      assetAmount: fTokensToSend - exitFeeFTokens,
+      fee: Uint64(0),
+    }).submit();
+
+    emit('EmergencyWithdraw', Txn.sender, withdrawAmount, fTokensToSend - exitFeeFTokens);
   }
 
   // ── Yield Harvesting ─────────────────────────────────────────────────────────
@@ -653,6 +1274,43 @@ export class RareFiFolksVault extends arc4.Contract {
   @arc4.abimethod()
   harvestYield(fTokensToRedeem: uint64, slippageBps: uint64): void {
     assert(Txn.rekeyTo === Global.zeroAddress, 'rekeyTo must be zero');
+    this.processHarvest(fTokensToRedeem, slippageBps, Uint64(0));
+  }
+
+  /**
+   * harvestYield with an absolute swap output floor computed off-chain by the keeper.
+   * Enforced on top of slippageBps when the harvest swaps; ignored if the vault stays
+   * below minSwapThreshold and nothing is swapped.
+   *
+   * @param minAmountOut - minimum swapAsset out of the Tinyman swap (before farm bonus and fees)
+   */
+  @arc4.abimethod()
+  harvestYieldWithMinOut(fTokensToRedeem: uint64, slippageBps: uint64, minAmountOut: uint64): void {
+    assert(Txn.rekeyTo === Global.zeroAddress, 'rekeyTo must be zero');
+    assert(minAmountOut > Uint64(0), 'minAmountOut must be positive');
+    this.processHarvest(fTokensToRedeem, slippageBps, minAmountOut);
+  }
+
+  /**
+   * harvestYield for every harvestable fToken (fTokenBalance - totalPrincipalFTokens),
+   * so callers don't have to compute the amount off-chain. Fails with 'Nothing to harvest'
+   * when fTokenBalance is at the principal baseline, the usual state between rate accruals.
+   *
+   * Required outer txn fee: same as harvestYield
+   */
+  @arc4.abimethod()
+  harvestAll(slippageBps: uint64): void {
+    assert(Txn.rekeyTo === Global.zeroAddress, 'rekeyTo must be zero');
+    const harvestable = this.getHarvestableFTokenAmount();
+    assert(harvestable > Uint64(0), 'Nothing to harvest');
+    this.processHarvest(harvestable, slippageBps, Uint64(0));
+  }
+
+  /**
+   * Shared body of harvestYield, harvestYieldWithMinOut and harvestAll.
+   */
+  private processHarvest(fTokensToRedeem: uint64, slippageBps: uint64, minAmountOut: uint64): void {
+    this.assertNotPaused();
     assert(slippageBps <= this.maxSlippageBps.value, 'Slippage exceeds maximum allowed');
     assert(fTokensToRedeem > Uint64(0), 'Must redeem at least 1 fToken');
     assert(this.totalDeposits.value > Uint64(0), 'No depositors to distribute to');
@@ -660,17 +1318,16 @@ export class RareFiFolksVault extends arc4.Contract {
     const appAddr: Account = Global.currentApplicationAddress;
 
     // Principal safety guard: only the appreciation portion is harvestable
-    const fTokenBalance = Asset(this.fTokenAsset.value).balance(appAddr);
-    const yieldFTokens = fTokenBalance - this.totalPrincipalFTokens.value;
-    assert(fTokensToRedeem <= yieldFTokens, 'Cannot redeem principal fTokens');
+    assert(fTokensToRedeem <= this.getHarvestableFTokenAmount(), 'Cannot redeem principal fTokens');
 
     // Redeem yield fTokens — totalPrincipalFTokens NOT updated (yield, not principal)
-    this.redeemFTokens(fTokensToRedeem);
+    const underlyingReceived = this.redeemFTokens(fTokensToRedeem);
+    emit('YieldHarvested', fTokensToRedeem, underlyingReceived);
 
     // Swap entire accumulated depositAsset balance if above threshold
     const depositBalance = Asset(this.depositAsset.value).balance(appAddr);
     if (depositBalance >= this.minSwapThreshold.value) {
-      this.executeSwapAndDistribute(depositBalance, slippageBps);
+      this.executeSwapAndDistribute(depositBalance, slippageBps, minAmountOut);
     }
   }
 
@@ -686,6 +1343,27 @@ export class RareFiFolksVault extends arc4.Contract {
   @arc4.abimethod()
   swapYield(slippageBps: uint64): void {
     assert(Txn.rekeyTo === Global.zeroAddress, 'rekeyTo must be zero');
+    this.processSwapYield(slippageBps, Uint64(0));
+  }
+
+  /**
+   * swapYield with an absolute output floor computed off-chain by the keeper,
+   * enforced on top of slippageBps.
+   *
+   * @param minAmountOut - minimum swapAsset out of the Tinyman swap (before farm bonus and fees)
+   */
+  @arc4.abimethod()
+  swapYieldWithMinOut(slippageBps: uint64, minAmountOut: uint64): void {
+    assert(Txn.rekeyTo === Global.zeroAddress, 'rekeyTo must be zero');
+    assert(minAmountOut > Uint64(0), 'minAmountOut must be positive');
+    this.processSwapYield(slippageBps, minAmountOut);
+  }
+
+  /**
+   * Shared body of swapYield and swapYieldWithMinOut.
+   */
+  private processSwapYield(slippageBps: uint64, minAmountOut: uint64): void {
+    this.assertNotPaused();
     assert(slippageBps <= this.maxSlippageBps.value, 'Slippage exceeds maximum allowed');
 
     const appAddr: Account = Global.currentApplicationAddress;
@@ -694,29 +1372,67 @@ export class RareFiFolksVault extends arc4.Contract {
     assert(depositBalance >= this.minSwapThreshold.value, 'Below minimum swap threshold');
     assert(this.totalDeposits.value > Uint64(0), 'No depositors to distribute to');
 
-    this.executeSwapAndDistribute(depositBalance, slippageBps);
+    this.executeSwapAndDistribute(depositBalance, slippageBps, minAmountOut);
+  }
+
+  /**
+   * Record a TWAP price observation without swapping. Permissionless — keepers
+   * call this between harvests to keep the oracle fresh (and after a pool change).
+   */
+  @arc4.abimethod()
+  observePrice(): void {
+    assert(Txn.rekeyTo === Global.zeroAddress, 'rekeyTo must be zero');
+    this.updatePriceObservation();
   }
 
   // ── Yield Claiming ───────────────────────────────────────────────────────────
 
   /**
    * User claims accumulated swapAsset yield without withdrawing principal.
+   * Yield goes to the user's yield recipient if one is set.
    */
   @arc4.abimethod()
   claim(): void {
     assert(Txn.rekeyTo === Global.zeroAddress, 'rekeyTo must be zero');
-    this.updateEarnedYield(Txn.sender);
+    this.processClaim(Txn.sender);
+  }
 
-    const claimable = this.earnedYield(Txn.sender).value;
+  /**
+   * Claim on behalf of a user who approved the caller with approveClaimer.
+   * Yield goes where the user's own claim would send it, never to the caller.
+   *
+   * @param user - Position owner
+   */
+  @arc4.abimethod()
+  claimFor(user: Account): void {
+    assert(Txn.rekeyTo === Global.zeroAddress, 'rekeyTo must be zero');
+    assert(
+      this.claimSettings(user).exists && this.claimSettings(user).value.claimer.native === Txn.sender,
+      'Not an approved claimer',
+    );
+    this.processClaim(user);
+  }
+
+  /**
+   * Shared by claim and claimFor.
+   */
+  private processClaim(user: Account): void {
+    this.updateEarnedYield(user);
+
+    const position = clone(this.positions(user).value);
+    const claimable = position.earnedYield.asUint64();
     assert(claimable > Uint64(0), 'Nothing to claim');
 
-    this.earnedYield(Txn.sender).value = Uint64(0);
+    position.earnedYield = new arc4.Uint64(0);
+    this.positions(user).value = clone(position);
     itxn.assetTransfer({
-      assetReceiver: Txn.sender,
+      assetReceiver: this.yieldRecipient(user),
       xferAsset: Asset(this.swapAsset.value),
       assetAmount: claimable,
       fee: Uint64(0),
     }).submit();
+
+    emit('Claim', user, claimable);
   }
 
   /**
@@ -727,6 +1443,7 @@ export class RareFiFolksVault extends arc4.Contract {
     assert(Txn.rekeyTo === Global.zeroAddress, 'rekeyTo must be zero');
     assert(Txn.sender === this.creatorAddress.value, 'Only creator can claim');
 
+    this.accrueFarmSchedules();
     const claimable = this.creatorUnclaimedYield.value;
     assert(claimable > Uint64(0), 'Nothing to claim');
 
@@ -737,6 +1454,8 @@ export class RareFiFolksVault extends arc4.Contract {
       assetAmount: claimable,
       fee: Uint64(0),
     }).submit();
+
+    emit('CreatorClaim', Txn.sender, claimable);
   }
 
   // ── Farm Feature ─────────────────────────────────────────────────────────────
@@ -748,21 +1467,54 @@ export class RareFiFolksVault extends arc4.Contract {
   @arc4.abimethod()
   contributeFarm(): void {
     assert(Txn.rekeyTo === Global.zeroAddress, 'rekeyTo must be zero');
-    const appAddr: Account = Global.currentApplicationAddress;
-    const currentIndex = Txn.groupIndex;
-    assert(currentIndex >= Uint64(1), 'App call must follow asset transfer');
+    this.assertNotPaused();
+    const amount = this.receiveFarmContribution();
 
-    const farmTransfer = gtxn.AssetTransferTxn(currentIndex - Uint64(1));
-    assert(farmTransfer.xferAsset === Asset(this.swapAsset.value), 'Must transfer swap asset');
-    assert(farmTransfer.assetReceiver === appAddr, 'Must send to contract');
-    assert(farmTransfer.sender === Txn.sender, 'Transfer must be from caller');
-    assert(farmTransfer.rekeyTo === Global.zeroAddress, 'rekeyTo must be zero');
-    assert(farmTransfer.assetCloseTo === Global.zeroAddress, 'assetCloseTo must be zero');
+    this.farmBalance.value = this.farmBalance.value + amount;
 
-    const amount = farmTransfer.assetAmount;
-    assert(amount > Uint64(0), 'Contribution must be positive');
+    emit('FarmContributed', Txn.sender, amount);
+  }
 
-    this.farmBalance.value = this.farmBalance.value + amount;
+  /**
+   * Creator or RareFi contributes swapAsset released linearly from startTime to endTime.
+   * Streamed to depositors by time (on every deposit, withdraw and claim), independent of swaps.
+   * A startTime in the past starts now. Expects a preceding asset transfer of swapAsset to the vault.
+   */
+  @arc4.abimethod()
+  contributeFarmSchedule(startTime: uint64, endTime: uint64): void {
+    assert(Txn.rekeyTo === Global.zeroAddress, 'rekeyTo must be zero');
+    const isCreator = Txn.sender === this.creatorAddress.value;
+    const isRarefi = Txn.sender === this.rarefiAddress.value;
+    assert(isCreator || isRarefi, 'Only creator or RareFi can schedule farm emissions');
+    this.assertNotPaused();
+    const amount = this.receiveFarmContribution();
+
+    const now = Global.latestTimestamp;
+    const start: uint64 = startTime > now ? startTime : now;
+    assert(endTime > start, 'Schedule must end after it starts');
+    assert(endTime - start <= MAX_FARM_SCHEDULE_DURATION, 'Schedule too long');
+
+    // Frees the slots of finished schedules
+    this.accrueFarmSchedules();
+
+    const schedules = clone(this.farmSchedules.value);
+    let freeSlot: uint64 = MAX_FARM_SCHEDULES;
+    for (let i: uint64 = Uint64(0); i < MAX_FARM_SCHEDULES; i++) {
+      if (schedules[i].amount.asUint64() === Uint64(0) && freeSlot === MAX_FARM_SCHEDULES) {
+        freeSlot = i;
+      }
+    }
+    assert(freeSlot < MAX_FARM_SCHEDULES, 'Farm schedule list full');
+
+    schedules[freeSlot] = new FarmSchedule({
+      startTime: new arc4.Uint64(start),
+      endTime: new arc4.Uint64(endTime),
+      amount: new arc4.Uint64(amount),
+      released: new arc4.Uint64(0),
+    });
+    this.farmSchedules.value = clone(schedules);
+
+    emit('FarmScheduled', Txn.sender, freeSlot, start, endTime, amount);
   }
 
   /**
@@ -778,6 +1530,133 @@ export class RareFiFolksVault extends arc4.Contract {
     assert(isCreator || isRarefi, 'Only creator or RareFi can set emission ratio');
     assert(newRatio > Uint64(0), 'Emission ratio must be positive');
     this.emissionRatio.value = newRatio;
+
+    emit('EmissionRatioSet', newRatio);
+  }
+
+  // ── Time-Locked Deposits ─────────────────────────────────────────────────────
+
+  /**
+   * Configure a lock tier offered by depositLocked. Only callable by creator.
+   * Existing locks keep the boost they were created with.
+   *
+   * @param slot     - Tier slot (0–2)
+   * @param duration - Lock duration in seconds (0 = remove the tier)
+   * @param boostBps - Weight multiplier while locked (10000 = 1x, max 30000)
+   */
+  @arc4.abimethod()
+  setLockTier(slot: uint64, duration: uint64, boostBps: uint64): void {
+    assert(Txn.rekeyTo === Global.zeroAddress, 'rekeyTo must be zero');
+    assert(Txn.sender === this.creatorAddress.value, 'Only creator can set lock tiers');
+    assert(slot < MAX_LOCK_TIERS, 'Invalid lock tier slot');
+
+    const tiers = clone(this.lockTiers.value);
+    if (duration === Uint64(0)) {
+      tiers[slot] = new LockTier({ duration: new arc4.Uint64(0), boostBps: new arc4.Uint64(0) });
+    } else {
+      assert(duration <= MAX_LOCK_DURATION, 'Lock duration too long');
+      assert(boostBps > BOOST_BPS_BASE && boostBps <= MAX_LOCK_BOOST_BPS, 'Boost out of range');
+      for (let i: uint64 = Uint64(0); i < MAX_LOCK_TIERS; i++) {
+        assert(i === slot || tiers[i].duration.asUint64() !== duration, 'Lock duration already offered');
+      }
+      tiers[slot] = new LockTier({ duration: new arc4.Uint64(duration), boostBps: new arc4.Uint64(boostBps) });
+    }
+    this.lockTiers.value = clone(tiers);
+
+    emit('LockTierSet', slot, duration, tiers[slot].boostBps.asUint64());
+  }
+
+  /**
+   * Drop an expired lock's boost so the position stops earning at the boosted weight.
+   * Permissionless; deposits and withdrawals do the same for the caller's own position.
+   */
+  @arc4.abimethod()
+  releaseLock(user: Account): void {
+    assert(Txn.rekeyTo === Global.zeroAddress, 'rekeyTo must be zero');
+    const position = this.getPosition(user);
+    assert(position.boostBps.asUint64() !== BOOST_BPS_BASE, 'No boosted lock');
+    assert(Global.latestTimestamp >= position.lockedUntil.asUint64(), 'Deposit is locked');
+
+    this.updateEarnedYield(user);
+    this.updateWeight(user);
+  }
+
+  // ── Exit Fee ─────────────────────────────────────────────────────────────────
+
+  /**
+   * Set the exit fee charged on withdrawals. It decays linearly to zero over
+   * exitFeePeriod after depositing. Only callable by creator.
+   * Applies to existing positions from their deposit time.
+   *
+   * @param exitFeeBps    - Fee right after depositing in basis points (0 = disabled, max 500)
+   * @param exitFeePeriod - Seconds for the fee to reach zero (0 = disabled, max 30 days)
+   */
+  @arc4.abimethod()
+  setExitFee(exitFeeBps: uint64, exitFeePeriod: uint64): void {
+    assert(Txn.rekeyTo === Global.zeroAddress, 'rekeyTo must be zero');
+    assert(Txn.sender === this.creatorAddress.value, 'Only creator can set exit fee');
+    assert(exitFeeBps <= MAX_EXIT_FEE_BPS, 'Exit fee too high');
+    assert(exitFeePeriod <= MAX_EXIT_FEE_PERIOD, 'Exit fee period too long');
+    assert((exitFeeBps === Uint64(0)) === (exitFeePeriod === Uint64(0)), 'Set both exit fee and period, or neither');
+
+    this.exitFeeBps.value = exitFeeBps;
+    this.exitFeePeriod.value = exitFeePeriod;
+
+    emit('ExitFeeSet', exitFeeBps, exitFeePeriod);
+  }
+
+  // ── Claim Routing ────────────────────────────────────────────────────────────
+
+  /**
+   * Send claimed swapAsset yield to another address (e.g. a hot wallet).
+   * The first claim setting creates the caller's claim settings box and expects a
+   * preceding payment of CLAIM_SETTINGS_MBR; clearClaimSettings refunds it.
+   * withdraw and closeOut still pay yield to the position owner.
+   *
+   * @param recipient - Receives claimed yield (zero address = the caller)
+   */
+  @arc4.abimethod()
+  setYieldRecipient(recipient: Account): void {
+    assert(Txn.rekeyTo === Global.zeroAddress, 'rekeyTo must be zero');
+    const settings = this.loadClaimSettings();
+    settings.recipient = new arc4.Address(recipient);
+    this.claimSettings(Txn.sender).value = clone(settings);
+
+    emit('YieldRecipientSet', Txn.sender, recipient);
+  }
+
+  /**
+   * Let an operator (e.g. an aggregator) trigger claims for the caller with claimFor.
+   * Same box and MBR payment rules as setYieldRecipient.
+   *
+   * @param claimer - Approved operator (zero address = revoke)
+   */
+  @arc4.abimethod()
+  approveClaimer(claimer: Account): void {
+    assert(Txn.rekeyTo === Global.zeroAddress, 'rekeyTo must be zero');
+    const settings = this.loadClaimSettings();
+    settings.claimer = new arc4.Address(claimer);
+    this.claimSettings(Txn.sender).value = clone(settings);
+
+    emit('ClaimerApproved', Txn.sender, claimer);
+  }
+
+  /**
+   * Remove the caller's yield recipient and claimer, delete the box and refund its MBR.
+   */
+  @arc4.abimethod()
+  clearClaimSettings(): void {
+    assert(Txn.rekeyTo === Global.zeroAddress, 'rekeyTo must be zero');
+    assert(this.claimSettings(Txn.sender).exists, 'No claim settings');
+    this.claimSettings(Txn.sender).delete();
+
+    itxn.payment({
+      receiver: Txn.sender,
+      amount: CLAIM_SETTINGS_MBR,
+      fee: Uint64(0),
+    }).submit();
+
+    emit('ClaimSettingsCleared', Txn.sender);
   }
 
   // ── Read-Only Methods ────────────────────────────────────────────────────────
@@ -791,34 +1670,63 @@ export class RareFiFolksVault extends arc4.Contract {
   getVaultStats(): [uint64, uint64, uint64, uint64, uint64, uint64] {
     const appAddr: Account = Global.currentApplicationAddress;
     const depositBalance = Asset(this.depositAsset.value).balance(appAddr);
-    const fTokenBalance = Asset(this.fTokenAsset.value).balance(appAddr);
-    const yieldFTokens = fTokenBalance > this.totalPrincipalFTokens.value
-      ? fTokenBalance - this.totalPrincipalFTokens.value
-      : Uint64(0);
 
     return [
       this.totalDeposits.value,
       this.yieldPerToken.value,
       this.creatorUnclaimedYield.value,
       depositBalance,
-      yieldFTokens,
+      this.getHarvestableFTokenAmount(),
       this.totalYieldGenerated.value,
     ];
   }
 
+  /**
+   * Yield fTokens harvestAll would redeem (fTokenBalance - totalPrincipalFTokens).
+   */
+  @arc4.abimethod({ readonly: true })
+  getHarvestableFTokens(): uint64 {
+    return this.getHarvestableFTokenAmount();
+  }
+
+  /**
+   * Estimate a full harvest at the last recorded fToken rate.
+   * Returns [yieldFTokens, estimatedUnderlying, expectedSwapOutput]
+   * where expectedSwapOutput is the Tinyman output for the vault's deposit balance
+   * plus estimatedUnderlying, or 0 if that stays below minSwapThreshold (no swap).
+   */
+  @arc4.abimethod({ readonly: true })
+  getHarvestQuote(): [uint64, uint64, uint64] {
+    const yieldFTokens = this.getHarvestableFTokenAmount();
+    const estimatedUnderlying = this.mulDivFloor(yieldFTokens, this.fTokenRate.value, FTOKEN_RATE_SCALE);
+    const swapAmount: uint64 = Asset(this.depositAsset.value).balance(Global.currentApplicationAddress) + estimatedUnderlying;
+
+    let expectedSwapOutput: uint64 = Uint64(0);
+    if (swapAmount >= this.minSwapThreshold.value) {
+      expectedSwapOutput = this.getExpectedSwapOutput(swapAmount);
+    }
+    return [yieldFTokens, estimatedUnderlying, expectedSwapOutput];
+  }
+
   /**
    * Get user's pending unclaimed yield (without claiming).
    */
   @arc4.abimethod({ readonly: true })
   getPendingYield(user: Account): uint64 {
-    const deposited = this.depositedAmount(user).value;
-    let pending = this.earnedYield(user).value;
+    if (!this.positions(user).exists) {
+      return Uint64(0);
+    }
 
-    if (deposited > Uint64(0)) {
-      const currentYPT = this.yieldPerToken.value;
-      const userYPT = this.userYieldPerToken(user).value;
+    const position = clone(this.positions(user).value);
+    const weight = position.weight.asUint64();
+    let pending = position.earnedYield.asUint64();
+
+    if (weight > Uint64(0)) {
+      // Include farm schedule amounts vested since the last accrual
+      const currentYPT: uint64 = this.yieldPerToken.value + this.pendingFarmYieldPerToken();
+      const userYPT = position.userYieldPerToken.asUint64();
       if (currentYPT > userYPT) {
-        pending = pending + this.mulDivFloor(deposited, currentYPT - userYPT, SCALE);
+        pending = pending + this.mulDivFloor(weight, currentYPT - userYPT, SCALE);
       }
     }
 
@@ -830,20 +1738,129 @@ export class RareFiFolksVault extends arc4.Contract {
    */
   @arc4.abimethod({ readonly: true })
   getUserDeposit(user: Account): uint64 {
-    return this.depositedAmount(user).value;
+    if (!this.positions(user).exists) {
+      return Uint64(0);
+    }
+    return this.positions(user).value.depositedAmount.asUint64();
+  }
+
+  /**
+   * Get user's raw position box contents (all zero if no position).
+   * Returns [depositedAmount, userYieldPerToken, earnedYield]
+   */
+  @arc4.abimethod({ readonly: true })
+  getUserPosition(user: Account): [uint64, uint64, uint64] {
+    if (!this.positions(user).exists) {
+      return [Uint64(0), Uint64(0), Uint64(0)];
+    }
+    const position = clone(this.positions(user).value);
+    return [
+      position.depositedAmount.asUint64(),
+      position.userYieldPerToken.asUint64(),
+      position.earnedYield.asUint64(),
+    ];
+  }
+
+  /**
+   * Get the lock tiers (duration 0 = empty slot).
+   */
+  @arc4.abimethod({ readonly: true })
+  getLockTiers(): arc4.StaticArray<LockTier, 3> {
+    return clone(this.lockTiers.value);
+  }
+
+  /**
+   * Get user's lock state (all zero if no position).
+   * Returns [weight, boostBps, lockedUntil]
+   */
+  @arc4.abimethod({ readonly: true })
+  getUserLock(user: Account): [uint64, uint64, uint64] {
+    if (!this.positions(user).exists) {
+      return [Uint64(0), Uint64(0), Uint64(0)];
+    }
+    const position = clone(this.positions(user).value);
+    return [position.weight.asUint64(), position.boostBps.asUint64(), position.lockedUntil.asUint64()];
+  }
+
+  /**
+   * Get the exit fee settings and a user's current rate (0 if no position).
+   * Returns [exitFeeBps, exitFeePeriod, userFeeBps]
+   */
+  @arc4.abimethod({ readonly: true })
+  getExitFee(user: Account): [uint64, uint64, uint64] {
+    let userFeeBps: uint64 = Uint64(0);
+    if (this.positions(user).exists) {
+      userFeeBps = this.currentExitFeeBps(clone(this.positions(user).value));
+    }
+    return [this.exitFeeBps.value, this.exitFeePeriod.value, userFeeBps];
+  }
+
+  /**
+   * Get a user's claim routing.
+   * Returns [recipient, claimer] (zero addresses if not set)
+   */
+  @arc4.abimethod({ readonly: true })
+  getClaimSettings(user: Account): [Account, Account] {
+    if (!this.claimSettings(user).exists) {
+      return [Global.zeroAddress, Global.zeroAddress];
+    }
+    const settings = clone(this.claimSettings(user).value);
+    return [settings.recipient.native, settings.claimer.native];
   }
 
   /**
    * Get farm statistics.
-   * Returns [farmBalance, emissionRatio, currentDynamicRate]
+   * Returns [farmBalance, emissionRatio, currentDynamicRate, scheduledAmount, scheduledRemaining]
+   * where scheduledAmount totals the active schedules and scheduledRemaining is what they have yet to vest.
    */
   @arc4.abimethod({ readonly: true })
-  getFarmStats(): [uint64, uint64, uint64] {
+  getFarmStats(): [uint64, uint64, uint64, uint64, uint64] {
     let currentRate: uint64 = Uint64(0);
     if (this.emissionRatio.value > Uint64(0) && this.farmBalance.value > Uint64(0)) {
       currentRate = this.calculateDynamicEmissionRate();
     }
-    return [this.farmBalance.value, this.emissionRatio.value, currentRate];
+
+    const now = Global.latestTimestamp;
+    const schedules = clone(this.farmSchedules.value);
+    let scheduledAmount: uint64 = Uint64(0);
+    let scheduledRemaining: uint64 = Uint64(0);
+    for (let i: uint64 = Uint64(0); i < MAX_FARM_SCHEDULES; i++) {
+      const amount = schedules[i].amount.asUint64();
+      scheduledAmount = scheduledAmount + amount;
+      scheduledRemaining = scheduledRemaining + amount - this.vestedFarmAmount(clone(schedules[i]), now);
+    }
+
+    return [this.farmBalance.value, this.emissionRatio.value, currentRate, scheduledAmount, scheduledRemaining];
+  }
+
+  /**
+   * Get a farm schedule slot (all 0 when empty).
+   * Returns [startTime, endTime, amount, vested]
+   */
+  @arc4.abimethod({ readonly: true })
+  getFarmSchedule(slot: uint64): [uint64, uint64, uint64, uint64] {
+    assert(slot < MAX_FARM_SCHEDULES, 'Invalid schedule slot');
+    const schedule = clone(this.farmSchedules.value[slot]);
+    return [
+      schedule.startTime.asUint64(),
+      schedule.endTime.asUint64(),
+      schedule.amount.asUint64(),
+      this.vestedFarmAmount(clone(schedule), Global.latestTimestamp),
+    ];
+  }
+
+  /**
+   * Get price oracle state (prices are swap output for 1 deposit token).
+   * Returns [spotPrice, twapPrice, lastObservationTime, maxPriceDeviationBps]
+   */
+  @arc4.abimethod({ readonly: true })
+  getPriceOracle(): [uint64, uint64, uint64, uint64] {
+    return [
+      this.getExpectedSwapOutput(PRICE_PROBE_AMOUNT),
+      this.twapPrice.value,
+      this.lastObservationTime.value,
+      this.maxPriceDeviationBps.value,
+    ];
   }
 
   // ── Admin Methods ────────────────────────────────────────────────────────────
@@ -901,6 +1918,63 @@ export class RareFiFolksVault extends arc4.Contract {
     assert(newPoolAppId !== Uint64(0), 'Invalid pool app ID');
     this.tinymanPoolAppId.value = newPoolAppId;
     this.tinymanPoolAddress.value = newPoolAddress;
+
+    // Old observations describe another pool — reseed the TWAP on the next observation
+    this.lastObservationTime.value = Uint64(0);
+  }
+
+  @arc4.abimethod()
+  updateMaxPriceDeviation(newMaxDeviationBps: uint64): void {
+    assert(Txn.rekeyTo === Global.zeroAddress, 'rekeyTo must be zero');
+    const isCreator = Txn.sender === this.creatorAddress.value;
+    const isRarefi = Txn.sender === this.rarefiAddress.value;
+    assert(isCreator || isRarefi, 'Only creator or RareFi can update');
+    assert(newMaxDeviationBps >= MIN_PRICE_DEVIATION_BPS, 'Price deviation too low (min 1%)');
+    assert(newMaxDeviationBps <= FEE_BPS_BASE, 'Price deviation too high');
+    this.maxPriceDeviationBps.value = newMaxDeviationBps;
+  }
+
+  // ── Emergency Pause ──────────────────────────────────────────────────────────
+
+  /**
+   * Guardian pauses deposit, harvestYield, swapYield and contributeFarm for
+   * `duration` seconds (max 7 days). Exits stay open; the pause expires on its own.
+   */
+  @arc4.abimethod()
+  pause(duration: uint64): void {
+    assert(Txn.rekeyTo === Global.zeroAddress, 'rekeyTo must be zero');
+    assert(Txn.sender === this.guardianAddress.value, 'Only guardian can pause');
+    assert(duration > Uint64(0), 'Duration must be positive');
+    assert(duration <= MAX_PAUSE_DURATION, 'Pause duration exceeds maximum (7 days)');
+    assert(Global.latestTimestamp >= this.pausedUntil.value, 'Already paused');
+    this.pausedUntil.value = Global.latestTimestamp + duration;
+  }
+
+  @arc4.abimethod()
+  unpause(): void {
+    assert(Txn.rekeyTo === Global.zeroAddress, 'rekeyTo must be zero');
+    assert(Txn.sender === this.guardianAddress.value, 'Only guardian can unpause');
+    this.pausedUntil.value = Uint64(0);
+  }
+
+  @arc4.abimethod()
+  updateGuardian(newGuardianAddress: Account): void {
+    assert(Txn.rekeyTo === Global.zeroAddress, 'rekeyTo must be zero');
+    assert(Txn.sender === this.rarefiAddress.value, 'Only RareFi can update guardian');
+    assert(newGuardianAddress !== Global.zeroAddress, 'Cannot set zero address');
+    this.guardianAddress.value = newGuardianAddress;
+  }
+
+  /**
+   * Returns [isPaused, pausedUntil, secondsRemaining]
+   */
+  @arc4.abimethod({ readonly: true })
+  getPauseState(): [uint64, uint64, uint64] {
+    const now = Global.latestTimestamp;
+    if (now >= this.pausedUntil.value) {
+      return [Uint64(0), this.pausedUntil.value, Uint64(0)];
+    }
+    return [Uint64(1), this.pausedUntil.value, this.pausedUntil.value - now];
   }
 
   // ── Security: Immutability ───────────────────────────────────────────────────
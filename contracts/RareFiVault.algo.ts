@@ -4,7 +4,7 @@
 
 import {
   GlobalState,
-  LocalState,
+  BoxMap,
   itxn,
   gtxn,
   Global,
@@ -18,20 +18,110 @@ import {
   Txn,
   Bytes,
   baremethod,
+  clone,
+  emit,
 } from '@algorandfoundation/algorand-typescript';
-import { mulw, divmodw, itob, AppLocal } from '@algorandfoundation/algorand-typescript/op';
+import { mulw, divmodw, addw, itob, AppGlobal, AppLocal } from '@algorandfoundation/algorand-typescript/op';
 
 // Constants
 const SCALE: uint64 = Uint64(1_000_000_000_000);      // 1e12 for yield_per_token precision
 const MAX_FEE_RATE: uint64 = Uint64(6);                 // 6% max fee (percentage 0-6)
 const FEE_PERCENT_BASE: uint64 = Uint64(100);          // Fee percentage base (feeRate/100 = percentage)
 const MIN_FARM_EMISSION_BPS: uint64 = Uint64(1_000);    // 10% minimum when farm has balance
+const MAX_FARM_SCHEDULES: uint64 = Uint64(3);           // Concurrent farm emission schedules
+const MAX_FARM_SCHEDULE_DURATION: uint64 = Uint64(31_536_000); // 365 days max per schedule
+const MAX_REWARD_TOKENS: uint64 = Uint64(2);            // Extra reward streams alongside swapAsset
+const MAX_LOCK_TIERS: uint64 = Uint64(3);               // Configurable lock durations for boosted deposits
+const MAX_LOCK_DURATION: uint64 = Uint64(31_536_000);   // 365 days max lock
+const BOOST_BPS_BASE: uint64 = Uint64(10_000);          // 1x weight (unlocked deposits)
+const MAX_LOCK_BOOST_BPS: uint64 = Uint64(30_000);      // 3x max weight for a lock tier
+const MAX_EXIT_FEE_BPS: uint64 = Uint64(500);           // 5% max exit fee
+const MAX_EXIT_FEE_PERIOD: uint64 = Uint64(2_592_000);  // 30 days max for the exit fee to decay to zero
 const MIN_DEPOSIT_AMOUNT: uint64 = Uint64(1_000_000);  // Minimum deposit (1 token with 6 decimals)
 const MIN_SWAP_AMOUNT: uint64 = Uint64(100_000);       // Minimum swap amount (0.10 USDC)
 const MAX_SWAP_THRESHOLD: uint64 = Uint64(50_000_000);  // Maximum swap threshold (50 USDC)
 const FEE_BPS_BASE: uint64 = Uint64(10_000);           // Basis points denominator (10000 = 100%)
 const MAX_SLIPPAGE_BPS: uint64 = Uint64(10_000);        // Absolute ceiling for maxSlippageBps setting
 const MIN_MAX_SLIPPAGE_BPS: uint64 = Uint64(500);       // 5% minimum for maxSlippageBps (prevents creator from setting too low)
+const POSITION_MBR: uint64 = Uint64(54_100);            // Position box MBR: 2500 + 400 * (33 key + 96 value)
+const CLAIM_SETTINGS_MBR: uint64 = Uint64(41_300);      // Claim settings box MBR: 2500 + 400 * (33 key + 64 value)
+const MAX_PAUSE_DURATION: uint64 = Uint64(604_800);     // 7 days - a pause always auto-expires within this window
+const ALGO_ASSET_ID: uint64 = Uint64(0);                // Tinyman V2 uses asset ID 0 for ALGO
+const MAX_CANDIDATE_POOLS: uint64 = Uint64(2);         // Allowlisted alternative pools compared against the creation route
+const MAX_STAKE_TARGETS: uint64 = Uint64(2);           // Allowlisted vaults claimAndStake can deposit yield into
+const PRICE_PROBE_AMOUNT: uint64 = Uint64(1_000_000);   // Oracle price = route output for 1 USDC
+const TWAP_WINDOW: uint64 = Uint64(1_800);              // 30 min minimum averaging window for the TWAP
+const DEFAULT_MAX_PRICE_DEVIATION_BPS: uint64 = Uint64(1_000); // 10% default spot-vs-TWAP limit for swaps
+const MIN_PRICE_DEVIATION_BPS: uint64 = Uint64(100);    // 1% minimum for maxPriceDeviationBps
+const MAX_UINT64: uint64 = Uint64(18_446_744_073_709_551_615n); // Wrap point for priceCumulative
+
+/**
+ * Per-user state for one extra reward stream
+ */
+export class RewardPosition extends arc4.Struct<{
+  userRewardPerToken: arc4.Uint64; // Snapshot of the stream's rewardPerToken at last action
+  earned: arc4.Uint64;             // Accumulated reward not yet claimed
+}> {}
+
+/**
+ * Per-user position, stored in a box keyed by the user's address
+ */
+export class UserPosition extends arc4.Struct<{
+  depositedAmount: arc4.Uint64;    // User's Alpha balance in vault
+  userYieldPerToken: arc4.Uint64;  // Snapshot of yieldPerToken at last action
+  earnedYield: arc4.Uint64;        // Accumulated yield not yet claimed
+  rewards: arc4.StaticArray<RewardPosition, 2>; // One entry per reward stream slot
+  weight: arc4.Uint64;             // depositedAmount x boostBps / 10000, the position's share of distributions
+  boostBps: arc4.Uint64;           // Weight multiplier of the current lock (10000 = no boost)
+  lockedUntil: arc4.Uint64;        // Principal can't be withdrawn before this timestamp
+  userExitFeePerToken: arc4.Uint64; // Snapshot of exitFeePerToken at last action
+  depositTime: arc4.Uint64;        // Amount-weighted average deposit time (the exit fee decays from here)
+}> {}
+
+/**
+ * Per-user claim routing, stored in an optional box created by setYieldRecipient or approveClaimer
+ */
+export class ClaimSettings extends arc4.Struct<{
+  recipient: arc4.Address;  // Receives claimed swapAsset yield (zero address = the user)
+  claimer: arc4.Address;    // Operator allowed to call claimFor (zero address = none)
+}> {}
+
+/**
+ * Lock tier: deposits locked for `duration` seconds get boostBps weight (duration 0 = empty slot)
+ */
+export class LockTier extends arc4.Struct<{
+  duration: arc4.Uint64;
+  boostBps: arc4.Uint64;
+}> {}
+
+/**
+ * Farm emission schedule: amount released linearly from startTime to endTime (amount 0 = empty slot)
+ */
+export class FarmSchedule extends arc4.Struct<{
+  startTime: arc4.Uint64;
+  endTime: arc4.Uint64;
+  amount: arc4.Uint64;    // Total swapAsset to release
+  released: arc4.Uint64;  // Streamed to depositors so far
+}> {}
+
+/**
+ * Extra reward stream: a partner ASA released to depositors at ratePerSecond from its own balance (assetId 0 = empty slot)
+ */
+export class RewardStream extends arc4.Struct<{
+  assetId: arc4.Uint64;
+  rewardPerToken: arc4.Uint64;  // Accumulator (scaled by SCALE)
+  farmBalance: arc4.Uint64;     // Contributed and not yet released
+  ratePerSecond: arc4.Uint64;
+  lastUpdateTime: arc4.Uint64;  // Release is accrued up to this timestamp
+}> {}
+
+/**
+ * Allowlisted alternative USDC/swapAsset pool (poolAppId 0 = empty slot)
+ */
+export class CandidatePool extends arc4.Struct<{
+  poolAppId: arc4.Uint64;
+  poolAddress: arc4.Address;
+}> {}
 
 export class RareFiVault extends arc4.Contract {
   // ============================================
@@ -51,29 +141,69 @@ export class RareFiVault extends arc4.Contract {
 
   // Vault state
   totalDeposits = GlobalState<uint64>();     // Total Alpha deposited in vault
+  totalWeight = GlobalState<uint64>();       // Sum of position weights (yield is distributed per unit of weight)
   yieldPerToken = GlobalState<uint64>();     // Accumulator for yield distribution (scaled by SCALE)
   minSwapThreshold = GlobalState<uint64>();  // Minimum USDC before swap allowed
   maxSlippageBps = GlobalState<uint64>();    // Maximum slippage tolerance in basis points
   totalYieldGenerated = GlobalState<uint64>(); // Total yield generated from swaps (swap output in swapAsset)
 
   // Tinyman V2 integration
-  tinymanPoolAppId = GlobalState<uint64>();  // Tinyman V2 pool app ID (USDC/swapAsset)
+  tinymanPoolAppId = GlobalState<uint64>();  // Tinyman V2 pool app ID (USDC/swapAsset, or USDC/ALGO when routed)
   tinymanPoolAddress = GlobalState<Account>(); // Tinyman pool address
+  hopPoolAppId = GlobalState<uint64>();      // Optional second pool app ID (ALGO/swapAsset), 0 = direct swap
+  hopPoolAddress = GlobalState<Account>();   // Second pool address
+  candidatePools = GlobalState<arc4.StaticArray<CandidatePool, 2>>(); // Alternative pools for best execution (swaps use the highest quote)
+
+  // Price oracle - TWAP of the creation route, used to bound swaps against manipulation
+  priceCumulative = GlobalState<uint64>();      // Running sum of spot price x seconds (wraps on overflow)
+  lastSpotPrice = GlobalState<uint64>();        // Creation-route output for PRICE_PROBE_AMOUNT at last observation
+  lastObservationTime = GlobalState<uint64>();  // Timestamp of last observation (0 = oracle not seeded)
+  twapAnchorCumulative = GlobalState<uint64>(); // priceCumulative at the start of the current window
+  twapAnchorTime = GlobalState<uint64>();       // Start of the current window
+  twapPrice = GlobalState<uint64>();            // Time-weighted price over the last completed window
+  twapSeedRound = GlobalState<uint64>();        // Round of the seeding observation (the TWAP only guards swaps in later rounds)
+  maxPriceDeviationBps = GlobalState<uint64>(); // Max spot-vs-TWAP deviation allowed for swaps
 
   // Farm feature - dynamic yield distribution
   farmBalance = GlobalState<uint64>();         // Total swapAsset available for farm bonus
   emissionRatio = GlobalState<uint64>();       // Multiplier for dynamic rate: rate = farmBalance * emissionRatio / totalDeposits
+  farmSchedules = GlobalState<arc4.StaticArray<FarmSchedule, 3>>(); // Time-based farm campaigns, streamed to depositors independent of swaps
+
+  // Extra reward tokens - partner incentives with their own accumulator and balance
+  rewardStreams = GlobalState<arc4.StaticArray<RewardStream, 2>>(); // Added by the creator, claimed alongside swapAsset yield
+
+  // Time-locked deposits - boosted weight in exchange for locked principal
+  lockTiers = GlobalState<arc4.StaticArray<LockTier, 3>>(); // Creator-configured lock durations and their boosts
+
+  // Exit fee - decays to zero over exitFeePeriod after deposit, shared with the remaining depositors
+  exitFeeBps = GlobalState<uint64>();         // Exit fee right after depositing (0 = disabled)
+  exitFeePeriod = GlobalState<uint64>();      // Seconds for the exit fee to decay to zero
+  exitFeePerToken = GlobalState<uint64>();    // Accumulator for Alpha exit fees, credited to principal (scaled by SCALE)
+
+  // Migration - users can move their position into an approved successor vault
+  successorAppId = GlobalState<uint64>();     // Approved successor vault app ID (0 = none)
+  predecessorAppId = GlobalState<uint64>();   // Vault allowed to migrate positions in via acceptMigration (0 = none)
+
+  // Claim and stake
+  stakeTargets = GlobalState<arc4.StaticArray<arc4.Uint64, 2>>(); // Vaults whose deposit asset is swapAsset (app ID 0 = empty slot)
+
+  // Zap deposits - USDC swapped into the deposit asset on the way in
+  zapPoolAppId = GlobalState<uint64>();       // Tinyman V2 USDC/depositAsset pool app ID (0 = zaps disabled)
+  zapPoolAddress = GlobalState<Account>();    // Zap pool address
 
   // Setup guard
   assetsOptedIn = GlobalState<uint64>();      // 1 if assets are opted in, 0 otherwise
 
+  // Emergency pause (deposits, swaps and farm contributions only)
+  guardianAddress = GlobalState<Account>();   // Can pause the vault (defaults to rarefiAddress)
+  pausedUntil = GlobalState<uint64>();        // Timestamp the pause expires at (0 = not paused)
+
   // ============================================
-  // LOCAL STATE (per user)
+  // BOX STORAGE (per user)
   // ============================================
 
-  depositedAmount = LocalState<uint64>();    // User's Alpha balance in vault
-  userYieldPerToken = LocalState<uint64>();  // Snapshot of yieldPerToken at last action
-  earnedYield = LocalState<uint64>();        // Accumulated yield not yet claimed
+  positions = BoxMap<Account, UserPosition>({ keyPrefix: 'p' }); // User address -> position
+  claimSettings = BoxMap<Account, ClaimSettings>({ keyPrefix: 'c' }); // User address -> claim routing (optional)
 
   // ============================================
   // HELPER FUNCTIONS
@@ -90,6 +220,14 @@ export class RareFiVault extends arc4.Contract {
     return q_lo;
   }
 
+  /**
+   * Reject the call while a guardian pause is active
+   * Withdraw, claim and closeOut never call this, so users can always exit
+   */
+  private assertNotPaused(): void {
+    assert(Global.latestTimestamp >= this.pausedUntil.value, 'Vault is paused');
+  }
+
   /**
    * Calculate dynamic farm emission rate based on farmBalance / totalDeposits ratio
    * Rate = farmBalance * emissionRatio / totalDeposits, floored at 10% when farm has balance
@@ -106,39 +244,382 @@ export class RareFiVault extends arc4.Contract {
     return dynamicRate < MIN_FARM_EMISSION_BPS ? MIN_FARM_EMISSION_BPS : dynamicRate;
   }
 
+  /**
+   * Amount of a farm schedule vested at `now` (linear between startTime and endTime)
+   */
+  private vestedFarmAmount(schedule: FarmSchedule, now: uint64): uint64 {
+    const startTime = schedule.startTime.asUint64();
+    const endTime = schedule.endTime.asUint64();
+    const amount = schedule.amount.asUint64();
+
+    if (now <= startTime) {
+      return Uint64(0);
+    }
+    if (now >= endTime) {
+      return amount;
+    }
+    return this.mulDivFloor(amount, now - startTime, endTime - startTime);
+  }
+
+  /**
+   * Vested farm schedule amounts not yet streamed to depositors
+   */
+  private unreleasedFarmVested(): uint64 {
+    const now = Global.latestTimestamp;
+    const schedules = clone(this.farmSchedules.value);
+    let total: uint64 = Uint64(0);
+    for (let i: uint64 = Uint64(0); i < MAX_FARM_SCHEDULES; i++) {
+      const schedule = clone(schedules[i]);
+      total = total + this.vestedFarmAmount(clone(schedule), now) - schedule.released.asUint64();
+    }
+    return total;
+  }
+
+  /**
+   * yieldPerToken increase the next accrueFarmSchedules would apply (for read-only methods)
+   */
+  private pendingFarmYieldPerToken(): uint64 {
+    if (this.totalDeposits.value === Uint64(0)) {
+      return Uint64(0);
+    }
+
+    const vested = this.unreleasedFarmVested();
+    const userCut: uint64 = vested - this.mulDivFloor(vested, this.creatorFeeRate.value, FEE_PERCENT_BASE);
+    return this.mulDivFloor(userCut, SCALE, this.totalWeight.value);
+  }
+
+  /**
+   * Stream vested farm schedule amounts to depositors, with the same creator fee as the swap farm bonus
+   * Must run before totalWeight changes; amounts that vest while the vault is empty move to farmBalance
+   */
+  private accrueFarmSchedules(): void {
+    const now = Global.latestTimestamp;
+    const schedules = clone(this.farmSchedules.value);
+    let released: uint64 = Uint64(0);
+
+    for (let i: uint64 = Uint64(0); i < MAX_FARM_SCHEDULES; i++) {
+      const schedule = clone(schedules[i]);
+      const vested = this.vestedFarmAmount(clone(schedule), now);
+      released = released + vested - schedule.released.asUint64();
+
+      if (vested === schedule.amount.asUint64()) {
+        // Fully released (or already empty): free the slot
+        schedules[i] = new FarmSchedule({
+          startTime: new arc4.Uint64(0),
+          endTime: new arc4.Uint64(0),
+          amount: new arc4.Uint64(0),
+          released: new arc4.Uint64(0),
+        });
+      } else {
+        schedule.released = new arc4.Uint64(vested);
+        schedules[i] = clone(schedule);
+      }
+    }
+    this.farmSchedules.value = clone(schedules);
+
+    if (released === Uint64(0)) {
+      return;
+    }
+
+    if (this.totalDeposits.value === Uint64(0)) {
+      this.farmBalance.value = this.farmBalance.value + released;
+      return;
+    }
+
+    this.totalYieldGenerated.value = this.totalYieldGenerated.value + released;
+
+    const creatorCut: uint64 = this.mulDivFloor(released, this.creatorFeeRate.value, FEE_PERCENT_BASE);
+    const userCut: uint64 = released - creatorCut;
+    this.creatorUnclaimedYield.value = this.creatorUnclaimedYield.value + creatorCut;
+    if (userCut > Uint64(0)) {
+      this.yieldPerToken.value = this.yieldPerToken.value + this.mulDivFloor(userCut, SCALE, this.totalWeight.value);
+    }
+
+    emit('FarmStreamed', released, creatorCut);
+  }
+
+  /**
+   * Validate the swapAsset transfer preceding a farm contribution and return its amount
+   */
+  private receiveFarmContribution(): uint64 {
+    const appAddr: Account = Global.currentApplicationAddress;
+    const currentIndex = Txn.groupIndex;
+    assert(currentIndex >= Uint64(1), 'App call must follow asset transfer');
+
+    // Validate the contribution transfer
+    const farmTransfer = gtxn.AssetTransferTxn(currentIndex - Uint64(1));
+    assert(farmTransfer.xferAsset === Asset(this.swapAsset.value), 'Must transfer swap asset');
+    assert(farmTransfer.assetReceiver === appAddr, 'Must send to contract');
+    assert(farmTransfer.sender === Txn.sender, 'Transfer must be from caller');
+
+    // SECURITY: Prevent phishing attacks - reject dangerous fields
+    assert(farmTransfer.rekeyTo === Global.zeroAddress, 'rekeyTo must be zero');
+    assert(farmTransfer.assetCloseTo === Global.zeroAddress, 'assetCloseTo must be zero');
+
+    const amount = farmTransfer.assetAmount;
+    assert(amount > Uint64(0), 'Contribution must be positive');
+    return amount;
+  }
+
+  /**
+   * Amount of a reward stream released since its last update (capped at its balance, 0 while the vault is empty)
+   */
+  private releasableReward(stream: RewardStream, now: uint64): uint64 {
+    const balance = stream.farmBalance.asUint64();
+    const lastUpdate = stream.lastUpdateTime.asUint64();
+    if (this.totalDeposits.value === Uint64(0) || balance === Uint64(0) || now <= lastUpdate) {
+      return Uint64(0);
+    }
+
+    const [hi, lo] = mulw(stream.ratePerSecond.asUint64(), now - lastUpdate);
+    return hi === Uint64(0) && lo < balance ? lo : balance;
+  }
+
+  /**
+   * A reward stream's rewardPerToken including the release since its last update (for read-only methods)
+   */
+  private currentRewardPerToken(stream: RewardStream): uint64 {
+    const released = this.releasableReward(clone(stream), Global.latestTimestamp);
+    if (released === Uint64(0)) {
+      return stream.rewardPerToken.asUint64();
+    }
+    return stream.rewardPerToken.asUint64() + this.mulDivFloor(released, SCALE, this.totalWeight.value);
+  }
+
+  /**
+   * A position's earned plus accrued reward for one reward stream slot
+   */
+  private pendingReward(position: UserPosition, slot: uint64): uint64 {
+    const reward = clone(position.rewards[slot]);
+    const weight = position.weight.asUint64();
+    let pending = reward.earned.asUint64();
+
+    const currentRPT = this.currentRewardPerToken(clone(this.rewardStreams.value[slot]));
+    const userRPT = reward.userRewardPerToken.asUint64();
+    if (weight > Uint64(0) && currentRPT > userRPT) {
+      pending = pending + this.mulDivFloor(weight, currentRPT - userRPT, SCALE);
+    }
+    return pending;
+  }
+
+  /**
+   * Release each reward stream's balance into its accumulator up to now
+   * Must run before totalWeight or a stream's balance or rate changes
+   */
+  private accrueRewardStreams(): void {
+    const now = Global.latestTimestamp;
+    const streams = clone(this.rewardStreams.value);
+
+    for (let i: uint64 = Uint64(0); i < MAX_REWARD_TOKENS; i++) {
+      const stream = clone(streams[i]);
+      if (stream.assetId.asUint64() !== Uint64(0)) {
+        const released = this.releasableReward(clone(stream), now);
+        if (released > Uint64(0)) {
+          stream.rewardPerToken = new arc4.Uint64(
+            stream.rewardPerToken.asUint64() + this.mulDivFloor(released, SCALE, this.totalWeight.value)
+          );
+          stream.farmBalance = new arc4.Uint64(stream.farmBalance.asUint64() - released);
+        }
+        stream.lastUpdateTime = new arc4.Uint64(now);
+        streams[i] = clone(stream);
+      }
+    }
+    this.rewardStreams.value = clone(streams);
+  }
+
+  /**
+   * Slot of an added reward token (fails for unknown tokens)
+   */
+  private rewardSlot(assetId: uint64): uint64 {
+    assert(assetId !== Uint64(0), 'Unknown reward token');
+    const streams = clone(this.rewardStreams.value);
+    let slot: uint64 = MAX_REWARD_TOKENS;
+    for (let i: uint64 = Uint64(0); i < MAX_REWARD_TOKENS; i++) {
+      if (streams[i].assetId.asUint64() === assetId) {
+        slot = i;
+      }
+    }
+    assert(slot < MAX_REWARD_TOKENS, 'Unknown reward token');
+    return slot;
+  }
+
+  /**
+   * Pay out a user's earned extra rewards, returning how many transfers were made
+   * Rewards in tokens the user hasn't opted into stay in the position; with mustPayAll (closeOut) the call fails instead
+   */
+  private payEarnedRewards(user: Account, mustPayAll: boolean): uint64 {
+    const position = clone(this.positions(user).value);
+    const streams = clone(this.rewardStreams.value);
+    let paid: uint64 = Uint64(0);
+
+    for (let i: uint64 = Uint64(0); i < MAX_REWARD_TOKENS; i++) {
+      const reward = clone(position.rewards[i]);
+      const earned = reward.earned.asUint64();
+      if (earned > Uint64(0)) {
+        const rewardAsset = Asset(streams[i].assetId.asUint64());
+        if (user.isOptedIn(rewardAsset)) {
+          reward.earned = new arc4.Uint64(0);
+          position.rewards[i] = clone(reward);
+
+          itxn.assetTransfer({
+            assetReceiver: user,
+            xferAsset: rewardAsset,
+            assetAmount: earned,
+            fee: Uint64(0),
+          }).submit();
+
+          emit('RewardClaimed', user, rewardAsset.id, earned);
+          paid = paid + Uint64(1);
+        } else {
+          assert(!mustPayAll, 'Opt in to reward tokens before closing out');
+        }
+      }
+    }
+
+    this.positions(user).value = clone(position);
+    return paid;
+  }
+
   /**
    * Update user's earned yield before any balance changes
    * This implements the staking rewards accumulator pattern
    */
   private updateEarnedYield(user: Account): void {
-    const deposited = this.depositedAmount(user).value;
+    // Stream farm schedules first so the snapshot includes everything vested so far
+    this.accrueFarmSchedules();
 
-    if (deposited > Uint64(0)) {
-      // pending = deposited * (current_yield_per_token - user_snapshot) / SCALE
+    const position = this.getPosition(user);
+    const weight = position.weight.asUint64();
+
+    if (weight > Uint64(0)) {
+      // pending = weight * (current_yield_per_token - user_snapshot) / SCALE
       const currentYPT = this.yieldPerToken.value;
-      const userYPT = this.userYieldPerToken(user).value;
+      const userYPT = position.userYieldPerToken.asUint64();
 
       if (currentYPT > userYPT) {
-        const pending = this.mulDivFloor(deposited, currentYPT - userYPT, SCALE);
-        this.earnedYield(user).value = this.earnedYield(user).value + pending;
+        const pending = this.mulDivFloor(weight, currentYPT - userYPT, SCALE);
+        position.earnedYield = new arc4.Uint64(position.earnedYield.asUint64() + pending);
       }
     }
 
     // Update snapshot to current value
-    this.userYieldPerToken(user).value = this.yieldPerToken.value;
+    position.userYieldPerToken = new arc4.Uint64(this.yieldPerToken.value);
+
+    // Alpha exit fees paid by other depositors are credited to principal
+    const currentEFPT = this.exitFeePerToken.value;
+    const userEFPT = position.userExitFeePerToken.asUint64();
+    let credited: uint64 = Uint64(0);
+    if (weight > Uint64(0) && currentEFPT > userEFPT) {
+      credited = this.mulDivFloor(weight, currentEFPT - userEFPT, SCALE);
+      position.depositedAmount = new arc4.Uint64(position.depositedAmount.asUint64() + credited);
+      this.totalDeposits.value = this.totalDeposits.value + credited;
+    }
+    position.userExitFeePerToken = new arc4.Uint64(currentEFPT);
+
+    // Same accumulator pattern for each extra reward stream
+    this.accrueRewardStreams();
+    const streams = clone(this.rewardStreams.value);
+    for (let i: uint64 = Uint64(0); i < MAX_REWARD_TOKENS; i++) {
+      const reward = clone(position.rewards[i]);
+      const currentRPT = streams[i].rewardPerToken.asUint64();
+      const userRPT = reward.userRewardPerToken.asUint64();
+
+      if (weight > Uint64(0) && currentRPT > userRPT) {
+        const pending = this.mulDivFloor(weight, currentRPT - userRPT, SCALE);
+        reward.earned = new arc4.Uint64(reward.earned.asUint64() + pending);
+      }
+      reward.userRewardPerToken = new arc4.Uint64(currentRPT);
+      position.rewards[i] = clone(reward);
+    }
+
+    this.positions(user).value = clone(position);
+    if (credited > Uint64(0)) {
+      this.updateWeight(user);
+    }
   }
 
   /**
-   * Calculate expected swap output by reading Tinyman V2 pool state
+   * Recompute a user's weight from their deposit and lock boost, keeping totalWeight in sync
+   * An expired lock drops back to no boost; call after updateEarnedYield
+   */
+  private updateWeight(user: Account): void {
+    const position = clone(this.positions(user).value);
+    if (position.boostBps.asUint64() !== BOOST_BPS_BASE && Global.latestTimestamp >= position.lockedUntil.asUint64()) {
+      position.boostBps = new arc4.Uint64(BOOST_BPS_BASE);
+      emit('LockReleased', user);
+    }
+
+    const weight = this.mulDivFloor(position.depositedAmount.asUint64(), position.boostBps.asUint64(), BOOST_BPS_BASE);
+    this.totalWeight.value = this.totalWeight.value - position.weight.asUint64() + weight;
+    position.weight = new arc4.Uint64(weight);
+    this.positions(user).value = clone(position);
+  }
+
+  /**
+   * Current exit fee rate of a position, decaying linearly from exitFeeBps at depositTime to 0 after exitFeePeriod
+   */
+  private currentExitFeeBps(position: UserPosition): uint64 {
+    const period = this.exitFeePeriod.value;
+    const held: uint64 = Global.latestTimestamp - position.depositTime.asUint64();
+    if (this.exitFeeBps.value === Uint64(0) || held >= period) {
+      return Uint64(0);
+    }
+    return this.mulDivFloor(this.exitFeeBps.value, period - held, period);
+  }
+
+  /**
+   * Charge the exit fee on a withdrawal and credit it to the remaining depositors by weight
+   * Call after the withdrawal has been removed from totalWeight; waived if no one is left to receive it
+   * @returns Fee withheld from the withdrawal
+   */
+  private chargeExitFee(user: Account, position: UserPosition, amount: uint64): uint64 {
+    if (this.totalWeight.value === Uint64(0)) {
+      return Uint64(0);
+    }
+    const fee = this.mulDivFloor(amount, this.currentExitFeeBps(position), FEE_BPS_BASE);
+    if (fee === Uint64(0)) {
+      return Uint64(0);
+    }
+
+    this.exitFeePerToken.value = this.exitFeePerToken.value + this.mulDivFloor(fee, SCALE, this.totalWeight.value);
+    emit('ExitFeeCharged', user, fee);
+    return fee;
+  }
+
+  /**
+   * Boost of the lock tier with this duration (fails if no tier has it)
+   */
+  private lockTierBoost(duration: uint64): uint64 {
+    const tiers = clone(this.lockTiers.value);
+    let boostBps: uint64 = Uint64(0);
+    for (let i: uint64 = Uint64(0); i < MAX_LOCK_TIERS; i++) {
+      if (tiers[i].duration.asUint64() === duration) {
+        boostBps = tiers[i].boostBps.asUint64();
+      }
+    }
+    assert(boostBps !== Uint64(0), 'Unknown lock duration');
+    return boostBps;
+  }
+
+  /**
+   * Load a user's position box (fails if the user has not opted in)
+   */
+  private getPosition(user: Account): UserPosition {
+    assert(this.positions(user).exists, 'User not opted in');
+    return clone(this.positions(user).value);
+  }
+
+  /**
+   * Calculate the output of a single Tinyman V2 pool swap
    * Reads reserves and fee from pool's local state, then applies AMM formula
    *
-   * @param inputAmount - Amount of yieldAsset (USDC) to swap
-   * @returns Expected output amount of swapAsset
+   * @param poolApp - Pool app ID
+   * @param poolAddr - Pool address holding the pool's local state
+   * @param inputAssetId - Asset being swapped in (0 = ALGO)
+   * @param inputAmount - Amount being swapped in
+   * @returns Expected output amount of the pool's other asset
    */
-  private getExpectedSwapOutput(inputAmount: uint64): uint64 {
-    const poolApp = this.tinymanPoolAppId.value;
-    const poolAddr = this.tinymanPoolAddress.value;
-
+  private getPoolSwapOutput(poolApp: uint64, poolAddr: Account, inputAssetId: uint64, inputAmount: uint64): uint64 {
     // Read pool state from local state of pool address (Tinyman V2 stores pool data in local state)
     const [asset1Id, hasAsset1Id] = AppLocal.getExUint64(poolAddr, poolApp, Bytes('asset_1_id'));
     assert(hasAsset1Id, 'Cannot read pool asset_1_id');
@@ -156,12 +637,12 @@ export class RareFiVault extends arc4.Contract {
     let inputReserves: uint64;
     let outputReserves: uint64;
 
-    if (asset1Id === this.yieldAsset.value) {
-      // USDC is asset_1, swapAsset is asset_2
+    if (asset1Id === inputAssetId) {
+      // Input is asset_1, output is asset_2
       inputReserves = asset1Reserves;
       outputReserves = asset2Reserves;
     } else {
-      // swapAsset is asset_1, USDC is asset_2
+      // Output is asset_1, input is asset_2
       inputReserves = asset2Reserves;
       outputReserves = asset1Reserves;
     }
@@ -177,43 +658,242 @@ export class RareFiVault extends arc4.Contract {
   }
 
   /**
-   * Execute USDC -> swapAsset swap, apply farm bonus, split fees, update vault state
-   * Shared by deposit (auto-swap) and swapYield
+   * Calculate expected swap output by reading Tinyman V2 pool state
+   * When a hop pool is configured, chains the USDC -> ALGO and ALGO -> swapAsset quotes
+   *
+   * @param inputAmount - Amount of yieldAsset (USDC) to swap
+   * @returns Expected output amount of swapAsset
    */
-  private executeSwapAndDistribute(usdcBalance: uint64, slippageBps: uint64): void {
-    const appAddr: Account = Global.currentApplicationAddress;
+  private getExpectedSwapOutput(inputAmount: uint64): uint64 {
+    const firstHopOutput = this.getPoolSwapOutput(
+      this.tinymanPoolAppId.value,
+      this.tinymanPoolAddress.value,
+      this.yieldAsset.value,
+      inputAmount
+    );
 
-    // Calculate expected output ON-CHAIN by reading pool state
-    const expectedOutput = this.getExpectedSwapOutput(usdcBalance);
-    assert(expectedOutput > Uint64(0), 'Expected output is zero');
+    if (this.hopPoolAppId.value === Uint64(0)) {
+      return firstHopOutput;
+    }
 
-    // Apply slippage tolerance
-    const minAmountOut = this.mulDivFloor(expectedOutput, FEE_BPS_BASE - slippageBps, FEE_BPS_BASE);
+    return this.getPoolSwapOutput(
+      this.hopPoolAppId.value,
+      this.hopPoolAddress.value,
+      ALGO_ASSET_ID,
+      firstHopOutput
+    );
+  }
 
-    // Record swap_asset balance before swap
-    const swapAssetBefore = Asset(this.swapAsset.value).balance(appAddr);
+  /**
+   * a - b modulo 2^64 (priceCumulative wraps on overflow)
+   */
+  private wrappingSub(a: uint64, b: uint64): uint64 {
+    if (a >= b) {
+      return a - b;
+    }
+    return MAX_UINT64 - b + a + Uint64(1);
+  }
+
+  /**
+   * Record a price observation for the TWAP oracle
+   * Accumulates the previous spot price over the elapsed time, rolls the TWAP once
+   * TWAP_WINDOW has passed, then stores the current spot price (clamped to the TWAP band)
+   * The first observation seeds the TWAP at the current spot price; swaps in the same
+   * round would only be compared against themselves, so the guard rejects them
+   *
+   * @returns Current creation-route spot price (output for PRICE_PROBE_AMOUNT)
+   */
+  private updatePriceObservation(): uint64 {
+    const now = Global.latestTimestamp;
+    const spotPrice = this.getExpectedSwapOutput(PRICE_PROBE_AMOUNT);
+
+    if (this.lastObservationTime.value === Uint64(0)) {
+      this.twapPrice.value = spotPrice;
+      this.twapAnchorCumulative.value = this.priceCumulative.value;
+      this.twapAnchorTime.value = now;
+      this.twapSeedRound.value = Global.round;
+    } else if (now > this.lastObservationTime.value) {
+      const [, weightedPrice] = mulw(this.lastSpotPrice.value, now - this.lastObservationTime.value);
+      const [, cumulative] = addw(this.priceCumulative.value, weightedPrice);
+      this.priceCumulative.value = cumulative;
+
+      const windowElapsed: uint64 = now - this.twapAnchorTime.value;
+      if (windowElapsed >= TWAP_WINDOW) {
+        this.twapPrice.value = this.wrappingSub(cumulative, this.twapAnchorCumulative.value) / windowElapsed;
+        this.twapAnchorCumulative.value = cumulative;
+        this.twapAnchorTime.value = now;
+      }
+    }
+
+    // Weighted over the whole gap to the next observation, so keep it inside the swap band
+    this.lastSpotPrice.value = this.clampToTwapBand(spotPrice);
+    this.lastObservationTime.value = now;
+    return spotPrice;
+  }
+
+  /**
+   * Clamp a spot price to within maxPriceDeviationBps of the TWAP
+   * A spot skewed for a single observation then moves the TWAP at most as far as the swap guard already allows
+   */
+  private clampToTwapBand(spotPrice: uint64): uint64 {
+    const twap = this.twapPrice.value;
+    const band = this.mulDivFloor(twap, this.maxPriceDeviationBps.value, FEE_BPS_BASE);
+    if (spotPrice > twap + band) {
+      return twap + band;
+    }
+    if (spotPrice + band < twap) {
+      return twap - band;
+    }
+    return spotPrice;
+  }
+
+  /**
+   * Spot price (output for PRICE_PROBE_AMOUNT) of route 0 or candidatePools[routeIndex - 1]
+   */
+  private getRouteSpotPrice(routeIndex: uint64): uint64 {
+    if (routeIndex === Uint64(0)) {
+      return this.getExpectedSwapOutput(PRICE_PROBE_AMOUNT);
+    }
+    const pool = clone(this.candidatePools.value[routeIndex - Uint64(1)]);
+    return this.getPoolSwapOutput(pool.poolAppId.asUint64(), pool.poolAddress.native, this.yieldAsset.value, PRICE_PROBE_AMOUNT);
+  }
+
+  /**
+   * Fail if a spot price deviates from the TWAP by more than maxPriceDeviationBps (either direction)
+   * Also fails in the round the TWAP was seeded, when it only reflects that same spot price
+   */
+  private assertPriceNearTwap(spotPrice: uint64): void {
+    assert(this.twapSeedRound.value !== Global.round, 'TWAP seeded this round');
+    const twap = this.twapPrice.value;
+    const deviation: uint64 = spotPrice > twap ? spotPrice - twap : twap - spotPrice;
+    const maxDeviation = this.mulDivFloor(twap, this.maxPriceDeviationBps.value, FEE_BPS_BASE);
+    assert(deviation <= maxDeviation, 'Spot price deviates from TWAP');
+  }
+
+  /**
+   * Pick the route with the highest expected output
+   * Route 0 is the creation route (tinymanPool, plus hopPool if set); route i is candidatePools[i - 1]
+   *
+   * @param inputAmount - Amount of yieldAsset (USDC) to swap
+   * @returns [routeIndex, poolAppId, expectedOutput]
+   */
+  private getBestRoute(inputAmount: uint64): [uint64, uint64, uint64] {
+    let bestRoute: uint64 = Uint64(0);
+    let bestPoolAppId: uint64 = this.tinymanPoolAppId.value;
+    let bestOutput: uint64 = this.getExpectedSwapOutput(inputAmount);
+
+    const pools = clone(this.candidatePools.value);
+    for (let i: uint64 = Uint64(0); i < MAX_CANDIDATE_POOLS; i++) {
+      const poolAppId = pools[i].poolAppId.asUint64();
+      if (poolAppId !== Uint64(0)) {
+        const output = this.getPoolSwapOutput(poolAppId, pools[i].poolAddress.native, this.yieldAsset.value, inputAmount);
+        if (output > bestOutput) {
+          bestRoute = i + Uint64(1);
+          bestPoolAppId = poolAppId;
+          bestOutput = output;
+        }
+      }
+    }
+
+    return [bestRoute, bestPoolAppId, bestOutput];
+  }
 
-    // Execute Tinyman V2 swap: USDC -> swap_asset
+  /**
+   * Swap yieldAsset (USDC) -> swapAsset through a single Tinyman V2 pool
+   */
+  private swapYieldAssetViaPool(poolAppId: uint64, poolAddress: Account, amount: uint64, minAmountOut: uint64): void {
     itxn.submitGroup(
       itxn.assetTransfer({
-        assetReceiver: this.tinymanPoolAddress.value,
+        assetReceiver: poolAddress,
         xferAsset: Asset(this.yieldAsset.value),
-        assetAmount: usdcBalance,
+        assetAmount: amount,
         fee: Uint64(0),
       }),
       itxn.applicationCall({
-        appId: Application(this.tinymanPoolAppId.value),
+        appId: Application(poolAppId),
         appArgs: [Bytes('swap'), Bytes('fixed-input'), itob(minAmountOut)],
         assets: [Asset(this.swapAsset.value)],
-        accounts: [this.tinymanPoolAddress.value],
+        accounts: [poolAddress],
         fee: Uint64(0),
       }),
     );
+  }
+
+  /**
+   * Execute USDC -> swapAsset swap, apply farm bonus, split fees, update vault state
+   * Shared by deposit (auto-swap, creation route) and swapYield (best route)
+   *
+   * Callers check the route's spot price against the TWAP first
+   *
+   * @param routeIndex - 0 = creation route, i = candidatePools[i - 1]
+   * @param expectedOutput - Quote for usdcBalance on that route
+   * @param minAmountOut - Caller-supplied absolute output floor (0 = slippageBps only)
+   */
+  private executeSwapAndDistribute(usdcBalance: uint64, slippageBps: uint64, routeIndex: uint64, expectedOutput: uint64, minAmountOut: uint64): void {
+    const appAddr: Account = Global.currentApplicationAddress;
+
+    assert(expectedOutput > Uint64(0), 'Expected output is zero');
+
+    // Apply slippage tolerance; an absolute floor from the caller is enforced on top of it
+    assert(expectedOutput >= minAmountOut, 'Quote below minAmountOut');
+    const slippageMin = this.mulDivFloor(expectedOutput, FEE_BPS_BASE - slippageBps, FEE_BPS_BASE);
+    const swapMin: uint64 = slippageMin > minAmountOut ? slippageMin : minAmountOut;
+
+    // Record swap_asset balance before swap
+    const swapAssetBefore = Asset(this.swapAsset.value).balance(appAddr);
+
+    if (routeIndex !== Uint64(0)) {
+      // Allowlisted candidate pool: single USDC -> swap_asset swap
+      const pool = clone(this.candidatePools.value[routeIndex - Uint64(1)]);
+      this.swapYieldAssetViaPool(pool.poolAppId.asUint64(), pool.poolAddress.native, usdcBalance, swapMin);
+    } else if (this.hopPoolAppId.value === Uint64(0)) {
+      // Execute Tinyman V2 swap: USDC -> swap_asset
+      this.swapYieldAssetViaPool(this.tinymanPoolAppId.value, this.tinymanPoolAddress.value, usdcBalance, swapMin);
+    } else {
+      // Routed swap, first hop: USDC -> ALGO
+      // Slippage is enforced on the final output only, so the first hop accepts any non-zero amount
+      const algoBefore: uint64 = appAddr.balance;
+      itxn.submitGroup(
+        itxn.assetTransfer({
+          assetReceiver: this.tinymanPoolAddress.value,
+          xferAsset: Asset(this.yieldAsset.value),
+          assetAmount: usdcBalance,
+          fee: Uint64(0),
+        }),
+        itxn.applicationCall({
+          appId: Application(this.tinymanPoolAppId.value),
+          appArgs: [Bytes('swap'), Bytes('fixed-input'), itob(Uint64(1))],
+          assets: [Asset(this.yieldAsset.value)],
+          accounts: [this.tinymanPoolAddress.value],
+          fee: Uint64(0),
+        }),
+      );
+
+      // Inner txn fees are pooled (fee 0), so the balance delta is exactly the ALGO received
+      const algoReceived: uint64 = appAddr.balance - algoBefore;
+      assert(algoReceived > Uint64(0), 'First hop output is zero');
+
+      // Second hop: ALGO -> swap_asset
+      itxn.submitGroup(
+        itxn.payment({
+          receiver: this.hopPoolAddress.value,
+          amount: algoReceived,
+          fee: Uint64(0),
+        }),
+        itxn.applicationCall({
+          appId: Application(this.hopPoolAppId.value),
+          appArgs: [Bytes('swap'), Bytes('fixed-input'), itob(swapMin)],
+          assets: [Asset(this.swapAsset.value)],
+          accounts: [this.hopPoolAddress.value],
+          fee: Uint64(0),
+        }),
+      );
+    }
 
     // Calculate actual swap output
     const swapAssetAfter: uint64 = Asset(this.swapAsset.value).balance(appAddr);
     const swapOutput: uint64 = swapAssetAfter - swapAssetBefore;
-    assert(swapOutput >= minAmountOut, 'Swap output below minimum');
+    assert(swapOutput >= swapMin, 'Swap output below minimum');
 
     // Calculate farm bonus using dynamic emission rate
     let farmBonus: uint64 = Uint64(0);
@@ -239,9 +919,11 @@ export class RareFiVault extends arc4.Contract {
 
     // Distribute to users via accumulator
     if (userCut > Uint64(0)) {
-      const yieldIncrease: uint64 = this.mulDivFloor(userCut, SCALE, this.totalDeposits.value);
+      const yieldIncrease: uint64 = this.mulDivFloor(userCut, SCALE, this.totalWeight.value);
       this.yieldPerToken.value = this.yieldPerToken.value + yieldIncrease;
     }
+
+    emit('YieldSwapped', usdcBalance, swapOutput, farmBonus, creatorCut);
   }
 
   // ============================================
@@ -262,6 +944,8 @@ export class RareFiVault extends arc4.Contract {
     maxSlippageBps: uint64,
     tinymanPoolAppId: uint64,
     tinymanPoolAddress: Account,
+    hopPoolAppId: uint64,
+    hopPoolAddress: Account,
     rarefiAddress: Account
   ): void {
     // SECURITY: Prevent rekey attacks on app call
@@ -277,6 +961,7 @@ export class RareFiVault extends arc4.Contract {
     assert(yieldAssetId !== Uint64(0), 'Invalid yield asset');
     assert(swapAssetId !== Uint64(0), 'Invalid swap asset');
     assert(tinymanPoolAppId !== Uint64(0), 'Invalid Tinyman pool app ID');
+    assert(hopPoolAppId !== tinymanPoolAppId, 'Hop pool must differ from Tinyman pool');
 
     // Ensure all assets are different to prevent logic errors
     assert(depositAssetId !== yieldAssetId, 'Deposit and yield assets must be different');
@@ -296,6 +981,7 @@ export class RareFiVault extends arc4.Contract {
 
     // Initialize vault state
     this.totalDeposits.value = Uint64(0);
+    this.totalWeight.value = Uint64(0);
     this.yieldPerToken.value = Uint64(0);
     this.minSwapThreshold.value = minSwapThreshold;
     this.maxSlippageBps.value = maxSlippageBps;
@@ -304,13 +990,71 @@ export class RareFiVault extends arc4.Contract {
     // Tinyman integration
     this.tinymanPoolAppId.value = tinymanPoolAppId;
     this.tinymanPoolAddress.value = tinymanPoolAddress;
+    this.hopPoolAppId.value = hopPoolAppId;
+    this.hopPoolAddress.value = hopPoolAddress;
+    const emptyPool = new CandidatePool({
+      poolAppId: new arc4.Uint64(0),
+      poolAddress: new arc4.Address(Global.zeroAddress),
+    });
+    this.candidatePools.value = new arc4.StaticArray<CandidatePool, 2>(clone(emptyPool), clone(emptyPool));
+
+    // Price oracle is seeded by the first observation
+    this.priceCumulative.value = Uint64(0);
+    this.lastSpotPrice.value = Uint64(0);
+    this.lastObservationTime.value = Uint64(0);
+    this.twapAnchorCumulative.value = Uint64(0);
+    this.twapAnchorTime.value = Uint64(0);
+    this.twapPrice.value = Uint64(0);
+    this.twapSeedRound.value = Uint64(0);
+    this.maxPriceDeviationBps.value = DEFAULT_MAX_PRICE_DEVIATION_BPS;
 
     // Initialize farm state
     this.farmBalance.value = Uint64(0);
     this.emissionRatio.value = Uint64(0); // Disabled by default, creator sets via setEmissionRatio
+    const emptySchedule = new FarmSchedule({
+      startTime: new arc4.Uint64(0),
+      endTime: new arc4.Uint64(0),
+      amount: new arc4.Uint64(0),
+      released: new arc4.Uint64(0),
+    });
+    this.farmSchedules.value = new arc4.StaticArray<FarmSchedule, 3>(clone(emptySchedule), clone(emptySchedule), clone(emptySchedule));
+
+    // No extra reward tokens until the creator adds them
+    const emptyStream = new RewardStream({
+      assetId: new arc4.Uint64(0),
+      rewardPerToken: new arc4.Uint64(0),
+      farmBalance: new arc4.Uint64(0),
+      ratePerSecond: new arc4.Uint64(0),
+      lastUpdateTime: new arc4.Uint64(0),
+    });
+    this.rewardStreams.value = new arc4.StaticArray<RewardStream, 2>(clone(emptyStream), clone(emptyStream));
+
+    // No lock tiers until the creator configures them
+    const emptyTier = new LockTier({ duration: new arc4.Uint64(0), boostBps: new arc4.Uint64(0) });
+    this.lockTiers.value = new arc4.StaticArray<LockTier, 3>(clone(emptyTier), clone(emptyTier), clone(emptyTier));
+
+    // No exit fee until the creator sets one
+    this.exitFeeBps.value = Uint64(0);
+    this.exitFeePeriod.value = Uint64(0);
+    this.exitFeePerToken.value = Uint64(0);
+
+    // No successor until a new vault version is approved
+    this.successorAppId.value = Uint64(0);
+    this.predecessorAppId.value = Uint64(0);
+
+    // No stake targets until the creator or RareFi allowlists them
+    this.stakeTargets.value = new arc4.StaticArray<arc4.Uint64, 2>(new arc4.Uint64(0), new arc4.Uint64(0));
+
+    // Zaps are disabled until the creator or RareFi sets a pool
+    this.zapPoolAppId.value = Uint64(0);
+    this.zapPoolAddress.value = Global.zeroAddress;
 
     // Setup guard
     this.assetsOptedIn.value = Uint64(0);
+
+    // Emergency pause
+    this.guardianAddress.value = rarefiAddress;
+    this.pausedUntil.value = Uint64(0);
   }
 
   /**
@@ -372,37 +1116,73 @@ export class RareFiVault extends arc4.Contract {
   // ============================================
 
   /**
-   * User opts into the contract to enable local storage
+   * User opens a position box
+   * Expects a payment covering the box MBR in the group before this call
    */
-  @arc4.abimethod({ allowActions: 'OptIn' })
+  @arc4.abimethod()
   optIn(): void {
     assert(Txn.rekeyTo === Global.zeroAddress, 'rekeyTo must be zero');
-    // Initialize local state for user
-    this.depositedAmount(Txn.sender).value = Uint64(0);
-    this.userYieldPerToken(Txn.sender).value = Uint64(0);
-    this.earnedYield(Txn.sender).value = Uint64(0);
+    assert(!this.positions(Txn.sender).exists, 'Already opted in');
+
+    const currentIndex = Txn.groupIndex;
+    assert(currentIndex >= Uint64(1), 'App call must follow MBR payment');
+
+    const mbrPayment = gtxn.PaymentTxn(currentIndex - Uint64(1));
+    assert(mbrPayment.sender === Txn.sender, 'Payment must be from caller');
+    assert(mbrPayment.receiver === Global.currentApplicationAddress, 'Payment must be to app');
+    assert(mbrPayment.amount >= POSITION_MBR, 'Insufficient ALGO for position box');
+
+    // SECURITY: Prevent phishing attacks - reject dangerous fields
+    assert(mbrPayment.rekeyTo === Global.zeroAddress, 'rekeyTo must be zero');
+    assert(mbrPayment.closeRemainderTo === Global.zeroAddress, 'closeRemainderTo must be zero');
+
+    // Initialize position for user
+    const streams = clone(this.rewardStreams.value);
+    this.positions(Txn.sender).value = new UserPosition({
+      depositedAmount: new arc4.Uint64(0),
+      userYieldPerToken: new arc4.Uint64(this.yieldPerToken.value),
+      earnedYield: new arc4.Uint64(0),
+      rewards: new arc4.StaticArray<RewardPosition, 2>(
+        new RewardPosition({ userRewardPerToken: streams[0].rewardPerToken, earned: new arc4.Uint64(0) }),
+        new RewardPosition({ userRewardPerToken: streams[1].rewardPerToken, earned: new arc4.Uint64(0) }),
+      ),
+      weight: new arc4.Uint64(0),
+      boostBps: new arc4.Uint64(BOOST_BPS_BASE),
+      lockedUntil: new arc4.Uint64(0),
+      userExitFeePerToken: new arc4.Uint64(this.exitFeePerToken.value),
+      depositTime: new arc4.Uint64(0),
+    });
   }
 
   /**
-   * User closes out - claims all pending yield and withdraws all deposits first
+   * User closes out - claims all pending yield and extra rewards and withdraws all deposits first,
+   * then deletes the position box and refunds its MBR
+   * The exit fee applies to the deposit as for withdraw
+   * Fails if the user has earned an extra reward token they haven't opted into, or while their deposit is locked
    */
-  @arc4.abimethod({ allowActions: 'CloseOut' })
+  @arc4.abimethod()
   closeOut(): void {
     assert(Txn.rekeyTo === Global.zeroAddress, 'rekeyTo must be zero');
+    assert(Global.latestTimestamp >= this.getPosition(Txn.sender).lockedUntil.asUint64(), 'Deposit is locked');
     // Update pending yield
     this.updateEarnedYield(Txn.sender);
+    this.payEarnedRewards(Txn.sender, true);
 
-    const userDeposit = this.depositedAmount(Txn.sender).value;
-    const userYield = this.earnedYield(Txn.sender).value;
+    const position = clone(this.positions(Txn.sender).value);
+    const userDeposit = position.depositedAmount.asUint64();
+    const userYield = position.earnedYield.asUint64();
+    this.positions(Txn.sender).delete();
 
     // Return deposit if any
+    this.totalWeight.value = this.totalWeight.value - position.weight.asUint64();
     if (userDeposit > Uint64(0)) {
       this.totalDeposits.value = this.totalDeposits.value - userDeposit;
+      const exitFee = this.chargeExitFee(Txn.sender, clone(position), userDeposit);
 
       itxn.assetTransfer({
         assetReceiver: Txn.sender,
         xferAsset: Asset(this.depositAsset.value),
-        assetAmount: userDeposit,
+        assetAmount: userDeposit - exitFee,
         fee: Uint64(0),
       }).submit();
     }
@@ -416,6 +1196,15 @@ export class RareFiVault extends arc4.Contract {
         fee: Uint64(0),
       }).submit();
     }
+
+    // Refund position box MBR
+    itxn.payment({
+      receiver: Txn.sender,
+      amount: POSITION_MBR,
+      fee: Uint64(0),
+    }).submit();
+
+    emit('CloseOut', Txn.sender, userDeposit, userYield);
   }
 
   // ============================================
@@ -430,21 +1219,51 @@ export class RareFiVault extends arc4.Contract {
    * swaps yield BEFORE processing deposit. This ensures yield goes to
    * existing depositors, not the new one.
    *
+   * Adding to a locked position keeps the lock and its boost
+   *
    * @param slippageBps - Slippage tolerance for auto-swap (ignored if no swap needed)
    */
   @arc4.abimethod()
   deposit(slippageBps: uint64): void {
     assert(Txn.rekeyTo === Global.zeroAddress, 'rekeyTo must be zero');
-    assert(slippageBps <= this.maxSlippageBps.value, 'Slippage exceeds maximum allowed');
+    this.processDeposit(Txn.sender, slippageBps, Uint64(0));
+  }
 
-    const appAddr: Account = Global.currentApplicationAddress;
-    const usdcBalance = Asset(this.yieldAsset.value).balance(appAddr);
+  /**
+   * Deposit Alpha on behalf of another account (partner apps, treasuries, zaps)
+   * The caller funds the preceding asset transfer; the beneficiary's position is credited
+   * The beneficiary must already have a position box; an existing lock is kept
+   *
+   * @param beneficiary - Account whose position receives the deposit
+   * @param slippageBps - Slippage tolerance for auto-swap (ignored if no swap needed)
+   */
+  @arc4.abimethod()
+  depositFor(beneficiary: Account, slippageBps: uint64): void {
+    assert(Txn.rekeyTo === Global.zeroAddress, 'rekeyTo must be zero');
+    assert(this.positions(beneficiary).exists, 'Beneficiary not opted in');
+    this.processDeposit(beneficiary, slippageBps, Uint64(0));
+  }
 
-    // Auto-swap if threshold met and has existing depositors
-    // This distributes yield to EXISTING depositors before new deposit is added
-    if (usdcBalance >= this.minSwapThreshold.value && this.totalDeposits.value > Uint64(0)) {
-      this.executeSwapAndDistribute(usdcBalance, slippageBps);
-    }
+  /**
+   * Deposit and lock the whole position for one of the creator's lock tiers
+   * The position's weight is boosted by the tier's boostBps until the lock expires
+   * A lock can be extended but never shortened
+   *
+   * @param slippageBps - Slippage tolerance for auto-swap (ignored if no swap needed)
+   * @param lockDuration - Lock tier duration in seconds
+   */
+  @arc4.abimethod()
+  depositLocked(slippageBps: uint64, lockDuration: uint64): void {
+    assert(Txn.rekeyTo === Global.zeroAddress, 'rekeyTo must be zero');
+    this.processDeposit(Txn.sender, slippageBps, lockDuration);
+  }
+
+  /**
+   * Shared by deposit, depositLocked and depositFor (lockDuration 0 = no new lock)
+   * The transfer must come from the caller; the deposit is credited to user
+   */
+  private processDeposit(user: Account, slippageBps: uint64, lockDuration: uint64): void {
+    this.autoSwapBeforeDeposit(slippageBps, Uint64(0));
 
     // Process the deposit
     const currentIndex = Txn.groupIndex;
@@ -452,7 +1271,7 @@ export class RareFiVault extends arc4.Contract {
 
     const depositTransfer = gtxn.AssetTransferTxn(currentIndex - Uint64(1));
     assert(depositTransfer.xferAsset === Asset(this.depositAsset.value), 'Must transfer deposit asset');
-    assert(depositTransfer.assetReceiver === appAddr, 'Must send to contract');
+    assert(depositTransfer.assetReceiver === Global.currentApplicationAddress, 'Must send to contract');
     assert(depositTransfer.sender === Txn.sender, 'Transfer must be from caller');
 
     // SECURITY: Prevent phishing attacks - reject dangerous fields
@@ -462,22 +1281,79 @@ export class RareFiVault extends arc4.Contract {
     const amount = depositTransfer.assetAmount;
     assert(amount >= MIN_DEPOSIT_AMOUNT, 'Deposit too small');
 
-    // Update pending yield first (if user has existing deposit)
-    this.updateEarnedYield(Txn.sender);
+    this.creditDeposit(user, amount, lockDuration);
+  }
 
-    // Add deposit
-    this.depositedAmount(Txn.sender).value = this.depositedAmount(Txn.sender).value + amount;
+  /**
+   * Checks shared by every deposit path, then the auto-swap that must run before new principal is credited
+   *
+   * If USDC balance >= threshold and has existing depositors, swaps yield first so it
+   * goes to existing depositors, not the new one. While the spot price is away from the
+   * TWAP that swap can't run, so the deposit is rejected instead of sharing in the pending yield.
+   *
+   * @param zapAmount - USDC already received for a zap deposit, which is principal and not swapped as yield
+   */
+  private autoSwapBeforeDeposit(slippageBps: uint64, zapAmount: uint64): void {
+    this.assertNotPaused();
+    assert(slippageBps <= this.maxSlippageBps.value, 'Slippage exceeds maximum allowed');
+
+    const spotPrice = this.updatePriceObservation();
+
+    const usdcBalance: uint64 = Asset(this.yieldAsset.value).balance(Global.currentApplicationAddress) - zapAmount;
+    if (usdcBalance >= this.minSwapThreshold.value && this.totalDeposits.value > Uint64(0)) {
+      // Manipulation guard: reject the deposit rather than credit it ahead of unswapped yield
+      this.assertPriceNearTwap(spotPrice);
+      this.executeSwapAndDistribute(usdcBalance, slippageBps, Uint64(0), this.getExpectedSwapOutput(usdcBalance), Uint64(0));
+    }
+  }
+
+  /**
+   * Add received Alpha to a user's position (lockDuration 0 = no new lock)
+   */
+  private creditDeposit(user: Account, amount: uint64, lockDuration: uint64): void {
+    // Update pending yield first (if user has existing deposit)
+    this.updateEarnedYield(user);
+
+    // Add deposit; a top-up moves the exit fee clock towards now in proportion to its size
+    const position = clone(this.positions(user).value);
+    const previousDeposit = position.depositedAmount.asUint64();
+    const depositTime = position.depositTime.asUint64();
+    position.depositedAmount = new arc4.Uint64(previousDeposit + amount);
+    position.depositTime = new arc4.Uint64(
+      depositTime + this.mulDivFloor(Global.latestTimestamp - depositTime, amount, previousDeposit + amount)
+    );
+
+    if (lockDuration > Uint64(0)) {
+      const boostBps = this.lockTierBoost(lockDuration);
+      const lockedUntil: uint64 = Global.latestTimestamp + lockDuration;
+      assert(lockedUntil >= position.lockedUntil.asUint64(), 'Cannot shorten an active lock');
+      position.boostBps = new arc4.Uint64(boostBps);
+      position.lockedUntil = new arc4.Uint64(lockedUntil);
+      emit('Locked', user, lockedUntil, boostBps);
+    }
+
+    this.positions(user).value = clone(position);
     this.totalDeposits.value = this.totalDeposits.value + amount;
+    this.updateWeight(user);
+
+    emit('Deposit', user, amount);
   }
 
   /**
-   * User withdraws Alpha from the vault
+   * User withdraws Alpha from the vault (fails while the deposit is locked)
+   * Within exitFeePeriod of depositing, the decayed exit fee is withheld and credited to the remaining depositors
    * @param amount - Amount to withdraw (0 = withdraw all)
    */
   @arc4.abimethod()
   withdraw(amount: uint64): void {
     assert(Txn.rekeyTo === Global.zeroAddress, 'rekeyTo must be zero');
-    const userBalance = this.depositedAmount(Txn.sender).value;
+    assert(Global.latestTimestamp >= this.getPosition(Txn.sender).lockedUntil.asUint64(), 'Deposit is locked');
+
+    // Update pending yield first (this also credits exit fees from other depositors)
+    this.updateEarnedYield(Txn.sender);
+
+    const position = clone(this.positions(Txn.sender).value);
+    const userBalance = position.depositedAmount.asUint64();
     let withdrawAmount = amount;
 
     // If amount is 0, withdraw all
@@ -488,20 +1364,22 @@ export class RareFiVault extends arc4.Contract {
     assert(withdrawAmount > Uint64(0), 'Nothing to withdraw');
     assert(withdrawAmount <= userBalance, 'Insufficient balance');
 
-    // Update pending yield first
-    this.updateEarnedYield(Txn.sender);
-
     // Remove deposit
-    this.depositedAmount(Txn.sender).value = userBalance - withdrawAmount;
+    position.depositedAmount = new arc4.Uint64(userBalance - withdrawAmount);
+    this.positions(Txn.sender).value = clone(position);
     this.totalDeposits.value = this.totalDeposits.value - withdrawAmount;
+    this.updateWeight(Txn.sender);
+    const exitFee = this.chargeExitFee(Txn.sender, clone(position), withdrawAmount);
 
     // Transfer Alpha back to user
     itxn.assetTransfer({
       assetReceiver: Txn.sender,
       xferAsset: Asset(this.depositAsset.value),
-      assetAmount: withdrawAmount,
+      assetAmount: withdrawAmount - exitFee,
       fee: Uint64(0),
     }).submit();
+
+    emit('Withdraw', Txn.sender, withdrawAmount);
   }
 
   // ============================================
@@ -509,27 +1387,59 @@ export class RareFiVault extends arc4.Contract {
   // ============================================
 
   /**
-   * User claims their accumulated yield (in swap_asset)
+   * User claims their accumulated yield (in swap_asset) and extra rewards
+   * Yield goes to the user's yield recipient if one is set
+   * Extra rewards in tokens the user hasn't opted into stay claimable
    */
   @arc4.abimethod()
   claim(): void {
     assert(Txn.rekeyTo === Global.zeroAddress, 'rekeyTo must be zero');
+    this.processClaim(Txn.sender);
+  }
+
+  /**
+   * Claim on behalf of a user who approved the caller with approveClaimer
+   * Payouts go where the user's own claim would send them, never to the caller
+   *
+   * @param user - Position owner
+   */
+  @arc4.abimethod()
+  claimFor(user: Account): void {
+    assert(Txn.rekeyTo === Global.zeroAddress, 'rekeyTo must be zero');
+    assert(
+      this.claimSettings(user).exists && this.claimSettings(user).value.claimer.native === Txn.sender,
+      'Not an approved claimer',
+    );
+    this.processClaim(user);
+  }
+
+  /**
+   * Shared by claim and claimFor
+   */
+  private processClaim(user: Account): void {
     // Update pending yield
-    this.updateEarnedYield(Txn.sender);
+    this.updateEarnedYield(user);
+    const rewardsPaid = this.payEarnedRewards(user, false);
 
-    const claimable = this.earnedYield(Txn.sender).value;
-    assert(claimable > Uint64(0), 'Nothing to claim');
+    const position = clone(this.positions(user).value);
+    const claimable = position.earnedYield.asUint64();
+    assert(claimable > Uint64(0) || rewardsPaid > Uint64(0), 'Nothing to claim');
 
-    // Reset earned yield
-    this.earnedYield(Txn.sender).value = Uint64(0);
+    if (claimable > Uint64(0)) {
+      // Reset earned yield
+      position.earnedYield = new arc4.Uint64(0);
+      this.positions(user).value = clone(position);
 
-    // Transfer swap_asset to user
-    itxn.assetTransfer({
-      assetReceiver: Txn.sender,
-      xferAsset: Asset(this.swapAsset.value),
-      assetAmount: claimable,
-      fee: Uint64(0),
-    }).submit();
+      // Transfer swap_asset to the user's yield recipient
+      itxn.assetTransfer({
+        assetReceiver: this.yieldRecipient(user),
+        xferAsset: Asset(this.swapAsset.value),
+        assetAmount: claimable,
+        fee: Uint64(0),
+      }).submit();
+    }
+
+    emit('Claim', user, claimable);
   }
 
   /**
@@ -540,6 +1450,7 @@ export class RareFiVault extends arc4.Contract {
     assert(Txn.rekeyTo === Global.zeroAddress, 'rekeyTo must be zero');
     assert(Txn.sender === this.creatorAddress.value, 'Only creator can claim');
 
+    this.accrueFarmSchedules();
     const claimable = this.creatorUnclaimedYield.value;
     assert(claimable > Uint64(0), 'Nothing to claim');
 
@@ -553,6 +1464,8 @@ export class RareFiVault extends arc4.Contract {
       assetAmount: claimable,
       fee: Uint64(0),
     }).submit();
+
+    emit('CreatorClaim', Txn.sender, claimable);
   }
 
   // ============================================
@@ -562,6 +1475,8 @@ export class RareFiVault extends arc4.Contract {
   /**
    * Swaps accumulated USDC to project ASA via Tinyman V2
    * Uses ON-CHAIN price calculation - reads pool reserves and fee dynamically
+   * Routes through whichever of the creation route and allowlisted candidate pools quotes
+   * the highest output, and logs the choice as a SwapRouteSelected event
    * Permissionless - anyone can trigger, slippage capped by maxSlippageBps
    *
    * @param slippageBps - Slippage tolerance in basis points (e.g., 50 = 0.5%, 100 = 1%)
@@ -569,6 +1484,29 @@ export class RareFiVault extends arc4.Contract {
   @arc4.abimethod()
   swapYield(slippageBps: uint64): void {
     assert(Txn.rekeyTo === Global.zeroAddress, 'rekeyTo must be zero');
+    this.processSwapYield(slippageBps, Uint64(0));
+  }
+
+  /**
+   * swapYield with an absolute output floor computed off-chain by the keeper
+   * Enforced in addition to slippageBps: the swap fails if either the relative minimum
+   * or minAmountOut is not met, so a pool skewed before the call cannot pass on slippageBps alone
+   *
+   * @param slippageBps - Slippage tolerance in basis points, capped by maxSlippageBps
+   * @param minAmountOut - Minimum swapAsset out of the swap (before farm bonus and fees)
+   */
+  @arc4.abimethod()
+  swapYieldWithMinOut(slippageBps: uint64, minAmountOut: uint64): void {
+    assert(Txn.rekeyTo === Global.zeroAddress, 'rekeyTo must be zero');
+    assert(minAmountOut > Uint64(0), 'minAmountOut must be positive');
+    this.processSwapYield(slippageBps, minAmountOut);
+  }
+
+  /**
+   * Shared body of swapYield and swapYieldWithMinOut
+   */
+  private processSwapYield(slippageBps: uint64, minAmountOut: uint64): void {
+    this.assertNotPaused();
     assert(slippageBps <= this.maxSlippageBps.value, 'Slippage exceeds maximum allowed');
 
     const appAddr: Account = Global.currentApplicationAddress;
@@ -577,7 +1515,26 @@ export class RareFiVault extends arc4.Contract {
     assert(usdcBalance >= this.minSwapThreshold.value, 'Below minimum swap threshold');
     assert(this.totalDeposits.value > Uint64(0), 'No depositors to distribute to');
 
-    this.executeSwapAndDistribute(usdcBalance, slippageBps);
+    this.updatePriceObservation();
+
+    // Best execution: compare the creation route against allowlisted candidate pools
+    const [routeIndex, poolAppId, expectedOutput] = this.getBestRoute(usdcBalance);
+    emit('SwapRouteSelected', routeIndex, poolAppId, expectedOutput);
+
+    // Manipulation guard: the route's spot price must stay near the TWAP
+    this.assertPriceNearTwap(this.getRouteSpotPrice(routeIndex));
+
+    this.executeSwapAndDistribute(usdcBalance, slippageBps, routeIndex, expectedOutput, minAmountOut);
+  }
+
+  /**
+   * Record a TWAP price observation without swapping
+   * Permissionless - keepers call this between swaps to keep the oracle fresh
+   */
+  @arc4.abimethod()
+  observePrice(): void {
+    assert(Txn.rekeyTo === Global.zeroAddress, 'rekeyTo must be zero');
+    this.updatePriceObservation();
   }
 
   // ============================================
@@ -605,31 +1562,64 @@ export class RareFiVault extends arc4.Contract {
   }
 
   /**
-   * Get user's pending yield (without claiming)
+   * Get user's pending yield and extra rewards (without claiming)
+   * @returns [swapAsset yield, reward slot 0, reward slot 1] (0 for empty reward slots)
    */
   @arc4.abimethod({ readonly: true })
-  getPendingYield(user: Account): uint64 {
-    const deposited = this.depositedAmount(user).value;
-    let pending = this.earnedYield(user).value;
+  getPendingYield(user: Account): [uint64, uint64, uint64] {
+    if (!this.positions(user).exists) {
+      return [Uint64(0), Uint64(0), Uint64(0)];
+    }
 
-    if (deposited > Uint64(0)) {
-      const currentYPT = this.yieldPerToken.value;
-      const userYPT = this.userYieldPerToken(user).value;
+    const position = clone(this.positions(user).value);
+    const weight = position.weight.asUint64();
+    let pending = position.earnedYield.asUint64();
+
+    if (weight > Uint64(0)) {
+      // Include farm schedule amounts vested since the last accrual
+      const currentYPT: uint64 = this.yieldPerToken.value + this.pendingFarmYieldPerToken();
+      const userYPT = position.userYieldPerToken.asUint64();
 
       if (currentYPT > userYPT) {
-        pending = pending + this.mulDivFloor(deposited, currentYPT - userYPT, SCALE);
+        pending = pending + this.mulDivFloor(weight, currentYPT - userYPT, SCALE);
       }
     }
 
-    return pending;
+    return [pending, this.pendingReward(clone(position), Uint64(0)), this.pendingReward(clone(position), Uint64(1))];
   }
 
   /**
-   * Get user's deposit balance
+   * Get user's deposit balance, including exit fees credited since their last action
    */
   @arc4.abimethod({ readonly: true })
   getUserDeposit(user: Account): uint64 {
-    return this.depositedAmount(user).value;
+    if (!this.positions(user).exists) {
+      return Uint64(0);
+    }
+    const position = clone(this.positions(user).value);
+    const deposited = position.depositedAmount.asUint64();
+    const userEFPT = position.userExitFeePerToken.asUint64();
+    if (this.exitFeePerToken.value > userEFPT) {
+      return deposited + this.mulDivFloor(position.weight.asUint64(), this.exitFeePerToken.value - userEFPT, SCALE);
+    }
+    return deposited;
+  }
+
+  /**
+   * Get user's raw position box contents
+   * @returns [depositedAmount, userYieldPerToken, earnedYield] (all zero if no position)
+   */
+  @arc4.abimethod({ readonly: true })
+  getUserPosition(user: Account): [uint64, uint64, uint64] {
+    if (!this.positions(user).exists) {
+      return [Uint64(0), Uint64(0), Uint64(0)];
+    }
+    const position = clone(this.positions(user).value);
+    return [
+      position.depositedAmount.asUint64(),
+      position.userYieldPerToken.asUint64(),
+      position.earnedYield.asUint64(),
+    ];
   }
 
   /**
@@ -653,6 +1643,46 @@ export class RareFiVault extends arc4.Contract {
     return [usdcBalance, expectedOutput, minAt50Bps];
   }
 
+  /**
+   * Preview best-execution swap across the creation route and allowlisted candidate pools
+   * Same route selection as swapYield
+   * @returns [usdcBalance, routeIndex, poolAppId, expectedOutput] (routeIndex 0 = creation route)
+   */
+  @arc4.abimethod({ readonly: true })
+  getBestSwapQuote(): [uint64, uint64, uint64, uint64] {
+    const appAddr: Account = Global.currentApplicationAddress;
+    const usdcBalance = Asset(this.yieldAsset.value).balance(appAddr);
+
+    if (usdcBalance === Uint64(0)) {
+      return [Uint64(0), Uint64(0), this.tinymanPoolAppId.value, Uint64(0)];
+    }
+
+    const [routeIndex, poolAppId, expectedOutput] = this.getBestRoute(usdcBalance);
+    return [usdcBalance, routeIndex, poolAppId, expectedOutput];
+  }
+
+  /**
+   * Get the candidate pool allowlist (poolAppId 0 = empty slot)
+   */
+  @arc4.abimethod({ readonly: true })
+  getCandidatePools(): arc4.StaticArray<CandidatePool, 2> {
+    return clone(this.candidatePools.value);
+  }
+
+  /**
+   * Get price oracle state (prices are creation-route output for 1 USDC)
+   * @returns [spotPrice, twapPrice, lastObservationTime, maxPriceDeviationBps]
+   */
+  @arc4.abimethod({ readonly: true })
+  getPriceOracle(): [uint64, uint64, uint64, uint64] {
+    return [
+      this.getExpectedSwapOutput(PRICE_PROBE_AMOUNT),
+      this.twapPrice.value,
+      this.lastObservationTime.value,
+      this.maxPriceDeviationBps.value,
+    ];
+  }
+
   // ============================================
   // ADMIN METHODS
   // ============================================
@@ -720,6 +1750,156 @@ export class RareFiVault extends arc4.Contract {
     this.creatorFeeRate.value = newFeeRate;
   }
 
+  /**
+   * Update the maximum spot-vs-TWAP price deviation allowed for swaps
+   * Only callable by creator or RareFi
+   */
+  @arc4.abimethod()
+  updateMaxPriceDeviation(newMaxDeviationBps: uint64): void {
+    assert(Txn.rekeyTo === Global.zeroAddress, 'rekeyTo must be zero');
+    const isCreator = Txn.sender === this.creatorAddress.value;
+    const isRarefi = Txn.sender === this.rarefiAddress.value;
+    assert(isCreator || isRarefi, 'Only creator or RareFi can update');
+    assert(newMaxDeviationBps >= MIN_PRICE_DEVIATION_BPS, 'Price deviation too low (min 1%)');
+    assert(newMaxDeviationBps <= FEE_BPS_BASE, 'Price deviation too high');
+    this.maxPriceDeviationBps.value = newMaxDeviationBps;
+  }
+
+  // ============================================
+  // CANDIDATE POOLS (best-execution routing)
+  // ============================================
+
+  /**
+   * Allowlist an alternative USDC/swapAsset pool for swapYield
+   * Only callable by creator or RareFi
+   *
+   * @param poolAppId - Tinyman V2 pool app ID
+   * @param poolAddress - Pool address holding the pool's local state
+   */
+  @arc4.abimethod()
+  addCandidatePool(poolAppId: uint64, poolAddress: Account): void {
+    assert(Txn.rekeyTo === Global.zeroAddress, 'rekeyTo must be zero');
+    const isCreator = Txn.sender === this.creatorAddress.value;
+    const isRarefi = Txn.sender === this.rarefiAddress.value;
+    assert(isCreator || isRarefi, 'Only creator or RareFi can update');
+    assert(poolAppId !== Uint64(0), 'Invalid pool app ID');
+    assert(poolAddress !== Global.zeroAddress, 'Cannot set zero address');
+    assert(poolAppId !== this.tinymanPoolAppId.value, 'Pool is the creation route');
+
+    // Pool must trade exactly USDC <-> swapAsset
+    const [asset1Id, hasAsset1Id] = AppLocal.getExUint64(poolAddress, poolAppId, Bytes('asset_1_id'));
+    assert(hasAsset1Id, 'Cannot read pool asset_1_id');
+    const [asset2Id, hasAsset2Id] = AppLocal.getExUint64(poolAddress, poolAppId, Bytes('asset_2_id'));
+    assert(hasAsset2Id, 'Cannot read pool asset_2_id');
+    const yieldAssetId = this.yieldAsset.value;
+    const swapAssetId = this.swapAsset.value;
+    assert(
+      (asset1Id === yieldAssetId && asset2Id === swapAssetId) || (asset1Id === swapAssetId && asset2Id === yieldAssetId),
+      'Pool does not trade USDC/swapAsset'
+    );
+
+    const pools = clone(this.candidatePools.value);
+    let freeSlot: uint64 = MAX_CANDIDATE_POOLS;
+    for (let i: uint64 = Uint64(0); i < MAX_CANDIDATE_POOLS; i++) {
+      const slotAppId = pools[i].poolAppId.asUint64();
+      assert(slotAppId !== poolAppId, 'Pool already allowlisted');
+      if (slotAppId === Uint64(0) && freeSlot === MAX_CANDIDATE_POOLS) {
+        freeSlot = i;
+      }
+    }
+    assert(freeSlot < MAX_CANDIDATE_POOLS, 'Candidate pool list full');
+
+    pools[freeSlot] = new CandidatePool({
+      poolAppId: new arc4.Uint64(poolAppId),
+      poolAddress: new arc4.Address(poolAddress),
+    });
+    this.candidatePools.value = clone(pools);
+  }
+
+  /**
+   * Remove a pool from the candidate allowlist
+   * Only callable by creator or RareFi
+   */
+  @arc4.abimethod()
+  removeCandidatePool(poolAppId: uint64): void {
+    assert(Txn.rekeyTo === Global.zeroAddress, 'rekeyTo must be zero');
+    const isCreator = Txn.sender === this.creatorAddress.value;
+    const isRarefi = Txn.sender === this.rarefiAddress.value;
+    assert(isCreator || isRarefi, 'Only creator or RareFi can update');
+    assert(poolAppId !== Uint64(0), 'Invalid pool app ID');
+
+    const pools = clone(this.candidatePools.value);
+    let found = false;
+    for (let i: uint64 = Uint64(0); i < MAX_CANDIDATE_POOLS; i++) {
+      if (pools[i].poolAppId.asUint64() === poolAppId) {
+        pools[i] = new CandidatePool({
+          poolAppId: new arc4.Uint64(0),
+          poolAddress: new arc4.Address(Global.zeroAddress),
+        });
+        found = true;
+      }
+    }
+    assert(found, 'Pool not allowlisted');
+    this.candidatePools.value = clone(pools);
+  }
+
+  // ============================================
+  // EMERGENCY PAUSE
+  // ============================================
+
+  /**
+   * Pause deposits, swaps and farm contributions
+   * Only callable by guardian. Withdraw, claim and closeOut stay open.
+   * The pause expires on its own after `duration` seconds (max 7 days)
+   *
+   * @param duration - Pause length in seconds
+   */
+  @arc4.abimethod()
+  pause(duration: uint64): void {
+    assert(Txn.rekeyTo === Global.zeroAddress, 'rekeyTo must be zero');
+    assert(Txn.sender === this.guardianAddress.value, 'Only guardian can pause');
+    assert(duration > Uint64(0), 'Duration must be positive');
+    assert(duration <= MAX_PAUSE_DURATION, 'Pause duration exceeds maximum (7 days)');
+    assert(Global.latestTimestamp >= this.pausedUntil.value, 'Already paused');
+    this.pausedUntil.value = Global.latestTimestamp + duration;
+  }
+
+  /**
+   * Lift an active pause before it expires
+   * Only callable by guardian
+   */
+  @arc4.abimethod()
+  unpause(): void {
+    assert(Txn.rekeyTo === Global.zeroAddress, 'rekeyTo must be zero');
+    assert(Txn.sender === this.guardianAddress.value, 'Only guardian can unpause');
+    this.pausedUntil.value = Uint64(0);
+  }
+
+  /**
+   * Update the guardian address
+   * Only callable by RareFi
+   */
+  @arc4.abimethod()
+  updateGuardian(newGuardianAddress: Account): void {
+    assert(Txn.rekeyTo === Global.zeroAddress, 'rekeyTo must be zero');
+    assert(Txn.sender === this.rarefiAddress.value, 'Only RareFi can update guardian');
+    assert(newGuardianAddress !== Global.zeroAddress, 'Cannot set zero address');
+    this.guardianAddress.value = newGuardianAddress;
+  }
+
+  /**
+   * Get pause state
+   * @returns [isPaused, pausedUntil, secondsRemaining]
+   */
+  @arc4.abimethod({ readonly: true })
+  getPauseState(): [uint64, uint64, uint64] {
+    const now = Global.latestTimestamp;
+    if (now >= this.pausedUntil.value) {
+      return [Uint64(0), this.pausedUntil.value, Uint64(0)];
+    }
+    return [Uint64(1), this.pausedUntil.value, this.pausedUntil.value - now];
+  }
+
   // ============================================
   // FARM FEATURE - Bonus yield distribution
   // ============================================
@@ -734,25 +1914,60 @@ export class RareFiVault extends arc4.Contract {
   @arc4.abimethod()
   contributeFarm(): void {
     assert(Txn.rekeyTo === Global.zeroAddress, 'rekeyTo must be zero');
-    const appAddr: Account = Global.currentApplicationAddress;
-    const currentIndex = Txn.groupIndex;
-    assert(currentIndex >= Uint64(1), 'App call must follow asset transfer');
+    this.assertNotPaused();
+    const amount = this.receiveFarmContribution();
 
-    // Validate the contribution transfer
-    const farmTransfer = gtxn.AssetTransferTxn(currentIndex - Uint64(1));
-    assert(farmTransfer.xferAsset === Asset(this.swapAsset.value), 'Must transfer swap asset');
-    assert(farmTransfer.assetReceiver === appAddr, 'Must send to contract');
-    assert(farmTransfer.sender === Txn.sender, 'Transfer must be from caller');
+    // Add to farm balance
+    this.farmBalance.value = this.farmBalance.value + amount;
 
-    // SECURITY: Prevent phishing attacks - reject dangerous fields
-    assert(farmTransfer.rekeyTo === Global.zeroAddress, 'rekeyTo must be zero');
-    assert(farmTransfer.assetCloseTo === Global.zeroAddress, 'assetCloseTo must be zero');
+    emit('FarmContributed', Txn.sender, amount);
+  }
 
-    const amount = farmTransfer.assetAmount;
-    assert(amount > Uint64(0), 'Contribution must be positive');
+  /**
+   * Contribute swapAsset as a farm campaign released linearly from startTime to endTime
+   * Streamed to depositors by time (at every deposit, withdraw and claim), independent of swaps
+   * Only callable by creator or RareFi, since schedule slots are limited
+   *
+   * Expects an asset transfer of swapAsset before this call
+   *
+   * @param startTime - Release start (a time in the past starts now)
+   * @param endTime - Release end, at most MAX_FARM_SCHEDULE_DURATION after the start
+   */
+  @arc4.abimethod()
+  contributeFarmSchedule(startTime: uint64, endTime: uint64): void {
+    assert(Txn.rekeyTo === Global.zeroAddress, 'rekeyTo must be zero');
+    const isCreator = Txn.sender === this.creatorAddress.value;
+    const isRarefi = Txn.sender === this.rarefiAddress.value;
+    assert(isCreator || isRarefi, 'Only creator or RareFi can schedule farm emissions');
+    this.assertNotPaused();
+    const amount = this.receiveFarmContribution();
+
+    const now = Global.latestTimestamp;
+    const start: uint64 = startTime > now ? startTime : now;
+    assert(endTime > start, 'Schedule must end after it starts');
+    assert(endTime - start <= MAX_FARM_SCHEDULE_DURATION, 'Schedule too long');
+
+    // Frees the slots of finished schedules
+    this.accrueFarmSchedules();
+
+    const schedules = clone(this.farmSchedules.value);
+    let freeSlot: uint64 = MAX_FARM_SCHEDULES;
+    for (let i: uint64 = Uint64(0); i < MAX_FARM_SCHEDULES; i++) {
+      if (schedules[i].amount.asUint64() === Uint64(0) && freeSlot === MAX_FARM_SCHEDULES) {
+        freeSlot = i;
+      }
+    }
+    assert(freeSlot < MAX_FARM_SCHEDULES, 'Farm schedule list full');
 
-    // Add to farm balance
-    this.farmBalance.value = this.farmBalance.value + amount;
+    schedules[freeSlot] = new FarmSchedule({
+      startTime: new arc4.Uint64(start),
+      endTime: new arc4.Uint64(endTime),
+      amount: new arc4.Uint64(amount),
+      released: new arc4.Uint64(0),
+    });
+    this.farmSchedules.value = clone(schedules);
+
+    emit('FarmScheduled', Txn.sender, freeSlot, start, endTime, amount);
   }
 
   /**
@@ -771,19 +1986,806 @@ export class RareFiVault extends arc4.Contract {
     assert(newRatio > Uint64(0), 'Emission ratio must be positive');
 
     this.emissionRatio.value = newRatio;
+
+    emit('EmissionRatioSet', newRatio);
   }
 
   /**
-   * Get farm statistics including dynamic emission rate
-   * @returns [farmBalance, emissionRatio, currentDynamicRate]
+   * Get farm statistics including dynamic emission rate and schedules
+   * scheduledAmount is the total of active schedules, scheduledRemaining what they have yet to vest
+   * @returns [farmBalance, emissionRatio, currentDynamicRate, scheduledAmount, scheduledRemaining]
    */
   @arc4.abimethod({ readonly: true })
-  getFarmStats(): [uint64, uint64, uint64] {
+  getFarmStats(): [uint64, uint64, uint64, uint64, uint64] {
     let currentRate: uint64 = Uint64(0);
     if (this.emissionRatio.value > Uint64(0) && this.farmBalance.value > Uint64(0)) {
       currentRate = this.calculateDynamicEmissionRate();
     }
-    return [this.farmBalance.value, this.emissionRatio.value, currentRate];
+
+    const now = Global.latestTimestamp;
+    const schedules = clone(this.farmSchedules.value);
+    let scheduledAmount: uint64 = Uint64(0);
+    let scheduledRemaining: uint64 = Uint64(0);
+    for (let i: uint64 = Uint64(0); i < MAX_FARM_SCHEDULES; i++) {
+      const amount = schedules[i].amount.asUint64();
+      scheduledAmount = scheduledAmount + amount;
+      scheduledRemaining = scheduledRemaining + amount - this.vestedFarmAmount(clone(schedules[i]), now);
+    }
+
+    return [this.farmBalance.value, this.emissionRatio.value, currentRate, scheduledAmount, scheduledRemaining];
+  }
+
+  /**
+   * Get a farm schedule slot
+   * @returns [startTime, endTime, amount, vested] (all 0 for an empty slot)
+   */
+  @arc4.abimethod({ readonly: true })
+  getFarmSchedule(slot: uint64): [uint64, uint64, uint64, uint64] {
+    assert(slot < MAX_FARM_SCHEDULES, 'Invalid schedule slot');
+    const schedule = clone(this.farmSchedules.value[slot]);
+    return [
+      schedule.startTime.asUint64(),
+      schedule.endTime.asUint64(),
+      schedule.amount.asUint64(),
+      this.vestedFarmAmount(clone(schedule), Global.latestTimestamp),
+    ];
+  }
+
+  // ============================================
+  // EXTRA REWARD TOKENS - Partner incentive streams
+  // ============================================
+
+  /**
+   * Add an extra reward token, opting the vault into it
+   * Only callable by creator; slots are permanent (set the rate to 0 to stop a stream)
+   * The opt-in MBR comes from the ALGO funded in optInAssets
+   *
+   * @param assetId - Reward ASA (not the deposit, yield or swap asset)
+   * @param ratePerSecond - Amount released to depositors per second while the stream has balance
+   */
+  @arc4.abimethod()
+  addRewardToken(assetId: uint64, ratePerSecond: uint64): void {
+    assert(Txn.rekeyTo === Global.zeroAddress, 'rekeyTo must be zero');
+    assert(Txn.sender === this.creatorAddress.value, 'Only creator can add reward tokens');
+    assert(this.assetsOptedIn.value === Uint64(1), 'Assets not opted in');
+    assert(assetId !== Uint64(0), 'Invalid reward asset');
+    assert(
+      assetId !== this.depositAsset.value && assetId !== this.yieldAsset.value && assetId !== this.swapAsset.value,
+      'Reward token must differ from vault assets'
+    );
+
+    const streams = clone(this.rewardStreams.value);
+    let freeSlot: uint64 = MAX_REWARD_TOKENS;
+    for (let i: uint64 = Uint64(0); i < MAX_REWARD_TOKENS; i++) {
+      const slotAssetId = streams[i].assetId.asUint64();
+      assert(slotAssetId !== assetId, 'Reward token already added');
+      if (slotAssetId === Uint64(0) && freeSlot === MAX_REWARD_TOKENS) {
+        freeSlot = i;
+      }
+    }
+    assert(freeSlot < MAX_REWARD_TOKENS, 'Reward token list full');
+
+    itxn.assetTransfer({
+      assetReceiver: Global.currentApplicationAddress,
+      xferAsset: Asset(assetId),
+      assetAmount: Uint64(0),
+      fee: Uint64(0),
+    }).submit();
+
+    streams[freeSlot] = new RewardStream({
+      assetId: new arc4.Uint64(assetId),
+      rewardPerToken: new arc4.Uint64(0),
+      farmBalance: new arc4.Uint64(0),
+      ratePerSecond: new arc4.Uint64(ratePerSecond),
+      lastUpdateTime: new arc4.Uint64(Global.latestTimestamp),
+    });
+    this.rewardStreams.value = clone(streams);
+
+    emit('RewardTokenAdded', assetId, freeSlot, ratePerSecond);
+  }
+
+  /**
+   * Fund an extra reward stream
+   * Anyone can contribute; expects an asset transfer of an added reward token before this call
+   */
+  @arc4.abimethod()
+  contributeReward(): void {
+    assert(Txn.rekeyTo === Global.zeroAddress, 'rekeyTo must be zero');
+    this.assertNotPaused();
+
+    const currentIndex = Txn.groupIndex;
+    assert(currentIndex >= Uint64(1), 'App call must follow asset transfer');
+
+    const rewardTransfer = gtxn.AssetTransferTxn(currentIndex - Uint64(1));
+    assert(rewardTransfer.assetReceiver === Global.currentApplicationAddress, 'Must send to contract');
+    assert(rewardTransfer.sender === Txn.sender, 'Transfer must be from caller');
+
+    // SECURITY: Prevent phishing attacks - reject dangerous fields
+    assert(rewardTransfer.rekeyTo === Global.zeroAddress, 'rekeyTo must be zero');
+    assert(rewardTransfer.assetCloseTo === Global.zeroAddress, 'assetCloseTo must be zero');
+
+    const amount = rewardTransfer.assetAmount;
+    assert(amount > Uint64(0), 'Contribution must be positive');
+    const assetId = rewardTransfer.xferAsset.id;
+    const slot = this.rewardSlot(assetId);
+
+    // Release up to now first so the new balance only streams from here on
+    this.accrueRewardStreams();
+
+    const streams = clone(this.rewardStreams.value);
+    const stream = clone(streams[slot]);
+    stream.farmBalance = new arc4.Uint64(stream.farmBalance.asUint64() + amount);
+    streams[slot] = clone(stream);
+    this.rewardStreams.value = clone(streams);
+
+    emit('RewardContributed', Txn.sender, assetId, amount);
+  }
+
+  /**
+   * Change an extra reward stream's release rate
+   * Only callable by creator or RareFi
+   */
+  @arc4.abimethod()
+  setRewardRate(assetId: uint64, ratePerSecond: uint64): void {
+    assert(Txn.rekeyTo === Global.zeroAddress, 'rekeyTo must be zero');
+    const isCreator = Txn.sender === this.creatorAddress.value;
+    const isRarefi = Txn.sender === this.rarefiAddress.value;
+    assert(isCreator || isRarefi, 'Only creator or RareFi can set reward rate');
+    const slot = this.rewardSlot(assetId);
+
+    this.accrueRewardStreams();
+
+    const streams = clone(this.rewardStreams.value);
+    const stream = clone(streams[slot]);
+    stream.ratePerSecond = new arc4.Uint64(ratePerSecond);
+    streams[slot] = clone(stream);
+    this.rewardStreams.value = clone(streams);
+
+    emit('RewardRateSet', assetId, ratePerSecond);
+  }
+
+  /**
+   * Get the extra reward streams (assetId 0 = empty slot)
+   * rewardPerToken and farmBalance are as of each stream's lastUpdateTime
+   */
+  @arc4.abimethod({ readonly: true })
+  getRewardStreams(): arc4.StaticArray<RewardStream, 2> {
+    return clone(this.rewardStreams.value);
+  }
+
+  // ============================================
+  // TIME-LOCKED DEPOSITS - Boosted weight for locked principal
+  // ============================================
+
+  /**
+   * Configure a lock tier offered by depositLocked
+   * Only callable by creator; existing locks keep the boost they were created with
+   *
+   * @param slot - Tier slot (0-2)
+   * @param duration - Lock duration in seconds (0 = remove the tier)
+   * @param boostBps - Weight multiplier while locked (10000 = 1x, max 30000)
+   */
+  @arc4.abimethod()
+  setLockTier(slot: uint64, duration: uint64, boostBps: uint64): void {
+    assert(Txn.rekeyTo === Global.zeroAddress, 'rekeyTo must be zero');
+    assert(Txn.sender === this.creatorAddress.value, 'Only creator can set lock tiers');
+    assert(slot < MAX_LOCK_TIERS, 'Invalid lock tier slot');
+
+    const tiers = clone(this.lockTiers.value);
+    if (duration === Uint64(0)) {
+      tiers[slot] = new LockTier({ duration: new arc4.Uint64(0), boostBps: new arc4.Uint64(0) });
+    } else {
+      assert(duration <= MAX_LOCK_DURATION, 'Lock duration too long');
+      assert(boostBps > BOOST_BPS_BASE && boostBps <= MAX_LOCK_BOOST_BPS, 'Boost out of range');
+      for (let i: uint64 = Uint64(0); i < MAX_LOCK_TIERS; i++) {
+        assert(i === slot || tiers[i].duration.asUint64() !== duration, 'Lock duration already offered');
+      }
+      tiers[slot] = new LockTier({ duration: new arc4.Uint64(duration), boostBps: new arc4.Uint64(boostBps) });
+    }
+    this.lockTiers.value = clone(tiers);
+
+    emit('LockTierSet', slot, duration, tiers[slot].boostBps.asUint64());
+  }
+
+  /**
+   * Drop an expired lock's boost so the position stops earning at the boosted weight
+   * Permissionless; deposit and withdraw do the same for the caller's own position
+   */
+  @arc4.abimethod()
+  releaseLock(user: Account): void {
+    assert(Txn.rekeyTo === Global.zeroAddress, 'rekeyTo must be zero');
+    const position = this.getPosition(user);
+    assert(position.boostBps.asUint64() !== BOOST_BPS_BASE, 'No boosted lock');
+    assert(Global.latestTimestamp >= position.lockedUntil.asUint64(), 'Deposit is locked');
+
+    this.updateEarnedYield(user);
+    this.updateWeight(user);
+  }
+
+  /**
+   * Get the lock tiers (duration 0 = empty slot)
+   */
+  @arc4.abimethod({ readonly: true })
+  getLockTiers(): arc4.StaticArray<LockTier, 3> {
+    return clone(this.lockTiers.value);
+  }
+
+  /**
+   * Get user's lock state
+   * @returns [weight, boostBps, lockedUntil] (all zero if no position)
+   */
+  @arc4.abimethod({ readonly: true })
+  getUserLock(user: Account): [uint64, uint64, uint64] {
+    if (!this.positions(user).exists) {
+      return [Uint64(0), Uint64(0), Uint64(0)];
+    }
+    const position = clone(this.positions(user).value);
+    return [position.weight.asUint64(), position.boostBps.asUint64(), position.lockedUntil.asUint64()];
+  }
+
+  // ============================================
+  // EXIT FEE - Early withdrawal penalty for the remaining depositors
+  // ============================================
+
+  /**
+   * Set the exit fee charged on withdrawals, decaying linearly to zero over exitFeePeriod after depositing
+   * Only callable by creator; applies to existing positions from their deposit time
+   *
+   * @param exitFeeBps - Fee right after depositing in basis points (0 = disabled, max 500)
+   * @param exitFeePeriod - Seconds for the fee to reach zero (0 = disabled, max 30 days)
+   */
+  @arc4.abimethod()
+  setExitFee(exitFeeBps: uint64, exitFeePeriod: uint64): void {
+    assert(Txn.rekeyTo === Global.zeroAddress, 'rekeyTo must be zero');
+    assert(Txn.sender === this.creatorAddress.value, 'Only creator can set exit fee');
+    assert(exitFeeBps <= MAX_EXIT_FEE_BPS, 'Exit fee too high');
+    assert(exitFeePeriod <= MAX_EXIT_FEE_PERIOD, 'Exit fee period too long');
+    assert((exitFeeBps === Uint64(0)) === (exitFeePeriod === Uint64(0)), 'Set both exit fee and period, or neither');
+
+    this.exitFeeBps.value = exitFeeBps;
+    this.exitFeePeriod.value = exitFeePeriod;
+
+    emit('ExitFeeSet', exitFeeBps, exitFeePeriod);
+  }
+
+  /**
+   * Get the exit fee settings and a user's current rate
+   * @returns [exitFeeBps, exitFeePeriod, userFeeBps] (userFeeBps 0 if no position)
+   */
+  @arc4.abimethod({ readonly: true })
+  getExitFee(user: Account): [uint64, uint64, uint64] {
+    let userFeeBps: uint64 = Uint64(0);
+    if (this.positions(user).exists) {
+      userFeeBps = this.currentExitFeeBps(clone(this.positions(user).value));
+    }
+    return [this.exitFeeBps.value, this.exitFeePeriod.value, userFeeBps];
+  }
+
+  // ============================================
+  // CLAIM ROUTING - Yield recipient and claim delegation
+  // ============================================
+
+  /**
+   * Send claimed swapAsset yield to another address (e.g. a hot wallet)
+   * The first claim setting creates the caller's claim settings box and expects a payment
+   * of CLAIM_SETTINGS_MBR in the group before this call; clearClaimSettings refunds it
+   * closeOut and migrateTo still move yield for the position owner
+   *
+   * @param recipient - Receives claimed yield (zero address = the caller)
+   */
+  @arc4.abimethod()
+  setYieldRecipient(recipient: Account): void {
+    assert(Txn.rekeyTo === Global.zeroAddress, 'rekeyTo must be zero');
+    const settings = this.loadClaimSettings();
+    settings.recipient = new arc4.Address(recipient);
+    this.claimSettings(Txn.sender).value = clone(settings);
+
+    emit('YieldRecipientSet', Txn.sender, recipient);
+  }
+
+  /**
+   * Let an operator (e.g. an aggregator) trigger claims for the caller with claimFor
+   * Same box and MBR payment rules as setYieldRecipient
+   *
+   * @param claimer - Approved operator (zero address = revoke)
+   */
+  @arc4.abimethod()
+  approveClaimer(claimer: Account): void {
+    assert(Txn.rekeyTo === Global.zeroAddress, 'rekeyTo must be zero');
+    const settings = this.loadClaimSettings();
+    settings.claimer = new arc4.Address(claimer);
+    this.claimSettings(Txn.sender).value = clone(settings);
+
+    emit('ClaimerApproved', Txn.sender, claimer);
+  }
+
+  /**
+   * Remove the caller's yield recipient and claimer, delete the box and refund its MBR
+   */
+  @arc4.abimethod()
+  clearClaimSettings(): void {
+    assert(Txn.rekeyTo === Global.zeroAddress, 'rekeyTo must be zero');
+    assert(this.claimSettings(Txn.sender).exists, 'No claim settings');
+    this.claimSettings(Txn.sender).delete();
+
+    itxn.payment({
+      receiver: Txn.sender,
+      amount: CLAIM_SETTINGS_MBR,
+      fee: Uint64(0),
+    }).submit();
+
+    emit('ClaimSettingsCleared', Txn.sender);
+  }
+
+  /**
+   * Get a user's claim routing
+   * @returns [recipient, claimer] (zero addresses if not set)
+   */
+  @arc4.abimethod({ readonly: true })
+  getClaimSettings(user: Account): [Account, Account] {
+    if (!this.claimSettings(user).exists) {
+      return [Global.zeroAddress, Global.zeroAddress];
+    }
+    const settings = clone(this.claimSettings(user).value);
+    return [settings.recipient.native, settings.claimer.native];
+  }
+
+  /**
+   * Caller's claim settings, new (and paid for by the preceding payment) if they have none yet
+   */
+  private loadClaimSettings(): ClaimSettings {
+    assert(this.positions(Txn.sender).exists, 'User not opted in');
+    if (this.claimSettings(Txn.sender).exists) {
+      return clone(this.claimSettings(Txn.sender).value);
+    }
+
+    const currentIndex = Txn.groupIndex;
+    assert(currentIndex >= Uint64(1), 'App call must follow MBR payment');
+
+    const mbrPayment = gtxn.PaymentTxn(currentIndex - Uint64(1));
+    assert(mbrPayment.sender === Txn.sender, 'Payment must be from caller');
+    assert(mbrPayment.receiver === Global.currentApplicationAddress, 'Payment must be to app');
+    assert(mbrPayment.amount >= CLAIM_SETTINGS_MBR, 'Insufficient ALGO for claim settings box');
+
+    // SECURITY: Prevent phishing attacks - reject dangerous fields
+    assert(mbrPayment.rekeyTo === Global.zeroAddress, 'rekeyTo must be zero');
+    assert(mbrPayment.closeRemainderTo === Global.zeroAddress, 'closeRemainderTo must be zero');
+
+    return new ClaimSettings({
+      recipient: new arc4.Address(Global.zeroAddress),
+      claimer: new arc4.Address(Global.zeroAddress),
+    });
+  }
+
+  /**
+   * Where a user's claimed yield is sent: their recipient if set, otherwise the user
+   */
+  private yieldRecipient(user: Account): Account {
+    if (this.claimSettings(user).exists) {
+      const recipient = this.claimSettings(user).value.recipient.native;
+      if (recipient !== Global.zeroAddress) {
+        return recipient;
+      }
+    }
+    return user;
+  }
+
+  // ============================================
+  // MIGRATION - Move positions into a new vault version
+  // ============================================
+
+  /**
+   * Approve the vault users can migrate into with migrateTo
+   * Only callable by creator or RareFi; the successor must use the same deposit and swap assets
+   *
+   * @param successorAppId - Successor vault app ID (0 = stop migrations)
+   */
+  @arc4.abimethod()
+  setSuccessorVault(successorAppId: uint64): void {
+    assert(Txn.rekeyTo === Global.zeroAddress, 'rekeyTo must be zero');
+    const isCreator = Txn.sender === this.creatorAddress.value;
+    const isRarefi = Txn.sender === this.rarefiAddress.value;
+    assert(isCreator || isRarefi, 'Only creator or RareFi can update');
+
+    if (successorAppId !== Uint64(0)) {
+      assert(successorAppId !== Global.currentApplicationId.id, 'Vault cannot succeed itself');
+      const [successorDepositAsset, hasDepositAsset] = AppGlobal.getExUint64(successorAppId, Bytes('depositAsset'));
+      const [successorSwapAsset, hasSwapAsset] = AppGlobal.getExUint64(successorAppId, Bytes('swapAsset'));
+      assert(hasDepositAsset && successorDepositAsset === this.depositAsset.value, 'Successor deposit asset mismatch');
+      assert(hasSwapAsset && successorSwapAsset === this.swapAsset.value, 'Successor swap asset mismatch');
+    }
+
+    this.successorAppId.value = successorAppId;
+    emit('SuccessorVaultSet', successorAppId);
+  }
+
+  /**
+   * Approve the vault whose users may migrate into this one (acceptMigration rejects any other caller)
+   * Only callable by creator or RareFi; the predecessor must use the same deposit and swap assets
+   *
+   * @param predecessorAppId - Predecessor vault app ID (0 = accept no migrations)
+   */
+  @arc4.abimethod()
+  setPredecessorVault(predecessorAppId: uint64): void {
+    assert(Txn.rekeyTo === Global.zeroAddress, 'rekeyTo must be zero');
+    const isCreator = Txn.sender === this.creatorAddress.value;
+    const isRarefi = Txn.sender === this.rarefiAddress.value;
+    assert(isCreator || isRarefi, 'Only creator or RareFi can update');
+
+    if (predecessorAppId !== Uint64(0)) {
+      assert(predecessorAppId !== Global.currentApplicationId.id, 'Vault cannot precede itself');
+      const [predecessorDepositAsset, hasDepositAsset] = AppGlobal.getExUint64(predecessorAppId, Bytes('depositAsset'));
+      const [predecessorSwapAsset, hasSwapAsset] = AppGlobal.getExUint64(predecessorAppId, Bytes('swapAsset'));
+      assert(hasDepositAsset && predecessorDepositAsset === this.depositAsset.value, 'Predecessor deposit asset mismatch');
+      assert(hasSwapAsset && predecessorSwapAsset === this.swapAsset.value, 'Predecessor swap asset mismatch');
+    }
+
+    this.predecessorAppId.value = predecessorAppId;
+    emit('PredecessorVaultSet', predecessorAppId);
+  }
+
+  /**
+   * Move the caller's whole position into the approved successor vault in one call
+   * Sends deposit and earnedYield to the successor, which credits them via acceptMigration,
+   * pays out extra rewards, then deletes the position box and refunds its MBR
+   * The exit fee applies to the deposit as for withdraw. Fails while the deposit is locked;
+   * the caller must already have a position box in the successor, which must have approved
+   * this vault as its predecessor.
+   *
+   * @param successorAppId - Must equal the approved successorAppId
+   * @param slippageBps - Slippage tolerance for the successor's auto-swap
+   */
+  @arc4.abimethod()
+  migrateTo(successorAppId: uint64, slippageBps: uint64): void {
+    assert(Txn.rekeyTo === Global.zeroAddress, 'rekeyTo must be zero');
+    assert(successorAppId !== Uint64(0) && successorAppId === this.successorAppId.value, 'Not the approved successor vault');
+    assert(Global.latestTimestamp >= this.getPosition(Txn.sender).lockedUntil.asUint64(), 'Deposit is locked');
+
+    this.updateEarnedYield(Txn.sender);
+    this.payEarnedRewards(Txn.sender, true);
+
+    const position = clone(this.positions(Txn.sender).value);
+    const userDeposit = position.depositedAmount.asUint64();
+    const userYield = position.earnedYield.asUint64();
+    assert(userDeposit > Uint64(0), 'Nothing to migrate');
+    this.positions(Txn.sender).delete();
+
+    this.totalWeight.value = this.totalWeight.value - position.weight.asUint64();
+    this.totalDeposits.value = this.totalDeposits.value - userDeposit;
+    const migratedDeposit: uint64 = userDeposit - this.chargeExitFee(Txn.sender, clone(position), userDeposit);
+
+    const successor = Application(successorAppId);
+    itxn.submitGroup(
+      itxn.assetTransfer({
+        assetReceiver: successor.address,
+        xferAsset: Asset(this.depositAsset.value),
+        assetAmount: migratedDeposit,
+        fee: Uint64(0),
+      }),
+      itxn.assetTransfer({
+        assetReceiver: successor.address,
+        xferAsset: Asset(this.swapAsset.value),
+        assetAmount: userYield,
+        fee: Uint64(0),
+      }),
+      itxn.applicationCall({
+        appId: successor,
+        appArgs: [
+          arc4.methodSelector('acceptMigration(address,uint64,uint64)void'),
+          Txn.sender.bytes,
+          itob(userYield),
+          itob(slippageBps),
+        ],
+        fee: Uint64(0),
+      }),
+    );
+
+    // Refund position box MBR
+    itxn.payment({
+      receiver: Txn.sender,
+      amount: POSITION_MBR,
+      fee: Uint64(0),
+    }).submit();
+
+    emit('Migrated', Txn.sender, successorAppId, userDeposit, userYield);
+  }
+
+  /**
+   * Receive a position migrated from the approved predecessor vault, which must also have approved this vault as its successor
+   * Called by the predecessor after transferring the deposit asset and the swapAsset yield;
+   * credits the deposit (after the usual auto-swap) and the yield to the user's position
+   *
+   * @param user - Owner of the migrated position (must have a position box here)
+   * @param yieldAmount - Earned swapAsset yield transferred with the deposit
+   * @param slippageBps - Slippage tolerance for auto-swap (ignored if no swap needed)
+   */
+  @arc4.abimethod()
+  acceptMigration(user: Account, yieldAmount: uint64, slippageBps: uint64): void {
+    assert(Txn.rekeyTo === Global.zeroAddress, 'rekeyTo must be zero');
+    const predecessorAppId = Global.callerApplicationId;
+    assert(predecessorAppId !== Uint64(0), 'Only callable by a vault');
+    assert(predecessorAppId === this.predecessorAppId.value, 'Not the approved predecessor vault');
+    const [approvedSuccessor, hasSuccessor] = AppGlobal.getExUint64(predecessorAppId, Bytes('successorAppId'));
+    assert(hasSuccessor && approvedSuccessor === Global.currentApplicationId.id, 'Caller has not approved this vault');
+
+    this.autoSwapBeforeDeposit(slippageBps, Uint64(0));
+
+    const currentIndex = Txn.groupIndex;
+    assert(currentIndex >= Uint64(2), 'App call must follow asset transfers');
+
+    const depositTransfer = gtxn.AssetTransferTxn(currentIndex - Uint64(2));
+    assert(depositTransfer.xferAsset === Asset(this.depositAsset.value), 'Must transfer deposit asset');
+    assert(depositTransfer.assetReceiver === Global.currentApplicationAddress, 'Must send to contract');
+    assert(depositTransfer.sender === Global.callerApplicationAddress, 'Transfer must be from caller');
+    assert(depositTransfer.assetCloseTo === Global.zeroAddress, 'assetCloseTo must be zero');
+
+    const yieldTransfer = gtxn.AssetTransferTxn(currentIndex - Uint64(1));
+    assert(yieldTransfer.xferAsset === Asset(this.swapAsset.value), 'Must transfer swap asset');
+    assert(yieldTransfer.assetReceiver === Global.currentApplicationAddress, 'Must send to contract');
+    assert(yieldTransfer.sender === Global.callerApplicationAddress, 'Transfer must be from caller');
+    assert(yieldTransfer.assetCloseTo === Global.zeroAddress, 'assetCloseTo must be zero');
+    assert(yieldTransfer.assetAmount === yieldAmount, 'Yield amount mismatch');
+
+    const amount = depositTransfer.assetAmount;
+    assert(amount > Uint64(0), 'Nothing to migrate');
+    this.creditDeposit(user, amount, Uint64(0));
+
+    const position = clone(this.positions(user).value);
+    position.earnedYield = new arc4.Uint64(position.earnedYield.asUint64() + yieldAmount);
+    this.positions(user).value = clone(position);
+
+    emit('MigrationReceived', user, predecessorAppId, amount, yieldAmount);
+  }
+
+  // ============================================
+  // CLAIM AND STAKE - Deposit yield into another vault
+  // ============================================
+
+  /**
+   * Allowlist a vault that claimAndStake may deposit yield into
+   * The target must take swapAsset as its deposit asset (a compounding vault's alphaAsset, or
+   * another RareFiVault's depositAsset) and expose depositFor(address,uint64)
+   * Only callable by creator or RareFi
+   *
+   * @param targetAppId - Vault app ID
+   */
+  @arc4.abimethod()
+  addStakeTarget(targetAppId: uint64): void {
+    assert(Txn.rekeyTo === Global.zeroAddress, 'rekeyTo must be zero');
+    const isCreator = Txn.sender === this.creatorAddress.value;
+    const isRarefi = Txn.sender === this.rarefiAddress.value;
+    assert(isCreator || isRarefi, 'Only creator or RareFi can update');
+    assert(targetAppId !== Uint64(0), 'Invalid target app ID');
+    assert(targetAppId !== Global.currentApplicationId.id, 'Vault cannot stake into itself');
+
+    // Compounding vaults name their deposit asset alphaAsset, RareFiVaults depositAsset
+    const [alphaAsset, hasAlphaAsset] = AppGlobal.getExUint64(targetAppId, Bytes('alphaAsset'));
+    const [depositAsset, hasDepositAsset] = AppGlobal.getExUint64(targetAppId, Bytes('depositAsset'));
+    const swapAssetId = this.swapAsset.value;
+    assert(
+      (hasAlphaAsset && alphaAsset === swapAssetId) || (hasDepositAsset && depositAsset === swapAssetId),
+      'Target does not take swap asset deposits'
+    );
+
+    const targets = clone(this.stakeTargets.value);
+    let freeSlot: uint64 = MAX_STAKE_TARGETS;
+    for (let i: uint64 = Uint64(0); i < MAX_STAKE_TARGETS; i++) {
+      const slotAppId = targets[i].asUint64();
+      assert(slotAppId !== targetAppId, 'Stake target already allowlisted');
+      if (slotAppId === Uint64(0) && freeSlot === MAX_STAKE_TARGETS) {
+        freeSlot = i;
+      }
+    }
+    assert(freeSlot < MAX_STAKE_TARGETS, 'Stake target list full');
+
+    targets[freeSlot] = new arc4.Uint64(targetAppId);
+    this.stakeTargets.value = clone(targets);
+    emit('StakeTargetAdded', targetAppId, freeSlot);
+  }
+
+  /**
+   * Remove a vault from the stake target allowlist
+   * Only callable by creator or RareFi
+   */
+  @arc4.abimethod()
+  removeStakeTarget(targetAppId: uint64): void {
+    assert(Txn.rekeyTo === Global.zeroAddress, 'rekeyTo must be zero');
+    const isCreator = Txn.sender === this.creatorAddress.value;
+    const isRarefi = Txn.sender === this.rarefiAddress.value;
+    assert(isCreator || isRarefi, 'Only creator or RareFi can update');
+    assert(targetAppId !== Uint64(0), 'Invalid target app ID');
+
+    const targets = clone(this.stakeTargets.value);
+    let found = false;
+    for (let i: uint64 = Uint64(0); i < MAX_STAKE_TARGETS; i++) {
+      if (targets[i].asUint64() === targetAppId) {
+        targets[i] = new arc4.Uint64(0);
+        found = true;
+      }
+    }
+    assert(found, 'Stake target not allowlisted');
+    this.stakeTargets.value = clone(targets);
+    emit('StakeTargetRemoved', targetAppId);
+  }
+
+  /**
+   * Deposit the caller's earned swapAsset yield into an allowlisted vault in the caller's name
+   * Sends the yield to the target and calls its depositFor in one inner group. The caller must
+   * be able to receive the deposit there (position box, or the share ASA for tokenized vaults);
+   * the target applies its own pause, minimum deposit and auto-swap.
+   * Extra rewards stay claimable and the yield recipient is not used.
+   *
+   * @param targetAppId - Allowlisted stake target
+   * @param slippageBps - Slippage tolerance for the target's auto-swap
+   */
+  @arc4.abimethod()
+  claimAndStake(targetAppId: uint64, slippageBps: uint64): void {
+    assert(Txn.rekeyTo === Global.zeroAddress, 'rekeyTo must be zero');
+    assert(this.isStakeTarget(targetAppId), 'Not an allowlisted stake target');
+
+    this.updateEarnedYield(Txn.sender);
+    const position = clone(this.positions(Txn.sender).value);
+    const amount = position.earnedYield.asUint64();
+    assert(amount > Uint64(0), 'Nothing to claim');
+
+    position.earnedYield = new arc4.Uint64(0);
+    this.positions(Txn.sender).value = clone(position);
+
+    const target = Application(targetAppId);
+    itxn.submitGroup(
+      itxn.assetTransfer({
+        assetReceiver: target.address,
+        xferAsset: Asset(this.swapAsset.value),
+        assetAmount: amount,
+        fee: Uint64(0),
+      }),
+      itxn.applicationCall({
+        appId: target,
+        appArgs: [
+          arc4.methodSelector('depositFor(address,uint64)void'),
+          Txn.sender.bytes,
+          itob(slippageBps),
+        ],
+        fee: Uint64(0),
+      }),
+    );
+
+    emit('YieldStaked', Txn.sender, targetAppId, amount);
+  }
+
+  /**
+   * Get the stake target allowlist (app ID 0 = empty slot)
+   */
+  @arc4.abimethod({ readonly: true })
+  getStakeTargets(): arc4.StaticArray<arc4.Uint64, 2> {
+    return clone(this.stakeTargets.value);
+  }
+
+  private isStakeTarget(targetAppId: uint64): boolean {
+    if (targetAppId === Uint64(0)) {
+      return false;
+    }
+    const targets = clone(this.stakeTargets.value);
+    for (let i: uint64 = Uint64(0); i < MAX_STAKE_TARGETS; i++) {
+      if (targets[i].asUint64() === targetAppId) {
+        return true;
+      }
+    }
+    return false;
+  }
+
+  // ============================================
+  // ZAP DEPOSIT - Deposit USDC, credited as the deposit asset
+  // ============================================
+
+  /**
+   * Set the Tinyman V2 pool zapDeposit swaps USDC through (poolAppId 0 disables zaps)
+   * The pool must trade exactly USDC <-> depositAsset
+   * Only callable by creator or RareFi
+   *
+   * @param poolAppId - Tinyman V2 pool app ID
+   * @param poolAddress - Pool address holding the pool's local state
+   */
+  @arc4.abimethod()
+  setZapPool(poolAppId: uint64, poolAddress: Account): void {
+    assert(Txn.rekeyTo === Global.zeroAddress, 'rekeyTo must be zero');
+    const isCreator = Txn.sender === this.creatorAddress.value;
+    const isRarefi = Txn.sender === this.rarefiAddress.value;
+    assert(isCreator || isRarefi, 'Only creator or RareFi can update');
+
+    if (poolAppId === Uint64(0)) {
+      this.zapPoolAppId.value = Uint64(0);
+      this.zapPoolAddress.value = Global.zeroAddress;
+      emit('ZapPoolSet', Uint64(0));
+      return;
+    }
+
+    assert(poolAddress !== Global.zeroAddress, 'Cannot set zero address');
+    const [asset1Id, hasAsset1Id] = AppLocal.getExUint64(poolAddress, poolAppId, Bytes('asset_1_id'));
+    assert(hasAsset1Id, 'Cannot read pool asset_1_id');
+    const [asset2Id, hasAsset2Id] = AppLocal.getExUint64(poolAddress, poolAppId, Bytes('asset_2_id'));
+    assert(hasAsset2Id, 'Cannot read pool asset_2_id');
+    const yieldAssetId = this.yieldAsset.value;
+    const depositAssetId = this.depositAsset.value;
+    assert(
+      (asset1Id === yieldAssetId && asset2Id === depositAssetId) || (asset1Id === depositAssetId && asset2Id === yieldAssetId),
+      'Pool does not trade USDC/depositAsset'
+    );
+
+    this.zapPoolAppId.value = poolAppId;
+    this.zapPoolAddress.value = poolAddress;
+    emit('ZapPoolSet', poolAppId);
+  }
+
+  /**
+   * Deposit USDC: it is swapped to Alpha through the zap pool and the output is credited as the deposit
+   * Expects a USDC transfer from the caller in the group before this call
+   *
+   * Yield already in the vault is auto-swapped first, exactly as in deposit; the zapped USDC
+   * is excluded from it. The zap swap is bounded by minDepositOut only (no TWAP check), so
+   * callers should quote it with getZapQuote.
+   *
+   * @param slippageBps - Slippage tolerance for auto-swap (ignored if no swap needed)
+   * @param minDepositOut - Minimum Alpha the zap swap must return
+   */
+  @arc4.abimethod()
+  zapDeposit(slippageBps: uint64, minDepositOut: uint64): void {
+    assert(Txn.rekeyTo === Global.zeroAddress, 'rekeyTo must be zero');
+    assert(this.zapPoolAppId.value !== Uint64(0), 'Zap pool not set');
+    assert(minDepositOut >= MIN_DEPOSIT_AMOUNT, 'Deposit too small');
+    assert(this.positions(Txn.sender).exists, 'User not opted in');
+
+    const currentIndex = Txn.groupIndex;
+    assert(currentIndex >= Uint64(1), 'App call must follow asset transfer');
+
+    const zapTransfer = gtxn.AssetTransferTxn(currentIndex - Uint64(1));
+    assert(zapTransfer.xferAsset === Asset(this.yieldAsset.value), 'Must transfer yield asset');
+    assert(zapTransfer.assetReceiver === Global.currentApplicationAddress, 'Must send to contract');
+    assert(zapTransfer.sender === Txn.sender, 'Transfer must be from caller');
+
+    // SECURITY: Prevent phishing attacks - reject dangerous fields
+    assert(zapTransfer.rekeyTo === Global.zeroAddress, 'rekeyTo must be zero');
+    assert(zapTransfer.assetCloseTo === Global.zeroAddress, 'assetCloseTo must be zero');
+
+    const usdcIn = zapTransfer.assetAmount;
+    assert(usdcIn > Uint64(0), 'Zap amount is zero');
+
+    this.autoSwapBeforeDeposit(slippageBps, usdcIn);
+
+    // Swap the zapped USDC -> Alpha
+    const appAddr: Account = Global.currentApplicationAddress;
+    const alphaBefore = Asset(this.depositAsset.value).balance(appAddr);
+    itxn.submitGroup(
+      itxn.assetTransfer({
+        assetReceiver: this.zapPoolAddress.value,
+        xferAsset: Asset(this.yieldAsset.value),
+        assetAmount: usdcIn,
+        fee: Uint64(0),
+      }),
+      itxn.applicationCall({
+        appId: Application(this.zapPoolAppId.value),
+        appArgs: [Bytes('swap'), Bytes('fixed-input'), itob(minDepositOut)],
+        assets: [Asset(this.depositAsset.value)],
+        accounts: [this.zapPoolAddress.value],
+        fee: Uint64(0),
+      }),
+    );
+    const amount: uint64 = Asset(this.depositAsset.value).balance(appAddr) - alphaBefore;
+    assert(amount >= minDepositOut, 'Swap output below minimum');
+
+    emit('Zapped', Txn.sender, usdcIn, amount);
+    this.creditDeposit(Txn.sender, amount, Uint64(0));
+  }
+
+  /**
+   * Expected Alpha out of the zap pool for a USDC amount (0 when zaps are disabled)
+   */
+  @arc4.abimethod({ readonly: true })
+  getZapQuote(usdcAmount: uint64): uint64 {
+    if (this.zapPoolAppId.value === Uint64(0)) {
+      return Uint64(0);
+    }
+    return this.getPoolSwapOutput(this.zapPoolAppId.value, this.zapPoolAddress.value, this.yieldAsset.value, usdcAmount);
   }
 
   // ============================================
@@ -0,0 +1,525 @@
+// RareFiVaultFactory.algo.ts - Deploys and indexes RareFi vaults
+// Creates RareFiVault, RareFiAlphaCompoundingVault and RareFiFolksVault instances via inner app-create
+// Vault programs are uploaded by RareFi into boxes (too large to embed in the factory program)
+// Every vault created here is recorded in a box-backed registry indexed by creator, deposit asset and swap asset
+
+import {
+  GlobalState,
+  BoxMap,
+  itxn,
+  gtxn,
+  Global,
+  assert,
+  Uint64,
+  uint64,
+  Account,
+  Application,
+  arc4,
+  Txn,
+  Bytes,
+  bytes,
+  baremethod,
+  clone,
+} from '@algorandfoundation/algorand-typescript';
+import { itob } from '@algorandfoundation/algorand-typescript/op';
+
+// Vault types
+const VAULT_TYPE_RAREFI: uint64 = Uint64(1);          // RareFiVault
+const VAULT_TYPE_COMPOUNDING: uint64 = Uint64(2);     // RareFiAlphaCompoundingVault
+const VAULT_TYPE_FOLKS: uint64 = Uint64(3);           // RareFiFolksVault
+
+// Constants
+const MAX_CREATION_FEE: uint64 = Uint64(1_000_000_000); // 1000 ALGO max creation fee
+const PAGE_SIZE: uint64 = Uint64(2048);                  // Bytes per program page
+const MAX_EXTRA_PAGES: uint64 = Uint64(3);               // AVM limit (4 pages total)
+const MAX_READ_SIZE: uint64 = Uint64(4096);              // AVM max bytes value size
+
+// Minimum balance costs (µALGO) for the factory account when it creates a vault
+const APP_PAGE_MBR: uint64 = Uint64(100_000);            // Per program page (1 + extraPages)
+const GLOBAL_UINT_MBR: uint64 = Uint64(28_500);          // Per global uint64 slot
+const GLOBAL_BYTES_MBR: uint64 = Uint64(50_000);         // Per global bytes slot
+const BOX_FLAT_MBR: uint64 = Uint64(2_500);              // Per box
+const BOX_BYTE_MBR: uint64 = Uint64(400);                // Per box byte (key + value)
+
+// Registry box sizes (prefix + key + value), see registerVault
+// Keyed by vault index (not app ID) so callers can name the boxes before the vault exists
+const VAULT_BOX_BYTES: uint64 = Uint64(1 + 8 + 72);      // 'v' + index -> VaultInfo
+const CREATOR_BOX_BYTES: uint64 = Uint64(1 + 40 + 8);    // 'c' + creator + index -> appId
+const ASSET_BOX_BYTES: uint64 = Uint64(1 + 16 + 8);      // 'd'/'s' + assetId + index -> appId
+
+// Vault method selectors
+const CREATE_RAREFI_VAULT_SELECTOR: bytes = arc4.methodSelector(
+  'createVault(uint64,uint64,uint64,uint64,uint64,uint64,uint64,address,uint64,address,address)void',
+);
+const CREATE_COMPOUNDING_VAULT_SELECTOR: bytes = arc4.methodSelector(
+  'createVault(uint64,uint64,uint64,uint64,uint64,uint64,address,uint64,address,address)void',
+);
+const CREATE_FOLKS_VAULT_SELECTOR: bytes = arc4.methodSelector(
+  'createVault(uint64,uint64,uint64,uint64,address,uint64,uint64,address,uint64,uint64,uint64,address)void',
+);
+const UPDATE_CREATOR_SELECTOR: bytes = arc4.methodSelector('updateCreatorAddress(address)void');
+
+/**
+ * Registry record for a vault created by the factory
+ */
+export class VaultInfo extends arc4.Struct<{
+  vaultType: arc4.Uint64;
+  appId: arc4.Uint64;
+  creator: arc4.Address;
+  depositAsset: arc4.Uint64;
+  swapAsset: arc4.Uint64;      // Asset yield is paid in (Alpha for compounding vaults)
+  createdAt: arc4.Uint64;      // Round the vault was created
+}> {}
+
+/**
+ * State schema used when creating a vault of a given type
+ */
+export class VaultTemplate extends arc4.Struct<{
+  globalUints: arc4.Uint64;
+  globalBytes: arc4.Uint64;
+  localUints: arc4.Uint64;
+  localBytes: arc4.Uint64;
+  extraPages: arc4.Uint64;
+}> {}
+
+export class RareFiVaultFactory extends arc4.Contract {
+  // ============================================
+  // GLOBAL STATE
+  // ============================================
+
+  rarefiAddress = GlobalState<Account>();    // RareFi platform address (admin, receives creation fees)
+  creationFee = GlobalState<uint64>();       // Fee in µALGO paid to rarefiAddress per vault
+  vaultCount = GlobalState<uint64>();        // Total vaults created
+
+  // ============================================
+  // BOX STORAGE
+  // ============================================
+
+  // Vault programs, uploaded by RareFi (keyed by vault type)
+  approvalPrograms = BoxMap<uint64, bytes>({ keyPrefix: 'pa' });
+  clearPrograms = BoxMap<uint64, bytes>({ keyPrefix: 'pc' });
+  templates = BoxMap<uint64, VaultTemplate>({ keyPrefix: 'pt' });
+
+  // Registry
+  vaults = BoxMap<uint64, VaultInfo>({ keyPrefix: 'v' });             // vaultIndex -> record
+  vaultsByCreator = BoxMap<bytes, uint64>({ keyPrefix: 'c' });        // creator + vaultIndex -> appId
+  vaultsByDepositAsset = BoxMap<bytes, uint64>({ keyPrefix: 'd' });   // depositAsset + vaultIndex -> appId
+  vaultsBySwapAsset = BoxMap<bytes, uint64>({ keyPrefix: 's' });      // swapAsset + vaultIndex -> appId
+
+  // ============================================
+  // HELPER FUNCTIONS
+  // ============================================
+
+  private isValidVaultType(vaultType: uint64): boolean {
+    return vaultType === VAULT_TYPE_RAREFI || vaultType === VAULT_TYPE_COMPOUNDING || vaultType === VAULT_TYPE_FOLKS;
+  }
+
+  /**
+   * Factory MBR increase from creating one vault of this type and registering it
+   */
+  private creationCost(vaultType: uint64): uint64 {
+    const template = clone(this.templates(vaultType).value);
+
+    const appMbr: uint64 = APP_PAGE_MBR * (Uint64(1) + template.extraPages.asUint64())
+      + GLOBAL_UINT_MBR * template.globalUints.asUint64()
+      + GLOBAL_BYTES_MBR * template.globalBytes.asUint64();
+
+    const boxMbr: uint64 = BOX_FLAT_MBR * Uint64(4)
+      + BOX_BYTE_MBR * (VAULT_BOX_BYTES + CREATOR_BOX_BYTES + ASSET_BOX_BYTES + ASSET_BOX_BYTES);
+
+    return appMbr + boxMbr;
+  }
+
+  /**
+   * Verify the preceding payment covers the creation fee and MBR, then forward the fee to RareFi
+   */
+  private collectCreationPayment(vaultType: uint64): void {
+    assert(this.isValidVaultType(vaultType), 'Invalid vault type');
+    assert(this.approvalPrograms(vaultType).exists, 'Vault template not set');
+
+    const appAddr: Account = Global.currentApplicationAddress;
+    const currentIndex = Txn.groupIndex;
+    assert(currentIndex >= Uint64(1), 'App call must follow payment');
+
+    const payment = gtxn.PaymentTxn(currentIndex - Uint64(1));
+    assert(payment.receiver === appAddr, 'Payment must be to factory');
+    assert(payment.sender === Txn.sender, 'Payment must be from caller');
+    assert(payment.rekeyTo === Global.zeroAddress, 'rekeyTo must be zero');
+    assert(payment.closeRemainderTo === Global.zeroAddress, 'closeRemainderTo must be zero');
+    assert(payment.amount >= this.creationFee.value + this.creationCost(vaultType), 'Insufficient payment for fee and MBR');
+
+    if (this.creationFee.value > Uint64(0)) {
+      itxn.payment({
+        receiver: this.rarefiAddress.value,
+        amount: this.creationFee.value,
+        fee: Uint64(0),
+      }).submit();
+    }
+  }
+
+  /**
+   * First approval page (up to 4096 bytes) of a vault program
+   */
+  private approvalHead(vaultType: uint64): bytes {
+    const program = this.approvalPrograms(vaultType);
+    const size = program.length;
+    return program.extract(Uint64(0), size < MAX_READ_SIZE ? size : MAX_READ_SIZE);
+  }
+
+  /**
+   * Remaining approval bytes after the first 4096 (empty for small programs)
+   */
+  private approvalTail(vaultType: uint64): bytes {
+    const program = this.approvalPrograms(vaultType);
+    const size = program.length;
+    if (size <= MAX_READ_SIZE) {
+      return Bytes('');
+    }
+    return program.extract(MAX_READ_SIZE, size - MAX_READ_SIZE);
+  }
+
+  /**
+   * Hand the new vault over to the caller (the factory is the vault's creatorAddress after create)
+   */
+  private transferCreator(vaultAppId: uint64): void {
+    itxn.applicationCall({
+      appId: Application(vaultAppId),
+      appArgs: [UPDATE_CREATOR_SELECTOR, Txn.sender.bytes],
+      fee: Uint64(0),
+    }).submit();
+  }
+
+  /**
+   * Record the vault in the registry boxes under the next vault index
+   */
+  private registerVault(vaultAppId: uint64, vaultType: uint64, depositAsset: uint64, swapAsset: uint64): void {
+    const vaultIndex = this.vaultCount.value;
+    const indexBytes = itob(vaultIndex);
+
+    this.vaults(vaultIndex).value = new VaultInfo({
+      vaultType: new arc4.Uint64(vaultType),
+      appId: new arc4.Uint64(vaultAppId),
+      creator: new arc4.Address(Txn.sender),
+      depositAsset: new arc4.Uint64(depositAsset),
+      swapAsset: new arc4.Uint64(swapAsset),
+      createdAt: new arc4.Uint64(Global.round),
+    });
+    this.vaultsByCreator(Txn.sender.bytes.concat(indexBytes)).value = vaultAppId;
+    this.vaultsByDepositAsset(itob(depositAsset).concat(indexBytes)).value = vaultAppId;
+    this.vaultsBySwapAsset(itob(swapAsset).concat(indexBytes)).value = vaultAppId;
+
+    this.vaultCount.value = vaultIndex + Uint64(1);
+  }
+
+  // ============================================
+  // INITIALIZATION
+  // ============================================
+
+  @arc4.abimethod({ onCreate: 'require' })
+  createFactory(rarefiAddress: Account, creationFee: uint64): void {
+    assert(Txn.rekeyTo === Global.zeroAddress, 'rekeyTo must be zero');
+    assert(rarefiAddress !== Global.zeroAddress, 'Cannot set zero address');
+    assert(creationFee <= MAX_CREATION_FEE, 'Creation fee too high');
+
+    this.rarefiAddress.value = rarefiAddress;
+    this.creationFee.value = creationFee;
+    this.vaultCount.value = Uint64(0);
+  }
+
+  // ============================================
+  // TEMPLATE MANAGEMENT (RareFi only)
+  // ============================================
+
+  /**
+   * Register (or replace) the program and schema for a vault type.
+   * The approval box is allocated at approvalSize and filled with writeApprovalProgram.
+   * Factory account must hold ALGO for the template box MBR.
+   */
+  @arc4.abimethod()
+  setVaultTemplate(
+    vaultType: uint64,
+    approvalSize: uint64,
+    clearProgram: bytes,
+    globalUints: uint64,
+    globalBytes: uint64,
+    localUints: uint64,
+    localBytes: uint64,
+    extraPages: uint64,
+  ): void {
+    assert(Txn.rekeyTo === Global.zeroAddress, 'rekeyTo must be zero');
+    assert(Txn.sender === this.rarefiAddress.value, 'Only RareFi can set templates');
+    assert(this.isValidVaultType(vaultType), 'Invalid vault type');
+    assert(extraPages <= MAX_EXTRA_PAGES, 'Too many extra pages');
+    assert(approvalSize > Uint64(0), 'Empty approval program');
+    assert(clearProgram.length > Uint64(0), 'Empty clear program');
+    assert(approvalSize + clearProgram.length <= PAGE_SIZE * (Uint64(1) + extraPages), 'Program exceeds extra pages');
+
+    const approval = this.approvalPrograms(vaultType);
+    if (approval.exists) {
+      approval.delete();
+    }
+    approval.create({ size: approvalSize });
+
+    this.clearPrograms(vaultType).value = clearProgram;
+    this.templates(vaultType).value = new VaultTemplate({
+      globalUints: new arc4.Uint64(globalUints),
+      globalBytes: new arc4.Uint64(globalBytes),
+      localUints: new arc4.Uint64(localUints),
+      localBytes: new arc4.Uint64(localBytes),
+      extraPages: new arc4.Uint64(extraPages),
+    });
+  }
+
+  /**
+   * Write a chunk of a vault approval program at offset
+   */
+  @arc4.abimethod()
+  writeApprovalProgram(vaultType: uint64, offset: uint64, chunk: bytes): void {
+    assert(Txn.rekeyTo === Global.zeroAddress, 'rekeyTo must be zero');
+    assert(Txn.sender === this.rarefiAddress.value, 'Only RareFi can write programs');
+    assert(this.approvalPrograms(vaultType).exists, 'Vault template not set');
+
+    this.approvalPrograms(vaultType).replace(offset, chunk);
+  }
+
+  /**
+   * Group helper: adds box references (I/O budget) for reading vault programs. No state changes.
+   */
+  @arc4.abimethod()
+  reserveBoxBudget(): void {
+    assert(Txn.rekeyTo === Global.zeroAddress, 'rekeyTo must be zero');
+  }
+
+  // ============================================
+  // VAULT CREATION
+  // ============================================
+
+  /**
+   * Create a RareFiVault owned by the caller.
+   * Expects a preceding payment to the factory of creationFee + getCreationCost(1).
+   * Caller then funds the vault and calls its optInAssets directly.
+   *
+   * Required outer txn fee: ≥ 4000 µALGO (outer + fee payment + app create + creator handover)
+   * @returns The new vault app ID
+   */
+  @arc4.abimethod()
+  createRareFiVault(
+    depositAssetId: uint64,
+    yieldAssetId: uint64,
+    swapAssetId: uint64,
+    creatorFeeRate: uint64,
+    minSwapThreshold: uint64,
+    maxSlippageBps: uint64,
+    tinymanPoolAppId: uint64,
+    tinymanPoolAddress: Account,
+    hopPoolAppId: uint64,
+    hopPoolAddress: Account,
+  ): uint64 {
+    assert(Txn.rekeyTo === Global.zeroAddress, 'rekeyTo must be zero');
+    this.collectCreationPayment(VAULT_TYPE_RAREFI);
+
+    const template = clone(this.templates(VAULT_TYPE_RAREFI).value);
+    const vault = itxn.applicationCall({
+      approvalProgram: [this.approvalHead(VAULT_TYPE_RAREFI), this.approvalTail(VAULT_TYPE_RAREFI)],
+      clearStateProgram: this.clearPrograms(VAULT_TYPE_RAREFI).value,
+      globalNumUint: template.globalUints.asUint64(),
+      globalNumBytes: template.globalBytes.asUint64(),
+      localNumUint: template.localUints.asUint64(),
+      localNumBytes: template.localBytes.asUint64(),
+      extraProgramPages: template.extraPages.asUint64(),
+      appArgs: [
+        CREATE_RAREFI_VAULT_SELECTOR,
+        itob(depositAssetId),
+        itob(yieldAssetId),
+        itob(swapAssetId),
+        itob(creatorFeeRate),
+        itob(minSwapThreshold),
+        itob(maxSlippageBps),
+        itob(tinymanPoolAppId),
+        tinymanPoolAddress.bytes,
+        itob(hopPoolAppId),
+        hopPoolAddress.bytes,
+        this.rarefiAddress.value.bytes,
+      ],
+      fee: Uint64(0),
+    }).submit().createdApp;
+
+    this.transferCreator(vault.id);
+    this.registerVault(vault.id, VAULT_TYPE_RAREFI, depositAssetId, swapAssetId);
+    return vault.id;
+  }
+
+  /**
+   * Create a RareFiAlphaCompoundingVault owned by the caller.
+   * Registered with swapAsset = alphaAssetId (yield compounds into Alpha).
+   *
+   * Required outer txn fee: ≥ 4000 µALGO
+   * @returns The new vault app ID
+   */
+  @arc4.abimethod()
+  createCompoundingVault(
+    alphaAssetId: uint64,
+    usdcAssetId: uint64,
+    creatorFeeRate: uint64,
+    minSwapThreshold: uint64,
+    maxSlippageBps: uint64,
+    tinymanPoolAppId: uint64,
+    tinymanPoolAddress: Account,
+    hopPoolAppId: uint64,
+    hopPoolAddress: Account,
+  ): uint64 {
+    assert(Txn.rekeyTo === Global.zeroAddress, 'rekeyTo must be zero');
+    this.collectCreationPayment(VAULT_TYPE_COMPOUNDING);
+
+    const template = clone(this.templates(VAULT_TYPE_COMPOUNDING).value);
+    const vault = itxn.applicationCall({
+      approvalProgram: [this.approvalHead(VAULT_TYPE_COMPOUNDING), this.approvalTail(VAULT_TYPE_COMPOUNDING)],
+      clearStateProgram: this.clearPrograms(VAULT_TYPE_COMPOUNDING).value,
+      globalNumUint: template.globalUints.asUint64(),
+      globalNumBytes: template.globalBytes.asUint64(),
+      localNumUint: template.localUints.asUint64(),
+      localNumBytes: template.localBytes.asUint64(),
+      extraProgramPages: template.extraPages.asUint64(),
+      appArgs: [
+        CREATE_COMPOUNDING_VAULT_SELECTOR,
+        itob(alphaAssetId),
+        itob(usdcAssetId),
+        itob(creatorFeeRate),
+        itob(minSwapThreshold),
+        itob(maxSlippageBps),
+        itob(tinymanPoolAppId),
+        tinymanPoolAddress.bytes,
+        itob(hopPoolAppId),
+        hopPoolAddress.bytes,
+        this.rarefiAddress.value.bytes,
+      ],
+      fee: Uint64(0),
+    }).submit().createdApp;
+
+    this.transferCreator(vault.id);
+    this.registerVault(vault.id, VAULT_TYPE_COMPOUNDING, alphaAssetId, alphaAssetId);
+    return vault.id;
+  }
+
+  /**
+   * Create a RareFiFolksVault owned by the caller.
+   *
+   * Required outer txn fee: ≥ 4000 µALGO
+   * @returns The new vault app ID
+   */
+  @arc4.abimethod()
+  createFolksVault(
+    depositAssetId: uint64,
+    fTokenAssetId: uint64,
+    swapAssetId: uint64,
+    folksPoolAppId: uint64,
+    folksPoolAddress: Account,
+    folksPoolManagerAppId: uint64,
+    tinymanPoolAppId: uint64,
+    tinymanPoolAddress: Account,
+    creatorFeeRate: uint64,
+    minSwapThreshold: uint64,
+    maxSlippageBps: uint64,
+  ): uint64 {
+    assert(Txn.rekeyTo === Global.zeroAddress, 'rekeyTo must be zero');
+    this.collectCreationPayment(VAULT_TYPE_FOLKS);
+
+    const template = clone(this.templates(VAULT_TYPE_FOLKS).value);
+    const vault = itxn.applicationCall({
+      approvalProgram: [this.approvalHead(VAULT_TYPE_FOLKS), this.approvalTail(VAULT_TYPE_FOLKS)],
+      clearStateProgram: this.clearPrograms(VAULT_TYPE_FOLKS).value,
+      globalNumUint: template.globalUints.asUint64(),
+      globalNumBytes: template.globalBytes.asUint64(),
+      localNumUint: template.localUints.asUint64(),
+      localNumBytes: template.localBytes.asUint64(),
+      extraProgramPages: template.extraPages.asUint64(),
+      appArgs: [
+        CREATE_FOLKS_VAULT_SELECTOR,
+        itob(depositAssetId),
+        itob(fTokenAssetId),
+        itob(swapAssetId),
+        itob(folksPoolAppId),
+        folksPoolAddress.bytes,
+        itob(folksPoolManagerAppId),
+        itob(tinymanPoolAppId),
+        tinymanPoolAddress.bytes,
+        itob(creatorFeeRate),
+        itob(minSwapThreshold),
+        itob(maxSlippageBps),
+        this.rarefiAddress.value.bytes,
+      ],
+      fee: Uint64(0),
+    }).submit().createdApp;
+
+    this.transferCreator(vault.id);
+    this.registerVault(vault.id, VAULT_TYPE_FOLKS, depositAssetId, swapAssetId);
+    return vault.id;
+  }
+
+  // ============================================
+  // READ-ONLY METHODS
+  // ============================================
+
+  /**
+   * Registry record for a vault created by this factory
+   * @param vaultIndex - Sequential index (0 to vaultCount - 1)
+   */
+  @arc4.abimethod({ readonly: true })
+  getVault(vaultIndex: uint64): VaultInfo {
+    assert(this.vaults(vaultIndex).exists, 'Vault not registered');
+    return this.vaults(vaultIndex).value;
+  }
+
+  /**
+   * Total payment required to create a vault of this type (creation fee + factory MBR)
+   */
+  @arc4.abimethod({ readonly: true })
+  getCreationCost(vaultType: uint64): uint64 {
+    assert(this.isValidVaultType(vaultType), 'Invalid vault type');
+    assert(this.templates(vaultType).exists, 'Vault template not set');
+    return this.creationFee.value + this.creationCost(vaultType);
+  }
+
+  /**
+   * Get factory stats
+   * @returns [creationFee, vaultCount]
+   */
+  @arc4.abimethod({ readonly: true })
+  getFactoryStats(): [uint64, uint64] {
+    return [this.creationFee.value, this.vaultCount.value];
+  }
+
+  // ============================================
+  // ADMIN FUNCTIONS
+  // ============================================
+
+  @arc4.abimethod()
+  updateCreationFee(newCreationFee: uint64): void {
+    assert(Txn.rekeyTo === Global.zeroAddress, 'rekeyTo must be zero');
+    assert(Txn.sender === this.rarefiAddress.value, 'Only RareFi can update');
+    assert(newCreationFee <= MAX_CREATION_FEE, 'Creation fee too high');
+    this.creationFee.value = newCreationFee;
+  }
+
+  @arc4.abimethod()
+  updateRarefiAddress(newRarefiAddress: Account): void {
+    assert(Txn.rekeyTo === Global.zeroAddress, 'rekeyTo must be zero');
+    assert(Txn.sender === this.rarefiAddress.value, 'Only RareFi can update');
+    assert(newRarefiAddress !== Global.zeroAddress, 'Cannot set zero address');
+    this.rarefiAddress.value = newRarefiAddress;
+  }
+
+  // ============================================
+  // SECURITY: Prevent updates and deletion
+  // ============================================
+
+  @baremethod({ allowActions: 'UpdateApplication' })
+  updateApplication(): void {
+    assert(false, 'Contract updates disabled');
+  }
+
+  @baremethod({ allowActions: 'DeleteApplication' })
+  deleteApplication(): void {
+    assert(false, 'Contract deletion disabled');
+  }
+}
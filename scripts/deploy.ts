@@ -0,0 +1,417 @@
+/**
+ * RareFi vault deployment script
+ *
+ * Creates a vault from the compiled artifacts in contracts/artifacts/, funds it and
+ * runs optInAssets, then writes a deployment record to JSON.
+ *
+ * Usage:
+ *   npm run compile
+ *   npm run deploy -- <RareFiVault | RareFiAlphaCompoundingVault | RareFiFolksVault>
+ *
+ * The vault type can also be set with VAULT_TYPE. All other parameters are read from
+ * the environment (.env) - see .env.example.
+ */
+
+import 'dotenv/config';
+import algosdk from 'algosdk';
+import fs from 'fs';
+import path from 'path';
+
+const VAULT_TYPES = ['RareFiVault', 'RareFiAlphaCompoundingVault', 'RareFiFolksVault'] as const;
+type VaultType = (typeof VAULT_TYPES)[number];
+
+// Contract constants (validated here so misconfiguration fails before any transaction is sent)
+const MAX_FEE_RATE = 6;                  // Max 6% creator fee
+const MIN_SWAP_AMOUNT = 100_000;         // Min swap threshold (0.10 USDC)
+const MAX_SWAP_THRESHOLD = 50_000_000;   // Max swap threshold (50 USDC)
+const MIN_MAX_SLIPPAGE_BPS = 500;        // Max slippage floor (5%)
+const MAX_SLIPPAGE_BPS = 10_000;         // Max slippage ceiling (100%)
+const PAGE_SIZE = 2048;                  // Bytes per program page
+
+// ALGO sent with optInAssets (covers account MBR + asset opt-ins) and assets opted into
+const SETUP_PAYMENT: Record<VaultType, number> = {
+  RareFiVault: 5_500_000,                 // 5.5 ALGO
+  RareFiAlphaCompoundingVault: 5_400_000, // 5.4 ALGO
+  RareFiFolksVault: 5_500_000,            // 5.5 ALGO
+};
+const SHARE_TOKEN_SETUP_PAYMENT = 5_500_000; // 5.5 ALGO (compounding vault + 0.1 ALGO share ASA MBR)
+
+const ARTIFACTS_DIR = path.resolve(__dirname, '../contracts/artifacts');
+const DEFAULT_OUTPUT_DIR = path.resolve(__dirname, '../deployments');
+
+interface VaultConfig {
+  methodArgs: (number | string)[];
+  params: Record<string, number | string>;
+  optInAssets: number[];
+  tokenizedShares?: boolean;  // Compounding vault: mint a share ASA (optInAssetsWithShareToken)
+}
+
+export interface DeploymentRecord {
+  vaultType: VaultType;
+  appId: number;
+  appAddress: string;
+  creator: string;
+  algodServer: string;
+  createTxId: string;
+  optInTxId: string;
+  params: Record<string, number | string>;
+  deployedAt: string;
+}
+
+// ============================================
+// ENVIRONMENT PARSING
+// ============================================
+
+function readEnv(name: string): string | undefined {
+  const value = process.env[name]?.trim();
+  return value ? value : undefined;
+}
+
+function requireEnv(name: string): string {
+  const value = readEnv(name);
+  if (value === undefined) {
+    throw new Error(`${name} is not set`);
+  }
+  return value;
+}
+
+function parseUint(name: string, options: { min?: number; max?: number; default?: number } = {}): number {
+  const raw = readEnv(name);
+  if (raw === undefined) {
+    if (options.default !== undefined) return options.default;
+    throw new Error(`${name} is not set`);
+  }
+  if (!/^\d+$/.test(raw)) {
+    throw new Error(`${name} must be a non-negative integer (got "${raw}")`);
+  }
+  const value = Number(raw);
+  if (!Number.isSafeInteger(value)) {
+    throw new Error(`${name} is too large (got "${raw}")`);
+  }
+  if (options.min !== undefined && value < options.min) {
+    throw new Error(`${name} must be >= ${options.min} (got ${value})`);
+  }
+  if (options.max !== undefined && value > options.max) {
+    throw new Error(`${name} must be <= ${options.max} (got ${value})`);
+  }
+  return value;
+}
+
+function parseBool(name: string): boolean {
+  const raw = readEnv(name);
+  if (raw === undefined || raw === 'false') return false;
+  if (raw === 'true') return true;
+  throw new Error(`${name} must be true or false (got "${raw}")`);
+}
+
+function parseId(name: string): number {
+  return parseUint(name, { min: 1 });
+}
+
+function parseAddress(name: string, defaultValue?: string): string {
+  const value = readEnv(name) ?? defaultValue;
+  if (value === undefined) {
+    throw new Error(`${name} is not set`);
+  }
+  if (!algosdk.isValidAddress(value)) {
+    throw new Error(`${name} is not a valid Algorand address (got "${value}")`);
+  }
+  return value;
+}
+
+function assertDistinct(ids: Record<string, number>): void {
+  const names = Object.keys(ids);
+  for (let i = 0; i < names.length; i++) {
+    for (let j = i + 1; j < names.length; j++) {
+      if (ids[names[i]] === ids[names[j]]) {
+        throw new Error(`${names[i]} and ${names[j]} must be different assets`);
+      }
+    }
+  }
+}
+
+function parseVaultType(argv: string[]): VaultType {
+  const value = argv[2] ?? readEnv('VAULT_TYPE');
+  if (value === undefined) {
+    throw new Error(`Vault type required: npm run deploy -- <${VAULT_TYPES.join(' | ')}>`);
+  }
+  if (!(VAULT_TYPES as readonly string[]).includes(value)) {
+    throw new Error(`Unknown vault type "${value}" (expected one of ${VAULT_TYPES.join(', ')})`);
+  }
+  return value as VaultType;
+}
+
+/**
+ * Settings shared by all vault types, validated against the contract bounds
+ */
+function parseCommonConfig(deployerAddress: string) {
+  return {
+    creatorFeeRate: parseUint('CREATOR_FEE_RATE', { max: MAX_FEE_RATE }),
+    minSwapThreshold: parseUint('MIN_SWAP_THRESHOLD', { min: MIN_SWAP_AMOUNT, max: MAX_SWAP_THRESHOLD }),
+    maxSlippageBps: parseUint('MAX_SLIPPAGE_BPS', { min: MIN_MAX_SLIPPAGE_BPS, max: MAX_SLIPPAGE_BPS, default: 1000 }),
+    tinymanPoolAppId: parseId('TINYMAN_POOL_APP_ID'),
+    tinymanPoolAddress: parseAddress('TINYMAN_POOL_ADDRESS'),
+    rarefiAddress: parseAddress('RAREFI_ADDRESS', deployerAddress),
+  };
+}
+
+/**
+ * Optional second Tinyman pool (ALGO/output asset) for tokens without a USDC pair.
+ * When set, TINYMAN_POOL_APP_ID must be the USDC/ALGO pool.
+ */
+function parseHopPoolConfig() {
+  const hopPoolAppId = parseUint('HOP_POOL_APP_ID', { default: 0 });
+  return {
+    hopPoolAppId,
+    hopPoolAddress: hopPoolAppId === 0 ? algosdk.ALGORAND_ZERO_ADDRESS_STRING : parseAddress('HOP_POOL_ADDRESS'),
+  };
+}
+
+/**
+ * Build createVault arguments in each contract's parameter order
+ */
+export function buildVaultConfig(vaultType: VaultType, deployerAddress: string): VaultConfig {
+  const common = parseCommonConfig(deployerAddress);
+
+  switch (vaultType) {
+    case 'RareFiVault': {
+      const depositAssetId = parseId('DEPOSIT_ASSET_ID');
+      const yieldAssetId = parseId('YIELD_ASSET_ID');
+      const swapAssetId = parseId('SWAP_ASSET_ID');
+      assertDistinct({ DEPOSIT_ASSET_ID: depositAssetId, YIELD_ASSET_ID: yieldAssetId, SWAP_ASSET_ID: swapAssetId });
+      const hop = parseHopPoolConfig();
+
+      return {
+        methodArgs: [
+          depositAssetId,
+          yieldAssetId,
+          swapAssetId,
+          common.creatorFeeRate,
+          common.minSwapThreshold,
+          common.maxSlippageBps,
+          common.tinymanPoolAppId,
+          common.tinymanPoolAddress,
+          hop.hopPoolAppId,
+          hop.hopPoolAddress,
+          common.rarefiAddress,
+        ],
+        params: { depositAssetId, yieldAssetId, swapAssetId, ...common, ...hop },
+        optInAssets: [depositAssetId, yieldAssetId, swapAssetId],
+      };
+    }
+
+    case 'RareFiAlphaCompoundingVault': {
+      // Alpha is deposited and compounded; USDC is the yield asset
+      const alphaAssetId = parseId('DEPOSIT_ASSET_ID');
+      const usdcAssetId = parseId('YIELD_ASSET_ID');
+      assertDistinct({ DEPOSIT_ASSET_ID: alphaAssetId, YIELD_ASSET_ID: usdcAssetId });
+      const tokenizedShares = parseBool('TOKENIZED_SHARES');
+      const hop = parseHopPoolConfig();
+
+      return {
+        methodArgs: [
+          alphaAssetId,
+          usdcAssetId,
+          common.creatorFeeRate,
+          common.minSwapThreshold,
+          common.maxSlippageBps,
+          common.tinymanPoolAppId,
+          common.tinymanPoolAddress,
+          hop.hopPoolAppId,
+          hop.hopPoolAddress,
+          common.rarefiAddress,
+        ],
+        params: { alphaAssetId, usdcAssetId, ...common, ...hop },
+        optInAssets: [alphaAssetId, usdcAssetId],
+        tokenizedShares,
+      };
+    }
+
+    case 'RareFiFolksVault': {
+      const depositAssetId = parseId('DEPOSIT_ASSET_ID');
+      const fTokenAssetId = parseId('FTOKEN_ASSET_ID');
+      const swapAssetId = parseId('SWAP_ASSET_ID');
+      assertDistinct({ DEPOSIT_ASSET_ID: depositAssetId, FTOKEN_ASSET_ID: fTokenAssetId, SWAP_ASSET_ID: swapAssetId });
+
+      const folksPoolAppId = parseId('FOLKS_POOL_APP_ID');
+      // Folks pools hold deposits in their application account
+      const folksPoolAddress = parseAddress(
+        'FOLKS_POOL_ADDRESS',
+        algosdk.getApplicationAddress(folksPoolAppId).toString(),
+      );
+      const folksPoolManagerAppId = parseId('FOLKS_POOL_MANAGER_APP_ID');
+
+      return {
+        methodArgs: [
+          depositAssetId,
+          fTokenAssetId,
+          swapAssetId,
+          folksPoolAppId,
+          folksPoolAddress,
+          folksPoolManagerAppId,
+          common.tinymanPoolAppId,
+          common.tinymanPoolAddress,
+          common.creatorFeeRate,
+          common.minSwapThreshold,
+          common.maxSlippageBps,
+          common.rarefiAddress,
+        ],
+        params: { depositAssetId, fTokenAssetId, swapAssetId, folksPoolAppId, folksPoolAddress, folksPoolManagerAppId, ...common },
+        optInAssets: [depositAssetId, fTokenAssetId, swapAssetId],
+      };
+    }
+  }
+}
+
+// ============================================
+// DEPLOYMENT
+// ============================================
+
+async function compileVault(algod: algosdk.Algodv2, vaultType: VaultType) {
+  const approvalPath = path.join(ARTIFACTS_DIR, `${vaultType}.approval.teal`);
+  const clearPath = path.join(ARTIFACTS_DIR, `${vaultType}.clear.teal`);
+  const arc56Path = path.join(ARTIFACTS_DIR, `${vaultType}.arc56.json`);
+
+  for (const file of [approvalPath, clearPath, arc56Path]) {
+    if (!fs.existsSync(file)) {
+      throw new Error(`Artifact not found: ${file}. Run 'npm run compile' first.`);
+    }
+  }
+
+  const arc56Spec = JSON.parse(fs.readFileSync(arc56Path, 'utf8'));
+  const approvalResponse = await algod.compile(fs.readFileSync(approvalPath, 'utf8')).do();
+  const clearResponse = await algod.compile(fs.readFileSync(clearPath, 'utf8')).do();
+
+  const approvalProgram = new Uint8Array(Buffer.from(approvalResponse.result, 'base64'));
+  const clearProgram = new Uint8Array(Buffer.from(clearResponse.result, 'base64'));
+  const extraPages = Math.ceil((approvalProgram.length + clearProgram.length) / PAGE_SIZE) - 1;
+
+  return { approvalProgram, clearProgram, arc56Spec, extraPages };
+}
+
+export async function deployVault(
+  algod: algosdk.Algodv2,
+  deployer: algosdk.Account,
+  vaultType: VaultType,
+  config: VaultConfig,
+): Promise<Omit<DeploymentRecord, 'algodServer' | 'deployedAt'>> {
+  const deployerAddr = deployer.addr.toString();
+  const signer = algosdk.makeBasicAccountTransactionSigner(deployer);
+  const { approvalProgram, clearProgram, arc56Spec, extraPages } = await compileVault(algod, vaultType);
+  const contract = new algosdk.ABIContract(arc56Spec);
+  const schema = arc56Spec.state.schema;
+
+  // Step 1: Create the vault
+  const createAtc = new algosdk.AtomicTransactionComposer();
+  createAtc.addMethodCall({
+    appID: 0,
+    method: contract.getMethodByName('createVault'),
+    methodArgs: config.methodArgs,
+    sender: deployerAddr,
+    signer,
+    suggestedParams: { ...(await algod.getTransactionParams().do()), fee: 1000, flatFee: true },
+    approvalProgram,
+    clearProgram,
+    numGlobalInts: schema.global.ints,
+    numGlobalByteSlices: schema.global.bytes,
+    numLocalInts: schema.local.ints,
+    numLocalByteSlices: schema.local.bytes,
+    extraPages,
+  });
+
+  const createResult = await createAtc.execute(algod, 5);
+  const createTxId = createResult.txIDs[0];
+  const confirmedTxn = await algod.pendingTransactionInformation(createTxId).do();
+  const appId = Number(confirmedTxn.applicationIndex);
+  const appAddress = algosdk.getApplicationAddress(appId).toString();
+  console.log(`Created ${vaultType}: app ${appId} (${appAddress})`);
+
+  // Step 2: Fund the vault and opt into its assets (minting the share ASA in tokenized mode)
+  const tokenizedShares = config.tokenizedShares ?? false;
+  const setupPayment = tokenizedShares ? SHARE_TOKEN_SETUP_PAYMENT : SETUP_PAYMENT[vaultType];
+  const innerTxns = config.optInAssets.length + (tokenizedShares ? 1 : 0); // 1 per asset opt-in (+ share ASA creation)
+
+  const suggestedParams = await algod.getTransactionParams().do();
+  const paymentTxn = algosdk.makePaymentTxnWithSuggestedParamsFromObject({
+    sender: deployerAddr,
+    receiver: appAddress,
+    amount: setupPayment,
+    suggestedParams: { ...suggestedParams, fee: 1000, flatFee: true },
+  });
+
+  const optInAtc = new algosdk.AtomicTransactionComposer();
+  optInAtc.addTransaction({ txn: paymentTxn, signer });
+  optInAtc.addMethodCall({
+    appID: appId,
+    method: contract.getMethodByName(tokenizedShares ? 'optInAssetsWithShareToken' : 'optInAssets'),
+    methodArgs: [],
+    sender: deployerAddr,
+    signer,
+    suggestedParams: { ...suggestedParams, fee: 1000 * (1 + innerTxns), flatFee: true },
+    appForeignAssets: config.optInAssets,
+  });
+
+  const optInResult = await optInAtc.execute(algod, 5);
+  const optInTxId = optInResult.txIDs[1];
+  console.log(`Funded vault with ${setupPayment / 1_000_000} ALGO and opted into assets ${config.optInAssets.join(', ')}`);
+
+  const params = { ...config.params };
+  if (tokenizedShares) {
+    params.shareAssetId = Number(optInResult.methodResults[0].returnValue);
+    console.log(`Minted share ASA ${params.shareAssetId}`);
+  }
+
+  return {
+    vaultType,
+    appId,
+    appAddress,
+    creator: deployerAddr,
+    createTxId,
+    optInTxId,
+    params,
+  };
+}
+
+function writeDeploymentRecord(record: DeploymentRecord): string {
+  const outputPath = readEnv('DEPLOYMENT_OUTPUT')
+    ?? path.join(DEFAULT_OUTPUT_DIR, `${record.vaultType}-${record.appId}.json`);
+
+  fs.mkdirSync(path.dirname(outputPath), { recursive: true });
+  fs.writeFileSync(outputPath, JSON.stringify(record, null, 2) + '\n');
+  return outputPath;
+}
+
+async function main(): Promise<void> {
+  const vaultType = parseVaultType(process.argv);
+
+  const algodServer = requireEnv('ALGOD_SERVER');
+  const algod = new algosdk.Algodv2(readEnv('ALGOD_TOKEN') ?? '', algodServer, readEnv('ALGOD_PORT') ?? '');
+
+  const mnemonic = requireEnv('DEPLOYER_MNEMONIC');
+  let deployer: algosdk.Account;
+  try {
+    deployer = algosdk.mnemonicToSecretKey(mnemonic);
+  } catch (err) {
+    throw new Error(`DEPLOYER_MNEMONIC is invalid: ${(err as Error).message}`);
+  }
+
+  // Validate everything before sending transactions
+  const config = buildVaultConfig(vaultType, deployer.addr.toString());
+
+  console.log(`Deploying ${vaultType} from ${deployer.addr.toString()} via ${algodServer}`);
+  const result = await deployVault(algod, deployer, vaultType, config);
+
+  const outputPath = writeDeploymentRecord({
+    ...result,
+    algodServer,
+    deployedAt: new Date().toISOString(),
+  });
+  console.log(`Deployment record written to ${outputPath}`);
+}
+
+if (require.main === module) {
+  main().catch((err) => {
+    console.error(`Deployment failed: ${err instanceof Error ? err.message : err}`);
+    process.exit(1);
+  });
+}
@@ -0,0 +1,89 @@
+/**
+ * RareFi vault indexer
+ *
+ * Syncs a vault's deposit/withdraw/claim/swap history from an indexer into a SQLite
+ * file and prints per-user principal, claimed yield and realized APY. Re-running
+ * resumes from the last indexed round.
+ *
+ * Usage:
+ *   npm run index-vault -- <RareFiVault | RareFiAlphaCompoundingVault | RareFiFolksVault> <appId>
+ *
+ * INDEXER_SERVER / INDEXER_PORT / INDEXER_TOKEN select the indexer (default: localnet),
+ * INDEXER_DB the SQLite file (default: indexer.sqlite). For RareFiVault set
+ * DEPOSIT_ASSET_PRICE (USDC per Alpha) so claimed yield can be valued in Alpha.
+ */
+
+import 'dotenv/config';
+import algosdk from 'algosdk';
+import { VaultIndexer, VaultType, openIndexerDatabase, saveIndexerDatabase } from '../src/indexer';
+
+const VAULT_TYPES: VaultType[] = ['RareFiVault', 'RareFiAlphaCompoundingVault', 'RareFiFolksVault'];
+
+// Localnet defaults
+const DEFAULT_INDEXER_SERVER = 'http://localhost';
+const DEFAULT_INDEXER_PORT = '8980';
+const DEFAULT_INDEXER_TOKEN = 'aaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaa';
+const DEFAULT_DB_PATH = 'indexer.sqlite';
+
+function readEnv(name: string): string | undefined {
+  const value = process.env[name]?.trim();
+  return value ? value : undefined;
+}
+
+function parseArgs(argv: string[]): { vaultType: VaultType; appId: number } {
+  const vaultType = argv[2] ?? readEnv('VAULT_TYPE');
+  const appId = argv[3] ?? readEnv('VAULT_APP_ID');
+  if (vaultType === undefined || appId === undefined) {
+    throw new Error(`Usage: npm run index-vault -- <${VAULT_TYPES.join(' | ')}> <appId>`);
+  }
+  if (!(VAULT_TYPES as string[]).includes(vaultType)) {
+    throw new Error(`Unknown vault type "${vaultType}" (expected one of ${VAULT_TYPES.join(', ')})`);
+  }
+  if (!/^\d+$/.test(appId) || Number(appId) === 0) {
+    throw new Error(`App ID must be a positive integer (got "${appId}")`);
+  }
+  return { vaultType: vaultType as VaultType, appId: Number(appId) };
+}
+
+function parsePrice(): number {
+  const raw = readEnv('DEPOSIT_ASSET_PRICE');
+  if (raw === undefined) return 1;
+  const price = Number(raw);
+  if (!(price > 0)) {
+    throw new Error(`DEPOSIT_ASSET_PRICE must be a positive number (got "${raw}")`);
+  }
+  return price;
+}
+
+async function main(): Promise<void> {
+  const { vaultType, appId } = parseArgs(process.argv);
+  const dbPath = readEnv('INDEXER_DB') ?? DEFAULT_DB_PATH;
+
+  const indexer = new algosdk.Indexer(
+    readEnv('INDEXER_TOKEN') ?? DEFAULT_INDEXER_TOKEN,
+    readEnv('INDEXER_SERVER') ?? DEFAULT_INDEXER_SERVER,
+    readEnv('INDEXER_PORT') ?? DEFAULT_INDEXER_PORT,
+  );
+  const db = await openIndexerDatabase(dbPath);
+  const vaultIndexer = new VaultIndexer({ indexer, db, appId, vaultType, depositAssetPrice: parsePrice() });
+
+  const result = await vaultIndexer.sync();
+  saveIndexerDatabase(db, dbPath);
+  console.log(`Indexed ${result.actions} new ${vaultType} ${appId} calls (next round ${result.nextRound}) into ${dbPath}`);
+
+  console.table(
+    vaultIndexer.getUserRecords().map((u) => ({
+      address: u.address,
+      principal: u.principal,
+      yieldClaimed: u.yieldClaimed,
+      realizedApy: u.realizedApy === null ? '-' : `${(u.realizedApy * 100).toFixed(2)}%`,
+    })),
+  );
+}
+
+if (require.main === module) {
+  main().catch((err) => {
+    console.error(`Indexing failed: ${err instanceof Error ? err.message : err}`);
+    process.exit(1);
+  });
+}
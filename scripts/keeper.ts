@@ -0,0 +1,141 @@
+/**
+ * RareFi keeper
+ *
+ * Polls the configured vaults and calls swapYield / compoundYield / harvestAll
+ * when enough yield has accumulated and the pool price is acceptable.
+ *
+ * Usage:
+ *   npm run keeper -- <config.json> [--once]
+ *
+ * Config file:
+ *   {
+ *     "intervalSeconds": 60,
+ *     "vaults": [
+ *       { "type": "RareFiVault", "appId": 123, "slippageBps": 100, "maxPriceImpactBps": 200 },
+ *       { "type": "RareFiFolksVault", "appId": 456, "slippageBps": 100, "maxPriceImpactBps": 300, "minHarvestFTokens": "1000000" }
+ *     ]
+ *   }
+ *
+ * `minYield` / `minHarvestFTokens` are optional (strings or numbers), as is
+ * `maxObservationAgeSeconds` (Folks only). ALGOD_SERVER /
+ * ALGOD_PORT / ALGOD_TOKEN select the node and KEEPER_MNEMONIC the account that pays fees.
+ */
+
+import 'dotenv/config';
+import algosdk from 'algosdk';
+import fs from 'fs';
+import { CompoundingVaultClient, FolksVaultClient, RareFiVaultClient, VaultClientOptions } from '../src/client';
+import { KeeperClient, KeeperRunResult, KeeperVaultConfig, VaultKeeper } from '../src/keeper';
+
+const DEFAULT_INTERVAL_SECONDS = 60;
+
+interface KeeperFileVault {
+  type: 'RareFiVault' | 'RareFiAlphaCompoundingVault' | 'RareFiFolksVault';
+  appId: number;
+  label?: string;
+  slippageBps: number;
+  maxPriceImpactBps: number;
+  minYield?: string | number;
+  minHarvestFTokens?: string | number;
+  maxObservationAgeSeconds?: number;
+}
+
+interface KeeperFile {
+  intervalSeconds?: number;
+  vaults: KeeperFileVault[];
+}
+
+function readEnv(name: string): string | undefined {
+  const value = process.env[name]?.trim();
+  return value ? value : undefined;
+}
+
+function requireEnv(name: string): string {
+  const value = readEnv(name);
+  if (value === undefined) {
+    throw new Error(`${name} is not set`);
+  }
+  return value;
+}
+
+function makeClient(type: KeeperFileVault['type'], options: VaultClientOptions): KeeperClient {
+  switch (type) {
+    case 'RareFiVault':
+      return new RareFiVaultClient(options);
+    case 'RareFiAlphaCompoundingVault':
+      return new CompoundingVaultClient(options);
+    case 'RareFiFolksVault':
+      return new FolksVaultClient(options);
+    default:
+      throw new Error(`Unknown vault type "${type}"`);
+  }
+}
+
+function loadConfig(path: string, algod: algosdk.Algodv2, keeper: algosdk.Account): { intervalSeconds: number; vaults: KeeperVaultConfig[] } {
+  const file = JSON.parse(fs.readFileSync(path, 'utf8')) as KeeperFile;
+  if (!Array.isArray(file.vaults) || file.vaults.length === 0) {
+    throw new Error(`${path} must list at least one vault`);
+  }
+
+  const signer = algosdk.makeBasicAccountTransactionSigner(keeper);
+  const vaults = file.vaults.map((v) => {
+    if (!(v.slippageBps >= 0 && v.slippageBps <= 10_000) || !(v.maxPriceImpactBps >= 0 && v.maxPriceImpactBps <= 10_000)) {
+      throw new Error(`Vault ${v.appId}: slippageBps and maxPriceImpactBps must be between 0 and 10000`);
+    }
+    return {
+      client: makeClient(v.type, { algod, appId: v.appId, sender: keeper.addr, signer }),
+      label: v.label ?? `${v.type} ${v.appId}`,
+      slippageBps: v.slippageBps,
+      maxPriceImpactBps: v.maxPriceImpactBps,
+      minYield: v.minYield !== undefined ? BigInt(v.minYield) : undefined,
+      minHarvestFTokens: v.minHarvestFTokens !== undefined ? BigInt(v.minHarvestFTokens) : undefined,
+      maxObservationAgeSeconds: v.maxObservationAgeSeconds,
+    };
+  });
+
+  return { intervalSeconds: file.intervalSeconds ?? DEFAULT_INTERVAL_SECONDS, vaults };
+}
+
+function logRound(results: KeeperRunResult[]): void {
+  for (const r of results) {
+    const status = r.error ? `FAILED: ${r.error}` : r.result ? `${r.action} confirmed in round ${r.result.confirmedRound}` : 'skipped';
+    console.log(`[${new Date().toISOString()}] ${r.label}: ${r.reason} - ${status}`);
+  }
+}
+
+async function main(): Promise<void> {
+  const configPath = process.argv[2];
+  if (configPath === undefined) {
+    throw new Error('Usage: npm run keeper -- <config.json> [--once]');
+  }
+
+  const algod = new algosdk.Algodv2(readEnv('ALGOD_TOKEN') ?? '', requireEnv('ALGOD_SERVER'), readEnv('ALGOD_PORT') ?? '');
+  let keeperAccount: algosdk.Account;
+  try {
+    keeperAccount = algosdk.mnemonicToSecretKey(requireEnv('KEEPER_MNEMONIC'));
+  } catch (err) {
+    throw new Error(`KEEPER_MNEMONIC is invalid: ${(err as Error).message}`);
+  }
+
+  const { intervalSeconds, vaults } = loadConfig(configPath, algod, keeperAccount);
+  const keeper = new VaultKeeper(vaults);
+
+  if (process.argv.includes('--once')) {
+    logRound(await keeper.runOnce());
+    return;
+  }
+
+  console.log(`Keeper ${keeperAccount.addr.toString()} watching ${vaults.length} vault(s) every ${intervalSeconds}s`);
+  keeper.start(intervalSeconds * 1000, logRound);
+  process.on('SIGINT', () => {
+    keeper.stop();
+    process.exit(0);
+  });
+}
+
+if (require.main === module) {
+  main().catch((err) => {
+    console.error(`Keeper failed: ${err instanceof Error ? err.message : err}`);
+    process.exit(1);
+  });
+}
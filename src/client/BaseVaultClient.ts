@@ -0,0 +1,461 @@
+import algosdk from 'algosdk';
+import { decodeVaultEvents, VaultEventSpec } from './events';
+import { ExitFee, FarmSchedule, FarmStats, LockTier, PauseState, PriceOracle, VaultCallResult, VaultClientOptions, VaultGlobalState } from './types';
+
+const MIN_TXN_FEE = 1000; // µALGO per transaction, paid by the outer call for all inner txns
+
+const SHARED_METHODS = {
+  optIn: algosdk.ABIMethod.fromSignature('optIn()void'),
+  claimCreator: algosdk.ABIMethod.fromSignature('claimCreator()void'),
+  contributeFarm: algosdk.ABIMethod.fromSignature('contributeFarm()void'),
+  contributeFarmSchedule: algosdk.ABIMethod.fromSignature('contributeFarmSchedule(uint64,uint64)void'),
+  setEmissionRatio: algosdk.ABIMethod.fromSignature('setEmissionRatio(uint64)void'),
+  updateMinSwapThreshold: algosdk.ABIMethod.fromSignature('updateMinSwapThreshold(uint64)void'),
+  updateMaxSlippage: algosdk.ABIMethod.fromSignature('updateMaxSlippage(uint64)void'),
+  updateCreatorFeeRate: algosdk.ABIMethod.fromSignature('updateCreatorFeeRate(uint64)void'),
+  updateCreatorAddress: algosdk.ABIMethod.fromSignature('updateCreatorAddress(address)void'),
+  updateRarefiAddress: algosdk.ABIMethod.fromSignature('updateRarefiAddress(address)void'),
+  getFarmStats: algosdk.ABIMethod.fromSignature('getFarmStats()(uint64,uint64,uint64,uint64,uint64)'),
+  pause: algosdk.ABIMethod.fromSignature('pause(uint64)void'),
+  unpause: algosdk.ABIMethod.fromSignature('unpause()void'),
+  updateGuardian: algosdk.ABIMethod.fromSignature('updateGuardian(address)void'),
+  getPauseState: algosdk.ABIMethod.fromSignature('getPauseState()(uint64,uint64,uint64)'),
+  updateMaxPriceDeviation: algosdk.ABIMethod.fromSignature('updateMaxPriceDeviation(uint64)void'),
+  getPriceOracle: algosdk.ABIMethod.fromSignature('getPriceOracle()(uint64,uint64,uint64,uint64)'),
+  setLockTier: algosdk.ABIMethod.fromSignature('setLockTier(uint64,uint64,uint64)void'),
+  releaseLock: algosdk.ABIMethod.fromSignature('releaseLock(address)void'),
+  setExitFee: algosdk.ABIMethod.fromSignature('setExitFee(uint64,uint64)void'),
+  getExitFee: algosdk.ABIMethod.fromSignature('getExitFee(address)(uint64,uint64,uint64)'),
+};
+
+const FARM_SCHEDULES_TYPE = algosdk.ABIType.from('(uint64,uint64,uint64,uint64)[3]');
+
+// Global state layout of the lock tiers (duration 0 = empty slot)
+const LOCK_TIERS_TYPE = algosdk.ABIType.from('(uint64,uint64)[3]');
+
+/**
+ * Foreign references for an app call
+ */
+export interface CallResources {
+  assets?: (number | bigint)[];
+  apps?: (number | bigint)[];
+  accounts?: string[];
+  boxes?: Uint8Array[]; // Box names in this vault
+  appBoxes?: { appIndex: bigint; name: Uint8Array }[]; // Boxes in other apps (e.g. a successor vault)
+}
+
+/**
+ * Shared plumbing for the vault clients: global state decoding, fee pooling,
+ * group building and readonly simulation.
+ *
+ * Subclasses decode their own config from global state and declare how many
+ * inner transactions each method can issue; the outer call pays for all of them.
+ */
+export abstract class BaseVaultClient<TConfig> {
+  readonly algod: algosdk.Algodv2;
+  readonly appId: bigint;
+  readonly appAddress: string;
+  readonly sender: string;
+  protected readonly signer: algosdk.TransactionSigner;
+  private readonly waitRounds: number;
+  private config?: TConfig;
+
+  constructor(options: VaultClientOptions) {
+    this.algod = options.algod;
+    this.appId = BigInt(options.appId);
+    this.appAddress = algosdk.getApplicationAddress(this.appId).toString();
+    this.sender = options.sender.toString();
+    this.signer = options.signer;
+    this.waitRounds = options.waitRounds ?? 5;
+  }
+
+  /**
+   * Decode vault configuration (asset and pool IDs) from global state
+   */
+  protected abstract parseConfig(state: VaultGlobalState): TConfig;
+
+  /**
+   * Asset used for creator fees and farm contributions
+   */
+  protected abstract rewardAssetId(config: TConfig): bigint;
+
+  /**
+   * MBR of a user's position box, paid to the vault on opt-in and refunded on close-out
+   */
+  protected abstract positionMbr(): number;
+
+  /**
+   * ARC-28 events this vault emits, used to decode call logs
+   */
+  protected abstract eventSpecs(): VaultEventSpec[];
+
+  /**
+   * Name of a user's position box: 'p' + 32-byte address
+   */
+  positionBoxName(user: string = this.sender): Uint8Array {
+    return new Uint8Array([...new TextEncoder().encode('p'), ...algosdk.decodeAddress(user).publicKey]);
+  }
+
+  /**
+   * Name of a user's claim settings box (RareFiVault and RareFiFolksVault): 'c' + 32-byte address
+   */
+  claimSettingsBoxName(user: string = this.sender): Uint8Array {
+    return new Uint8Array([...new TextEncoder().encode('c'), ...algosdk.decodeAddress(user).publicKey]);
+  }
+
+  /**
+   * Boxes releaseLock reads and writes for a user
+   */
+  protected lockBoxes(user: string): Uint8Array[] {
+    return [this.positionBoxName(user)];
+  }
+
+  // ============================================
+  // STATE
+  // ============================================
+
+  async getGlobalState(): Promise<VaultGlobalState> {
+    const appInfo = await this.algod.getApplicationByID(this.appId).do();
+    const state: VaultGlobalState = {};
+
+    for (const kv of appInfo.params.globalState ?? []) {
+      const key = new TextDecoder().decode(kv.key);
+      if (kv.value.type === 2) {
+        state[key] = BigInt(kv.value.uint);
+      } else if (kv.value.bytes.length === 32) {
+        state[key] = algosdk.encodeAddress(kv.value.bytes);
+      }
+    }
+
+    return state;
+  }
+
+  /**
+   * Raw bytes of a global state key that getGlobalState does not decode (undefined if absent)
+   */
+  protected async getGlobalBytes(key: string): Promise<Uint8Array | undefined> {
+    const appInfo = await this.algod.getApplicationByID(this.appId).do();
+    const kv = (appInfo.params.globalState ?? []).find((entry) => new TextDecoder().decode(entry.key) === key);
+    return kv && kv.value.type === 1 ? kv.value.bytes : undefined;
+  }
+
+  /**
+   * Vault configuration, read once from global state and cached
+   */
+  async getConfig(): Promise<TConfig> {
+    if (!this.config) {
+      this.config = this.parseConfig(await this.getGlobalState());
+    }
+    return this.config;
+  }
+
+  /**
+   * Re-read configuration after an admin call changes it
+   */
+  async refreshConfig(): Promise<TConfig> {
+    this.config = undefined;
+    return this.getConfig();
+  }
+
+  protected static uint(state: VaultGlobalState, key: string): bigint {
+    const value = state[key];
+    if (typeof value !== 'bigint') {
+      throw new Error(`Global state key '${key}' missing or not a uint64`);
+    }
+    return value;
+  }
+
+  protected static address(state: VaultGlobalState, key: string): string {
+    const value = state[key];
+    if (typeof value !== 'string') {
+      throw new Error(`Global state key '${key}' missing or not an address`);
+    }
+    return value;
+  }
+
+  // ============================================
+  // GROUP BUILDING
+  // ============================================
+
+  /**
+   * Asset transfer from the sender to the vault, for methods that expect a preceding axfer
+   */
+  protected async assetTransfer(assetId: bigint, amount: number | bigint): Promise<algosdk.TransactionWithSigner> {
+    const suggestedParams = await this.algod.getTransactionParams().do();
+    const txn = algosdk.makeAssetTransferTxnWithSuggestedParamsFromObject({
+      sender: this.sender,
+      receiver: this.appAddress,
+      amount,
+      assetIndex: assetId,
+      suggestedParams: { ...suggestedParams, fee: MIN_TXN_FEE, flatFee: true },
+    });
+    return { txn, signer: this.signer };
+  }
+
+  /**
+   * ALGO payment from the sender to the vault, for methods that expect a preceding payment
+   */
+  protected async payment(amount: number | bigint): Promise<algosdk.TransactionWithSigner> {
+    const suggestedParams = await this.algod.getTransactionParams().do();
+    const txn = algosdk.makePaymentTxnWithSuggestedParamsFromObject({
+      sender: this.sender,
+      receiver: this.appAddress,
+      amount,
+      suggestedParams: { ...suggestedParams, fee: MIN_TXN_FEE, flatFee: true },
+    });
+    return { txn, signer: this.signer };
+  }
+
+  /**
+   * Add a vault method call whose fee covers itself plus `innerTxns` inner transactions
+   */
+  protected async addCall(
+    atc: algosdk.AtomicTransactionComposer,
+    method: algosdk.ABIMethod,
+    methodArgs: algosdk.ABIArgument[],
+    innerTxns: number,
+    resources: CallResources = {},
+  ): Promise<void> {
+    const suggestedParams = await this.algod.getTransactionParams().do();
+    atc.addMethodCall({
+      appID: this.appId,
+      method,
+      methodArgs,
+      sender: this.sender,
+      signer: this.signer,
+      suggestedParams: { ...suggestedParams, fee: MIN_TXN_FEE * (1 + innerTxns), flatFee: true },
+      appForeignAssets: resources.assets,
+      appForeignApps: resources.apps,
+      appAccounts: resources.accounts,
+      boxes: [...(resources.boxes?.map((name) => ({ appIndex: this.appId, name })) ?? []), ...(resources.appBoxes ?? [])],
+    });
+  }
+
+  protected async hasBox(name: Uint8Array): Promise<boolean> {
+    try {
+      await this.algod.getApplicationBoxByName(this.appId, name).do();
+      return true;
+    } catch {
+      return false;
+    }
+  }
+
+  protected async execute(atc: algosdk.AtomicTransactionComposer): Promise<VaultCallResult> {
+    const result = await atc.execute(this.algod, this.waitRounds);
+    const logs = result.methodResults.flatMap((r) => r.txInfo?.logs ?? []);
+    return { txIds: result.txIDs, confirmedRound: result.confirmedRound, events: decodeVaultEvents(logs, this.eventSpecs()) };
+  }
+
+  /**
+   * Single vault call, optionally preceded by a transaction (e.g. the deposit transfer)
+   */
+  protected async call(
+    method: algosdk.ABIMethod,
+    methodArgs: algosdk.ABIArgument[],
+    innerTxns: number,
+    resources: CallResources = {},
+    options: { preceding?: algosdk.TransactionWithSigner } = {},
+  ): Promise<VaultCallResult> {
+    const atc = new algosdk.AtomicTransactionComposer();
+    if (options.preceding) {
+      atc.addTransaction(options.preceding);
+    }
+    await this.addCall(atc, method, methodArgs, innerTxns, resources);
+    return this.execute(atc);
+  }
+
+  /**
+   * Call a readonly method via simulate (no signature or fee required)
+   */
+  protected async simulate(method: algosdk.ABIMethod, methodArgs: algosdk.ABIArgument[] = []): Promise<algosdk.ABIValue> {
+    const suggestedParams = await this.algod.getTransactionParams().do();
+    const atc = new algosdk.AtomicTransactionComposer();
+    atc.addMethodCall({
+      appID: this.appId,
+      method,
+      methodArgs,
+      sender: this.sender,
+      signer: algosdk.makeEmptyTransactionSigner(),
+      suggestedParams: { ...suggestedParams, fee: MIN_TXN_FEE, flatFee: true },
+    });
+
+    const result = await atc.simulate(
+      this.algod,
+      new algosdk.modelsv2.SimulateRequest({ txnGroups: [], allowEmptySignatures: true, allowUnnamedResources: true }),
+    );
+    const methodResult = result.methodResults[0];
+    if (methodResult.decodeError) {
+      throw methodResult.decodeError;
+    }
+    return methodResult.returnValue as algosdk.ABIValue;
+  }
+
+  protected async simulateUint(method: algosdk.ABIMethod, methodArgs: algosdk.ABIArgument[] = []): Promise<bigint> {
+    return BigInt((await this.simulate(method, methodArgs)) as bigint);
+  }
+
+  protected async simulateTuple(method: algosdk.ABIMethod, methodArgs: algosdk.ABIArgument[] = []): Promise<bigint[]> {
+    const values = (await this.simulate(method, methodArgs)) as (bigint | number)[];
+    return values.map((v) => BigInt(v));
+  }
+
+  // ============================================
+  // METHODS SHARED BY ALL VAULTS
+  // ============================================
+
+  /**
+   * Open the sender's position box, paying its MBR to the vault
+   */
+  async optIn(): Promise<VaultCallResult> {
+    return this.call(SHARED_METHODS.optIn, [], 0, { boxes: [this.positionBoxName()] }, {
+      preceding: await this.payment(this.positionMbr()),
+    });
+  }
+
+  async claimCreator(): Promise<VaultCallResult> {
+    const config = await this.getConfig();
+    return this.call(SHARED_METHODS.claimCreator, [], 1, { assets: [this.rewardAssetId(config)] });
+  }
+
+  /**
+   * Fund the farm with the vault's reward asset
+   */
+  async contributeFarm(amount: number | bigint): Promise<VaultCallResult> {
+    const config = await this.getConfig();
+    const rewardAssetId = this.rewardAssetId(config);
+    return this.call(SHARED_METHODS.contributeFarm, [], 0, { assets: [rewardAssetId] }, {
+      preceding: await this.assetTransfer(rewardAssetId, amount),
+    });
+  }
+
+  /**
+   * Fund a farm campaign released linearly from startTime to endTime (creator or RareFi only)
+   */
+  async contributeFarmSchedule(amount: number | bigint, startTime: number | bigint, endTime: number | bigint): Promise<VaultCallResult> {
+    const config = await this.getConfig();
+    const rewardAssetId = this.rewardAssetId(config);
+    return this.call(SHARED_METHODS.contributeFarmSchedule, [startTime, endTime], 0, { assets: [rewardAssetId] }, {
+      preceding: await this.assetTransfer(rewardAssetId, amount),
+    });
+  }
+
+  async setEmissionRatio(newRatio: number | bigint): Promise<VaultCallResult> {
+    return this.call(SHARED_METHODS.setEmissionRatio, [newRatio], 0);
+  }
+
+  async updateMinSwapThreshold(newThreshold: number | bigint): Promise<VaultCallResult> {
+    return this.call(SHARED_METHODS.updateMinSwapThreshold, [newThreshold], 0);
+  }
+
+  async updateMaxSlippage(newMaxSlippageBps: number | bigint): Promise<VaultCallResult> {
+    return this.call(SHARED_METHODS.updateMaxSlippage, [newMaxSlippageBps], 0);
+  }
+
+  async updateCreatorFeeRate(newFeeRate: number | bigint): Promise<VaultCallResult> {
+    return this.call(SHARED_METHODS.updateCreatorFeeRate, [newFeeRate], 0);
+  }
+
+  async updateCreatorAddress(newCreatorAddress: string): Promise<VaultCallResult> {
+    return this.call(SHARED_METHODS.updateCreatorAddress, [newCreatorAddress], 0);
+  }
+
+  async updateRarefiAddress(newRarefiAddress: string): Promise<VaultCallResult> {
+    return this.call(SHARED_METHODS.updateRarefiAddress, [newRarefiAddress], 0);
+  }
+
+  async getFarmStats(): Promise<FarmStats> {
+    const [farmBalance, emissionRatio, currentDynamicRate, scheduledAmount, scheduledRemaining] =
+      await this.simulateTuple(SHARED_METHODS.getFarmStats);
+    return { farmBalance, emissionRatio, currentDynamicRate, scheduledAmount, scheduledRemaining };
+  }
+
+  /**
+   * Active farm schedules, read from global state
+   */
+  async getFarmSchedules(): Promise<FarmSchedule[]> {
+    const raw = await this.getGlobalBytes('farmSchedules');
+    if (!raw) {
+      return [];
+    }
+    const slots = FARM_SCHEDULES_TYPE.decode(raw) as bigint[][];
+    return slots
+      .map(([startTime, endTime, amount, released], slot) => ({ slot, startTime, endTime, amount, released }))
+      .filter((schedule) => schedule.amount !== 0n);
+  }
+
+  /**
+   * Pause deposits, yield swaps and farm contributions (guardian only, max 7 days)
+   */
+  async pause(durationSeconds: number | bigint): Promise<VaultCallResult> {
+    return this.call(SHARED_METHODS.pause, [durationSeconds], 0);
+  }
+
+  async unpause(): Promise<VaultCallResult> {
+    return this.call(SHARED_METHODS.unpause, [], 0);
+  }
+
+  async updateGuardian(newGuardianAddress: string): Promise<VaultCallResult> {
+    return this.call(SHARED_METHODS.updateGuardian, [newGuardianAddress], 0);
+  }
+
+  async getPauseState(): Promise<PauseState> {
+    const [isPaused, pausedUntil, secondsRemaining] = await this.simulateTuple(SHARED_METHODS.getPauseState);
+    return { isPaused: isPaused === 1n, pausedUntil, secondsRemaining };
+  }
+
+  /**
+   * Max spot-vs-TWAP price deviation for swaps, in basis points (creator or RareFi, 100-10000)
+   */
+  async updateMaxPriceDeviation(newMaxDeviationBps: number | bigint): Promise<VaultCallResult> {
+    return this.call(SHARED_METHODS.updateMaxPriceDeviation, [newMaxDeviationBps], 0);
+  }
+
+  async getPriceOracle(): Promise<PriceOracle> {
+    const [spotPrice, twapPrice, lastObservationTime, maxPriceDeviationBps] =
+      await this.simulateTuple(SHARED_METHODS.getPriceOracle);
+    return { spotPrice, twapPrice, lastObservationTime, maxPriceDeviationBps };
+  }
+
+  /**
+   * Offer (or with duration 0, remove) a lock tier for depositLocked (creator only)
+   */
+  async setLockTier(slot: number, duration: number | bigint, boostBps: number | bigint): Promise<VaultCallResult> {
+    return this.call(SHARED_METHODS.setLockTier, [slot, duration, boostBps], 0);
+  }
+
+  /**
+   * Drop the boost of a user's expired lock (permissionless)
+   */
+  async releaseLock(user: string = this.sender): Promise<VaultCallResult> {
+    return this.call(SHARED_METHODS.releaseLock, [user], 0, { accounts: [user], boxes: this.lockBoxes(user) });
+  }
+
+  /**
+   * Lock tiers offered by depositLocked (empty slots omitted; empty on vaults deployed before time locks)
+   */
+  async getLockTiers(): Promise<LockTier[]> {
+    const raw = await this.getGlobalBytes('lockTiers');
+    if (!raw) {
+      return [];
+    }
+    const slots = LOCK_TIERS_TYPE.decode(raw) as bigint[][];
+    return slots
+      .map(([duration, boostBps], slot) => ({ slot, duration: BigInt(duration), boostBps: BigInt(boostBps) }))
+      .filter((tier) => tier.duration !== 0n);
+  }
+
+  /**
+   * Set the exit fee and the period it decays to zero over (creator only; 0, 0 disables it)
+   */
+  async setExitFee(exitFeeBps: number | bigint, exitFeePeriod: number | bigint): Promise<VaultCallResult> {
+    return this.call(SHARED_METHODS.setExitFee, [exitFeeBps, exitFeePeriod], 0);
+  }
+
+  /**
+   * Exit fee settings and the fee a user would pay if they withdrew now
+   */
+  async getExitFee(user: string = this.sender): Promise<ExitFee> {
+    const [exitFeeBps, exitFeePeriod, userFeeBps] = await this.simulateTuple(SHARED_METHODS.getExitFee, [user]);
+    return { exitFeeBps, exitFeePeriod, userFeeBps };
+  }
+}
@@ -0,0 +1,399 @@
+import algosdk from 'algosdk';
+import { BaseVaultClient, CallResources } from './BaseVaultClient';
+import { COMPOUNDING_VAULT_EVENTS, VaultEventSpec } from './events';
+import {
+  BestSwapQuote,
+  CandidatePool,
+  CompoundingUserLock,
+  CompoundingVaultConfig,
+  CompoundingVaultStats,
+  SwapQuote,
+  VaultCallResult,
+  VaultGlobalState,
+} from './types';
+
+const METHODS = {
+  closeOut: algosdk.ABIMethod.fromSignature('closeOut()void'),
+  deposit: algosdk.ABIMethod.fromSignature('deposit(uint64)void'),
+  depositFor: algosdk.ABIMethod.fromSignature('depositFor(address,uint64)void'),
+  depositLocked: algosdk.ABIMethod.fromSignature('depositLocked(uint64,uint64)void'),
+  withdraw: algosdk.ABIMethod.fromSignature('withdraw(uint64)void'),
+  compoundYield: algosdk.ABIMethod.fromSignature('compoundYield(uint64)void'),
+  compoundYieldWithMinOut: algosdk.ABIMethod.fromSignature('compoundYieldWithMinOut(uint64,uint64)void'),
+  getVaultStats: algosdk.ABIMethod.fromSignature('getVaultStats()(uint64,uint64,uint64,uint64,uint64,uint64)'),
+  getUserAlphaBalance: algosdk.ABIMethod.fromSignature('getUserAlphaBalance(address)uint64'),
+  getUserShares: algosdk.ABIMethod.fromSignature('getUserShares(address)uint64'),
+  previewDeposit: algosdk.ABIMethod.fromSignature('previewDeposit(uint64)uint64'),
+  previewWithdraw: algosdk.ABIMethod.fromSignature('previewWithdraw(uint64)uint64'),
+  getCompoundQuote: algosdk.ABIMethod.fromSignature('getCompoundQuote()(uint64,uint64,uint64)'),
+  getBestSwapQuote: algosdk.ABIMethod.fromSignature('getBestSwapQuote()(uint64,uint64,uint64,uint64)'),
+  addCandidatePool: algosdk.ABIMethod.fromSignature('addCandidatePool(uint64,address)void'),
+  removeCandidatePool: algosdk.ABIMethod.fromSignature('removeCandidatePool(uint64)void'),
+  observePrice: algosdk.ABIMethod.fromSignature('observePrice()void'),
+  getUserLock: algosdk.ABIMethod.fromSignature('getUserLock(address)(uint64,uint64,uint64,uint64)'),
+  setZapPool: algosdk.ABIMethod.fromSignature('setZapPool(uint64,address)void'),
+  zapDeposit: algosdk.ABIMethod.fromSignature('zapDeposit(uint64,uint64)void'),
+  getZapQuote: algosdk.ABIMethod.fromSignature('getZapQuote(uint64)uint64'),
+};
+
+// Global state layout of the candidate pool allowlist (poolAppId 0 = empty slot)
+const CANDIDATE_POOLS_TYPE = algosdk.ABIType.from('(uint64,address)[2]');
+
+// Inner transactions issued by each method (outer fee = 1000 µALGO x (1 + inner))
+const COMPOUND_INNER_TXNS = 3; // USDC transfer to pool + pool app call + pool output transfer
+const ROUTED_COMPOUND_INNER_TXNS = 6; // Both hops: (transfer in + pool app call + pool output transfer) x 2
+const ZAP_INNER_TXNS = 3; // USDC transfer to the zap pool + pool app call + pool output transfer (plus the auto-compound)
+const POSITION_MBR = 22_100;    // 2500 + 400 * (33 key + 16 value)
+const LOCK_MBR = 28_500;        // 2500 + 400 * (33 key + 32 value)
+
+/**
+ * Client for RareFiAlphaCompoundingVault: deposit Alpha, USDC yield is compounded back into Alpha
+ */
+export class CompoundingVaultClient extends BaseVaultClient<CompoundingVaultConfig> {
+  protected parseConfig(state: VaultGlobalState): CompoundingVaultConfig {
+    return {
+      alphaAssetId: BaseVaultClient.uint(state, 'alphaAsset'),
+      usdcAssetId: BaseVaultClient.uint(state, 'usdcAsset'),
+      tinymanPoolAppId: BaseVaultClient.uint(state, 'tinymanPoolAppId'),
+      tinymanPoolAddress: BaseVaultClient.address(state, 'tinymanPoolAddress'),
+      // Absent on vaults deployed before routed swaps
+      hopPoolAppId: typeof state.hopPoolAppId === 'bigint' ? state.hopPoolAppId : 0n,
+      hopPoolAddress: typeof state.hopPoolAddress === 'string' ? state.hopPoolAddress : algosdk.ALGORAND_ZERO_ADDRESS_STRING,
+      // Absent on vaults deployed before tokenized shares
+      shareAssetId: typeof state.shareAsset === 'bigint' ? state.shareAsset : 0n,
+    };
+  }
+
+  protected rewardAssetId(config: CompoundingVaultConfig): bigint {
+    return config.alphaAssetId;
+  }
+
+  protected positionMbr(): number {
+    return POSITION_MBR;
+  }
+
+  protected eventSpecs(): VaultEventSpec[] {
+    return COMPOUNDING_VAULT_EVENTS;
+  }
+
+  /**
+   * Name of a user's lock box: 'l' + 32-byte address
+   */
+  lockBoxName(user: string = this.sender): Uint8Array {
+    return new Uint8Array([...new TextEncoder().encode('l'), ...algosdk.decodeAddress(user).publicKey]);
+  }
+
+  protected lockBoxes(user: string): Uint8Array[] {
+    return [this.positionBoxName(user), this.lockBoxName(user)];
+  }
+
+  private async hasLockBox(user: string): Promise<boolean> {
+    try {
+      await this.algod.getApplicationBoxByName(this.appId, this.lockBoxName(user)).do();
+      return true;
+    } catch {
+      return false;
+    }
+  }
+
+  /**
+   * Pool references and inner txn count for the yield swap (direct, or routed via the hop pool)
+   */
+  private swapRoute(config: CompoundingVaultConfig): { innerTxns: number; apps: bigint[]; accounts: string[] } {
+    if (config.hopPoolAppId === 0n) {
+      return { innerTxns: COMPOUND_INNER_TXNS, apps: [config.tinymanPoolAppId], accounts: [config.tinymanPoolAddress] };
+    }
+    return {
+      innerTxns: ROUTED_COMPOUND_INNER_TXNS,
+      apps: [config.tinymanPoolAppId, config.hopPoolAppId],
+      accounts: [config.tinymanPoolAddress, config.hopPoolAddress],
+    };
+  }
+
+  /**
+   * Swap route references plus every allowlisted candidate pool, since the vault picks the best route on-chain
+   */
+  private async bestExecutionRoute(config: CompoundingVaultConfig): Promise<{ innerTxns: number; apps: bigint[]; accounts: string[] }> {
+    const route = this.swapRoute(config);
+    for (const pool of await this.getCandidatePools()) {
+      route.apps.push(pool.poolAppId);
+      if (!route.accounts.includes(pool.poolAddress)) {
+        route.accounts.push(pool.poolAddress);
+      }
+    }
+    return route;
+  }
+
+  /**
+   * True if the vault issues shares as an ASA (users opt in to the share asset, not the app)
+   */
+  async isTokenized(): Promise<boolean> {
+    return (await this.getConfig()).shareAssetId !== 0n;
+  }
+
+  /**
+   * Opt the sender in to the vault's share ASA (tokenized vaults only)
+   */
+  async optInShareAsset(): Promise<VaultCallResult> {
+    const config = await this.getConfig();
+    if (config.shareAssetId === 0n) {
+      throw new Error('Vault shares are not tokenized; use optIn()');
+    }
+    const suggestedParams = await this.algod.getTransactionParams().do();
+    const atc = new algosdk.AtomicTransactionComposer();
+    atc.addTransaction({
+      txn: algosdk.makeAssetTransferTxnWithSuggestedParamsFromObject({
+        sender: this.sender,
+        receiver: this.sender,
+        amount: 0,
+        assetIndex: config.shareAssetId,
+        suggestedParams,
+      }),
+      signer: this.signer,
+    });
+    return this.execute(atc);
+  }
+
+  /**
+   * Deposit Alpha for shares. Includes pool references and fees for the auto-compound
+   * that runs when the vault's USDC balance has reached minSwapThreshold.
+   */
+  async deposit(amount: number | bigint, slippageBps: number | bigint): Promise<VaultCallResult> {
+    return this.submitDeposit(METHODS.deposit, [slippageBps], amount, this.sender);
+  }
+
+  /**
+   * Deposit Alpha funded by the sender, with the shares credited to beneficiary.
+   * Tokenized vaults send the share ASA to the beneficiary, who must be opted in to it;
+   * position-box vaults need the beneficiary to have opted in.
+   */
+  async depositFor(beneficiary: string, amount: number | bigint, slippageBps: number | bigint): Promise<VaultCallResult> {
+    return this.submitDeposit(METHODS.depositFor, [beneficiary, slippageBps], amount, beneficiary);
+  }
+
+  private async submitDeposit(
+    method: algosdk.ABIMethod,
+    methodArgs: algosdk.ABIArgument[],
+    amount: number | bigint,
+    beneficiary: string,
+  ): Promise<VaultCallResult> {
+    const config = await this.getConfig();
+    const { innerTxns, resources } = await this.depositReferences(beneficiary);
+    return this.call(method, methodArgs, innerTxns, resources, {
+      preceding: await this.assetTransfer(config.alphaAssetId, amount),
+    });
+  }
+
+  /**
+   * Inner txn count and references of a deposit credited to beneficiary; also used by
+   * RareFiVault claimAndStake, which deposits here with an inner depositFor call
+   */
+  async depositReferences(beneficiary: string = this.sender): Promise<{ innerTxns: number; resources: CallResources }> {
+    const config = await this.getConfig();
+    const tokenized = config.shareAssetId !== 0n;
+    const route = this.swapRoute(config);
+    return {
+      innerTxns: route.innerTxns + (tokenized ? 1 : 0),
+      resources: {
+        assets: tokenized
+          ? [config.alphaAssetId, config.usdcAssetId, config.shareAssetId]
+          : [config.alphaAssetId, config.usdcAssetId],
+        apps: route.apps,
+        accounts: tokenized && beneficiary !== this.sender ? [...route.accounts, beneficiary] : route.accounts,
+        boxes: tokenized ? [] : [this.positionBoxName(beneficiary)],
+      },
+    };
+  }
+
+  /**
+   * Deposit Alpha for shares locked for one of the vault's lock tiers, plus boost shares
+   * that earn compounded yield until the lock is released (position-box vaults only).
+   * The first lock also pays the lock box MBR, refunded on close-out.
+   * @param lockDuration - Lock tier duration in seconds (see getLockTiers)
+   */
+  async depositLocked(amount: number | bigint, slippageBps: number | bigint, lockDuration: number | bigint): Promise<VaultCallResult> {
+    const config = await this.getConfig();
+    if (config.shareAssetId !== 0n) {
+      throw new Error('Vault shares are tokenized; locks need position boxes');
+    }
+    const route = this.swapRoute(config);
+    const atc = new algosdk.AtomicTransactionComposer();
+    if (!(await this.hasLockBox(this.sender))) {
+      atc.addTransaction(await this.payment(LOCK_MBR));
+    }
+    atc.addTransaction(await this.assetTransfer(config.alphaAssetId, amount));
+    await this.addCall(atc, METHODS.depositLocked, [slippageBps, lockDuration], route.innerTxns, {
+      assets: [config.alphaAssetId, config.usdcAssetId],
+      apps: route.apps,
+      accounts: route.accounts,
+      boxes: this.lockBoxes(this.sender),
+    });
+    return this.execute(atc);
+  }
+
+  /**
+   * Tokenized vaults: the share ASA is transferred back to the vault in the same group.
+   * Position-box vaults: locked shares can't be redeemed until their lock expires.
+   * @param shareAmount - Shares to redeem (0 = redeem all unlocked shares)
+   */
+  async withdraw(shareAmount: number | bigint): Promise<VaultCallResult> {
+    const config = await this.getConfig();
+    if (config.shareAssetId === 0n) {
+      return this.call(METHODS.withdraw, [shareAmount], 1, {
+        assets: [config.alphaAssetId],
+        boxes: this.lockBoxes(this.sender),
+      });
+    }
+
+    const shares = BigInt(shareAmount) === 0n ? await this.getUserShares() : BigInt(shareAmount);
+    return this.call(METHODS.withdraw, [shares], 1, { assets: [config.alphaAssetId, config.shareAssetId] }, {
+      preceding: await this.assetTransfer(config.shareAssetId, shares),
+    });
+  }
+
+  async closeOut(): Promise<VaultCallResult> {
+    const config = await this.getConfig();
+    return this.call(METHODS.closeOut, [], 2, {
+      assets: [config.alphaAssetId],
+      boxes: this.lockBoxes(this.sender),
+    });
+  }
+
+  /**
+   * @param minAmountOut - Optional absolute Alpha floor, enforced on top of slippageBps
+   */
+  async compoundYield(slippageBps: number | bigint, minAmountOut?: number | bigint): Promise<VaultCallResult> {
+    const config = await this.getConfig();
+    const route = await this.bestExecutionRoute(config);
+    const [method, args] = minAmountOut
+      ? [METHODS.compoundYieldWithMinOut, [slippageBps, minAmountOut]]
+      : [METHODS.compoundYield, [slippageBps]];
+    return this.call(method, args, route.innerTxns, {
+      assets: [config.alphaAssetId, config.usdcAssetId],
+      apps: route.apps,
+      accounts: route.accounts,
+    });
+  }
+
+  async getVaultStats(): Promise<CompoundingVaultStats> {
+    const [totalShares, totalAlpha, creatorUnclaimedAlpha, usdcBalance, totalYieldCompounded, sharePrice] =
+      await this.simulateTuple(METHODS.getVaultStats);
+    return { totalShares, totalAlpha, creatorUnclaimedAlpha, usdcBalance, totalYieldCompounded, sharePrice };
+  }
+
+  async getUserAlphaBalance(user: string = this.sender): Promise<bigint> {
+    return this.simulateUint(METHODS.getUserAlphaBalance, [user]);
+  }
+
+  async getUserShares(user: string = this.sender): Promise<bigint> {
+    return this.simulateUint(METHODS.getUserShares, [user]);
+  }
+
+  async getUserLock(user: string = this.sender): Promise<CompoundingUserLock> {
+    const [lockedUntil, lockedShares, bonusShares, bonusBasis] = await this.simulateTuple(METHODS.getUserLock, [user]);
+    return { lockedUntil, lockedShares, bonusShares, bonusBasis };
+  }
+
+  async previewDeposit(alphaAmount: number | bigint): Promise<bigint> {
+    return this.simulateUint(METHODS.previewDeposit, [alphaAmount]);
+  }
+
+  async previewWithdraw(shareAmount: number | bigint): Promise<bigint> {
+    return this.simulateUint(METHODS.previewWithdraw, [shareAmount]);
+  }
+
+  async getCompoundQuote(): Promise<SwapQuote> {
+    const [yieldBalance, expectedOutput, minOutputAt50Bps] = await this.simulateTuple(METHODS.getCompoundQuote);
+    return { yieldBalance, expectedOutput, minOutputAt50Bps };
+  }
+
+  /**
+   * Record a TWAP observation without swapping (keeps the price oracle fresh between swaps)
+   */
+  async observePrice(): Promise<VaultCallResult> {
+    const route = this.swapRoute(await this.getConfig());
+    return this.call(METHODS.observePrice, [], 0, { apps: route.apps, accounts: route.accounts });
+  }
+
+  async getBestSwapQuote(): Promise<BestSwapQuote> {
+    const [yieldBalance, routeIndex, poolAppId, expectedOutput] = await this.simulateTuple(METHODS.getBestSwapQuote);
+    return { yieldBalance, routeIndex, poolAppId, expectedOutput };
+  }
+
+  /**
+   * Allowlisted candidate pools (empty slots omitted; empty on vaults deployed before best-execution routing)
+   */
+  async getCandidatePools(): Promise<CandidatePool[]> {
+    const raw = await this.getGlobalBytes('candidatePools');
+    if (!raw) {
+      return [];
+    }
+    const slots = CANDIDATE_POOLS_TYPE.decode(raw) as [bigint, string][];
+    return slots
+      .map(([poolAppId, poolAddress]) => ({ poolAppId: BigInt(poolAppId), poolAddress }))
+      .filter((pool) => pool.poolAppId !== 0n);
+  }
+
+  /**
+   * Allowlist an alternative pool for best-execution swaps (creator or RareFi only)
+   */
+  async addCandidatePool(poolAppId: number | bigint, poolAddress: string): Promise<VaultCallResult> {
+    return this.call(METHODS.addCandidatePool, [poolAppId, poolAddress], 0, { apps: [BigInt(poolAppId)], accounts: [poolAddress] });
+  }
+
+  async removeCandidatePool(poolAppId: number | bigint): Promise<VaultCallResult> {
+    return this.call(METHODS.removeCandidatePool, [poolAppId], 0);
+  }
+
+  // ============================================
+  // ZAP DEPOSIT
+  // ============================================
+
+  /**
+   * Pool zapDeposit swaps USDC through (undefined when zaps are disabled or the vault predates them)
+   */
+  async getZapPool(): Promise<CandidatePool | undefined> {
+    const state = await this.getGlobalState();
+    if (typeof state.zapPoolAppId !== 'bigint' || state.zapPoolAppId === 0n) {
+      return undefined;
+    }
+    return { poolAppId: state.zapPoolAppId, poolAddress: BaseVaultClient.address(state, 'zapPoolAddress') };
+  }
+
+  /**
+   * Set the USDC/Alpha pool used by zapDeposit; poolAppId 0 disables zaps (creator or RareFi only)
+   */
+  async setZapPool(poolAppId: number | bigint, poolAddress: string = algosdk.ALGORAND_ZERO_ADDRESS_STRING): Promise<VaultCallResult> {
+    const resources = BigInt(poolAppId) === 0n ? {} : { apps: [BigInt(poolAppId)], accounts: [poolAddress] };
+    return this.call(METHODS.setZapPool, [poolAppId, poolAddress], 0, resources);
+  }
+
+  /**
+   * Expected Alpha out of the zap pool for usdcAmount (0 when zaps are disabled)
+   */
+  async getZapQuote(usdcAmount: number | bigint): Promise<bigint> {
+    return this.simulateUint(METHODS.getZapQuote, [usdcAmount]);
+  }
+
+  /**
+   * Deposit USDC, swapped to Alpha through the zap pool and credited as shares.
+   * Includes the deposit's auto-compound references; quote minDepositOut with getZapQuote.
+   *
+   * @param minDepositOut - Minimum Alpha the zap swap must return
+   */
+  async zapDeposit(usdcAmount: number | bigint, slippageBps: number | bigint, minDepositOut: number | bigint): Promise<VaultCallResult> {
+    const config = await this.getConfig();
+    const zapPool = await this.getZapPool();
+    if (!zapPool) {
+      throw new Error('Vault has no zap pool');
+    }
+    const { innerTxns, resources } = await this.depositReferences();
+    return this.call(METHODS.zapDeposit, [slippageBps, minDepositOut], innerTxns + ZAP_INNER_TXNS, {
+      ...resources,
+      apps: [...new Set([...(resources.apps ?? []), zapPool.poolAppId])],
+      accounts: [...new Set([...(resources.accounts ?? []), zapPool.poolAddress])],
+    }, {
+      preceding: await this.assetTransfer(config.usdcAssetId, usdcAmount),
+    });
+  }
+}
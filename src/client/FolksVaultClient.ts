@@ -0,0 +1,314 @@
+import algosdk from 'algosdk';
+import { BaseVaultClient, CallResources } from './BaseVaultClient';
+import { FOLKS_VAULT_EVENTS, VaultEventSpec } from './events';
+import { ClaimSettings, FolksVaultConfig, FolksVaultStats, HarvestQuote, UserLock, VaultCallResult, VaultGlobalState } from './types';
+
+const METHODS = {
+  closeOut: algosdk.ABIMethod.fromSignature('closeOut()void'),
+  deposit: algosdk.ABIMethod.fromSignature('deposit()void'),
+  depositFor: algosdk.ABIMethod.fromSignature('depositFor(address)void'),
+  depositLocked: algosdk.ABIMethod.fromSignature('depositLocked(uint64)void'),
+  withdraw: algosdk.ABIMethod.fromSignature('withdraw(uint64)void'),
+  emergencyWithdraw: algosdk.ABIMethod.fromSignature('emergencyWithdraw(uint64)void'),
+  harvestYield: algosdk.ABIMethod.fromSignature('harvestYield(uint64,uint64)void'),
+  harvestYieldWithMinOut: algosdk.ABIMethod.fromSignature('harvestYieldWithMinOut(uint64,uint64,uint64)void'),
+  harvestAll: algosdk.ABIMethod.fromSignature('harvestAll(uint64)void'),
+  swapYield: algosdk.ABIMethod.fromSignature('swapYield(uint64)void'),
+  swapYieldWithMinOut: algosdk.ABIMethod.fromSignature('swapYieldWithMinOut(uint64,uint64)void'),
+  claim: algosdk.ABIMethod.fromSignature('claim()void'),
+  claimFor: algosdk.ABIMethod.fromSignature('claimFor(address)void'),
+  setYieldRecipient: algosdk.ABIMethod.fromSignature('setYieldRecipient(address)void'),
+  approveClaimer: algosdk.ABIMethod.fromSignature('approveClaimer(address)void'),
+  clearClaimSettings: algosdk.ABIMethod.fromSignature('clearClaimSettings()void'),
+  getClaimSettings: algosdk.ABIMethod.fromSignature('getClaimSettings(address)(address,address)'),
+  updateTinymanPool: algosdk.ABIMethod.fromSignature('updateTinymanPool(uint64,address)void'),
+  getVaultStats: algosdk.ABIMethod.fromSignature('getVaultStats()(uint64,uint64,uint64,uint64,uint64,uint64)'),
+  getHarvestableFTokens: algosdk.ABIMethod.fromSignature('getHarvestableFTokens()uint64'),
+  getHarvestQuote: algosdk.ABIMethod.fromSignature('getHarvestQuote()(uint64,uint64,uint64)'),
+  getPendingYield: algosdk.ABIMethod.fromSignature('getPendingYield(address)uint64'),
+  getUserDeposit: algosdk.ABIMethod.fromSignature('getUserDeposit(address)uint64'),
+  observePrice: algosdk.ABIMethod.fromSignature('observePrice()void'),
+  getUserLock: algosdk.ABIMethod.fromSignature('getUserLock(address)(uint64,uint64,uint64)'),
+};
+
+// Inner transactions issued by each method (outer fee = 1000 µALGO x (1 + inner))
+const FOLKS_DEPOSIT_INNER_TXNS = 3;  // Underlying transfer to Folks + Folks app call + fToken mint
+const FOLKS_REDEEM_INNER_TXNS = 3;   // fToken transfer to Folks + Folks app call + underlying payout
+const SWAP_INNER_TXNS = 3;           // Underlying transfer to pool + pool app call + pool output transfer
+const POSITION_MBR = 38_100;         // 2500 + 400 * (33 key + 56 value)
+const CLAIM_SETTINGS_MBR = 41_300;   // 2500 + 400 * (33 key + 64 value)
+
+/**
+ * Client for RareFiFolksVault: deposit into Folks Finance, earn the project token from lending yield
+ */
+export class FolksVaultClient extends BaseVaultClient<FolksVaultConfig> {
+  protected parseConfig(state: VaultGlobalState): FolksVaultConfig {
+    return {
+      depositAssetId: BaseVaultClient.uint(state, 'depositAsset'),
+      fTokenAssetId: BaseVaultClient.uint(state, 'fTokenAsset'),
+      swapAssetId: BaseVaultClient.uint(state, 'swapAsset'),
+      folksPoolAppId: BaseVaultClient.uint(state, 'folksPoolAppId'),
+      folksPoolAddress: BaseVaultClient.address(state, 'folksPoolAddress'),
+      folksPoolManagerAppId: BaseVaultClient.uint(state, 'folksPoolManagerAppId'),
+      tinymanPoolAppId: BaseVaultClient.uint(state, 'tinymanPoolAppId'),
+      tinymanPoolAddress: BaseVaultClient.address(state, 'tinymanPoolAddress'),
+    };
+  }
+
+  protected rewardAssetId(config: FolksVaultConfig): bigint {
+    return config.swapAssetId;
+  }
+
+  protected positionMbr(): number {
+    return POSITION_MBR;
+  }
+
+  protected eventSpecs(): VaultEventSpec[] {
+    return FOLKS_VAULT_EVENTS;
+  }
+
+  /**
+   * References for calls that redeem fTokens from Folks
+   */
+  private folksResources(config: FolksVaultConfig): CallResources {
+    return {
+      assets: [config.depositAssetId, config.fTokenAssetId, config.swapAssetId],
+      apps: [config.folksPoolAppId, config.folksPoolManagerAppId],
+      accounts: [config.folksPoolAddress],
+    };
+  }
+
+  /**
+   * References for withdraw and closeOut: the Folks redeem, the Tinyman pool read for the
+   * TWAP observation and the sender's position box. The Folks pool's app account comes with
+   * its app reference, which keeps the call within the 8-reference limit.
+   */
+  private exitResources(config: FolksVaultConfig): CallResources {
+    const resources = this.folksResources(config);
+    return {
+      assets: resources.assets,
+      apps: [...resources.apps!, config.tinymanPoolAppId],
+      accounts: [config.tinymanPoolAddress],
+      boxes: [this.positionBoxName()],
+    };
+  }
+
+  /**
+   * Deposit the underlying asset; the vault forwards it to Folks Finance.
+   * The vault never swaps on deposit, so slippageBps is accepted for parity
+   * with the other vault clients but is not sent.
+   */
+  async deposit(amount: number | bigint, _slippageBps: number | bigint = 0): Promise<VaultCallResult> {
+    return this.submitDeposit(METHODS.deposit, [], amount);
+  }
+
+  /**
+   * Deposit locked for one of the vault's lock tiers. The whole position earns at the
+   * tier's boost and can't be withdrawn (or emergency withdrawn) until the lock expires.
+   * @param lockDuration - Lock tier duration in seconds (see getLockTiers)
+   */
+  async depositLocked(amount: number | bigint, lockDuration: number | bigint): Promise<VaultCallResult> {
+    return this.submitDeposit(METHODS.depositLocked, [lockDuration], amount);
+  }
+
+  /**
+   * Deposit the underlying funded by the sender into beneficiary's position (the beneficiary must have opted in)
+   */
+  async depositFor(beneficiary: string, amount: number | bigint): Promise<VaultCallResult> {
+    return this.submitDeposit(METHODS.depositFor, [beneficiary], amount, beneficiary);
+  }
+
+  private async submitDeposit(
+    method: algosdk.ABIMethod,
+    methodArgs: algosdk.ABIArgument[],
+    amount: number | bigint,
+    beneficiary: string = this.sender,
+  ): Promise<VaultCallResult> {
+    const config = await this.getConfig();
+    // The Tinyman pool is read for the TWAP observation every deposit records
+    return this.call(method, methodArgs, FOLKS_DEPOSIT_INNER_TXNS, {
+      assets: [config.depositAssetId, config.fTokenAssetId],
+      apps: [config.folksPoolAppId, config.folksPoolManagerAppId, config.tinymanPoolAppId],
+      accounts: [config.folksPoolAddress, config.tinymanPoolAddress],
+      boxes: [this.positionBoxName(beneficiary)],
+    }, {
+      preceding: await this.assetTransfer(config.depositAssetId, amount),
+    });
+  }
+
+  /**
+   * Withdraw principal (plus Folks interest on it) and auto-claim pending yield
+   * @param amount - Principal to withdraw (0 = withdraw all)
+   */
+  async withdraw(amount: number | bigint): Promise<VaultCallResult> {
+    const config = await this.getConfig();
+    return this.call(METHODS.withdraw, [amount], FOLKS_REDEEM_INNER_TXNS + 2, this.exitResources(config));
+  }
+
+  /**
+   * Exit principal as fTokens without calling Folks (e.g. while the Folks pool is paused).
+   * The sender must be opted in to the fToken; pending yield stays claimable.
+   * @param amount - Principal to exit (0 = exit all)
+   */
+  async emergencyWithdraw(amount: number | bigint): Promise<VaultCallResult> {
+    const config = await this.getConfig();
+    return this.call(METHODS.emergencyWithdraw, [amount], 1, {
+      assets: [config.fTokenAssetId],
+      boxes: [this.positionBoxName()],
+    });
+  }
+
+  async closeOut(): Promise<VaultCallResult> {
+    const config = await this.getConfig();
+    // Redeem + principal and yield payouts + MBR refund
+    return this.call(METHODS.closeOut, [], FOLKS_REDEEM_INNER_TXNS + 3, this.exitResources(config));
+  }
+
+  /**
+   * Redeem yield fTokens and swap the underlying if it reaches minSwapThreshold
+   * @param fTokensToRedeem - Yield fTokens to redeem (see getVaultStats().yieldFTokens)
+   * @param minAmountOut - Optional absolute swapAsset floor for the swap, enforced on top of slippageBps
+   */
+  async harvestYield(fTokensToRedeem: number | bigint, slippageBps: number | bigint, minAmountOut?: number | bigint): Promise<VaultCallResult> {
+    const config = await this.getConfig();
+    const resources = this.folksResources(config);
+    const [method, args] = minAmountOut
+      ? [METHODS.harvestYieldWithMinOut, [fTokensToRedeem, slippageBps, minAmountOut]]
+      : [METHODS.harvestYield, [fTokensToRedeem, slippageBps]];
+    return this.call(method, args, FOLKS_REDEEM_INNER_TXNS + SWAP_INNER_TXNS, {
+      ...resources,
+      apps: [...resources.apps!, config.tinymanPoolAppId],
+      accounts: [...resources.accounts!, config.tinymanPoolAddress],
+    });
+  }
+
+  /**
+   * Redeem every harvestable yield fToken (read on-chain at execution) and swap
+   */
+  async harvestAll(slippageBps: number | bigint): Promise<VaultCallResult> {
+    const config = await this.getConfig();
+    const resources = this.folksResources(config);
+    return this.call(METHODS.harvestAll, [slippageBps], FOLKS_REDEEM_INNER_TXNS + SWAP_INNER_TXNS, {
+      ...resources,
+      apps: [...resources.apps!, config.tinymanPoolAppId],
+      accounts: [...resources.accounts!, config.tinymanPoolAddress],
+    });
+  }
+
+  /**
+   * @param minAmountOut - Optional absolute swapAsset floor, enforced on top of slippageBps
+   */
+  async swapYield(slippageBps: number | bigint, minAmountOut?: number | bigint): Promise<VaultCallResult> {
+    const config = await this.getConfig();
+    const [method, args] = minAmountOut
+      ? [METHODS.swapYieldWithMinOut, [slippageBps, minAmountOut]]
+      : [METHODS.swapYield, [slippageBps]];
+    return this.call(method, args, SWAP_INNER_TXNS, {
+      assets: [config.depositAssetId, config.swapAssetId],
+      apps: [config.tinymanPoolAppId],
+      accounts: [config.tinymanPoolAddress],
+    });
+  }
+
+  /**
+   * Record a TWAP observation without swapping (keeps the price oracle fresh between harvests)
+   */
+  async observePrice(): Promise<VaultCallResult> {
+    const config = await this.getConfig();
+    return this.call(METHODS.observePrice, [], 0, {
+      apps: [config.tinymanPoolAppId],
+      accounts: [config.tinymanPoolAddress],
+    });
+  }
+
+  /**
+   * Claim swapAsset yield to the sender's yield recipient (the sender if none is set)
+   */
+  async claim(): Promise<VaultCallResult> {
+    return this.submitClaim(METHODS.claim, [], this.sender);
+  }
+
+  /**
+   * Claim for a user who approved the sender with approveClaimer; yield goes to the user (or their yield recipient)
+   */
+  async claimFor(user: string): Promise<VaultCallResult> {
+    return this.submitClaim(METHODS.claimFor, [user], user);
+  }
+
+  private async submitClaim(method: algosdk.ABIMethod, methodArgs: algosdk.ABIArgument[], user: string): Promise<VaultCallResult> {
+    const config = await this.getConfig();
+    const { recipient } = await this.getClaimSettings(user);
+    const receiver = recipient === algosdk.ALGORAND_ZERO_ADDRESS_STRING ? user : recipient;
+    return this.call(method, methodArgs, 1, {
+      assets: [config.swapAssetId],
+      accounts: receiver === this.sender ? [] : [receiver],
+      boxes: [this.positionBoxName(user), this.claimSettingsBoxName(user)],
+    });
+  }
+
+  /**
+   * Send the sender's claimed yield to recipient (zero address = back to the sender).
+   * withdraw and closeOut still pay yield to the sender. The first claim setting also
+   * pays the claim settings box MBR, refunded by clearClaimSettings.
+   */
+  async setYieldRecipient(recipient: string): Promise<VaultCallResult> {
+    return this.submitClaimSetting(METHODS.setYieldRecipient, recipient);
+  }
+
+  /**
+   * Let claimer call claimFor on the sender's position (zero address = revoke)
+   */
+  async approveClaimer(claimer: string): Promise<VaultCallResult> {
+    return this.submitClaimSetting(METHODS.approveClaimer, claimer);
+  }
+
+  async clearClaimSettings(): Promise<VaultCallResult> {
+    return this.call(METHODS.clearClaimSettings, [], 1, { boxes: [this.claimSettingsBoxName()] });
+  }
+
+  private async submitClaimSetting(method: algosdk.ABIMethod, account: string): Promise<VaultCallResult> {
+    const boxName = this.claimSettingsBoxName();
+    return this.call(method, [account], 0, { boxes: [this.positionBoxName(), boxName] }, {
+      preceding: (await this.hasBox(boxName)) ? undefined : await this.payment(CLAIM_SETTINGS_MBR),
+    });
+  }
+
+  async updateTinymanPool(newPoolAppId: number | bigint, newPoolAddress: string): Promise<VaultCallResult> {
+    const result = await this.call(METHODS.updateTinymanPool, [newPoolAppId, newPoolAddress], 0);
+    await this.refreshConfig();
+    return result;
+  }
+
+  async getVaultStats(): Promise<FolksVaultStats> {
+    const [totalDeposits, yieldPerToken, creatorUnclaimedYield, depositAssetBalance, yieldFTokens, totalYieldGenerated] =
+      await this.simulateTuple(METHODS.getVaultStats);
+    return { totalDeposits, yieldPerToken, creatorUnclaimedYield, depositAssetBalance, yieldFTokens, totalYieldGenerated };
+  }
+
+  async getHarvestableFTokens(): Promise<bigint> {
+    return this.simulateUint(METHODS.getHarvestableFTokens);
+  }
+
+  async getHarvestQuote(): Promise<HarvestQuote> {
+    const [yieldFTokens, estimatedUnderlying, expectedSwapOutput] = await this.simulateTuple(METHODS.getHarvestQuote);
+    return { yieldFTokens, estimatedUnderlying, expectedSwapOutput };
+  }
+
+  async getPendingYield(user: string = this.sender): Promise<bigint> {
+    return this.simulateUint(METHODS.getPendingYield, [user]);
+  }
+
+  async getUserDeposit(user: string = this.sender): Promise<bigint> {
+    return this.simulateUint(METHODS.getUserDeposit, [user]);
+  }
+
+  async getUserLock(user: string = this.sender): Promise<UserLock> {
+    const [weight, boostBps, lockedUntil] = await this.simulateTuple(METHODS.getUserLock, [user]);
+    return { weight, boostBps, lockedUntil };
+  }
+
+  async getClaimSettings(user: string = this.sender): Promise<ClaimSettings> {
+    const [recipient, claimer] = (await this.simulate(METHODS.getClaimSettings, [user])) as string[];
+    return { recipient, claimer };
+  }
+}
@@ -0,0 +1,545 @@
+import algosdk from 'algosdk';
+import { BaseVaultClient, CallResources } from './BaseVaultClient';
+import { CompoundingVaultClient } from './CompoundingVaultClient';
+import { RAREFI_VAULT_EVENTS, VaultEventSpec } from './events';
+import {
+  BestSwapQuote,
+  CandidatePool,
+  ClaimSettings,
+  PendingReward,
+  RareFiVaultConfig,
+  RareFiVaultStats,
+  RewardStream,
+  SwapQuote,
+  UserLock,
+  VaultCallResult,
+  VaultGlobalState,
+} from './types';
+
+const METHODS = {
+  closeOut: algosdk.ABIMethod.fromSignature('closeOut()void'),
+  deposit: algosdk.ABIMethod.fromSignature('deposit(uint64)void'),
+  depositFor: algosdk.ABIMethod.fromSignature('depositFor(address,uint64)void'),
+  depositLocked: algosdk.ABIMethod.fromSignature('depositLocked(uint64,uint64)void'),
+  withdraw: algosdk.ABIMethod.fromSignature('withdraw(uint64)void'),
+  claim: algosdk.ABIMethod.fromSignature('claim()void'),
+  claimFor: algosdk.ABIMethod.fromSignature('claimFor(address)void'),
+  swapYield: algosdk.ABIMethod.fromSignature('swapYield(uint64)void'),
+  swapYieldWithMinOut: algosdk.ABIMethod.fromSignature('swapYieldWithMinOut(uint64,uint64)void'),
+  getVaultStats: algosdk.ABIMethod.fromSignature('getVaultStats()(uint64,uint64,uint64,uint64,uint64,uint64)'),
+  getPendingYield: algosdk.ABIMethod.fromSignature('getPendingYield(address)(uint64,uint64,uint64)'),
+  getUserDeposit: algosdk.ABIMethod.fromSignature('getUserDeposit(address)uint64'),
+  getSwapQuote: algosdk.ABIMethod.fromSignature('getSwapQuote()(uint64,uint64,uint64)'),
+  getBestSwapQuote: algosdk.ABIMethod.fromSignature('getBestSwapQuote()(uint64,uint64,uint64,uint64)'),
+  addCandidatePool: algosdk.ABIMethod.fromSignature('addCandidatePool(uint64,address)void'),
+  removeCandidatePool: algosdk.ABIMethod.fromSignature('removeCandidatePool(uint64)void'),
+  observePrice: algosdk.ABIMethod.fromSignature('observePrice()void'),
+  addRewardToken: algosdk.ABIMethod.fromSignature('addRewardToken(uint64,uint64)void'),
+  contributeReward: algosdk.ABIMethod.fromSignature('contributeReward()void'),
+  setRewardRate: algosdk.ABIMethod.fromSignature('setRewardRate(uint64,uint64)void'),
+  getUserLock: algosdk.ABIMethod.fromSignature('getUserLock(address)(uint64,uint64,uint64)'),
+  setSuccessorVault: algosdk.ABIMethod.fromSignature('setSuccessorVault(uint64)void'),
+  setPredecessorVault: algosdk.ABIMethod.fromSignature('setPredecessorVault(uint64)void'),
+  migrateTo: algosdk.ABIMethod.fromSignature('migrateTo(uint64,uint64)void'),
+  setYieldRecipient: algosdk.ABIMethod.fromSignature('setYieldRecipient(address)void'),
+  approveClaimer: algosdk.ABIMethod.fromSignature('approveClaimer(address)void'),
+  clearClaimSettings: algosdk.ABIMethod.fromSignature('clearClaimSettings()void'),
+  getClaimSettings: algosdk.ABIMethod.fromSignature('getClaimSettings(address)(address,address)'),
+  addStakeTarget: algosdk.ABIMethod.fromSignature('addStakeTarget(uint64)void'),
+  removeStakeTarget: algosdk.ABIMethod.fromSignature('removeStakeTarget(uint64)void'),
+  claimAndStake: algosdk.ABIMethod.fromSignature('claimAndStake(uint64,uint64)void'),
+  setZapPool: algosdk.ABIMethod.fromSignature('setZapPool(uint64,address)void'),
+  zapDeposit: algosdk.ABIMethod.fromSignature('zapDeposit(uint64,uint64)void'),
+  getZapQuote: algosdk.ABIMethod.fromSignature('getZapQuote(uint64)uint64'),
+};
+
+// Global state layout of the candidate pool allowlist (poolAppId 0 = empty slot)
+const CANDIDATE_POOLS_TYPE = algosdk.ABIType.from('(uint64,address)[2]');
+
+// Global state layout of the extra reward streams (assetId 0 = empty slot)
+const REWARD_STREAMS_TYPE = algosdk.ABIType.from('(uint64,uint64,uint64,uint64,uint64)[2]');
+
+// Global state layout of the claimAndStake allowlist (app ID 0 = empty slot)
+const STAKE_TARGETS_TYPE = algosdk.ABIType.from('uint64[2]');
+
+// Inner transactions issued by each method (outer fee = 1000 µALGO x (1 + inner))
+const SWAP_INNER_TXNS = 3;  // USDC transfer to pool + pool app call + pool output transfer
+const ROUTED_SWAP_INNER_TXNS = 6; // Both hops: (transfer in + pool app call + pool output transfer) x 2
+const CLOSE_OUT_INNER_TXNS = 3; // Deposit return + yield payout + MBR refund (plus one payout per reward token)
+const MIGRATE_INNER_TXNS = 4;   // Deposit + yield transfer to successor + acceptMigration call + MBR refund (plus successor auto-swap and reward payouts)
+const CLAIM_AND_STAKE_INNER_TXNS = 2; // Yield transfer to the target + depositFor call (plus the target's own inner txns)
+const ZAP_INNER_TXNS = 3;       // USDC transfer to the zap pool + pool app call + pool output transfer (plus the auto-swap)
+const POSITION_MBR = 54_100;    // 2500 + 400 * (33 key + 96 value)
+const CLAIM_SETTINGS_MBR = 41_300; // 2500 + 400 * (33 key + 64 value)
+
+/**
+ * Client for RareFiVault: deposit Alpha, earn the project token from USDC yield
+ */
+export class RareFiVaultClient extends BaseVaultClient<RareFiVaultConfig> {
+  protected parseConfig(state: VaultGlobalState): RareFiVaultConfig {
+    return {
+      depositAssetId: BaseVaultClient.uint(state, 'depositAsset'),
+      yieldAssetId: BaseVaultClient.uint(state, 'yieldAsset'),
+      swapAssetId: BaseVaultClient.uint(state, 'swapAsset'),
+      tinymanPoolAppId: BaseVaultClient.uint(state, 'tinymanPoolAppId'),
+      tinymanPoolAddress: BaseVaultClient.address(state, 'tinymanPoolAddress'),
+      // Absent on vaults deployed before routed swaps
+      hopPoolAppId: typeof state.hopPoolAppId === 'bigint' ? state.hopPoolAppId : 0n,
+      hopPoolAddress: typeof state.hopPoolAddress === 'string' ? state.hopPoolAddress : algosdk.ALGORAND_ZERO_ADDRESS_STRING,
+    };
+  }
+
+  protected rewardAssetId(config: RareFiVaultConfig): bigint {
+    return config.swapAssetId;
+  }
+
+  protected positionMbr(): number {
+    return POSITION_MBR;
+  }
+
+  protected eventSpecs(): VaultEventSpec[] {
+    return RAREFI_VAULT_EVENTS;
+  }
+
+  /**
+   * Pool references and inner txn count for the yield swap (direct, or routed via the hop pool)
+   */
+  private swapRoute(config: RareFiVaultConfig): { innerTxns: number; apps: bigint[]; accounts: string[] } {
+    if (config.hopPoolAppId === 0n) {
+      return { innerTxns: SWAP_INNER_TXNS, apps: [config.tinymanPoolAppId], accounts: [config.tinymanPoolAddress] };
+    }
+    return {
+      innerTxns: ROUTED_SWAP_INNER_TXNS,
+      apps: [config.tinymanPoolAppId, config.hopPoolAppId],
+      accounts: [config.tinymanPoolAddress, config.hopPoolAddress],
+    };
+  }
+
+  /**
+   * Swap route references plus every allowlisted candidate pool, since the vault picks the best route on-chain
+   */
+  private async bestExecutionRoute(config: RareFiVaultConfig): Promise<{ innerTxns: number; apps: bigint[]; accounts: string[] }> {
+    const route = this.swapRoute(config);
+    for (const pool of await this.getCandidatePools()) {
+      route.apps.push(pool.poolAppId);
+      if (!route.accounts.includes(pool.poolAddress)) {
+        route.accounts.push(pool.poolAddress);
+      }
+    }
+    return route;
+  }
+
+  /**
+   * Deposit Alpha. Includes pool references and fees for the auto-swap that runs
+   * when the vault's USDC balance has reached minSwapThreshold.
+   */
+  async deposit(amount: number | bigint, slippageBps: number | bigint): Promise<VaultCallResult> {
+    return this.submitDeposit(METHODS.deposit, [slippageBps], amount);
+  }
+
+  /**
+   * Deposit Alpha locked for one of the vault's lock tiers. The whole position earns
+   * at the tier's boost and can't be withdrawn until the lock expires.
+   *
+   * @param lockDuration - Lock tier duration in seconds (see getLockTiers)
+   */
+  async depositLocked(amount: number | bigint, slippageBps: number | bigint, lockDuration: number | bigint): Promise<VaultCallResult> {
+    return this.submitDeposit(METHODS.depositLocked, [slippageBps, lockDuration], amount);
+  }
+
+  /**
+   * Deposit Alpha funded by the sender into beneficiary's position (the beneficiary must have opted in)
+   */
+  async depositFor(beneficiary: string, amount: number | bigint, slippageBps: number | bigint): Promise<VaultCallResult> {
+    return this.submitDeposit(METHODS.depositFor, [beneficiary, slippageBps], amount, beneficiary);
+  }
+
+  private async submitDeposit(
+    method: algosdk.ABIMethod,
+    methodArgs: algosdk.ABIArgument[],
+    amount: number | bigint,
+    beneficiary: string = this.sender,
+  ): Promise<VaultCallResult> {
+    const config = await this.getConfig();
+    const { innerTxns, resources } = await this.depositReferences(beneficiary);
+    return this.call(method, methodArgs, innerTxns, resources, {
+      preceding: await this.assetTransfer(config.depositAssetId, amount),
+    });
+  }
+
+  /**
+   * Inner txn count and references of a deposit credited to beneficiary; also used by
+   * another RareFiVault's claimAndStake, which deposits here with an inner depositFor call
+   */
+  async depositReferences(beneficiary: string = this.sender): Promise<{ innerTxns: number; resources: CallResources }> {
+    const config = await this.getConfig();
+    const route = this.swapRoute(config);
+    return {
+      innerTxns: route.innerTxns,
+      resources: {
+        assets: [config.depositAssetId, config.yieldAssetId, config.swapAssetId],
+        apps: route.apps,
+        accounts: route.accounts,
+        boxes: [this.positionBoxName(beneficiary)],
+      },
+    };
+  }
+
+  /**
+   * @param amount - Alpha to withdraw (0 = withdraw all)
+   */
+  async withdraw(amount: number | bigint): Promise<VaultCallResult> {
+    const config = await this.getConfig();
+    return this.call(METHODS.withdraw, [amount], 1, {
+      assets: [config.depositAssetId],
+      boxes: [this.positionBoxName()],
+    });
+  }
+
+  /**
+   * Claim swapAsset yield (to the sender's yield recipient, if set) and every extra reward token the sender has opted into
+   */
+  async claim(): Promise<VaultCallResult> {
+    return this.submitClaim(METHODS.claim, [], this.sender);
+  }
+
+  /**
+   * Claim for a user who approved the sender with approveClaimer; payouts go to the user (or their yield recipient)
+   */
+  async claimFor(user: string): Promise<VaultCallResult> {
+    return this.submitClaim(METHODS.claimFor, [user], user);
+  }
+
+  private async submitClaim(method: algosdk.ABIMethod, methodArgs: algosdk.ABIArgument[], user: string): Promise<VaultCallResult> {
+    const config = await this.getConfig();
+    const rewardAssetIds = (await this.getRewardStreams()).map((stream) => stream.assetId);
+    const { recipient } = await this.getClaimSettings(user);
+    const accounts = [user, recipient].filter((a) => a !== this.sender && a !== algosdk.ALGORAND_ZERO_ADDRESS_STRING);
+    return this.call(method, methodArgs, 1 + rewardAssetIds.length, {
+      assets: [config.swapAssetId, ...rewardAssetIds],
+      accounts,
+      boxes: [this.positionBoxName(user), this.claimSettingsBoxName(user)],
+    });
+  }
+
+  /**
+   * Fails if the sender has earned an extra reward token they haven't opted into
+   */
+  async closeOut(): Promise<VaultCallResult> {
+    const config = await this.getConfig();
+    const rewardAssetIds = (await this.getRewardStreams()).map((stream) => stream.assetId);
+    return this.call(METHODS.closeOut, [], CLOSE_OUT_INNER_TXNS + rewardAssetIds.length, {
+      assets: [config.depositAssetId, config.swapAssetId, ...rewardAssetIds],
+      boxes: [this.positionBoxName()],
+    });
+  }
+
+  /**
+   * @param minAmountOut - Optional absolute swapAsset floor, enforced on top of slippageBps
+   */
+  async swapYield(slippageBps: number | bigint, minAmountOut?: number | bigint): Promise<VaultCallResult> {
+    const config = await this.getConfig();
+    const route = await this.bestExecutionRoute(config);
+    const [method, args] = minAmountOut
+      ? [METHODS.swapYieldWithMinOut, [slippageBps, minAmountOut]]
+      : [METHODS.swapYield, [slippageBps]];
+    return this.call(method, args, route.innerTxns, {
+      assets: [config.yieldAssetId, config.swapAssetId],
+      apps: route.apps,
+      accounts: route.accounts,
+    });
+  }
+
+  async getVaultStats(): Promise<RareFiVaultStats> {
+    const [totalDeposits, yieldPerToken, creatorUnclaimedYield, usdcBalance, swapAssetBalance, totalYieldGenerated] =
+      await this.simulateTuple(METHODS.getVaultStats);
+    return { totalDeposits, yieldPerToken, creatorUnclaimedYield, usdcBalance, swapAssetBalance, totalYieldGenerated };
+  }
+
+  /**
+   * Pending swapAsset yield (see getPendingRewards for extra reward tokens)
+   */
+  async getPendingYield(user: string = this.sender): Promise<bigint> {
+    const [pending] = await this.simulateTuple(METHODS.getPendingYield, [user]);
+    return pending;
+  }
+
+  /**
+   * Pending amount of each extra reward token
+   */
+  async getPendingRewards(user: string = this.sender): Promise<PendingReward[]> {
+    const [, ...perSlot] = await this.simulateTuple(METHODS.getPendingYield, [user]);
+    return (await this.getRewardStreams()).map((stream) => ({ assetId: stream.assetId, amount: perSlot[stream.slot] }));
+  }
+
+  async getUserDeposit(user: string = this.sender): Promise<bigint> {
+    return this.simulateUint(METHODS.getUserDeposit, [user]);
+  }
+
+  async getUserLock(user: string = this.sender): Promise<UserLock> {
+    const [weight, boostBps, lockedUntil] = await this.simulateTuple(METHODS.getUserLock, [user]);
+    return { weight, boostBps, lockedUntil };
+  }
+
+  async getSwapQuote(): Promise<SwapQuote> {
+    const [yieldBalance, expectedOutput, minOutputAt50Bps] = await this.simulateTuple(METHODS.getSwapQuote);
+    return { yieldBalance, expectedOutput, minOutputAt50Bps };
+  }
+
+  /**
+   * Record a TWAP observation without swapping (keeps the price oracle fresh between swaps)
+   */
+  async observePrice(): Promise<VaultCallResult> {
+    const route = this.swapRoute(await this.getConfig());
+    return this.call(METHODS.observePrice, [], 0, { apps: route.apps, accounts: route.accounts });
+  }
+
+  async getBestSwapQuote(): Promise<BestSwapQuote> {
+    const [yieldBalance, routeIndex, poolAppId, expectedOutput] = await this.simulateTuple(METHODS.getBestSwapQuote);
+    return { yieldBalance, routeIndex, poolAppId, expectedOutput };
+  }
+
+  /**
+   * Allowlisted candidate pools (empty slots omitted; empty on vaults deployed before best-execution routing)
+   */
+  async getCandidatePools(): Promise<CandidatePool[]> {
+    const raw = await this.getGlobalBytes('candidatePools');
+    if (!raw) {
+      return [];
+    }
+    const slots = CANDIDATE_POOLS_TYPE.decode(raw) as [bigint, string][];
+    return slots
+      .map(([poolAppId, poolAddress]) => ({ poolAppId: BigInt(poolAppId), poolAddress }))
+      .filter((pool) => pool.poolAppId !== 0n);
+  }
+
+  /**
+   * Allowlist an alternative pool for best-execution swaps (creator or RareFi only)
+   */
+  async addCandidatePool(poolAppId: number | bigint, poolAddress: string): Promise<VaultCallResult> {
+    return this.call(METHODS.addCandidatePool, [poolAppId, poolAddress], 0, { apps: [BigInt(poolAppId)], accounts: [poolAddress] });
+  }
+
+  async removeCandidatePool(poolAppId: number | bigint): Promise<VaultCallResult> {
+    return this.call(METHODS.removeCandidatePool, [poolAppId], 0);
+  }
+
+  /**
+   * Extra reward streams (empty slots omitted; empty on vaults deployed before reward tokens)
+   */
+  async getRewardStreams(): Promise<RewardStream[]> {
+    const raw = await this.getGlobalBytes('rewardStreams');
+    if (!raw) {
+      return [];
+    }
+    const slots = REWARD_STREAMS_TYPE.decode(raw) as bigint[][];
+    return slots
+      .map(([assetId, rewardPerToken, farmBalance, ratePerSecond, lastUpdateTime], slot) => ({
+        slot,
+        assetId: BigInt(assetId),
+        rewardPerToken: BigInt(rewardPerToken),
+        farmBalance: BigInt(farmBalance),
+        ratePerSecond: BigInt(ratePerSecond),
+        lastUpdateTime: BigInt(lastUpdateTime),
+      }))
+      .filter((stream) => stream.assetId !== 0n);
+  }
+
+  /**
+   * Add an extra reward token released at ratePerSecond (creator only; the vault opts into it)
+   */
+  async addRewardToken(assetId: number | bigint, ratePerSecond: number | bigint): Promise<VaultCallResult> {
+    return this.call(METHODS.addRewardToken, [assetId, ratePerSecond], 1, { assets: [BigInt(assetId)] });
+  }
+
+  /**
+   * Fund an extra reward stream with its token
+   */
+  async contributeReward(assetId: number | bigint, amount: number | bigint): Promise<VaultCallResult> {
+    return this.call(METHODS.contributeReward, [], 0, { assets: [BigInt(assetId)] }, {
+      preceding: await this.assetTransfer(BigInt(assetId), amount),
+    });
+  }
+
+  async setRewardRate(assetId: number | bigint, ratePerSecond: number | bigint): Promise<VaultCallResult> {
+    return this.call(METHODS.setRewardRate, [assetId, ratePerSecond], 0);
+  }
+
+  // ============================================
+  // CLAIM ROUTING
+  // ============================================
+
+  /**
+   * Send the sender's claimed yield to recipient (zero address = back to the sender).
+   * The first claim setting also pays the claim settings box MBR, refunded by clearClaimSettings.
+   */
+  async setYieldRecipient(recipient: string): Promise<VaultCallResult> {
+    return this.submitClaimSetting(METHODS.setYieldRecipient, recipient);
+  }
+
+  /**
+   * Let claimer call claimFor on the sender's position (zero address = revoke)
+   */
+  async approveClaimer(claimer: string): Promise<VaultCallResult> {
+    return this.submitClaimSetting(METHODS.approveClaimer, claimer);
+  }
+
+  async clearClaimSettings(): Promise<VaultCallResult> {
+    return this.call(METHODS.clearClaimSettings, [], 1, { boxes: [this.claimSettingsBoxName()] });
+  }
+
+  async getClaimSettings(user: string = this.sender): Promise<ClaimSettings> {
+    const [recipient, claimer] = (await this.simulate(METHODS.getClaimSettings, [user])) as string[];
+    return { recipient, claimer };
+  }
+
+  private async submitClaimSetting(method: algosdk.ABIMethod, account: string): Promise<VaultCallResult> {
+    const boxName = this.claimSettingsBoxName();
+    return this.call(method, [account], 0, { boxes: [this.positionBoxName(), boxName] }, {
+      preceding: (await this.hasBox(boxName)) ? undefined : await this.payment(CLAIM_SETTINGS_MBR),
+    });
+  }
+
+  // ============================================
+  // MIGRATION
+  // ============================================
+
+  async setSuccessorVault(successorAppId: number | bigint): Promise<VaultCallResult> {
+    return this.call(METHODS.setSuccessorVault, [successorAppId], 0, { apps: BigInt(successorAppId) === 0n ? [] : [BigInt(successorAppId)] });
+  }
+
+  /**
+   * Approve the vault whose users may migrate into this one (called on the successor)
+   */
+  async setPredecessorVault(predecessorAppId: number | bigint): Promise<VaultCallResult> {
+    return this.call(METHODS.setPredecessorVault, [predecessorAppId], 0, { apps: BigInt(predecessorAppId) === 0n ? [] : [BigInt(predecessorAppId)] });
+  }
+
+  /**
+   * Move the sender's position into the approved successor vault, less any exit fee.
+   * The sender must already have opted into the successor, and the successor must
+   * have approved this vault with setPredecessorVault; includes the
+   * successor's pool references and fees for its auto-swap.
+   */
+  async migrateTo(successorAppId: number | bigint, slippageBps: number | bigint): Promise<VaultCallResult> {
+    const config = await this.getConfig();
+    const rewardAssetIds = (await this.getRewardStreams()).map((stream) => stream.assetId);
+    const successor = new RareFiVaultClient({ algod: this.algod, appId: successorAppId, sender: this.sender, signer: this.signer });
+    const successorConfig = await successor.getConfig();
+    const route = successor.swapRoute(successorConfig);
+    return this.call(METHODS.migrateTo, [successorAppId, slippageBps], MIGRATE_INNER_TXNS + rewardAssetIds.length + route.innerTxns, {
+      assets: [config.depositAssetId, config.swapAssetId, successorConfig.yieldAssetId, ...rewardAssetIds],
+      apps: [BigInt(successorAppId), ...route.apps],
+      accounts: route.accounts,
+      boxes: [this.positionBoxName()],
+      appBoxes: [{ appIndex: BigInt(successorAppId), name: successor.positionBoxName() }],
+    });
+  }
+
+  // ============================================
+  // CLAIM AND STAKE
+  // ============================================
+
+  /**
+   * Allowlisted vaults claimAndStake can deposit into (empty slots omitted; empty on vaults deployed before claimAndStake)
+   */
+  async getStakeTargets(): Promise<bigint[]> {
+    const raw = await this.getGlobalBytes('stakeTargets');
+    if (!raw) {
+      return [];
+    }
+    return (STAKE_TARGETS_TYPE.decode(raw) as bigint[]).map((appId) => BigInt(appId)).filter((appId) => appId !== 0n);
+  }
+
+  /**
+   * Allowlist a vault whose deposit asset is this vault's swapAsset (creator or RareFi only)
+   */
+  async addStakeTarget(targetAppId: number | bigint): Promise<VaultCallResult> {
+    return this.call(METHODS.addStakeTarget, [targetAppId], 0, { apps: [BigInt(targetAppId)] });
+  }
+
+  async removeStakeTarget(targetAppId: number | bigint): Promise<VaultCallResult> {
+    return this.call(METHODS.removeStakeTarget, [targetAppId], 0);
+  }
+
+  /**
+   * Deposit the sender's earned yield into an allowlisted vault in the sender's name.
+   * The sender must be able to receive the deposit there (opted in, or holding the share ASA);
+   * includes the target's deposit references and fees for its auto-swap.
+   */
+  async claimAndStake(targetAppId: number | bigint, slippageBps: number | bigint): Promise<VaultCallResult> {
+    const config = await this.getConfig();
+    const target = await this.stakeTargetClient(targetAppId);
+    const deposit = await target.depositReferences();
+    const assets = new Set([config.swapAssetId, ...(deposit.resources.assets ?? []).map((id) => BigInt(id))]);
+    return this.call(METHODS.claimAndStake, [targetAppId, slippageBps], CLAIM_AND_STAKE_INNER_TXNS + deposit.innerTxns, {
+      assets: [...assets],
+      apps: [BigInt(targetAppId), ...(deposit.resources.apps ?? [])],
+      accounts: deposit.resources.accounts,
+      boxes: [this.positionBoxName()],
+      appBoxes: (deposit.resources.boxes ?? []).map((name) => ({ appIndex: BigInt(targetAppId), name })),
+    });
+  }
+
+  /**
+   * Client for a stake target: a compounding vault (has alphaAsset) or another RareFiVault
+   */
+  private async stakeTargetClient(targetAppId: number | bigint): Promise<CompoundingVaultClient | RareFiVaultClient> {
+    const options = { algod: this.algod, appId: targetAppId, sender: this.sender, signer: this.signer };
+    const compounding = new CompoundingVaultClient(options);
+    const state = await compounding.getGlobalState();
+    return typeof state.alphaAsset === 'bigint' ? compounding : new RareFiVaultClient(options);
+  }
+
+  // ============================================
+  // ZAP DEPOSIT
+  // ============================================
+
+  /**
+   * Pool zapDeposit swaps USDC through (undefined when zaps are disabled or the vault predates them)
+   */
+  async getZapPool(): Promise<CandidatePool | undefined> {
+    const state = await this.getGlobalState();
+    if (typeof state.zapPoolAppId !== 'bigint' || state.zapPoolAppId === 0n) {
+      return undefined;
+    }
+    return { poolAppId: state.zapPoolAppId, poolAddress: BaseVaultClient.address(state, 'zapPoolAddress') };
+  }
+
+  /**
+   * Set the USDC/depositAsset pool used by zapDeposit; poolAppId 0 disables zaps (creator or RareFi only)
+   */
+  async setZapPool(poolAppId: number | bigint, poolAddress: string = algosdk.ALGORAND_ZERO_ADDRESS_STRING): Promise<VaultCallResult> {
+    const resources = BigInt(poolAppId) === 0n ? {} : { apps: [BigInt(poolAppId)], accounts: [poolAddress] };
+    return this.call(METHODS.setZapPool, [poolAppId, poolAddress], 0, resources);
+  }
+
+  /**
+   * Expected Alpha out of the zap pool for usdcAmount (0 when zaps are disabled)
+   */
+  async getZapQuote(usdcAmount: number | bigint): Promise<bigint> {
+    return this.simulateUint(METHODS.getZapQuote, [usdcAmount]);
+  }
+
+  /**
+   * Deposit USDC, swapped to Alpha through the zap pool and credited as a deposit.
+   * Includes the deposit's auto-swap references; quote minDepositOut with getZapQuote.
+   *
+   * @param minDepositOut - Minimum Alpha the zap swap must return
+   */
+  async zapDeposit(usdcAmount: number | bigint, slippageBps: number | bigint, minDepositOut: number | bigint): Promise<VaultCallResult> {
+    const config = await this.getConfig();
+    const zapPool = await this.getZapPool();
+    if (!zapPool) {
+      throw new Error('Vault has no zap pool');
+    }
+    const { innerTxns, resources } = await this.depositReferences();
+    return this.call(METHODS.zapDeposit, [slippageBps, minDepositOut], innerTxns + ZAP_INNER_TXNS, {
+      ...resources,
+      apps: [...new Set([...(resources.apps ?? []), zapPool.poolAppId])],
+      accounts: [...new Set([...(resources.accounts ?? []), zapPool.poolAddress])],
+    }, {
+      preceding: await this.assetTransfer(config.yieldAssetId, usdcAmount),
+    });
+  }
+}
@@ -0,0 +1,154 @@
+import algosdk from 'algosdk';
+import { createHash } from 'crypto';
+import { VaultEvent } from './types';
+
+/**
+ * ARC-28 event definition: name plus ordered argument names and ABI types
+ */
+export interface VaultEventSpec {
+  name: string;
+  args: { name: string; type: 'address' | 'uint64' }[];
+}
+
+const event = (name: string, ...args: [string, 'address' | 'uint64'][]): VaultEventSpec => ({
+  name,
+  args: args.map(([argName, type]) => ({ name: argName, type })),
+});
+
+// Shared by all three vaults
+const CREATOR_CLAIM = event('CreatorClaim', ['creator', 'address'], ['amount', 'uint64']);
+const FARM_CONTRIBUTED = event('FarmContributed', ['from', 'address'], ['amount', 'uint64']);
+const EMISSION_RATIO_SET = event('EmissionRatioSet', ['newRatio', 'uint64']);
+const FARM_SCHEDULED = event('FarmScheduled', ['from', 'address'], ['slot', 'uint64'], ['startTime', 'uint64'], ['endTime', 'uint64'], ['amount', 'uint64']);
+const FARM_STREAMED = event('FarmStreamed', ['amount', 'uint64'], ['creatorCut', 'uint64']);
+const LOCK_TIER_SET = event('LockTierSet', ['slot', 'uint64'], ['duration', 'uint64'], ['boostBps', 'uint64']);
+const EXIT_FEE_SET = event('ExitFeeSet', ['exitFeeBps', 'uint64'], ['exitFeePeriod', 'uint64']);
+const EXIT_FEE_CHARGED = event('ExitFeeCharged', ['user', 'address'], ['fee', 'uint64']);
+const SWAP_ROUTE_SELECTED = event('SwapRouteSelected', ['routeIndex', 'uint64'], ['poolAppId', 'uint64'], ['expectedOutput', 'uint64']);
+
+// RareFiVault and RareFiFolksVault claim routing
+const YIELD_RECIPIENT_SET = event('YieldRecipientSet', ['user', 'address'], ['recipient', 'address']);
+const CLAIMER_APPROVED = event('ClaimerApproved', ['user', 'address'], ['claimer', 'address']);
+const CLAIM_SETTINGS_CLEARED = event('ClaimSettingsCleared', ['user', 'address']);
+
+// RareFiVault and RareFiAlphaCompoundingVault zap deposits
+const ZAP_POOL_SET = event('ZapPoolSet', ['poolAppId', 'uint64']);
+const ZAPPED = event('Zapped', ['user', 'address'], ['usdcIn', 'uint64'], ['depositOut', 'uint64']);
+
+export const RAREFI_VAULT_EVENTS: VaultEventSpec[] = [
+  event('Deposit', ['user', 'address'], ['amount', 'uint64']),
+  event('Withdraw', ['user', 'address'], ['amount', 'uint64']),
+  event('CloseOut', ['user', 'address'], ['amount', 'uint64'], ['yieldClaimed', 'uint64']),
+  event('Claim', ['user', 'address'], ['amount', 'uint64']),
+  event('YieldSwapped', ['usdcIn', 'uint64'], ['swapOut', 'uint64'], ['farmBonus', 'uint64'], ['creatorCut', 'uint64']),
+  SWAP_ROUTE_SELECTED,
+  CREATOR_CLAIM,
+  FARM_CONTRIBUTED,
+  FARM_SCHEDULED,
+  FARM_STREAMED,
+  EMISSION_RATIO_SET,
+  event('RewardTokenAdded', ['assetId', 'uint64'], ['slot', 'uint64'], ['ratePerSecond', 'uint64']),
+  event('RewardContributed', ['from', 'address'], ['assetId', 'uint64'], ['amount', 'uint64']),
+  event('RewardRateSet', ['assetId', 'uint64'], ['ratePerSecond', 'uint64']),
+  event('RewardClaimed', ['user', 'address'], ['assetId', 'uint64'], ['amount', 'uint64']),
+  event('Locked', ['user', 'address'], ['lockedUntil', 'uint64'], ['boostBps', 'uint64']),
+  event('LockReleased', ['user', 'address']),
+  LOCK_TIER_SET,
+  EXIT_FEE_SET,
+  EXIT_FEE_CHARGED,
+  event('SuccessorVaultSet', ['successorAppId', 'uint64']),
+  event('PredecessorVaultSet', ['predecessorAppId', 'uint64']),
+  event('Migrated', ['user', 'address'], ['successorAppId', 'uint64'], ['amount', 'uint64'], ['yieldAmount', 'uint64']),
+  event('MigrationReceived', ['user', 'address'], ['predecessorAppId', 'uint64'], ['amount', 'uint64'], ['yieldAmount', 'uint64']),
+  YIELD_RECIPIENT_SET,
+  CLAIMER_APPROVED,
+  CLAIM_SETTINGS_CLEARED,
+  event('StakeTargetAdded', ['targetAppId', 'uint64'], ['slot', 'uint64']),
+  event('StakeTargetRemoved', ['targetAppId', 'uint64']),
+  event('YieldStaked', ['user', 'address'], ['targetAppId', 'uint64'], ['amount', 'uint64']),
+  ZAP_POOL_SET,
+  ZAPPED,
+];
+
+export const COMPOUNDING_VAULT_EVENTS: VaultEventSpec[] = [
+  event('Deposit', ['user', 'address'], ['amount', 'uint64'], ['sharesMinted', 'uint64']),
+  event('Withdraw', ['user', 'address'], ['sharesBurned', 'uint64'], ['amount', 'uint64']),
+  event('CloseOut', ['user', 'address'], ['sharesBurned', 'uint64'], ['amount', 'uint64']),
+  event('YieldCompounded', ['usdcIn', 'uint64'], ['swapOut', 'uint64'], ['farmBonus', 'uint64'], ['creatorCut', 'uint64']),
+  SWAP_ROUTE_SELECTED,
+  CREATOR_CLAIM,
+  FARM_CONTRIBUTED,
+  FARM_SCHEDULED,
+  FARM_STREAMED,
+  EMISSION_RATIO_SET,
+  event('Locked', ['user', 'address'], ['lockedUntil', 'uint64'], ['sharesLocked', 'uint64'], ['bonusShares', 'uint64']),
+  event('LockReleased', ['user', 'address'], ['sharesBurned', 'uint64']),
+  LOCK_TIER_SET,
+  EXIT_FEE_SET,
+  EXIT_FEE_CHARGED,
+  ZAP_POOL_SET,
+  ZAPPED,
+];
+
+export const FOLKS_VAULT_EVENTS: VaultEventSpec[] = [
+  event('Deposit', ['user', 'address'], ['amount', 'uint64'], ['fTokensMinted', 'uint64']),
+  event('Withdraw', ['user', 'address'], ['amount', 'uint64'], ['underlyingReceived', 'uint64'], ['pendingYield', 'uint64']),
+  event('EmergencyWithdraw', ['user', 'address'], ['amount', 'uint64'], ['fTokensSent', 'uint64']),
+  event('CloseOut', ['user', 'address'], ['amount', 'uint64'], ['yieldClaimed', 'uint64']),
+  event('Claim', ['user', 'address'], ['amount', 'uint64']),
+  event('YieldHarvested', ['fTokensRedeemed', 'uint64'], ['underlyingReceived', 'uint64']),
+  event('YieldSwapped', ['depositIn', 'uint64'], ['swapOut', 'uint64'], ['farmBonus', 'uint64'], ['creatorCut', 'uint64']),
+  CREATOR_CLAIM,
+  FARM_CONTRIBUTED,
+  FARM_SCHEDULED,
+  FARM_STREAMED,
+  EMISSION_RATIO_SET,
+  event('Locked', ['user', 'address'], ['lockedUntil', 'uint64'], ['boostBps', 'uint64']),
+  event('LockReleased', ['user', 'address']),
+  LOCK_TIER_SET,
+  EXIT_FEE_SET,
+  EXIT_FEE_CHARGED,
+  YIELD_RECIPIENT_SET,
+  CLAIMER_APPROVED,
+  CLAIM_SETTINGS_CLEARED,
+];
+
+/**
+ * ARC-28 signature, e.g. 'Deposit(address,uint64)'
+ */
+export function eventSignature(spec: VaultEventSpec): string {
+  return `${spec.name}(${spec.args.map((a) => a.type).join(',')})`;
+}
+
+/**
+ * ARC-28 selector: first 4 bytes of sha512_256 of the signature
+ */
+export function eventSelector(spec: VaultEventSpec): Uint8Array {
+  return new Uint8Array(createHash('sha512-256').update(eventSignature(spec)).digest().subarray(0, 4));
+}
+
+const hex = (bytes: Uint8Array) => Buffer.from(bytes).toString('hex');
+
+/**
+ * Decode the ARC-28 events in an app call's logs. Logs that don't match
+ * a known selector (e.g. the ABI return value) are skipped.
+ */
+export function decodeVaultEvents(logs: Uint8Array[], specs: VaultEventSpec[]): VaultEvent[] {
+  const bySelector = new Map(specs.map((spec) => [hex(eventSelector(spec)), spec]));
+  const events: VaultEvent[] = [];
+
+  for (const log of logs) {
+    if (log.length < 4) continue;
+    const spec = bySelector.get(hex(log.subarray(0, 4)));
+    if (!spec) continue;
+
+    const values = algosdk.ABIType.from(`(${spec.args.map((a) => a.type).join(',')})`).decode(log.subarray(4)) as (bigint | string)[];
+    const args: Record<string, bigint | string> = {};
+    spec.args.forEach((arg, i) => {
+      args[arg.name] = values[i];
+    });
+    events.push({ name: spec.name, args });
+  }
+
+  return events;
+}
@@ -0,0 +1,14 @@
+export { BaseVaultClient, CallResources } from './BaseVaultClient';
+export { RareFiVaultClient } from './RareFiVaultClient';
+export { CompoundingVaultClient } from './CompoundingVaultClient';
+export { FolksVaultClient } from './FolksVaultClient';
+export {
+  decodeVaultEvents,
+  eventSelector,
+  eventSignature,
+  VaultEventSpec,
+  RAREFI_VAULT_EVENTS,
+  COMPOUNDING_VAULT_EVENTS,
+  FOLKS_VAULT_EVENTS,
+} from './events';
+export * from './types';
@@ -0,0 +1,198 @@
+import algosdk from 'algosdk';
+
+export interface VaultClientOptions {
+  algod: algosdk.Algodv2;
+  appId: number | bigint;
+  sender: string | algosdk.Address;  // Account that signs and pays for calls
+  signer: algosdk.TransactionSigner;
+  waitRounds?: number;               // Rounds to wait for confirmation (default 5)
+}
+
+export interface VaultCallResult {
+  txIds: string[];
+  confirmedRound: bigint;
+  events: VaultEvent[];        // ARC-28 events logged by the vault's app calls
+}
+
+/**
+ * Decoded ARC-28 event: uint64 args as bigint, address args as strings
+ */
+export interface VaultEvent {
+  name: string;
+  args: Record<string, bigint | string>;
+}
+
+/**
+ * Global state decoded by key: uint64 values as bigint, 32-byte values as addresses
+ */
+export type VaultGlobalState = Record<string, bigint | string>;
+
+export interface FarmStats {
+  farmBalance: bigint;
+  emissionRatio: bigint;
+  currentDynamicRate: bigint;  // Basis points of swap output added from the farm
+  scheduledAmount: bigint;     // Total of the active farm schedules
+  scheduledRemaining: bigint;  // Part of scheduledAmount not vested yet
+}
+
+export interface FarmSchedule {
+  slot: number;
+  startTime: bigint;           // Unix timestamps; amount vests linearly between them
+  endTime: bigint;
+  amount: bigint;
+  released: bigint;            // Streamed to depositors as of the last vault call
+}
+
+export interface LockTier {
+  slot: number;
+  duration: bigint;            // Seconds a depositLocked deposit stays locked
+  boostBps: bigint;            // Yield weight of the locked position (10000 = 1x)
+}
+
+export interface ExitFee {
+  exitFeeBps: bigint;          // Fee on a withdrawal made right after depositing (0n = disabled)
+  exitFeePeriod: bigint;       // Seconds over which the fee decays linearly to zero
+  userFeeBps: bigint;          // Fee the user would pay on a withdrawal now
+}
+
+export interface ClaimSettings {
+  recipient: string;           // Receives claimed yield (zero address = the position owner)
+  claimer: string;             // Operator allowed to call claimFor (zero address = none)
+}
+
+export interface PauseState {
+  isPaused: boolean;
+  pausedUntil: bigint;         // Unix timestamp the pause expires at (0n = never paused or lifted)
+  secondsRemaining: bigint;
+}
+
+export interface PriceOracle {
+  spotPrice: bigint;           // Current swap output for 1 input token (6 decimals)
+  twapPrice: bigint;           // Time-weighted price over the last completed window
+  lastObservationTime: bigint; // Unix timestamp of the last observation (0n = not seeded)
+  maxPriceDeviationBps: bigint;
+}
+
+export interface SwapQuote {
+  yieldBalance: bigint;        // Vault's swappable USDC balance
+  expectedOutput: bigint;      // Expected output at current pool reserves
+  minOutputAt50Bps: bigint;    // Expected output minus 0.5% slippage
+}
+
+export interface CandidatePool {
+  poolAppId: bigint;
+  poolAddress: string;
+}
+
+export interface BestSwapQuote {
+  yieldBalance: bigint;        // Vault's swappable USDC balance
+  routeIndex: bigint;          // 0 = creation route, i = candidate pool slot i - 1
+  poolAppId: bigint;           // First pool of the chosen route
+  expectedOutput: bigint;      // Expected output on the chosen route
+}
+
+// ============================================
+// RareFiVault
+// ============================================
+
+export interface RareFiVaultConfig {
+  depositAssetId: bigint;
+  yieldAssetId: bigint;
+  swapAssetId: bigint;
+  tinymanPoolAppId: bigint;
+  tinymanPoolAddress: string;
+  hopPoolAppId: bigint;        // Second (ALGO/swapAsset) pool, 0n = direct swap
+  hopPoolAddress: string;
+}
+
+export interface RareFiVaultStats {
+  totalDeposits: bigint;
+  yieldPerToken: bigint;
+  creatorUnclaimedYield: bigint;
+  usdcBalance: bigint;
+  swapAssetBalance: bigint;
+  totalYieldGenerated: bigint;
+}
+
+export interface RewardStream {
+  slot: number;
+  assetId: bigint;
+  rewardPerToken: bigint;      // Accumulator (scaled by 1e12) as of lastUpdateTime
+  farmBalance: bigint;         // Contributed and not yet released, as of lastUpdateTime
+  ratePerSecond: bigint;
+  lastUpdateTime: bigint;
+}
+
+export interface PendingReward {
+  assetId: bigint;
+  amount: bigint;
+}
+
+/**
+ * Lock state of a RareFiVault or RareFiFolksVault position (the whole deposit is locked)
+ */
+export interface UserLock {
+  weight: bigint;              // Deposit x boostBps / 10000, the position's share of yield
+  boostBps: bigint;            // 10000 once the lock is released
+  lockedUntil: bigint;         // Unix timestamp withdrawals unlock at (0n = never locked)
+}
+
+// ============================================
+// RareFiAlphaCompoundingVault
+// ============================================
+
+export interface CompoundingVaultConfig {
+  alphaAssetId: bigint;
+  usdcAssetId: bigint;
+  tinymanPoolAppId: bigint;
+  tinymanPoolAddress: string;
+  hopPoolAppId: bigint;        // Second (ALGO/Alpha) pool, 0n = direct swap
+  hopPoolAddress: string;
+  shareAssetId: bigint;        // Share ASA (0n = shares held in position boxes)
+}
+
+export interface CompoundingVaultStats {
+  totalShares: bigint;
+  totalAlpha: bigint;
+  creatorUnclaimedAlpha: bigint;
+  usdcBalance: bigint;
+  totalYieldCompounded: bigint;
+  sharePrice: bigint;          // Alpha per share, scaled by 1e12
+}
+
+export interface CompoundingUserLock {
+  lockedUntil: bigint;         // Unix timestamp the locked shares unlock at
+  lockedShares: bigint;        // Shares minted by locked deposits
+  bonusShares: bigint;         // Boost shares, burned down to their earnings on release
+  bonusBasis: bigint;          // Virtual Alpha backing the boost shares
+}
+
+// ============================================
+// RareFiFolksVault
+// ============================================
+
+export interface FolksVaultConfig {
+  depositAssetId: bigint;
+  fTokenAssetId: bigint;
+  swapAssetId: bigint;
+  folksPoolAppId: bigint;
+  folksPoolAddress: string;
+  folksPoolManagerAppId: bigint;
+  tinymanPoolAppId: bigint;
+  tinymanPoolAddress: string;
+}
+
+export interface FolksVaultStats {
+  totalDeposits: bigint;
+  yieldPerToken: bigint;
+  creatorUnclaimedYield: bigint;
+  depositAssetBalance: bigint; // Redeemed underlying waiting to be swapped
+  yieldFTokens: bigint;        // Harvestable fTokens above the principal baseline
+  totalYieldGenerated: bigint;
+}
+
+export interface HarvestQuote {
+  yieldFTokens: bigint;        // What harvestAll would redeem
+  estimatedUnderlying: bigint; // At the fToken rate of the vault's last Folks deposit/redeem (errs low)
+  expectedSwapOutput: bigint;  // For the redeemed plus already-held underlying; 0 if below minSwapThreshold
+}
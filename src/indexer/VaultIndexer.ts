@@ -0,0 +1,441 @@
+import algosdk from 'algosdk';
+import initSqlJs, { Database, SqlValue } from 'sql.js';
+import fs from 'fs';
+import {
+  decodeVaultEvents,
+  VaultEvent,
+  VaultEventSpec,
+  RAREFI_VAULT_EVENTS,
+  COMPOUNDING_VAULT_EVENTS,
+  FOLKS_VAULT_EVENTS,
+} from '../client';
+import { SCHEMA } from './schema';
+import { SyncResult, UserRecord, VaultIndexerOptions, VaultType } from './types';
+
+const PAGE_LIMIT = 1000;               // Transactions per indexer page
+const SECONDS_PER_YEAR = 31_536_000;   // 365 days
+
+const EVENT_SPECS: Record<VaultType, VaultEventSpec[]> = {
+  RareFiVault: RAREFI_VAULT_EVENTS,
+  RareFiAlphaCompoundingVault: COMPOUNDING_VAULT_EVENTS,
+  RareFiFolksVault: FOLKS_VAULT_EVENTS,
+};
+
+// Calls that change user positions or vault yield; admin and readonly calls are not indexed
+const TRACKED_METHODS: Record<VaultType, string[]> = {
+  RareFiVault: [
+    'deposit(uint64)void',
+    'depositFor(address,uint64)void',
+    'depositLocked(uint64,uint64)void',
+    'zapDeposit(uint64,uint64)void',
+    'withdraw(uint64)void',
+    'claim()void',
+    'claimFor(address)void',
+    'claimAndStake(uint64,uint64)void',
+    'closeOut()void',
+    'releaseLock(address)void',
+    'migrateTo(uint64,uint64)void',
+    'acceptMigration(address,uint64,uint64)void',
+    'swapYield(uint64)void',
+    'swapYieldWithMinOut(uint64,uint64)void',
+  ],
+  RareFiAlphaCompoundingVault: [
+    'deposit(uint64)void',
+    'depositFor(address,uint64)void',
+    'depositLocked(uint64,uint64)void',
+    'zapDeposit(uint64,uint64)void',
+    'withdraw(uint64)void',
+    'closeOut()void',
+    'releaseLock(address)void',
+    'compoundYield(uint64)void',
+    'compoundYieldWithMinOut(uint64,uint64)void',
+  ],
+  RareFiFolksVault: [
+    'deposit()void',
+    'depositFor(address)void',
+    'depositLocked(uint64)void',
+    'withdraw(uint64)void',
+    'emergencyWithdraw(uint64)void',
+    'claim()void',
+    'claimFor(address)void',
+    'closeOut()void',
+    'releaseLock(address)void',
+    'harvestYield(uint64,uint64)void',
+    'harvestYieldWithMinOut(uint64,uint64,uint64)void',
+    'harvestAll(uint64)void',
+    'swapYield(uint64)void',
+    'swapYieldWithMinOut(uint64,uint64)void',
+  ],
+};
+
+/**
+ * Load sql.js and open a database, reading it from `path` when the file exists.
+ * Call `saveIndexerDatabase` to persist it.
+ */
+export async function openIndexerDatabase(path?: string): Promise<Database> {
+  const SQL = await initSqlJs();
+  const db = path !== undefined && fs.existsSync(path) ? new SQL.Database(fs.readFileSync(path)) : new SQL.Database();
+  db.exec(SCHEMA);
+  return db;
+}
+
+export function saveIndexerDatabase(db: Database, path: string): void {
+  fs.writeFileSync(path, Buffer.from(db.export()));
+}
+
+/**
+ * Vault call found in the indexer response, with the context inherited from its root transaction
+ */
+interface VaultCall {
+  txid: string;
+  round: number;
+  roundTime: number;
+  txn: algosdk.indexerModels.Transaction;
+}
+
+/**
+ * Rebuilds a vault's history from the indexer into SQLite: every deposit, withdraw,
+ * claim and yield swap, plus per-user principal, claimed yield and realized APY.
+ *
+ * Calls are identified by ABI selector, amounts come from the vault's ARC-28 events
+ * and the asset transfers it sends as inner transactions. Syncing is incremental:
+ * each run resumes at the first round the previous run hadn't seen.
+ */
+export class VaultIndexer {
+  readonly indexer: algosdk.Indexer;
+  readonly db: Database;
+  readonly appId: bigint;
+  readonly appAddress: string;
+  readonly vaultType: VaultType;
+  private readonly depositAssetPrice: number;
+  private readonly startRound: bigint;
+  private readonly methods: Map<string, algosdk.ABIMethod>;
+
+  constructor(options: VaultIndexerOptions) {
+    this.indexer = options.indexer;
+    this.db = options.db;
+    this.appId = BigInt(options.appId);
+    this.appAddress = algosdk.getApplicationAddress(this.appId).toString();
+    this.vaultType = options.vaultType;
+    this.depositAssetPrice = options.depositAssetPrice ?? 1;
+    this.startRound = BigInt(options.startRound ?? 0);
+    this.methods = new Map(
+      TRACKED_METHODS[this.vaultType].map((signature) => {
+        const method = algosdk.ABIMethod.fromSignature(signature);
+        return [Buffer.from(method.getSelector()).toString('hex'), method];
+      }),
+    );
+
+    this.db.exec(SCHEMA);
+  }
+
+  // ============================================
+  // SYNC
+  // ============================================
+
+  /**
+   * Index every vault call from the last synced round up to the indexer's current round
+   */
+  async sync(): Promise<SyncResult> {
+    const fromRound = this.nextRound();
+    const calls: VaultCall[] = [];
+    let currentRound = fromRound;
+    let nextToken: string | undefined;
+
+    do {
+      let query = this.indexer.searchForTransactions().applicationID(this.appId).minRound(fromRound).limit(PAGE_LIMIT);
+      if (nextToken) query = query.nextToken(nextToken);
+      const page = await query.do();
+
+      currentRound = page.currentRound;
+      for (const txn of page.transactions) {
+        this.collectVaultCalls(txn, txn.id ?? '', Number(txn.confirmedRound ?? 0n), txn.roundTime ?? 0, calls);
+      }
+      nextToken = page.transactions.length > 0 ? page.nextToken : undefined;
+    } while (nextToken);
+
+    let actions = 0;
+    this.db.exec('BEGIN');
+    try {
+      for (const call of calls) {
+        if (this.applyCall(call)) actions++;
+      }
+      const nextRound = currentRound >= fromRound ? currentRound + 1n : fromRound;
+      this.db.run(
+        'INSERT OR REPLACE INTO sync_state (vault_app_id, vault_type, next_round) VALUES (?, ?, ?)',
+        [Number(this.appId), this.vaultType, Number(nextRound)],
+      );
+      this.db.exec('COMMIT');
+      return { actions, nextRound };
+    } catch (err) {
+      this.db.exec('ROLLBACK');
+      throw err;
+    }
+  }
+
+  private nextRound(): bigint {
+    const rows = this.db.exec('SELECT next_round FROM sync_state WHERE vault_app_id = ?', [Number(this.appId)]);
+    return rows.length > 0 ? BigInt(rows[0].values[0][0] as number) : this.startRound;
+  }
+
+  /**
+   * Find calls to this vault in a transaction tree (the vault may also be called from another app)
+   */
+  private collectVaultCalls(txn: algosdk.indexerModels.Transaction, txid: string, round: number, roundTime: number, out: VaultCall[]): void {
+    if (txn.applicationTransaction?.applicationId === this.appId) {
+      out.push({ txid, round, roundTime, txn });
+      return;
+    }
+    (txn.innerTxns ?? []).forEach((inner, i) => this.collectVaultCalls(inner, `${txid}/${i}`, round, roundTime, out));
+  }
+
+  // ============================================
+  // DECODING
+  // ============================================
+
+  private applyCall(call: VaultCall): boolean {
+    const appArgs = call.txn.applicationTransaction?.applicationArgs ?? [];
+    if (appArgs.length === 0) return false;
+    const method = this.methods.get(Buffer.from(appArgs[0]).toString('hex'));
+    if (!method) return false;
+
+    const exists = this.db.exec('SELECT 1 FROM vault_actions WHERE txid = ?', [call.txid]);
+    if (exists.length > 0) return false;
+
+    // Vault methods only take uint64 and address args; transaction args are group members, not app args
+    const methodArgs = method.args
+      .filter((arg) => typeof arg.type !== 'string')
+      .map((arg, i) => String((arg.type as algosdk.ABIType).decode(appArgs[i + 1])));
+
+    const events = decodeVaultEvents(call.txn.logs ?? [], EVENT_SPECS[this.vaultType]);
+    this.db.run(
+      'INSERT INTO vault_actions (txid, vault_app_id, round, round_time, sender, method, method_args, events) VALUES (?, ?, ?, ?, ?, ?, ?, ?)',
+      [call.txid, Number(this.appId), call.round, call.roundTime, call.txn.sender, method.name, JSON.stringify(methodArgs), JSON.stringify(events, jsonBigInt)],
+    );
+
+    this.recordTransfers(call);
+    for (const event of events) {
+      this.applyEvent(call, event);
+    }
+    return true;
+  }
+
+  /**
+   * Asset transfers the vault sent in this call (withdrawals, claims, swap inputs)
+   */
+  private recordTransfers(call: VaultCall): void {
+    let index = 0;
+    for (const inner of call.txn.innerTxns ?? []) {
+      const transfer = inner.assetTransferTransaction;
+      if (inner.sender !== this.appAddress || !transfer) continue;
+      this.db.run(
+        'INSERT INTO vault_transfers (txid, transfer_index, vault_app_id, asset_id, receiver, amount) VALUES (?, ?, ?, ?, ?, ?)',
+        [call.txid, index++, Number(this.appId), Number(transfer.assetId), transfer.receiver, Number(transfer.amount)],
+      );
+    }
+  }
+
+  private applyEvent(call: VaultCall, event: VaultEvent): void {
+    const arg = (name: string) => Number(event.args[name] as bigint);
+    const user = event.args.user as string;
+
+    switch (event.name) {
+      case 'YieldSwapped':
+      case 'YieldCompounded':
+        this.db.run(
+          'INSERT INTO yield_swaps (txid, vault_app_id, round, round_time, yield_in, swap_out, farm_bonus, creator_cut) VALUES (?, ?, ?, ?, ?, ?, ?, ?)',
+          [call.txid, Number(this.appId), call.round, call.roundTime, arg(this.vaultType === 'RareFiFolksVault' ? 'depositIn' : 'usdcIn'), arg('swapOut'), arg('farmBonus'), arg('creatorCut')],
+        );
+        break;
+
+      case 'Deposit':
+        this.updatePosition(user, call.roundTime, (p) => {
+          if (p.firstDepositTime === null) p.firstDepositTime = call.roundTime;
+          p.principal += arg('amount');
+          p.totalDeposited += arg('amount');
+          if (this.vaultType === 'RareFiAlphaCompoundingVault') p.shares += arg('sharesMinted');
+        });
+        break;
+
+      case 'Withdraw':
+      case 'EmergencyWithdraw':
+      case 'CloseOut':
+        this.updatePosition(user, call.roundTime, (p) => {
+          if (this.vaultType === 'RareFiAlphaCompoundingVault') {
+            // Realized gain = Alpha received minus the cost basis of the shares burned
+            const sharesBurned = arg('sharesBurned');
+            const basis = p.shares > 0 ? Math.floor((p.principal * sharesBurned) / p.shares) : 0;
+            const gain = Math.max(arg('amount') - basis, 0);
+            p.principal -= basis;
+            p.shares -= sharesBurned;
+            p.totalWithdrawn += arg('amount');
+            p.yieldClaimed += gain;
+            p.yieldValue += gain;
+            return;
+          }
+          // Anything above principal is exit fees credited by other users leaving
+          const fromPrincipal = Math.min(arg('amount'), p.principal);
+          p.principal -= fromPrincipal;
+          p.totalWithdrawn += arg('amount');
+          p.yieldValue += arg('amount') - fromPrincipal;
+          if (event.name === 'CloseOut') this.addClaim(p, arg('yieldClaimed'));
+        });
+        break;
+
+      // Principal and unclaimed yield leave for the successor vault, which records them as a new deposit
+      case 'Migrated':
+        this.updatePosition(user, call.roundTime, (p) => {
+          const fromPrincipal = Math.min(arg('amount'), p.principal);
+          p.principal -= fromPrincipal;
+          p.totalWithdrawn += arg('amount');
+          p.yieldValue += arg('amount') - fromPrincipal;
+          this.addClaim(p, arg('yieldAmount'));
+        });
+        break;
+
+      // The successor's Deposit event credits the principal. The carried-over yield was already
+      // counted as claimed by the predecessor, so offset it here and claiming it doesn't count twice
+      case 'MigrationReceived':
+        this.updatePosition(user, call.roundTime, (p) => this.addClaim(p, -arg('yieldAmount')));
+        break;
+
+      // Withdraw amounts are gross, so the fee comes off what was received as a realized loss
+      case 'ExitFeeCharged':
+        this.updatePosition(user, call.roundTime, (p) => {
+          p.totalWithdrawn -= arg('fee');
+          p.yieldValue -= arg('fee');
+          if (this.vaultType === 'RareFiAlphaCompoundingVault') p.yieldClaimed -= arg('fee');
+        });
+        break;
+
+      // Staked yield leaves as a claim; the target vault records it as a new deposit
+      case 'Claim':
+      case 'YieldStaked':
+        this.updatePosition(user, call.roundTime, (p) => this.addClaim(p, arg('amount')));
+        break;
+
+      // Boost shares cost nothing, so they lower the cost basis per share until released
+      case 'Locked':
+        if (this.vaultType === 'RareFiAlphaCompoundingVault') {
+          this.updatePosition(user, call.roundTime, (p) => {
+            p.shares += arg('bonusShares');
+          });
+        }
+        break;
+
+      case 'LockReleased':
+        if (this.vaultType === 'RareFiAlphaCompoundingVault') {
+          this.updatePosition(user, call.roundTime, (p) => {
+            p.shares -= arg('sharesBurned');
+          });
+        }
+        break;
+    }
+  }
+
+  /**
+   * Value claimed swap asset at the vault's average swap rate so far, in deposit asset units
+   */
+  private addClaim(position: UserRecord, amount: number): void {
+    const rows = this.db.exec('SELECT SUM(yield_in), SUM(swap_out) FROM yield_swaps WHERE vault_app_id = ?', [Number(this.appId)]);
+    const [yieldIn, swapOut] = (rows[0]?.values[0] ?? [null, null]) as (number | null)[];
+    const yieldPerSwapToken = yieldIn && swapOut ? yieldIn / swapOut : 0;
+
+    position.yieldClaimed += amount;
+    position.yieldValue += (amount * yieldPerSwapToken) / this.depositAssetPrice;
+  }
+
+  // ============================================
+  // POSITIONS
+  // ============================================
+
+  /**
+   * Accrue time-weighted principal up to `time`, apply `change`, and recompute realized APY
+   */
+  private updatePosition(address: string, time: number, change: (position: UserRecord) => void): void {
+    const position = this.getUserRecord(address) ?? emptyRecord(address);
+    let principalSeconds = this.principalSeconds(address);
+
+    if (position.lastUpdateTime !== null) {
+      principalSeconds += position.principal * (time - position.lastUpdateTime);
+    }
+    change(position);
+    position.lastUpdateTime = time;
+    position.realizedApy = principalSeconds > 0 ? (position.yieldValue * SECONDS_PER_YEAR) / principalSeconds : null;
+
+    this.db.run(
+      `INSERT OR REPLACE INTO user_positions (
+        vault_app_id, address, principal, shares, total_deposited, total_withdrawn, yield_claimed, yield_value,
+        principal_seconds, first_deposit_time, last_update_time, realized_apy
+      ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+      [
+        Number(this.appId), address, position.principal, position.shares, position.totalDeposited, position.totalWithdrawn,
+        position.yieldClaimed, position.yieldValue, principalSeconds, position.firstDepositTime, position.lastUpdateTime, position.realizedApy,
+      ],
+    );
+  }
+
+  private principalSeconds(address: string): number {
+    const rows = this.db.exec('SELECT principal_seconds FROM user_positions WHERE vault_app_id = ? AND address = ?', [Number(this.appId), address]);
+    return rows.length > 0 ? (rows[0].values[0][0] as number) : 0;
+  }
+
+  // ============================================
+  // QUERIES
+  // ============================================
+
+  getUserRecord(address: string): UserRecord | undefined {
+    return this.queryUsers('AND address = ?', [address])[0];
+  }
+
+  getUserRecords(): UserRecord[] {
+    return this.queryUsers('ORDER BY first_deposit_time', []);
+  }
+
+  private queryUsers(clause: string, params: SqlValue[]): UserRecord[] {
+    const stmt = this.db.prepare(
+      `SELECT address, principal, shares, total_deposited, total_withdrawn, yield_claimed, yield_value,
+              first_deposit_time, last_update_time, realized_apy
+       FROM user_positions WHERE vault_app_id = ? ${clause}`,
+    );
+    stmt.bind([Number(this.appId), ...params]);
+
+    const records: UserRecord[] = [];
+    while (stmt.step()) {
+      const row = stmt.get();
+      records.push({
+        address: row[0] as string,
+        principal: row[1] as number,
+        shares: row[2] as number,
+        totalDeposited: row[3] as number,
+        totalWithdrawn: row[4] as number,
+        yieldClaimed: row[5] as number,
+        yieldValue: row[6] as number,
+        firstDepositTime: row[7] as number | null,
+        lastUpdateTime: row[8] as number | null,
+        realizedApy: row[9] as number | null,
+      });
+    }
+    stmt.free();
+    return records;
+  }
+}
+
+function emptyRecord(address: string): UserRecord {
+  return {
+    address,
+    principal: 0,
+    shares: 0,
+    totalDeposited: 0,
+    totalWithdrawn: 0,
+    yieldClaimed: 0,
+    yieldValue: 0,
+    firstDepositTime: null,
+    lastUpdateTime: null,
+    realizedApy: null,
+  };
+}
+
+function jsonBigInt(_key: string, value: unknown): unknown {
+  return typeof value === 'bigint' ? value.toString() : value;
+}
@@ -0,0 +1,3 @@
+export { VaultIndexer, openIndexerDatabase, saveIndexerDatabase } from './VaultIndexer';
+export { SCHEMA } from './schema';
+export * from './types';
@@ -0,0 +1,62 @@
+/**
+ * SQLite schema for the vault indexer. Amounts are base units of the asset named
+ * in the column comment; times are Unix seconds.
+ */
+export const SCHEMA = `
+CREATE TABLE IF NOT EXISTS sync_state (
+  vault_app_id INTEGER PRIMARY KEY,
+  vault_type TEXT NOT NULL,
+  next_round INTEGER NOT NULL           -- First round not yet indexed
+);
+
+-- One row per decoded vault call (top-level or inner)
+CREATE TABLE IF NOT EXISTS vault_actions (
+  txid TEXT PRIMARY KEY,                -- Inner calls: '<root txid>/<path>'
+  vault_app_id INTEGER NOT NULL,
+  round INTEGER NOT NULL,
+  round_time INTEGER NOT NULL,
+  sender TEXT NOT NULL,
+  method TEXT NOT NULL,
+  method_args TEXT NOT NULL,            -- JSON array of ABI args, uint64 as decimal strings
+  events TEXT NOT NULL                  -- JSON array of decoded ARC-28 events
+);
+
+-- Asset transfers the vault sent as inner transactions of an indexed call
+CREATE TABLE IF NOT EXISTS vault_transfers (
+  txid TEXT NOT NULL,
+  transfer_index INTEGER NOT NULL,
+  vault_app_id INTEGER NOT NULL,
+  asset_id INTEGER NOT NULL,
+  receiver TEXT NOT NULL,
+  amount INTEGER NOT NULL,
+  PRIMARY KEY (txid, transfer_index)
+);
+
+-- YieldSwapped / YieldCompounded events
+CREATE TABLE IF NOT EXISTS yield_swaps (
+  txid TEXT PRIMARY KEY,
+  vault_app_id INTEGER NOT NULL,
+  round INTEGER NOT NULL,
+  round_time INTEGER NOT NULL,
+  yield_in INTEGER NOT NULL,            -- Yield asset sold (USDC)
+  swap_out INTEGER NOT NULL,            -- Swap asset bought (excludes farm bonus)
+  farm_bonus INTEGER NOT NULL,
+  creator_cut INTEGER NOT NULL
+);
+
+CREATE TABLE IF NOT EXISTS user_positions (
+  vault_app_id INTEGER NOT NULL,
+  address TEXT NOT NULL,
+  principal INTEGER NOT NULL,           -- Deposit asset still in the vault (compounding: remaining cost basis)
+  shares INTEGER NOT NULL,              -- Compounding vault only
+  total_deposited INTEGER NOT NULL,
+  total_withdrawn INTEGER NOT NULL,
+  yield_claimed INTEGER NOT NULL,       -- Swap asset claimed (compounding: realized Alpha gain)
+  yield_value REAL NOT NULL,            -- yield_claimed valued in deposit asset units
+  principal_seconds REAL NOT NULL,      -- Time-weighted principal (principal x seconds held)
+  first_deposit_time INTEGER,
+  last_update_time INTEGER,
+  realized_apy REAL,                    -- yield_value / average principal, annualized (NULL until principal has been held)
+  PRIMARY KEY (vault_app_id, address)
+);
+`;
@@ -0,0 +1,31 @@
+import algosdk from 'algosdk';
+import type { Database } from 'sql.js';
+
+export type VaultType = 'RareFiVault' | 'RareFiAlphaCompoundingVault' | 'RareFiFolksVault';
+
+export interface VaultIndexerOptions {
+  indexer: algosdk.Indexer;
+  db: Database;                // Open sql.js database (see openIndexerDatabase)
+  appId: number | bigint;
+  vaultType: VaultType;
+  depositAssetPrice?: number;  // Yield asset units per deposit asset unit, for valuing claimed yield (default 1; exact for Folks USDC vaults)
+  startRound?: number | bigint; // First round to index on a fresh database (default 0)
+}
+
+export interface UserRecord {
+  address: string;
+  principal: number;
+  shares: number;
+  totalDeposited: number;
+  totalWithdrawn: number;
+  yieldClaimed: number;        // Swap asset claimed (compounding: realized Alpha gain)
+  yieldValue: number;          // yieldClaimed in deposit asset units
+  firstDepositTime: number | null;
+  lastUpdateTime: number | null;
+  realizedApy: number | null;  // Fraction per year, e.g. 0.12 = 12%
+}
+
+export interface SyncResult {
+  actions: number;             // Vault calls decoded in this sync
+  nextRound: bigint;
+}
@@ -0,0 +1,227 @@
+import { CompoundingVaultClient, FolksVaultClient, PriceOracle, RareFiVaultClient, SwapQuote } from '../client';
+import { KeeperDecision, KeeperRunResult, KeeperVaultConfig } from './types';
+
+const BPS = 10_000n;
+const PRICE_PROBE_AMOUNT = 1_000_000n; // Oracle prices are the output for 1 USDC (6 decimals)
+const DEFAULT_MAX_OBSERVATION_AGE = 1_800; // Folks vault TWAP window in seconds
+
+/**
+ * Triggers the permissionless yield calls (swapYield, compoundYield, harvestAll)
+ * once a vault holds enough yield and the pool price is acceptable.
+ *
+ * Each round polls every configured vault, decides from its quote and price oracle,
+ * and submits through the vault client, which sets the outer fee to cover the
+ * call's inner transactions. Vaults are processed one at a time so a rejected
+ * call doesn't affect the others.
+ */
+export class VaultKeeper {
+  readonly vaults: KeeperVaultConfig[];
+  private timer?: NodeJS.Timeout;
+  private stopped = true;
+
+  constructor(vaults: KeeperVaultConfig[]) {
+    this.vaults = vaults;
+  }
+
+  // ============================================
+  // LOOP
+  // ============================================
+
+  /**
+   * Poll every vault once and submit the calls that are due
+   */
+  async runOnce(): Promise<KeeperRunResult[]> {
+    const results: KeeperRunResult[] = [];
+    for (const vault of this.vaults) {
+      results.push(await this.runVault(vault));
+    }
+    return results;
+  }
+
+  /**
+   * Run a round every `intervalMs` until `stop()`; the next round is scheduled after the previous one finishes
+   */
+  start(intervalMs: number, onRound?: (results: KeeperRunResult[]) => void): void {
+    if (!this.stopped) return;
+    this.stopped = false;
+
+    const round = async () => {
+      const results = await this.runOnce();
+      onRound?.(results);
+      if (!this.stopped) this.timer = setTimeout(round, intervalMs);
+    };
+    void round();
+  }
+
+  stop(): void {
+    this.stopped = true;
+    if (this.timer) clearTimeout(this.timer);
+    this.timer = undefined;
+  }
+
+  private async runVault(vault: KeeperVaultConfig): Promise<KeeperRunResult> {
+    let decision: KeeperDecision;
+    try {
+      decision = await this.check(vault);
+    } catch (err) {
+      return { label: this.label(vault), reason: 'Failed to read vault state', yieldAmount: 0n, error: errorMessage(err) };
+    }
+    if (!decision.action) return decision;
+
+    try {
+      return { ...decision, result: await this.submit(vault, decision) };
+    } catch (err) {
+      return { ...decision, error: errorMessage(err) };
+    }
+  }
+
+  private async submit(vault: KeeperVaultConfig, decision: KeeperDecision) {
+    const { client } = vault;
+    switch (decision.action) {
+      case 'swapYield':
+        return (client as RareFiVaultClient | FolksVaultClient).swapYield(vault.slippageBps, decision.minAmountOut);
+      case 'compoundYield':
+        return (client as CompoundingVaultClient).compoundYield(vault.slippageBps, decision.minAmountOut);
+      case 'harvestAll':
+        return (client as FolksVaultClient).harvestAll(vault.slippageBps);
+      case 'observePrice':
+        return (client as FolksVaultClient).observePrice();
+      default:
+        throw new Error(`Unknown keeper action ${decision.action}`);
+    }
+  }
+
+  // ============================================
+  // DECISIONS
+  // ============================================
+
+  /**
+   * Decide what (if anything) to call on a vault, without submitting
+   */
+  async check(vault: KeeperVaultConfig): Promise<KeeperDecision> {
+    const label = this.label(vault);
+    const { client } = vault;
+
+    const pause = await client.getPauseState();
+    if (pause.isPaused) {
+      return { label, reason: `Paused for ${pause.secondsRemaining}s`, yieldAmount: 0n };
+    }
+
+    const state = await client.getGlobalState();
+    const threshold = vault.minYield ?? (state.minSwapThreshold as bigint);
+
+    if (client instanceof FolksVaultClient) {
+      return this.checkFolks(vault, client, label, threshold);
+    }
+
+    const depositors = (client instanceof CompoundingVaultClient ? state.totalShares : state.totalDeposits) as bigint;
+    const quote = client instanceof CompoundingVaultClient ? await client.getCompoundQuote() : await client.getSwapQuote();
+    if (quote.yieldBalance < threshold) {
+      return { label, reason: `Yield ${quote.yieldBalance} below threshold ${threshold}`, yieldAmount: quote.yieldBalance };
+    }
+    if (depositors === 0n) {
+      return { label, reason: 'No depositors', yieldAmount: quote.yieldBalance };
+    }
+
+    const action = client instanceof CompoundingVaultClient ? 'compoundYield' : 'swapYield';
+    return this.checkPrice(vault, label, action, quote, await client.getPriceOracle());
+  }
+
+  /**
+   * Harvest all yield fTokens once there are enough; otherwise swap redeemed underlying left over from an earlier harvest.
+   * An unseeded or stale oracle gets an observePrice call instead, as the vault rejects swaps in the seeding round.
+   * The spot price must be within the vault's maxPriceDeviationBps of the TWAP, and a harvest that swaps is also
+   * checked against the spot price using the vault's harvest quote.
+   */
+  private async checkFolks(vault: KeeperVaultConfig, client: FolksVaultClient, label: string, threshold: bigint): Promise<KeeperDecision> {
+    const stats = await client.getVaultStats();
+    if (stats.totalDeposits === 0n) {
+      return { label, reason: 'No depositors', yieldAmount: 0n };
+    }
+
+    const quote = await client.getHarvestQuote();
+    const minHarvest = vault.minHarvestFTokens ?? 1n;
+    const harvest = quote.yieldFTokens > 0n && quote.yieldFTokens >= minHarvest;
+    if (!harvest && stats.depositAssetBalance < threshold) {
+      return { label, reason: `Yield fTokens ${quote.yieldFTokens} below ${minHarvest}, balance ${stats.depositAssetBalance} below threshold ${threshold}`, yieldAmount: 0n };
+    }
+
+    const oracle = await client.getPriceOracle();
+    if (oracle.lastObservationTime === 0n) {
+      return { label, action: 'observePrice', reason: 'Price oracle not seeded, recording an observation', yieldAmount: 0n };
+    }
+    const observationAge = BigInt(Math.floor(Date.now() / 1000)) - oracle.lastObservationTime;
+    const maxObservationAge = BigInt(vault.maxObservationAgeSeconds ?? DEFAULT_MAX_OBSERVATION_AGE);
+    if (observationAge > maxObservationAge) {
+      return { label, action: 'observePrice', reason: `Last price observation ${observationAge}s old, recording an observation`, yieldAmount: 0n };
+    }
+
+    const deviationBps = twapDeviationBps(oracle);
+    if (oracle.twapPrice > 0n && deviationBps > oracle.maxPriceDeviationBps) {
+      return { label, reason: `Spot price ${deviationBps} bps from TWAP, vault would reject the swap`, yieldAmount: 0n, priceImpactBps: deviationBps };
+    }
+
+    if (!harvest) {
+      return { label, action: 'swapYield', reason: `Swapping ${stats.depositAssetBalance} redeemed yield`, yieldAmount: stats.depositAssetBalance, priceImpactBps: deviationBps };
+    }
+
+    const base = { label, yieldAmount: quote.yieldFTokens, expectedOutput: quote.expectedSwapOutput };
+    let priceImpactBps = deviationBps;
+    if (quote.expectedSwapOutput > 0n) {
+      priceImpactBps = spotImpactBps(oracle, stats.depositAssetBalance + quote.estimatedUnderlying, quote.expectedSwapOutput);
+      if (priceImpactBps > BigInt(vault.maxPriceImpactBps)) {
+        return { ...base, reason: `Price impact ${priceImpactBps} bps exceeds max ${vault.maxPriceImpactBps}`, priceImpactBps };
+      }
+    }
+    return { ...base, action: 'harvestAll', reason: `Harvesting ${quote.yieldFTokens} yield fTokens (~${quote.estimatedUnderlying} underlying)`, priceImpactBps };
+  }
+
+  /**
+   * Compare the quote with the pool's spot price and set minAmountOut from the quote
+   */
+  private checkPrice(vault: KeeperVaultConfig, label: string, action: 'swapYield' | 'compoundYield', quote: SwapQuote, oracle: PriceOracle): KeeperDecision {
+    const base = { label, yieldAmount: quote.yieldBalance, expectedOutput: quote.expectedOutput };
+
+    const deviationBps = twapDeviationBps(oracle);
+    if (oracle.twapPrice > 0n && deviationBps > oracle.maxPriceDeviationBps) {
+      return { ...base, reason: `Spot price ${deviationBps} bps from TWAP, vault would reject the swap` };
+    }
+
+    if (oracle.spotPrice === 0n || quote.expectedOutput === 0n) {
+      return { ...base, reason: 'Pool has no liquidity' };
+    }
+    const priceImpactBps = spotImpactBps(oracle, quote.yieldBalance, quote.expectedOutput);
+    if (priceImpactBps > BigInt(vault.maxPriceImpactBps)) {
+      return { ...base, reason: `Price impact ${priceImpactBps} bps exceeds max ${vault.maxPriceImpactBps}`, priceImpactBps };
+    }
+
+    const minAmountOut = (quote.expectedOutput * (BPS - BigInt(vault.slippageBps))) / BPS;
+    return { ...base, action, reason: `Swapping ${quote.yieldBalance} yield`, minAmountOut, priceImpactBps };
+  }
+
+  private label(vault: KeeperVaultConfig): string {
+    return vault.label ?? `${vault.client.appId}`;
+  }
+}
+
+/**
+ * Distance of the spot price from the TWAP in basis points (0 before the oracle is seeded)
+ */
+function twapDeviationBps(oracle: PriceOracle): bigint {
+  if (oracle.twapPrice === 0n) return 0n;
+  const diff = oracle.spotPrice > oracle.twapPrice ? oracle.spotPrice - oracle.twapPrice : oracle.twapPrice - oracle.spotPrice;
+  return (diff * BPS) / oracle.twapPrice;
+}
+
+/**
+ * Shortfall of a quoted output against the spot price for the same input, in basis points
+ */
+function spotImpactBps(oracle: PriceOracle, amountIn: bigint, expectedOutput: bigint): bigint {
+  const spotOutput = (oracle.spotPrice * amountIn) / PRICE_PROBE_AMOUNT;
+  if (spotOutput === 0n) return 0n;
+  return spotOutput > expectedOutput ? ((spotOutput - expectedOutput) * BPS) / spotOutput : 0n;
+}
+
+function errorMessage(err: unknown): string {
+  return err instanceof Error ? err.message : String(err);
+}
@@ -0,0 +1,2 @@
+export { VaultKeeper } from './VaultKeeper';
+export * from './types';
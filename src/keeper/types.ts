@@ -0,0 +1,30 @@
+import { CompoundingVaultClient, FolksVaultClient, RareFiVaultClient, VaultCallResult } from '../client';
+
+export type KeeperClient = RareFiVaultClient | CompoundingVaultClient | FolksVaultClient;
+
+export interface KeeperVaultConfig {
+  client: KeeperClient;        // Signs and pays for the keeper's calls
+  label?: string;              // Name used in results and logs (default: app ID)
+  slippageBps: number;         // Passed to the swap; also sets minAmountOut below the polled quote
+  maxPriceImpactBps: number;   // Skip when the quote is this far below spot
+  minYield?: bigint;           // Yield asset to wait for (default: the vault's minSwapThreshold)
+  minHarvestFTokens?: bigint;  // Folks only: yield fTokens to wait for before harvesting (default 1)
+  maxObservationAgeSeconds?: number; // Folks only: observe the price instead of harvesting past this age (default 1800)
+}
+
+export type KeeperAction = 'swapYield' | 'compoundYield' | 'harvestAll' | 'observePrice';
+
+export interface KeeperDecision {
+  label: string;
+  action?: KeeperAction;       // Unset = nothing to do this round
+  reason: string;
+  yieldAmount: bigint;         // USDC (Folks harvest: yield fTokens) the action would process
+  expectedOutput?: bigint;
+  minAmountOut?: bigint;
+  priceImpactBps?: bigint;
+}
+
+export interface KeeperRunResult extends KeeperDecision {
+  result?: VaultCallResult;
+  error?: string;              // Set when the call was submitted and rejected
+}
@@ -0,0 +1,267 @@
+import algosdk from 'algosdk';
+import {
+  RareFiVaultClient,
+  CompoundingVaultClient,
+  FolksVaultClient,
+  decodeVaultEvents,
+  eventSelector,
+  RAREFI_VAULT_EVENTS,
+} from '../src/client';
+import { deployVaultForTest, VaultDeploymentResult } from './utils/vault';
+import { deployCompoundingVaultForTest, CompoundingVaultDeploymentResult } from './utils/compoundingVault';
+import { deployFolksVaultForTest, FolksVaultDeploymentResult } from './utils/folksVault';
+import { getAssetBalance, optInToAsset, fundAsset } from './utils/assets';
+
+// Localnet configuration
+const ALGOD_SERVER = 'http://localhost';
+const ALGOD_PORT = 4001;
+const ALGOD_TOKEN = 'aaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaa';
+
+// KMD configuration for getting funded accounts
+const KMD_SERVER = 'http://localhost';
+const KMD_PORT = 4002;
+const KMD_TOKEN = 'aaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaa';
+
+describe('Vault Client SDK Tests', () => {
+  let algod: algosdk.Algodv2;
+  let kmd: algosdk.Kmd;
+  let creator: { addr: string; sk: Uint8Array };
+  let alice: { addr: string; sk: Uint8Array };
+
+  const signerFor = (account: { addr: string; sk: Uint8Array }) =>
+    algosdk.makeBasicAccountTransactionSigner({ sk: account.sk, addr: algosdk.decodeAddress(account.addr) });
+
+  beforeAll(async () => {
+    algod = new algosdk.Algodv2(ALGOD_TOKEN, ALGOD_SERVER, ALGOD_PORT);
+    kmd = new algosdk.Kmd(KMD_TOKEN, KMD_SERVER, KMD_PORT);
+
+    // Get funded accounts from KMD
+    const wallets = await kmd.listWallets();
+    const defaultWallet = wallets.wallets.find((w: any) => w.name === 'unencrypted-default-wallet');
+
+    const walletHandle = (await kmd.initWalletHandle(defaultWallet.id, '')).wallet_handle_token;
+    const addresses = (await kmd.listKeys(walletHandle)).addresses;
+
+    const getAccount = async (index: number) => {
+      const addr = addresses[index];
+      const keyResponse = await kmd.exportKey(walletHandle, '', addr);
+      return { addr, sk: keyResponse.private_key };
+    };
+
+    creator = await getAccount(0);
+    alice = await getAccount(1);
+
+    await kmd.releaseWalletHandle(walletHandle);
+  });
+
+  describe('RareFiVaultClient', () => {
+    let deployment: VaultDeploymentResult;
+    let client: RareFiVaultClient;
+    const depositAmount = 100_000_000; // 100 Alpha
+
+    beforeAll(async () => {
+      deployment = await deployVaultForTest(algod, creator, { creatorFeeRate: 5, minSwapThreshold: 2_000_000 });
+
+      await optInToAsset(algod, alice, deployment.alphaAssetId);
+      await optInToAsset(algod, alice, deployment.ibusAssetId);
+      await fundAsset(algod, creator, alice.addr, deployment.alphaAssetId, 1_000_000_000);
+
+      client = new RareFiVaultClient({ algod, appId: deployment.vaultAppId, sender: alice.addr, signer: signerFor(alice) });
+    });
+
+    it('should read config from global state', async () => {
+      const config = await client.getConfig();
+      expect(config.depositAssetId).toBe(BigInt(deployment.alphaAssetId));
+      expect(config.yieldAssetId).toBe(BigInt(deployment.usdcAssetId));
+      expect(config.swapAssetId).toBe(BigInt(deployment.ibusAssetId));
+      expect(config.tinymanPoolAppId).toBe(BigInt(deployment.poolAppId));
+      expect(config.tinymanPoolAddress).toBe(deployment.poolAddress);
+      expect(config.hopPoolAppId).toBe(0n);
+    });
+
+    it('should opt in and deposit', async () => {
+      await client.optIn();
+      const result = await client.deposit(depositAmount, 100);
+
+      expect(await client.getUserDeposit()).toBe(BigInt(depositAmount));
+      const stats = await client.getVaultStats();
+      expect(stats.totalDeposits).toBe(BigInt(depositAmount));
+      expect(stats.yieldPerToken).toBe(0n);
+
+      expect(result.events).toContainEqual({ name: 'Deposit', args: { user: alice.addr, amount: BigInt(depositAmount) } });
+    });
+
+    it('should swap yield and decode stats, quote and pending yield', async () => {
+      await fundAsset(algod, creator, deployment.vaultAddress, deployment.usdcAssetId, 10_000_000);
+
+      const quote = await client.getSwapQuote();
+      expect(quote.yieldBalance).toBe(10_000_000n);
+      expect(quote.expectedOutput).toBeGreaterThan(0n);
+      expect(quote.minOutputAt50Bps).toBeLessThan(quote.expectedOutput);
+
+      const result = await client.swapYield(100);
+
+      const stats = await client.getVaultStats();
+      expect(stats.usdcBalance).toBe(0n);
+      expect(stats.yieldPerToken).toBeGreaterThan(0n);
+
+      const swapped = result.events.find((e) => e.name === 'YieldSwapped');
+      expect(swapped?.args.usdcIn).toBe(10_000_000n);
+      expect(swapped?.args.swapOut as bigint).toBeGreaterThanOrEqual(quote.minOutputAt50Bps);
+      expect(result.events.some((e) => e.name === 'SwapRouteSelected')).toBe(true);
+      expect(await client.getPendingYield()).toBeGreaterThan(0n);
+    });
+
+    it('should claim and withdraw', async () => {
+      const pending = await client.getPendingYield();
+      const ibusBefore = await getAssetBalance(algod, alice.addr, deployment.ibusAssetId);
+
+      const result = await client.claim();
+      expect(result.events).toContainEqual({ name: 'Claim', args: { user: alice.addr, amount: pending } });
+
+      const ibusAfter = await getAssetBalance(algod, alice.addr, deployment.ibusAssetId);
+      expect(BigInt(ibusAfter - ibusBefore)).toBe(pending);
+
+      await client.withdraw(0);
+      expect(await client.getUserDeposit()).toBe(0n);
+    });
+
+    it('should decode farm stats', async () => {
+      const farm = await client.getFarmStats();
+      expect(farm.farmBalance).toBe(0n);
+      expect(farm.emissionRatio).toBe(0n); // Disabled by default
+      expect(farm.scheduledAmount).toBe(0n);
+      expect(await client.getFarmSchedules()).toEqual([]);
+    });
+  });
+
+  describe('CompoundingVaultClient', () => {
+    let deployment: CompoundingVaultDeploymentResult;
+    let client: CompoundingVaultClient;
+    const depositAmount = 100_000_000; // 100 Alpha
+
+    beforeAll(async () => {
+      deployment = await deployCompoundingVaultForTest(algod, creator, { creatorFeeRate: 0, minSwapThreshold: 2_000_000 });
+
+      await optInToAsset(algod, alice, deployment.alphaAssetId);
+      await fundAsset(algod, creator, alice.addr, deployment.alphaAssetId, 1_000_000_000);
+
+      client = new CompoundingVaultClient({ algod, appId: deployment.vaultAppId, sender: alice.addr, signer: signerFor(alice) });
+    });
+
+    it('should deposit and decode share stats', async () => {
+      const expectedShares = await client.previewDeposit(depositAmount);
+
+      await client.optIn();
+      const result = await client.deposit(depositAmount, 100);
+
+      expect(result.events).toContainEqual({
+        name: 'Deposit',
+        args: { user: alice.addr, amount: BigInt(depositAmount), sharesMinted: expectedShares },
+      });
+      expect(await client.getUserShares()).toBe(expectedShares);
+      const stats = await client.getVaultStats();
+      expect(stats.totalShares).toBe(expectedShares);
+      expect(stats.totalAlpha).toBe(BigInt(depositAmount));
+      expect(stats.sharePrice).toBe(1_000_000_000_000n); // 1:1 scaled by 1e12
+    });
+
+    it('should compound yield and raise share price', async () => {
+      await fundAsset(algod, creator, deployment.vaultAddress, deployment.usdcAssetId, 10_000_000);
+
+      const quote = await client.getCompoundQuote();
+      expect(quote.yieldBalance).toBe(10_000_000n);
+
+      await client.compoundYield(100);
+
+      const stats = await client.getVaultStats();
+      expect(stats.usdcBalance).toBe(0n);
+      expect(stats.sharePrice).toBeGreaterThan(1_000_000_000_000n);
+      expect(await client.getUserAlphaBalance()).toBeGreaterThan(BigInt(depositAmount));
+    });
+
+    it('should withdraw all shares', async () => {
+      const shares = await client.getUserShares();
+      const expectedAlpha = await client.previewWithdraw(shares);
+      const alphaBefore = await getAssetBalance(algod, alice.addr, deployment.alphaAssetId);
+
+      await client.withdraw(0);
+
+      const alphaAfter = await getAssetBalance(algod, alice.addr, deployment.alphaAssetId);
+      expect(BigInt(alphaAfter - alphaBefore)).toBeGreaterThanOrEqual(expectedAlpha);
+      expect(await client.getUserShares()).toBe(0n);
+    });
+
+    it('should offer lock tiers and pay the lock box MBR only on the first lock', async () => {
+      const creatorClient = new CompoundingVaultClient({ algod, appId: deployment.vaultAppId, sender: creator.addr, signer: signerFor(creator) });
+      const tierResult = await creatorClient.setLockTier(1, 3600, 15_000);
+      expect(tierResult.events).toContainEqual({ name: 'LockTierSet', args: { slot: 1n, duration: 3600n, boostBps: 15_000n } });
+      expect(await client.getLockTiers()).toEqual([{ slot: 1, duration: 3600n, boostBps: 15_000n }]);
+
+      const first = await client.depositLocked(depositAmount, 100, 3600);
+      expect(first.txIds).toHaveLength(3); // MBR payment + Alpha transfer + app call
+      const locked = first.events.find((e) => e.name === 'Locked')!;
+      expect(locked.args.bonusShares).toBe((locked.args.sharesLocked as bigint) / 2n);
+
+      const second = await client.depositLocked(depositAmount, 100, 3600);
+      expect(second.txIds).toHaveLength(2);
+
+      const lock = await client.getUserLock();
+      expect(lock.lockedShares).toBeGreaterThan(locked.args.sharesLocked as bigint);
+      expect(lock.lockedUntil).toBeGreaterThan(0n);
+    });
+  });
+
+  describe('FolksVaultClient', () => {
+    let deployment: FolksVaultDeploymentResult;
+    let client: FolksVaultClient;
+    const depositAmount = 100_000_000; // 100 USDC
+
+    beforeAll(async () => {
+      deployment = await deployFolksVaultForTest(algod, creator);
+
+      await optInToAsset(algod, alice, deployment.usdcAssetId);
+      await optInToAsset(algod, alice, deployment.ibusAssetId);
+      await fundAsset(algod, creator, alice.addr, deployment.usdcAssetId, 1_000_000_000);
+
+      client = new FolksVaultClient({ algod, appId: deployment.vaultAppId, sender: alice.addr, signer: signerFor(alice) });
+    });
+
+    it('should read Folks and Tinyman config from global state', async () => {
+      const config = await client.getConfig();
+      expect(config.fTokenAssetId).toBe(BigInt(deployment.fTokenAssetId));
+      expect(config.folksPoolAppId).toBe(BigInt(deployment.folksPoolAppId));
+      expect(config.folksPoolAddress).toBe(deployment.folksPoolAddress);
+      expect(config.folksPoolManagerAppId).toBe(BigInt(deployment.folksPoolManagerAppId));
+    });
+
+    it('should deposit into Folks and withdraw', async () => {
+      await client.optIn();
+      const result = await client.deposit(depositAmount);
+
+      expect(result.events.find((e) => e.name === 'Deposit')?.args.amount).toBe(BigInt(depositAmount));
+      expect(await client.getUserDeposit()).toBe(BigInt(depositAmount));
+      let stats = await client.getVaultStats();
+      expect(stats.totalDeposits).toBe(BigInt(depositAmount));
+      expect(stats.yieldFTokens).toBe(0n);
+
+      await client.withdraw(0);
+
+      stats = await client.getVaultStats();
+      expect(stats.totalDeposits).toBe(0n);
+    });
+  });
+
+  describe('Event decoding', () => {
+    it('should decode ARC-28 logs and skip the ABI return value', () => {
+      const spec = RAREFI_VAULT_EVENTS.find((e) => e.name === 'FarmContributed')!;
+      const body = algosdk.ABIType.from('(address,uint64)').encode([alice.addr, 42n]);
+      const eventLog = new Uint8Array([...eventSelector(spec), ...body]);
+      const returnLog = new Uint8Array([0x15, 0x1f, 0x7c, 0x75]);
+
+      expect(decodeVaultEvents([returnLog, eventLog], RAREFI_VAULT_EVENTS)).toEqual([
+        { name: 'FarmContributed', args: { from: alice.addr, amount: 42n } },
+      ]);
+    });
+  });
+});
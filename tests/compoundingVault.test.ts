@@ -3,6 +3,7 @@ import {
   deployCompoundingVaultForTest,
   performUserOptIn,
   performDeposit,
+  performDepositFor,
   performWithdraw,
   performCompoundYield,
   performClaimCreator,
@@ -11,16 +12,41 @@ import {
   getUserShares,
   getUserAlphaBalance,
   performContributeFarm,
+  performContributeFarmSchedule,
+  getLatestTimestamp,
   performSetEmissionRatio,
   performUpdateCreatorFeeRate,
   performUpdateMaxSlippage,
   performUpdateMinSwapThreshold,
   performUpdateCreatorAddress,
   performUpdateRarefiAddress,
+  performPause,
+  performUnpause,
+  getPauseState,
+  getBestSwapQuote,
+  performAddCandidatePool,
+  performRemoveCandidatePool,
+  performUpdateMaxPriceDeviation,
+  getPriceOracle,
+  CandidatePoolRef,
   getFarmStats,
   getFarmStatsABI,
+  performDepositLocked,
+  performSetLockTier,
+  performReleaseLock,
+  getUserLock,
+  performSetExitFee,
+  getExitFee,
+  performSetZapPool,
+  performZapDeposit,
+  getZapQuote,
+  lockBoxName,
+  positionBoxName,
+  POSITION_MBR,
+  LOCK_MBR,
   CompoundingVaultDeploymentResult,
 } from './utils/compoundingVault';
+import { deployFundedMockPool, performPoolSwap } from './utils/vault';
 import { getAssetBalance, optInToAsset, fundAsset } from './utils/assets';
 
 // Localnet configuration
@@ -347,6 +373,46 @@ describe('RareFiAlphaCompoundingVault Contract Tests', () => {
     });
   });
 
+  describe('Position Boxes', () => {
+    let deployment: CompoundingVaultDeploymentResult;
+
+    beforeAll(async () => {
+      deployment = await deployCompoundingVaultForTest(algod, creator);
+
+      await optInToAsset(algod, alice, deployment.alphaAssetId);
+      await fundAsset(algod, creator, alice.addr, deployment.alphaAssetId, 500_000_000);
+    });
+
+    it('should reject opt-in with insufficient MBR payment', async () => {
+      await expect(
+        performUserOptIn(algod, deployment, alice, POSITION_MBR - 1)
+      ).rejects.toThrow();
+    });
+
+    it('should reject deposit without a position box', async () => {
+      await expect(
+        performDeposit(algod, deployment, alice, 100_000_000)
+      ).rejects.toThrow();
+    });
+
+    it('should delete the box and refund MBR on close out', async () => {
+      await performUserOptIn(algod, deployment, alice);
+      await performDeposit(algod, deployment, alice, 100_000_000);
+      expect(await getUserShares(algod, deployment, alice.addr)).toBe(100_000_000);
+
+      const algoBefore = Number((await algod.accountInformation(alice.addr).do()).amount);
+
+      await performCloseOut(algod, deployment, alice);
+
+      const algoAfter = Number((await algod.accountInformation(alice.addr).do()).amount);
+      expect(algoAfter - algoBefore).toBe(POSITION_MBR - 3000); // refund minus outer fee
+
+      await expect(
+        algod.getApplicationBoxByName(deployment.vaultAppId, positionBoxName(alice.addr.toString())).do()
+      ).rejects.toThrow();
+    });
+  });
+
   describe('Security - Immutability', () => {
     let deployment: CompoundingVaultDeploymentResult;
 
@@ -417,6 +483,7 @@ describe('RareFiAlphaCompoundingVault Contract Tests', () => {
         signer,
         suggestedParams: { ...suggestedParams, fee: 2000, flatFee: true },
         appForeignAssets: [deployment.alphaAssetId],
+        boxes: [{ appIndex: deployment.vaultAppId, name: positionBoxName(aliceAddr) }],
         rekeyTo: bobAddr,
       });
 
@@ -2543,4 +2610,595 @@ describe('RareFiAlphaCompoundingVault Contract Tests', () => {
       console.log('Old rarefi address correctly rejected after rotation');
     });
   });
+
+  describe('Tokenized Shares', () => {
+    let deployment: CompoundingVaultDeploymentResult;
+    const depositAmount = 100_000_000; // 100 tokens
+
+    beforeAll(async () => {
+      deployment = await deployCompoundingVaultForTest(algod, creator, {
+        creatorFeeRate: 0,
+        minSwapThreshold: 2_000_000,
+        tokenizedShares: true,
+      });
+
+      await optInToAsset(algod, alice, deployment.alphaAssetId);
+      await optInToAsset(algod, bob, deployment.alphaAssetId);
+      await fundAsset(algod, creator, alice.addr, deployment.alphaAssetId, 1_000_000_000);
+    });
+
+    it('should mint a share ASA held by the vault', async () => {
+      expect(deployment.shareAssetId).toBeGreaterThan(0);
+
+      const assetInfo = await algod.getAssetByID(deployment.shareAssetId).do();
+      expect(assetInfo.params.creator.toString()).toBe(deployment.vaultAddress);
+      expect(assetInfo.params.decimals).toBe(6);
+      expect(assetInfo.params.manager).toBeUndefined();
+      expect(assetInfo.params.clawback).toBeUndefined();
+    });
+
+    it('should reject app opt-in in tokenized mode', async () => {
+      await expect(performUserOptIn(algod, deployment, alice)).rejects.toThrow();
+    });
+
+    it('should reject setting an exit fee in tokenized mode', async () => {
+      await expect(performSetExitFee(algod, deployment, creator, 500, 3600)).rejects.toThrow();
+    });
+
+    it('should deposit without app opt-in and receive share tokens', async () => {
+      await optInToAsset(algod, alice, deployment.shareAssetId);
+      await performDeposit(algod, deployment, alice, depositAmount);
+
+      expect(await getAssetBalance(algod, alice.addr, deployment.shareAssetId)).toBe(depositAmount);
+      expect(await getUserShares(algod, deployment, alice.addr)).toBe(depositAmount);
+
+      const stats = await getVaultStats(algod, deployment);
+      expect(stats.totalShares).toBe(depositAmount);
+      expect(stats.totalAlpha).toBe(depositAmount);
+    });
+
+    it('should grow share value for token holders on compound', async () => {
+      await performCompoundYield(algod, deployment, creator, 5_000_000); // 5 USDC yield
+
+      const alphaBalance = await getUserAlphaBalance(algod, deployment, alice.addr);
+      expect(alphaBalance).toBeGreaterThan(depositAmount);
+    });
+
+    it('should let a transferee redeem transferred shares', async () => {
+      const transferShares = 40_000_000;
+      await optInToAsset(algod, bob, deployment.shareAssetId);
+      await fundAsset(algod, alice, bob.addr, deployment.shareAssetId, transferShares);
+
+      const statsBefore = await getVaultStats(algod, deployment);
+      const expectedAlpha = Math.floor((transferShares * statsBefore.totalAlpha) / statsBefore.totalShares);
+      const bobAlphaBefore = await getAssetBalance(algod, bob.addr, deployment.alphaAssetId);
+
+      await performWithdraw(algod, deployment, bob, 0);
+
+      const bobAlphaAfter = await getAssetBalance(algod, bob.addr, deployment.alphaAssetId);
+      expect(bobAlphaAfter - bobAlphaBefore).toBe(expectedAlpha);
+      expect(await getUserShares(algod, deployment, bob.addr)).toBe(0);
+
+      const statsAfter = await getVaultStats(algod, deployment);
+      expect(statsAfter.totalShares).toBe(statsBefore.totalShares - transferShares);
+    });
+  });
+
+  describe('Emergency Pause', () => {
+    let deployment: CompoundingVaultDeploymentResult;
+
+    beforeAll(async () => {
+      deployment = await deployCompoundingVaultForTest(algod, creator, {
+        creatorFeeRate: 0,
+        minSwapThreshold: 2_000_000,
+      });
+
+      await optInToAsset(algod, alice, deployment.alphaAssetId);
+      await fundAsset(algod, creator, alice.addr, deployment.alphaAssetId, 500_000_000);
+
+      await performUserOptIn(algod, deployment, alice);
+      await performDeposit(algod, deployment, alice, 100_000_000);
+    });
+
+    it('should reject pause from non-guardian', async () => {
+      await expect(performPause(algod, deployment, alice, 3600)).rejects.toThrow();
+    });
+
+    it('should block deposit, compound and farm contributions while paused', async () => {
+      // rarefiAddress = creator in tests, so creator is the default guardian
+      await performPause(algod, deployment, creator, 3600);
+      expect((await getPauseState(algod, deployment)).isPaused).toBe(true);
+
+      await expect(performDeposit(algod, deployment, alice, 10_000_000)).rejects.toThrow();
+      await expect(performCompoundYield(algod, deployment, creator, 5_000_000)).rejects.toThrow();
+      await expect(performContributeFarm(algod, deployment, creator, 1_000_000)).rejects.toThrow();
+    });
+
+    it('should keep withdraw and close out open while paused', async () => {
+      await performWithdraw(algod, deployment, alice, 40_000_000);
+      expect(await getUserShares(algod, deployment, alice.addr)).toBe(60_000_000);
+
+      await performCloseOut(algod, deployment, alice);
+      expect(await getUserShares(algod, deployment, alice.addr)).toBe(0);
+    });
+
+    it('should resume deposits after unpause', async () => {
+      await performUnpause(algod, deployment, creator);
+      expect((await getPauseState(algod, deployment)).isPaused).toBe(false);
+
+      await performUserOptIn(algod, deployment, alice);
+      await performDeposit(algod, deployment, alice, 10_000_000);
+      expect(await getUserShares(algod, deployment, alice.addr)).toBeGreaterThan(0);
+    });
+  });
+
+  describe('Routed Compound via ALGO', () => {
+    let deployment: CompoundingVaultDeploymentResult;
+    const poolReserveUsdc = 1_000_000_000;   // 1,000 USDC
+    const poolReserveAlgo = 5_000_000_000;   // 5,000 ALGO
+    const poolReserveAlpha = 10_000_000_000; // 10,000 Alpha
+
+    // Constant product output after the 0.3% pool fee (mirrors the contract math)
+    const ammOut = (amountIn: bigint, reserveIn: bigint, reserveOut: bigint): bigint => {
+      const netInput = (amountIn * 9970n) / 10000n;
+      return (reserveOut * netInput) / (reserveIn + netInput);
+    };
+
+    beforeAll(async () => {
+      deployment = await deployCompoundingVaultForTest(algod, creator, {
+        creatorFeeRate: 0,
+        minSwapThreshold: 2_000_000,
+        routeViaAlgo: true,
+        poolReserveUsdc,
+        poolReserveAlgo,
+        poolReserveAlpha,
+      });
+
+      await optInToAsset(algod, alice, deployment.alphaAssetId);
+      await fundAsset(algod, creator, alice.addr, deployment.alphaAssetId, 500_000_000);
+
+      await performUserOptIn(algod, deployment, alice);
+      await performDeposit(algod, deployment, alice, 100_000_000);
+    });
+
+    it('should compound USDC -> ALGO -> Alpha at the chained quote', async () => {
+      const yieldAmount = 5_000_000; // 5 USDC
+      const algoOut = ammOut(BigInt(yieldAmount), BigInt(poolReserveUsdc), BigInt(poolReserveAlgo));
+      const expected = Number(ammOut(algoOut, BigInt(poolReserveAlgo), BigInt(poolReserveAlpha)));
+
+      const before = await getVaultStats(algod, deployment);
+      const algoBefore = (await algod.accountInformation(deployment.vaultAddress).do()).amount;
+
+      // 0 slippage: the final Alpha output must meet the chained quote exactly
+      await performCompoundYield(algod, deployment, creator, yieldAmount, 0);
+
+      const after = await getVaultStats(algod, deployment);
+      expect(after.usdcBalance).toBe(0);
+      expect(after.totalYieldCompounded - before.totalYieldCompounded).toBe(expected);
+      expect(after.totalAlpha - before.totalAlpha).toBe(expected);
+
+      // The intermediate ALGO is fully forwarded to the second pool
+      const algoAfter = (await algod.accountInformation(deployment.vaultAddress).do()).amount;
+      expect(algoAfter).toBe(algoBefore);
+
+      console.log(`Routed compound: 5 USDC -> ${algoOut} µALGO -> ${expected} Alpha`);
+    });
+  });
+
+  describe('Best-Execution Compounding (Candidate Pools)', () => {
+    let deployment: CompoundingVaultDeploymentResult;
+    let candidate: CandidatePoolRef;
+    const poolReserveUsdc = 1_000_000_000;   // 1,000 USDC
+    const poolReserveAlpha = 10_000_000_000; // 10,000 Alpha
+
+    beforeAll(async () => {
+      deployment = await deployCompoundingVaultForTest(algod, creator, {
+        creatorFeeRate: 0,
+        minSwapThreshold: 2_000_000,
+        poolReserveUsdc,
+        poolReserveAlpha,
+      });
+
+      // Same reserves as the creation pool but a 0.05% fee tier
+      candidate = await deployFundedMockPool(
+        algod, creator, deployment.usdcAssetId, deployment.alphaAssetId, poolReserveUsdc, poolReserveAlpha, 5,
+      );
+
+      await optInToAsset(algod, alice, deployment.alphaAssetId);
+      await fundAsset(algod, creator, alice.addr, deployment.alphaAssetId, 500_000_000);
+
+      await performUserOptIn(algod, deployment, alice);
+      await performDeposit(algod, deployment, alice, 100_000_000);
+    });
+
+    it('should compound through the allowlisted pool with the best quote', async () => {
+      await expect(
+        performAddCandidatePool(algod, deployment, alice, candidate)
+      ).rejects.toThrow();
+      await performAddCandidatePool(algod, deployment, creator, candidate);
+
+      const yieldAmount = 5_000_000; // 5 USDC
+      const netInput = (BigInt(yieldAmount) * 9995n) / 10000n;
+      const expected = Number((BigInt(poolReserveAlpha) * netInput) / (BigInt(poolReserveUsdc) + netInput));
+
+      await fundAsset(algod, creator, deployment.vaultAddress, deployment.usdcAssetId, yieldAmount);
+      const quote = await getBestSwapQuote(algod, deployment);
+      expect(quote.routeIndex).toBe(1);
+      expect(quote.poolAppId).toBe(candidate.poolAppId);
+      expect(quote.expectedOutput).toBe(expected);
+
+      const before = await getVaultStats(algod, deployment);
+      await performCompoundYield(algod, deployment, creator, 0, 0, [candidate]);
+
+      const after = await getVaultStats(algod, deployment);
+      expect(after.usdcBalance).toBe(0);
+      expect(after.totalAlpha - before.totalAlpha).toBe(expected);
+
+      await performRemoveCandidatePool(algod, deployment, creator, candidate.poolAppId);
+      expect((await getBestSwapQuote(algod, deployment)).routeIndex).toBe(0);
+    });
+  });
+
+  describe('TWAP Price Guard', () => {
+    let deployment: CompoundingVaultDeploymentResult;
+    const poolReserveUsdc = 1_000_000_000;   // 1,000 USDC
+    const poolReserveAlpha = 10_000_000_000; // 10,000 Alpha
+    const manipulationAmount = 200_000_000;  // 200 USDC dumped into the pool
+
+    beforeAll(async () => {
+      deployment = await deployCompoundingVaultForTest(algod, creator, {
+        creatorFeeRate: 0,
+        minSwapThreshold: 2_000_000,
+        poolReserveUsdc,
+        poolReserveAlpha,
+        maxPriceDeviationBps: 1000, // 10% (the contract default)
+      });
+
+      await optInToAsset(algod, alice, deployment.alphaAssetId);
+      await fundAsset(algod, creator, alice.addr, deployment.alphaAssetId, 500_000_000);
+
+      await performUserOptIn(algod, deployment, alice);
+      await performDeposit(algod, deployment, alice, 100_000_000);
+    });
+
+    it('should only compound while the pool price stays near the TWAP', async () => {
+      const seeded = await getPriceOracle(algod, deployment);
+      expect(seeded.twapPrice).toBe(seeded.spotPrice);
+      expect(seeded.twapPrice).toBeGreaterThan(0);
+
+      await expect(
+        performUpdateMaxPriceDeviation(algod, deployment, alice, 5000)
+      ).rejects.toThrow();
+
+      // Push the Alpha price per USDC down ~30%
+      const alphaBefore = await getAssetBalance(algod, creator.addr, deployment.alphaAssetId);
+      await performPoolSwap(
+        algod, creator, deployment.poolAppId, deployment.poolAddress,
+        deployment.usdcAssetId, deployment.alphaAssetId, manipulationAmount,
+      );
+      const alphaReceived = (await getAssetBalance(algod, creator.addr, deployment.alphaAssetId)) - alphaBefore;
+
+      await expect(
+        performCompoundYield(algod, deployment, creator, 5_000_000)
+      ).rejects.toThrow();
+
+      // Deposits are rejected too, so nobody buys shares ahead of the uncompounded yield
+      await expect(
+        performDeposit(algod, deployment, alice, 100_000_000)
+      ).rejects.toThrow();
+      const rejected = await getVaultStats(algod, deployment);
+      expect(rejected.totalAlpha).toBe(100_000_000);
+      expect(rejected.usdcBalance).toBe(5_000_000);
+
+      // Undo the manipulation, then compounding goes through
+      await performPoolSwap(
+        algod, creator, deployment.poolAppId, deployment.poolAddress,
+        deployment.alphaAssetId, deployment.usdcAssetId, alphaReceived,
+      );
+      await performCompoundYield(algod, deployment, creator, 0);
+
+      const stats = await getVaultStats(algod, deployment);
+      expect(stats.usdcBalance).toBe(0);
+      expect(stats.totalAlpha).toBeGreaterThan(100_000_000);
+    });
+  });
+
+  describe('Absolute minAmountOut', () => {
+    let deployment: CompoundingVaultDeploymentResult;
+
+    beforeAll(async () => {
+      deployment = await deployCompoundingVaultForTest(algod, creator, {
+        creatorFeeRate: 0,
+        minSwapThreshold: 2_000_000,
+      });
+
+      await optInToAsset(algod, alice, deployment.alphaAssetId);
+      await fundAsset(algod, creator, alice.addr, deployment.alphaAssetId, 500_000_000);
+      await performUserOptIn(algod, deployment, alice);
+      await performDeposit(algod, deployment, alice, 100_000_000);
+    });
+
+    it('should enforce minAmountOut on top of slippage when compounding', async () => {
+      await fundAsset(algod, creator, deployment.vaultAddress, deployment.usdcAssetId, 5_000_000);
+      const quote = await getBestSwapQuote(algod, deployment);
+
+      await expect(
+        performCompoundYield(algod, deployment, creator, 0, 100, [], quote.expectedOutput + 1)
+      ).rejects.toThrow();
+
+      const before = await getVaultStats(algod, deployment);
+      await performCompoundYield(algod, deployment, creator, 0, 100, [], quote.expectedOutput);
+
+      const after = await getVaultStats(algod, deployment);
+      expect(after.usdcBalance).toBe(0);
+      expect(after.totalAlpha - before.totalAlpha).toBe(quote.expectedOutput);
+    });
+  });
+
+  describe('Farm Schedules', () => {
+    let deployment: CompoundingVaultDeploymentResult;
+    const depositAmount = 100_000_000; // 100 Alpha
+
+    beforeAll(async () => {
+      deployment = await deployCompoundingVaultForTest(algod, creator, {
+        creatorFeeRate: 0,
+        minSwapThreshold: 2_000_000,
+      });
+
+      await optInToAsset(algod, alice, deployment.alphaAssetId);
+      await fundAsset(algod, creator, alice.addr, deployment.alphaAssetId, 500_000_000);
+      await performUserOptIn(algod, deployment, alice);
+      await performDeposit(algod, deployment, alice, depositAmount);
+    });
+
+    it('should compound a schedule into the share price over time', async () => {
+      const now = await getLatestTimestamp(algod);
+      await performContributeFarmSchedule(algod, deployment, creator, 10_000_000, now, now + 4);
+
+      let farmStats = await getFarmStatsABI(algod, deployment);
+      expect(farmStats.scheduledAmount).toBe(10_000_000);
+      expect(farmStats.farmBalance).toBe(0);
+
+      // Wait past the end, then let an unrelated transaction produce a newer block
+      await new Promise((resolve) => setTimeout(resolve, 6000));
+      await fundAsset(algod, creator, alice.addr, deployment.alphaAssetId, 1);
+
+      const alphaBefore = await getAssetBalance(algod, alice.addr, deployment.alphaAssetId);
+      await performWithdraw(algod, deployment, alice, 0);
+      const alphaAfter = await getAssetBalance(algod, alice.addr, deployment.alphaAssetId);
+      expect(alphaAfter - alphaBefore).toBe(depositAmount + 10_000_000); // Sole holder, no creator fee
+
+      const stats = await getVaultStats(algod, deployment);
+      expect(stats.totalYieldCompounded).toBe(10_000_000);
+
+      farmStats = await getFarmStatsABI(algod, deployment);
+      expect(farmStats.scheduledAmount).toBe(0);
+    });
+
+    it('should move amounts that vest with no shareholders into farmBalance', async () => {
+      const now = await getLatestTimestamp(algod);
+      await performContributeFarmSchedule(algod, deployment, creator, 5_000_000, now, now + 2);
+
+      await new Promise((resolve) => setTimeout(resolve, 4000));
+      await fundAsset(algod, creator, alice.addr, deployment.alphaAssetId, 1);
+
+      // Deposit accrues the schedule first, while totalShares is still 0
+      await performDeposit(algod, deployment, alice, depositAmount);
+
+      const farmStats = await getFarmStatsABI(algod, deployment);
+      expect(farmStats.farmBalance).toBe(5_000_000);
+      expect(farmStats.scheduledAmount).toBe(0);
+      expect(await getUserShares(algod, deployment, alice.addr)).toBe(depositAmount);
+    });
+  });
+
+  describe('Time-Locked Deposits', () => {
+    let deployment: CompoundingVaultDeploymentResult;
+    const depositAmount = 100_000_000; // 100 Alpha
+    const shortLock = 5; // Seconds, short enough to expire within the test
+
+    beforeAll(async () => {
+      deployment = await deployCompoundingVaultForTest(algod, creator, {
+        creatorFeeRate: 0,
+        minSwapThreshold: 2_000_000,
+      });
+
+      for (const user of [alice, bob]) {
+        await optInToAsset(algod, user, deployment.alphaAssetId);
+        await fundAsset(algod, creator, user.addr, deployment.alphaAssetId, depositAmount);
+        await performUserOptIn(algod, deployment, user);
+      }
+    });
+
+    it('should only let the creator set lock tiers within bounds', async () => {
+      await expect(performSetLockTier(algod, deployment, alice, 0, shortLock, 20_000)).rejects.toThrow();
+      await expect(performSetLockTier(algod, deployment, creator, 0, shortLock, 10_000)).rejects.toThrow();
+
+      await performSetLockTier(algod, deployment, creator, 0, shortLock, 20_000); // 2x
+      await expect(performDepositLocked(algod, deployment, alice, depositAmount, 60)).rejects.toThrow(); // Not offered
+    });
+
+    it('should require the lock box MBR on the first lock', async () => {
+      await expect(
+        performDepositLocked(algod, deployment, alice, depositAmount, shortLock, 100, false)
+      ).rejects.toThrow();
+    });
+
+    it('should mint boost shares without changing the share price', async () => {
+      await performDepositLocked(algod, deployment, alice, depositAmount, shortLock);
+
+      const lock = await getUserLock(algod, deployment, alice.addr);
+      expect(lock.lockedShares).toBe(depositAmount);
+      expect(lock.bonusShares).toBe(depositAmount); // 2x boost at price 1
+      expect(lock.bonusBasis).toBe(depositAmount);
+      expect(await getUserShares(algod, deployment, alice.addr)).toBe(depositAmount * 2);
+      expect(await getUserAlphaBalance(algod, deployment, alice.addr)).toBe(depositAmount);
+
+      // A later depositor buys in at the unchanged price
+      await performDeposit(algod, deployment, bob, depositAmount);
+      expect(await getUserShares(algod, deployment, bob.addr)).toBe(depositAmount);
+    });
+
+    it('should compound yield onto boost shares and block withdrawals while locked', async () => {
+      await performCompoundYield(algod, deployment, creator, 3_000_000);
+
+      const aliceGain = (await getUserAlphaBalance(algod, deployment, alice.addr)) - depositAmount;
+      const bobGain = (await getUserAlphaBalance(algod, deployment, bob.addr)) - depositAmount;
+      expect(bobGain).toBeGreaterThan(0);
+      expect(Math.abs(aliceGain - 2 * bobGain)).toBeLessThanOrEqual(2); // 2x shares, 2x yield
+
+      await expect(performWithdraw(algod, deployment, alice, 0)).rejects.toThrow();
+      await expect(performCloseOut(algod, deployment, alice)).rejects.toThrow();
+      await expect(performReleaseLock(algod, deployment, bob, alice.addr)).rejects.toThrow();
+    });
+
+    it('should burn the boost basis on release and keep the vault solvent', async () => {
+      // Wait past the lock, then let an unrelated transaction produce a newer block
+      await new Promise((resolve) => setTimeout(resolve, (shortLock + 2) * 1000));
+      await fundAsset(algod, creator, alice.addr, deployment.alphaAssetId, 1);
+
+      const expected = await getUserAlphaBalance(algod, deployment, alice.addr);
+      await performReleaseLock(algod, deployment, bob, alice.addr);
+
+      const lock = await getUserLock(algod, deployment, alice.addr);
+      expect(lock).toEqual({ lockedUntil: 0, lockedShares: 0, bonusShares: 0, bonusBasis: 0 });
+      expect((await getVaultStats(algod, deployment)).totalBonusBasis).toBe(0);
+      expect(Math.abs((await getUserAlphaBalance(algod, deployment, alice.addr)) - expected)).toBeLessThanOrEqual(1);
+
+      for (const user of [alice, bob]) {
+        await performWithdraw(algod, deployment, user, 0);
+      }
+      const stats = await getVaultStats(algod, deployment);
+      expect(stats.totalShares).toBe(0);
+      expect(stats.totalAlpha).toBeGreaterThanOrEqual(0);
+    });
+
+    it('should refund the lock box MBR on close out', async () => {
+      const algoBefore = Number((await algod.accountInformation(alice.addr).do()).amount);
+      await performCloseOut(algod, deployment, alice);
+      const algoAfter = Number((await algod.accountInformation(alice.addr).do()).amount);
+      expect(algoAfter - algoBefore).toBe(POSITION_MBR + LOCK_MBR - 3000); // refunds minus outer fee
+
+      await expect(
+        algod.getApplicationBoxByName(deployment.vaultAppId, lockBoxName(alice.addr)).do()
+      ).rejects.toThrow();
+    });
+  });
+
+  describe('Exit Fee', () => {
+    let deployment: CompoundingVaultDeploymentResult;
+    const depositAmount = 100_000_000; // 100 Alpha
+    let aliceFee = 0;
+
+    beforeAll(async () => {
+      deployment = await deployCompoundingVaultForTest(algod, creator, {
+        creatorFeeRate: 0,
+        minSwapThreshold: 2_000_000,
+      });
+
+      for (const user of [alice, bob]) {
+        await optInToAsset(algod, user, deployment.alphaAssetId);
+        await fundAsset(algod, creator, user.addr, deployment.alphaAssetId, depositAmount);
+        await performUserOptIn(algod, deployment, user);
+      }
+    });
+
+    it('should only let the creator set the exit fee within bounds', async () => {
+      await expect(performSetExitFee(algod, deployment, alice, 500, 3600)).rejects.toThrow();
+      await expect(performSetExitFee(algod, deployment, creator, 501, 3600)).rejects.toThrow();
+      await expect(performSetExitFee(algod, deployment, creator, 500, 31 * 86400)).rejects.toThrow();
+
+      await performSetExitFee(algod, deployment, creator, 500, 3600);
+      expect((await getExitFee(algod, deployment, alice.addr)).exitFeePeriod).toBe(3600);
+    });
+
+    it('should leave the fee of an early withdrawal in the vault, raising the share price', async () => {
+      await performDeposit(algod, deployment, alice, depositAmount);
+      await performDeposit(algod, deployment, bob, depositAmount);
+      expect((await getExitFee(algod, deployment, alice.addr)).userFeeBps).toBeGreaterThan(490);
+
+      const before = await getAssetBalance(algod, alice.addr, deployment.alphaAssetId);
+      await performWithdraw(algod, deployment, alice, 0);
+      const received = (await getAssetBalance(algod, alice.addr, deployment.alphaAssetId)) - before;
+
+      aliceFee = depositAmount - received;
+      expect(aliceFee).toBeGreaterThan(4_900_000);
+      expect(aliceFee).toBeLessThanOrEqual(5_000_000);
+
+      const stats = await getVaultStats(algod, deployment);
+      expect(stats.totalAlpha).toBe(depositAmount + aliceFee);
+      expect(await getUserAlphaBalance(algod, deployment, bob.addr)).toBe(depositAmount + aliceFee);
+    });
+
+    it('should waive the fee for the last shareholder', async () => {
+      expect((await getExitFee(algod, deployment, bob.addr)).userFeeBps).toBeGreaterThan(0);
+
+      const before = await getAssetBalance(algod, bob.addr, deployment.alphaAssetId);
+      await performWithdraw(algod, deployment, bob, 0);
+      expect((await getAssetBalance(algod, bob.addr, deployment.alphaAssetId)) - before).toBe(depositAmount + aliceFee);
+    });
+  });
+
+  describe('Deposit For', () => {
+    let deployment: CompoundingVaultDeploymentResult;
+    const depositAmount = 50_000_000; // 50 Alpha
+
+    beforeAll(async () => {
+      deployment = await deployCompoundingVaultForTest(algod, creator, { creatorFeeRate: 0, minSwapThreshold: 2_000_000 });
+      await performUserOptIn(algod, deployment, alice);
+    });
+
+    it('should mint shares to the beneficiary for a deposit funded by the caller', async () => {
+      await performDepositFor(algod, deployment, creator, alice.addr, depositAmount);
+
+      expect(await getUserShares(algod, deployment, alice.addr)).toBe(depositAmount); // First deposit mints 1:1
+      expect((await getVaultStats(algod, deployment)).totalShares).toBe(depositAmount);
+
+      const stranger = algosdk.generateAccount().addr.toString();
+      await expect(performDepositFor(algod, deployment, creator, stranger, depositAmount)).rejects.toThrow();
+    });
+  });
+
+  describe('Zap Deposit', () => {
+    let deployment: CompoundingVaultDeploymentResult;
+    let zapPool: CandidatePoolRef;
+    const depositAmount = 100_000_000; // 100 Alpha
+    const zapAmount = 50_000_000;      // 50 USDC
+
+    beforeAll(async () => {
+      deployment = await deployCompoundingVaultForTest(algod, creator, { creatorFeeRate: 0, minSwapThreshold: 2_000_000 });
+      zapPool = await deployFundedMockPool(
+        algod, creator, deployment.usdcAssetId, deployment.alphaAssetId, 10_000_000_000, 10_000_000_000,
+      );
+
+      await optInToAsset(algod, alice, deployment.alphaAssetId);
+      await optInToAsset(algod, alice, deployment.usdcAssetId);
+      await fundAsset(algod, creator, alice.addr, deployment.alphaAssetId, depositAmount);
+      await fundAsset(algod, creator, alice.addr, deployment.usdcAssetId, zapAmount);
+      await performUserOptIn(algod, deployment, alice);
+      await performDeposit(algod, deployment, alice, depositAmount);
+    });
+
+    it('should only accept a USDC/Alpha zap pool, set by creator or RareFi', async () => {
+      await expect(performZapDeposit(algod, deployment, alice, zapPool, zapAmount, 1_000_000)).rejects.toThrow();
+      await expect(performSetZapPool(algod, deployment, alice, zapPool)).rejects.toThrow();
+
+      await performSetZapPool(algod, deployment, creator, zapPool);
+      expect(await getZapQuote(algod, deployment, zapAmount)).toBeGreaterThan(0);
+    });
+
+    it('should compound existing yield first, then mint shares for the zapped Alpha', async () => {
+      await fundAsset(algod, creator, deployment.vaultAddress, deployment.usdcAssetId, 5_000_000);
+      const quote = await getZapQuote(algod, deployment, zapAmount);
+
+      await performZapDeposit(algod, deployment, alice, zapPool, zapAmount, quote);
+
+      const stats = await getVaultStats(algod, deployment);
+      expect(stats.usdcBalance).toBe(0);
+      expect(stats.totalYieldCompounded).toBeGreaterThan(0);
+      expect(stats.totalYieldCompounded).toBeLessThan(5_000_000); // Only the 5 USDC of yield was compounded
+      expect(stats.totalAlpha).toBe(depositAmount + stats.totalYieldCompounded + quote);
+      expect(await getUserShares(algod, deployment, alice.addr)).toBeLessThan(depositAmount + quote); // Zap minted at the compounded share price
+    });
+  });
 });
@@ -0,0 +1,196 @@
+import algosdk from 'algosdk';
+import {
+  deployFactoryForTest,
+  uploadVaultTemplate,
+  performCreateRareFiVault,
+  performFactoryVaultOptIn,
+  getCreationCost,
+  getFactoryStats,
+  getVault,
+  listRegistryBoxes,
+  getRegistryEntry,
+  creatorBoxName,
+  depositAssetBoxName,
+  swapAssetBoxName,
+  FactoryDeploymentResult,
+  VAULT_TYPE_RAREFI,
+} from './utils/factory';
+import { deployMockPoolWithAssets } from './utils/vault';
+import { createTestAsset } from './utils/assets';
+
+// Localnet configuration
+const ALGOD_SERVER = 'http://localhost';
+const ALGOD_PORT = 4001;
+const ALGOD_TOKEN = 'aaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaa';
+
+// KMD configuration for getting funded accounts
+const KMD_SERVER = 'http://localhost';
+const KMD_PORT = 4002;
+const KMD_TOKEN = 'aaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaa';
+
+const CREATION_FEE = 2_000_000; // 2 ALGO
+const TOKEN_SUPPLY = 100_000_000_000_000;
+
+// RareFiVault state schema (see deployVaultForTest)
+const RAREFI_VAULT_SCHEMA = { globalUints: 31, globalBytes: 11, localUints: 0, localBytes: 0 };
+
+describe('RareFiVaultFactory Contract Tests', () => {
+  let algod: algosdk.Algodv2;
+  let kmd: algosdk.Kmd;
+  let rarefi: { addr: string; sk: Uint8Array };
+  let alice: { addr: string; sk: Uint8Array };
+  let bob: { addr: string; sk: Uint8Array };
+
+  let factory: FactoryDeploymentResult;
+  let vaultArc56Spec: any;
+  let alphaAssetId: number;
+  let usdcAssetId: number;
+  let ibusAssetId: number;
+  let poolAppId: number;
+  let poolAddress: string;
+
+  const vaultParams = () => ({
+    depositAssetId: alphaAssetId,
+    yieldAssetId: usdcAssetId,
+    swapAssetId: ibusAssetId,
+    creatorFeeRate: 5,
+    minSwapThreshold: 2_000_000,
+    maxSlippageBps: 5000,
+    tinymanPoolAppId: poolAppId,
+    tinymanPoolAddress: poolAddress,
+  });
+
+  beforeAll(async () => {
+    algod = new algosdk.Algodv2(ALGOD_TOKEN, ALGOD_SERVER, ALGOD_PORT);
+    kmd = new algosdk.Kmd(KMD_TOKEN, KMD_SERVER, KMD_PORT);
+
+    // Get funded accounts from KMD
+    const wallets = await kmd.listWallets();
+    const defaultWallet = wallets.wallets.find((w: any) => w.name === 'unencrypted-default-wallet');
+
+    const walletHandle = (await kmd.initWalletHandle(defaultWallet.id, '')).wallet_handle_token;
+    const addresses = (await kmd.listKeys(walletHandle)).addresses;
+
+    const getAccount = async (index: number) => {
+      const addr = addresses[index];
+      const keyResponse = await kmd.exportKey(walletHandle, '', addr);
+      return { addr, sk: keyResponse.private_key };
+    };
+
+    rarefi = await getAccount(0);
+    alice = await getAccount(1);
+    bob = await getAccount(2);
+
+    await kmd.releaseWalletHandle(walletHandle);
+
+    alphaAssetId = await createTestAsset(algod, rarefi, 'Alpha-Test', 'ALPHAT', TOKEN_SUPPLY);
+    usdcAssetId = await createTestAsset(algod, rarefi, 'USDC-Test', 'USDCt', TOKEN_SUPPLY);
+    ibusAssetId = await createTestAsset(algod, rarefi, 'IBUS-Test', 'IBUSt', TOKEN_SUPPLY);
+    ({ poolAppId, poolAddress } = await deployMockPoolWithAssets(algod, rarefi, usdcAssetId, ibusAssetId));
+
+    factory = await deployFactoryForTest(algod, rarefi, { creationFee: CREATION_FEE });
+  });
+
+  describe('Templates', () => {
+    it('should reject template upload from non-RareFi account', async () => {
+      await expect(
+        uploadVaultTemplate(algod, factory, alice, VAULT_TYPE_RAREFI, 'RareFiVault', RAREFI_VAULT_SCHEMA),
+      ).rejects.toThrow();
+    });
+
+    it('should upload the RareFiVault template', async () => {
+      const upload = await uploadVaultTemplate(algod, factory, rarefi, VAULT_TYPE_RAREFI, 'RareFiVault', RAREFI_VAULT_SCHEMA);
+      vaultArc56Spec = upload.arc56Spec;
+
+      expect(upload.approvalSize).toBeGreaterThan(0);
+    });
+
+    it('should report creation cost as fee plus MBR', async () => {
+      const cost = await getCreationCost(algod, factory, VAULT_TYPE_RAREFI);
+
+      // 2 pages + 15 uints + 4 bytes slices, plus the four registry boxes
+      const appMbr = 100_000 * 2 + 28_500 * RAREFI_VAULT_SCHEMA.globalUints + 50_000 * RAREFI_VAULT_SCHEMA.globalBytes;
+      expect(cost).toBeGreaterThan(CREATION_FEE + appMbr);
+    });
+  });
+
+  describe('Vault Creation', () => {
+    let vaultAppId: number;
+    let vaultIndex: number;
+
+    it('should reject payment below creation cost', async () => {
+      const cost = await getCreationCost(algod, factory, VAULT_TYPE_RAREFI);
+
+      await expect(
+        performCreateRareFiVault(algod, factory, alice, vaultParams(), cost - 1),
+      ).rejects.toThrow();
+    });
+
+    it('should create a vault and forward the creation fee to RareFi', async () => {
+      const rarefiBefore = (await algod.accountInformation(rarefi.addr).do()).amount;
+
+      ({ vaultAppId, vaultIndex } = await performCreateRareFiVault(algod, factory, alice, vaultParams()));
+
+      const rarefiAfter = (await algod.accountInformation(rarefi.addr).do()).amount;
+      expect(vaultAppId).toBeGreaterThan(0);
+      expect(Number(rarefiAfter) - Number(rarefiBefore)).toBe(CREATION_FEE);
+
+      const stats = await getFactoryStats(algod, factory);
+      expect(stats.creationFee).toBe(CREATION_FEE);
+      expect(stats.vaultCount).toBe(vaultIndex + 1);
+    });
+
+    it('should record the vault in the registry', async () => {
+      const info = await getVault(algod, factory, vaultIndex);
+      expect(info.vaultType).toBe(VAULT_TYPE_RAREFI);
+      expect(info.appId).toBe(vaultAppId);
+      expect(info.creator).toBe(alice.addr);
+      expect(info.depositAsset).toBe(alphaAssetId);
+      expect(info.swapAsset).toBe(ibusAssetId);
+
+      expect(await getRegistryEntry(algod, factory, creatorBoxName(alice.addr, vaultIndex))).toBe(vaultAppId);
+      expect(await getRegistryEntry(algod, factory, depositAssetBoxName(alphaAssetId, vaultIndex))).toBe(vaultAppId);
+      expect(await getRegistryEntry(algod, factory, swapAssetBoxName(ibusAssetId, vaultIndex))).toBe(vaultAppId);
+    });
+
+    it('should list vaults by creator prefix', async () => {
+      await performCreateRareFiVault(algod, factory, bob, vaultParams());
+
+      const creatorPrefix = Buffer.concat([Buffer.from('c'), algosdk.decodeAddress(alice.addr).publicKey]);
+      const aliceVaults = (await listRegistryBoxes(algod, factory, 'c'))
+        .filter((name) => Buffer.from(name).subarray(0, creatorPrefix.length).equals(creatorPrefix));
+      expect(aliceVaults.length).toBe(1);
+
+      const ibusVaults = await listRegistryBoxes(algod, factory, 's');
+      expect(ibusVaults.length).toBe(2);
+    });
+
+    it('should hand creator role to the caller', async () => {
+      const appInfo = await algod.getApplicationByID(vaultAppId).do();
+      const creatorState = appInfo.params.globalState?.find(
+        (kv: any) => Buffer.from(kv.key).toString() === 'creatorAddress',
+      );
+      const rarefiState = appInfo.params.globalState?.find(
+        (kv: any) => Buffer.from(kv.key).toString() === 'rarefiAddress',
+      );
+
+      expect(algosdk.encodeAddress(creatorState!.value.bytes)).toBe(alice.addr);
+      expect(algosdk.encodeAddress(rarefiState!.value.bytes)).toBe(rarefi.addr);
+    });
+
+    it('should let the creator opt the vault into its assets', async () => {
+      await performFactoryVaultOptIn(algod, vaultAppId, vaultArc56Spec, alice, [alphaAssetId, usdcAssetId, ibusAssetId]);
+
+      const vaultInfo = await algod.accountInformation(algosdk.getApplicationAddress(vaultAppId)).do();
+      expect(vaultInfo.assets?.length).toBe(3);
+    });
+
+    it('should reject vault opt-in from non-creator', async () => {
+      const { vaultAppId: otherVault } = await performCreateRareFiVault(algod, factory, alice, vaultParams());
+
+      await expect(
+        performFactoryVaultOptIn(algod, otherVault, vaultArc56Spec, bob, [alphaAssetId, usdcAssetId, ibusAssetId]),
+      ).rejects.toThrow();
+    });
+  });
+});
@@ -0,0 +1,964 @@
+import algosdk from 'algosdk';
+import {
+  deployFolksVaultForTest,
+  performUserOptIn,
+  performDeposit,
+  performDepositFor,
+  performWithdraw,
+  performHarvestYield,
+  performHarvestAll,
+  performSwapYield,
+  performClaim,
+  performClaimCreator,
+  performCloseOut,
+  performAccrueInterest,
+  performSendYieldFTokens,
+  performEmergencyWithdraw,
+  performSetFolksWithdrawalsPaused,
+  performPause,
+  performUnpause,
+  getPauseState,
+  performObservePrice,
+  getPriceOracle,
+  getHarvestQuote,
+  getHarvestableFTokens,
+  getVaultStats,
+  getPendingYield,
+  getUserDeposit,
+  getDepositInterestIndex,
+  performDepositLocked,
+  performSetLockTier,
+  performReleaseLock,
+  getUserLock,
+  performSetExitFee,
+  getExitFee,
+  performSetYieldRecipient,
+  performApproveClaimer,
+  performClaimFor,
+  performClearClaimSettings,
+  getClaimSettings,
+  CLAIM_SETTINGS_MBR,
+  positionBoxName,
+  POSITION_MBR,
+  FolksVaultDeploymentResult,
+  INTEREST_INDEX_ONE,
+} from './utils/folksVault';
+import { performPoolSwap } from './utils/vault';
+import { getAssetBalance, optInToAsset, fundAsset } from './utils/assets';
+
+// Localnet configuration
+const ALGOD_SERVER = 'http://localhost';
+const ALGOD_PORT = 4001;
+const ALGOD_TOKEN = 'aaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaa';
+
+// KMD configuration for getting funded accounts
+const KMD_SERVER = 'http://localhost';
+const KMD_PORT = 4002;
+const KMD_TOKEN = 'aaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaa';
+
+describe('RareFiFolksVault Contract Tests', () => {
+  let algod: algosdk.Algodv2;
+  let kmd: algosdk.Kmd;
+  let creator: { addr: string; sk: Uint8Array };
+  let alice: { addr: string; sk: Uint8Array };
+  let bob: { addr: string; sk: Uint8Array };
+
+  beforeAll(async () => {
+    algod = new algosdk.Algodv2(ALGOD_TOKEN, ALGOD_SERVER, ALGOD_PORT);
+    kmd = new algosdk.Kmd(KMD_TOKEN, KMD_SERVER, KMD_PORT);
+
+    // Get funded accounts from KMD
+    const wallets = await kmd.listWallets();
+    const defaultWallet = wallets.wallets.find((w: any) => w.name === 'unencrypted-default-wallet');
+
+    const walletHandle = (await kmd.initWalletHandle(defaultWallet.id, '')).wallet_handle_token;
+    const addresses = (await kmd.listKeys(walletHandle)).addresses;
+
+    // Get 3 accounts
+    const getAccount = async (index: number) => {
+      const addr = addresses[index];
+      const keyResponse = await kmd.exportKey(walletHandle, '', addr);
+      return { addr, sk: keyResponse.private_key };
+    };
+
+    creator = await getAccount(0);
+    alice = await getAccount(1);
+    bob = await getAccount(2);
+
+    await kmd.releaseWalletHandle(walletHandle);
+  });
+
+  describe('Deployment', () => {
+    let deployment: FolksVaultDeploymentResult;
+
+    it('should deploy vault, Folks pool and Tinyman pool successfully', async () => {
+      deployment = await deployFolksVaultForTest(algod, creator, {
+        creatorFeeRate: 5,
+        minSwapThreshold: 2_000_000, // 2 USDC
+      });
+
+      expect(deployment.vaultAppId).toBeGreaterThan(0);
+      expect(deployment.folksPoolAppId).toBeGreaterThan(0);
+      expect(deployment.folksPoolManagerAppId).toBeGreaterThan(0);
+      expect(deployment.poolAppId).toBeGreaterThan(0);
+      expect(deployment.usdcAssetId).toBeGreaterThan(0);
+      expect(deployment.fTokenAssetId).toBeGreaterThan(0);
+      expect(deployment.ibusAssetId).toBeGreaterThan(0);
+    });
+
+    it('should have correct initial state', async () => {
+      const stats = await getVaultStats(algod, deployment);
+      expect(stats.totalDeposits).toBe(0);
+      expect(stats.totalPrincipalFTokens).toBe(0);
+      expect(stats.yieldPerToken).toBe(0);
+      expect(stats.creatorUnclaimedYield).toBe(0);
+
+      const index = await getDepositInterestIndex(algod, deployment);
+      expect(index).toBe(INTEREST_INDEX_ONE);
+    });
+  });
+
+  describe('User Operations', () => {
+    let deployment: FolksVaultDeploymentResult;
+    const depositAmount = 100_000_000; // 100 USDC
+
+    beforeAll(async () => {
+      deployment = await deployFolksVaultForTest(algod, creator);
+
+      await optInToAsset(algod, alice, deployment.usdcAssetId);
+      await optInToAsset(algod, alice, deployment.ibusAssetId);
+      await fundAsset(algod, creator, alice.addr, deployment.usdcAssetId, 1_000_000_000);
+    });
+
+    it('should allow user to opt in', async () => {
+      await performUserOptIn(algod, deployment, alice);
+      const deposit = await getUserDeposit(algod, deployment, alice.addr);
+      expect(deposit).toBe(0);
+    });
+
+    it('should forward deposit to Folks and record principal fTokens', async () => {
+      await performDeposit(algod, deployment, alice, depositAmount);
+
+      const deposit = await getUserDeposit(algod, deployment, alice.addr);
+      expect(deposit).toBe(depositAmount);
+
+      const stats = await getVaultStats(algod, deployment);
+      expect(stats.totalDeposits).toBe(depositAmount);
+      // Index is 1.0, so fTokens minted 1:1
+      expect(stats.totalPrincipalFTokens).toBe(depositAmount);
+      expect(stats.fTokenBalance).toBe(depositAmount);
+      expect(stats.yieldFTokens).toBe(0);
+      // Vault holds no idle underlying
+      expect(stats.usdcBalance).toBe(0);
+    });
+
+    it('should allow partial withdrawal', async () => {
+      const withdrawAmount = 30_000_000;
+      const usdcBefore = await getAssetBalance(algod, alice.addr, deployment.usdcAssetId);
+
+      await performWithdraw(algod, deployment, alice, withdrawAmount);
+
+      const usdcAfter = await getAssetBalance(algod, alice.addr, deployment.usdcAssetId);
+      expect(usdcAfter - usdcBefore).toBe(withdrawAmount);
+
+      const deposit = await getUserDeposit(algod, deployment, alice.addr);
+      expect(deposit).toBe(depositAmount - withdrawAmount);
+
+      const stats = await getVaultStats(algod, deployment);
+      expect(stats.totalDeposits).toBe(depositAmount - withdrawAmount);
+      expect(stats.totalPrincipalFTokens).toBe(depositAmount - withdrawAmount);
+    });
+
+    it('should allow full withdrawal with amount=0', async () => {
+      await performWithdraw(algod, deployment, alice, 0);
+
+      const deposit = await getUserDeposit(algod, deployment, alice.addr);
+      expect(deposit).toBe(0);
+
+      const stats = await getVaultStats(algod, deployment);
+      expect(stats.totalDeposits).toBe(0);
+      expect(stats.totalPrincipalFTokens).toBe(0);
+      expect(stats.fTokenBalance).toBe(0);
+    });
+
+    it('should reject deposit below minimum', async () => {
+      await expect(
+        performDeposit(algod, deployment, alice, 500_000) // 0.5 USDC
+      ).rejects.toThrow();
+    });
+  });
+
+  describe('Folks Interest Accrual', () => {
+    let deployment: FolksVaultDeploymentResult;
+    const depositAmount = 100_000_000; // 100 USDC
+
+    beforeAll(async () => {
+      deployment = await deployFolksVaultForTest(algod, creator);
+
+      await optInToAsset(algod, alice, deployment.usdcAssetId);
+      await optInToAsset(algod, alice, deployment.ibusAssetId);
+      await fundAsset(algod, creator, alice.addr, deployment.usdcAssetId, 1_000_000_000);
+
+      await performUserOptIn(algod, deployment, alice);
+      await performDeposit(algod, deployment, alice, depositAmount);
+    });
+
+    it('should mint fewer fTokens per USDC after the index rises', async () => {
+      await performAccrueInterest(algod, deployment, creator, 500); // +5%
+
+      const index = await getDepositInterestIndex(algod, deployment);
+      expect(index).toBe(105_000_000_000_000); // 1.05
+
+      await performDeposit(algod, deployment, alice, 21_000_000);
+
+      const stats = await getVaultStats(algod, deployment);
+      // 21 USDC / 1.05 = 20 fUSDC
+      expect(stats.totalPrincipalFTokens).toBe(depositAmount + 20_000_000);
+      expect(stats.yieldFTokens).toBe(0);
+    });
+
+    it('should return principal plus accrued interest on full withdrawal', async () => {
+      const usdcBefore = await getAssetBalance(algod, alice.addr, deployment.usdcAssetId);
+
+      await performWithdraw(algod, deployment, alice, 0);
+
+      const usdcAfter = await getAssetBalance(algod, alice.addr, deployment.usdcAssetId);
+      // 120 fUSDC redeemed at 1.05 = 126 USDC (100 + 5 interest + 21)
+      expect(usdcAfter - usdcBefore).toBe(126_000_000);
+
+      const stats = await getVaultStats(algod, deployment);
+      expect(stats.totalDeposits).toBe(0);
+      expect(stats.totalPrincipalFTokens).toBe(0);
+    });
+  });
+
+  describe('Yield Harvesting', () => {
+    let deployment: FolksVaultDeploymentResult;
+    const aliceDeposit = 1000_000_000; // 1000 USDC
+    const bobDeposit = 500_000_000;    // 500 USDC
+    const yieldUsdc = 30_000_000;      // 30 USDC worth of yield fTokens
+
+    beforeAll(async () => {
+      deployment = await deployFolksVaultForTest(algod, creator, {
+        creatorFeeRate: 5, // 5%
+        minSwapThreshold: 2_000_000, // 2 USDC
+      });
+
+      await optInToAsset(algod, alice, deployment.usdcAssetId);
+      await optInToAsset(algod, bob, deployment.usdcAssetId);
+      await optInToAsset(algod, alice, deployment.ibusAssetId);
+      await optInToAsset(algod, bob, deployment.ibusAssetId);
+      await optInToAsset(algod, creator, deployment.ibusAssetId);
+
+      await fundAsset(algod, creator, alice.addr, deployment.usdcAssetId, 2_000_000_000);
+      await fundAsset(algod, creator, bob.addr, deployment.usdcAssetId, 1_000_000_000);
+
+      await performUserOptIn(algod, deployment, alice);
+      await performUserOptIn(algod, deployment, bob);
+
+      await performDeposit(algod, deployment, alice, aliceDeposit);
+      await performDeposit(algod, deployment, bob, bobDeposit);
+    });
+
+    it('should reject harvesting principal fTokens', async () => {
+      await expect(
+        performHarvestYield(algod, deployment, creator, 1_000_000, 100)
+      ).rejects.toThrow();
+    });
+
+    it('should harvest yield fTokens, swap and distribute', async () => {
+      const yieldFTokens = await performSendYieldFTokens(algod, deployment, creator, yieldUsdc);
+
+      let stats = await getVaultStats(algod, deployment);
+      expect(stats.yieldFTokens).toBe(yieldFTokens);
+
+      await performHarvestYield(algod, deployment, creator, yieldFTokens, 100); // 1% slippage
+
+      stats = await getVaultStats(algod, deployment);
+      // Principal untouched, yield fTokens redeemed, underlying swapped
+      expect(stats.totalPrincipalFTokens).toBe(aliceDeposit + bobDeposit);
+      expect(stats.yieldFTokens).toBe(0);
+      expect(stats.usdcBalance).toBe(0);
+      expect(stats.creatorUnclaimedYield).toBeGreaterThan(0);
+      expect(stats.yieldPerToken).toBeGreaterThan(0);
+      expect(stats.totalYieldGenerated).toBeGreaterThan(0);
+    });
+
+    it('should distribute yield proportionally to deposits', async () => {
+      const alicePending = await getPendingYield(algod, deployment, alice.addr);
+      const bobPending = await getPendingYield(algod, deployment, bob.addr);
+
+      // Alice deposited 2x Bob
+      expect(alicePending).toBeGreaterThan(0);
+      expect(alicePending / bobPending).toBeCloseTo(2, 1);
+    });
+
+    it('should allow users to claim yield', async () => {
+      const pending = await getPendingYield(algod, deployment, alice.addr);
+      const ibusBefore = await getAssetBalance(algod, alice.addr, deployment.ibusAssetId);
+
+      await performClaim(algod, deployment, alice);
+
+      const ibusAfter = await getAssetBalance(algod, alice.addr, deployment.ibusAssetId);
+      expect(ibusAfter - ibusBefore).toBe(pending);
+      expect(await getPendingYield(algod, deployment, alice.addr)).toBe(0);
+
+      // Deposit unaffected by claim
+      expect(await getUserDeposit(algod, deployment, alice.addr)).toBe(aliceDeposit);
+    });
+
+    it('should allow creator to claim fee', async () => {
+      const stats = await getVaultStats(algod, deployment);
+      const ibusBefore = await getAssetBalance(algod, creator.addr, deployment.ibusAssetId);
+
+      await performClaimCreator(algod, deployment, creator);
+
+      const ibusAfter = await getAssetBalance(algod, creator.addr, deployment.ibusAssetId);
+      expect(ibusAfter - ibusBefore).toBe(stats.creatorUnclaimedYield);
+    });
+
+    it('should reject creator claim from non-creator', async () => {
+      await expect(
+        performClaimCreator(algod, deployment, alice)
+      ).rejects.toThrow();
+    });
+
+    it('should accumulate harvest below threshold, then swap via swapYield', async () => {
+      // 1 USDC of yield stays below the 2 USDC threshold
+      const yieldFTokens = await performSendYieldFTokens(algod, deployment, creator, 1_000_000);
+      await performHarvestYield(algod, deployment, creator, yieldFTokens, 100);
+
+      let stats = await getVaultStats(algod, deployment);
+      expect(stats.usdcBalance).toBe(1_000_000);
+      const yptBefore = stats.yieldPerToken;
+
+      // Top up to cross the threshold and swap
+      await performSwapYield(algod, deployment, creator, 1_500_000, 100);
+
+      stats = await getVaultStats(algod, deployment);
+      expect(stats.usdcBalance).toBe(0);
+      expect(stats.yieldPerToken).toBeGreaterThan(yptBefore);
+    });
+
+    it('should reject swapYield below threshold', async () => {
+      await expect(
+        performSwapYield(algod, deployment, creator, 0, 100)
+      ).rejects.toThrow();
+    });
+
+    it('should reject harvest when slippage exceeds maxSlippageBps', async () => {
+      const yieldFTokens = await performSendYieldFTokens(algod, deployment, creator, 5_000_000);
+      await expect(
+        performHarvestYield(algod, deployment, creator, yieldFTokens, 6000) // 60% > 50% max
+      ).rejects.toThrow();
+    });
+  });
+
+  describe('Emergency Withdraw', () => {
+    let deployment: FolksVaultDeploymentResult;
+    const aliceDeposit = 100_000_000; // 100 USDC
+    const bobDeposit = 100_000_000;   // 100 USDC
+    let alicePending: number;
+
+    beforeAll(async () => {
+      deployment = await deployFolksVaultForTest(algod, creator, {
+        creatorFeeRate: 0,
+        minSwapThreshold: 2_000_000,
+      });
+
+      for (const user of [alice, bob]) {
+        await optInToAsset(algod, user, deployment.usdcAssetId);
+        await optInToAsset(algod, user, deployment.fTokenAssetId);
+        await optInToAsset(algod, user, deployment.ibusAssetId);
+        await fundAsset(algod, creator, user.addr, deployment.usdcAssetId, 500_000_000);
+        await performUserOptIn(algod, deployment, user);
+      }
+
+      await performDeposit(algod, deployment, alice, aliceDeposit);
+      await performDeposit(algod, deployment, bob, bobDeposit);
+
+      // Distribute some yield, then take Folks offline
+      const yieldFTokens = await performSendYieldFTokens(algod, deployment, creator, 10_000_000);
+      await performHarvestYield(algod, deployment, creator, yieldFTokens, 100);
+      await performSetFolksWithdrawalsPaused(algod, deployment, creator, true);
+
+      alicePending = await getPendingYield(algod, deployment, alice.addr);
+    });
+
+    it('should fail regular withdraw while Folks is paused', async () => {
+      await expect(
+        performWithdraw(algod, deployment, alice, 10_000_000)
+      ).rejects.toThrow();
+    });
+
+    it('should reject emergency withdraw above balance', async () => {
+      await expect(
+        performEmergencyWithdraw(algod, deployment, alice, aliceDeposit + 1)
+      ).rejects.toThrow();
+    });
+
+    it('should send pro-rata principal fTokens and keep yield', async () => {
+      const exitAmount = 40_000_000;
+      const fTokensBefore = await getAssetBalance(algod, alice.addr, deployment.fTokenAssetId);
+
+      await performEmergencyWithdraw(algod, deployment, alice, exitAmount);
+
+      // Index is 1.0, so principal fTokens are 1:1 with deposits
+      const fTokensAfter = await getAssetBalance(algod, alice.addr, deployment.fTokenAssetId);
+      expect(fTokensAfter - fTokensBefore).toBe(exitAmount);
+
+      expect(await getUserDeposit(algod, deployment, alice.addr)).toBe(aliceDeposit - exitAmount);
+      expect(await getPendingYield(algod, deployment, alice.addr)).toBe(alicePending);
+
+      const stats = await getVaultStats(algod, deployment);
+      expect(stats.totalDeposits).toBe(aliceDeposit + bobDeposit - exitAmount);
+      expect(stats.totalPrincipalFTokens).toBe(aliceDeposit + bobDeposit - exitAmount);
+      expect(stats.yieldFTokens).toBe(0);
+    });
+
+    it('should still allow claiming yield during the outage', async () => {
+      const ibusBefore = await getAssetBalance(algod, alice.addr, deployment.ibusAssetId);
+
+      await performClaim(algod, deployment, alice);
+
+      const ibusAfter = await getAssetBalance(algod, alice.addr, deployment.ibusAssetId);
+      expect(ibusAfter - ibusBefore).toBe(alicePending);
+    });
+
+    it('should give the last depositor all remaining principal fTokens', async () => {
+      await performEmergencyWithdraw(algod, deployment, bob, 0);
+      await performEmergencyWithdraw(algod, deployment, alice, 0);
+
+      expect(await getAssetBalance(algod, bob.addr, deployment.fTokenAssetId)).toBe(bobDeposit);
+
+      const stats = await getVaultStats(algod, deployment);
+      expect(stats.totalDeposits).toBe(0);
+      expect(stats.totalPrincipalFTokens).toBe(0);
+      expect(stats.fTokenBalance).toBe(0);
+    });
+  });
+
+  describe('Guardian Pause', () => {
+    let deployment: FolksVaultDeploymentResult;
+    let yieldFTokens: number;
+
+    beforeAll(async () => {
+      deployment = await deployFolksVaultForTest(algod, creator, {
+        creatorFeeRate: 0,
+        minSwapThreshold: 2_000_000,
+      });
+
+      await optInToAsset(algod, alice, deployment.usdcAssetId);
+      await optInToAsset(algod, alice, deployment.fTokenAssetId);
+      await optInToAsset(algod, alice, deployment.ibusAssetId);
+      await fundAsset(algod, creator, alice.addr, deployment.usdcAssetId, 500_000_000);
+      await performUserOptIn(algod, deployment, alice);
+      await performDeposit(algod, deployment, alice, 100_000_000);
+
+      yieldFTokens = await performSendYieldFTokens(algod, deployment, creator, 10_000_000);
+    });
+
+    it('should reject pause from non-guardian', async () => {
+      await expect(performPause(algod, deployment, alice, 3600)).rejects.toThrow();
+    });
+
+    it('should block deposit and harvest while paused', async () => {
+      // rarefiAddress = creator in tests, so creator is the default guardian
+      await performPause(algod, deployment, creator, 3600);
+      expect((await getPauseState(algod, deployment)).isPaused).toBe(true);
+
+      await expect(performDeposit(algod, deployment, alice, 10_000_000)).rejects.toThrow();
+      await expect(performHarvestYield(algod, deployment, creator, yieldFTokens, 100)).rejects.toThrow();
+    });
+
+    it('should keep withdraw and emergency withdraw open while paused', async () => {
+      await performWithdraw(algod, deployment, alice, 40_000_000);
+      await performEmergencyWithdraw(algod, deployment, alice, 10_000_000);
+      expect(await getUserDeposit(algod, deployment, alice.addr)).toBe(50_000_000);
+    });
+
+    it('should resume harvesting after unpause', async () => {
+      await performUnpause(algod, deployment, creator);
+      expect((await getPauseState(algod, deployment)).isPaused).toBe(false);
+
+      await performHarvestYield(algod, deployment, creator, yieldFTokens, 100);
+      expect(await getPendingYield(algod, deployment, alice.addr)).toBeGreaterThan(0);
+    });
+  });
+
+  describe('Close Out', () => {
+    let deployment: FolksVaultDeploymentResult;
+    const depositAmount = 100_000_000;
+
+    beforeAll(async () => {
+      deployment = await deployFolksVaultForTest(algod, creator, {
+        creatorFeeRate: 0, // No creator fee for simpler math
+        minSwapThreshold: 2_000_000,
+      });
+
+      await optInToAsset(algod, alice, deployment.usdcAssetId);
+      await optInToAsset(algod, alice, deployment.ibusAssetId);
+      await fundAsset(algod, creator, alice.addr, deployment.usdcAssetId, 500_000_000);
+
+      await performUserOptIn(algod, deployment, alice);
+      await performDeposit(algod, deployment, alice, depositAmount);
+
+      // Generate some yield for Alice
+      const yieldFTokens = await performSendYieldFTokens(algod, deployment, creator, 10_000_000);
+      await performHarvestYield(algod, deployment, creator, yieldFTokens, 100);
+    });
+
+    it('should return deposit and yield on close out', async () => {
+      const pending = await getPendingYield(algod, deployment, alice.addr);
+      expect(pending).toBeGreaterThan(0);
+
+      const usdcBefore = await getAssetBalance(algod, alice.addr, deployment.usdcAssetId);
+      const ibusBefore = await getAssetBalance(algod, alice.addr, deployment.ibusAssetId);
+
+      await performCloseOut(algod, deployment, alice);
+
+      const usdcAfter = await getAssetBalance(algod, alice.addr, deployment.usdcAssetId);
+      const ibusAfter = await getAssetBalance(algod, alice.addr, deployment.ibusAssetId);
+
+      expect(usdcAfter - usdcBefore).toBe(depositAmount);
+      expect(ibusAfter - ibusBefore).toBe(pending);
+
+      const stats = await getVaultStats(algod, deployment);
+      expect(stats.totalDeposits).toBe(0);
+      expect(stats.totalPrincipalFTokens).toBe(0);
+    });
+
+    it('should delete the position box and refund its MBR', async () => {
+      await performUserOptIn(algod, deployment, alice);
+      await expect(
+        performUserOptIn(algod, deployment, alice)
+      ).rejects.toThrow();
+
+      const algoBefore = Number((await algod.accountInformation(alice.addr).do()).amount);
+
+      await performCloseOut(algod, deployment, alice);
+
+      const algoAfter = Number((await algod.accountInformation(alice.addr).do()).amount);
+      expect(algoAfter - algoBefore).toBe(POSITION_MBR - 7000); // refund minus outer fee
+
+      await expect(
+        algod.getApplicationBoxByName(deployment.vaultAppId, positionBoxName(alice.addr)).do()
+      ).rejects.toThrow();
+    });
+  });
+
+  describe('TWAP Price Guard', () => {
+    let deployment: FolksVaultDeploymentResult;
+    let yieldFTokens: number;
+    const manipulationAmount = 3_000_000_000; // 3,000 USDC dumped into the pool
+
+    beforeAll(async () => {
+      deployment = await deployFolksVaultForTest(algod, creator, {
+        creatorFeeRate: 0,
+        minSwapThreshold: 2_000_000,
+        maxPriceDeviationBps: 1000, // 10% (the contract default)
+      });
+
+      await optInToAsset(algod, alice, deployment.usdcAssetId);
+      await optInToAsset(algod, creator, deployment.ibusAssetId);
+      await fundAsset(algod, creator, alice.addr, deployment.usdcAssetId, 500_000_000);
+      await performUserOptIn(algod, deployment, alice);
+      await performDeposit(algod, deployment, alice, 100_000_000);
+
+      yieldFTokens = await performSendYieldFTokens(algod, deployment, creator, 10_000_000);
+    });
+
+    it('should reject a swap in the round that seeds the TWAP', async () => {
+      const fresh = await deployFolksVaultForTest(algod, creator, {
+        creatorFeeRate: 0,
+        minSwapThreshold: 2_000_000,
+      });
+      await performUserOptIn(algod, fresh, alice);
+      await fundAsset(algod, creator, fresh.vaultAddress, fresh.usdcAssetId, 5_000_000);
+      expect((await getPriceOracle(algod, fresh)).lastObservationTime).toBe(0);
+
+      // The deposit seeds the TWAP; a swap in the same group would only be checked against that seed
+      const contract = new algosdk.ABIContract(fresh.arc56Spec);
+      const suggestedParams = await algod.getTransactionParams().do();
+      const signer = algosdk.makeBasicAccountTransactionSigner({
+        sk: alice.sk,
+        addr: algosdk.decodeAddress(alice.addr),
+      });
+
+      const atc = new algosdk.AtomicTransactionComposer();
+      atc.addTransaction({
+        txn: algosdk.makeAssetTransferTxnWithSuggestedParamsFromObject({
+          sender: alice.addr,
+          receiver: fresh.vaultAddress,
+          amount: 100_000_000,
+          assetIndex: fresh.usdcAssetId,
+          suggestedParams,
+        }),
+        signer,
+      });
+      atc.addMethodCall({
+        appID: fresh.vaultAppId,
+        method: contract.getMethodByName('deposit'),
+        methodArgs: [],
+        sender: alice.addr,
+        signer,
+        suggestedParams: { ...suggestedParams, fee: 4000, flatFee: true },
+        appForeignAssets: [fresh.usdcAssetId, fresh.fTokenAssetId],
+        appForeignApps: [fresh.folksPoolAppId, fresh.folksPoolManagerAppId, fresh.poolAppId],
+        appAccounts: [fresh.poolAddress],
+        boxes: [{ appIndex: fresh.vaultAppId, name: positionBoxName(alice.addr) }],
+      });
+      atc.addMethodCall({
+        appID: fresh.vaultAppId,
+        method: contract.getMethodByName('swapYield'),
+        methodArgs: [100],
+        sender: alice.addr,
+        signer,
+        suggestedParams: { ...suggestedParams, fee: 4000, flatFee: true },
+        appForeignAssets: [fresh.usdcAssetId, fresh.ibusAssetId],
+        appForeignApps: [fresh.poolAppId],
+        appAccounts: [fresh.poolAddress],
+      });
+      await expect(atc.execute(algod, 5)).rejects.toThrow();
+
+      // The failed group rolled the seed back with it
+      expect((await getPriceOracle(algod, fresh)).lastObservationTime).toBe(0);
+
+      // Seeded by a deposit in an earlier round, the swap goes through
+      await performDeposit(algod, fresh, alice, 100_000_000);
+      expect((await getPriceOracle(algod, fresh)).lastObservationTime).toBeGreaterThan(0);
+      await performSwapYield(algod, fresh, creator, 0, 100);
+
+      const stats = await getVaultStats(algod, fresh);
+      expect(stats.usdcBalance).toBe(0);
+      expect(await getPendingYield(algod, fresh, alice.addr)).toBeGreaterThan(0);
+    });
+
+    it('should reject harvest swaps while the pool price is pushed away from the TWAP', async () => {
+      // The deposit seeded the oracle; record a fresh observation before anyone moves the pool
+      await performObservePrice(algod, deployment, alice);
+      const seeded = await getPriceOracle(algod, deployment);
+      expect(seeded.twapPrice).toBe(seeded.spotPrice);
+      expect(seeded.lastObservationTime).toBeGreaterThan(0);
+
+      const ibusBefore = await getAssetBalance(algod, creator.addr, deployment.ibusAssetId);
+      await performPoolSwap(
+        algod, creator, deployment.poolAppId, deployment.poolAddress,
+        deployment.usdcAssetId, deployment.ibusAssetId, manipulationAmount,
+      );
+      const ibusReceived = (await getAssetBalance(algod, creator.addr, deployment.ibusAssetId)) - ibusBefore;
+
+      await expect(
+        performHarvestYield(algod, deployment, creator, yieldFTokens, 100)
+      ).rejects.toThrow();
+
+      // Undo the manipulation, then the harvest goes through
+      await performPoolSwap(
+        algod, creator, deployment.poolAppId, deployment.poolAddress,
+        deployment.ibusAssetId, deployment.usdcAssetId, ibusReceived,
+      );
+      await performHarvestYield(algod, deployment, creator, yieldFTokens, 100);
+
+      const stats = await getVaultStats(algod, deployment);
+      expect(stats.usdcBalance).toBe(0);
+      expect(await getPendingYield(algod, deployment, alice.addr)).toBeGreaterThan(0);
+    });
+  });
+
+  describe('Absolute minAmountOut', () => {
+    let deployment: FolksVaultDeploymentResult;
+    const poolReserve = 10_000_000_000; // Default Tinyman reserves (10,000 USDC / 10,000 IBUS)
+    const swapAmount = 5_000_000;       // 5 USDC
+
+    beforeAll(async () => {
+      deployment = await deployFolksVaultForTest(algod, creator, {
+        creatorFeeRate: 0,
+        minSwapThreshold: 2_000_000,
+      });
+
+      await optInToAsset(algod, alice, deployment.usdcAssetId);
+      await fundAsset(algod, creator, alice.addr, deployment.usdcAssetId, 500_000_000);
+      await performUserOptIn(algod, deployment, alice);
+      await performDeposit(algod, deployment, alice, 100_000_000);
+    });
+
+    it('should enforce minAmountOut on top of slippage when swapping', async () => {
+      // Constant product quote at the default 0.3% pool fee
+      const netInput = (BigInt(swapAmount) * 9970n) / 10000n;
+      const expected = Number((BigInt(poolReserve) * netInput) / (BigInt(poolReserve) + netInput));
+
+      await expect(
+        performSwapYield(algod, deployment, creator, swapAmount, 100, expected + 1)
+      ).rejects.toThrow();
+
+      // The rejected call's USDC transfer went through on its own, so only swap what is already there
+      await performSwapYield(algod, deployment, creator, 0, 100, expected);
+
+      const stats = await getVaultStats(algod, deployment);
+      expect(stats.usdcBalance).toBe(0);
+      expect(await getPendingYield(algod, deployment, alice.addr)).toBeGreaterThan(0);
+    });
+  });
+
+  describe('Harvest All', () => {
+    let deployment: FolksVaultDeploymentResult;
+    const depositAmount = 100_000_000;  // 100 USDC
+    const poolReserve = 10_000_000_000; // Default Tinyman reserves (10,000 USDC / 10,000 IBUS)
+
+    beforeAll(async () => {
+      deployment = await deployFolksVaultForTest(algod, creator, {
+        creatorFeeRate: 0,
+        minSwapThreshold: 2_000_000, // 2 USDC
+      });
+
+      await optInToAsset(algod, alice, deployment.usdcAssetId);
+      await fundAsset(algod, creator, alice.addr, deployment.usdcAssetId, 500_000_000);
+      await performUserOptIn(algod, deployment, alice);
+      await performDeposit(algod, deployment, alice, depositAmount);
+    });
+
+    it('should report nothing harvestable and reject harvestAll without yield', async () => {
+      expect(await getHarvestableFTokens(algod, deployment)).toBe(0);
+      expect(await getHarvestQuote(algod, deployment)).toEqual({ yieldFTokens: 0, estimatedUnderlying: 0, expectedSwapOutput: 0 });
+
+      await expect(performHarvestAll(algod, deployment, creator, 100)).rejects.toThrow();
+    });
+
+    it('should quote the yield fTokens, estimated underlying and swap output', async () => {
+      const yieldFTokens = await performSendYieldFTokens(algod, deployment, creator, 10_000_000);
+
+      // Constant product quote at the default 0.3% pool fee
+      const netInput = (10_000_000n * 9970n) / 10000n;
+      const expected = Number((BigInt(poolReserve) * netInput) / (BigInt(poolReserve) + netInput));
+
+      expect(await getHarvestableFTokens(algod, deployment)).toBe(yieldFTokens);
+      expect(await getHarvestQuote(algod, deployment)).toEqual({
+        yieldFTokens,
+        estimatedUnderlying: 10_000_000, // Index 1.0
+        expectedSwapOutput: expected,
+      });
+    });
+
+    it('should redeem every yield fToken and swap at the quoted output', async () => {
+      const quote = await getHarvestQuote(algod, deployment);
+
+      await performHarvestAll(algod, deployment, creator, 100);
+
+      const stats = await getVaultStats(algod, deployment);
+      expect(stats.totalPrincipalFTokens).toBe(depositAmount);
+      expect(stats.yieldFTokens).toBe(0);
+      expect(stats.usdcBalance).toBe(0);
+      expect(stats.swapAssetBalance).toBe(quote.expectedSwapOutput);
+      expect(await getHarvestableFTokens(algod, deployment)).toBe(0);
+    });
+
+    it('should estimate at the fToken rate of the last Folks deposit or redeem', async () => {
+      await performAccrueInterest(algod, deployment, creator, 500); // +5%
+      const yieldFTokens = await performSendYieldFTokens(algod, deployment, creator, 21_000_000); // 20 fUSDC
+
+      // Rate still 1.0 from the last redeem, so the estimate errs low
+      let quote = await getHarvestQuote(algod, deployment);
+      expect(quote.yieldFTokens).toBe(yieldFTokens);
+      expect(quote.estimatedUnderlying).toBe(20_000_000);
+
+      // A deposit at 1.05 updates the rate
+      await performDeposit(algod, deployment, alice, 21_000_000);
+      quote = await getHarvestQuote(algod, deployment);
+      expect(quote.yieldFTokens).toBe(yieldFTokens);
+      expect(quote.estimatedUnderlying).toBe(21_000_000);
+    });
+  });
+
+  describe('Time-Locked Deposits', () => {
+    let deployment: FolksVaultDeploymentResult;
+    const depositAmount = 100_000_000; // 100 USDC
+    const shortLock = 5; // Seconds, short enough to expire within the test
+
+    beforeAll(async () => {
+      deployment = await deployFolksVaultForTest(algod, creator, {
+        creatorFeeRate: 0,
+        minSwapThreshold: 2_000_000, // 2 USDC
+      });
+
+      for (const user of [alice, bob]) {
+        await optInToAsset(algod, user, deployment.usdcAssetId);
+        await optInToAsset(algod, user, deployment.fTokenAssetId);
+        await optInToAsset(algod, user, deployment.ibusAssetId);
+        await fundAsset(algod, creator, user.addr, deployment.usdcAssetId, depositAmount);
+        await performUserOptIn(algod, deployment, user);
+      }
+    });
+
+    it('should only let the creator set lock tiers within bounds', async () => {
+      await expect(performSetLockTier(algod, deployment, alice, 0, shortLock, 30_000)).rejects.toThrow();
+      await expect(performSetLockTier(algod, deployment, creator, 0, shortLock, 30_001)).rejects.toThrow();
+
+      await performSetLockTier(algod, deployment, creator, 0, shortLock, 30_000); // 3x
+      await expect(performDepositLocked(algod, deployment, alice, depositAmount, 60)).rejects.toThrow(); // Not offered
+    });
+
+    it('should give a locked position a boosted share of harvested yield', async () => {
+      await performDepositLocked(algod, deployment, alice, depositAmount, shortLock);
+      await performDeposit(algod, deployment, bob, depositAmount);
+
+      const lock = await getUserLock(algod, deployment, alice.addr);
+      expect(lock.weight).toBe(depositAmount * 3);
+      expect(lock.boostBps).toBe(30_000);
+
+      await performSendYieldFTokens(algod, deployment, creator, 8_000_000);
+      await performHarvestAll(algod, deployment, creator, 100);
+
+      const alicePending = await getPendingYield(algod, deployment, alice.addr);
+      const bobPending = await getPendingYield(algod, deployment, bob.addr);
+      expect(Math.abs(alicePending - 3 * bobPending)).toBeLessThanOrEqual(3); // 3x weight, 3x yield
+    });
+
+    it('should block every exit while the lock is active', async () => {
+      await expect(performWithdraw(algod, deployment, alice, 0)).rejects.toThrow();
+      await expect(performEmergencyWithdraw(algod, deployment, alice, 0)).rejects.toThrow();
+      await expect(performCloseOut(algod, deployment, alice)).rejects.toThrow();
+      await expect(performReleaseLock(algod, deployment, bob, alice.addr)).rejects.toThrow();
+    });
+
+    it('should release the boost and allow withdrawal once the lock expires', async () => {
+      // Wait past the lock, then let an unrelated transaction produce a newer block
+      await new Promise((resolve) => setTimeout(resolve, (shortLock + 2) * 1000));
+      await fundAsset(algod, creator, alice.addr, deployment.usdcAssetId, 1);
+
+      await performReleaseLock(algod, deployment, bob, alice.addr);
+      const lock = await getUserLock(algod, deployment, alice.addr);
+      expect(lock.weight).toBe(depositAmount);
+      expect(lock.boostBps).toBe(10_000);
+
+      await performWithdraw(algod, deployment, alice, 0);
+      expect(await getUserDeposit(algod, deployment, alice.addr)).toBe(0);
+    });
+  });
+
+  describe('Exit Fee', () => {
+    let deployment: FolksVaultDeploymentResult;
+    const depositAmount = 100_000_000; // 100 USDC
+
+    beforeAll(async () => {
+      deployment = await deployFolksVaultForTest(algod, creator, {
+        creatorFeeRate: 0,
+        minSwapThreshold: 2_000_000, // 2 USDC
+      });
+
+      for (const user of [alice, bob]) {
+        await optInToAsset(algod, user, deployment.usdcAssetId);
+        await optInToAsset(algod, user, deployment.fTokenAssetId);
+        await optInToAsset(algod, user, deployment.ibusAssetId);
+        await fundAsset(algod, creator, user.addr, deployment.usdcAssetId, depositAmount);
+        await performUserOptIn(algod, deployment, user);
+      }
+    });
+
+    it('should only let the creator set the exit fee within bounds', async () => {
+      await expect(performSetExitFee(algod, deployment, alice, 500, 3600)).rejects.toThrow();
+      await expect(performSetExitFee(algod, deployment, creator, 501, 3600)).rejects.toThrow();
+      await expect(performSetExitFee(algod, deployment, creator, 0, 3600)).rejects.toThrow(); // Period without a fee
+
+      await performSetExitFee(algod, deployment, creator, 500, 3600);
+      expect((await getExitFee(algod, deployment, alice.addr)).exitFeeBps).toBe(500);
+    });
+
+    it('should withhold the fee fTokens on an early withdrawal as harvestable yield', async () => {
+      await performDeposit(algod, deployment, alice, depositAmount);
+      await performDeposit(algod, deployment, bob, depositAmount);
+      expect((await getExitFee(algod, deployment, alice.addr)).userFeeBps).toBeGreaterThan(490);
+
+      const before = await getAssetBalance(algod, alice.addr, deployment.usdcAssetId);
+      await performWithdraw(algod, deployment, alice, 0);
+      const received = (await getAssetBalance(algod, alice.addr, deployment.usdcAssetId)) - before;
+      expect(received).toBeGreaterThanOrEqual(depositAmount - 5_000_000);
+      expect(received).toBeLessThan(depositAmount - 4_900_000);
+
+      // Bob's principal is untouched; the fee is harvested and swapped for him
+      expect(await getHarvestableFTokens(algod, deployment)).toBeGreaterThan(0);
+      const stats = await getVaultStats(algod, deployment);
+      expect(stats.totalDeposits).toBe(depositAmount);
+    });
+
+    it('should waive the fee for the last depositor', async () => {
+      expect((await getExitFee(algod, deployment, bob.addr)).userFeeBps).toBeGreaterThan(0);
+
+      const before = await getAssetBalance(algod, bob.addr, deployment.usdcAssetId);
+      await performWithdraw(algod, deployment, bob, 0);
+      const received = (await getAssetBalance(algod, bob.addr, deployment.usdcAssetId)) - before;
+      expect(received).toBeGreaterThanOrEqual(depositAmount - 1); // fToken rounding only
+    });
+  });
+
+  describe('Deposit For', () => {
+    let deployment: FolksVaultDeploymentResult;
+    const depositAmount = 50_000_000; // 50 USDC
+
+    beforeAll(async () => {
+      deployment = await deployFolksVaultForTest(algod, creator, { creatorFeeRate: 0, minSwapThreshold: 2_000_000 });
+      await performUserOptIn(algod, deployment, alice);
+    });
+
+    it('should credit the beneficiary with a deposit funded by the caller', async () => {
+      await performDepositFor(algod, deployment, creator, alice.addr, depositAmount);
+
+      expect(await getUserDeposit(algod, deployment, alice.addr)).toBe(depositAmount);
+      expect((await getVaultStats(algod, deployment)).totalDeposits).toBe(depositAmount);
+
+      const stranger = algosdk.generateAccount().addr.toString();
+      await expect(performDepositFor(algod, deployment, creator, stranger, depositAmount)).rejects.toThrow();
+    });
+  });
+
+  describe('Claim Routing', () => {
+    let deployment: FolksVaultDeploymentResult;
+    const depositAmount = 100_000_000; // 100 USDC
+
+    beforeAll(async () => {
+      deployment = await deployFolksVaultForTest(algod, creator, { creatorFeeRate: 0, minSwapThreshold: 2_000_000 });
+      await optInToAsset(algod, alice, deployment.usdcAssetId);
+      await optInToAsset(algod, alice, deployment.ibusAssetId);
+      await optInToAsset(algod, bob, deployment.ibusAssetId);
+      await fundAsset(algod, creator, alice.addr, deployment.usdcAssetId, depositAmount);
+
+      await performUserOptIn(algod, deployment, alice);
+      await performDeposit(algod, deployment, alice, depositAmount);
+    });
+
+    it('should pay the recipient on claim and on claimFor by the approved claimer', async () => {
+      await performSetYieldRecipient(algod, deployment, alice, bob.addr);
+      await performApproveClaimer(algod, deployment, alice, creator.addr, 0);
+      expect(await getClaimSettings(algod, deployment, alice.addr)).toEqual({
+        recipient: bob.addr.toString(),
+        claimer: creator.addr.toString(),
+      });
+
+      let yieldFTokens = await performSendYieldFTokens(algod, deployment, creator, 10_000_000);
+      await performHarvestYield(algod, deployment, creator, yieldFTokens, 100);
+      let pending = await getPendingYield(algod, deployment, alice.addr);
+      let bobBefore = await getAssetBalance(algod, bob.addr, deployment.ibusAssetId);
+      await performClaim(algod, deployment, alice, bob.addr);
+      expect((await getAssetBalance(algod, bob.addr, deployment.ibusAssetId)) - bobBefore).toBe(pending);
+
+      yieldFTokens = await performSendYieldFTokens(algod, deployment, creator, 10_000_000);
+      await performHarvestYield(algod, deployment, creator, yieldFTokens, 100);
+      await expect(performClaimFor(algod, deployment, bob, alice.addr, bob.addr)).rejects.toThrow();
+
+      pending = await getPendingYield(algod, deployment, alice.addr);
+      bobBefore = await getAssetBalance(algod, bob.addr, deployment.ibusAssetId);
+      await performClaimFor(algod, deployment, creator, alice.addr, bob.addr);
+      expect((await getAssetBalance(algod, bob.addr, deployment.ibusAssetId)) - bobBefore).toBe(pending);
+      expect(await getAssetBalance(algod, alice.addr, deployment.ibusAssetId)).toBe(0);
+    });
+
+    it('should refund MBR on clearClaimSettings and require it again for new settings', async () => {
+      const algoBefore = Number((await algod.accountInformation(alice.addr).do()).amount);
+      await performClearClaimSettings(algod, deployment, alice);
+
+      const algoAfter = Number((await algod.accountInformation(alice.addr).do()).amount);
+      expect(algoAfter - algoBefore).toBe(CLAIM_SETTINGS_MBR - 2000); // refund minus outer fee
+      await expect(performClearClaimSettings(algod, deployment, alice)).rejects.toThrow();
+      await expect(performApproveClaimer(algod, deployment, alice, creator.addr, 0)).rejects.toThrow();
+    });
+  });
+});
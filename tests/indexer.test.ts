@@ -0,0 +1,257 @@
+import algosdk from 'algosdk';
+import { RareFiVaultClient, CompoundingVaultClient } from '../src/client';
+import { VaultIndexer, VaultType, openIndexerDatabase } from '../src/indexer';
+import { deployVaultForTest, VaultDeploymentResult } from './utils/vault';
+import { deployCompoundingVaultForTest, CompoundingVaultDeploymentResult } from './utils/compoundingVault';
+import { optInToAsset, fundAsset } from './utils/assets';
+
+// Localnet configuration
+const ALGOD_SERVER = 'http://localhost';
+const ALGOD_PORT = 4001;
+const ALGOD_TOKEN = 'aaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaa';
+
+const INDEXER_SERVER = 'http://localhost';
+const INDEXER_PORT = 8980;
+const INDEXER_TOKEN = 'aaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaa';
+
+// KMD configuration for getting funded accounts
+const KMD_SERVER = 'http://localhost';
+const KMD_PORT = 4002;
+const KMD_TOKEN = 'aaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaa';
+
+describe('Vault Indexer Tests', () => {
+  let algod: algosdk.Algodv2;
+  let indexer: algosdk.Indexer;
+  let kmd: algosdk.Kmd;
+  let creator: { addr: string; sk: Uint8Array };
+  let alice: { addr: string; sk: Uint8Array };
+
+  const signerFor = (account: { addr: string; sk: Uint8Array }) =>
+    algosdk.makeBasicAccountTransactionSigner({ sk: account.sk, addr: algosdk.decodeAddress(account.addr) });
+
+  /**
+   * Wait until the indexer has ingested the given round
+   */
+  const waitForIndexer = async (round: bigint) => {
+    for (let attempt = 0; attempt < 50; attempt++) {
+      const health = await indexer.makeHealthCheck().do();
+      if (BigInt(health.round) >= round) return;
+      await new Promise((resolve) => setTimeout(resolve, 200));
+    }
+    throw new Error(`Indexer did not reach round ${round}`);
+  };
+
+  beforeAll(async () => {
+    algod = new algosdk.Algodv2(ALGOD_TOKEN, ALGOD_SERVER, ALGOD_PORT);
+    indexer = new algosdk.Indexer(INDEXER_TOKEN, INDEXER_SERVER, INDEXER_PORT);
+    kmd = new algosdk.Kmd(KMD_TOKEN, KMD_SERVER, KMD_PORT);
+
+    // Get funded accounts from KMD
+    const wallets = await kmd.listWallets();
+    const defaultWallet = wallets.wallets.find((w: any) => w.name === 'unencrypted-default-wallet');
+
+    const walletHandle = (await kmd.initWalletHandle(defaultWallet.id, '')).wallet_handle_token;
+    const addresses = (await kmd.listKeys(walletHandle)).addresses;
+
+    const getAccount = async (index: number) => {
+      const addr = addresses[index];
+      const keyResponse = await kmd.exportKey(walletHandle, '', addr);
+      return { addr, sk: keyResponse.private_key };
+    };
+
+    creator = await getAccount(0);
+    alice = await getAccount(1);
+
+    await kmd.releaseWalletHandle(walletHandle);
+  });
+
+  describe('RareFiVault', () => {
+    let deployment: VaultDeploymentResult;
+    let client: RareFiVaultClient;
+    let vaultIndexer: VaultIndexer;
+    const depositAmount = 100_000_000; // 100 Alpha
+
+    beforeAll(async () => {
+      deployment = await deployVaultForTest(algod, creator, { creatorFeeRate: 0, minSwapThreshold: 2_000_000 });
+
+      await optInToAsset(algod, alice, deployment.alphaAssetId);
+      await optInToAsset(algod, alice, deployment.ibusAssetId);
+      await fundAsset(algod, creator, alice.addr, deployment.alphaAssetId, 1_000_000_000);
+
+      client = new RareFiVaultClient({ algod, appId: deployment.vaultAppId, sender: alice.addr, signer: signerFor(alice) });
+      vaultIndexer = new VaultIndexer({ indexer, db: await openIndexerDatabase(), appId: deployment.vaultAppId, vaultType: 'RareFiVault' });
+    });
+
+    it('should record deposits, swaps and claims per user', async () => {
+      await client.optIn();
+      await client.deposit(depositAmount, 100);
+      await new Promise((resolve) => setTimeout(resolve, 2000)); // Hold principal for at least one block timestamp tick
+      await fundAsset(algod, creator, deployment.vaultAddress, deployment.usdcAssetId, 10_000_000);
+      await client.swapYield(100);
+      const claim = await client.claim();
+      const claimed = claim.events.find((e) => e.name === 'Claim')!.args.amount as bigint;
+
+      await waitForIndexer(claim.confirmedRound);
+      const result = await vaultIndexer.sync();
+      expect(result.actions).toBe(3); // deposit, swapYield, claim
+
+      const record = vaultIndexer.getUserRecord(alice.addr)!;
+      expect(record.principal).toBe(depositAmount);
+      expect(record.totalDeposited).toBe(depositAmount);
+      expect(record.yieldClaimed).toBe(Number(claimed));
+      expect(record.yieldValue).toBeGreaterThan(0);
+      expect(record.realizedApy).toBeGreaterThan(0);
+
+      const swaps = vaultIndexer.db.exec('SELECT yield_in FROM yield_swaps');
+      expect(swaps[0].values).toEqual([[10_000_000]]);
+
+      // Claim transfer is recorded from the vault's inner transactions
+      const transfers = vaultIndexer.db.exec('SELECT asset_id, amount FROM vault_transfers WHERE receiver = ?', [alice.addr]);
+      expect(transfers[0].values).toContainEqual([deployment.ibusAssetId, Number(claimed)]);
+    });
+
+    it('should resume from the last synced round without duplicating history', async () => {
+      const withdraw = await client.withdraw(0);
+
+      await waitForIndexer(withdraw.confirmedRound);
+      const result = await vaultIndexer.sync();
+      expect(result.actions).toBe(1);
+
+      const record = vaultIndexer.getUserRecord(alice.addr)!;
+      expect(record.principal).toBe(0);
+      expect(record.totalWithdrawn).toBe(depositAmount);
+
+      const actions = vaultIndexer.db.exec('SELECT method FROM vault_actions ORDER BY round');
+      expect(actions[0].values.map((row) => row[0])).toEqual(['deposit', 'swapYield', 'claim', 'withdraw']);
+    });
+  });
+
+  describe('RareFiVault depositFor, claimAndStake and migration', () => {
+    let deployment: VaultDeploymentResult;
+    let successor: VaultDeploymentResult;
+    let target: CompoundingVaultDeploymentResult;
+    const depositAmount = 100_000_000; // 100 Alpha
+
+    beforeAll(async () => {
+      deployment = await deployVaultForTest(algod, creator, { creatorFeeRate: 0, minSwapThreshold: 2_000_000 });
+      successor = await deployVaultForTest(algod, creator, { creatorFeeRate: 0, minSwapThreshold: 2_000_000, reuseAssetsFrom: deployment });
+      target = await deployCompoundingVaultForTest(algod, creator, { creatorFeeRate: 0, alphaAssetId: deployment.ibusAssetId });
+
+      await optInToAsset(algod, alice, deployment.alphaAssetId);
+      await optInToAsset(algod, alice, deployment.ibusAssetId);
+    });
+
+    it('should index deposits for a beneficiary, staked yield and migrated positions', async () => {
+      const clientFor = (appId: number, account: { addr: string; sk: Uint8Array }) =>
+        new RareFiVaultClient({ algod, appId, sender: account.addr, signer: signerFor(account) });
+      const aliceClient = clientFor(deployment.vaultAppId, alice);
+      const creatorClient = clientFor(deployment.vaultAppId, creator);
+      const aliceSuccessor = clientFor(successor.vaultAppId, alice);
+
+      await aliceClient.optIn();
+      await aliceSuccessor.optIn();
+      await new CompoundingVaultClient({ algod, appId: target.vaultAppId, sender: alice.addr, signer: signerFor(alice) }).optIn();
+
+      // Creator funds alice's position, then alice stakes her first yield into the compounding vault
+      await creatorClient.depositFor(alice.addr, depositAmount, 100);
+      await fundAsset(algod, creator, deployment.vaultAddress, deployment.usdcAssetId, 10_000_000);
+      await aliceClient.swapYield(100);
+      await creatorClient.addStakeTarget(target.vaultAppId);
+      const stake = await aliceClient.claimAndStake(target.vaultAppId, 100);
+      const staked = stake.events.find((e) => e.name === 'YieldStaked')!.args.amount as bigint;
+
+      // Then she moves her deposit and a second round of yield into the successor
+      await fundAsset(algod, creator, deployment.vaultAddress, deployment.usdcAssetId, 10_000_000);
+      await aliceClient.swapYield(100);
+      await creatorClient.setSuccessorVault(successor.vaultAppId);
+      await clientFor(successor.vaultAppId, creator).setPredecessorVault(deployment.vaultAppId);
+      const migrate = await aliceClient.migrateTo(successor.vaultAppId, 100);
+      const migratedYield = migrate.events.find((e) => e.name === 'Migrated')!.args.yieldAmount as bigint;
+
+      await waitForIndexer(migrate.confirmedRound);
+      const indexerFor = async (appId: number, vaultType: VaultType) =>
+        new VaultIndexer({ indexer, db: await openIndexerDatabase(), appId, vaultType });
+
+      const predecessorIndexer = await indexerFor(deployment.vaultAppId, 'RareFiVault');
+      await predecessorIndexer.sync();
+      const actions = predecessorIndexer.db.exec('SELECT method, sender FROM vault_actions ORDER BY round');
+      expect(actions[0].values).toEqual([
+        ['depositFor', creator.addr],
+        ['swapYield', alice.addr],
+        ['claimAndStake', alice.addr],
+        ['swapYield', alice.addr],
+        ['migrateTo', alice.addr],
+      ]);
+
+      // The beneficiary owns the principal; staked and migrated yield both count as claimed here
+      const before = predecessorIndexer.getUserRecord(alice.addr)!;
+      expect(before.totalDeposited).toBe(depositAmount);
+      expect(before.principal).toBe(0);
+      expect(before.totalWithdrawn).toBe(depositAmount);
+      expect(before.yieldClaimed).toBe(Number(staked + migratedYield));
+      expect(predecessorIndexer.getUserRecord(creator.addr)).toBeUndefined();
+
+      // The staked yield is a deposit in the compounding vault, made by an inner depositFor call
+      const targetIndexer = await indexerFor(target.vaultAppId, 'RareFiAlphaCompoundingVault');
+      await targetIndexer.sync();
+      const stakedRecord = targetIndexer.getUserRecord(alice.addr)!;
+      expect(stakedRecord.principal).toBe(Number(staked));
+      expect(stakedRecord.shares).toBe(Number(staked)); // First depositor, 1:1 shares
+
+      // The successor credits the principal; the carried-over yield is offset until it is claimed there
+      const successorIndexer = await indexerFor(successor.vaultAppId, 'RareFiVault');
+      await successorIndexer.sync();
+      let after = successorIndexer.getUserRecord(alice.addr)!;
+      expect(after.principal).toBe(depositAmount);
+      expect(after.totalDeposited).toBe(depositAmount);
+      expect(after.yieldClaimed).toBe(-Number(migratedYield));
+
+      const claim = await aliceSuccessor.claim();
+      await waitForIndexer(claim.confirmedRound);
+      await successorIndexer.sync();
+      after = successorIndexer.getUserRecord(alice.addr)!;
+      expect(after.yieldClaimed).toBe(0);
+    });
+  });
+
+  describe('RareFiAlphaCompoundingVault', () => {
+    let deployment: CompoundingVaultDeploymentResult;
+    let client: CompoundingVaultClient;
+    const depositAmount = 100_000_000; // 100 Alpha
+
+    beforeAll(async () => {
+      deployment = await deployCompoundingVaultForTest(algod, creator, { creatorFeeRate: 0, minSwapThreshold: 2_000_000 });
+
+      await optInToAsset(algod, alice, deployment.alphaAssetId);
+      await fundAsset(algod, creator, alice.addr, deployment.alphaAssetId, 1_000_000_000);
+
+      client = new CompoundingVaultClient({ algod, appId: deployment.vaultAppId, sender: alice.addr, signer: signerFor(alice) });
+    });
+
+    it('should realize compounded Alpha as yield on withdraw', async () => {
+      await client.optIn();
+      await client.deposit(depositAmount, 100);
+      await new Promise((resolve) => setTimeout(resolve, 2000)); // Hold principal for at least one block timestamp tick
+      await fundAsset(algod, creator, deployment.vaultAddress, deployment.usdcAssetId, 10_000_000);
+      await client.compoundYield(100);
+      const withdraw = await client.withdraw(0);
+      const alphaOut = withdraw.events.find((e) => e.name === 'Withdraw')!.args.amount as bigint;
+
+      await waitForIndexer(withdraw.confirmedRound);
+      const vaultIndexer = new VaultIndexer({
+        indexer,
+        db: await openIndexerDatabase(),
+        appId: deployment.vaultAppId,
+        vaultType: 'RareFiAlphaCompoundingVault',
+      });
+      await vaultIndexer.sync();
+
+      const record = vaultIndexer.getUserRecord(alice.addr)!;
+      expect(record.shares).toBe(0);
+      expect(record.principal).toBe(0);
+      expect(record.totalWithdrawn).toBe(Number(alphaOut));
+      expect(record.yieldClaimed).toBe(Number(alphaOut) - depositAmount);
+      expect(record.realizedApy).toBeGreaterThan(0);
+    });
+  });
+});
@@ -0,0 +1,192 @@
+import algosdk from 'algosdk';
+import { RareFiVaultClient, CompoundingVaultClient, FolksVaultClient } from '../src/client';
+import { VaultKeeper } from '../src/keeper';
+import { deployVaultForTest, VaultDeploymentResult } from './utils/vault';
+import { deployCompoundingVaultForTest, CompoundingVaultDeploymentResult } from './utils/compoundingVault';
+import { deployFolksVaultForTest, FolksVaultDeploymentResult, performSendYieldFTokens } from './utils/folksVault';
+import { optInToAsset, fundAsset } from './utils/assets';
+
+// Localnet configuration
+const ALGOD_SERVER = 'http://localhost';
+const ALGOD_PORT = 4001;
+const ALGOD_TOKEN = 'aaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaa';
+
+// KMD configuration for getting funded accounts
+const KMD_SERVER = 'http://localhost';
+const KMD_PORT = 4002;
+const KMD_TOKEN = 'aaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaa';
+
+describe('Keeper Tests', () => {
+  let algod: algosdk.Algodv2;
+  let kmd: algosdk.Kmd;
+  let creator: { addr: string; sk: Uint8Array };
+  let alice: { addr: string; sk: Uint8Array };
+  let keeperAccount: { addr: string; sk: Uint8Array };
+
+  const signerFor = (account: { addr: string; sk: Uint8Array }) =>
+    algosdk.makeBasicAccountTransactionSigner({ sk: account.sk, addr: algosdk.decodeAddress(account.addr) });
+
+  beforeAll(async () => {
+    algod = new algosdk.Algodv2(ALGOD_TOKEN, ALGOD_SERVER, ALGOD_PORT);
+    kmd = new algosdk.Kmd(KMD_TOKEN, KMD_SERVER, KMD_PORT);
+
+    // Get funded accounts from KMD
+    const wallets = await kmd.listWallets();
+    const defaultWallet = wallets.wallets.find((w: any) => w.name === 'unencrypted-default-wallet');
+
+    const walletHandle = (await kmd.initWalletHandle(defaultWallet.id, '')).wallet_handle_token;
+    const addresses = (await kmd.listKeys(walletHandle)).addresses;
+
+    const getAccount = async (index: number) => {
+      const addr = addresses[index];
+      const keyResponse = await kmd.exportKey(walletHandle, '', addr);
+      return { addr, sk: keyResponse.private_key };
+    };
+
+    creator = await getAccount(0);
+    alice = await getAccount(1);
+    keeperAccount = await getAccount(2);
+
+    await kmd.releaseWalletHandle(walletHandle);
+  });
+
+  describe('RareFiVault', () => {
+    let deployment: VaultDeploymentResult;
+    let userClient: RareFiVaultClient;
+    let keeperClient: RareFiVaultClient;
+
+    beforeAll(async () => {
+      deployment = await deployVaultForTest(algod, creator, { creatorFeeRate: 0, minSwapThreshold: 2_000_000 });
+
+      await optInToAsset(algod, alice, deployment.alphaAssetId);
+      await fundAsset(algod, creator, alice.addr, deployment.alphaAssetId, 1_000_000_000);
+
+      userClient = new RareFiVaultClient({ algod, appId: deployment.vaultAppId, sender: alice.addr, signer: signerFor(alice) });
+      keeperClient = new RareFiVaultClient({ algod, appId: deployment.vaultAppId, sender: keeperAccount.addr, signer: signerFor(keeperAccount) });
+
+      await userClient.optIn();
+      await userClient.deposit(100_000_000, 100);
+    });
+
+    it('should skip while yield is below minSwapThreshold', async () => {
+      await fundAsset(algod, creator, deployment.vaultAddress, deployment.usdcAssetId, 1_000_000);
+      const keeper = new VaultKeeper([{ client: keeperClient, slippageBps: 100, maxPriceImpactBps: 200 }]);
+
+      const [result] = await keeper.runOnce();
+      expect(result.action).toBeUndefined();
+      expect(result.reason).toContain('below threshold');
+      expect((await userClient.getVaultStats()).usdcBalance).toBe(1_000_000n);
+    });
+
+    it('should skip when price impact exceeds the configured maximum', async () => {
+      // 1,000 USDC into a 10,000/10,000 pool moves the price ~9%
+      await fundAsset(algod, creator, deployment.vaultAddress, deployment.usdcAssetId, 999_000_000);
+      const keeper = new VaultKeeper([{ client: keeperClient, slippageBps: 100, maxPriceImpactBps: 200 }]);
+
+      const [result] = await keeper.runOnce();
+      expect(result.action).toBeUndefined();
+      expect(result.priceImpactBps).toBeGreaterThan(200n);
+      expect((await userClient.getVaultStats()).usdcBalance).toBe(1_000_000_000n);
+    });
+
+    it('should swap with a quote-based minAmountOut once conditions are met', async () => {
+      const keeper = new VaultKeeper([{ client: keeperClient, label: 'ibus', slippageBps: 100, maxPriceImpactBps: 1_500 }]);
+
+      const [result] = await keeper.runOnce();
+      expect(result.label).toBe('ibus');
+      expect(result.action).toBe('swapYield');
+      expect(result.error).toBeUndefined();
+      expect(result.minAmountOut).toBe((result.expectedOutput! * 9_900n) / 10_000n);
+
+      const swapped = result.result!.events.find((e) => e.name === 'YieldSwapped')!;
+      expect(swapped.args.usdcIn).toBe(1_000_000_000n);
+      expect(swapped.args.swapOut as bigint).toBeGreaterThanOrEqual(result.minAmountOut!);
+      expect((await userClient.getVaultStats()).usdcBalance).toBe(0n);
+    });
+  });
+
+  describe('RareFiAlphaCompoundingVault', () => {
+    let deployment: CompoundingVaultDeploymentResult;
+    let userClient: CompoundingVaultClient;
+
+    beforeAll(async () => {
+      deployment = await deployCompoundingVaultForTest(algod, creator, { creatorFeeRate: 0, minSwapThreshold: 2_000_000 });
+
+      await optInToAsset(algod, alice, deployment.alphaAssetId);
+      await fundAsset(algod, creator, alice.addr, deployment.alphaAssetId, 1_000_000_000);
+
+      userClient = new CompoundingVaultClient({ algod, appId: deployment.vaultAppId, sender: alice.addr, signer: signerFor(alice) });
+      await userClient.optIn();
+      await userClient.deposit(100_000_000, 100);
+    });
+
+    it('should compound once yield reaches the per-vault minYield', async () => {
+      const keeperClient = new CompoundingVaultClient({ algod, appId: deployment.vaultAppId, sender: keeperAccount.addr, signer: signerFor(keeperAccount) });
+      const keeper = new VaultKeeper([{ client: keeperClient, slippageBps: 100, maxPriceImpactBps: 200, minYield: 5_000_000n }]);
+
+      await fundAsset(algod, creator, deployment.vaultAddress, deployment.usdcAssetId, 3_000_000);
+      let [result] = await keeper.runOnce();
+      expect(result.action).toBeUndefined(); // Above the vault threshold, below the keeper's
+
+      await fundAsset(algod, creator, deployment.vaultAddress, deployment.usdcAssetId, 3_000_000);
+      [result] = await keeper.runOnce();
+      expect(result.action).toBe('compoundYield');
+      expect(result.error).toBeUndefined();
+      expect((await userClient.getVaultStats()).usdcBalance).toBe(0n);
+    });
+  });
+
+  describe('RareFiFolksVault', () => {
+    let deployment: FolksVaultDeploymentResult;
+    let userClient: FolksVaultClient;
+
+    beforeAll(async () => {
+      deployment = await deployFolksVaultForTest(algod, creator);
+
+      await optInToAsset(algod, alice, deployment.usdcAssetId);
+      await fundAsset(algod, creator, alice.addr, deployment.usdcAssetId, 1_000_000_000);
+
+      userClient = new FolksVaultClient({ algod, appId: deployment.vaultAppId, sender: alice.addr, signer: signerFor(alice) });
+      await userClient.optIn();
+      await userClient.deposit(100_000_000);
+    });
+
+    it('should harvest yield fTokens and swap the redeemed USDC', async () => {
+      const fTokens = await performSendYieldFTokens(algod, deployment, creator, 5_000_000);
+      const keeperClient = new FolksVaultClient({ algod, appId: deployment.vaultAppId, sender: keeperAccount.addr, signer: signerFor(keeperAccount) });
+      const keeper = new VaultKeeper([{ client: keeperClient, slippageBps: 100, maxPriceImpactBps: 500 }]);
+
+      const [result] = await keeper.runOnce();
+      expect(result.action).toBe('harvestAll');
+      expect(result.yieldAmount).toBe(BigInt(fTokens));
+      expect(result.error).toBeUndefined();
+      expect(result.result!.events.map((e) => e.name)).toEqual(expect.arrayContaining(['YieldHarvested', 'YieldSwapped']));
+
+      const stats = await userClient.getVaultStats();
+      expect(stats.yieldFTokens).toBe(0n);
+      expect(stats.depositAssetBalance).toBe(0n);
+
+      const [next] = await keeper.runOnce();
+      expect(next.action).toBeUndefined();
+    });
+
+    it('should seed the price oracle instead of harvesting after a pool update', async () => {
+      const creatorClient = new FolksVaultClient({ algod, appId: deployment.vaultAppId, sender: creator.addr, signer: signerFor(creator) });
+      await creatorClient.updateTinymanPool(deployment.poolAppId, deployment.poolAddress); // Resets the oracle
+
+      await performSendYieldFTokens(algod, deployment, creator, 5_000_000);
+      const keeperClient = new FolksVaultClient({ algod, appId: deployment.vaultAppId, sender: keeperAccount.addr, signer: signerFor(keeperAccount) });
+      const keeper = new VaultKeeper([{ client: keeperClient, slippageBps: 100, maxPriceImpactBps: 500 }]);
+
+      let [result] = await keeper.runOnce();
+      expect(result.action).toBe('observePrice');
+      expect(result.error).toBeUndefined();
+      expect((await userClient.getPriceOracle()).lastObservationTime).toBeGreaterThan(0n);
+      expect((await userClient.getVaultStats()).yieldFTokens).toBeGreaterThan(0n);
+
+      [result] = await keeper.runOnce();
+      expect(result.action).toBe('harvestAll');
+      expect(result.error).toBeUndefined();
+    });
+  });
+});
@@ -1,10 +1,14 @@
 import algosdk from 'algosdk';
 import fs from 'fs';
 import path from 'path';
-import { createTestAsset } from './assets';
+import { createTestAsset, getAssetBalance } from './assets';
+import { deployFundedMockPool } from './vault';
 
 export const TOKEN_SUPPLY = 100_000_000_000_000; // 100M tokens with 6 decimals
 export const TOKEN_DECIMALS = 6;
+export const POSITION_MBR = 22_100; // 2500 + 400 * (33 key + 16 value)
+export const LOCK_MBR = 28_500; // 2500 + 400 * (33 key + 32 value)
+const PAGE_SIZE = 2048; // Bytes per program page
 
 function safeToNumber(value: any): number {
   if (typeof value === 'bigint') return Number(value);
@@ -62,13 +66,60 @@ async function compilePoolContract(algodClient: algosdk.Algodv2) {
   };
 }
 
+/**
+ * Box name of a user's share position: 'p' + 32-byte address
+ */
+export function positionBoxName(userAddr: string): Uint8Array {
+  return new Uint8Array(Buffer.concat([Buffer.from('p'), algosdk.decodeAddress(userAddr).publicKey]));
+}
+
+function positionBoxRef(deployment: CompoundingVaultDeploymentResult, userAddr: string) {
+  return [{ appIndex: deployment.vaultAppId, name: positionBoxName(userAddr) }];
+}
+
+/**
+ * Box name of a user's lock: 'l' + 32-byte address
+ */
+export function lockBoxName(userAddr: string): Uint8Array {
+  return new Uint8Array(Buffer.concat([Buffer.from('l'), algosdk.decodeAddress(userAddr).publicKey]));
+}
+
+/**
+ * Position and lock boxes, for calls that settle the user's lock
+ */
+function lockBoxRefs(deployment: CompoundingVaultDeploymentResult, userAddr: string) {
+  return [...positionBoxRef(deployment, userAddr), { appIndex: deployment.vaultAppId, name: lockBoxName(userAddr) }];
+}
+
+/**
+ * Pool references and outer fee for calls that may compound (direct, or routed through the hop pool)
+ */
+function swapCallParams(deployment: CompoundingVaultDeploymentResult) {
+  if (deployment.hopPoolAppId === 0) {
+    return { fee: 5000, appForeignApps: [deployment.poolAppId], appAccounts: [deployment.poolAddress] };
+  }
+  return {
+    fee: 8000, // outer + 2 hops x (transfer in + pool call + pool output)
+    appForeignApps: [deployment.poolAppId, deployment.hopPoolAppId],
+    appAccounts: [deployment.poolAddress, deployment.hopPoolAddress],
+  };
+}
+
+export interface CandidatePoolRef {
+  poolAppId: number;
+  poolAddress: string;
+}
+
 export interface CompoundingVaultDeploymentResult {
   vaultAppId: number;
   vaultAddress: string;
   alphaAssetId: number;   // deposit & yield asset (Alpha)
   usdcAssetId: number;    // USDC (airdrops come in as this)
-  poolAppId: number;      // MockTinymanPool app ID (USDC/Alpha)
+  poolAppId: number;      // MockTinymanPool app ID (USDC/Alpha, or USDC/ALGO when routed)
   poolAddress: string;    // MockTinymanPool address
+  hopPoolAppId: number;   // ALGO/Alpha pool app ID (0 = direct USDC/Alpha swap)
+  hopPoolAddress: string; // ALGO/Alpha pool address (zero address when direct)
+  shareAssetId: number;   // Share ASA minted by the vault (0 = shares in position boxes)
   arc56Spec: any;
   poolArc56Spec: any;
 }
@@ -84,13 +135,18 @@ export async function deployCompoundingVaultForTest(
     poolFeeBps?: number;        // Pool fee in basis points (default 30 = 0.3%)
     poolReserveUsdc?: number;   // Initial USDC reserve in pool
     poolReserveAlpha?: number;  // Initial Alpha reserve in pool
+    tokenizedShares?: boolean;  // Mint a share ASA (optInAssetsWithShareToken) instead of local state shares
+    routeViaAlgo?: boolean;     // Swap USDC -> ALGO -> Alpha through two pools instead of one USDC/Alpha pool
+    poolReserveAlgo?: number;   // ALGO reserve in each routed pool
+    maxPriceDeviationBps?: number; // Spot-vs-TWAP swap limit (default 10000 = 100% for testing)
+    alphaAssetId?: number;      // Use an existing asset held by the creator as Alpha (e.g. a RareFiVault's swap asset)
   },
 ): Promise<CompoundingVaultDeploymentResult> {
   const creatorAddr = typeof creator.addr === 'string' ? creator.addr : creator.addr.toString();
   const creatorAccount = { addr: creatorAddr, sk: creator.sk };
 
   // Create test assets
-  const alphaAssetId = await createTestAsset(
+  const alphaAssetId = overrides?.alphaAssetId ?? await createTestAsset(
     algod,
     creatorAccount,
     'Alpha-Test',
@@ -119,113 +175,131 @@ export async function deployCompoundingVaultForTest(
   const poolCompiled = await compilePoolContract(algod);
 
   let suggestedParams = await algod.getTransactionParams().do();
-
-  // Helper to encode uint64 as 8-byte big-endian
-  const encodeUint64 = (n: number): Uint8Array => {
-    const buf = Buffer.alloc(8);
-    buf.writeBigUInt64BE(BigInt(n));
-    return new Uint8Array(buf);
-  };
-
-  // Create pool with raw app args (4-byte selector + uint64 args)
-  const createPoolSelector = new Uint8Array([0x00, 0x00, 0x00, 0x00]); // Dummy 4-byte selector
-  const createPoolTxn = algosdk.makeApplicationCreateTxnFromObject({
-    sender: creatorAddr,
-    approvalProgram: poolCompiled.approvalProgram,
-    clearProgram: poolCompiled.clearProgram,
-    numGlobalByteSlices: 1, // stateHolder
-    numGlobalInts: 3, // asset1Id, asset2Id, initialized
-    numLocalByteSlices: 0,
-    numLocalInts: 5,  // asset_1_id, asset_2_id, asset_1_reserves, asset_2_reserves, total_fee_share  // asset_1_id, asset_1_reserves, asset_2_reserves, total_fee_share
-    extraPages: 0,
-    suggestedParams: { ...suggestedParams, fee: 1000, flatFee: true },
-    appArgs: [
-      createPoolSelector,
-      encodeUint64(usdcAssetId),
-      encodeUint64(alphaAssetId),
-      encodeUint64(poolReserveUsdc),
-      encodeUint64(poolReserveAlpha),
-      encodeUint64(poolFeeBps),
-    ],
-    onComplete: algosdk.OnApplicationComplete.NoOpOC,
-  });
-
-  const signedCreatePoolTxn = createPoolTxn.signTxn(creator.sk);
-  const createPoolTxID = await algod.sendRawTransaction(signedCreatePoolTxn).do();
-  const poolConfirmedTxn = await algosdk.waitForConfirmation(algod, createPoolTxID.txid, 5);
-  const poolAppId = safeToNumber(poolConfirmedTxn.applicationIndex);
-  const poolAddress = algosdk.getApplicationAddress(poolAppId).toString();
-
-  // Fund pool for MBR
-  suggestedParams = await algod.getTransactionParams().do();
-  const fundPoolTxn = algosdk.makePaymentTxnWithSuggestedParamsFromObject({
-    sender: creatorAddr,
-    receiver: poolAddress,
-    amount: 500_000, // 0.5 ALGO
-    suggestedParams,
-  });
-  const signedFundPoolTxn = fundPoolTxn.signTxn(creator.sk);
-  const fundPoolTxID = await algod.sendRawTransaction(signedFundPoolTxn).do();
-  await algosdk.waitForConfirmation(algod, fundPoolTxID.txid, 5);
-
-  // Pool opts into assets (raw app args)
-  suggestedParams = await algod.getTransactionParams().do();
-  const poolOptInTxn = algosdk.makeApplicationCallTxnFromObject({
-    sender: creatorAddr,
-    appIndex: poolAppId,
-    onComplete: algosdk.OnApplicationComplete.NoOpOC,
-    appArgs: [new TextEncoder().encode('optInAssets')],
-    foreignAssets: [usdcAssetId, alphaAssetId],
-    suggestedParams: { ...suggestedParams, fee: 3000, flatFee: true },
-  });
-  const signedPoolOptInTxn = poolOptInTxn.signTxn(creator.sk);
-  const poolOptInTxID = await algod.sendRawTransaction(signedPoolOptInTxn).do();
-  await algosdk.waitForConfirmation(algod, poolOptInTxID.txid, 5);
-
-  // Creator opts into pool app (to become state holder for local state)
-  suggestedParams = await algod.getTransactionParams().do();
-  const creatorOptInPoolTxn = algosdk.makeApplicationOptInTxnFromObject({
-    sender: creatorAddr,
-    appIndex: poolAppId,
-    suggestedParams: { ...suggestedParams, fee: 1000, flatFee: true },
-  });
-  const signedCreatorOptInPoolTxn = creatorOptInPoolTxn.signTxn(creator.sk);
-  const creatorOptInPoolTxID = await algod.sendRawTransaction(signedCreatorOptInPoolTxn).do();
-  await algosdk.waitForConfirmation(algod, creatorOptInPoolTxID.txid, 5);
-
-  // Initialize pool local state (creator is the state holder)
-  suggestedParams = await algod.getTransactionParams().do();
-  const initPoolTxn = algosdk.makeApplicationCallTxnFromObject({
-    sender: creatorAddr,
-    appIndex: poolAppId,
-    onComplete: algosdk.OnApplicationComplete.NoOpOC,
-    appArgs: [
-      new TextEncoder().encode('initializePool'),
-      encodeUint64(poolReserveUsdc),
-      encodeUint64(poolReserveAlpha),
-      encodeUint64(poolFeeBps),
-    ],
-    suggestedParams: { ...suggestedParams, fee: 1000, flatFee: true },
-  });
-  const signedInitPoolTxn = initPoolTxn.signTxn(creator.sk);
-  const initPoolTxID = await algod.sendRawTransaction(signedInitPoolTxn).do();
-  await algosdk.waitForConfirmation(algod, initPoolTxID.txid, 5);
-
-  // IMPORTANT: The state holder address is the creator's address
-  const poolStateHolderAddress = creatorAddr;
-
-  // Fund pool with Alpha liquidity (so it can swap USDC -> Alpha)
-  suggestedParams = await algod.getTransactionParams().do();
-  const fundPoolAlphaTxn = algosdk.makeAssetTransferTxnWithSuggestedParamsFromObject({
-    sender: creatorAddr,
-    receiver: poolAddress,
-    amount: poolReserveAlpha,
-    assetIndex: alphaAssetId,
-    suggestedParams,
-  });
-  const signedFundPoolAlphaTxn = fundPoolAlphaTxn.signTxn(creator.sk);
-  const fundPoolAlphaTxID = await algod.sendRawTransaction(signedFundPoolAlphaTxn).do();
-  await algosdk.waitForConfirmation(algod, fundPoolAlphaTxID.txid, 5);
+  let poolAppId: number;
+  let poolStateHolderAddress: string;
+  let hopPoolAppId = 0;
+  let hopPoolAddress = algosdk.ALGORAND_ZERO_ADDRESS_STRING;
+
+  if (overrides?.routeViaAlgo) {
+    // USDC/ALGO pool + ALGO/Alpha pool, both with the creator as state holder
+    const poolReserveAlgo = overrides?.poolReserveAlgo ?? 5_000_000_000; // 5,000 ALGO
+    ({ poolAppId, poolAddress: poolStateHolderAddress } = await deployFundedMockPool(
+      algod, creator, usdcAssetId, 0, poolReserveUsdc, poolReserveAlgo, poolFeeBps,
+    ));
+    ({ poolAppId: hopPoolAppId, poolAddress: hopPoolAddress } = await deployFundedMockPool(
+      algod, creator, 0, alphaAssetId, poolReserveAlgo, poolReserveAlpha, poolFeeBps,
+    ));
+  } else {
+
+    suggestedParams = await algod.getTransactionParams().do();
+
+    // Helper to encode uint64 as 8-byte big-endian
+    const encodeUint64 = (n: number): Uint8Array => {
+      const buf = Buffer.alloc(8);
+      buf.writeBigUInt64BE(BigInt(n));
+      return new Uint8Array(buf);
+    };
+
+    // Create pool with raw app args (4-byte selector + uint64 args)
+    const createPoolSelector = new Uint8Array([0x00, 0x00, 0x00, 0x00]); // Dummy 4-byte selector
+    const createPoolTxn = algosdk.makeApplicationCreateTxnFromObject({
+      sender: creatorAddr,
+      approvalProgram: poolCompiled.approvalProgram,
+      clearProgram: poolCompiled.clearProgram,
+      numGlobalByteSlices: 1, // stateHolder
+      numGlobalInts: 3, // asset1Id, asset2Id, initialized
+      numLocalByteSlices: 0,
+      numLocalInts: 5,  // asset_1_id, asset_2_id, asset_1_reserves, asset_2_reserves, total_fee_share  // asset_1_id, asset_1_reserves, asset_2_reserves, total_fee_share
+      extraPages: 0,
+      suggestedParams: { ...suggestedParams, fee: 1000, flatFee: true },
+      appArgs: [
+        createPoolSelector,
+        encodeUint64(usdcAssetId),
+        encodeUint64(alphaAssetId),
+        encodeUint64(poolReserveUsdc),
+        encodeUint64(poolReserveAlpha),
+        encodeUint64(poolFeeBps),
+      ],
+      onComplete: algosdk.OnApplicationComplete.NoOpOC,
+    });
+
+    const signedCreatePoolTxn = createPoolTxn.signTxn(creator.sk);
+    const createPoolTxID = await algod.sendRawTransaction(signedCreatePoolTxn).do();
+    const poolConfirmedTxn = await algosdk.waitForConfirmation(algod, createPoolTxID.txid, 5);
+    poolAppId = safeToNumber(poolConfirmedTxn.applicationIndex);
+    const poolAddress = algosdk.getApplicationAddress(poolAppId).toString();
+
+    // Fund pool for MBR
+    suggestedParams = await algod.getTransactionParams().do();
+    const fundPoolTxn = algosdk.makePaymentTxnWithSuggestedParamsFromObject({
+      sender: creatorAddr,
+      receiver: poolAddress,
+      amount: 500_000, // 0.5 ALGO
+      suggestedParams,
+    });
+    const signedFundPoolTxn = fundPoolTxn.signTxn(creator.sk);
+    const fundPoolTxID = await algod.sendRawTransaction(signedFundPoolTxn).do();
+    await algosdk.waitForConfirmation(algod, fundPoolTxID.txid, 5);
+
+    // Pool opts into assets (raw app args)
+    suggestedParams = await algod.getTransactionParams().do();
+    const poolOptInTxn = algosdk.makeApplicationCallTxnFromObject({
+      sender: creatorAddr,
+      appIndex: poolAppId,
+      onComplete: algosdk.OnApplicationComplete.NoOpOC,
+      appArgs: [new TextEncoder().encode('optInAssets')],
+      foreignAssets: [usdcAssetId, alphaAssetId],
+      suggestedParams: { ...suggestedParams, fee: 3000, flatFee: true },
+    });
+    const signedPoolOptInTxn = poolOptInTxn.signTxn(creator.sk);
+    const poolOptInTxID = await algod.sendRawTransaction(signedPoolOptInTxn).do();
+    await algosdk.waitForConfirmation(algod, poolOptInTxID.txid, 5);
+
+    // Creator opts into pool app (to become state holder for local state)
+    suggestedParams = await algod.getTransactionParams().do();
+    const creatorOptInPoolTxn = algosdk.makeApplicationOptInTxnFromObject({
+      sender: creatorAddr,
+      appIndex: poolAppId,
+      suggestedParams: { ...suggestedParams, fee: 1000, flatFee: true },
+    });
+    const signedCreatorOptInPoolTxn = creatorOptInPoolTxn.signTxn(creator.sk);
+    const creatorOptInPoolTxID = await algod.sendRawTransaction(signedCreatorOptInPoolTxn).do();
+    await algosdk.waitForConfirmation(algod, creatorOptInPoolTxID.txid, 5);
+
+    // Initialize pool local state (creator is the state holder)
+    suggestedParams = await algod.getTransactionParams().do();
+    const initPoolTxn = algosdk.makeApplicationCallTxnFromObject({
+      sender: creatorAddr,
+      appIndex: poolAppId,
+      onComplete: algosdk.OnApplicationComplete.NoOpOC,
+      appArgs: [
+        new TextEncoder().encode('initializePool'),
+        encodeUint64(poolReserveUsdc),
+        encodeUint64(poolReserveAlpha),
+        encodeUint64(poolFeeBps),
+      ],
+      suggestedParams: { ...suggestedParams, fee: 1000, flatFee: true },
+    });
+    const signedInitPoolTxn = initPoolTxn.signTxn(creator.sk);
+    const initPoolTxID = await algod.sendRawTransaction(signedInitPoolTxn).do();
+    await algosdk.waitForConfirmation(algod, initPoolTxID.txid, 5);
+
+    // IMPORTANT: The state holder address is the creator's address
+    poolStateHolderAddress = creatorAddr;
+
+    // Fund pool with Alpha liquidity (so it can swap USDC -> Alpha)
+    suggestedParams = await algod.getTransactionParams().do();
+    const fundPoolAlphaTxn = algosdk.makeAssetTransferTxnWithSuggestedParamsFromObject({
+      sender: creatorAddr,
+      receiver: poolAddress,
+      amount: poolReserveAlpha,
+      assetIndex: alphaAssetId,
+      suggestedParams,
+    });
+    const signedFundPoolAlphaTxn = fundPoolAlphaTxn.signTxn(creator.sk);
+    const fundPoolAlphaTxID = await algod.sendRawTransaction(signedFundPoolAlphaTxn).do();
+    await algosdk.waitForConfirmation(algod, fundPoolAlphaTxID.txid, 5);
+  }
 
   // ========================================
   // Step 2: Deploy RareFiAlphaCompoundingVault
@@ -248,6 +322,8 @@ export async function deployCompoundingVaultForTest(
       5000, // maxSlippageBps (50% for testing)
       poolAppId,
       poolStateHolderAddress, // Use state holder (where pool state is in local state)
+      hopPoolAppId,
+      hopPoolAddress,
       creatorAddr, // rarefiAddress = creator for testing
     ],
     sender: creatorAddr,
@@ -255,11 +331,11 @@ export async function deployCompoundingVaultForTest(
     suggestedParams: { ...suggestedParams, fee: 1000, flatFee: true },
     approvalProgram: vaultCompiled.approvalProgram,
     clearProgram: vaultCompiled.clearProgram,
-    numGlobalByteSlices: 3, // creatorAddress, rarefiAddress, tinymanPoolAddress
-    numGlobalInts: 13, // alphaAsset, usdcAsset, creatorFeeRate, creatorUnclaimedAlpha, totalShares, totalAlpha, minSwapThreshold, maxSlippageBps, totalYieldCompounded, tinymanPoolAppId, farmBalance, emissionRatio, assetsOptedIn
+    numGlobalByteSlices: 9, // creatorAddress, rarefiAddress, tinymanPoolAddress, hopPoolAddress, guardianAddress, candidatePools, farmSchedules, lockTiers, zapPoolAddress
+    numGlobalInts: 28, // alphaAsset, usdcAsset, creatorFeeRate, creatorUnclaimedAlpha, totalShares, totalAlpha, minSwapThreshold, maxSlippageBps, totalYieldCompounded, totalBonusBasis, tinymanPoolAppId, hopPoolAppId, farmBalance, emissionRatio, assetsOptedIn, shareAsset, pausedUntil, priceCumulative, lastSpotPrice, lastObservationTime, twapAnchorCumulative, twapAnchorTime, twapPrice, twapSeedRound, maxPriceDeviationBps, exitFeeBps, exitFeePeriod, zapPoolAppId
     numLocalByteSlices: 0,
-    numLocalInts: 1, // userShares
-    extraPages: 1,
+    numLocalInts: 0, // user shares live in boxes
+    extraPages: Math.ceil((vaultCompiled.approvalProgram.length + vaultCompiled.clearProgram.length) / PAGE_SIZE) - 1,
   });
 
   const vaultResult = await vaultAtc.execute(algod, 5);
@@ -280,11 +356,12 @@ export async function deployCompoundingVaultForTest(
   const fundVaultTxID = await algod.sendRawTransaction(signedFundVaultTxn).do();
   await algosdk.waitForConfirmation(algod, fundVaultTxID.txid, 5);
 
-  // Vault opts into assets
+  // Vault opts into assets (and mints the share ASA in tokenized mode)
+  const tokenizedShares = overrides?.tokenizedShares ?? false;
   const paymentTxn = algosdk.makePaymentTxnWithSuggestedParamsFromObject({
     sender: creatorAddr,
     receiver: vaultAddress,
-    amount: 5_400_000, // 5.4 ALGO
+    amount: tokenizedShares ? 5_500_000 : 5_400_000, // 5.5 ALGO with share ASA MBR, else 5.4 ALGO
     suggestedParams: { ...(await algod.getTransactionParams().do()), fee: 1000, flatFee: true },
   });
 
@@ -296,32 +373,42 @@ export async function deployCompoundingVaultForTest(
 
   vaultOptInAtc.addMethodCall({
     appID: vaultAppId,
-    method: vaultContract.getMethodByName('optInAssets'),
+    method: vaultContract.getMethodByName(tokenizedShares ? 'optInAssetsWithShareToken' : 'optInAssets'),
     methodArgs: [],
     sender: creatorAddr,
     signer: algosdk.makeBasicAccountTransactionSigner({ sk: creator.sk, addr: algosdk.decodeAddress(creatorAddr) }),
-    suggestedParams: { ...(await algod.getTransactionParams().do()), fee: 3000, flatFee: true },
+    suggestedParams: { ...(await algod.getTransactionParams().do()), fee: tokenizedShares ? 4000 : 3000, flatFee: true },
     appForeignAssets: [alphaAssetId, usdcAssetId],
   });
 
-  await vaultOptInAtc.execute(algod, 5);
+  const optInResult = await vaultOptInAtc.execute(algod, 5);
+  const shareAssetId = tokenizedShares ? safeToNumber(optInResult.methodResults[0].returnValue) : 0;
 
-  return {
+  const deployment: CompoundingVaultDeploymentResult = {
     vaultAppId,
     vaultAddress,
     alphaAssetId,
     usdcAssetId,
     poolAppId,
     poolAddress: poolStateHolderAddress, // State holder address (where pool state is stored)
+    hopPoolAppId,
+    hopPoolAddress,
+    shareAssetId,
     arc56Spec: vaultCompiled.arc56Spec,
     poolArc56Spec: poolCompiled.arc56Spec,
   };
+
+  // Spot-vs-TWAP limit: 100% for testing (back-to-back test swaps move the mock pool far faster than the TWAP window)
+  await performUpdateMaxPriceDeviation(algod, deployment, creatorAccount, overrides?.maxPriceDeviationBps ?? 10_000);
+
+  return deployment;
 }
 
 export async function performUserOptIn(
   algod: algosdk.Algodv2,
   deployment: CompoundingVaultDeploymentResult,
   user: { addr: string | algosdk.Address; sk: Uint8Array },
+  mbrAmount: number = POSITION_MBR,
 ) {
   const contract = new algosdk.ABIContract(deployment.arc56Spec);
   const suggestedParams = await algod.getTransactionParams().do();
@@ -332,6 +419,16 @@ export async function performUserOptIn(
   });
 
   const atc = new algosdk.AtomicTransactionComposer();
+
+  // Position box MBR payment first
+  const mbrPayment = algosdk.makePaymentTxnWithSuggestedParamsFromObject({
+    sender: userAddr,
+    receiver: deployment.vaultAddress,
+    amount: mbrAmount,
+    suggestedParams,
+  });
+  atc.addTransaction({ txn: mbrPayment, signer });
+
   atc.addMethodCall({
     appID: deployment.vaultAppId,
     method: contract.getMethodByName('optIn'),
@@ -339,7 +436,7 @@ export async function performUserOptIn(
     sender: userAddr,
     signer,
     suggestedParams: { ...suggestedParams, fee: 1000, flatFee: true },
-    onComplete: algosdk.OnApplicationComplete.OptInOC,
+    boxes: positionBoxRef(deployment, userAddr),
   });
 
   await atc.execute(algod, 5);
@@ -374,16 +471,127 @@ export async function performDeposit(
 
   // Then deposit call with slippageBps for potential auto-compound
   // Include pool references in case auto-compound is triggered
+  const swapCall = swapCallParams(deployment);
   atc.addMethodCall({
     appID: deployment.vaultAppId,
     method: contract.getMethodByName('deposit'),
     methodArgs: [slippageBps],
     sender: userAddr,
     signer,
-    suggestedParams: { ...suggestedParams, fee: 5000, flatFee: true }, // Higher fee for potential inner txns
+    suggestedParams: { ...suggestedParams, fee: swapCall.fee, flatFee: true }, // Higher fee for potential inner txns
+    appForeignAssets: deployment.shareAssetId
+      ? [deployment.alphaAssetId, deployment.usdcAssetId, deployment.shareAssetId]
+      : [deployment.alphaAssetId, deployment.usdcAssetId],
+    appForeignApps: swapCall.appForeignApps,
+    appAccounts: swapCall.appAccounts,
+    boxes: positionBoxRef(deployment, userAddr),
+  });
+
+  await atc.execute(algod, 5);
+}
+
+/**
+ * Deposit funded by the sender with the shares credited to the beneficiary
+ */
+export async function performDepositFor(
+  algod: algosdk.Algodv2,
+  deployment: CompoundingVaultDeploymentResult,
+  sender: { addr: string | algosdk.Address; sk: Uint8Array },
+  beneficiaryAddr: string,
+  amount: number,
+  slippageBps: number = 100,
+) {
+  const contract = new algosdk.ABIContract(deployment.arc56Spec);
+  const suggestedParams = await algod.getTransactionParams().do();
+  const senderAddr = typeof sender.addr === 'string' ? sender.addr : sender.addr.toString();
+  const signer = algosdk.makeBasicAccountTransactionSigner({
+    sk: sender.sk,
+    addr: algosdk.decodeAddress(senderAddr),
+  });
+
+  const atc = new algosdk.AtomicTransactionComposer();
+  const alphaTransfer = algosdk.makeAssetTransferTxnWithSuggestedParamsFromObject({
+    sender: senderAddr,
+    receiver: deployment.vaultAddress,
+    amount: amount,
+    assetIndex: deployment.alphaAssetId,
+    suggestedParams,
+  });
+  atc.addTransaction({ txn: alphaTransfer, signer });
+
+  const swapCall = swapCallParams(deployment);
+  atc.addMethodCall({
+    appID: deployment.vaultAppId,
+    method: contract.getMethodByName('depositFor'),
+    methodArgs: [beneficiaryAddr, slippageBps],
+    sender: senderAddr,
+    signer,
+    suggestedParams: { ...suggestedParams, fee: swapCall.fee, flatFee: true },
+    appForeignAssets: deployment.shareAssetId
+      ? [deployment.alphaAssetId, deployment.usdcAssetId, deployment.shareAssetId]
+      : [deployment.alphaAssetId, deployment.usdcAssetId],
+    appForeignApps: swapCall.appForeignApps,
+    appAccounts: [...swapCall.appAccounts, beneficiaryAddr], // Share ASA receiver in tokenized mode
+    boxes: positionBoxRef(deployment, beneficiaryAddr),
+  });
+
+  await atc.execute(algod, 5);
+}
+
+/**
+ * Deposit locked for a lock tier, minting boost shares on top (position-box vaults only)
+ * The first lock also pays the lock box MBR
+ */
+export async function performDepositLocked(
+  algod: algosdk.Algodv2,
+  deployment: CompoundingVaultDeploymentResult,
+  user: { addr: string | algosdk.Address; sk: Uint8Array },
+  amount: number,
+  lockDuration: number,
+  slippageBps: number = 100,
+  payLockMbr: boolean = true, // false when extending an existing lock
+) {
+  const contract = new algosdk.ABIContract(deployment.arc56Spec);
+  const suggestedParams = await algod.getTransactionParams().do();
+  const userAddr = typeof user.addr === 'string' ? user.addr : user.addr.toString();
+  const signer = algosdk.makeBasicAccountTransactionSigner({
+    sk: user.sk,
+    addr: algosdk.decodeAddress(userAddr),
+  });
+
+  const atc = new algosdk.AtomicTransactionComposer();
+
+  if (payLockMbr) {
+    const mbrPayment = algosdk.makePaymentTxnWithSuggestedParamsFromObject({
+      sender: userAddr,
+      receiver: deployment.vaultAddress,
+      amount: LOCK_MBR,
+      suggestedParams,
+    });
+    atc.addTransaction({ txn: mbrPayment, signer });
+  }
+
+  const alphaTransfer = algosdk.makeAssetTransferTxnWithSuggestedParamsFromObject({
+    sender: userAddr,
+    receiver: deployment.vaultAddress,
+    amount: amount,
+    assetIndex: deployment.alphaAssetId,
+    suggestedParams,
+  });
+  atc.addTransaction({ txn: alphaTransfer, signer });
+
+  const swapCall = swapCallParams(deployment);
+  atc.addMethodCall({
+    appID: deployment.vaultAppId,
+    method: contract.getMethodByName('depositLocked'),
+    methodArgs: [slippageBps, lockDuration],
+    sender: userAddr,
+    signer,
+    suggestedParams: { ...suggestedParams, fee: swapCall.fee, flatFee: true },
     appForeignAssets: [deployment.alphaAssetId, deployment.usdcAssetId],
-    appForeignApps: [deployment.poolAppId],
-    appAccounts: [deployment.poolAddress],
+    appForeignApps: swapCall.appForeignApps,
+    appAccounts: swapCall.appAccounts,
+    boxes: lockBoxRefs(deployment, userAddr),
   });
 
   await atc.execute(algod, 5);
@@ -404,6 +612,19 @@ export async function performWithdraw(
   });
 
   const atc = new algosdk.AtomicTransactionComposer();
+
+  // Tokenized mode: return share tokens to the vault first
+  if (deployment.shareAssetId) {
+    const shareTransfer = algosdk.makeAssetTransferTxnWithSuggestedParamsFromObject({
+      sender: userAddr,
+      receiver: deployment.vaultAddress,
+      amount: shareAmount || await getAssetBalance(algod, userAddr, deployment.shareAssetId),
+      assetIndex: deployment.shareAssetId,
+      suggestedParams,
+    });
+    atc.addTransaction({ txn: shareTransfer, signer });
+  }
+
   atc.addMethodCall({
     appID: deployment.vaultAppId,
     method: contract.getMethodByName('withdraw'),
@@ -412,6 +633,7 @@ export async function performWithdraw(
     signer,
     suggestedParams: { ...suggestedParams, fee: 2000, flatFee: true },
     appForeignAssets: [deployment.alphaAssetId],
+    boxes: lockBoxRefs(deployment, userAddr),
   });
 
   await atc.execute(algod, 5);
@@ -428,6 +650,8 @@ export async function performCompoundYield(
   sender: { addr: string | algosdk.Address; sk: Uint8Array },
   usdcAmount: number,
   slippageBps: number = 50, // 0.5% default slippage
+  candidatePools: CandidatePoolRef[] = [], // Allowlisted pools the vault may route through
+  minAmountOut: number = 0, // Absolute output floor (> 0 calls compoundYieldWithMinOut)
 ) {
   const contract = new algosdk.ABIContract(deployment.arc56Spec);
   const senderAddr = typeof sender.addr === 'string' ? sender.addr : sender.addr.toString();
@@ -451,17 +675,19 @@ export async function performCompoundYield(
 
   // Step 2: Call compoundYield to swap USDC -> Alpha
   suggestedParams = await algod.getTransactionParams().do();
+  const swapCall = swapCallParams(deployment);
+  const candidateAccounts = candidatePools.map((p) => p.poolAddress).filter((a) => !swapCall.appAccounts.includes(a));
   const atc = new algosdk.AtomicTransactionComposer();
   atc.addMethodCall({
     appID: deployment.vaultAppId,
-    method: contract.getMethodByName('compoundYield'),
-    methodArgs: [slippageBps],
+    method: contract.getMethodByName(minAmountOut > 0 ? 'compoundYieldWithMinOut' : 'compoundYield'),
+    methodArgs: minAmountOut > 0 ? [slippageBps, minAmountOut] : [slippageBps],
     sender: senderAddr,
     signer,
-    suggestedParams: { ...suggestedParams, fee: 5000, flatFee: true }, // Higher fee for inner txns
+    suggestedParams: { ...suggestedParams, fee: swapCall.fee, flatFee: true }, // Higher fee for inner txns
     appForeignAssets: [deployment.usdcAssetId, deployment.alphaAssetId],
-    appForeignApps: [deployment.poolAppId],
-    appAccounts: [deployment.poolAddress],
+    appForeignApps: [...swapCall.appForeignApps, ...candidatePools.map((p) => p.poolAppId)],
+    appAccounts: [...swapCall.appAccounts, ...new Set(candidateAccounts)],
   });
 
   await atc.execute(algod, 5);
@@ -514,9 +740,9 @@ export async function performCloseOut(
     methodArgs: [],
     sender: userAddr,
     signer,
-    suggestedParams: { ...suggestedParams, fee: 2000, flatFee: true },
+    suggestedParams: { ...suggestedParams, fee: 3000, flatFee: true }, // outer + Alpha return + MBR refund
     appForeignAssets: [deployment.alphaAssetId],
-    onComplete: algosdk.OnApplicationComplete.CloseOutOC,
+    boxes: lockBoxRefs(deployment, userAddr),
   });
 
   await atc.execute(algod, 5);
@@ -531,6 +757,7 @@ export async function getVaultStats(
   creatorUnclaimedAlpha: number;
   usdcBalance: number;
   totalYieldCompounded: number;
+  totalBonusBasis: number;
   sharePrice: number;
 }> {
   // Read from global state directly
@@ -564,12 +791,13 @@ export async function getVaultStats(
 
   const totalShares = globalState['totalShares'] || 0;
   const totalAlpha = globalState['totalAlpha'] || 0;
+  const totalBonusBasis = globalState['totalBonusBasis'] || 0;
   const SCALE = 1_000_000_000_000; // 1e12
 
-  // Calculate share price
+  // Calculate share price (boost shares are priced against their virtual basis)
   let sharePrice = SCALE; // Default 1:1
   if (totalShares > 0) {
-    sharePrice = Math.floor((totalAlpha * SCALE) / totalShares);
+    sharePrice = Math.floor(((totalAlpha + totalBonusBasis) * SCALE) / totalShares);
   }
 
   return {
@@ -578,6 +806,7 @@ export async function getVaultStats(
     creatorUnclaimedAlpha: globalState['creatorUnclaimedAlpha'] || 0,
     usdcBalance,
     totalYieldCompounded: globalState['totalYieldCompounded'] || 0,
+    totalBonusBasis,
     sharePrice,
   };
 }
@@ -587,8 +816,10 @@ export async function getUserShares(
   deployment: CompoundingVaultDeploymentResult,
   userAddr: string,
 ): Promise<number> {
-  const localState = await getUserLocalState(algod, deployment.vaultAppId, userAddr);
-  return localState.userShares;
+  if (deployment.shareAssetId) {
+    return getAssetBalance(algod, userAddr, deployment.shareAssetId);
+  }
+  return getUserPositionShares(algod, deployment.vaultAppId, userAddr);
 }
 
 export async function getUserAlphaBalance(
@@ -596,50 +827,32 @@ export async function getUserAlphaBalance(
   deployment: CompoundingVaultDeploymentResult,
   userAddr: string,
 ): Promise<number> {
-  const localState = await getUserLocalState(algod, deployment.vaultAppId, userAddr);
+  const userShares = await getUserShares(algod, deployment, userAddr);
   const stats = await getVaultStats(algod, deployment);
 
   if (stats.totalShares === 0) {
     return 0;
   }
 
-  // alphaAmount = (shares * totalAlpha) / totalShares
-  return Math.floor((localState.userShares * stats.totalAlpha) / stats.totalShares);
+  // alphaAmount = (shares * (totalAlpha + totalBonusBasis)) / totalShares - the user's lock basis
+  const lock = await getUserLock(algod, deployment, userAddr);
+  return Math.floor((userShares * (stats.totalAlpha + stats.totalBonusBasis)) / stats.totalShares) - lock.bonusBasis;
 }
 
-async function getUserLocalState(
+/**
+ * Reads a user's share position box (0 if the box does not exist)
+ */
+async function getUserPositionShares(
   algod: algosdk.Algodv2,
   appId: number,
   userAddr: string,
-): Promise<{
-  userShares: number;
-}> {
-  const accountInfo = await algod.accountInformation(userAddr).do();
-
-  const appLocalState = accountInfo['appsLocalState']?.find(
-    (app: any) => safeToNumber(app.id) === appId
-  );
-
-  if (!appLocalState) {
-    return { userShares: 0 };
-  }
-
-  const localState: Record<string, number> = {};
-  for (const kv of appLocalState.keyValue || []) {
-    let key: string;
-    if (kv.key instanceof Uint8Array) {
-      key = new TextDecoder().decode(kv.key);
-    } else {
-      key = Buffer.from(kv.key as string, 'base64').toString('utf8');
-    }
-    if (kv.value.type === 2) {
-      localState[key] = safeToNumber(kv.value.uint);
-    }
+): Promise<number> {
+  try {
+    const box = await algod.getApplicationBoxByName(appId, positionBoxName(userAddr)).do();
+    return safeToNumber(Buffer.from(box.value).readBigUInt64BE(0));
+  } catch {
+    return 0;
   }
-
-  return {
-    userShares: localState['userShares'] || 0,
-  };
 }
 
 export function getContract(deployment: CompoundingVaultDeploymentResult): algosdk.ABIContract {
@@ -687,38 +900,54 @@ export async function performContributeFarm(
   await atc.execute(algod, 5);
 }
 
-export async function performSetEmissionRatio(
+export async function performContributeFarmSchedule(
   algod: algosdk.Algodv2,
   deployment: CompoundingVaultDeploymentResult,
-  sender: { addr: string | algosdk.Address; sk: Uint8Array },
-  newRatio: number,
+  contributor: { addr: string | algosdk.Address; sk: Uint8Array },
+  alphaAmount: number,
+  startTime: number,
+  endTime: number,
 ) {
   const contract = new algosdk.ABIContract(deployment.arc56Spec);
   const suggestedParams = await algod.getTransactionParams().do();
-  const senderAddr = typeof sender.addr === 'string' ? sender.addr : sender.addr.toString();
+  const contributorAddr = typeof contributor.addr === 'string' ? contributor.addr : contributor.addr.toString();
   const signer = algosdk.makeBasicAccountTransactionSigner({
-    sk: sender.sk,
-    addr: algosdk.decodeAddress(senderAddr),
+    sk: contributor.sk,
+    addr: algosdk.decodeAddress(contributorAddr),
   });
 
   const atc = new algosdk.AtomicTransactionComposer();
+
+  const alphaTransfer = algosdk.makeAssetTransferTxnWithSuggestedParamsFromObject({
+    sender: contributorAddr,
+    receiver: deployment.vaultAddress,
+    amount: alphaAmount,
+    assetIndex: deployment.alphaAssetId,
+    suggestedParams,
+  });
+  atc.addTransaction({ txn: alphaTransfer, signer });
+
   atc.addMethodCall({
     appID: deployment.vaultAppId,
-    method: contract.getMethodByName('setEmissionRatio'),
-    methodArgs: [newRatio],
-    sender: senderAddr,
+    method: contract.getMethodByName('contributeFarmSchedule'),
+    methodArgs: [startTime, endTime],
+    sender: contributorAddr,
     signer,
     suggestedParams: { ...suggestedParams, fee: 1000, flatFee: true },
+    appForeignAssets: [deployment.alphaAssetId],
   });
 
   await atc.execute(algod, 5);
 }
 
-export async function performUpdateMinSwapThreshold(
+// Lock functions
+export async function performSetLockTier(
   algod: algosdk.Algodv2,
   deployment: CompoundingVaultDeploymentResult,
   sender: { addr: string | algosdk.Address; sk: Uint8Array },
-  newThreshold: number,
+  slot: number,
+  duration: number, // 0 = clear the slot
+  boostBps: number,
 ) {
   const contract = new algosdk.ABIContract(deployment.arc56Spec);
   const suggestedParams = await algod.getTransactionParams().do();
@@ -731,8 +960,8 @@ export async function performUpdateMinSwapThreshold(
   const atc = new algosdk.AtomicTransactionComposer();
   atc.addMethodCall({
     appID: deployment.vaultAppId,
-    method: contract.getMethodByName('updateMinSwapThreshold'),
-    methodArgs: [newThreshold],
+    method: contract.getMethodByName('setLockTier'),
+    methodArgs: [slot, duration, boostBps],
     sender: senderAddr,
     signer,
     suggestedParams: { ...suggestedParams, fee: 1000, flatFee: true },
@@ -741,11 +970,14 @@ export async function performUpdateMinSwapThreshold(
   await atc.execute(algod, 5);
 }
 
-export async function performUpdateMaxSlippage(
+/**
+ * Drop the boost of a user's expired lock (permissionless)
+ */
+export async function performReleaseLock(
   algod: algosdk.Algodv2,
   deployment: CompoundingVaultDeploymentResult,
   sender: { addr: string | algosdk.Address; sk: Uint8Array },
-  newMaxSlippageBps: number,
+  userAddr: string,
 ) {
   const contract = new algosdk.ABIContract(deployment.arc56Spec);
   const suggestedParams = await algod.getTransactionParams().do();
@@ -758,29 +990,331 @@ export async function performUpdateMaxSlippage(
   const atc = new algosdk.AtomicTransactionComposer();
   atc.addMethodCall({
     appID: deployment.vaultAppId,
-    method: contract.getMethodByName('updateMaxSlippage'),
-    methodArgs: [newMaxSlippageBps],
+    method: contract.getMethodByName('releaseLock'),
+    methodArgs: [userAddr],
     sender: senderAddr,
     signer,
     suggestedParams: { ...suggestedParams, fee: 1000, flatFee: true },
+    boxes: lockBoxRefs(deployment, userAddr),
   });
 
   await atc.execute(algod, 5);
 }
 
-export async function performUpdateCreatorFeeRate(
+/**
+ * Get user lock via ABI method call (all zero if no lock)
+ */
+export async function getUserLock(
   algod: algosdk.Algodv2,
   deployment: CompoundingVaultDeploymentResult,
-  sender: { addr: string | algosdk.Address; sk: Uint8Array },
-  newFeeRate: number,
-) {
+  userAddr: string,
+): Promise<{
+  lockedUntil: number;
+  lockedShares: number;
+  bonusShares: number;
+  bonusBasis: number;
+}> {
   const contract = new algosdk.ABIContract(deployment.arc56Spec);
   const suggestedParams = await algod.getTransactionParams().do();
-  const senderAddr = typeof sender.addr === 'string' ? sender.addr : sender.addr.toString();
-  const signer = algosdk.makeBasicAccountTransactionSigner({
-    sk: sender.sk,
-    addr: algosdk.decodeAddress(senderAddr),
-  });
+  const signer = algosdk.makeEmptyTransactionSigner();
+
+  const atc = new algosdk.AtomicTransactionComposer();
+  atc.addMethodCall({
+    appID: deployment.vaultAppId,
+    method: contract.getMethodByName('getUserLock'),
+    methodArgs: [userAddr],
+    sender: userAddr,
+    signer,
+    suggestedParams: { ...suggestedParams, fee: 1000, flatFee: true },
+  });
+
+  const result = await atc.simulate(algod, new algosdk.modelsv2.SimulateRequest({ txnGroups: [], allowEmptySignatures: true, allowUnnamedResources: true }));
+  const returnValue = result.methodResults[0].returnValue as bigint[];
+
+  return {
+    lockedUntil: Number(returnValue[0]),
+    lockedShares: Number(returnValue[1]),
+    bonusShares: Number(returnValue[2]),
+    bonusBasis: Number(returnValue[3]),
+  };
+}
+
+// Exit fee functions
+export async function performSetExitFee(
+  algod: algosdk.Algodv2,
+  deployment: CompoundingVaultDeploymentResult,
+  sender: { addr: string | algosdk.Address; sk: Uint8Array },
+  exitFeeBps: number,
+  exitFeePeriod: number,
+) {
+  const contract = new algosdk.ABIContract(deployment.arc56Spec);
+  const suggestedParams = await algod.getTransactionParams().do();
+  const senderAddr = typeof sender.addr === 'string' ? sender.addr : sender.addr.toString();
+  const signer = algosdk.makeBasicAccountTransactionSigner({
+    sk: sender.sk,
+    addr: algosdk.decodeAddress(senderAddr),
+  });
+
+  const atc = new algosdk.AtomicTransactionComposer();
+  atc.addMethodCall({
+    appID: deployment.vaultAppId,
+    method: contract.getMethodByName('setExitFee'),
+    methodArgs: [exitFeeBps, exitFeePeriod],
+    sender: senderAddr,
+    signer,
+    suggestedParams: { ...suggestedParams, fee: 1000, flatFee: true },
+  });
+
+  await atc.execute(algod, 5);
+}
+
+/**
+ * Get exit fee settings and the fee the user would pay now via ABI method call
+ */
+export async function getExitFee(
+  algod: algosdk.Algodv2,
+  deployment: CompoundingVaultDeploymentResult,
+  userAddr: string,
+): Promise<{
+  exitFeeBps: number;
+  exitFeePeriod: number;
+  userFeeBps: number;
+}> {
+  const contract = new algosdk.ABIContract(deployment.arc56Spec);
+  const suggestedParams = await algod.getTransactionParams().do();
+  const signer = algosdk.makeEmptyTransactionSigner();
+
+  const atc = new algosdk.AtomicTransactionComposer();
+  atc.addMethodCall({
+    appID: deployment.vaultAppId,
+    method: contract.getMethodByName('getExitFee'),
+    methodArgs: [userAddr],
+    sender: userAddr,
+    signer,
+    suggestedParams: { ...suggestedParams, fee: 1000, flatFee: true },
+  });
+
+  const result = await atc.simulate(algod, new algosdk.modelsv2.SimulateRequest({ txnGroups: [], allowEmptySignatures: true, allowUnnamedResources: true }));
+  const returnValue = result.methodResults[0].returnValue as bigint[];
+
+  return {
+    exitFeeBps: Number(returnValue[0]),
+    exitFeePeriod: Number(returnValue[1]),
+    userFeeBps: Number(returnValue[2]),
+  };
+}
+
+/**
+ * Set the zap pool (poolAppId 0 disables zaps)
+ */
+export async function performSetZapPool(
+  algod: algosdk.Algodv2,
+  deployment: CompoundingVaultDeploymentResult,
+  sender: { addr: string | algosdk.Address; sk: Uint8Array },
+  pool: CandidatePoolRef,
+) {
+  const contract = new algosdk.ABIContract(deployment.arc56Spec);
+  const suggestedParams = await algod.getTransactionParams().do();
+  const senderAddr = typeof sender.addr === 'string' ? sender.addr : sender.addr.toString();
+  const signer = algosdk.makeBasicAccountTransactionSigner({
+    sk: sender.sk,
+    addr: algosdk.decodeAddress(senderAddr),
+  });
+
+  const atc = new algosdk.AtomicTransactionComposer();
+  atc.addMethodCall({
+    appID: deployment.vaultAppId,
+    method: contract.getMethodByName('setZapPool'),
+    methodArgs: [pool.poolAppId, pool.poolAddress],
+    sender: senderAddr,
+    signer,
+    suggestedParams: { ...suggestedParams, fee: 1000, flatFee: true },
+    appForeignApps: pool.poolAppId ? [pool.poolAppId] : [],
+    appAccounts: pool.poolAppId ? [pool.poolAddress] : [],
+  });
+
+  await atc.execute(algod, 5);
+}
+
+/**
+ * Deposit USDC, swapped to Alpha through the zap pool and credited as shares
+ */
+export async function performZapDeposit(
+  algod: algosdk.Algodv2,
+  deployment: CompoundingVaultDeploymentResult,
+  user: { addr: string | algosdk.Address; sk: Uint8Array },
+  zapPool: CandidatePoolRef,
+  usdcAmount: number,
+  minDepositOut: number,
+  slippageBps: number = 100, // 1% default slippage for auto-compound
+) {
+  const contract = new algosdk.ABIContract(deployment.arc56Spec);
+  const suggestedParams = await algod.getTransactionParams().do();
+  const userAddr = typeof user.addr === 'string' ? user.addr : user.addr.toString();
+  const signer = algosdk.makeBasicAccountTransactionSigner({
+    sk: user.sk,
+    addr: algosdk.decodeAddress(userAddr),
+  });
+
+  const atc = new algosdk.AtomicTransactionComposer();
+  const usdcTransfer = algosdk.makeAssetTransferTxnWithSuggestedParamsFromObject({
+    sender: userAddr,
+    receiver: deployment.vaultAddress,
+    amount: usdcAmount,
+    assetIndex: deployment.usdcAssetId,
+    suggestedParams,
+  });
+  atc.addTransaction({ txn: usdcTransfer, signer });
+
+  const swapCall = swapCallParams(deployment);
+  atc.addMethodCall({
+    appID: deployment.vaultAppId,
+    method: contract.getMethodByName('zapDeposit'),
+    methodArgs: [slippageBps, minDepositOut],
+    sender: userAddr,
+    signer,
+    suggestedParams: { ...suggestedParams, fee: swapCall.fee + 3000, flatFee: true }, // + zap swap (transfer in + pool call + pool output)
+    appForeignAssets: deployment.shareAssetId
+      ? [deployment.alphaAssetId, deployment.usdcAssetId, deployment.shareAssetId]
+      : [deployment.alphaAssetId, deployment.usdcAssetId],
+    appForeignApps: [...swapCall.appForeignApps, zapPool.poolAppId],
+    appAccounts: [...new Set([...swapCall.appAccounts, zapPool.poolAddress])],
+    boxes: positionBoxRef(deployment, userAddr),
+  });
+
+  await atc.execute(algod, 5);
+}
+
+/**
+ * Get the zap pool's Alpha output for a USDC amount via ABI method call
+ */
+export async function getZapQuote(
+  algod: algosdk.Algodv2,
+  deployment: CompoundingVaultDeploymentResult,
+  usdcAmount: number,
+): Promise<number> {
+  const contract = new algosdk.ABIContract(deployment.arc56Spec);
+  const suggestedParams = await algod.getTransactionParams().do();
+  const appAddr = algosdk.getApplicationAddress(deployment.vaultAppId).toString();
+  const signer = algosdk.makeEmptyTransactionSigner();
+
+  const atc = new algosdk.AtomicTransactionComposer();
+  atc.addMethodCall({
+    appID: deployment.vaultAppId,
+    method: contract.getMethodByName('getZapQuote'),
+    methodArgs: [usdcAmount],
+    sender: appAddr,
+    signer,
+    suggestedParams: { ...suggestedParams, fee: 1000, flatFee: true },
+  });
+
+  const result = await atc.simulate(algod, new algosdk.modelsv2.SimulateRequest({ txnGroups: [], allowEmptySignatures: true, allowUnnamedResources: true }));
+  return safeToNumber(result.methodResults[0].returnValue);
+}
+
+/**
+ * Timestamp of the latest block (what Global.latestTimestamp reads in the next call)
+ */
+export async function getLatestTimestamp(algod: algosdk.Algodv2): Promise<number> {
+  const status = await algod.status().do();
+  const block = await algod.block(status.lastRound).do();
+  return Number(block.block.header.timestamp);
+}
+
+export async function performSetEmissionRatio(
+  algod: algosdk.Algodv2,
+  deployment: CompoundingVaultDeploymentResult,
+  sender: { addr: string | algosdk.Address; sk: Uint8Array },
+  newRatio: number,
+) {
+  const contract = new algosdk.ABIContract(deployment.arc56Spec);
+  const suggestedParams = await algod.getTransactionParams().do();
+  const senderAddr = typeof sender.addr === 'string' ? sender.addr : sender.addr.toString();
+  const signer = algosdk.makeBasicAccountTransactionSigner({
+    sk: sender.sk,
+    addr: algosdk.decodeAddress(senderAddr),
+  });
+
+  const atc = new algosdk.AtomicTransactionComposer();
+  atc.addMethodCall({
+    appID: deployment.vaultAppId,
+    method: contract.getMethodByName('setEmissionRatio'),
+    methodArgs: [newRatio],
+    sender: senderAddr,
+    signer,
+    suggestedParams: { ...suggestedParams, fee: 1000, flatFee: true },
+  });
+
+  await atc.execute(algod, 5);
+}
+
+export async function performUpdateMinSwapThreshold(
+  algod: algosdk.Algodv2,
+  deployment: CompoundingVaultDeploymentResult,
+  sender: { addr: string | algosdk.Address; sk: Uint8Array },
+  newThreshold: number,
+) {
+  const contract = new algosdk.ABIContract(deployment.arc56Spec);
+  const suggestedParams = await algod.getTransactionParams().do();
+  const senderAddr = typeof sender.addr === 'string' ? sender.addr : sender.addr.toString();
+  const signer = algosdk.makeBasicAccountTransactionSigner({
+    sk: sender.sk,
+    addr: algosdk.decodeAddress(senderAddr),
+  });
+
+  const atc = new algosdk.AtomicTransactionComposer();
+  atc.addMethodCall({
+    appID: deployment.vaultAppId,
+    method: contract.getMethodByName('updateMinSwapThreshold'),
+    methodArgs: [newThreshold],
+    sender: senderAddr,
+    signer,
+    suggestedParams: { ...suggestedParams, fee: 1000, flatFee: true },
+  });
+
+  await atc.execute(algod, 5);
+}
+
+export async function performUpdateMaxSlippage(
+  algod: algosdk.Algodv2,
+  deployment: CompoundingVaultDeploymentResult,
+  sender: { addr: string | algosdk.Address; sk: Uint8Array },
+  newMaxSlippageBps: number,
+) {
+  const contract = new algosdk.ABIContract(deployment.arc56Spec);
+  const suggestedParams = await algod.getTransactionParams().do();
+  const senderAddr = typeof sender.addr === 'string' ? sender.addr : sender.addr.toString();
+  const signer = algosdk.makeBasicAccountTransactionSigner({
+    sk: sender.sk,
+    addr: algosdk.decodeAddress(senderAddr),
+  });
+
+  const atc = new algosdk.AtomicTransactionComposer();
+  atc.addMethodCall({
+    appID: deployment.vaultAppId,
+    method: contract.getMethodByName('updateMaxSlippage'),
+    methodArgs: [newMaxSlippageBps],
+    sender: senderAddr,
+    signer,
+    suggestedParams: { ...suggestedParams, fee: 1000, flatFee: true },
+  });
+
+  await atc.execute(algod, 5);
+}
+
+export async function performUpdateCreatorFeeRate(
+  algod: algosdk.Algodv2,
+  deployment: CompoundingVaultDeploymentResult,
+  sender: { addr: string | algosdk.Address; sk: Uint8Array },
+  newFeeRate: number,
+) {
+  const contract = new algosdk.ABIContract(deployment.arc56Spec);
+  const suggestedParams = await algod.getTransactionParams().do();
+  const senderAddr = typeof sender.addr === 'string' ? sender.addr : sender.addr.toString();
+  const signer = algosdk.makeBasicAccountTransactionSigner({
+    sk: sender.sk,
+    addr: algosdk.decodeAddress(senderAddr),
+  });
 
   const atc = new algosdk.AtomicTransactionComposer();
   atc.addMethodCall({
@@ -849,6 +1383,316 @@ export async function performUpdateRarefiAddress(
   await atc.execute(algod, 5);
 }
 
+export async function performPause(
+  algod: algosdk.Algodv2,
+  deployment: CompoundingVaultDeploymentResult,
+  sender: { addr: string | algosdk.Address; sk: Uint8Array },
+  duration: number,
+) {
+  const contract = new algosdk.ABIContract(deployment.arc56Spec);
+  const suggestedParams = await algod.getTransactionParams().do();
+  const senderAddr = typeof sender.addr === 'string' ? sender.addr : sender.addr.toString();
+  const signer = algosdk.makeBasicAccountTransactionSigner({
+    sk: sender.sk,
+    addr: algosdk.decodeAddress(senderAddr),
+  });
+
+  const atc = new algosdk.AtomicTransactionComposer();
+  atc.addMethodCall({
+    appID: deployment.vaultAppId,
+    method: contract.getMethodByName('pause'),
+    methodArgs: [duration],
+    sender: senderAddr,
+    signer,
+    suggestedParams: { ...suggestedParams, fee: 1000, flatFee: true },
+  });
+
+  await atc.execute(algod, 5);
+}
+
+export async function performUnpause(
+  algod: algosdk.Algodv2,
+  deployment: CompoundingVaultDeploymentResult,
+  sender: { addr: string | algosdk.Address; sk: Uint8Array },
+) {
+  const contract = new algosdk.ABIContract(deployment.arc56Spec);
+  const suggestedParams = await algod.getTransactionParams().do();
+  const senderAddr = typeof sender.addr === 'string' ? sender.addr : sender.addr.toString();
+  const signer = algosdk.makeBasicAccountTransactionSigner({
+    sk: sender.sk,
+    addr: algosdk.decodeAddress(senderAddr),
+  });
+
+  const atc = new algosdk.AtomicTransactionComposer();
+  atc.addMethodCall({
+    appID: deployment.vaultAppId,
+    method: contract.getMethodByName('unpause'),
+    methodArgs: [],
+    sender: senderAddr,
+    signer,
+    suggestedParams: { ...suggestedParams, fee: 1000, flatFee: true },
+  });
+
+  await atc.execute(algod, 5);
+}
+
+export async function performUpdateGuardian(
+  algod: algosdk.Algodv2,
+  deployment: CompoundingVaultDeploymentResult,
+  sender: { addr: string | algosdk.Address; sk: Uint8Array },
+  newGuardianAddress: string,
+) {
+  const contract = new algosdk.ABIContract(deployment.arc56Spec);
+  const suggestedParams = await algod.getTransactionParams().do();
+  const senderAddr = typeof sender.addr === 'string' ? sender.addr : sender.addr.toString();
+  const signer = algosdk.makeBasicAccountTransactionSigner({
+    sk: sender.sk,
+    addr: algosdk.decodeAddress(senderAddr),
+  });
+
+  const atc = new algosdk.AtomicTransactionComposer();
+  atc.addMethodCall({
+    appID: deployment.vaultAppId,
+    method: contract.getMethodByName('updateGuardian'),
+    methodArgs: [newGuardianAddress],
+    sender: senderAddr,
+    signer,
+    suggestedParams: { ...suggestedParams, fee: 1000, flatFee: true },
+  });
+
+  await atc.execute(algod, 5);
+}
+
+/**
+ * Get pause state via ABI method call (evaluated against the latest block timestamp)
+ */
+export async function getPauseState(
+  algod: algosdk.Algodv2,
+  deployment: CompoundingVaultDeploymentResult,
+): Promise<{
+  isPaused: boolean;
+  pausedUntil: number;
+  secondsRemaining: number;
+}> {
+  const contract = new algosdk.ABIContract(deployment.arc56Spec);
+  const suggestedParams = await algod.getTransactionParams().do();
+  const appAddr = algosdk.getApplicationAddress(deployment.vaultAppId).toString();
+  const signer = algosdk.makeEmptyTransactionSigner();
+
+  const atc = new algosdk.AtomicTransactionComposer();
+  atc.addMethodCall({
+    appID: deployment.vaultAppId,
+    method: contract.getMethodByName('getPauseState'),
+    methodArgs: [],
+    sender: appAddr,
+    signer,
+    suggestedParams: { ...suggestedParams, fee: 1000, flatFee: true },
+  });
+
+  const result = await atc.simulate(algod, new algosdk.modelsv2.SimulateRequest({ txnGroups: [], allowEmptySignatures: true, allowUnnamedResources: true }));
+  const returnValue = result.methodResults[0].returnValue as bigint[];
+
+  return {
+    isPaused: returnValue[0] === BigInt(1),
+    pausedUntil: Number(returnValue[1]),
+    secondsRemaining: Number(returnValue[2]),
+  };
+}
+
+/**
+ * Allowlist a candidate pool for best-execution swaps
+ */
+export async function performAddCandidatePool(
+  algod: algosdk.Algodv2,
+  deployment: CompoundingVaultDeploymentResult,
+  sender: { addr: string | algosdk.Address; sk: Uint8Array },
+  pool: CandidatePoolRef,
+) {
+  const contract = new algosdk.ABIContract(deployment.arc56Spec);
+  const suggestedParams = await algod.getTransactionParams().do();
+  const senderAddr = typeof sender.addr === 'string' ? sender.addr : sender.addr.toString();
+  const signer = algosdk.makeBasicAccountTransactionSigner({
+    sk: sender.sk,
+    addr: algosdk.decodeAddress(senderAddr),
+  });
+
+  const atc = new algosdk.AtomicTransactionComposer();
+  atc.addMethodCall({
+    appID: deployment.vaultAppId,
+    method: contract.getMethodByName('addCandidatePool'),
+    methodArgs: [pool.poolAppId, pool.poolAddress],
+    sender: senderAddr,
+    signer,
+    suggestedParams: { ...suggestedParams, fee: 1000, flatFee: true },
+    appForeignApps: [pool.poolAppId],
+    appAccounts: [pool.poolAddress],
+  });
+
+  await atc.execute(algod, 5);
+}
+
+export async function performRemoveCandidatePool(
+  algod: algosdk.Algodv2,
+  deployment: CompoundingVaultDeploymentResult,
+  sender: { addr: string | algosdk.Address; sk: Uint8Array },
+  poolAppId: number,
+) {
+  const contract = new algosdk.ABIContract(deployment.arc56Spec);
+  const suggestedParams = await algod.getTransactionParams().do();
+  const senderAddr = typeof sender.addr === 'string' ? sender.addr : sender.addr.toString();
+  const signer = algosdk.makeBasicAccountTransactionSigner({
+    sk: sender.sk,
+    addr: algosdk.decodeAddress(senderAddr),
+  });
+
+  const atc = new algosdk.AtomicTransactionComposer();
+  atc.addMethodCall({
+    appID: deployment.vaultAppId,
+    method: contract.getMethodByName('removeCandidatePool'),
+    methodArgs: [poolAppId],
+    sender: senderAddr,
+    signer,
+    suggestedParams: { ...suggestedParams, fee: 1000, flatFee: true },
+  });
+
+  await atc.execute(algod, 5);
+}
+
+/**
+ * Get the best-execution quote across the creation route and candidate pools via ABI method call
+ */
+export async function getBestSwapQuote(
+  algod: algosdk.Algodv2,
+  deployment: CompoundingVaultDeploymentResult,
+): Promise<{
+  usdcBalance: number;
+  routeIndex: number;
+  poolAppId: number;
+  expectedOutput: number;
+}> {
+  const contract = new algosdk.ABIContract(deployment.arc56Spec);
+  const suggestedParams = await algod.getTransactionParams().do();
+  const appAddr = algosdk.getApplicationAddress(deployment.vaultAppId).toString();
+  const signer = algosdk.makeEmptyTransactionSigner();
+
+  const atc = new algosdk.AtomicTransactionComposer();
+  atc.addMethodCall({
+    appID: deployment.vaultAppId,
+    method: contract.getMethodByName('getBestSwapQuote'),
+    methodArgs: [],
+    sender: appAddr,
+    signer,
+    suggestedParams: { ...suggestedParams, fee: 1000, flatFee: true },
+  });
+
+  const result = await atc.simulate(algod, new algosdk.modelsv2.SimulateRequest({ txnGroups: [], allowEmptySignatures: true, allowUnnamedResources: true }));
+  const returnValue = result.methodResults[0].returnValue as bigint[];
+
+  return {
+    usdcBalance: Number(returnValue[0]),
+    routeIndex: Number(returnValue[1]),
+    poolAppId: Number(returnValue[2]),
+    expectedOutput: Number(returnValue[3]),
+  };
+}
+
+/**
+ * Record a TWAP price observation without swapping
+ */
+export async function performObservePrice(
+  algod: algosdk.Algodv2,
+  deployment: CompoundingVaultDeploymentResult,
+  sender: { addr: string | algosdk.Address; sk: Uint8Array },
+) {
+  const contract = new algosdk.ABIContract(deployment.arc56Spec);
+  const suggestedParams = await algod.getTransactionParams().do();
+  const senderAddr = typeof sender.addr === 'string' ? sender.addr : sender.addr.toString();
+  const signer = algosdk.makeBasicAccountTransactionSigner({
+    sk: sender.sk,
+    addr: algosdk.decodeAddress(senderAddr),
+  });
+  const poolRefs = swapCallParams(deployment);
+
+  const atc = new algosdk.AtomicTransactionComposer();
+  atc.addMethodCall({
+    appID: deployment.vaultAppId,
+    method: contract.getMethodByName('observePrice'),
+    methodArgs: [],
+    sender: senderAddr,
+    signer,
+    suggestedParams: { ...suggestedParams, fee: 1000, flatFee: true },
+    appForeignApps: poolRefs.appForeignApps,
+    appAccounts: poolRefs.appAccounts,
+  });
+
+  await atc.execute(algod, 5);
+}
+
+export async function performUpdateMaxPriceDeviation(
+  algod: algosdk.Algodv2,
+  deployment: CompoundingVaultDeploymentResult,
+  sender: { addr: string | algosdk.Address; sk: Uint8Array },
+  newMaxDeviationBps: number,
+) {
+  const contract = new algosdk.ABIContract(deployment.arc56Spec);
+  const suggestedParams = await algod.getTransactionParams().do();
+  const senderAddr = typeof sender.addr === 'string' ? sender.addr : sender.addr.toString();
+  const signer = algosdk.makeBasicAccountTransactionSigner({
+    sk: sender.sk,
+    addr: algosdk.decodeAddress(senderAddr),
+  });
+
+  const atc = new algosdk.AtomicTransactionComposer();
+  atc.addMethodCall({
+    appID: deployment.vaultAppId,
+    method: contract.getMethodByName('updateMaxPriceDeviation'),
+    methodArgs: [newMaxDeviationBps],
+    sender: senderAddr,
+    signer,
+    suggestedParams: { ...suggestedParams, fee: 1000, flatFee: true },
+  });
+
+  await atc.execute(algod, 5);
+}
+
+/**
+ * Get price oracle state via ABI method call (prices = swap output for 1 input token)
+ */
+export async function getPriceOracle(
+  algod: algosdk.Algodv2,
+  deployment: CompoundingVaultDeploymentResult,
+): Promise<{
+  spotPrice: number;
+  twapPrice: number;
+  lastObservationTime: number;
+  maxPriceDeviationBps: number;
+}> {
+  const contract = new algosdk.ABIContract(deployment.arc56Spec);
+  const suggestedParams = await algod.getTransactionParams().do();
+  const appAddr = algosdk.getApplicationAddress(deployment.vaultAppId).toString();
+  const signer = algosdk.makeEmptyTransactionSigner();
+
+  const atc = new algosdk.AtomicTransactionComposer();
+  atc.addMethodCall({
+    appID: deployment.vaultAppId,
+    method: contract.getMethodByName('getPriceOracle'),
+    methodArgs: [],
+    sender: appAddr,
+    signer,
+    suggestedParams: { ...suggestedParams, fee: 1000, flatFee: true },
+  });
+
+  const result = await atc.simulate(algod, new algosdk.modelsv2.SimulateRequest({ txnGroups: [], allowEmptySignatures: true, allowUnnamedResources: true }));
+  const returnValue = result.methodResults[0].returnValue as bigint[];
+
+  return {
+    spotPrice: Number(returnValue[0]),
+    twapPrice: Number(returnValue[1]),
+    lastObservationTime: Number(returnValue[2]),
+    maxPriceDeviationBps: Number(returnValue[3]),
+  };
+}
+
 export async function getFarmStats(
   algod: algosdk.Algodv2,
   deployment: CompoundingVaultDeploymentResult,
@@ -890,6 +1734,8 @@ export async function getFarmStatsABI(
   farmBalance: number;
   emissionRatio: number;
   currentDynamicRate: number;
+  scheduledAmount: number;
+  scheduledRemaining: number;
 }> {
   const contract = new algosdk.ABIContract(deployment.arc56Spec);
   const suggestedParams = await algod.getTransactionParams().do();
@@ -913,6 +1759,8 @@ export async function getFarmStatsABI(
     farmBalance: Number(returnValue[0]),
     emissionRatio: Number(returnValue[1]),
     currentDynamicRate: Number(returnValue[2]),
+    scheduledAmount: Number(returnValue[3]),
+    scheduledRemaining: Number(returnValue[4]),
   };
 }
 
@@ -0,0 +1,470 @@
+import algosdk from 'algosdk';
+import fs from 'fs';
+import path from 'path';
+
+export const VAULT_TYPE_RAREFI = 1;
+export const VAULT_TYPE_COMPOUNDING = 2;
+export const VAULT_TYPE_FOLKS = 3;
+
+const PAGE_SIZE = 2048;            // Bytes per program page
+const PROGRAM_CHUNK_SIZE = 1800;   // Approval bytes per writeApprovalProgram call (app args max 2048)
+const BOX_IO_PER_REF = 1024;       // Box read/write quota added by each box reference
+const MAX_REFS_PER_TXN = 8;        // Max foreign refs + boxes per app call
+
+function safeToNumber(value: any): number {
+  if (typeof value === 'bigint') return Number(value);
+  if (typeof value === 'number') return value;
+  return parseInt(value) || 0;
+}
+
+async function compileContract(algodClient: algosdk.Algodv2, name: string) {
+  const artifactsDir = path.resolve(__dirname, '../../contracts/artifacts');
+
+  const approvalPath = path.join(artifactsDir, `${name}.approval.teal`);
+  const clearPath = path.join(artifactsDir, `${name}.clear.teal`);
+  const arc56Path = path.join(artifactsDir, `${name}.arc56.json`);
+
+  if (!fs.existsSync(approvalPath)) {
+    throw new Error(`Approval program not found: ${approvalPath}. Run 'npm run compile' first.`);
+  }
+
+  const approvalTeal = fs.readFileSync(approvalPath, 'utf8');
+  const clearTeal = fs.readFileSync(clearPath, 'utf8');
+  const arc56Spec = JSON.parse(fs.readFileSync(arc56Path, 'utf8'));
+
+  const approvalResponse = await algodClient.compile(approvalTeal).do();
+  const clearResponse = await algodClient.compile(clearTeal).do();
+
+  return {
+    approvalProgram: new Uint8Array(Buffer.from(approvalResponse.result, 'base64')),
+    clearProgram: new Uint8Array(Buffer.from(clearResponse.result, 'base64')),
+    arc56Spec,
+  };
+}
+
+const encodeUint64 = (n: number | bigint): Uint8Array => {
+  const buf = Buffer.alloc(8);
+  buf.writeBigUInt64BE(BigInt(n));
+  return new Uint8Array(buf);
+};
+
+const concatBytes = (...parts: Uint8Array[]): Uint8Array => new Uint8Array(Buffer.concat(parts));
+
+const signerFor = (account: { addr: string; sk: Uint8Array }) =>
+  algosdk.makeBasicAccountTransactionSigner({ sk: account.sk, addr: algosdk.decodeAddress(account.addr) });
+
+const toAccount = (account: { addr: string | algosdk.Address; sk: Uint8Array }) => ({
+  addr: typeof account.addr === 'string' ? account.addr : account.addr.toString(),
+  sk: account.sk,
+});
+
+// ============================================
+// Box names (must match RareFiVaultFactory key prefixes)
+// ============================================
+
+export const approvalBoxName = (vaultType: number) => concatBytes(Buffer.from('pa'), encodeUint64(vaultType));
+export const clearBoxName = (vaultType: number) => concatBytes(Buffer.from('pc'), encodeUint64(vaultType));
+export const templateBoxName = (vaultType: number) => concatBytes(Buffer.from('pt'), encodeUint64(vaultType));
+export const vaultBoxName = (vaultIndex: number) => concatBytes(Buffer.from('v'), encodeUint64(vaultIndex));
+export const creatorBoxName = (creator: string, vaultIndex: number) =>
+  concatBytes(Buffer.from('c'), algosdk.decodeAddress(creator).publicKey, encodeUint64(vaultIndex));
+export const depositAssetBoxName = (assetId: number, vaultIndex: number) =>
+  concatBytes(Buffer.from('d'), encodeUint64(assetId), encodeUint64(vaultIndex));
+export const swapAssetBoxName = (assetId: number, vaultIndex: number) =>
+  concatBytes(Buffer.from('s'), encodeUint64(assetId), encodeUint64(vaultIndex));
+
+export interface FactoryDeploymentResult {
+  factoryAppId: number;
+  factoryAddress: string;
+  rarefiAddress: string;
+  arc56Spec: any;
+}
+
+export interface VaultSchema {
+  globalUints: number;
+  globalBytes: number;
+  localUints: number;
+  localBytes: number;
+}
+
+export interface FactoryVaultInfo {
+  vaultType: number;
+  appId: number;
+  creator: string;
+  depositAsset: number;
+  swapAsset: number;
+  createdAt: number;
+}
+
+/**
+ * Add reserveBoxBudget calls to raise the group's box I/O quota by refCount references
+ */
+function addBoxBudgetCalls(
+  atc: algosdk.AtomicTransactionComposer,
+  factory: FactoryDeploymentResult,
+  account: { addr: string; sk: Uint8Array },
+  refCount: number,
+  suggestedParams: algosdk.SuggestedParams,
+) {
+  const contract = new algosdk.ABIContract(factory.arc56Spec);
+  for (let i = 0; refCount > 0; i++) {
+    const refs = Math.min(refCount, MAX_REFS_PER_TXN);
+    atc.addMethodCall({
+      appID: factory.factoryAppId,
+      method: contract.getMethodByName('reserveBoxBudget'),
+      methodArgs: [],
+      sender: account.addr,
+      signer: signerFor(account),
+      suggestedParams: { ...suggestedParams, fee: 1000, flatFee: true },
+      boxes: Array.from({ length: refs }, () => ({ appIndex: factory.factoryAppId, name: new Uint8Array() })),
+      note: new Uint8Array([i]), // Identical budget calls need distinct txids
+    });
+    refCount -= refs;
+  }
+}
+
+/**
+ * Box references needed to cover bytesTouched, beyond the named refs already in the group
+ */
+const extraRefsNeeded = (bytesTouched: number, namedRefs: number) =>
+  Math.max(0, Math.ceil(bytesTouched / BOX_IO_PER_REF) - namedRefs);
+
+export async function deployFactoryForTest(
+  algod: algosdk.Algodv2,
+  rarefi: { addr: string | algosdk.Address; sk: Uint8Array },
+  overrides?: {
+    creationFee?: number;
+  },
+): Promise<FactoryDeploymentResult> {
+  const rarefiAccount = toAccount(rarefi);
+  const compiled = await compileContract(algod, 'RareFiVaultFactory');
+  const contract = new algosdk.ABIContract(compiled.arc56Spec);
+  const creationFee = overrides?.creationFee ?? 1_000_000; // 1 ALGO default
+
+  const suggestedParams = await algod.getTransactionParams().do();
+  const atc = new algosdk.AtomicTransactionComposer();
+  atc.addMethodCall({
+    appID: 0,
+    method: contract.getMethodByName('createFactory'),
+    methodArgs: [rarefiAccount.addr, creationFee],
+    sender: rarefiAccount.addr,
+    signer: signerFor(rarefiAccount),
+    suggestedParams: { ...suggestedParams, fee: 1000, flatFee: true },
+    approvalProgram: compiled.approvalProgram,
+    clearProgram: compiled.clearProgram,
+    numGlobalByteSlices: 1, // rarefiAddress
+    numGlobalInts: 2, // creationFee, vaultCount
+    numLocalByteSlices: 0,
+    numLocalInts: 0,
+    extraPages: Math.ceil((compiled.approvalProgram.length + compiled.clearProgram.length) / PAGE_SIZE) - 1,
+  });
+
+  const result = await atc.execute(algod, 5);
+  const confirmed = await algod.pendingTransactionInformation(result.txIDs[0]).do();
+  const factoryAppId = safeToNumber(confirmed.applicationIndex);
+  const factoryAddress = algosdk.getApplicationAddress(factoryAppId).toString();
+
+  // Fund factory account minimum balance
+  const fundTxn = algosdk.makePaymentTxnWithSuggestedParamsFromObject({
+    sender: rarefiAccount.addr,
+    receiver: factoryAddress,
+    amount: 100_000, // 0.1 ALGO
+    suggestedParams: await algod.getTransactionParams().do(),
+  });
+  const fundTxID = await algod.sendRawTransaction(fundTxn.signTxn(rarefiAccount.sk)).do();
+  await algosdk.waitForConfirmation(algod, fundTxID.txid, 5);
+
+  return {
+    factoryAppId,
+    factoryAddress,
+    rarefiAddress: rarefiAccount.addr,
+    arc56Spec: compiled.arc56Spec,
+  };
+}
+
+/**
+ * Upload a compiled vault artifact as the factory template for vaultType (RareFi only).
+ * Funds the factory for the template box MBR.
+ */
+export async function uploadVaultTemplate(
+  algod: algosdk.Algodv2,
+  factory: FactoryDeploymentResult,
+  sender: { addr: string | algosdk.Address; sk: Uint8Array },
+  vaultType: number,
+  artifactName: string,
+  schema: VaultSchema,
+) {
+  const account = toAccount(sender);
+  const contract = new algosdk.ABIContract(factory.arc56Spec);
+  const compiled = await compileContract(algod, artifactName);
+  const approvalSize = compiled.approvalProgram.length;
+  const extraPages = Math.ceil((approvalSize + compiled.clearProgram.length) / PAGE_SIZE) - 1;
+
+  const boxes = [approvalBoxName(vaultType), clearBoxName(vaultType), templateBoxName(vaultType)];
+  const boxRefs = boxes.map((name) => ({ appIndex: factory.factoryAppId, name }));
+
+  // Template box MBR: 2500 + 400 * (key + value) per box
+  const templateMbr = 2_500 * 3 + 400 * (
+    boxes[0].length + approvalSize + boxes[1].length + compiled.clearProgram.length + boxes[2].length + 40
+  );
+  const fundTxn = algosdk.makePaymentTxnWithSuggestedParamsFromObject({
+    sender: account.addr,
+    receiver: factory.factoryAddress,
+    amount: templateMbr,
+    suggestedParams: await algod.getTransactionParams().do(),
+  });
+  const fundTxID = await algod.sendRawTransaction(fundTxn.signTxn(account.sk)).do();
+  await algosdk.waitForConfirmation(algod, fundTxID.txid, 5);
+
+  const bytesTouched = approvalSize + compiled.clearProgram.length + 40;
+
+  let suggestedParams = await algod.getTransactionParams().do();
+  const setAtc = new algosdk.AtomicTransactionComposer();
+  setAtc.addMethodCall({
+    appID: factory.factoryAppId,
+    method: contract.getMethodByName('setVaultTemplate'),
+    methodArgs: [
+      vaultType,
+      approvalSize,
+      compiled.clearProgram,
+      schema.globalUints,
+      schema.globalBytes,
+      schema.localUints,
+      schema.localBytes,
+      extraPages,
+    ],
+    sender: account.addr,
+    signer: signerFor(account),
+    suggestedParams: { ...suggestedParams, fee: 1000, flatFee: true },
+    boxes: boxRefs,
+  });
+  addBoxBudgetCalls(setAtc, factory, account, extraRefsNeeded(bytesTouched, boxRefs.length), suggestedParams);
+  await setAtc.execute(algod, 5);
+
+  for (let offset = 0; offset < approvalSize; offset += PROGRAM_CHUNK_SIZE) {
+    suggestedParams = await algod.getTransactionParams().do();
+    const writeAtc = new algosdk.AtomicTransactionComposer();
+    writeAtc.addMethodCall({
+      appID: factory.factoryAppId,
+      method: contract.getMethodByName('writeApprovalProgram'),
+      methodArgs: [vaultType, offset, compiled.approvalProgram.slice(offset, offset + PROGRAM_CHUNK_SIZE)],
+      sender: account.addr,
+      signer: signerFor(account),
+      suggestedParams: { ...suggestedParams, fee: 1000, flatFee: true },
+      boxes: [boxRefs[0]],
+    });
+    addBoxBudgetCalls(writeAtc, factory, account, extraRefsNeeded(approvalSize, 1), suggestedParams);
+    await writeAtc.execute(algod, 5);
+  }
+
+  return { arc56Spec: compiled.arc56Spec, approvalSize, clearSize: compiled.clearProgram.length };
+}
+
+/**
+ * Create a RareFiVault through the factory. The vault's assets are not opted in;
+ * the caller does that directly on the vault (see performFactoryVaultOptIn).
+ */
+export async function performCreateRareFiVault(
+  algod: algosdk.Algodv2,
+  factory: FactoryDeploymentResult,
+  user: { addr: string | algosdk.Address; sk: Uint8Array },
+  params: {
+    depositAssetId: number;
+    yieldAssetId: number;
+    swapAssetId: number;
+    creatorFeeRate: number;
+    minSwapThreshold: number;
+    maxSlippageBps: number;
+    tinymanPoolAppId: number;
+    tinymanPoolAddress: string;
+    hopPoolAppId?: number;      // Defaults to 0 (direct swap)
+    hopPoolAddress?: string;
+  },
+  paymentAmount?: number, // Defaults to getCreationCost(VAULT_TYPE_RAREFI)
+): Promise<{ vaultAppId: number; vaultAddress: string; vaultIndex: number }> {
+  const account = toAccount(user);
+  const contract = new algosdk.ABIContract(factory.arc56Spec);
+  const vaultIndex = (await getFactoryStats(algod, factory)).vaultCount;
+  const approvalSize = await getBoxSize(algod, factory, approvalBoxName(VAULT_TYPE_RAREFI));
+  const payment = paymentAmount ?? await getCreationCost(algod, factory, VAULT_TYPE_RAREFI);
+
+  const boxRefs = [
+    approvalBoxName(VAULT_TYPE_RAREFI),
+    clearBoxName(VAULT_TYPE_RAREFI),
+    templateBoxName(VAULT_TYPE_RAREFI),
+    vaultBoxName(vaultIndex),
+    creatorBoxName(account.addr, vaultIndex),
+    depositAssetBoxName(params.depositAssetId, vaultIndex),
+    swapAssetBoxName(params.swapAssetId, vaultIndex),
+  ].map((name) => ({ appIndex: factory.factoryAppId, name }));
+
+  const suggestedParams = await algod.getTransactionParams().do();
+  const atc = new algosdk.AtomicTransactionComposer();
+
+  // Budget calls go first: the payment must immediately precede the create call
+  addBoxBudgetCalls(atc, factory, account, extraRefsNeeded(approvalSize + 1024, boxRefs.length), suggestedParams);
+
+  const paymentTxn = algosdk.makePaymentTxnWithSuggestedParamsFromObject({
+    sender: account.addr,
+    receiver: factory.factoryAddress,
+    amount: payment,
+    suggestedParams: { ...suggestedParams, fee: 1000, flatFee: true },
+  });
+  atc.addTransaction({ txn: paymentTxn, signer: signerFor(account) });
+
+  atc.addMethodCall({
+    appID: factory.factoryAppId,
+    method: contract.getMethodByName('createRareFiVault'),
+    methodArgs: [
+      params.depositAssetId,
+      params.yieldAssetId,
+      params.swapAssetId,
+      params.creatorFeeRate,
+      params.minSwapThreshold,
+      params.maxSlippageBps,
+      params.tinymanPoolAppId,
+      params.tinymanPoolAddress,
+      params.hopPoolAppId ?? 0,
+      params.hopPoolAddress ?? algosdk.ALGORAND_ZERO_ADDRESS_STRING,
+    ],
+    sender: account.addr,
+    signer: signerFor(account),
+    suggestedParams: { ...suggestedParams, fee: 4000, flatFee: true }, // outer + fee payment + app create + creator handover
+    appAccounts: [factory.rarefiAddress],
+    boxes: boxRefs,
+  });
+
+  const result = await atc.execute(algod, 5);
+  const vaultAppId = safeToNumber(result.methodResults[result.methodResults.length - 1].returnValue);
+
+  return { vaultAppId, vaultAddress: algosdk.getApplicationAddress(vaultAppId).toString(), vaultIndex };
+}
+
+/**
+ * Creator funds a factory-created RareFiVault and opts it into its assets
+ */
+export async function performFactoryVaultOptIn(
+  algod: algosdk.Algodv2,
+  vaultAppId: number,
+  vaultArc56Spec: any,
+  creator: { addr: string | algosdk.Address; sk: Uint8Array },
+  assetIds: number[],
+) {
+  const account = toAccount(creator);
+  const vaultContract = new algosdk.ABIContract(vaultArc56Spec);
+  const vaultAddress = algosdk.getApplicationAddress(vaultAppId).toString();
+  const suggestedParams = await algod.getTransactionParams().do();
+
+  const atc = new algosdk.AtomicTransactionComposer();
+  atc.addTransaction({
+    txn: algosdk.makePaymentTxnWithSuggestedParamsFromObject({
+      sender: account.addr,
+      receiver: vaultAddress,
+      amount: 5_500_000, // 5.5 ALGO setup payment
+      suggestedParams: { ...suggestedParams, fee: 1000, flatFee: true },
+    }),
+    signer: signerFor(account),
+  });
+  atc.addMethodCall({
+    appID: vaultAppId,
+    method: vaultContract.getMethodByName('optInAssets'),
+    methodArgs: [],
+    sender: account.addr,
+    signer: signerFor(account),
+    suggestedParams: { ...suggestedParams, fee: 1000 * (1 + assetIds.length), flatFee: true },
+    appForeignAssets: assetIds,
+  });
+
+  await atc.execute(algod, 5);
+}
+
+async function getBoxSize(algod: algosdk.Algodv2, factory: FactoryDeploymentResult, name: Uint8Array): Promise<number> {
+  const box = await algod.getApplicationBoxByName(factory.factoryAppId, name).do();
+  return box.value.length;
+}
+
+async function simulateFactoryMethod(
+  algod: algosdk.Algodv2,
+  factory: FactoryDeploymentResult,
+  methodName: string,
+  methodArgs: algosdk.ABIArgument[],
+) {
+  const contract = new algosdk.ABIContract(factory.arc56Spec);
+  const suggestedParams = await algod.getTransactionParams().do();
+
+  const atc = new algosdk.AtomicTransactionComposer();
+  atc.addMethodCall({
+    appID: factory.factoryAppId,
+    method: contract.getMethodByName(methodName),
+    methodArgs,
+    sender: factory.rarefiAddress,
+    signer: algosdk.makeEmptyTransactionSigner(),
+    suggestedParams: { ...suggestedParams, fee: 1000, flatFee: true },
+  });
+
+  const result = await atc.simulate(algod, new algosdk.modelsv2.SimulateRequest({
+    txnGroups: [],
+    allowEmptySignatures: true,
+    allowUnnamedResources: true,
+  }));
+  return result.methodResults[0].returnValue;
+}
+
+export async function getCreationCost(
+  algod: algosdk.Algodv2,
+  factory: FactoryDeploymentResult,
+  vaultType: number,
+): Promise<number> {
+  return safeToNumber(await simulateFactoryMethod(algod, factory, 'getCreationCost', [vaultType]));
+}
+
+export async function getFactoryStats(
+  algod: algosdk.Algodv2,
+  factory: FactoryDeploymentResult,
+): Promise<{ creationFee: number; vaultCount: number }> {
+  const [creationFee, vaultCount] = (await simulateFactoryMethod(algod, factory, 'getFactoryStats', [])) as any[];
+  return { creationFee: safeToNumber(creationFee), vaultCount: safeToNumber(vaultCount) };
+}
+
+export async function getVault(
+  algod: algosdk.Algodv2,
+  factory: FactoryDeploymentResult,
+  vaultIndex: number,
+): Promise<FactoryVaultInfo> {
+  const [vaultType, appId, creator, depositAsset, swapAsset, createdAt] =
+    (await simulateFactoryMethod(algod, factory, 'getVault', [vaultIndex])) as any[];
+  return {
+    vaultType: safeToNumber(vaultType),
+    appId: safeToNumber(appId),
+    creator: creator.toString(),
+    depositAsset: safeToNumber(depositAsset),
+    swapAsset: safeToNumber(swapAsset),
+    createdAt: safeToNumber(createdAt),
+  };
+}
+
+/**
+ * Registry box names under a prefix (e.g. 'c' for vaults by creator)
+ */
+export async function listRegistryBoxes(
+  algod: algosdk.Algodv2,
+  factory: FactoryDeploymentResult,
+  prefix: string,
+): Promise<Uint8Array[]> {
+  const response = await algod.getApplicationBoxes(factory.factoryAppId).do();
+  return response.boxes
+    .map((box) => box.name)
+    .filter((name) => Buffer.from(name).subarray(0, prefix.length).toString() === prefix);
+}
+
+/**
+ * Read a registry index box value (vault app ID)
+ */
+export async function getRegistryEntry(
+  algod: algosdk.Algodv2,
+  factory: FactoryDeploymentResult,
+  name: Uint8Array,
+): Promise<number> {
+  const box = await algod.getApplicationBoxByName(factory.factoryAppId, name).do();
+  return Number(Buffer.from(box.value).readBigUInt64BE(0));
+}
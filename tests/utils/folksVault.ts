@@ -0,0 +1,1638 @@
+import algosdk from 'algosdk';
+import fs from 'fs';
+import path from 'path';
+import { createTestAsset, optInToAsset } from './assets';
+import { deployMockPoolWithAssets } from './vault';
+
+export const TOKEN_SUPPLY = 100_000_000_000_000; // 100M tokens with 6 decimals
+export const TOKEN_DECIMALS = 6;
+export const INTEREST_INDEX_ONE = 100_000_000_000_000; // 1e14 = 1.0 (Folks interest index precision)
+export const POSITION_MBR = 38_100; // 2500 + 400 * (33 key + 56 value)
+export const CLAIM_SETTINGS_MBR = 41_300; // 2500 + 400 * (33 key + 64 value)
+const PAGE_SIZE = 2048; // Bytes per program page
+
+function safeToNumber(value: any): number {
+  if (typeof value === 'bigint') return Number(value);
+  if (typeof value === 'number') return value;
+  return parseInt(value) || 0;
+}
+
+async function compileContract(algodClient: algosdk.Algodv2, name: string) {
+  const artifactsDir = path.resolve(__dirname, '../../contracts/artifacts');
+
+  const approvalPath = path.join(artifactsDir, `${name}.approval.teal`);
+  const clearPath = path.join(artifactsDir, `${name}.clear.teal`);
+  const arc56Path = path.join(artifactsDir, `${name}.arc56.json`);
+
+  if (!fs.existsSync(approvalPath)) {
+    throw new Error(`Approval program not found: ${approvalPath}. Run 'npm run compile' first.`);
+  }
+
+  const approvalTeal = fs.readFileSync(approvalPath, 'utf8');
+  const clearTeal = fs.readFileSync(clearPath, 'utf8');
+  const arc56Spec = JSON.parse(fs.readFileSync(arc56Path, 'utf8'));
+
+  const approvalResponse = await algodClient.compile(approvalTeal).do();
+  const clearResponse = await algodClient.compile(clearTeal).do();
+
+  return {
+    approvalProgram: new Uint8Array(Buffer.from(approvalResponse.result, 'base64')),
+    clearProgram: new Uint8Array(Buffer.from(clearResponse.result, 'base64')),
+    arc56Spec,
+  };
+}
+
+async function readGlobalState(algod: algosdk.Algodv2, appId: number): Promise<Record<string, number>> {
+  const appInfo = await algod.getApplicationByID(appId).do();
+  const globalState: Record<string, number> = {};
+
+  for (const kv of appInfo.params?.globalState || []) {
+    let key: string;
+    if (kv.key instanceof Uint8Array) {
+      key = new TextDecoder().decode(kv.key);
+    } else {
+      key = Buffer.from(kv.key as string, 'base64').toString('utf8');
+    }
+    if (kv.value.type === 2) {
+      globalState[key] = safeToNumber(kv.value.uint);
+    }
+  }
+
+  return globalState;
+}
+
+/**
+ * Box name of a user's position: 'p' + 32-byte address
+ */
+export function positionBoxName(userAddr: string): Uint8Array {
+  return new Uint8Array(Buffer.concat([Buffer.from('p'), algosdk.decodeAddress(userAddr).publicKey]));
+}
+
+function positionBoxRef(deployment: FolksVaultDeploymentResult, userAddr: string) {
+  return [{ appIndex: deployment.vaultAppId, name: positionBoxName(userAddr) }];
+}
+
+/**
+ * Box name of a user's claim settings: 'c' + 32-byte address
+ */
+export function claimSettingsBoxName(userAddr: string): Uint8Array {
+  return new Uint8Array(Buffer.concat([Buffer.from('c'), algosdk.decodeAddress(userAddr).publicKey]));
+}
+
+function claimBoxRefs(deployment: FolksVaultDeploymentResult, userAddr: string) {
+  return [...positionBoxRef(deployment, userAddr), { appIndex: deployment.vaultAppId, name: claimSettingsBoxName(userAddr) }];
+}
+
+export interface FolksVaultDeploymentResult {
+  vaultAppId: number;
+  vaultAddress: string;
+  usdcAssetId: number;            // deposit asset (Folks underlying)
+  fTokenAssetId: number;          // fUSDC minted by MockFolksLendingPool
+  ibusAssetId: number;            // swap asset (project token)
+  folksPoolAppId: number;         // MockFolksLendingPool app ID
+  folksPoolAddress: string;       // MockFolksLendingPool app address
+  folksPoolManagerAppId: number;  // MockFolksPoolManager app ID
+  poolAppId: number;              // MockTinymanPool app ID (USDC/IBUS)
+  poolAddress: string;            // MockTinymanPool state holder address
+  arc56Spec: any;
+  folksPoolArc56Spec: any;
+}
+
+export async function deployFolksVaultForTest(
+  algod: algosdk.Algodv2,
+  creator: { addr: string | algosdk.Address; sk: Uint8Array },
+  overrides?: {
+    creatorFeeRate?: number;
+    minSwapThreshold?: number;
+    usdcSupply?: number;
+    ibusSupply?: number;
+    folksLiquidity?: number;     // Extra USDC in the Folks pool to pay out accrued interest
+    poolFeeBps?: number;         // Tinyman pool fee in basis points (default 30 = 0.3%)
+    poolReserveUsdc?: number;    // Initial USDC reserve in Tinyman pool
+    poolReserveIbus?: number;    // Initial IBUS reserve in Tinyman pool
+    maxPriceDeviationBps?: number; // Spot-vs-TWAP swap limit (default 10000 = 100% for testing)
+  },
+): Promise<FolksVaultDeploymentResult> {
+  const creatorAddr = typeof creator.addr === 'string' ? creator.addr : creator.addr.toString();
+  const creatorAccount = { addr: creatorAddr, sk: creator.sk };
+  const signer = algosdk.makeBasicAccountTransactionSigner({ sk: creator.sk, addr: algosdk.decodeAddress(creatorAddr) });
+
+  // Create test assets
+  const usdcAssetId = await createTestAsset(
+    algod,
+    creatorAccount,
+    'USDC-Test',
+    'USDCt',
+    overrides?.usdcSupply ?? TOKEN_SUPPLY,
+  );
+
+  const ibusAssetId = await createTestAsset(
+    algod,
+    creatorAccount,
+    'IBUS-Test',
+    'IBUSt',
+    overrides?.ibusSupply ?? TOKEN_SUPPLY,
+  );
+
+  // Parameters
+  const creatorFeeRate = overrides?.creatorFeeRate ?? 5; // 5% default (max 6%)
+  const minSwapThreshold = overrides?.minSwapThreshold ?? 2_000_000; // 2 USDC default
+  const folksLiquidity = overrides?.folksLiquidity ?? 10_000_000_000; // 10,000 USDC
+  const poolFeeBps = overrides?.poolFeeBps ?? 30; // 0.3% default
+  const poolReserveUsdc = overrides?.poolReserveUsdc ?? 10_000_000_000; // 10,000 USDC
+  const poolReserveIbus = overrides?.poolReserveIbus ?? 10_000_000_000; // 10,000 IBUS
+
+  // ========================================
+  // Step 1: Deploy MockFolksPoolManager
+  // ========================================
+  const managerCompiled = await compileContract(algod, 'MockFolksPoolManager');
+
+  let suggestedParams = await algod.getTransactionParams().do();
+  const createManagerTxn = algosdk.makeApplicationCreateTxnFromObject({
+    sender: creatorAddr,
+    approvalProgram: managerCompiled.approvalProgram,
+    clearProgram: managerCompiled.clearProgram,
+    numGlobalByteSlices: 0,
+    numGlobalInts: 0,
+    numLocalByteSlices: 0,
+    numLocalInts: 0,
+    suggestedParams: { ...suggestedParams, fee: 1000, flatFee: true },
+    onComplete: algosdk.OnApplicationComplete.NoOpOC,
+  });
+  const createManagerTxID = await algod.sendRawTransaction(createManagerTxn.signTxn(creator.sk)).do();
+  const managerConfirmedTxn = await algosdk.waitForConfirmation(algod, createManagerTxID.txid, 5);
+  const folksPoolManagerAppId = safeToNumber(managerConfirmedTxn.applicationIndex);
+
+  // ========================================
+  // Step 2: Deploy MockFolksLendingPool (USDC -> fUSDC)
+  // ========================================
+  const folksCompiled = await compileContract(algod, 'MockFolksLendingPool');
+  const folksContract = new algosdk.ABIContract(folksCompiled.arc56Spec);
+
+  suggestedParams = await algod.getTransactionParams().do();
+  const folksAtc = new algosdk.AtomicTransactionComposer();
+  folksAtc.addMethodCall({
+    appID: 0,
+    method: folksContract.getMethodByName('createPool'),
+    methodArgs: [usdcAssetId, folksPoolManagerAppId],
+    sender: creatorAddr,
+    signer,
+    suggestedParams: { ...suggestedParams, fee: 1000, flatFee: true },
+    approvalProgram: folksCompiled.approvalProgram,
+    clearProgram: folksCompiled.clearProgram,
+    numGlobalByteSlices: 0,
+    numGlobalInts: 5, // underlyingAsset, fTokenAsset, poolManagerAppId, depositInterestIndex, withdrawalsPaused
+    numLocalByteSlices: 0,
+    numLocalInts: 0,
+  });
+  const folksResult = await folksAtc.execute(algod, 5);
+  const folksConfirmedTxn = await algod.pendingTransactionInformation(folksResult.txIDs[0]).do();
+  const folksPoolAppId = safeToNumber(folksConfirmedTxn.applicationIndex);
+  const folksPoolAddress = algosdk.getApplicationAddress(folksPoolAppId).toString();
+
+  // Fund Folks pool for MBR (account + underlying opt-in + created fToken)
+  suggestedParams = await algod.getTransactionParams().do();
+  const fundFolksTxn = algosdk.makePaymentTxnWithSuggestedParamsFromObject({
+    sender: creatorAddr,
+    receiver: folksPoolAddress,
+    amount: 1_000_000, // 1 ALGO
+    suggestedParams,
+  });
+  const fundFolksTxID = await algod.sendRawTransaction(fundFolksTxn.signTxn(creator.sk)).do();
+  await algosdk.waitForConfirmation(algod, fundFolksTxID.txid, 5);
+
+  // Pool opts into USDC and mints the fToken ASA
+  suggestedParams = await algod.getTransactionParams().do();
+  const initFolksAtc = new algosdk.AtomicTransactionComposer();
+  initFolksAtc.addMethodCall({
+    appID: folksPoolAppId,
+    method: folksContract.getMethodByName('initializePool'),
+    methodArgs: [],
+    sender: creatorAddr,
+    signer,
+    suggestedParams: { ...suggestedParams, fee: 3000, flatFee: true }, // 1 outer + opt-in + asset create
+    appForeignAssets: [usdcAssetId],
+  });
+  const initFolksResult = await initFolksAtc.execute(algod, 5);
+  const fTokenAssetId = safeToNumber(initFolksResult.methodResults[0].returnValue);
+
+  // Seed Folks pool with USDC liquidity so accrued interest can be paid out
+  suggestedParams = await algod.getTransactionParams().do();
+  const fundFolksUsdcTxn = algosdk.makeAssetTransferTxnWithSuggestedParamsFromObject({
+    sender: creatorAddr,
+    receiver: folksPoolAddress,
+    amount: folksLiquidity,
+    assetIndex: usdcAssetId,
+    suggestedParams,
+  });
+  const fundFolksUsdcTxID = await algod.sendRawTransaction(fundFolksUsdcTxn.signTxn(creator.sk)).do();
+  await algosdk.waitForConfirmation(algod, fundFolksUsdcTxID.txid, 5);
+
+  // ========================================
+  // Step 3: Deploy MockTinymanPool (USDC/IBUS)
+  // ========================================
+  const { poolAppId, poolAddress } = await deployMockPoolWithAssets(
+    algod,
+    creator,
+    usdcAssetId,
+    ibusAssetId,
+    poolReserveUsdc,
+    poolReserveIbus,
+    poolFeeBps,
+  );
+  const poolAppAddress = algosdk.getApplicationAddress(poolAppId).toString();
+
+  // Pool opts into assets (raw app args)
+  suggestedParams = await algod.getTransactionParams().do();
+  const poolOptInTxn = algosdk.makeApplicationCallTxnFromObject({
+    sender: creatorAddr,
+    appIndex: poolAppId,
+    onComplete: algosdk.OnApplicationComplete.NoOpOC,
+    appArgs: [new TextEncoder().encode('optInAssets')],
+    foreignAssets: [usdcAssetId, ibusAssetId],
+    suggestedParams: { ...suggestedParams, fee: 3000, flatFee: true },
+  });
+  const poolOptInTxID = await algod.sendRawTransaction(poolOptInTxn.signTxn(creator.sk)).do();
+  await algosdk.waitForConfirmation(algod, poolOptInTxID.txid, 5);
+
+  // Fund pool with IBUS liquidity (so it can swap USDC -> IBUS)
+  suggestedParams = await algod.getTransactionParams().do();
+  const fundPoolIbusTxn = algosdk.makeAssetTransferTxnWithSuggestedParamsFromObject({
+    sender: creatorAddr,
+    receiver: poolAppAddress,
+    amount: poolReserveIbus,
+    assetIndex: ibusAssetId,
+    suggestedParams,
+  });
+  const fundPoolIbusTxID = await algod.sendRawTransaction(fundPoolIbusTxn.signTxn(creator.sk)).do();
+  await algosdk.waitForConfirmation(algod, fundPoolIbusTxID.txid, 5);
+
+  // ========================================
+  // Step 4: Deploy RareFiFolksVault
+  // ========================================
+  const vaultCompiled = await compileContract(algod, 'RareFiFolksVault');
+  const vaultContract = new algosdk.ABIContract(vaultCompiled.arc56Spec);
+
+  suggestedParams = await algod.getTransactionParams().do();
+  const vaultAtc = new algosdk.AtomicTransactionComposer();
+  vaultAtc.addMethodCall({
+    appID: 0,
+    method: vaultContract.getMethodByName('createVault'),
+    methodArgs: [
+      usdcAssetId,
+      fTokenAssetId,
+      ibusAssetId,
+      folksPoolAppId,
+      folksPoolAddress,
+      folksPoolManagerAppId,
+      poolAppId,
+      poolAddress, // Use state holder (where pool state is in local state)
+      creatorFeeRate,
+      minSwapThreshold,
+      5000, // maxSlippageBps (50% for testing)
+      creatorAddr, // rarefiAddress = creator for testing
+    ],
+    sender: creatorAddr,
+    signer,
+    suggestedParams: { ...suggestedParams, fee: 1000, flatFee: true },
+    approvalProgram: vaultCompiled.approvalProgram,
+    clearProgram: vaultCompiled.clearProgram,
+    numGlobalByteSlices: 7, // folksPoolAddress, tinymanPoolAddress, creatorAddress, rarefiAddress, guardianAddress, farmSchedules, lockTiers
+    numGlobalInts: 30, // depositAsset, fTokenAsset, swapAsset, folksPoolAppId, folksPoolManagerAppId, tinymanPoolAppId, creatorFeeRate, creatorUnclaimedYield, totalDeposits, totalWeight, totalPrincipalFTokens, fTokenRate, yieldPerToken, totalYieldGenerated, minSwapThreshold, maxSlippageBps, farmBalance, emissionRatio, assetsOptedIn, pausedUntil, priceCumulative, lastSpotPrice, lastObservationTime, twapAnchorCumulative, twapAnchorTime, twapPrice, twapSeedRound, maxPriceDeviationBps, exitFeeBps, exitFeePeriod
+    numLocalByteSlices: 0,
+    numLocalInts: 0, // user positions live in boxes
+    extraPages: Math.ceil((vaultCompiled.approvalProgram.length + vaultCompiled.clearProgram.length) / PAGE_SIZE) - 1,
+  });
+
+  const vaultResult = await vaultAtc.execute(algod, 5);
+  const vaultConfirmedTxn = await algod.pendingTransactionInformation(vaultResult.txIDs[0]).do();
+  const vaultAppId = safeToNumber(vaultConfirmedTxn.applicationIndex);
+  const vaultAddress = algosdk.getApplicationAddress(vaultAppId).toString();
+
+  // Vault opts into USDC, fUSDC and IBUS
+  const paymentTxn = algosdk.makePaymentTxnWithSuggestedParamsFromObject({
+    sender: creatorAddr,
+    receiver: vaultAddress,
+    amount: 5_500_000, // 5.5 ALGO
+    suggestedParams: { ...(await algod.getTransactionParams().do()), fee: 1000, flatFee: true },
+  });
+
+  const vaultOptInAtc = new algosdk.AtomicTransactionComposer();
+  vaultOptInAtc.addTransaction({ txn: paymentTxn, signer });
+  vaultOptInAtc.addMethodCall({
+    appID: vaultAppId,
+    method: vaultContract.getMethodByName('optInAssets'),
+    methodArgs: [],
+    sender: creatorAddr,
+    signer,
+    suggestedParams: { ...(await algod.getTransactionParams().do()), fee: 4000, flatFee: true }, // 1 outer + 3 asset opt-ins
+    appForeignAssets: [usdcAssetId, fTokenAssetId, ibusAssetId],
+  });
+
+  await vaultOptInAtc.execute(algod, 5);
+
+  const deployment: FolksVaultDeploymentResult = {
+    vaultAppId,
+    vaultAddress,
+    usdcAssetId,
+    fTokenAssetId,
+    ibusAssetId,
+    folksPoolAppId,
+    folksPoolAddress,
+    folksPoolManagerAppId,
+    poolAppId,
+    poolAddress, // State holder address (where pool state is stored)
+    arc56Spec: vaultCompiled.arc56Spec,
+    folksPoolArc56Spec: folksCompiled.arc56Spec,
+  };
+
+  // Spot-vs-TWAP limit: 100% for testing (back-to-back test swaps move the mock pool far faster than the TWAP window)
+  await performUpdateMaxPriceDeviation(algod, deployment, creator, overrides?.maxPriceDeviationBps ?? 10_000);
+
+  return deployment;
+}
+
+export async function performUserOptIn(
+  algod: algosdk.Algodv2,
+  deployment: FolksVaultDeploymentResult,
+  user: { addr: string | algosdk.Address; sk: Uint8Array },
+  mbrAmount: number = POSITION_MBR,
+) {
+  const contract = new algosdk.ABIContract(deployment.arc56Spec);
+  const suggestedParams = await algod.getTransactionParams().do();
+  const userAddr = typeof user.addr === 'string' ? user.addr : user.addr.toString();
+  const signer = algosdk.makeBasicAccountTransactionSigner({
+    sk: user.sk,
+    addr: algosdk.decodeAddress(userAddr),
+  });
+
+  const atc = new algosdk.AtomicTransactionComposer();
+
+  // Position box MBR payment first
+  const mbrPayment = algosdk.makePaymentTxnWithSuggestedParamsFromObject({
+    sender: userAddr,
+    receiver: deployment.vaultAddress,
+    amount: mbrAmount,
+    suggestedParams,
+  });
+  atc.addTransaction({ txn: mbrPayment, signer });
+
+  atc.addMethodCall({
+    appID: deployment.vaultAppId,
+    method: contract.getMethodByName('optIn'),
+    methodArgs: [],
+    sender: userAddr,
+    signer,
+    suggestedParams: { ...suggestedParams, fee: 1000, flatFee: true },
+    boxes: positionBoxRef(deployment, userAddr),
+  });
+
+  await atc.execute(algod, 5);
+}
+
+export async function performDeposit(
+  algod: algosdk.Algodv2,
+  deployment: FolksVaultDeploymentResult,
+  user: { addr: string | algosdk.Address; sk: Uint8Array },
+  amount: number,
+) {
+  const contract = new algosdk.ABIContract(deployment.arc56Spec);
+  const suggestedParams = await algod.getTransactionParams().do();
+  const userAddr = typeof user.addr === 'string' ? user.addr : user.addr.toString();
+  const signer = algosdk.makeBasicAccountTransactionSigner({
+    sk: user.sk,
+    addr: algosdk.decodeAddress(userAddr),
+  });
+
+  const atc = new algosdk.AtomicTransactionComposer();
+
+  // Asset transfer first
+  const usdcTransfer = algosdk.makeAssetTransferTxnWithSuggestedParamsFromObject({
+    sender: userAddr,
+    receiver: deployment.vaultAddress,
+    amount: amount,
+    assetIndex: deployment.usdcAssetId,
+    suggestedParams,
+  });
+  atc.addTransaction({ txn: usdcTransfer, signer });
+
+  // Then deposit call - vault forwards USDC to Folks and receives fUSDC
+  atc.addMethodCall({
+    appID: deployment.vaultAppId,
+    method: contract.getMethodByName('deposit'),
+    methodArgs: [],
+    sender: userAddr,
+    signer,
+    suggestedParams: { ...suggestedParams, fee: 4000, flatFee: true }, // outer + axfer + Folks appcall + fToken issue
+    appForeignAssets: [deployment.usdcAssetId, deployment.fTokenAssetId],
+    appForeignApps: [deployment.folksPoolAppId, deployment.folksPoolManagerAppId, deployment.poolAppId],
+    appAccounts: [deployment.poolAddress], // Tinyman pool read for the TWAP observation
+    boxes: positionBoxRef(deployment, userAddr),
+  });
+
+  await atc.execute(algod, 5);
+}
+
+/**
+ * Deposit funded by the sender and credited to the beneficiary's position
+ */
+export async function performDepositFor(
+  algod: algosdk.Algodv2,
+  deployment: FolksVaultDeploymentResult,
+  sender: { addr: string | algosdk.Address; sk: Uint8Array },
+  beneficiaryAddr: string,
+  amount: number,
+) {
+  const contract = new algosdk.ABIContract(deployment.arc56Spec);
+  const suggestedParams = await algod.getTransactionParams().do();
+  const senderAddr = typeof sender.addr === 'string' ? sender.addr : sender.addr.toString();
+  const signer = algosdk.makeBasicAccountTransactionSigner({
+    sk: sender.sk,
+    addr: algosdk.decodeAddress(senderAddr),
+  });
+
+  const atc = new algosdk.AtomicTransactionComposer();
+  const usdcTransfer = algosdk.makeAssetTransferTxnWithSuggestedParamsFromObject({
+    sender: senderAddr,
+    receiver: deployment.vaultAddress,
+    amount: amount,
+    assetIndex: deployment.usdcAssetId,
+    suggestedParams,
+  });
+  atc.addTransaction({ txn: usdcTransfer, signer });
+
+  atc.addMethodCall({
+    appID: deployment.vaultAppId,
+    method: contract.getMethodByName('depositFor'),
+    methodArgs: [beneficiaryAddr],
+    sender: senderAddr,
+    signer,
+    suggestedParams: { ...suggestedParams, fee: 4000, flatFee: true }, // outer + axfer + Folks appcall + fToken issue
+    appForeignAssets: [deployment.usdcAssetId, deployment.fTokenAssetId],
+    appForeignApps: [deployment.folksPoolAppId, deployment.folksPoolManagerAppId, deployment.poolAppId],
+    appAccounts: [deployment.poolAddress], // Tinyman pool read for the TWAP observation
+    boxes: positionBoxRef(deployment, beneficiaryAddr),
+  });
+
+  await atc.execute(algod, 5);
+}
+
+/**
+ * Deposit locked for a lock tier; the whole position earns at the tier's boost until the lock expires
+ */
+export async function performDepositLocked(
+  algod: algosdk.Algodv2,
+  deployment: FolksVaultDeploymentResult,
+  user: { addr: string | algosdk.Address; sk: Uint8Array },
+  amount: number,
+  lockDuration: number,
+) {
+  const contract = new algosdk.ABIContract(deployment.arc56Spec);
+  const suggestedParams = await algod.getTransactionParams().do();
+  const userAddr = typeof user.addr === 'string' ? user.addr : user.addr.toString();
+  const signer = algosdk.makeBasicAccountTransactionSigner({
+    sk: user.sk,
+    addr: algosdk.decodeAddress(userAddr),
+  });
+
+  const atc = new algosdk.AtomicTransactionComposer();
+
+  const usdcTransfer = algosdk.makeAssetTransferTxnWithSuggestedParamsFromObject({
+    sender: userAddr,
+    receiver: deployment.vaultAddress,
+    amount: amount,
+    assetIndex: deployment.usdcAssetId,
+    suggestedParams,
+  });
+  atc.addTransaction({ txn: usdcTransfer, signer });
+
+  atc.addMethodCall({
+    appID: deployment.vaultAppId,
+    method: contract.getMethodByName('depositLocked'),
+    methodArgs: [lockDuration],
+    sender: userAddr,
+    signer,
+    suggestedParams: { ...suggestedParams, fee: 4000, flatFee: true }, // outer + axfer + Folks appcall + fToken issue
+    appForeignAssets: [deployment.usdcAssetId, deployment.fTokenAssetId],
+    appForeignApps: [deployment.folksPoolAppId, deployment.folksPoolManagerAppId, deployment.poolAppId],
+    appAccounts: [deployment.poolAddress], // Tinyman pool read for the TWAP observation
+    boxes: positionBoxRef(deployment, userAddr),
+  });
+
+  await atc.execute(algod, 5);
+}
+
+export async function performWithdraw(
+  algod: algosdk.Algodv2,
+  deployment: FolksVaultDeploymentResult,
+  user: { addr: string | algosdk.Address; sk: Uint8Array },
+  amount: number, // 0 = withdraw all
+) {
+  const contract = new algosdk.ABIContract(deployment.arc56Spec);
+  const suggestedParams = await algod.getTransactionParams().do();
+  const userAddr = typeof user.addr === 'string' ? user.addr : user.addr.toString();
+  const signer = algosdk.makeBasicAccountTransactionSigner({
+    sk: user.sk,
+    addr: algosdk.decodeAddress(userAddr),
+  });
+
+  const atc = new algosdk.AtomicTransactionComposer();
+  atc.addMethodCall({
+    appID: deployment.vaultAppId,
+    method: contract.getMethodByName('withdraw'),
+    methodArgs: [amount],
+    sender: userAddr,
+    signer,
+    suggestedParams: { ...suggestedParams, fee: 6000, flatFee: true }, // Covers Folks redeem + underlying and yield sends
+    appForeignAssets: [deployment.usdcAssetId, deployment.fTokenAssetId, deployment.ibusAssetId],
+    appForeignApps: [deployment.folksPoolAppId, deployment.folksPoolManagerAppId, deployment.poolAppId],
+    appAccounts: [deployment.poolAddress], // Tinyman pool read for the TWAP observation
+    boxes: positionBoxRef(deployment, userAddr),
+  });
+
+  await atc.execute(algod, 5);
+}
+
+/**
+ * Exits principal as fTokens without calling Folks (user must be opted in to the fToken)
+ */
+export async function performEmergencyWithdraw(
+  algod: algosdk.Algodv2,
+  deployment: FolksVaultDeploymentResult,
+  user: { addr: string | algosdk.Address; sk: Uint8Array },
+  amount: number, // 0 = withdraw all
+) {
+  const contract = new algosdk.ABIContract(deployment.arc56Spec);
+  const suggestedParams = await algod.getTransactionParams().do();
+  const userAddr = typeof user.addr === 'string' ? user.addr : user.addr.toString();
+  const signer = algosdk.makeBasicAccountTransactionSigner({
+    sk: user.sk,
+    addr: algosdk.decodeAddress(userAddr),
+  });
+
+  const atc = new algosdk.AtomicTransactionComposer();
+  atc.addMethodCall({
+    appID: deployment.vaultAppId,
+    method: contract.getMethodByName('emergencyWithdraw'),
+    methodArgs: [amount],
+    sender: userAddr,
+    signer,
+    suggestedParams: { ...suggestedParams, fee: 2000, flatFee: true }, // outer + fToken send
+    appForeignAssets: [deployment.fTokenAssetId],
+    boxes: positionBoxRef(deployment, userAddr),
+  });
+
+  await atc.execute(algod, 5);
+}
+
+/**
+ * Redeems yield fTokens from Folks and swaps the USDC to IBUS via MockTinymanPool
+ * when the vault's USDC balance reaches minSwapThreshold
+ */
+export async function performHarvestYield(
+  algod: algosdk.Algodv2,
+  deployment: FolksVaultDeploymentResult,
+  sender: { addr: string | algosdk.Address; sk: Uint8Array },
+  fTokensToRedeem: number,
+  slippageBps: number = 50, // 0.5% default slippage
+  minAmountOut: number = 0, // Absolute swap output floor (> 0 calls harvestYieldWithMinOut)
+) {
+  const contract = new algosdk.ABIContract(deployment.arc56Spec);
+  const suggestedParams = await algod.getTransactionParams().do();
+  const senderAddr = typeof sender.addr === 'string' ? sender.addr : sender.addr.toString();
+  const signer = algosdk.makeBasicAccountTransactionSigner({
+    sk: sender.sk,
+    addr: algosdk.decodeAddress(senderAddr),
+  });
+
+  const atc = new algosdk.AtomicTransactionComposer();
+  atc.addMethodCall({
+    appID: deployment.vaultAppId,
+    method: contract.getMethodByName(minAmountOut > 0 ? 'harvestYieldWithMinOut' : 'harvestYield'),
+    methodArgs: minAmountOut > 0 ? [fTokensToRedeem, slippageBps, minAmountOut] : [fTokensToRedeem, slippageBps],
+    sender: senderAddr,
+    signer,
+    suggestedParams: { ...suggestedParams, fee: 7000, flatFee: true }, // Folks redeem + Tinyman swap
+    appForeignAssets: [deployment.usdcAssetId, deployment.fTokenAssetId, deployment.ibusAssetId],
+    appForeignApps: [deployment.folksPoolAppId, deployment.folksPoolManagerAppId, deployment.poolAppId],
+    appAccounts: [deployment.poolAddress],
+  });
+
+  await atc.execute(algod, 5);
+}
+
+/**
+ * Redeems every yield fToken (harvestAll) and swaps the USDC to IBUS
+ */
+export async function performHarvestAll(
+  algod: algosdk.Algodv2,
+  deployment: FolksVaultDeploymentResult,
+  sender: { addr: string | algosdk.Address; sk: Uint8Array },
+  slippageBps: number = 50, // 0.5% default slippage
+) {
+  const contract = new algosdk.ABIContract(deployment.arc56Spec);
+  const suggestedParams = await algod.getTransactionParams().do();
+  const senderAddr = typeof sender.addr === 'string' ? sender.addr : sender.addr.toString();
+  const signer = algosdk.makeBasicAccountTransactionSigner({
+    sk: sender.sk,
+    addr: algosdk.decodeAddress(senderAddr),
+  });
+
+  const atc = new algosdk.AtomicTransactionComposer();
+  atc.addMethodCall({
+    appID: deployment.vaultAppId,
+    method: contract.getMethodByName('harvestAll'),
+    methodArgs: [slippageBps],
+    sender: senderAddr,
+    signer,
+    suggestedParams: { ...suggestedParams, fee: 7000, flatFee: true }, // Folks redeem + Tinyman swap
+    appForeignAssets: [deployment.usdcAssetId, deployment.fTokenAssetId, deployment.ibusAssetId],
+    appForeignApps: [deployment.folksPoolAppId, deployment.folksPoolManagerAppId, deployment.poolAppId],
+    appAccounts: [deployment.poolAddress],
+  });
+
+  await atc.execute(algod, 5);
+}
+
+/**
+ * Swaps the vault's accumulated USDC balance to IBUS via MockTinymanPool
+ * Optionally sends USDC to the vault first (simulating underlying left over from a harvest)
+ */
+export async function performSwapYield(
+  algod: algosdk.Algodv2,
+  deployment: FolksVaultDeploymentResult,
+  sender: { addr: string | algosdk.Address; sk: Uint8Array },
+  usdcAmount: number,
+  slippageBps: number = 50, // 0.5% default slippage
+  minAmountOut: number = 0, // Absolute output floor (> 0 calls swapYieldWithMinOut)
+) {
+  const contract = new algosdk.ABIContract(deployment.arc56Spec);
+  const senderAddr = typeof sender.addr === 'string' ? sender.addr : sender.addr.toString();
+  const signer = algosdk.makeBasicAccountTransactionSigner({
+    sk: sender.sk,
+    addr: algosdk.decodeAddress(senderAddr),
+  });
+
+  let suggestedParams = await algod.getTransactionParams().do();
+  if (usdcAmount > 0) {
+    const usdcTransfer = algosdk.makeAssetTransferTxnWithSuggestedParamsFromObject({
+      sender: senderAddr,
+      receiver: deployment.vaultAddress,
+      amount: usdcAmount,
+      assetIndex: deployment.usdcAssetId,
+      suggestedParams,
+    });
+    const usdcTxID = await algod.sendRawTransaction(usdcTransfer.signTxn(sender.sk)).do();
+    await algosdk.waitForConfirmation(algod, usdcTxID.txid, 5);
+    suggestedParams = await algod.getTransactionParams().do();
+  }
+
+  const atc = new algosdk.AtomicTransactionComposer();
+  atc.addMethodCall({
+    appID: deployment.vaultAppId,
+    method: contract.getMethodByName(minAmountOut > 0 ? 'swapYieldWithMinOut' : 'swapYield'),
+    methodArgs: minAmountOut > 0 ? [slippageBps, minAmountOut] : [slippageBps],
+    sender: senderAddr,
+    signer,
+    suggestedParams: { ...suggestedParams, fee: 4000, flatFee: true },
+    appForeignAssets: [deployment.usdcAssetId, deployment.ibusAssetId],
+    appForeignApps: [deployment.poolAppId],
+    appAccounts: [deployment.poolAddress],
+  });
+
+  await atc.execute(algod, 5);
+}
+
+export async function performClaim(
+  algod: algosdk.Algodv2,
+  deployment: FolksVaultDeploymentResult,
+  user: { addr: string | algosdk.Address; sk: Uint8Array },
+  recipientAddr?: string, // User's yield recipient, if set
+) {
+  const contract = new algosdk.ABIContract(deployment.arc56Spec);
+  const suggestedParams = await algod.getTransactionParams().do();
+  const userAddr = typeof user.addr === 'string' ? user.addr : user.addr.toString();
+  const signer = algosdk.makeBasicAccountTransactionSigner({
+    sk: user.sk,
+    addr: algosdk.decodeAddress(userAddr),
+  });
+
+  const atc = new algosdk.AtomicTransactionComposer();
+  atc.addMethodCall({
+    appID: deployment.vaultAppId,
+    method: contract.getMethodByName('claim'),
+    methodArgs: [],
+    sender: userAddr,
+    signer,
+    suggestedParams: { ...suggestedParams, fee: 2000, flatFee: true },
+    appForeignAssets: [deployment.ibusAssetId],
+    appAccounts: recipientAddr ? [recipientAddr] : [],
+    boxes: claimBoxRefs(deployment, userAddr),
+  });
+
+  await atc.execute(algod, 5);
+}
+
+export async function performClaimCreator(
+  algod: algosdk.Algodv2,
+  deployment: FolksVaultDeploymentResult,
+  creator: { addr: string | algosdk.Address; sk: Uint8Array },
+) {
+  const contract = new algosdk.ABIContract(deployment.arc56Spec);
+  const suggestedParams = await algod.getTransactionParams().do();
+  const creatorAddr = typeof creator.addr === 'string' ? creator.addr : creator.addr.toString();
+  const signer = algosdk.makeBasicAccountTransactionSigner({
+    sk: creator.sk,
+    addr: algosdk.decodeAddress(creatorAddr),
+  });
+
+  const atc = new algosdk.AtomicTransactionComposer();
+  atc.addMethodCall({
+    appID: deployment.vaultAppId,
+    method: contract.getMethodByName('claimCreator'),
+    methodArgs: [],
+    sender: creatorAddr,
+    signer,
+    suggestedParams: { ...suggestedParams, fee: 2000, flatFee: true },
+    appForeignAssets: [deployment.ibusAssetId],
+  });
+
+  await atc.execute(algod, 5);
+}
+
+export async function performCloseOut(
+  algod: algosdk.Algodv2,
+  deployment: FolksVaultDeploymentResult,
+  user: { addr: string | algosdk.Address; sk: Uint8Array },
+) {
+  const contract = new algosdk.ABIContract(deployment.arc56Spec);
+  const suggestedParams = await algod.getTransactionParams().do();
+  const userAddr = typeof user.addr === 'string' ? user.addr : user.addr.toString();
+  const signer = algosdk.makeBasicAccountTransactionSigner({
+    sk: user.sk,
+    addr: algosdk.decodeAddress(userAddr),
+  });
+
+  const atc = new algosdk.AtomicTransactionComposer();
+  atc.addMethodCall({
+    appID: deployment.vaultAppId,
+    method: contract.getMethodByName('closeOut'),
+    methodArgs: [],
+    sender: userAddr,
+    signer,
+    suggestedParams: { ...suggestedParams, fee: 7000, flatFee: true }, // Folks redeem + underlying and yield sends + MBR refund
+    appForeignAssets: [deployment.usdcAssetId, deployment.fTokenAssetId, deployment.ibusAssetId],
+    appForeignApps: [deployment.folksPoolAppId, deployment.folksPoolManagerAppId, deployment.poolAppId],
+    appAccounts: [deployment.poolAddress], // Tinyman pool read for the TWAP observation
+    boxes: positionBoxRef(deployment, userAddr),
+  });
+
+  await atc.execute(algod, 5);
+}
+
+/**
+ * Simulates borrower interest on the Folks pool by raising its deposit interest index
+ * Existing fTokens redeem for more USDC afterwards
+ */
+export async function performAccrueInterest(
+  algod: algosdk.Algodv2,
+  deployment: FolksVaultDeploymentResult,
+  creator: { addr: string | algosdk.Address; sk: Uint8Array },
+  increaseBps: number,
+) {
+  const contract = new algosdk.ABIContract(deployment.folksPoolArc56Spec);
+  const suggestedParams = await algod.getTransactionParams().do();
+  const creatorAddr = typeof creator.addr === 'string' ? creator.addr : creator.addr.toString();
+  const signer = algosdk.makeBasicAccountTransactionSigner({
+    sk: creator.sk,
+    addr: algosdk.decodeAddress(creatorAddr),
+  });
+
+  const atc = new algosdk.AtomicTransactionComposer();
+  atc.addMethodCall({
+    appID: deployment.folksPoolAppId,
+    method: contract.getMethodByName('advanceInterestIndex'),
+    methodArgs: [increaseBps],
+    sender: creatorAddr,
+    signer,
+    suggestedParams: { ...suggestedParams, fee: 1000, flatFee: true },
+  });
+
+  await atc.execute(algod, 5);
+}
+
+/**
+ * Simulates a Folks outage: pool.withdraw fails while paused
+ */
+export async function performSetFolksWithdrawalsPaused(
+  algod: algosdk.Algodv2,
+  deployment: FolksVaultDeploymentResult,
+  creator: { addr: string | algosdk.Address; sk: Uint8Array },
+  paused: boolean,
+) {
+  const contract = new algosdk.ABIContract(deployment.folksPoolArc56Spec);
+  const suggestedParams = await algod.getTransactionParams().do();
+  const creatorAddr = typeof creator.addr === 'string' ? creator.addr : creator.addr.toString();
+  const signer = algosdk.makeBasicAccountTransactionSigner({
+    sk: creator.sk,
+    addr: algosdk.decodeAddress(creatorAddr),
+  });
+
+  const atc = new algosdk.AtomicTransactionComposer();
+  atc.addMethodCall({
+    appID: deployment.folksPoolAppId,
+    method: contract.getMethodByName('setWithdrawalsPaused'),
+    methodArgs: [paused ? 1 : 0],
+    sender: creatorAddr,
+    signer,
+    suggestedParams: { ...suggestedParams, fee: 1000, flatFee: true },
+  });
+
+  await atc.execute(algod, 5);
+}
+
+/**
+ * Deposits USDC directly into the Folks pool and sends the minted fTokens to the vault
+ * These land above totalPrincipalFTokens, so they become harvestable yield fTokens
+ * @returns fTokens sent to the vault
+ */
+export async function performSendYieldFTokens(
+  algod: algosdk.Algodv2,
+  deployment: FolksVaultDeploymentResult,
+  sender: { addr: string | algosdk.Address; sk: Uint8Array },
+  usdcAmount: number,
+): Promise<number> {
+  const contract = new algosdk.ABIContract(deployment.folksPoolArc56Spec);
+  const senderAddr = typeof sender.addr === 'string' ? sender.addr : sender.addr.toString();
+  const signer = algosdk.makeBasicAccountTransactionSigner({
+    sk: sender.sk,
+    addr: algosdk.decodeAddress(senderAddr),
+  });
+
+  const fTokensBefore = await getAccountAssetBalance(algod, senderAddr, deployment.fTokenAssetId);
+  if (fTokensBefore === null) {
+    await optInToAsset(algod, sender, deployment.fTokenAssetId);
+  }
+
+  let suggestedParams = await algod.getTransactionParams().do();
+  const usdcTransfer = algosdk.makeAssetTransferTxnWithSuggestedParamsFromObject({
+    sender: senderAddr,
+    receiver: deployment.folksPoolAddress,
+    amount: usdcAmount,
+    assetIndex: deployment.usdcAssetId,
+    suggestedParams,
+  });
+
+  const atc = new algosdk.AtomicTransactionComposer();
+  atc.addMethodCall({
+    appID: deployment.folksPoolAppId,
+    method: contract.getMethodByName('deposit'),
+    methodArgs: [
+      { txn: usdcTransfer, signer },
+      senderAddr,
+      deployment.usdcAssetId,
+      deployment.fTokenAssetId,
+      deployment.folksPoolManagerAppId,
+    ],
+    sender: senderAddr,
+    signer,
+    suggestedParams: { ...suggestedParams, fee: 2000, flatFee: true },
+  });
+  const result = await atc.execute(algod, 5);
+  const fTokensMinted = safeToNumber(result.methodResults[0].returnValue);
+
+  suggestedParams = await algod.getTransactionParams().do();
+  const fTokenTransfer = algosdk.makeAssetTransferTxnWithSuggestedParamsFromObject({
+    sender: senderAddr,
+    receiver: deployment.vaultAddress,
+    amount: fTokensMinted,
+    assetIndex: deployment.fTokenAssetId,
+    suggestedParams,
+  });
+  const fTokenTxID = await algod.sendRawTransaction(fTokenTransfer.signTxn(sender.sk)).do();
+  await algosdk.waitForConfirmation(algod, fTokenTxID.txid, 5);
+
+  return fTokensMinted;
+}
+
+async function getAccountAssetBalance(
+  algod: algosdk.Algodv2,
+  address: string,
+  assetId: number,
+): Promise<number | null> {
+  const accountInfo = await algod.accountInformation(address).do();
+  const asset = accountInfo.assets?.find((a: any) => safeToNumber(a.assetId) === assetId);
+  return asset ? safeToNumber(asset.amount) : null;
+}
+
+export async function getVaultStats(
+  algod: algosdk.Algodv2,
+  deployment: FolksVaultDeploymentResult,
+): Promise<{
+  totalDeposits: number;
+  totalPrincipalFTokens: number;
+  yieldPerToken: number;
+  creatorUnclaimedYield: number;
+  totalYieldGenerated: number;
+  usdcBalance: number;
+  fTokenBalance: number;
+  yieldFTokens: number;
+  swapAssetBalance: number;
+}> {
+  const globalState = await readGlobalState(algod, deployment.vaultAppId);
+
+  const usdcBalance = (await getAccountAssetBalance(algod, deployment.vaultAddress, deployment.usdcAssetId)) ?? 0;
+  const fTokenBalance = (await getAccountAssetBalance(algod, deployment.vaultAddress, deployment.fTokenAssetId)) ?? 0;
+  const swapAssetBalance = (await getAccountAssetBalance(algod, deployment.vaultAddress, deployment.ibusAssetId)) ?? 0;
+  const totalPrincipalFTokens = globalState['totalPrincipalFTokens'] || 0;
+
+  return {
+    totalDeposits: globalState['totalDeposits'] || 0,
+    totalPrincipalFTokens,
+    yieldPerToken: globalState['yieldPerToken'] || 0,
+    creatorUnclaimedYield: globalState['creatorUnclaimedYield'] || 0,
+    totalYieldGenerated: globalState['totalYieldGenerated'] || 0,
+    usdcBalance,
+    fTokenBalance,
+    yieldFTokens: Math.max(fTokenBalance - totalPrincipalFTokens, 0),
+    swapAssetBalance,
+  };
+}
+
+export async function getDepositInterestIndex(
+  algod: algosdk.Algodv2,
+  deployment: FolksVaultDeploymentResult,
+): Promise<number> {
+  const globalState = await readGlobalState(algod, deployment.folksPoolAppId);
+  return globalState['depositInterestIndex'] || 0;
+}
+
+export async function getPendingYield(
+  algod: algosdk.Algodv2,
+  deployment: FolksVaultDeploymentResult,
+  userAddr: string,
+): Promise<number> {
+  // Read position box and calculate pending yield
+  const position = await getUserPosition(algod, deployment.vaultAppId, userAddr);
+  const globalState = await getVaultStats(algod, deployment);
+
+  // Yield accrues per unit of weight (deposit x lock boost)
+  const weight = position.weight;
+  let pending = position.earnedYield;
+
+  if (weight > 0) {
+    const currentYPT = globalState.yieldPerToken;
+    const userYPT = position.userYieldPerToken;
+
+    if (currentYPT > userYPT) {
+      pending = pending + Math.floor((weight * (currentYPT - userYPT)) / 1_000_000_000_000);
+    }
+  }
+
+  return pending;
+}
+
+export async function getUserDeposit(
+  algod: algosdk.Algodv2,
+  deployment: FolksVaultDeploymentResult,
+  userAddr: string,
+): Promise<number> {
+  const position = await getUserPosition(algod, deployment.vaultAppId, userAddr);
+  return position.depositedAmount;
+}
+
+/**
+ * Reads a user's position box (all zero if the box does not exist)
+ */
+export async function getUserPosition(
+  algod: algosdk.Algodv2,
+  appId: number,
+  userAddr: string,
+): Promise<{
+  depositedAmount: number;
+  userYieldPerToken: number;
+  earnedYield: number;
+  weight: number;
+  boostBps: number;
+  lockedUntil: number;
+  depositTime: number;
+}> {
+  let value: Uint8Array;
+  try {
+    value = (await algod.getApplicationBoxByName(appId, positionBoxName(userAddr)).do()).value;
+  } catch {
+    return { depositedAmount: 0, userYieldPerToken: 0, earnedYield: 0, weight: 0, boostBps: 0, lockedUntil: 0, depositTime: 0 };
+  }
+
+  const buf = Buffer.from(value);
+  return {
+    depositedAmount: safeToNumber(buf.readBigUInt64BE(0)),
+    userYieldPerToken: safeToNumber(buf.readBigUInt64BE(8)),
+    earnedYield: safeToNumber(buf.readBigUInt64BE(16)),
+    weight: safeToNumber(buf.readBigUInt64BE(24)),
+    boostBps: safeToNumber(buf.readBigUInt64BE(32)),
+    lockedUntil: safeToNumber(buf.readBigUInt64BE(40)),
+    depositTime: safeToNumber(buf.readBigUInt64BE(48)),
+  };
+}
+
+// Lock functions
+export async function performSetLockTier(
+  algod: algosdk.Algodv2,
+  deployment: FolksVaultDeploymentResult,
+  sender: { addr: string | algosdk.Address; sk: Uint8Array },
+  slot: number,
+  duration: number, // 0 = clear the slot
+  boostBps: number,
+) {
+  const contract = new algosdk.ABIContract(deployment.arc56Spec);
+  const suggestedParams = await algod.getTransactionParams().do();
+  const senderAddr = typeof sender.addr === 'string' ? sender.addr : sender.addr.toString();
+  const signer = algosdk.makeBasicAccountTransactionSigner({
+    sk: sender.sk,
+    addr: algosdk.decodeAddress(senderAddr),
+  });
+
+  const atc = new algosdk.AtomicTransactionComposer();
+  atc.addMethodCall({
+    appID: deployment.vaultAppId,
+    method: contract.getMethodByName('setLockTier'),
+    methodArgs: [slot, duration, boostBps],
+    sender: senderAddr,
+    signer,
+    suggestedParams: { ...suggestedParams, fee: 1000, flatFee: true },
+  });
+
+  await atc.execute(algod, 5);
+}
+
+/**
+ * Drop the boost of a user's expired lock (permissionless)
+ */
+export async function performReleaseLock(
+  algod: algosdk.Algodv2,
+  deployment: FolksVaultDeploymentResult,
+  sender: { addr: string | algosdk.Address; sk: Uint8Array },
+  userAddr: string,
+) {
+  const contract = new algosdk.ABIContract(deployment.arc56Spec);
+  const suggestedParams = await algod.getTransactionParams().do();
+  const senderAddr = typeof sender.addr === 'string' ? sender.addr : sender.addr.toString();
+  const signer = algosdk.makeBasicAccountTransactionSigner({
+    sk: sender.sk,
+    addr: algosdk.decodeAddress(senderAddr),
+  });
+
+  const atc = new algosdk.AtomicTransactionComposer();
+  atc.addMethodCall({
+    appID: deployment.vaultAppId,
+    method: contract.getMethodByName('releaseLock'),
+    methodArgs: [userAddr],
+    sender: senderAddr,
+    signer,
+    suggestedParams: { ...suggestedParams, fee: 1000, flatFee: true },
+    boxes: positionBoxRef(deployment, userAddr),
+  });
+
+  await atc.execute(algod, 5);
+}
+
+/**
+ * Get user lock state via ABI method call (all zero if no position)
+ */
+export async function getUserLock(
+  algod: algosdk.Algodv2,
+  deployment: FolksVaultDeploymentResult,
+  userAddr: string,
+): Promise<{
+  weight: number;
+  boostBps: number;
+  lockedUntil: number;
+}> {
+  const contract = new algosdk.ABIContract(deployment.arc56Spec);
+  const suggestedParams = await algod.getTransactionParams().do();
+  const signer = algosdk.makeEmptyTransactionSigner();
+
+  const atc = new algosdk.AtomicTransactionComposer();
+  atc.addMethodCall({
+    appID: deployment.vaultAppId,
+    method: contract.getMethodByName('getUserLock'),
+    methodArgs: [userAddr],
+    sender: userAddr,
+    signer,
+    suggestedParams: { ...suggestedParams, fee: 1000, flatFee: true },
+  });
+
+  const result = await atc.simulate(algod, new algosdk.modelsv2.SimulateRequest({ txnGroups: [], allowEmptySignatures: true, allowUnnamedResources: true }));
+  const returnValue = result.methodResults[0].returnValue as bigint[];
+
+  return {
+    weight: Number(returnValue[0]),
+    boostBps: Number(returnValue[1]),
+    lockedUntil: Number(returnValue[2]),
+  };
+}
+
+// Exit fee functions
+export async function performSetExitFee(
+  algod: algosdk.Algodv2,
+  deployment: FolksVaultDeploymentResult,
+  sender: { addr: string | algosdk.Address; sk: Uint8Array },
+  exitFeeBps: number,
+  exitFeePeriod: number,
+) {
+  const contract = new algosdk.ABIContract(deployment.arc56Spec);
+  const suggestedParams = await algod.getTransactionParams().do();
+  const senderAddr = typeof sender.addr === 'string' ? sender.addr : sender.addr.toString();
+  const signer = algosdk.makeBasicAccountTransactionSigner({
+    sk: sender.sk,
+    addr: algosdk.decodeAddress(senderAddr),
+  });
+
+  const atc = new algosdk.AtomicTransactionComposer();
+  atc.addMethodCall({
+    appID: deployment.vaultAppId,
+    method: contract.getMethodByName('setExitFee'),
+    methodArgs: [exitFeeBps, exitFeePeriod],
+    sender: senderAddr,
+    signer,
+    suggestedParams: { ...suggestedParams, fee: 1000, flatFee: true },
+  });
+
+  await atc.execute(algod, 5);
+}
+
+/**
+ * Get exit fee settings and the fee the user would pay now via ABI method call
+ */
+export async function getExitFee(
+  algod: algosdk.Algodv2,
+  deployment: FolksVaultDeploymentResult,
+  userAddr: string,
+): Promise<{
+  exitFeeBps: number;
+  exitFeePeriod: number;
+  userFeeBps: number;
+}> {
+  const contract = new algosdk.ABIContract(deployment.arc56Spec);
+  const suggestedParams = await algod.getTransactionParams().do();
+  const signer = algosdk.makeEmptyTransactionSigner();
+
+  const atc = new algosdk.AtomicTransactionComposer();
+  atc.addMethodCall({
+    appID: deployment.vaultAppId,
+    method: contract.getMethodByName('getExitFee'),
+    methodArgs: [userAddr],
+    sender: userAddr,
+    signer,
+    suggestedParams: { ...suggestedParams, fee: 1000, flatFee: true },
+  });
+
+  const result = await atc.simulate(algod, new algosdk.modelsv2.SimulateRequest({ txnGroups: [], allowEmptySignatures: true, allowUnnamedResources: true }));
+  const returnValue = result.methodResults[0].returnValue as bigint[];
+
+  return {
+    exitFeeBps: Number(returnValue[0]),
+    exitFeePeriod: Number(returnValue[1]),
+    userFeeBps: Number(returnValue[2]),
+  };
+}
+
+/**
+ * Set the user's yield recipient; pass mbrAmount = 0 once the claim settings box exists
+ */
+export async function performSetYieldRecipient(
+  algod: algosdk.Algodv2,
+  deployment: FolksVaultDeploymentResult,
+  user: { addr: string | algosdk.Address; sk: Uint8Array },
+  recipientAddr: string,
+  mbrAmount: number = CLAIM_SETTINGS_MBR,
+) {
+  await performClaimSetting(algod, deployment, user, 'setYieldRecipient', recipientAddr, mbrAmount);
+}
+
+/**
+ * Approve an operator for claimFor; pass mbrAmount = 0 once the claim settings box exists
+ */
+export async function performApproveClaimer(
+  algod: algosdk.Algodv2,
+  deployment: FolksVaultDeploymentResult,
+  user: { addr: string | algosdk.Address; sk: Uint8Array },
+  claimerAddr: string,
+  mbrAmount: number = CLAIM_SETTINGS_MBR,
+) {
+  await performClaimSetting(algod, deployment, user, 'approveClaimer', claimerAddr, mbrAmount);
+}
+
+async function performClaimSetting(
+  algod: algosdk.Algodv2,
+  deployment: FolksVaultDeploymentResult,
+  user: { addr: string | algosdk.Address; sk: Uint8Array },
+  methodName: string,
+  accountAddr: string,
+  mbrAmount: number,
+) {
+  const contract = new algosdk.ABIContract(deployment.arc56Spec);
+  const suggestedParams = await algod.getTransactionParams().do();
+  const userAddr = typeof user.addr === 'string' ? user.addr : user.addr.toString();
+  const signer = algosdk.makeBasicAccountTransactionSigner({
+    sk: user.sk,
+    addr: algosdk.decodeAddress(userAddr),
+  });
+
+  const atc = new algosdk.AtomicTransactionComposer();
+
+  // Claim settings box MBR payment, only when creating the box
+  if (mbrAmount > 0) {
+    const mbrPayment = algosdk.makePaymentTxnWithSuggestedParamsFromObject({
+      sender: userAddr,
+      receiver: deployment.vaultAddress,
+      amount: mbrAmount,
+      suggestedParams,
+    });
+    atc.addTransaction({ txn: mbrPayment, signer });
+  }
+
+  atc.addMethodCall({
+    appID: deployment.vaultAppId,
+    method: contract.getMethodByName(methodName),
+    methodArgs: [accountAddr],
+    sender: userAddr,
+    signer,
+    suggestedParams: { ...suggestedParams, fee: 1000, flatFee: true },
+    boxes: claimBoxRefs(deployment, userAddr),
+  });
+
+  await atc.execute(algod, 5);
+}
+
+/**
+ * Claim a user's yield as their approved claimer
+ */
+export async function performClaimFor(
+  algod: algosdk.Algodv2,
+  deployment: FolksVaultDeploymentResult,
+  operator: { addr: string | algosdk.Address; sk: Uint8Array },
+  userAddr: string,
+  recipientAddr?: string, // User's yield recipient, if set
+) {
+  const contract = new algosdk.ABIContract(deployment.arc56Spec);
+  const suggestedParams = await algod.getTransactionParams().do();
+  const operatorAddr = typeof operator.addr === 'string' ? operator.addr : operator.addr.toString();
+  const signer = algosdk.makeBasicAccountTransactionSigner({
+    sk: operator.sk,
+    addr: algosdk.decodeAddress(operatorAddr),
+  });
+
+  const atc = new algosdk.AtomicTransactionComposer();
+  atc.addMethodCall({
+    appID: deployment.vaultAppId,
+    method: contract.getMethodByName('claimFor'),
+    methodArgs: [userAddr],
+    sender: operatorAddr,
+    signer,
+    suggestedParams: { ...suggestedParams, fee: 2000, flatFee: true },
+    appForeignAssets: [deployment.ibusAssetId],
+    appAccounts: recipientAddr ? [userAddr, recipientAddr] : [userAddr],
+    boxes: claimBoxRefs(deployment, userAddr),
+  });
+
+  await atc.execute(algod, 5);
+}
+
+export async function performClearClaimSettings(
+  algod: algosdk.Algodv2,
+  deployment: FolksVaultDeploymentResult,
+  user: { addr: string | algosdk.Address; sk: Uint8Array },
+) {
+  const contract = new algosdk.ABIContract(deployment.arc56Spec);
+  const suggestedParams = await algod.getTransactionParams().do();
+  const userAddr = typeof user.addr === 'string' ? user.addr : user.addr.toString();
+  const signer = algosdk.makeBasicAccountTransactionSigner({
+    sk: user.sk,
+    addr: algosdk.decodeAddress(userAddr),
+  });
+
+  const atc = new algosdk.AtomicTransactionComposer();
+  atc.addMethodCall({
+    appID: deployment.vaultAppId,
+    method: contract.getMethodByName('clearClaimSettings'),
+    methodArgs: [],
+    sender: userAddr,
+    signer,
+    suggestedParams: { ...suggestedParams, fee: 2000, flatFee: true },
+    boxes: claimBoxRefs(deployment, userAddr),
+  });
+
+  await atc.execute(algod, 5);
+}
+
+export async function getClaimSettings(
+  algod: algosdk.Algodv2,
+  deployment: FolksVaultDeploymentResult,
+  userAddr: string,
+): Promise<{
+  recipient: string;
+  claimer: string;
+}> {
+  const contract = new algosdk.ABIContract(deployment.arc56Spec);
+  const suggestedParams = await algod.getTransactionParams().do();
+  const signer = algosdk.makeEmptyTransactionSigner();
+
+  const atc = new algosdk.AtomicTransactionComposer();
+  atc.addMethodCall({
+    appID: deployment.vaultAppId,
+    method: contract.getMethodByName('getClaimSettings'),
+    methodArgs: [userAddr],
+    sender: userAddr,
+    signer,
+    suggestedParams: { ...suggestedParams, fee: 1000, flatFee: true },
+  });
+
+  const result = await atc.simulate(algod, new algosdk.modelsv2.SimulateRequest({ txnGroups: [], allowEmptySignatures: true, allowUnnamedResources: true }));
+  const returnValue = result.methodResults[0].returnValue as string[];
+
+  return {
+    recipient: returnValue[0],
+    claimer: returnValue[1],
+  };
+}
+
+export async function performPause(
+  algod: algosdk.Algodv2,
+  deployment: FolksVaultDeploymentResult,
+  sender: { addr: string | algosdk.Address; sk: Uint8Array },
+  duration: number,
+) {
+  const contract = new algosdk.ABIContract(deployment.arc56Spec);
+  const suggestedParams = await algod.getTransactionParams().do();
+  const senderAddr = typeof sender.addr === 'string' ? sender.addr : sender.addr.toString();
+  const signer = algosdk.makeBasicAccountTransactionSigner({
+    sk: sender.sk,
+    addr: algosdk.decodeAddress(senderAddr),
+  });
+
+  const atc = new algosdk.AtomicTransactionComposer();
+  atc.addMethodCall({
+    appID: deployment.vaultAppId,
+    method: contract.getMethodByName('pause'),
+    methodArgs: [duration],
+    sender: senderAddr,
+    signer,
+    suggestedParams: { ...suggestedParams, fee: 1000, flatFee: true },
+  });
+
+  await atc.execute(algod, 5);
+}
+
+export async function performUnpause(
+  algod: algosdk.Algodv2,
+  deployment: FolksVaultDeploymentResult,
+  sender: { addr: string | algosdk.Address; sk: Uint8Array },
+) {
+  const contract = new algosdk.ABIContract(deployment.arc56Spec);
+  const suggestedParams = await algod.getTransactionParams().do();
+  const senderAddr = typeof sender.addr === 'string' ? sender.addr : sender.addr.toString();
+  const signer = algosdk.makeBasicAccountTransactionSigner({
+    sk: sender.sk,
+    addr: algosdk.decodeAddress(senderAddr),
+  });
+
+  const atc = new algosdk.AtomicTransactionComposer();
+  atc.addMethodCall({
+    appID: deployment.vaultAppId,
+    method: contract.getMethodByName('unpause'),
+    methodArgs: [],
+    sender: senderAddr,
+    signer,
+    suggestedParams: { ...suggestedParams, fee: 1000, flatFee: true },
+  });
+
+  await atc.execute(algod, 5);
+}
+
+export async function performUpdateGuardian(
+  algod: algosdk.Algodv2,
+  deployment: FolksVaultDeploymentResult,
+  sender: { addr: string | algosdk.Address; sk: Uint8Array },
+  newGuardianAddress: string,
+) {
+  const contract = new algosdk.ABIContract(deployment.arc56Spec);
+  const suggestedParams = await algod.getTransactionParams().do();
+  const senderAddr = typeof sender.addr === 'string' ? sender.addr : sender.addr.toString();
+  const signer = algosdk.makeBasicAccountTransactionSigner({
+    sk: sender.sk,
+    addr: algosdk.decodeAddress(senderAddr),
+  });
+
+  const atc = new algosdk.AtomicTransactionComposer();
+  atc.addMethodCall({
+    appID: deployment.vaultAppId,
+    method: contract.getMethodByName('updateGuardian'),
+    methodArgs: [newGuardianAddress],
+    sender: senderAddr,
+    signer,
+    suggestedParams: { ...suggestedParams, fee: 1000, flatFee: true },
+  });
+
+  await atc.execute(algod, 5);
+}
+
+/**
+ * Get pause state via ABI method call (evaluated against the latest block timestamp)
+ */
+export async function getPauseState(
+  algod: algosdk.Algodv2,
+  deployment: FolksVaultDeploymentResult,
+): Promise<{
+  isPaused: boolean;
+  pausedUntil: number;
+  secondsRemaining: number;
+}> {
+  const contract = new algosdk.ABIContract(deployment.arc56Spec);
+  const suggestedParams = await algod.getTransactionParams().do();
+  const appAddr = algosdk.getApplicationAddress(deployment.vaultAppId).toString();
+  const signer = algosdk.makeEmptyTransactionSigner();
+
+  const atc = new algosdk.AtomicTransactionComposer();
+  atc.addMethodCall({
+    appID: deployment.vaultAppId,
+    method: contract.getMethodByName('getPauseState'),
+    methodArgs: [],
+    sender: appAddr,
+    signer,
+    suggestedParams: { ...suggestedParams, fee: 1000, flatFee: true },
+  });
+
+  const result = await atc.simulate(algod, new algosdk.modelsv2.SimulateRequest({ txnGroups: [], allowEmptySignatures: true, allowUnnamedResources: true }));
+  const returnValue = result.methodResults[0].returnValue as bigint[];
+
+  return {
+    isPaused: returnValue[0] === BigInt(1),
+    pausedUntil: Number(returnValue[1]),
+    secondsRemaining: Number(returnValue[2]),
+  };
+}
+
+export function getContract(deployment: FolksVaultDeploymentResult): algosdk.ABIContract {
+  return new algosdk.ABIContract(deployment.arc56Spec);
+}
+
+/**
+ * Record a TWAP price observation without swapping
+ */
+export async function performObservePrice(
+  algod: algosdk.Algodv2,
+  deployment: FolksVaultDeploymentResult,
+  sender: { addr: string | algosdk.Address; sk: Uint8Array },
+) {
+  const contract = new algosdk.ABIContract(deployment.arc56Spec);
+  const suggestedParams = await algod.getTransactionParams().do();
+  const senderAddr = typeof sender.addr === 'string' ? sender.addr : sender.addr.toString();
+  const signer = algosdk.makeBasicAccountTransactionSigner({
+    sk: sender.sk,
+    addr: algosdk.decodeAddress(senderAddr),
+  });
+  const poolRefs = { appForeignApps: [deployment.poolAppId], appAccounts: [deployment.poolAddress] };
+
+  const atc = new algosdk.AtomicTransactionComposer();
+  atc.addMethodCall({
+    appID: deployment.vaultAppId,
+    method: contract.getMethodByName('observePrice'),
+    methodArgs: [],
+    sender: senderAddr,
+    signer,
+    suggestedParams: { ...suggestedParams, fee: 1000, flatFee: true },
+    appForeignApps: poolRefs.appForeignApps,
+    appAccounts: poolRefs.appAccounts,
+  });
+
+  await atc.execute(algod, 5);
+}
+
+export async function performUpdateMaxPriceDeviation(
+  algod: algosdk.Algodv2,
+  deployment: FolksVaultDeploymentResult,
+  sender: { addr: string | algosdk.Address; sk: Uint8Array },
+  newMaxDeviationBps: number,
+) {
+  const contract = new algosdk.ABIContract(deployment.arc56Spec);
+  const suggestedParams = await algod.getTransactionParams().do();
+  const senderAddr = typeof sender.addr === 'string' ? sender.addr : sender.addr.toString();
+  const signer = algosdk.makeBasicAccountTransactionSigner({
+    sk: sender.sk,
+    addr: algosdk.decodeAddress(senderAddr),
+  });
+
+  const atc = new algosdk.AtomicTransactionComposer();
+  atc.addMethodCall({
+    appID: deployment.vaultAppId,
+    method: contract.getMethodByName('updateMaxPriceDeviation'),
+    methodArgs: [newMaxDeviationBps],
+    sender: senderAddr,
+    signer,
+    suggestedParams: { ...suggestedParams, fee: 1000, flatFee: true },
+  });
+
+  await atc.execute(algod, 5);
+}
+
+/**
+ * Get price oracle state via ABI method call (prices = swap output for 1 input token)
+ */
+export async function getPriceOracle(
+  algod: algosdk.Algodv2,
+  deployment: FolksVaultDeploymentResult,
+): Promise<{
+  spotPrice: number;
+  twapPrice: number;
+  lastObservationTime: number;
+  maxPriceDeviationBps: number;
+}> {
+  const contract = new algosdk.ABIContract(deployment.arc56Spec);
+  const suggestedParams = await algod.getTransactionParams().do();
+  const appAddr = algosdk.getApplicationAddress(deployment.vaultAppId).toString();
+  const signer = algosdk.makeEmptyTransactionSigner();
+
+  const atc = new algosdk.AtomicTransactionComposer();
+  atc.addMethodCall({
+    appID: deployment.vaultAppId,
+    method: contract.getMethodByName('getPriceOracle'),
+    methodArgs: [],
+    sender: appAddr,
+    signer,
+    suggestedParams: { ...suggestedParams, fee: 1000, flatFee: true },
+  });
+
+  const result = await atc.simulate(algod, new algosdk.modelsv2.SimulateRequest({ txnGroups: [], allowEmptySignatures: true, allowUnnamedResources: true }));
+  const returnValue = result.methodResults[0].returnValue as bigint[];
+
+  return {
+    spotPrice: Number(returnValue[0]),
+    twapPrice: Number(returnValue[1]),
+    lastObservationTime: Number(returnValue[2]),
+    maxPriceDeviationBps: Number(returnValue[3]),
+  };
+}
+
+/**
+ * Simulates getHarvestQuote: yield fTokens, estimated USDC and expected IBUS from harvestAll
+ */
+export async function getHarvestQuote(
+  algod: algosdk.Algodv2,
+  deployment: FolksVaultDeploymentResult,
+): Promise<{
+  yieldFTokens: number;
+  estimatedUnderlying: number;
+  expectedSwapOutput: number;
+}> {
+  const contract = new algosdk.ABIContract(deployment.arc56Spec);
+  const suggestedParams = await algod.getTransactionParams().do();
+  const appAddr = algosdk.getApplicationAddress(deployment.vaultAppId).toString();
+  const signer = algosdk.makeEmptyTransactionSigner();
+
+  const atc = new algosdk.AtomicTransactionComposer();
+  atc.addMethodCall({
+    appID: deployment.vaultAppId,
+    method: contract.getMethodByName('getHarvestQuote'),
+    methodArgs: [],
+    sender: appAddr,
+    signer,
+    suggestedParams: { ...suggestedParams, fee: 1000, flatFee: true },
+  });
+
+  const result = await atc.simulate(algod, new algosdk.modelsv2.SimulateRequest({ txnGroups: [], allowEmptySignatures: true, allowUnnamedResources: true }));
+  const returnValue = result.methodResults[0].returnValue as bigint[];
+
+  return {
+    yieldFTokens: Number(returnValue[0]),
+    estimatedUnderlying: Number(returnValue[1]),
+    expectedSwapOutput: Number(returnValue[2]),
+  };
+}
+
+/**
+ * Simulates getHarvestableFTokens
+ */
+export async function getHarvestableFTokens(
+  algod: algosdk.Algodv2,
+  deployment: FolksVaultDeploymentResult,
+): Promise<number> {
+  const contract = new algosdk.ABIContract(deployment.arc56Spec);
+  const suggestedParams = await algod.getTransactionParams().do();
+  const appAddr = algosdk.getApplicationAddress(deployment.vaultAppId).toString();
+  const signer = algosdk.makeEmptyTransactionSigner();
+
+  const atc = new algosdk.AtomicTransactionComposer();
+  atc.addMethodCall({
+    appID: deployment.vaultAppId,
+    method: contract.getMethodByName('getHarvestableFTokens'),
+    methodArgs: [],
+    sender: appAddr,
+    signer,
+    suggestedParams: { ...suggestedParams, fee: 1000, flatFee: true },
+  });
+
+  const result = await atc.simulate(algod, new algosdk.modelsv2.SimulateRequest({ txnGroups: [], allowEmptySignatures: true, allowUnnamedResources: true }));
+  return Number(result.methodResults[0].returnValue as bigint);
+}
@@ -5,6 +5,9 @@ import { createTestAsset } from './assets';
 
 export const TOKEN_SUPPLY = 100_000_000_000_000; // 100M tokens with 6 decimals
 export const TOKEN_DECIMALS = 6;
+export const POSITION_MBR = 54_100; // 2500 + 400 * (33 key + 96 value)
+export const CLAIM_SETTINGS_MBR = 41_300; // 2500 + 400 * (33 key + 64 value)
+const PAGE_SIZE = 2048; // Bytes per program page
 
 function safeToNumber(value: any): number {
   if (typeof value === 'bigint') return Number(value);
@@ -62,14 +65,67 @@ async function compilePoolContract(algodClient: algosdk.Algodv2) {
   };
 }
 
+/**
+ * Box name of a user's position: 'p' + 32-byte address
+ */
+export function positionBoxName(userAddr: string): Uint8Array {
+  return new Uint8Array(Buffer.concat([Buffer.from('p'), algosdk.decodeAddress(userAddr).publicKey]));
+}
+
+function positionBoxRef(deployment: VaultDeploymentResult, userAddr: string) {
+  return [{ appIndex: deployment.vaultAppId, name: positionBoxName(userAddr) }];
+}
+
+/**
+ * Box name of a user's claim settings: 'c' + 32-byte address
+ */
+export function claimSettingsBoxName(userAddr: string): Uint8Array {
+  return new Uint8Array(Buffer.concat([Buffer.from('c'), algosdk.decodeAddress(userAddr).publicKey]));
+}
+
+function claimBoxRefs(deployment: VaultDeploymentResult, userAddr: string) {
+  return [...positionBoxRef(deployment, userAddr), { appIndex: deployment.vaultAppId, name: claimSettingsBoxName(userAddr) }];
+}
+
+/**
+ * Pool references and outer fee for calls that may swap (direct, or routed through the hop pool)
+ */
+function swapCallParams(deployment: VaultDeploymentResult) {
+  if (deployment.hopPoolAppId === 0) {
+    return { fee: 5000, appForeignApps: [deployment.poolAppId], appAccounts: [deployment.poolAddress] };
+  }
+  return {
+    fee: 8000, // outer + 2 hops x (transfer in + pool call + pool output)
+    appForeignApps: [deployment.poolAppId, deployment.hopPoolAppId],
+    appAccounts: [deployment.poolAddress, deployment.hopPoolAddress],
+  };
+}
+
+export interface CandidatePoolRef {
+  poolAppId: number;
+  poolAddress: string;
+}
+
+/**
+ * Vault a claimAndStake deposit goes into (a compounding vault or another RareFiVault on a direct route)
+ */
+export interface StakeTargetRef {
+  vaultAppId: number;
+  usdcAssetId: number;
+  poolAppId: number;
+  poolAddress: string;
+}
+
 export interface VaultDeploymentResult {
   vaultAppId: number;
   vaultAddress: string;
   alphaAssetId: number;   // deposit asset
   usdcAssetId: number;    // yield asset
   ibusAssetId: number;    // swap asset (project token)
-  poolAppId: number;      // MockTinymanPool app ID
+  poolAppId: number;      // MockTinymanPool app ID (USDC/ALGO when routed)
   poolAddress: string;    // MockTinymanPool address
+  hopPoolAppId: number;   // ALGO/IBUS pool app ID (0 = direct USDC/IBUS swap)
+  hopPoolAddress: string; // ALGO/IBUS pool address (zero address when direct)
   arc56Spec: any;
   poolArc56Spec: any;
 }
@@ -86,13 +142,18 @@ export async function deployVaultForTest(
     poolFeeBps?: number;        // Pool fee in basis points (default 30 = 0.3%)
     poolReserveUsdc?: number;   // Initial USDC reserve in pool
     poolReserveIbus?: number;   // Initial IBUS reserve in pool
+    routeViaAlgo?: boolean;     // Swap USDC -> ALGO -> IBUS through two pools instead of one USDC/IBUS pool
+    poolReserveAlgo?: number;   // ALGO reserve in each routed pool
+    maxPriceDeviationBps?: number; // Spot-vs-TWAP swap limit (default 10000 = 100% for testing)
+    reuseAssetsFrom?: VaultDeploymentResult; // Use another deployment's Alpha/USDC/IBUS instead of creating new assets
   },
 ): Promise<VaultDeploymentResult> {
   const creatorAddr = typeof creator.addr === 'string' ? creator.addr : creator.addr.toString();
   const creatorAccount = { addr: creatorAddr, sk: creator.sk };
 
   // Create test assets
-  const alphaAssetId = await createTestAsset(
+  const reuse = overrides?.reuseAssetsFrom;
+  const alphaAssetId = reuse?.alphaAssetId ?? await createTestAsset(
     algod,
     creatorAccount,
     'Alpha-Test',
@@ -100,7 +161,7 @@ export async function deployVaultForTest(
     overrides?.alphaSupply ?? TOKEN_SUPPLY,
   );
 
-  const usdcAssetId = await createTestAsset(
+  const usdcAssetId = reuse?.usdcAssetId ?? await createTestAsset(
     algod,
     creatorAccount,
     'USDC-Test',
@@ -108,7 +169,7 @@ export async function deployVaultForTest(
     overrides?.usdcSupply ?? TOKEN_SUPPLY,
   );
 
-  const ibusAssetId = await createTestAsset(
+  const ibusAssetId = reuse?.ibusAssetId ?? await createTestAsset(
     algod,
     creatorAccount,
     'IBUS-Test',
@@ -129,116 +190,134 @@ export async function deployVaultForTest(
   const poolCompiled = await compilePoolContract(algod);
 
   let suggestedParams = await algod.getTransactionParams().do();
-
-  // Helper to encode uint64 as 8-byte big-endian
-  const encodeUint64 = (n: number): Uint8Array => {
-    const buf = Buffer.alloc(8);
-    buf.writeBigUInt64BE(BigInt(n));
-    return new Uint8Array(buf);
-  };
-
-  // Create pool with raw app args (4-byte selector + uint64 args)
-  // The pool accepts ABI-style creation with 4-byte method selector
-  const createPoolSelector = new Uint8Array([0x00, 0x00, 0x00, 0x00]); // Dummy 4-byte selector
-  const createPoolTxn = algosdk.makeApplicationCreateTxnFromObject({
-    sender: creatorAddr,
-    approvalProgram: poolCompiled.approvalProgram,
-    clearProgram: poolCompiled.clearProgram,
-    numGlobalByteSlices: 1, // stateHolder
-    numGlobalInts: 3, // asset1Id, asset2Id, initialized
-    numLocalByteSlices: 0,
-    numLocalInts: 5,  // asset_1_id, asset_2_id, asset_1_reserves, asset_2_reserves, total_fee_share
-    extraPages: 0,
-    suggestedParams: { ...suggestedParams, fee: 1000, flatFee: true },
-    appArgs: [
-      createPoolSelector,
-      encodeUint64(usdcAssetId),
-      encodeUint64(ibusAssetId),
-      encodeUint64(poolReserveUsdc),
-      encodeUint64(poolReserveIbus),
-      encodeUint64(poolFeeBps),
-    ],
-    onComplete: algosdk.OnApplicationComplete.NoOpOC,
-  });
-
-  const signedCreatePoolTxn = createPoolTxn.signTxn(creator.sk);
-  const createPoolTxID = await algod.sendRawTransaction(signedCreatePoolTxn).do();
-  const poolConfirmedTxn = await algosdk.waitForConfirmation(algod, createPoolTxID.txid, 5);
-  const poolAppId = safeToNumber(poolConfirmedTxn.applicationIndex);
-  const poolAddress = algosdk.getApplicationAddress(poolAppId).toString();
-
-  // Fund pool for MBR
-  suggestedParams = await algod.getTransactionParams().do();
-  const fundPoolTxn = algosdk.makePaymentTxnWithSuggestedParamsFromObject({
-    sender: creatorAddr,
-    receiver: poolAddress,
-    amount: 500_000, // 0.5 ALGO
-    suggestedParams,
-  });
-  const signedFundPoolTxn = fundPoolTxn.signTxn(creator.sk);
-  const fundPoolTxID = await algod.sendRawTransaction(signedFundPoolTxn).do();
-  await algosdk.waitForConfirmation(algod, fundPoolTxID.txid, 5);
-
-  // Pool opts into assets (raw app args)
-  suggestedParams = await algod.getTransactionParams().do();
-  const poolOptInTxn = algosdk.makeApplicationCallTxnFromObject({
-    sender: creatorAddr,
-    appIndex: poolAppId,
-    onComplete: algosdk.OnApplicationComplete.NoOpOC,
-    appArgs: [new TextEncoder().encode('optInAssets')],
-    foreignAssets: [usdcAssetId, ibusAssetId],
-    suggestedParams: { ...suggestedParams, fee: 3000, flatFee: true },
-  });
-  const signedPoolOptInTxn = poolOptInTxn.signTxn(creator.sk);
-  const poolOptInTxID = await algod.sendRawTransaction(signedPoolOptInTxn).do();
-  await algosdk.waitForConfirmation(algod, poolOptInTxID.txid, 5);
-
-  // Creator opts into pool app (to become state holder for local state)
-  // The vault will read pool state from creator's local state within the pool app
-  suggestedParams = await algod.getTransactionParams().do();
-  const creatorOptInPoolTxn = algosdk.makeApplicationOptInTxnFromObject({
-    sender: creatorAddr,
-    appIndex: poolAppId,
-    suggestedParams: { ...suggestedParams, fee: 1000, flatFee: true },
-  });
-  const signedCreatorOptInPoolTxn = creatorOptInPoolTxn.signTxn(creator.sk);
-  const creatorOptInPoolTxID = await algod.sendRawTransaction(signedCreatorOptInPoolTxn).do();
-  await algosdk.waitForConfirmation(algod, creatorOptInPoolTxID.txid, 5);
-
-  // Initialize pool local state (creator is the state holder)
-  suggestedParams = await algod.getTransactionParams().do();
-  const initPoolTxn = algosdk.makeApplicationCallTxnFromObject({
-    sender: creatorAddr,
-    appIndex: poolAppId,
-    onComplete: algosdk.OnApplicationComplete.NoOpOC,
-    appArgs: [
-      new TextEncoder().encode('initializePool'),
-      encodeUint64(poolReserveUsdc),
-      encodeUint64(poolReserveIbus),
-      encodeUint64(poolFeeBps),
-    ],
-    suggestedParams: { ...suggestedParams, fee: 1000, flatFee: true },
-  });
-  const signedInitPoolTxn = initPoolTxn.signTxn(creator.sk);
-  const initPoolTxID = await algod.sendRawTransaction(signedInitPoolTxn).do();
-  await algosdk.waitForConfirmation(algod, initPoolTxID.txid, 5);
-
-  // IMPORTANT: The state holder address is the creator's address
-  // The vault reads pool state from this address's local state within the pool app
-  const poolStateHolderAddress = creatorAddr;
-
-  // Fund pool with IBUS liquidity (so it can swap USDC -> IBUS)
-  suggestedParams = await algod.getTransactionParams().do();
-  const fundPoolIbusTxn = algosdk.makeAssetTransferTxnWithSuggestedParamsFromObject({
-    sender: creatorAddr,
-    receiver: poolAddress,
-    amount: poolReserveIbus,
-    assetIndex: ibusAssetId,
-    suggestedParams,
-  });
-  const signedFundPoolIbusTxn = fundPoolIbusTxn.signTxn(creator.sk);
-  const fundPoolIbusTxID = await algod.sendRawTransaction(signedFundPoolIbusTxn).do();
-  await algosdk.waitForConfirmation(algod, fundPoolIbusTxID.txid, 5);
+  let poolAppId: number;
+  let poolStateHolderAddress: string;
+  let hopPoolAppId = 0;
+  let hopPoolAddress = algosdk.ALGORAND_ZERO_ADDRESS_STRING;
+
+  if (overrides?.routeViaAlgo) {
+    // USDC/ALGO pool + ALGO/IBUS pool, both with the creator as state holder
+    const poolReserveAlgo = overrides?.poolReserveAlgo ?? 5_000_000_000; // 5,000 ALGO
+    ({ poolAppId, poolAddress: poolStateHolderAddress } = await deployFundedMockPool(
+      algod, creator, usdcAssetId, 0, poolReserveUsdc, poolReserveAlgo, poolFeeBps,
+    ));
+    ({ poolAppId: hopPoolAppId, poolAddress: hopPoolAddress } = await deployFundedMockPool(
+      algod, creator, 0, ibusAssetId, poolReserveAlgo, poolReserveIbus, poolFeeBps,
+    ));
+  } else {
+
+    suggestedParams = await algod.getTransactionParams().do();
+
+    // Helper to encode uint64 as 8-byte big-endian
+    const encodeUint64 = (n: number): Uint8Array => {
+      const buf = Buffer.alloc(8);
+      buf.writeBigUInt64BE(BigInt(n));
+      return new Uint8Array(buf);
+    };
+
+    // Create pool with raw app args (4-byte selector + uint64 args)
+    // The pool accepts ABI-style creation with 4-byte method selector
+    const createPoolSelector = new Uint8Array([0x00, 0x00, 0x00, 0x00]); // Dummy 4-byte selector
+    const createPoolTxn = algosdk.makeApplicationCreateTxnFromObject({
+      sender: creatorAddr,
+      approvalProgram: poolCompiled.approvalProgram,
+      clearProgram: poolCompiled.clearProgram,
+      numGlobalByteSlices: 1, // stateHolder
+      numGlobalInts: 3, // asset1Id, asset2Id, initialized
+      numLocalByteSlices: 0,
+      numLocalInts: 5,  // asset_1_id, asset_2_id, asset_1_reserves, asset_2_reserves, total_fee_share
+      extraPages: 0,
+      suggestedParams: { ...suggestedParams, fee: 1000, flatFee: true },
+      appArgs: [
+        createPoolSelector,
+        encodeUint64(usdcAssetId),
+        encodeUint64(ibusAssetId),
+        encodeUint64(poolReserveUsdc),
+        encodeUint64(poolReserveIbus),
+        encodeUint64(poolFeeBps),
+      ],
+      onComplete: algosdk.OnApplicationComplete.NoOpOC,
+    });
+
+    const signedCreatePoolTxn = createPoolTxn.signTxn(creator.sk);
+    const createPoolTxID = await algod.sendRawTransaction(signedCreatePoolTxn).do();
+    const poolConfirmedTxn = await algosdk.waitForConfirmation(algod, createPoolTxID.txid, 5);
+    poolAppId = safeToNumber(poolConfirmedTxn.applicationIndex);
+    const poolAddress = algosdk.getApplicationAddress(poolAppId).toString();
+
+    // Fund pool for MBR
+    suggestedParams = await algod.getTransactionParams().do();
+    const fundPoolTxn = algosdk.makePaymentTxnWithSuggestedParamsFromObject({
+      sender: creatorAddr,
+      receiver: poolAddress,
+      amount: 500_000, // 0.5 ALGO
+      suggestedParams,
+    });
+    const signedFundPoolTxn = fundPoolTxn.signTxn(creator.sk);
+    const fundPoolTxID = await algod.sendRawTransaction(signedFundPoolTxn).do();
+    await algosdk.waitForConfirmation(algod, fundPoolTxID.txid, 5);
+
+    // Pool opts into assets (raw app args)
+    suggestedParams = await algod.getTransactionParams().do();
+    const poolOptInTxn = algosdk.makeApplicationCallTxnFromObject({
+      sender: creatorAddr,
+      appIndex: poolAppId,
+      onComplete: algosdk.OnApplicationComplete.NoOpOC,
+      appArgs: [new TextEncoder().encode('optInAssets')],
+      foreignAssets: [usdcAssetId, ibusAssetId],
+      suggestedParams: { ...suggestedParams, fee: 3000, flatFee: true },
+    });
+    const signedPoolOptInTxn = poolOptInTxn.signTxn(creator.sk);
+    const poolOptInTxID = await algod.sendRawTransaction(signedPoolOptInTxn).do();
+    await algosdk.waitForConfirmation(algod, poolOptInTxID.txid, 5);
+
+    // Creator opts into pool app (to become state holder for local state)
+    // The vault will read pool state from creator's local state within the pool app
+    suggestedParams = await algod.getTransactionParams().do();
+    const creatorOptInPoolTxn = algosdk.makeApplicationOptInTxnFromObject({
+      sender: creatorAddr,
+      appIndex: poolAppId,
+      suggestedParams: { ...suggestedParams, fee: 1000, flatFee: true },
+    });
+    const signedCreatorOptInPoolTxn = creatorOptInPoolTxn.signTxn(creator.sk);
+    const creatorOptInPoolTxID = await algod.sendRawTransaction(signedCreatorOptInPoolTxn).do();
+    await algosdk.waitForConfirmation(algod, creatorOptInPoolTxID.txid, 5);
+
+    // Initialize pool local state (creator is the state holder)
+    suggestedParams = await algod.getTransactionParams().do();
+    const initPoolTxn = algosdk.makeApplicationCallTxnFromObject({
+      sender: creatorAddr,
+      appIndex: poolAppId,
+      onComplete: algosdk.OnApplicationComplete.NoOpOC,
+      appArgs: [
+        new TextEncoder().encode('initializePool'),
+        encodeUint64(poolReserveUsdc),
+        encodeUint64(poolReserveIbus),
+        encodeUint64(poolFeeBps),
+      ],
+      suggestedParams: { ...suggestedParams, fee: 1000, flatFee: true },
+    });
+    const signedInitPoolTxn = initPoolTxn.signTxn(creator.sk);
+    const initPoolTxID = await algod.sendRawTransaction(signedInitPoolTxn).do();
+    await algosdk.waitForConfirmation(algod, initPoolTxID.txid, 5);
+
+    // IMPORTANT: The state holder address is the creator's address
+    // The vault reads pool state from this address's local state within the pool app
+    poolStateHolderAddress = creatorAddr;
+
+    // Fund pool with IBUS liquidity (so it can swap USDC -> IBUS)
+    suggestedParams = await algod.getTransactionParams().do();
+    const fundPoolIbusTxn = algosdk.makeAssetTransferTxnWithSuggestedParamsFromObject({
+      sender: creatorAddr,
+      receiver: poolAddress,
+      amount: poolReserveIbus,
+      assetIndex: ibusAssetId,
+      suggestedParams,
+    });
+    const signedFundPoolIbusTxn = fundPoolIbusTxn.signTxn(creator.sk);
+    const fundPoolIbusTxID = await algod.sendRawTransaction(signedFundPoolIbusTxn).do();
+    await algosdk.waitForConfirmation(algod, fundPoolIbusTxID.txid, 5);
+  }
 
   // ========================================
   // Step 2: Deploy RareFiVault
@@ -262,6 +341,8 @@ export async function deployVaultForTest(
       5000, // maxSlippageBps (50% for testing)
       poolAppId,
       poolStateHolderAddress, // Use state holder (where pool state is in local state)
+      hopPoolAppId,
+      hopPoolAddress,
       creatorAddr, // rarefiAddress = creator for testing
     ],
     sender: creatorAddr,
@@ -269,11 +350,11 @@ export async function deployVaultForTest(
     suggestedParams: { ...suggestedParams, fee: 1000, flatFee: true },
     approvalProgram: vaultCompiled.approvalProgram,
     clearProgram: vaultCompiled.clearProgram,
-    numGlobalByteSlices: 3, // creatorAddress, rarefiAddress, tinymanPoolAddress
-    numGlobalInts: 14, // depositAsset, yieldAsset, swapAsset, creatorFeeRate, creatorUnclaimedYield, totalDeposits, yieldPerToken, minSwapThreshold, maxSlippageBps, totalYieldGenerated, tinymanPoolAppId, farmBalance, emissionRatio, assetsOptedIn
+    numGlobalByteSlices: 11, // creatorAddress, rarefiAddress, tinymanPoolAddress, hopPoolAddress, guardianAddress, candidatePools, farmSchedules, rewardStreams, lockTiers, stakeTargets, zapPoolAddress
+    numGlobalInts: 31, // depositAsset, yieldAsset, swapAsset, creatorFeeRate, creatorUnclaimedYield, totalDeposits, totalWeight, yieldPerToken, minSwapThreshold, maxSlippageBps, totalYieldGenerated, tinymanPoolAppId, hopPoolAppId, farmBalance, emissionRatio, assetsOptedIn, pausedUntil, priceCumulative, lastSpotPrice, lastObservationTime, twapAnchorCumulative, twapAnchorTime, twapPrice, twapSeedRound, maxPriceDeviationBps, exitFeeBps, exitFeePeriod, exitFeePerToken, successorAppId, predecessorAppId, zapPoolAppId
     numLocalByteSlices: 0,
-    numLocalInts: 3, // depositedAmount, userYieldPerToken, earnedYield
-    extraPages: 1,
+    numLocalInts: 0, // user positions live in boxes
+    extraPages: Math.ceil((vaultCompiled.approvalProgram.length + vaultCompiled.clearProgram.length) / PAGE_SIZE) - 1,
   });
 
   const vaultResult = await vaultAtc.execute(algod, 5);
@@ -320,7 +401,7 @@ export async function deployVaultForTest(
 
   await vaultOptInAtc.execute(algod, 5);
 
-  return {
+  const deployment: VaultDeploymentResult = {
     vaultAppId,
     vaultAddress,
     alphaAssetId,
@@ -328,15 +409,23 @@ export async function deployVaultForTest(
     ibusAssetId,
     poolAppId,
     poolAddress: poolStateHolderAddress, // State holder address (where pool state is stored)
+    hopPoolAppId,
+    hopPoolAddress,
     arc56Spec: vaultCompiled.arc56Spec,
     poolArc56Spec: poolCompiled.arc56Spec,
   };
+
+  // Spot-vs-TWAP limit: 100% for testing (back-to-back test swaps move the mock pool far faster than the TWAP window)
+  await performUpdateMaxPriceDeviation(algod, deployment, creatorAccount, overrides?.maxPriceDeviationBps ?? 10_000);
+
+  return deployment;
 }
 
 export async function performUserOptIn(
   algod: algosdk.Algodv2,
   deployment: VaultDeploymentResult,
   user: { addr: string | algosdk.Address; sk: Uint8Array },
+  mbrAmount: number = POSITION_MBR,
 ) {
   const contract = new algosdk.ABIContract(deployment.arc56Spec);
   const suggestedParams = await algod.getTransactionParams().do();
@@ -347,6 +436,16 @@ export async function performUserOptIn(
   });
 
   const atc = new algosdk.AtomicTransactionComposer();
+
+  // Position box MBR payment first
+  const mbrPayment = algosdk.makePaymentTxnWithSuggestedParamsFromObject({
+    sender: userAddr,
+    receiver: deployment.vaultAddress,
+    amount: mbrAmount,
+    suggestedParams,
+  });
+  atc.addTransaction({ txn: mbrPayment, signer });
+
   atc.addMethodCall({
     appID: deployment.vaultAppId,
     method: contract.getMethodByName('optIn'),
@@ -354,7 +453,7 @@ export async function performUserOptIn(
     sender: userAddr,
     signer,
     suggestedParams: { ...suggestedParams, fee: 1000, flatFee: true },
-    onComplete: algosdk.OnApplicationComplete.OptInOC,
+    boxes: positionBoxRef(deployment, userAddr),
   });
 
   await atc.execute(algod, 5);
@@ -389,16 +488,111 @@ export async function performDeposit(
 
   // Then deposit call with slippageBps for potential auto-swap
   // Include pool references in case auto-swap is triggered
+  const swapCall = swapCallParams(deployment);
   atc.addMethodCall({
     appID: deployment.vaultAppId,
     method: contract.getMethodByName('deposit'),
     methodArgs: [slippageBps],
     sender: userAddr,
     signer,
-    suggestedParams: { ...suggestedParams, fee: 5000, flatFee: true }, // Higher fee for potential inner txns
+    suggestedParams: { ...suggestedParams, fee: swapCall.fee, flatFee: true }, // Higher fee for potential inner txns
+    appForeignAssets: [deployment.alphaAssetId, deployment.usdcAssetId, deployment.ibusAssetId],
+    appForeignApps: swapCall.appForeignApps,
+    appAccounts: swapCall.appAccounts,
+    boxes: positionBoxRef(deployment, userAddr),
+  });
+
+  await atc.execute(algod, 5);
+}
+
+/**
+ * Deposit funded by the sender and credited to the beneficiary's position
+ */
+export async function performDepositFor(
+  algod: algosdk.Algodv2,
+  deployment: VaultDeploymentResult,
+  sender: { addr: string | algosdk.Address; sk: Uint8Array },
+  beneficiaryAddr: string,
+  amount: number,
+  slippageBps: number = 100,
+) {
+  const contract = new algosdk.ABIContract(deployment.arc56Spec);
+  const suggestedParams = await algod.getTransactionParams().do();
+  const senderAddr = typeof sender.addr === 'string' ? sender.addr : sender.addr.toString();
+  const signer = algosdk.makeBasicAccountTransactionSigner({
+    sk: sender.sk,
+    addr: algosdk.decodeAddress(senderAddr),
+  });
+
+  const atc = new algosdk.AtomicTransactionComposer();
+  const alphaTransfer = algosdk.makeAssetTransferTxnWithSuggestedParamsFromObject({
+    sender: senderAddr,
+    receiver: deployment.vaultAddress,
+    amount: amount,
+    assetIndex: deployment.alphaAssetId,
+    suggestedParams,
+  });
+  atc.addTransaction({ txn: alphaTransfer, signer });
+
+  const swapCall = swapCallParams(deployment);
+  atc.addMethodCall({
+    appID: deployment.vaultAppId,
+    method: contract.getMethodByName('depositFor'),
+    methodArgs: [beneficiaryAddr, slippageBps],
+    sender: senderAddr,
+    signer,
+    suggestedParams: { ...suggestedParams, fee: swapCall.fee, flatFee: true },
+    appForeignAssets: [deployment.alphaAssetId, deployment.usdcAssetId, deployment.ibusAssetId],
+    appForeignApps: swapCall.appForeignApps,
+    appAccounts: swapCall.appAccounts,
+    boxes: positionBoxRef(deployment, beneficiaryAddr),
+  });
+
+  await atc.execute(algod, 5);
+}
+
+/**
+ * Deposit locked for a lock tier; the whole position earns at the tier's boost until the lock expires
+ */
+export async function performDepositLocked(
+  algod: algosdk.Algodv2,
+  deployment: VaultDeploymentResult,
+  user: { addr: string | algosdk.Address; sk: Uint8Array },
+  amount: number,
+  lockDuration: number,
+  slippageBps: number = 100,
+) {
+  const contract = new algosdk.ABIContract(deployment.arc56Spec);
+  const suggestedParams = await algod.getTransactionParams().do();
+  const userAddr = typeof user.addr === 'string' ? user.addr : user.addr.toString();
+  const signer = algosdk.makeBasicAccountTransactionSigner({
+    sk: user.sk,
+    addr: algosdk.decodeAddress(userAddr),
+  });
+
+  const atc = new algosdk.AtomicTransactionComposer();
+
+  const alphaTransfer = algosdk.makeAssetTransferTxnWithSuggestedParamsFromObject({
+    sender: userAddr,
+    receiver: deployment.vaultAddress,
+    amount: amount,
+    assetIndex: deployment.alphaAssetId,
+    suggestedParams,
+  });
+  atc.addTransaction({ txn: alphaTransfer, signer });
+
+  const swapCall = swapCallParams(deployment);
+  atc.addMethodCall({
+    appID: deployment.vaultAppId,
+    method: contract.getMethodByName('depositLocked'),
+    methodArgs: [slippageBps, lockDuration],
+    sender: userAddr,
+    signer,
+    suggestedParams: { ...suggestedParams, fee: swapCall.fee, flatFee: true },
     appForeignAssets: [deployment.alphaAssetId, deployment.usdcAssetId, deployment.ibusAssetId],
-    appForeignApps: [deployment.poolAppId],
-    appAccounts: [deployment.poolAddress],
+    appForeignApps: swapCall.appForeignApps,
+    appAccounts: swapCall.appAccounts,
+    boxes: positionBoxRef(deployment, userAddr),
   });
 
   await atc.execute(algod, 5);
@@ -427,6 +621,7 @@ export async function performWithdraw(
     signer,
     suggestedParams: { ...suggestedParams, fee: 2000, flatFee: true },
     appForeignAssets: [deployment.alphaAssetId],
+    boxes: positionBoxRef(deployment, userAddr),
   });
 
   await atc.execute(algod, 5);
@@ -443,6 +638,8 @@ export async function performSwapYield(
   sender: { addr: string | algosdk.Address; sk: Uint8Array },
   usdcAmount: number,
   slippageBps: number = 50, // 0.5% default slippage
+  candidatePools: CandidatePoolRef[] = [], // Allowlisted pools the vault may route through
+  minAmountOut: number = 0, // Absolute output floor (> 0 calls swapYieldWithMinOut)
 ) {
   const contract = new algosdk.ABIContract(deployment.arc56Spec);
   const senderAddr = typeof sender.addr === 'string' ? sender.addr : sender.addr.toString();
@@ -466,17 +663,19 @@ export async function performSwapYield(
 
   // Step 2: Call swapYield to swap USDC -> IBUS
   suggestedParams = await algod.getTransactionParams().do();
+  const swapCall = swapCallParams(deployment);
+  const candidateAccounts = candidatePools.map((p) => p.poolAddress).filter((a) => !swapCall.appAccounts.includes(a));
   const atc = new algosdk.AtomicTransactionComposer();
   atc.addMethodCall({
     appID: deployment.vaultAppId,
-    method: contract.getMethodByName('swapYield'),
-    methodArgs: [slippageBps],
+    method: contract.getMethodByName(minAmountOut > 0 ? 'swapYieldWithMinOut' : 'swapYield'),
+    methodArgs: minAmountOut > 0 ? [slippageBps, minAmountOut] : [slippageBps],
     sender: senderAddr,
     signer,
-    suggestedParams: { ...suggestedParams, fee: 5000, flatFee: true }, // Higher fee for inner txns
+    suggestedParams: { ...suggestedParams, fee: swapCall.fee, flatFee: true }, // Higher fee for inner txns
     appForeignAssets: [deployment.usdcAssetId, deployment.ibusAssetId],
-    appForeignApps: [deployment.poolAppId],
-    appAccounts: [deployment.poolAddress],
+    appForeignApps: [...swapCall.appForeignApps, ...candidatePools.map((p) => p.poolAppId)],
+    appAccounts: [...swapCall.appAccounts, ...new Set(candidateAccounts)],
   });
 
   await atc.execute(algod, 5);
@@ -486,6 +685,8 @@ export async function performClaim(
   algod: algosdk.Algodv2,
   deployment: VaultDeploymentResult,
   user: { addr: string | algosdk.Address; sk: Uint8Array },
+  rewardAssetIds: number[] = [], // Extra reward tokens to pay out alongside swapAsset yield
+  recipientAddr?: string, // User's yield recipient, if set
 ) {
   const contract = new algosdk.ABIContract(deployment.arc56Spec);
   const suggestedParams = await algod.getTransactionParams().do();
@@ -502,8 +703,10 @@ export async function performClaim(
     methodArgs: [],
     sender: userAddr,
     signer,
-    suggestedParams: { ...suggestedParams, fee: 2000, flatFee: true },
-    appForeignAssets: [deployment.ibusAssetId],
+    suggestedParams: { ...suggestedParams, fee: 2000 + 1000 * rewardAssetIds.length, flatFee: true },
+    appForeignAssets: [deployment.ibusAssetId, ...rewardAssetIds],
+    appAccounts: recipientAddr ? [recipientAddr] : [],
+    boxes: claimBoxRefs(deployment, userAddr),
   });
 
   await atc.execute(algod, 5);
@@ -540,6 +743,7 @@ export async function performCloseOut(
   algod: algosdk.Algodv2,
   deployment: VaultDeploymentResult,
   user: { addr: string | algosdk.Address; sk: Uint8Array },
+  rewardAssetIds: number[] = [], // Extra reward tokens to pay out alongside swapAsset yield
 ) {
   const contract = new algosdk.ABIContract(deployment.arc56Spec);
   const suggestedParams = await algod.getTransactionParams().do();
@@ -556,9 +760,9 @@ export async function performCloseOut(
     methodArgs: [],
     sender: userAddr,
     signer,
-    suggestedParams: { ...suggestedParams, fee: 3000, flatFee: true },
-    appForeignAssets: [deployment.alphaAssetId, deployment.ibusAssetId],
-    onComplete: algosdk.OnApplicationComplete.CloseOutOC,
+    suggestedParams: { ...suggestedParams, fee: 4000 + 1000 * rewardAssetIds.length, flatFee: true }, // outer + deposit + yield + MBR refund + rewards
+    appForeignAssets: [deployment.alphaAssetId, deployment.ibusAssetId, ...rewardAssetIds],
+    boxes: positionBoxRef(deployment, userAddr),
   });
 
   await atc.execute(algod, 5);
@@ -620,19 +824,20 @@ export async function getPendingYield(
   deployment: VaultDeploymentResult,
   userAddr: string,
 ): Promise<number> {
-  // Read local state and calculate pending yield
-  const localState = await getUserLocalState(algod, deployment.vaultAppId, userAddr);
+  // Read position box and calculate pending yield
+  const position = await getUserPosition(algod, deployment.vaultAppId, userAddr);
   const globalState = await getVaultStats(algod, deployment);
 
-  const deposited = localState.depositedAmount;
-  let pending = localState.earnedYield;
+  // Yield accrues per unit of weight (deposit x lock boost)
+  const weight = position.weight;
+  let pending = position.earnedYield;
 
-  if (deposited > 0) {
+  if (weight > 0) {
     const currentYPT = globalState.yieldPerToken;
-    const userYPT = localState.userYieldPerToken;
+    const userYPT = position.userYieldPerToken;
 
     if (currentYPT > userYPT) {
-      pending = pending + Math.floor((deposited * (currentYPT - userYPT)) / 1_000_000_000_000);
+      pending = pending + Math.floor((weight * (currentYPT - userYPT)) / 1_000_000_000_000);
     }
   }
 
@@ -644,11 +849,14 @@ export async function getUserDeposit(
   deployment: VaultDeploymentResult,
   userAddr: string,
 ): Promise<number> {
-  const localState = await getUserLocalState(algod, deployment.vaultAppId, userAddr);
-  return localState.depositedAmount;
+  const position = await getUserPosition(algod, deployment.vaultAppId, userAddr);
+  return position.depositedAmount;
 }
 
-async function getUserLocalState(
+/**
+ * Reads a user's position box (all zero if the box does not exist)
+ */
+export async function getUserPosition(
   algod: algosdk.Algodv2,
   appId: number,
   userAddr: string,
@@ -656,34 +864,30 @@ async function getUserLocalState(
   depositedAmount: number;
   userYieldPerToken: number;
   earnedYield: number;
+  weight: number;
+  boostBps: number;
+  lockedUntil: number;
+  userExitFeePerToken: number;
+  depositTime: number;
 }> {
-  const accountInfo = await algod.accountInformation(userAddr).do();
-
-  const appLocalState = accountInfo['appsLocalState']?.find(
-    (app: any) => safeToNumber(app.id) === appId
-  );
-
-  if (!appLocalState) {
-    return { depositedAmount: 0, userYieldPerToken: 0, earnedYield: 0 };
-  }
-
-  const localState: Record<string, number> = {};
-  for (const kv of appLocalState.keyValue || []) {
-    let key: string;
-    if (kv.key instanceof Uint8Array) {
-      key = new TextDecoder().decode(kv.key);
-    } else {
-      key = Buffer.from(kv.key as string, 'base64').toString('utf8');
-    }
-    if (kv.value.type === 2) {
-      localState[key] = safeToNumber(kv.value.uint);
-    }
+  let value: Uint8Array;
+  try {
+    value = (await algod.getApplicationBoxByName(appId, positionBoxName(userAddr)).do()).value;
+  } catch {
+    return { depositedAmount: 0, userYieldPerToken: 0, earnedYield: 0, weight: 0, boostBps: 0, lockedUntil: 0, userExitFeePerToken: 0, depositTime: 0 };
   }
 
+  // Reward stream entries (2 x 16 bytes) sit between earnedYield and weight
+  const buf = Buffer.from(value);
   return {
-    depositedAmount: localState['depositedAmount'] || 0,
-    userYieldPerToken: localState['userYieldPerToken'] || 0,
-    earnedYield: localState['earnedYield'] || 0,
+    depositedAmount: safeToNumber(buf.readBigUInt64BE(0)),
+    userYieldPerToken: safeToNumber(buf.readBigUInt64BE(8)),
+    earnedYield: safeToNumber(buf.readBigUInt64BE(16)),
+    weight: safeToNumber(buf.readBigUInt64BE(56)),
+    boostBps: safeToNumber(buf.readBigUInt64BE(64)),
+    lockedUntil: safeToNumber(buf.readBigUInt64BE(72)),
+    userExitFeePerToken: safeToNumber(buf.readBigUInt64BE(80)),
+    depositTime: safeToNumber(buf.readBigUInt64BE(88)),
   };
 }
 
@@ -732,38 +936,53 @@ export async function performContributeFarm(
   await atc.execute(algod, 5);
 }
 
-export async function performSetEmissionRatio(
+export async function performContributeFarmSchedule(
   algod: algosdk.Algodv2,
   deployment: VaultDeploymentResult,
-  sender: { addr: string | algosdk.Address; sk: Uint8Array },
-  newRatio: number,
+  contributor: { addr: string | algosdk.Address; sk: Uint8Array },
+  ibusAmount: number,
+  startTime: number,
+  endTime: number,
 ) {
   const contract = new algosdk.ABIContract(deployment.arc56Spec);
   const suggestedParams = await algod.getTransactionParams().do();
-  const senderAddr = typeof sender.addr === 'string' ? sender.addr : sender.addr.toString();
+  const contributorAddr = typeof contributor.addr === 'string' ? contributor.addr : contributor.addr.toString();
   const signer = algosdk.makeBasicAccountTransactionSigner({
-    sk: sender.sk,
-    addr: algosdk.decodeAddress(senderAddr),
+    sk: contributor.sk,
+    addr: algosdk.decodeAddress(contributorAddr),
   });
 
   const atc = new algosdk.AtomicTransactionComposer();
+
+  const ibusTransfer = algosdk.makeAssetTransferTxnWithSuggestedParamsFromObject({
+    sender: contributorAddr,
+    receiver: deployment.vaultAddress,
+    amount: ibusAmount,
+    assetIndex: deployment.ibusAssetId,
+    suggestedParams,
+  });
+  atc.addTransaction({ txn: ibusTransfer, signer });
+
   atc.addMethodCall({
     appID: deployment.vaultAppId,
-    method: contract.getMethodByName('setEmissionRatio'),
-    methodArgs: [newRatio],
-    sender: senderAddr,
+    method: contract.getMethodByName('contributeFarmSchedule'),
+    methodArgs: [startTime, endTime],
+    sender: contributorAddr,
     signer,
     suggestedParams: { ...suggestedParams, fee: 1000, flatFee: true },
+    appForeignAssets: [deployment.ibusAssetId],
   });
 
   await atc.execute(algod, 5);
 }
 
-export async function performUpdateMinSwapThreshold(
+// Extra reward token functions
+export async function performAddRewardToken(
   algod: algosdk.Algodv2,
   deployment: VaultDeploymentResult,
   sender: { addr: string | algosdk.Address; sk: Uint8Array },
-  newThreshold: number,
+  assetId: number,
+  ratePerSecond: number,
 ) {
   const contract = new algosdk.ABIContract(deployment.arc56Spec);
   const suggestedParams = await algod.getTransactionParams().do();
@@ -776,48 +995,837 @@ export async function performUpdateMinSwapThreshold(
   const atc = new algosdk.AtomicTransactionComposer();
   atc.addMethodCall({
     appID: deployment.vaultAppId,
-    method: contract.getMethodByName('updateMinSwapThreshold'),
-    methodArgs: [newThreshold],
+    method: contract.getMethodByName('addRewardToken'),
+    methodArgs: [assetId, ratePerSecond],
     sender: senderAddr,
     signer,
-    suggestedParams: { ...suggestedParams, fee: 1000, flatFee: true },
+    suggestedParams: { ...suggestedParams, fee: 2000, flatFee: true }, // outer + vault opt-in
+    appForeignAssets: [assetId],
   });
 
   await atc.execute(algod, 5);
 }
 
-export async function performUpdateMaxSlippage(
+export async function performContributeReward(
   algod: algosdk.Algodv2,
   deployment: VaultDeploymentResult,
-  sender: { addr: string | algosdk.Address; sk: Uint8Array },
-  newMaxSlippageBps: number,
+  contributor: { addr: string | algosdk.Address; sk: Uint8Array },
+  assetId: number,
+  amount: number,
 ) {
   const contract = new algosdk.ABIContract(deployment.arc56Spec);
   const suggestedParams = await algod.getTransactionParams().do();
-  const senderAddr = typeof sender.addr === 'string' ? sender.addr : sender.addr.toString();
+  const contributorAddr = typeof contributor.addr === 'string' ? contributor.addr : contributor.addr.toString();
   const signer = algosdk.makeBasicAccountTransactionSigner({
-    sk: sender.sk,
-    addr: algosdk.decodeAddress(senderAddr),
+    sk: contributor.sk,
+    addr: algosdk.decodeAddress(contributorAddr),
   });
 
   const atc = new algosdk.AtomicTransactionComposer();
+
+  const rewardTransfer = algosdk.makeAssetTransferTxnWithSuggestedParamsFromObject({
+    sender: contributorAddr,
+    receiver: deployment.vaultAddress,
+    amount,
+    assetIndex: assetId,
+    suggestedParams,
+  });
+  atc.addTransaction({ txn: rewardTransfer, signer });
+
   atc.addMethodCall({
     appID: deployment.vaultAppId,
-    method: contract.getMethodByName('updateMaxSlippage'),
-    methodArgs: [newMaxSlippageBps],
-    sender: senderAddr,
+    method: contract.getMethodByName('contributeReward'),
+    methodArgs: [],
+    sender: contributorAddr,
     signer,
     suggestedParams: { ...suggestedParams, fee: 1000, flatFee: true },
+    appForeignAssets: [assetId],
   });
 
   await atc.execute(algod, 5);
 }
 
-export async function performUpdateCreatorFeeRate(
+export async function performSetRewardRate(
   algod: algosdk.Algodv2,
   deployment: VaultDeploymentResult,
   sender: { addr: string | algosdk.Address; sk: Uint8Array },
-  newFeeRate: number,
+  assetId: number,
+  ratePerSecond: number,
+) {
+  const contract = new algosdk.ABIContract(deployment.arc56Spec);
+  const suggestedParams = await algod.getTransactionParams().do();
+  const senderAddr = typeof sender.addr === 'string' ? sender.addr : sender.addr.toString();
+  const signer = algosdk.makeBasicAccountTransactionSigner({
+    sk: sender.sk,
+    addr: algosdk.decodeAddress(senderAddr),
+  });
+
+  const atc = new algosdk.AtomicTransactionComposer();
+  atc.addMethodCall({
+    appID: deployment.vaultAppId,
+    method: contract.getMethodByName('setRewardRate'),
+    methodArgs: [assetId, ratePerSecond],
+    sender: senderAddr,
+    signer,
+    suggestedParams: { ...suggestedParams, fee: 1000, flatFee: true },
+  });
+
+  await atc.execute(algod, 5);
+}
+
+/**
+ * Get pending yield and extra rewards via ABI method call (includes release since the last vault call)
+ * @returns [swapAsset yield, reward slot 0, reward slot 1]
+ */
+export async function getPendingYieldABI(
+  algod: algosdk.Algodv2,
+  deployment: VaultDeploymentResult,
+  userAddr: string,
+): Promise<number[]> {
+  const contract = new algosdk.ABIContract(deployment.arc56Spec);
+  const suggestedParams = await algod.getTransactionParams().do();
+  const signer = algosdk.makeEmptyTransactionSigner();
+
+  const atc = new algosdk.AtomicTransactionComposer();
+  atc.addMethodCall({
+    appID: deployment.vaultAppId,
+    method: contract.getMethodByName('getPendingYield'),
+    methodArgs: [userAddr],
+    sender: userAddr,
+    signer,
+    suggestedParams: { ...suggestedParams, fee: 1000, flatFee: true },
+  });
+
+  const result = await atc.simulate(algod, new algosdk.modelsv2.SimulateRequest({ txnGroups: [], allowEmptySignatures: true, allowUnnamedResources: true }));
+  return (result.methodResults[0].returnValue as bigint[]).map((v) => Number(v));
+}
+
+// Lock functions
+export async function performSetLockTier(
+  algod: algosdk.Algodv2,
+  deployment: VaultDeploymentResult,
+  sender: { addr: string | algosdk.Address; sk: Uint8Array },
+  slot: number,
+  duration: number, // 0 = clear the slot
+  boostBps: number,
+) {
+  const contract = new algosdk.ABIContract(deployment.arc56Spec);
+  const suggestedParams = await algod.getTransactionParams().do();
+  const senderAddr = typeof sender.addr === 'string' ? sender.addr : sender.addr.toString();
+  const signer = algosdk.makeBasicAccountTransactionSigner({
+    sk: sender.sk,
+    addr: algosdk.decodeAddress(senderAddr),
+  });
+
+  const atc = new algosdk.AtomicTransactionComposer();
+  atc.addMethodCall({
+    appID: deployment.vaultAppId,
+    method: contract.getMethodByName('setLockTier'),
+    methodArgs: [slot, duration, boostBps],
+    sender: senderAddr,
+    signer,
+    suggestedParams: { ...suggestedParams, fee: 1000, flatFee: true },
+  });
+
+  await atc.execute(algod, 5);
+}
+
+/**
+ * Drop the boost of a user's expired lock (permissionless)
+ */
+export async function performReleaseLock(
+  algod: algosdk.Algodv2,
+  deployment: VaultDeploymentResult,
+  sender: { addr: string | algosdk.Address; sk: Uint8Array },
+  userAddr: string,
+) {
+  const contract = new algosdk.ABIContract(deployment.arc56Spec);
+  const suggestedParams = await algod.getTransactionParams().do();
+  const senderAddr = typeof sender.addr === 'string' ? sender.addr : sender.addr.toString();
+  const signer = algosdk.makeBasicAccountTransactionSigner({
+    sk: sender.sk,
+    addr: algosdk.decodeAddress(senderAddr),
+  });
+
+  const atc = new algosdk.AtomicTransactionComposer();
+  atc.addMethodCall({
+    appID: deployment.vaultAppId,
+    method: contract.getMethodByName('releaseLock'),
+    methodArgs: [userAddr],
+    sender: senderAddr,
+    signer,
+    suggestedParams: { ...suggestedParams, fee: 1000, flatFee: true },
+    boxes: positionBoxRef(deployment, userAddr),
+  });
+
+  await atc.execute(algod, 5);
+}
+
+/**
+ * Get user lock state via ABI method call (all zero if no position)
+ */
+export async function getUserLock(
+  algod: algosdk.Algodv2,
+  deployment: VaultDeploymentResult,
+  userAddr: string,
+): Promise<{
+  weight: number;
+  boostBps: number;
+  lockedUntil: number;
+}> {
+  const contract = new algosdk.ABIContract(deployment.arc56Spec);
+  const suggestedParams = await algod.getTransactionParams().do();
+  const signer = algosdk.makeEmptyTransactionSigner();
+
+  const atc = new algosdk.AtomicTransactionComposer();
+  atc.addMethodCall({
+    appID: deployment.vaultAppId,
+    method: contract.getMethodByName('getUserLock'),
+    methodArgs: [userAddr],
+    sender: userAddr,
+    signer,
+    suggestedParams: { ...suggestedParams, fee: 1000, flatFee: true },
+  });
+
+  const result = await atc.simulate(algod, new algosdk.modelsv2.SimulateRequest({ txnGroups: [], allowEmptySignatures: true, allowUnnamedResources: true }));
+  const returnValue = result.methodResults[0].returnValue as bigint[];
+
+  return {
+    weight: Number(returnValue[0]),
+    boostBps: Number(returnValue[1]),
+    lockedUntil: Number(returnValue[2]),
+  };
+}
+
+// Exit fee functions
+export async function performSetExitFee(
+  algod: algosdk.Algodv2,
+  deployment: VaultDeploymentResult,
+  sender: { addr: string | algosdk.Address; sk: Uint8Array },
+  exitFeeBps: number,
+  exitFeePeriod: number,
+) {
+  const contract = new algosdk.ABIContract(deployment.arc56Spec);
+  const suggestedParams = await algod.getTransactionParams().do();
+  const senderAddr = typeof sender.addr === 'string' ? sender.addr : sender.addr.toString();
+  const signer = algosdk.makeBasicAccountTransactionSigner({
+    sk: sender.sk,
+    addr: algosdk.decodeAddress(senderAddr),
+  });
+
+  const atc = new algosdk.AtomicTransactionComposer();
+  atc.addMethodCall({
+    appID: deployment.vaultAppId,
+    method: contract.getMethodByName('setExitFee'),
+    methodArgs: [exitFeeBps, exitFeePeriod],
+    sender: senderAddr,
+    signer,
+    suggestedParams: { ...suggestedParams, fee: 1000, flatFee: true },
+  });
+
+  await atc.execute(algod, 5);
+}
+
+// Migration functions
+export async function performSetSuccessorVault(
+  algod: algosdk.Algodv2,
+  deployment: VaultDeploymentResult,
+  sender: { addr: string | algosdk.Address; sk: Uint8Array },
+  successorAppId: number,
+) {
+  const contract = new algosdk.ABIContract(deployment.arc56Spec);
+  const suggestedParams = await algod.getTransactionParams().do();
+  const senderAddr = typeof sender.addr === 'string' ? sender.addr : sender.addr.toString();
+  const signer = algosdk.makeBasicAccountTransactionSigner({
+    sk: sender.sk,
+    addr: algosdk.decodeAddress(senderAddr),
+  });
+
+  const atc = new algosdk.AtomicTransactionComposer();
+  atc.addMethodCall({
+    appID: deployment.vaultAppId,
+    method: contract.getMethodByName('setSuccessorVault'),
+    methodArgs: [successorAppId],
+    sender: senderAddr,
+    signer,
+    suggestedParams: { ...suggestedParams, fee: 1000, flatFee: true },
+    appForeignApps: successorAppId === 0 ? [] : [successorAppId],
+  });
+
+  await atc.execute(algod, 5);
+}
+
+export async function performSetPredecessorVault(
+  algod: algosdk.Algodv2,
+  deployment: VaultDeploymentResult,
+  sender: { addr: string | algosdk.Address; sk: Uint8Array },
+  predecessorAppId: number,
+) {
+  const contract = new algosdk.ABIContract(deployment.arc56Spec);
+  const suggestedParams = await algod.getTransactionParams().do();
+  const senderAddr = typeof sender.addr === 'string' ? sender.addr : sender.addr.toString();
+  const signer = algosdk.makeBasicAccountTransactionSigner({
+    sk: sender.sk,
+    addr: algosdk.decodeAddress(senderAddr),
+  });
+
+  const atc = new algosdk.AtomicTransactionComposer();
+  atc.addMethodCall({
+    appID: deployment.vaultAppId,
+    method: contract.getMethodByName('setPredecessorVault'),
+    methodArgs: [predecessorAppId],
+    sender: senderAddr,
+    signer,
+    suggestedParams: { ...suggestedParams, fee: 1000, flatFee: true },
+    appForeignApps: predecessorAppId === 0 ? [] : [predecessorAppId],
+  });
+
+  await atc.execute(algod, 5);
+}
+
+/**
+ * Move the user's position into the successor deployment (user must have opted into the successor)
+ */
+export async function performMigrateTo(
+  algod: algosdk.Algodv2,
+  deployment: VaultDeploymentResult,
+  successor: VaultDeploymentResult,
+  user: { addr: string | algosdk.Address; sk: Uint8Array },
+  slippageBps: number = 100,
+  successorAppId: number = successor.vaultAppId, // Override to target an unapproved app
+) {
+  const contract = new algosdk.ABIContract(deployment.arc56Spec);
+  const suggestedParams = await algod.getTransactionParams().do();
+  const userAddr = typeof user.addr === 'string' ? user.addr : user.addr.toString();
+  const signer = algosdk.makeBasicAccountTransactionSigner({
+    sk: user.sk,
+    addr: algosdk.decodeAddress(userAddr),
+  });
+
+  // Successor may auto-swap before crediting the deposit
+  const swapCall = swapCallParams(successor);
+  const atc = new algosdk.AtomicTransactionComposer();
+  atc.addMethodCall({
+    appID: deployment.vaultAppId,
+    method: contract.getMethodByName('migrateTo'),
+    methodArgs: [successorAppId, slippageBps],
+    sender: userAddr,
+    signer,
+    suggestedParams: { ...suggestedParams, fee: swapCall.fee + 4000, flatFee: true }, // + deposit + yield transfer + acceptMigration + MBR refund
+    appForeignAssets: [deployment.alphaAssetId, deployment.ibusAssetId, successor.usdcAssetId],
+    appForeignApps: [successorAppId, ...swapCall.appForeignApps],
+    appAccounts: swapCall.appAccounts,
+    boxes: [...positionBoxRef(deployment, userAddr), { appIndex: successorAppId, name: positionBoxName(userAddr) }],
+  });
+
+  await atc.execute(algod, 5);
+}
+
+/**
+ * Get exit fee settings and the fee the user would pay now via ABI method call
+ */
+export async function getExitFee(
+  algod: algosdk.Algodv2,
+  deployment: VaultDeploymentResult,
+  userAddr: string,
+): Promise<{
+  exitFeeBps: number;
+  exitFeePeriod: number;
+  userFeeBps: number;
+}> {
+  const contract = new algosdk.ABIContract(deployment.arc56Spec);
+  const suggestedParams = await algod.getTransactionParams().do();
+  const signer = algosdk.makeEmptyTransactionSigner();
+
+  const atc = new algosdk.AtomicTransactionComposer();
+  atc.addMethodCall({
+    appID: deployment.vaultAppId,
+    method: contract.getMethodByName('getExitFee'),
+    methodArgs: [userAddr],
+    sender: userAddr,
+    signer,
+    suggestedParams: { ...suggestedParams, fee: 1000, flatFee: true },
+  });
+
+  const result = await atc.simulate(algod, new algosdk.modelsv2.SimulateRequest({ txnGroups: [], allowEmptySignatures: true, allowUnnamedResources: true }));
+  const returnValue = result.methodResults[0].returnValue as bigint[];
+
+  return {
+    exitFeeBps: Number(returnValue[0]),
+    exitFeePeriod: Number(returnValue[1]),
+    userFeeBps: Number(returnValue[2]),
+  };
+}
+
+/**
+ * Set the user's yield recipient; pass mbrAmount = 0 once the claim settings box exists
+ */
+export async function performSetYieldRecipient(
+  algod: algosdk.Algodv2,
+  deployment: VaultDeploymentResult,
+  user: { addr: string | algosdk.Address; sk: Uint8Array },
+  recipientAddr: string,
+  mbrAmount: number = CLAIM_SETTINGS_MBR,
+) {
+  await performClaimSetting(algod, deployment, user, 'setYieldRecipient', recipientAddr, mbrAmount);
+}
+
+/**
+ * Approve an operator for claimFor; pass mbrAmount = 0 once the claim settings box exists
+ */
+export async function performApproveClaimer(
+  algod: algosdk.Algodv2,
+  deployment: VaultDeploymentResult,
+  user: { addr: string | algosdk.Address; sk: Uint8Array },
+  claimerAddr: string,
+  mbrAmount: number = CLAIM_SETTINGS_MBR,
+) {
+  await performClaimSetting(algod, deployment, user, 'approveClaimer', claimerAddr, mbrAmount);
+}
+
+async function performClaimSetting(
+  algod: algosdk.Algodv2,
+  deployment: VaultDeploymentResult,
+  user: { addr: string | algosdk.Address; sk: Uint8Array },
+  methodName: string,
+  accountAddr: string,
+  mbrAmount: number,
+) {
+  const contract = new algosdk.ABIContract(deployment.arc56Spec);
+  const suggestedParams = await algod.getTransactionParams().do();
+  const userAddr = typeof user.addr === 'string' ? user.addr : user.addr.toString();
+  const signer = algosdk.makeBasicAccountTransactionSigner({
+    sk: user.sk,
+    addr: algosdk.decodeAddress(userAddr),
+  });
+
+  const atc = new algosdk.AtomicTransactionComposer();
+
+  // Claim settings box MBR payment, only when creating the box
+  if (mbrAmount > 0) {
+    const mbrPayment = algosdk.makePaymentTxnWithSuggestedParamsFromObject({
+      sender: userAddr,
+      receiver: deployment.vaultAddress,
+      amount: mbrAmount,
+      suggestedParams,
+    });
+    atc.addTransaction({ txn: mbrPayment, signer });
+  }
+
+  atc.addMethodCall({
+    appID: deployment.vaultAppId,
+    method: contract.getMethodByName(methodName),
+    methodArgs: [accountAddr],
+    sender: userAddr,
+    signer,
+    suggestedParams: { ...suggestedParams, fee: 1000, flatFee: true },
+    boxes: claimBoxRefs(deployment, userAddr),
+  });
+
+  await atc.execute(algod, 5);
+}
+
+/**
+ * Claim a user's yield as their approved claimer
+ */
+export async function performClaimFor(
+  algod: algosdk.Algodv2,
+  deployment: VaultDeploymentResult,
+  operator: { addr: string | algosdk.Address; sk: Uint8Array },
+  userAddr: string,
+  recipientAddr?: string, // User's yield recipient, if set
+) {
+  const contract = new algosdk.ABIContract(deployment.arc56Spec);
+  const suggestedParams = await algod.getTransactionParams().do();
+  const operatorAddr = typeof operator.addr === 'string' ? operator.addr : operator.addr.toString();
+  const signer = algosdk.makeBasicAccountTransactionSigner({
+    sk: operator.sk,
+    addr: algosdk.decodeAddress(operatorAddr),
+  });
+
+  const atc = new algosdk.AtomicTransactionComposer();
+  atc.addMethodCall({
+    appID: deployment.vaultAppId,
+    method: contract.getMethodByName('claimFor'),
+    methodArgs: [userAddr],
+    sender: operatorAddr,
+    signer,
+    suggestedParams: { ...suggestedParams, fee: 2000, flatFee: true },
+    appForeignAssets: [deployment.ibusAssetId],
+    appAccounts: recipientAddr ? [userAddr, recipientAddr] : [userAddr],
+    boxes: claimBoxRefs(deployment, userAddr),
+  });
+
+  await atc.execute(algod, 5);
+}
+
+export async function performClearClaimSettings(
+  algod: algosdk.Algodv2,
+  deployment: VaultDeploymentResult,
+  user: { addr: string | algosdk.Address; sk: Uint8Array },
+) {
+  const contract = new algosdk.ABIContract(deployment.arc56Spec);
+  const suggestedParams = await algod.getTransactionParams().do();
+  const userAddr = typeof user.addr === 'string' ? user.addr : user.addr.toString();
+  const signer = algosdk.makeBasicAccountTransactionSigner({
+    sk: user.sk,
+    addr: algosdk.decodeAddress(userAddr),
+  });
+
+  const atc = new algosdk.AtomicTransactionComposer();
+  atc.addMethodCall({
+    appID: deployment.vaultAppId,
+    method: contract.getMethodByName('clearClaimSettings'),
+    methodArgs: [],
+    sender: userAddr,
+    signer,
+    suggestedParams: { ...suggestedParams, fee: 2000, flatFee: true },
+    boxes: claimBoxRefs(deployment, userAddr),
+  });
+
+  await atc.execute(algod, 5);
+}
+
+export async function getClaimSettings(
+  algod: algosdk.Algodv2,
+  deployment: VaultDeploymentResult,
+  userAddr: string,
+): Promise<{
+  recipient: string;
+  claimer: string;
+}> {
+  const contract = new algosdk.ABIContract(deployment.arc56Spec);
+  const suggestedParams = await algod.getTransactionParams().do();
+  const signer = algosdk.makeEmptyTransactionSigner();
+
+  const atc = new algosdk.AtomicTransactionComposer();
+  atc.addMethodCall({
+    appID: deployment.vaultAppId,
+    method: contract.getMethodByName('getClaimSettings'),
+    methodArgs: [userAddr],
+    sender: userAddr,
+    signer,
+    suggestedParams: { ...suggestedParams, fee: 1000, flatFee: true },
+  });
+
+  const result = await atc.simulate(algod, new algosdk.modelsv2.SimulateRequest({ txnGroups: [], allowEmptySignatures: true, allowUnnamedResources: true }));
+  const returnValue = result.methodResults[0].returnValue as string[];
+
+  return {
+    recipient: returnValue[0],
+    claimer: returnValue[1],
+  };
+}
+
+export async function performAddStakeTarget(
+  algod: algosdk.Algodv2,
+  deployment: VaultDeploymentResult,
+  sender: { addr: string | algosdk.Address; sk: Uint8Array },
+  targetAppId: number,
+) {
+  await performStakeTargetUpdate(algod, deployment, sender, 'addStakeTarget', targetAppId);
+}
+
+export async function performRemoveStakeTarget(
+  algod: algosdk.Algodv2,
+  deployment: VaultDeploymentResult,
+  sender: { addr: string | algosdk.Address; sk: Uint8Array },
+  targetAppId: number,
+) {
+  await performStakeTargetUpdate(algod, deployment, sender, 'removeStakeTarget', targetAppId);
+}
+
+async function performStakeTargetUpdate(
+  algod: algosdk.Algodv2,
+  deployment: VaultDeploymentResult,
+  sender: { addr: string | algosdk.Address; sk: Uint8Array },
+  methodName: string,
+  targetAppId: number,
+) {
+  const contract = new algosdk.ABIContract(deployment.arc56Spec);
+  const suggestedParams = await algod.getTransactionParams().do();
+  const senderAddr = typeof sender.addr === 'string' ? sender.addr : sender.addr.toString();
+  const signer = algosdk.makeBasicAccountTransactionSigner({
+    sk: sender.sk,
+    addr: algosdk.decodeAddress(senderAddr),
+  });
+
+  const atc = new algosdk.AtomicTransactionComposer();
+  atc.addMethodCall({
+    appID: deployment.vaultAppId,
+    method: contract.getMethodByName(methodName),
+    methodArgs: [targetAppId],
+    sender: senderAddr,
+    signer,
+    suggestedParams: { ...suggestedParams, fee: 1000, flatFee: true },
+    appForeignApps: [targetAppId],
+  });
+
+  await atc.execute(algod, 5);
+}
+
+/**
+ * Deposit the user's earned yield into a stake target (user must have a position box in the target)
+ */
+export async function performClaimAndStake(
+  algod: algosdk.Algodv2,
+  deployment: VaultDeploymentResult,
+  user: { addr: string | algosdk.Address; sk: Uint8Array },
+  target: StakeTargetRef,
+  slippageBps: number = 100,
+) {
+  const contract = new algosdk.ABIContract(deployment.arc56Spec);
+  const suggestedParams = await algod.getTransactionParams().do();
+  const userAddr = typeof user.addr === 'string' ? user.addr : user.addr.toString();
+  const signer = algosdk.makeBasicAccountTransactionSigner({
+    sk: user.sk,
+    addr: algosdk.decodeAddress(userAddr),
+  });
+
+  const atc = new algosdk.AtomicTransactionComposer();
+  atc.addMethodCall({
+    appID: deployment.vaultAppId,
+    method: contract.getMethodByName('claimAndStake'),
+    methodArgs: [target.vaultAppId, slippageBps],
+    sender: userAddr,
+    signer,
+    suggestedParams: { ...suggestedParams, fee: 6000, flatFee: true }, // + yield transfer + depositFor + target auto-swap
+    appForeignAssets: [deployment.ibusAssetId, target.usdcAssetId],
+    appForeignApps: [target.vaultAppId, target.poolAppId],
+    appAccounts: [target.poolAddress],
+    boxes: [...positionBoxRef(deployment, userAddr), { appIndex: target.vaultAppId, name: positionBoxName(userAddr) }],
+  });
+
+  await atc.execute(algod, 5);
+}
+
+/**
+ * Get the stake target allowlist slots (0 = empty) via ABI method call
+ */
+export async function getStakeTargets(
+  algod: algosdk.Algodv2,
+  deployment: VaultDeploymentResult,
+): Promise<number[]> {
+  const contract = new algosdk.ABIContract(deployment.arc56Spec);
+  const suggestedParams = await algod.getTransactionParams().do();
+  const appAddr = algosdk.getApplicationAddress(deployment.vaultAppId).toString();
+  const signer = algosdk.makeEmptyTransactionSigner();
+
+  const atc = new algosdk.AtomicTransactionComposer();
+  atc.addMethodCall({
+    appID: deployment.vaultAppId,
+    method: contract.getMethodByName('getStakeTargets'),
+    methodArgs: [],
+    sender: appAddr,
+    signer,
+    suggestedParams: { ...suggestedParams, fee: 1000, flatFee: true },
+  });
+
+  const result = await atc.simulate(algod, new algosdk.modelsv2.SimulateRequest({ txnGroups: [], allowEmptySignatures: true, allowUnnamedResources: true }));
+  return (result.methodResults[0].returnValue as bigint[]).map(Number);
+}
+
+/**
+ * Set the zap pool (poolAppId 0 disables zaps)
+ */
+export async function performSetZapPool(
+  algod: algosdk.Algodv2,
+  deployment: VaultDeploymentResult,
+  sender: { addr: string | algosdk.Address; sk: Uint8Array },
+  pool: CandidatePoolRef,
+) {
+  const contract = new algosdk.ABIContract(deployment.arc56Spec);
+  const suggestedParams = await algod.getTransactionParams().do();
+  const senderAddr = typeof sender.addr === 'string' ? sender.addr : sender.addr.toString();
+  const signer = algosdk.makeBasicAccountTransactionSigner({
+    sk: sender.sk,
+    addr: algosdk.decodeAddress(senderAddr),
+  });
+
+  const atc = new algosdk.AtomicTransactionComposer();
+  atc.addMethodCall({
+    appID: deployment.vaultAppId,
+    method: contract.getMethodByName('setZapPool'),
+    methodArgs: [pool.poolAppId, pool.poolAddress],
+    sender: senderAddr,
+    signer,
+    suggestedParams: { ...suggestedParams, fee: 1000, flatFee: true },
+    appForeignApps: pool.poolAppId ? [pool.poolAppId] : [],
+    appAccounts: pool.poolAppId ? [pool.poolAddress] : [],
+  });
+
+  await atc.execute(algod, 5);
+}
+
+/**
+ * Deposit USDC, swapped to Alpha through the zap pool and credited as a deposit
+ */
+export async function performZapDeposit(
+  algod: algosdk.Algodv2,
+  deployment: VaultDeploymentResult,
+  user: { addr: string | algosdk.Address; sk: Uint8Array },
+  zapPool: CandidatePoolRef,
+  usdcAmount: number,
+  minDepositOut: number,
+  slippageBps: number = 100, // 1% default slippage for auto-swap
+) {
+  const contract = new algosdk.ABIContract(deployment.arc56Spec);
+  const suggestedParams = await algod.getTransactionParams().do();
+  const userAddr = typeof user.addr === 'string' ? user.addr : user.addr.toString();
+  const signer = algosdk.makeBasicAccountTransactionSigner({
+    sk: user.sk,
+    addr: algosdk.decodeAddress(userAddr),
+  });
+
+  const atc = new algosdk.AtomicTransactionComposer();
+  const usdcTransfer = algosdk.makeAssetTransferTxnWithSuggestedParamsFromObject({
+    sender: userAddr,
+    receiver: deployment.vaultAddress,
+    amount: usdcAmount,
+    assetIndex: deployment.usdcAssetId,
+    suggestedParams,
+  });
+  atc.addTransaction({ txn: usdcTransfer, signer });
+
+  const swapCall = swapCallParams(deployment);
+  atc.addMethodCall({
+    appID: deployment.vaultAppId,
+    method: contract.getMethodByName('zapDeposit'),
+    methodArgs: [slippageBps, minDepositOut],
+    sender: userAddr,
+    signer,
+    suggestedParams: { ...suggestedParams, fee: swapCall.fee + 3000, flatFee: true }, // + zap swap (transfer in + pool call + pool output)
+    appForeignAssets: [deployment.alphaAssetId, deployment.usdcAssetId, deployment.ibusAssetId],
+    appForeignApps: [...swapCall.appForeignApps, zapPool.poolAppId],
+    appAccounts: [...new Set([...swapCall.appAccounts, zapPool.poolAddress])],
+    boxes: positionBoxRef(deployment, userAddr),
+  });
+
+  await atc.execute(algod, 5);
+}
+
+/**
+ * Get the zap pool's Alpha output for a USDC amount via ABI method call
+ */
+export async function getZapQuote(
+  algod: algosdk.Algodv2,
+  deployment: VaultDeploymentResult,
+  usdcAmount: number,
+): Promise<number> {
+  const contract = new algosdk.ABIContract(deployment.arc56Spec);
+  const suggestedParams = await algod.getTransactionParams().do();
+  const appAddr = algosdk.getApplicationAddress(deployment.vaultAppId).toString();
+  const signer = algosdk.makeEmptyTransactionSigner();
+
+  const atc = new algosdk.AtomicTransactionComposer();
+  atc.addMethodCall({
+    appID: deployment.vaultAppId,
+    method: contract.getMethodByName('getZapQuote'),
+    methodArgs: [usdcAmount],
+    sender: appAddr,
+    signer,
+    suggestedParams: { ...suggestedParams, fee: 1000, flatFee: true },
+  });
+
+  const result = await atc.simulate(algod, new algosdk.modelsv2.SimulateRequest({ txnGroups: [], allowEmptySignatures: true, allowUnnamedResources: true }));
+  return safeToNumber(result.methodResults[0].returnValue);
+}
+
+/**
+ * Timestamp of the latest block (what Global.latestTimestamp reads in the next call)
+ */
+export async function getLatestTimestamp(algod: algosdk.Algodv2): Promise<number> {
+  const status = await algod.status().do();
+  const block = await algod.block(status.lastRound).do();
+  return Number(block.block.header.timestamp);
+}
+
+export async function performSetEmissionRatio(
+  algod: algosdk.Algodv2,
+  deployment: VaultDeploymentResult,
+  sender: { addr: string | algosdk.Address; sk: Uint8Array },
+  newRatio: number,
+) {
+  const contract = new algosdk.ABIContract(deployment.arc56Spec);
+  const suggestedParams = await algod.getTransactionParams().do();
+  const senderAddr = typeof sender.addr === 'string' ? sender.addr : sender.addr.toString();
+  const signer = algosdk.makeBasicAccountTransactionSigner({
+    sk: sender.sk,
+    addr: algosdk.decodeAddress(senderAddr),
+  });
+
+  const atc = new algosdk.AtomicTransactionComposer();
+  atc.addMethodCall({
+    appID: deployment.vaultAppId,
+    method: contract.getMethodByName('setEmissionRatio'),
+    methodArgs: [newRatio],
+    sender: senderAddr,
+    signer,
+    suggestedParams: { ...suggestedParams, fee: 1000, flatFee: true },
+  });
+
+  await atc.execute(algod, 5);
+}
+
+export async function performUpdateMinSwapThreshold(
+  algod: algosdk.Algodv2,
+  deployment: VaultDeploymentResult,
+  sender: { addr: string | algosdk.Address; sk: Uint8Array },
+  newThreshold: number,
+) {
+  const contract = new algosdk.ABIContract(deployment.arc56Spec);
+  const suggestedParams = await algod.getTransactionParams().do();
+  const senderAddr = typeof sender.addr === 'string' ? sender.addr : sender.addr.toString();
+  const signer = algosdk.makeBasicAccountTransactionSigner({
+    sk: sender.sk,
+    addr: algosdk.decodeAddress(senderAddr),
+  });
+
+  const atc = new algosdk.AtomicTransactionComposer();
+  atc.addMethodCall({
+    appID: deployment.vaultAppId,
+    method: contract.getMethodByName('updateMinSwapThreshold'),
+    methodArgs: [newThreshold],
+    sender: senderAddr,
+    signer,
+    suggestedParams: { ...suggestedParams, fee: 1000, flatFee: true },
+  });
+
+  await atc.execute(algod, 5);
+}
+
+export async function performUpdateMaxSlippage(
+  algod: algosdk.Algodv2,
+  deployment: VaultDeploymentResult,
+  sender: { addr: string | algosdk.Address; sk: Uint8Array },
+  newMaxSlippageBps: number,
+) {
+  const contract = new algosdk.ABIContract(deployment.arc56Spec);
+  const suggestedParams = await algod.getTransactionParams().do();
+  const senderAddr = typeof sender.addr === 'string' ? sender.addr : sender.addr.toString();
+  const signer = algosdk.makeBasicAccountTransactionSigner({
+    sk: sender.sk,
+    addr: algosdk.decodeAddress(senderAddr),
+  });
+
+  const atc = new algosdk.AtomicTransactionComposer();
+  atc.addMethodCall({
+    appID: deployment.vaultAppId,
+    method: contract.getMethodByName('updateMaxSlippage'),
+    methodArgs: [newMaxSlippageBps],
+    sender: senderAddr,
+    signer,
+    suggestedParams: { ...suggestedParams, fee: 1000, flatFee: true },
+  });
+
+  await atc.execute(algod, 5);
+}
+
+export async function performUpdateCreatorFeeRate(
+  algod: algosdk.Algodv2,
+  deployment: VaultDeploymentResult,
+  sender: { addr: string | algosdk.Address; sk: Uint8Array },
+  newFeeRate: number,
 ) {
   const contract = new algosdk.ABIContract(deployment.arc56Spec);
   const suggestedParams = await algod.getTransactionParams().do();
@@ -840,11 +1848,118 @@ export async function performUpdateCreatorFeeRate(
   await atc.execute(algod, 5);
 }
 
-export async function performUpdateCreatorAddress(
+export async function performUpdateCreatorAddress(
+  algod: algosdk.Algodv2,
+  deployment: VaultDeploymentResult,
+  sender: { addr: string | algosdk.Address; sk: Uint8Array },
+  newCreatorAddress: string,
+) {
+  const contract = new algosdk.ABIContract(deployment.arc56Spec);
+  const suggestedParams = await algod.getTransactionParams().do();
+  const senderAddr = typeof sender.addr === 'string' ? sender.addr : sender.addr.toString();
+  const signer = algosdk.makeBasicAccountTransactionSigner({
+    sk: sender.sk,
+    addr: algosdk.decodeAddress(senderAddr),
+  });
+
+  const atc = new algosdk.AtomicTransactionComposer();
+  atc.addMethodCall({
+    appID: deployment.vaultAppId,
+    method: contract.getMethodByName('updateCreatorAddress'),
+    methodArgs: [newCreatorAddress],
+    sender: senderAddr,
+    signer,
+    suggestedParams: { ...suggestedParams, fee: 1000, flatFee: true },
+  });
+
+  await atc.execute(algod, 5);
+}
+
+export async function performUpdateRarefiAddress(
+  algod: algosdk.Algodv2,
+  deployment: VaultDeploymentResult,
+  sender: { addr: string | algosdk.Address; sk: Uint8Array },
+  newRarefiAddress: string,
+) {
+  const contract = new algosdk.ABIContract(deployment.arc56Spec);
+  const suggestedParams = await algod.getTransactionParams().do();
+  const senderAddr = typeof sender.addr === 'string' ? sender.addr : sender.addr.toString();
+  const signer = algosdk.makeBasicAccountTransactionSigner({
+    sk: sender.sk,
+    addr: algosdk.decodeAddress(senderAddr),
+  });
+
+  const atc = new algosdk.AtomicTransactionComposer();
+  atc.addMethodCall({
+    appID: deployment.vaultAppId,
+    method: contract.getMethodByName('updateRarefiAddress'),
+    methodArgs: [newRarefiAddress],
+    sender: senderAddr,
+    signer,
+    suggestedParams: { ...suggestedParams, fee: 1000, flatFee: true },
+  });
+
+  await atc.execute(algod, 5);
+}
+
+export async function performPause(
+  algod: algosdk.Algodv2,
+  deployment: VaultDeploymentResult,
+  sender: { addr: string | algosdk.Address; sk: Uint8Array },
+  duration: number,
+) {
+  const contract = new algosdk.ABIContract(deployment.arc56Spec);
+  const suggestedParams = await algod.getTransactionParams().do();
+  const senderAddr = typeof sender.addr === 'string' ? sender.addr : sender.addr.toString();
+  const signer = algosdk.makeBasicAccountTransactionSigner({
+    sk: sender.sk,
+    addr: algosdk.decodeAddress(senderAddr),
+  });
+
+  const atc = new algosdk.AtomicTransactionComposer();
+  atc.addMethodCall({
+    appID: deployment.vaultAppId,
+    method: contract.getMethodByName('pause'),
+    methodArgs: [duration],
+    sender: senderAddr,
+    signer,
+    suggestedParams: { ...suggestedParams, fee: 1000, flatFee: true },
+  });
+
+  await atc.execute(algod, 5);
+}
+
+export async function performUnpause(
+  algod: algosdk.Algodv2,
+  deployment: VaultDeploymentResult,
+  sender: { addr: string | algosdk.Address; sk: Uint8Array },
+) {
+  const contract = new algosdk.ABIContract(deployment.arc56Spec);
+  const suggestedParams = await algod.getTransactionParams().do();
+  const senderAddr = typeof sender.addr === 'string' ? sender.addr : sender.addr.toString();
+  const signer = algosdk.makeBasicAccountTransactionSigner({
+    sk: sender.sk,
+    addr: algosdk.decodeAddress(senderAddr),
+  });
+
+  const atc = new algosdk.AtomicTransactionComposer();
+  atc.addMethodCall({
+    appID: deployment.vaultAppId,
+    method: contract.getMethodByName('unpause'),
+    methodArgs: [],
+    sender: senderAddr,
+    signer,
+    suggestedParams: { ...suggestedParams, fee: 1000, flatFee: true },
+  });
+
+  await atc.execute(algod, 5);
+}
+
+export async function performUpdateGuardian(
   algod: algosdk.Algodv2,
   deployment: VaultDeploymentResult,
   sender: { addr: string | algosdk.Address; sk: Uint8Array },
-  newCreatorAddress: string,
+  newGuardianAddress: string,
 ) {
   const contract = new algosdk.ABIContract(deployment.arc56Spec);
   const suggestedParams = await algod.getTransactionParams().do();
@@ -857,8 +1972,8 @@ export async function performUpdateCreatorAddress(
   const atc = new algosdk.AtomicTransactionComposer();
   atc.addMethodCall({
     appID: deployment.vaultAppId,
-    method: contract.getMethodByName('updateCreatorAddress'),
-    methodArgs: [newCreatorAddress],
+    method: contract.getMethodByName('updateGuardian'),
+    methodArgs: [newGuardianAddress],
     sender: senderAddr,
     signer,
     suggestedParams: { ...suggestedParams, fee: 1000, flatFee: true },
@@ -867,11 +1982,86 @@ export async function performUpdateCreatorAddress(
   await atc.execute(algod, 5);
 }
 
-export async function performUpdateRarefiAddress(
+/**
+ * Get pause state via ABI method call (evaluated against the latest block timestamp)
+ */
+export async function getPauseState(
+  algod: algosdk.Algodv2,
+  deployment: VaultDeploymentResult,
+): Promise<{
+  isPaused: boolean;
+  pausedUntil: number;
+  secondsRemaining: number;
+}> {
+  const contract = new algosdk.ABIContract(deployment.arc56Spec);
+  const suggestedParams = await algod.getTransactionParams().do();
+  const appAddr = algosdk.getApplicationAddress(deployment.vaultAppId).toString();
+  const signer = algosdk.makeEmptyTransactionSigner();
+
+  const atc = new algosdk.AtomicTransactionComposer();
+  atc.addMethodCall({
+    appID: deployment.vaultAppId,
+    method: contract.getMethodByName('getPauseState'),
+    methodArgs: [],
+    sender: appAddr,
+    signer,
+    suggestedParams: { ...suggestedParams, fee: 1000, flatFee: true },
+  });
+
+  const result = await atc.simulate(algod, new algosdk.modelsv2.SimulateRequest({ txnGroups: [], allowEmptySignatures: true, allowUnnamedResources: true }));
+  const returnValue = result.methodResults[0].returnValue as bigint[];
+
+  return {
+    isPaused: returnValue[0] === BigInt(1),
+    pausedUntil: Number(returnValue[1]),
+    secondsRemaining: Number(returnValue[2]),
+  };
+}
+
+/**
+ * Get swap quote for the vault's current USDC balance via ABI method call
+ */
+export async function getSwapQuote(
+  algod: algosdk.Algodv2,
+  deployment: VaultDeploymentResult,
+): Promise<{
+  usdcBalance: number;
+  expectedOutput: number;
+  minOutputAt50Bps: number;
+}> {
+  const contract = new algosdk.ABIContract(deployment.arc56Spec);
+  const suggestedParams = await algod.getTransactionParams().do();
+  const appAddr = algosdk.getApplicationAddress(deployment.vaultAppId).toString();
+  const signer = algosdk.makeEmptyTransactionSigner();
+
+  const atc = new algosdk.AtomicTransactionComposer();
+  atc.addMethodCall({
+    appID: deployment.vaultAppId,
+    method: contract.getMethodByName('getSwapQuote'),
+    methodArgs: [],
+    sender: appAddr,
+    signer,
+    suggestedParams: { ...suggestedParams, fee: 1000, flatFee: true },
+  });
+
+  const result = await atc.simulate(algod, new algosdk.modelsv2.SimulateRequest({ txnGroups: [], allowEmptySignatures: true, allowUnnamedResources: true }));
+  const returnValue = result.methodResults[0].returnValue as bigint[];
+
+  return {
+    usdcBalance: Number(returnValue[0]),
+    expectedOutput: Number(returnValue[1]),
+    minOutputAt50Bps: Number(returnValue[2]),
+  };
+}
+
+/**
+ * Allowlist a candidate pool for best-execution swaps
+ */
+export async function performAddCandidatePool(
   algod: algosdk.Algodv2,
   deployment: VaultDeploymentResult,
   sender: { addr: string | algosdk.Address; sk: Uint8Array },
-  newRarefiAddress: string,
+  pool: CandidatePoolRef,
 ) {
   const contract = new algosdk.ABIContract(deployment.arc56Spec);
   const suggestedParams = await algod.getTransactionParams().do();
@@ -884,8 +2074,134 @@ export async function performUpdateRarefiAddress(
   const atc = new algosdk.AtomicTransactionComposer();
   atc.addMethodCall({
     appID: deployment.vaultAppId,
-    method: contract.getMethodByName('updateRarefiAddress'),
-    methodArgs: [newRarefiAddress],
+    method: contract.getMethodByName('addCandidatePool'),
+    methodArgs: [pool.poolAppId, pool.poolAddress],
+    sender: senderAddr,
+    signer,
+    suggestedParams: { ...suggestedParams, fee: 1000, flatFee: true },
+    appForeignApps: [pool.poolAppId],
+    appAccounts: [pool.poolAddress],
+  });
+
+  await atc.execute(algod, 5);
+}
+
+export async function performRemoveCandidatePool(
+  algod: algosdk.Algodv2,
+  deployment: VaultDeploymentResult,
+  sender: { addr: string | algosdk.Address; sk: Uint8Array },
+  poolAppId: number,
+) {
+  const contract = new algosdk.ABIContract(deployment.arc56Spec);
+  const suggestedParams = await algod.getTransactionParams().do();
+  const senderAddr = typeof sender.addr === 'string' ? sender.addr : sender.addr.toString();
+  const signer = algosdk.makeBasicAccountTransactionSigner({
+    sk: sender.sk,
+    addr: algosdk.decodeAddress(senderAddr),
+  });
+
+  const atc = new algosdk.AtomicTransactionComposer();
+  atc.addMethodCall({
+    appID: deployment.vaultAppId,
+    method: contract.getMethodByName('removeCandidatePool'),
+    methodArgs: [poolAppId],
+    sender: senderAddr,
+    signer,
+    suggestedParams: { ...suggestedParams, fee: 1000, flatFee: true },
+  });
+
+  await atc.execute(algod, 5);
+}
+
+/**
+ * Get the best-execution quote across the creation route and candidate pools via ABI method call
+ */
+export async function getBestSwapQuote(
+  algod: algosdk.Algodv2,
+  deployment: VaultDeploymentResult,
+): Promise<{
+  usdcBalance: number;
+  routeIndex: number;
+  poolAppId: number;
+  expectedOutput: number;
+}> {
+  const contract = new algosdk.ABIContract(deployment.arc56Spec);
+  const suggestedParams = await algod.getTransactionParams().do();
+  const appAddr = algosdk.getApplicationAddress(deployment.vaultAppId).toString();
+  const signer = algosdk.makeEmptyTransactionSigner();
+
+  const atc = new algosdk.AtomicTransactionComposer();
+  atc.addMethodCall({
+    appID: deployment.vaultAppId,
+    method: contract.getMethodByName('getBestSwapQuote'),
+    methodArgs: [],
+    sender: appAddr,
+    signer,
+    suggestedParams: { ...suggestedParams, fee: 1000, flatFee: true },
+  });
+
+  const result = await atc.simulate(algod, new algosdk.modelsv2.SimulateRequest({ txnGroups: [], allowEmptySignatures: true, allowUnnamedResources: true }));
+  const returnValue = result.methodResults[0].returnValue as bigint[];
+
+  return {
+    usdcBalance: Number(returnValue[0]),
+    routeIndex: Number(returnValue[1]),
+    poolAppId: Number(returnValue[2]),
+    expectedOutput: Number(returnValue[3]),
+  };
+}
+
+/**
+ * Record a TWAP price observation without swapping
+ */
+export async function performObservePrice(
+  algod: algosdk.Algodv2,
+  deployment: VaultDeploymentResult,
+  sender: { addr: string | algosdk.Address; sk: Uint8Array },
+) {
+  const contract = new algosdk.ABIContract(deployment.arc56Spec);
+  const suggestedParams = await algod.getTransactionParams().do();
+  const senderAddr = typeof sender.addr === 'string' ? sender.addr : sender.addr.toString();
+  const signer = algosdk.makeBasicAccountTransactionSigner({
+    sk: sender.sk,
+    addr: algosdk.decodeAddress(senderAddr),
+  });
+  const poolRefs = swapCallParams(deployment);
+
+  const atc = new algosdk.AtomicTransactionComposer();
+  atc.addMethodCall({
+    appID: deployment.vaultAppId,
+    method: contract.getMethodByName('observePrice'),
+    methodArgs: [],
+    sender: senderAddr,
+    signer,
+    suggestedParams: { ...suggestedParams, fee: 1000, flatFee: true },
+    appForeignApps: poolRefs.appForeignApps,
+    appAccounts: poolRefs.appAccounts,
+  });
+
+  await atc.execute(algod, 5);
+}
+
+export async function performUpdateMaxPriceDeviation(
+  algod: algosdk.Algodv2,
+  deployment: VaultDeploymentResult,
+  sender: { addr: string | algosdk.Address; sk: Uint8Array },
+  newMaxDeviationBps: number,
+) {
+  const contract = new algosdk.ABIContract(deployment.arc56Spec);
+  const suggestedParams = await algod.getTransactionParams().do();
+  const senderAddr = typeof sender.addr === 'string' ? sender.addr : sender.addr.toString();
+  const signer = algosdk.makeBasicAccountTransactionSigner({
+    sk: sender.sk,
+    addr: algosdk.decodeAddress(senderAddr),
+  });
+
+  const atc = new algosdk.AtomicTransactionComposer();
+  atc.addMethodCall({
+    appID: deployment.vaultAppId,
+    method: contract.getMethodByName('updateMaxPriceDeviation'),
+    methodArgs: [newMaxDeviationBps],
     sender: senderAddr,
     signer,
     suggestedParams: { ...suggestedParams, fee: 1000, flatFee: true },
@@ -894,6 +2210,64 @@ export async function performUpdateRarefiAddress(
   await atc.execute(algod, 5);
 }
 
+/**
+ * Get price oracle state via ABI method call (prices = swap output for 1 input token)
+ */
+export async function getPriceOracle(
+  algod: algosdk.Algodv2,
+  deployment: VaultDeploymentResult,
+): Promise<{
+  spotPrice: number;
+  twapPrice: number;
+  lastObservationTime: number;
+  maxPriceDeviationBps: number;
+}> {
+  const contract = new algosdk.ABIContract(deployment.arc56Spec);
+  const suggestedParams = await algod.getTransactionParams().do();
+  const appAddr = algosdk.getApplicationAddress(deployment.vaultAppId).toString();
+  const signer = algosdk.makeEmptyTransactionSigner();
+
+  const atc = new algosdk.AtomicTransactionComposer();
+  atc.addMethodCall({
+    appID: deployment.vaultAppId,
+    method: contract.getMethodByName('getPriceOracle'),
+    methodArgs: [],
+    sender: appAddr,
+    signer,
+    suggestedParams: { ...suggestedParams, fee: 1000, flatFee: true },
+  });
+
+  const result = await atc.simulate(algod, new algosdk.modelsv2.SimulateRequest({ txnGroups: [], allowEmptySignatures: true, allowUnnamedResources: true }));
+  const returnValue = result.methodResults[0].returnValue as bigint[];
+
+  return {
+    spotPrice: Number(returnValue[0]),
+    twapPrice: Number(returnValue[1]),
+    lastObservationTime: Number(returnValue[2]),
+    maxPriceDeviationBps: Number(returnValue[3]),
+  };
+}
+
+/**
+ * Spot price stored by the last oracle observation (clamped to the TWAP band), read from global state
+ */
+export async function getLastSpotPrice(
+  algod: algosdk.Algodv2,
+  deployment: VaultDeploymentResult,
+): Promise<number> {
+  const appInfo = await algod.getApplicationByID(deployment.vaultAppId).do();
+
+  for (const kv of appInfo.params?.globalState || []) {
+    const key = kv.key instanceof Uint8Array
+      ? new TextDecoder().decode(kv.key)
+      : Buffer.from(kv.key as string, 'base64').toString('utf8');
+    if (key === 'lastSpotPrice' && kv.value.type === 2) {
+      return safeToNumber(kv.value.uint);
+    }
+  }
+  return 0;
+}
+
 export async function getFarmStats(
   algod: algosdk.Algodv2,
   deployment: VaultDeploymentResult,
@@ -935,6 +2309,8 @@ export async function getFarmStatsABI(
   farmBalance: number;
   emissionRatio: number;
   currentDynamicRate: number;
+  scheduledAmount: number;
+  scheduledRemaining: number;
 }> {
   const contract = new algosdk.ABIContract(deployment.arc56Spec);
   const suggestedParams = await algod.getTransactionParams().do();
@@ -958,6 +2334,8 @@ export async function getFarmStatsABI(
     farmBalance: Number(returnValue[0]),
     emissionRatio: Number(returnValue[1]),
     currentDynamicRate: Number(returnValue[2]),
+    scheduledAmount: Number(returnValue[3]),
+    scheduledRemaining: Number(returnValue[4]),
   };
 }
 
@@ -1069,3 +2447,115 @@ export async function deployMockPoolWithAssets(
   // Return creator address as pool state holder
   return { poolAppId, poolAddress: creatorAddr };
 }
+
+/**
+ * Deploy a MockTinymanPool, opt it into its assets and fund both reserves.
+ * Asset ID 0 is ALGO (no opt-in, funded by payment).
+ */
+export async function deployFundedMockPool(
+  algod: algosdk.Algodv2,
+  creator: { addr: string | algosdk.Address; sk: Uint8Array },
+  asset1Id: number,
+  asset2Id: number,
+  reserve1: number,
+  reserve2: number,
+  feeBps: number = 30,
+): Promise<{ poolAppId: number; poolAddress: string }> {
+  const creatorAddr = typeof creator.addr === 'string' ? creator.addr : creator.addr.toString();
+  const pool = await deployMockPoolWithAssets(algod, creator, asset1Id, asset2Id, reserve1, reserve2, feeBps);
+  const poolAppAddress = algosdk.getApplicationAddress(pool.poolAppId).toString();
+  const assetIds = [asset1Id, asset2Id].filter((id) => id !== 0);
+
+  // Pool opts into its ASAs (raw app args)
+  let suggestedParams = await algod.getTransactionParams().do();
+  const poolOptInTxn = algosdk.makeApplicationCallTxnFromObject({
+    sender: creatorAddr,
+    appIndex: pool.poolAppId,
+    onComplete: algosdk.OnApplicationComplete.NoOpOC,
+    appArgs: [new TextEncoder().encode('optInAssets')],
+    foreignAssets: assetIds,
+    suggestedParams: { ...suggestedParams, fee: 1000 * (1 + assetIds.length), flatFee: true },
+  });
+  const poolOptInTxID = await algod.sendRawTransaction(poolOptInTxn.signTxn(creator.sk)).do();
+  await algosdk.waitForConfirmation(algod, poolOptInTxID.txid, 5);
+
+  // Fund the pool app account with both reserves so it can pay out either side
+  for (const [assetId, amount] of [[asset1Id, reserve1], [asset2Id, reserve2]]) {
+    suggestedParams = await algod.getTransactionParams().do();
+    const fundTxn = assetId === 0
+      ? algosdk.makePaymentTxnWithSuggestedParamsFromObject({
+        sender: creatorAddr,
+        receiver: poolAppAddress,
+        amount,
+        suggestedParams,
+      })
+      : algosdk.makeAssetTransferTxnWithSuggestedParamsFromObject({
+        sender: creatorAddr,
+        receiver: poolAppAddress,
+        amount,
+        assetIndex: assetId,
+        suggestedParams,
+      });
+    const fundTxID = await algod.sendRawTransaction(fundTxn.signTxn(creator.sk)).do();
+    await algosdk.waitForConfirmation(algod, fundTxID.txid, 5);
+  }
+
+  return pool;
+}
+
+/**
+ * Trade directly against a mock pool (moves the pool price, e.g. to simulate manipulation).
+ * Input is sent to the pool app account so the output side stays funded.
+ */
+export async function performPoolSwap(
+  algod: algosdk.Algodv2,
+  trader: { addr: string | algosdk.Address; sk: Uint8Array },
+  poolAppId: number,
+  poolStateHolder: string,
+  inputAssetId: number,
+  outputAssetId: number,
+  amount: number,
+) {
+  const traderAddr = typeof trader.addr === 'string' ? trader.addr : trader.addr.toString();
+  const signer = algosdk.makeBasicAccountTransactionSigner({
+    sk: trader.sk,
+    addr: algosdk.decodeAddress(traderAddr),
+  });
+  const poolAppAddress = algosdk.getApplicationAddress(poolAppId).toString();
+  const suggestedParams = await algod.getTransactionParams().do();
+
+  const inputTxn = inputAssetId === 0
+    ? algosdk.makePaymentTxnWithSuggestedParamsFromObject({
+      sender: traderAddr,
+      receiver: poolAppAddress,
+      amount,
+      suggestedParams,
+    })
+    : algosdk.makeAssetTransferTxnWithSuggestedParamsFromObject({
+      sender: traderAddr,
+      receiver: poolAppAddress,
+      amount,
+      assetIndex: inputAssetId,
+      suggestedParams,
+    });
+
+  const minAmountOut = Buffer.alloc(8); // No slippage protection
+  const swapTxn = algosdk.makeApplicationCallTxnFromObject({
+    sender: traderAddr,
+    appIndex: poolAppId,
+    onComplete: algosdk.OnApplicationComplete.NoOpOC,
+    appArgs: [
+      new TextEncoder().encode('swap'),
+      new TextEncoder().encode('fixed-input'),
+      new Uint8Array(minAmountOut),
+    ],
+    accounts: [poolStateHolder],
+    foreignAssets: [inputAssetId, outputAssetId].filter((id) => id !== 0),
+    suggestedParams: { ...suggestedParams, fee: 2000, flatFee: true },
+  });
+
+  const atc = new algosdk.AtomicTransactionComposer();
+  atc.addTransaction({ txn: inputTxn, signer });
+  atc.addTransaction({ txn: swapTxn, signer });
+  await atc.execute(algod, 5);
+}
@@ -3,6 +3,7 @@ import {
   deployVaultForTest,
   performUserOptIn,
   performDeposit,
+  performDepositFor,
   performWithdraw,
   performSwapYield,
   performClaim,
@@ -12,17 +13,70 @@ import {
   getPendingYield,
   getUserDeposit,
   performContributeFarm,
+  performContributeFarmSchedule,
+  getLatestTimestamp,
+  performAddRewardToken,
+  performContributeReward,
+  performSetRewardRate,
+  getPendingYieldABI,
   performSetEmissionRatio,
   performUpdateCreatorFeeRate,
   performUpdateMaxSlippage,
   performUpdateMinSwapThreshold,
   performUpdateCreatorAddress,
   performUpdateRarefiAddress,
+  performPause,
+  performUnpause,
+  performUpdateGuardian,
+  getPauseState,
+  getSwapQuote,
+  getBestSwapQuote,
+  performAddCandidatePool,
+  performRemoveCandidatePool,
+  performObservePrice,
+  performUpdateMaxPriceDeviation,
+  getPriceOracle,
+  getLastSpotPrice,
+  performPoolSwap,
+  deployFundedMockPool,
+  CandidatePoolRef,
   getFarmStats,
   getFarmStatsABI,
+  getUserPosition,
+  performDepositLocked,
+  performSetLockTier,
+  performReleaseLock,
+  getUserLock,
+  performSetExitFee,
+  getExitFee,
+  performSetSuccessorVault,
+  performSetPredecessorVault,
+  performMigrateTo,
+  performSetYieldRecipient,
+  performApproveClaimer,
+  performClaimFor,
+  performClearClaimSettings,
+  getClaimSettings,
+  claimSettingsBoxName,
+  CLAIM_SETTINGS_MBR,
+  performAddStakeTarget,
+  performRemoveStakeTarget,
+  performClaimAndStake,
+  getStakeTargets,
+  performSetZapPool,
+  performZapDeposit,
+  getZapQuote,
+  positionBoxName,
+  POSITION_MBR,
   VaultDeploymentResult,
 } from './utils/vault';
-import { getAssetBalance, optInToAsset, fundAsset } from './utils/assets';
+import {
+  deployCompoundingVaultForTest,
+  performUserOptIn as performCompoundingOptIn,
+  getUserShares,
+  CompoundingVaultDeploymentResult,
+} from './utils/compoundingVault';
+import { getAssetBalance, optInToAsset, fundAsset, createTestAsset } from './utils/assets';
 
 // Localnet configuration
 const ALGOD_SERVER = 'http://localhost';
@@ -334,6 +388,64 @@ describe('RareFiVault Contract Tests', () => {
     });
   });
 
+  describe('Position Boxes', () => {
+    let deployment: VaultDeploymentResult;
+
+    beforeAll(async () => {
+      deployment = await deployVaultForTest(algod, creator);
+
+      await optInToAsset(algod, alice, deployment.alphaAssetId);
+      await optInToAsset(algod, alice, deployment.ibusAssetId);
+      await fundAsset(algod, creator, alice.addr, deployment.alphaAssetId, 500_000_000);
+    });
+
+    it('should reject opt-in with insufficient MBR payment', async () => {
+      await expect(
+        performUserOptIn(algod, deployment, alice, POSITION_MBR - 1)
+      ).rejects.toThrow();
+    });
+
+    it('should reject deposit without a position box', async () => {
+      await expect(
+        performDeposit(algod, deployment, alice, 100_000_000)
+      ).rejects.toThrow();
+    });
+
+    it('should store the position in a box keyed by address', async () => {
+      await performUserOptIn(algod, deployment, alice);
+      await performDeposit(algod, deployment, alice, 100_000_000);
+
+      const position = await getUserPosition(algod, deployment.vaultAppId, alice.addr.toString());
+      expect(position.depositedAmount).toBe(100_000_000);
+
+      // No local state is allocated for the user
+      const accountInfo = await algod.accountInformation(alice.addr).do();
+      const localState = accountInfo['appsLocalState']?.find(
+        (app: any) => Number(app.id) === deployment.vaultAppId
+      );
+      expect(localState).toBeUndefined();
+    });
+
+    it('should reject a second opt-in', async () => {
+      await expect(
+        performUserOptIn(algod, deployment, alice)
+      ).rejects.toThrow();
+    });
+
+    it('should delete the box and refund MBR on close out', async () => {
+      const algoBefore = Number((await algod.accountInformation(alice.addr).do()).amount);
+
+      await performCloseOut(algod, deployment, alice);
+
+      const algoAfter = Number((await algod.accountInformation(alice.addr).do()).amount);
+      expect(algoAfter - algoBefore).toBe(POSITION_MBR - 4000); // refund minus outer fee
+
+      await expect(
+        algod.getApplicationBoxByName(deployment.vaultAppId, positionBoxName(alice.addr.toString())).do()
+      ).rejects.toThrow();
+    });
+  });
+
   describe('Security - Immutability', () => {
     let deployment: VaultDeploymentResult;
 
@@ -1100,6 +1212,7 @@ describe('RareFiVault Contract Tests', () => {
         signer,
         suggestedParams: { ...suggestedParams, fee: 2000, flatFee: true },
         appForeignAssets: [deployment.alphaAssetId],
+        boxes: [{ appIndex: deployment.vaultAppId, name: positionBoxName(aliceAddr) }],
         rekeyTo: bobAddr,
       });
 
@@ -3234,4 +3347,1155 @@ describe('RareFiVault Contract Tests', () => {
       console.log('Old rarefi address correctly rejected after rotation');
     });
   });
+
+  describe('Emergency Pause', () => {
+    let deployment: VaultDeploymentResult;
+
+    beforeAll(async () => {
+      deployment = await deployVaultForTest(algod, creator, {
+        creatorFeeRate: 0,
+        minSwapThreshold: 2_000_000,
+      });
+
+      await optInToAsset(algod, alice, deployment.alphaAssetId);
+      await optInToAsset(algod, alice, deployment.ibusAssetId);
+      await fundAsset(algod, creator, alice.addr, deployment.alphaAssetId, 500_000_000);
+
+      await performUserOptIn(algod, deployment, alice);
+      await performDeposit(algod, deployment, alice, 100_000_000);
+      await performSwapYield(algod, deployment, creator, 10_000_000, 100);
+    });
+
+    it('should start unpaused', async () => {
+      const state = await getPauseState(algod, deployment);
+      expect(state.isPaused).toBe(false);
+      expect(state.pausedUntil).toBe(0);
+    });
+
+    it('should reject pause from non-guardian', async () => {
+      await expect(
+        performPause(algod, deployment, alice, 3600)
+      ).rejects.toThrow();
+    });
+
+    it('should reject pause longer than 7 days', async () => {
+      await expect(
+        performPause(algod, deployment, creator, 604_801)
+      ).rejects.toThrow();
+    });
+
+    it('should block deposit, swap and farm contributions while paused', async () => {
+      // rarefiAddress = creator in tests, so creator is the default guardian
+      await performPause(algod, deployment, creator, 3600);
+
+      const state = await getPauseState(algod, deployment);
+      expect(state.isPaused).toBe(true);
+      expect(state.secondsRemaining).toBeGreaterThan(0);
+      expect(state.secondsRemaining).toBeLessThanOrEqual(3600);
+
+      await expect(performDeposit(algod, deployment, alice, 10_000_000)).rejects.toThrow();
+      await expect(performSwapYield(algod, deployment, creator, 10_000_000, 100)).rejects.toThrow();
+      await expect(performContributeFarm(algod, deployment, creator, 1_000_000)).rejects.toThrow();
+    });
+
+    it('should reject a second pause while paused', async () => {
+      await expect(
+        performPause(algod, deployment, creator, 60)
+      ).rejects.toThrow();
+    });
+
+    it('should keep withdraw, claim and close out open while paused', async () => {
+      await performWithdraw(algod, deployment, alice, 40_000_000);
+      expect(await getUserDeposit(algod, deployment, alice.addr)).toBe(60_000_000);
+
+      const ibusBefore = await getAssetBalance(algod, alice.addr, deployment.ibusAssetId);
+      await performClaim(algod, deployment, alice);
+      const ibusAfter = await getAssetBalance(algod, alice.addr, deployment.ibusAssetId);
+      expect(ibusAfter).toBeGreaterThan(ibusBefore);
+
+      await performCloseOut(algod, deployment, alice);
+      expect(await getUserDeposit(algod, deployment, alice.addr)).toBe(0);
+    });
+
+    it('should resume deposits after unpause', async () => {
+      await performUnpause(algod, deployment, creator);
+      expect((await getPauseState(algod, deployment)).isPaused).toBe(false);
+
+      await performUserOptIn(algod, deployment, alice);
+      await performDeposit(algod, deployment, alice, 10_000_000);
+      expect(await getUserDeposit(algod, deployment, alice.addr)).toBe(10_000_000);
+    });
+
+    it('should expire the pause on its own', async () => {
+      await performPause(algod, deployment, creator, 1);
+
+      // Wait past the expiry, then let a withdraw (never paused) produce a newer block
+      await new Promise((resolve) => setTimeout(resolve, 3000));
+      await performWithdraw(algod, deployment, alice, 1_000_000);
+
+      expect((await getPauseState(algod, deployment)).isPaused).toBe(false);
+      await performDeposit(algod, deployment, alice, 1_000_000);
+    });
+
+    it('should let RareFi rotate the guardian', async () => {
+      await expect(
+        performUpdateGuardian(algod, deployment, alice, alice.addr as string)
+      ).rejects.toThrow();
+
+      await performUpdateGuardian(algod, deployment, creator, bob.addr as string);
+
+      await expect(performPause(algod, deployment, creator, 60)).rejects.toThrow();
+      await performPause(algod, deployment, bob, 60);
+      expect((await getPauseState(algod, deployment)).isPaused).toBe(true);
+      await performUnpause(algod, deployment, bob);
+    });
+  });
+
+  describe('Routed Swap via ALGO', () => {
+    let deployment: VaultDeploymentResult;
+    const poolReserveUsdc = 1_000_000_000;  // 1,000 USDC
+    const poolReserveAlgo = 5_000_000_000;  // 5,000 ALGO
+    const poolReserveIbus = 10_000_000_000; // 10,000 IBUS
+
+    // Constant product output after the 0.3% pool fee (mirrors the contract math)
+    const ammOut = (amountIn: bigint, reserveIn: bigint, reserveOut: bigint): bigint => {
+      const netInput = (amountIn * 9970n) / 10000n;
+      return (reserveOut * netInput) / (reserveIn + netInput);
+    };
+
+    beforeAll(async () => {
+      deployment = await deployVaultForTest(algod, creator, {
+        creatorFeeRate: 0,
+        minSwapThreshold: 2_000_000,
+        routeViaAlgo: true,
+        poolReserveUsdc,
+        poolReserveAlgo,
+        poolReserveIbus,
+      });
+
+      await optInToAsset(algod, alice, deployment.alphaAssetId);
+      await optInToAsset(algod, alice, deployment.ibusAssetId);
+      await fundAsset(algod, creator, alice.addr, deployment.alphaAssetId, 1_000_000_000);
+      await performUserOptIn(algod, deployment, alice);
+      await performDeposit(algod, deployment, alice, 1_000_000_000);
+    });
+
+    it('should chain the quote across both pools', async () => {
+      const yieldAmount = 10_000_000; // 10 USDC
+      await fundAsset(algod, creator, deployment.vaultAddress, deployment.usdcAssetId, yieldAmount);
+
+      const algoOut = ammOut(BigInt(yieldAmount), BigInt(poolReserveUsdc), BigInt(poolReserveAlgo));
+      const expected = ammOut(algoOut, BigInt(poolReserveAlgo), BigInt(poolReserveIbus));
+
+      const quote = await getSwapQuote(algod, deployment);
+      expect(quote.usdcBalance).toBe(yieldAmount);
+      expect(quote.expectedOutput).toBe(Number(expected));
+
+      console.log(`Chained quote: 10 USDC -> ${algoOut} µALGO -> ${expected} IBUS`);
+    });
+
+    it('should swap USDC -> ALGO -> IBUS and enforce slippage on the final output', async () => {
+      // Vault already holds 10 USDC from the quote test; 0 slippage means min out = chained quote
+      const before = await getVaultStats(algod, deployment);
+      const algoBefore = (await algod.accountInformation(deployment.vaultAddress).do()).amount;
+      const quoteBefore = await getSwapQuote(algod, deployment);
+      const extraYield = 5_000_000;
+      const usdcTotal = quoteBefore.usdcBalance + extraYield;
+
+      const algoOut = ammOut(BigInt(usdcTotal), BigInt(poolReserveUsdc), BigInt(poolReserveAlgo));
+      const expected = ammOut(algoOut, BigInt(poolReserveAlgo), BigInt(poolReserveIbus));
+
+      await performSwapYield(algod, deployment, creator, extraYield, 0);
+
+      const after = await getVaultStats(algod, deployment);
+      expect(after.usdcBalance).toBe(0);
+      expect(after.swapAssetBalance - before.swapAssetBalance).toBe(Number(expected));
+
+      // The intermediate ALGO is fully forwarded to the second pool
+      const algoAfter = (await algod.accountInformation(deployment.vaultAddress).do()).amount;
+      expect(algoAfter).toBe(algoBefore);
+
+      console.log(`Routed swap: ${usdcTotal} USDC -> ${expected} IBUS`);
+    });
+
+    it('should distribute routed swap output to depositors', async () => {
+      const pending = await getPendingYield(algod, deployment, alice.addr);
+      const stats = await getVaultStats(algod, deployment);
+
+      // Alice is the only depositor and creator fee is 0: she owns all yield (minus rounding dust)
+      expect(pending).toBeGreaterThan(0);
+      expect(pending).toBeLessThanOrEqual(stats.swapAssetBalance);
+      expect(stats.swapAssetBalance - pending).toBeLessThanOrEqual(1);
+    });
+  });
+
+  describe('Best-Execution Routing (Candidate Pools)', () => {
+    let deployment: VaultDeploymentResult;
+    let candidate: CandidatePoolRef;
+    let wrongPair: CandidatePoolRef;
+    const poolReserveUsdc = 1_000_000_000;  // 1,000 USDC
+    const poolReserveIbus = 10_000_000_000; // 10,000 IBUS
+
+    // Constant product output after the pool fee (mirrors the contract math)
+    const ammOut = (amountIn: bigint, reserveIn: bigint, reserveOut: bigint, feeBps: bigint): bigint => {
+      const netInput = (amountIn * (10000n - feeBps)) / 10000n;
+      return (reserveOut * netInput) / (reserveIn + netInput);
+    };
+
+    beforeAll(async () => {
+      deployment = await deployVaultForTest(algod, creator, {
+        creatorFeeRate: 0,
+        minSwapThreshold: 2_000_000,
+        poolReserveUsdc,
+        poolReserveIbus,
+      });
+
+      // Same reserves as the creation pool but a 0.05% fee tier, so it always quotes higher
+      candidate = await deployFundedMockPool(
+        algod, creator, deployment.usdcAssetId, deployment.ibusAssetId, poolReserveUsdc, poolReserveIbus, 5,
+      );
+      wrongPair = await deployFundedMockPool(
+        algod, creator, deployment.usdcAssetId, deployment.alphaAssetId, poolReserveUsdc, poolReserveIbus, 5,
+      );
+
+      await optInToAsset(algod, alice, deployment.alphaAssetId);
+      await optInToAsset(algod, alice, deployment.ibusAssetId);
+      await fundAsset(algod, creator, alice.addr, deployment.alphaAssetId, 1_000_000_000);
+      await performUserOptIn(algod, deployment, alice);
+      await performDeposit(algod, deployment, alice, 1_000_000_000);
+    });
+
+    it('should reject candidate pool from non-admin', async () => {
+      await expect(
+        performAddCandidatePool(algod, deployment, alice, candidate)
+      ).rejects.toThrow();
+    });
+
+    it('should reject a pool that does not trade USDC/swapAsset', async () => {
+      await expect(
+        performAddCandidatePool(algod, deployment, creator, wrongPair)
+      ).rejects.toThrow();
+    });
+
+    it('should reject the creation route pool as a candidate', async () => {
+      await expect(
+        performAddCandidatePool(algod, deployment, creator, {
+          poolAppId: deployment.poolAppId,
+          poolAddress: deployment.poolAddress,
+        })
+      ).rejects.toThrow();
+    });
+
+    it('should quote the creation route when no candidates are allowlisted', async () => {
+      const yieldAmount = 10_000_000; // 10 USDC
+      await fundAsset(algod, creator, deployment.vaultAddress, deployment.usdcAssetId, yieldAmount);
+
+      const quote = await getBestSwapQuote(algod, deployment);
+      const directQuote = await getSwapQuote(algod, deployment);
+      expect(quote.usdcBalance).toBe(yieldAmount);
+      expect(quote.routeIndex).toBe(0);
+      expect(quote.poolAppId).toBe(deployment.poolAppId);
+      expect(quote.expectedOutput).toBe(directQuote.expectedOutput);
+    });
+
+    it('should allowlist a candidate pool and reject duplicates', async () => {
+      await performAddCandidatePool(algod, deployment, creator, candidate);
+
+      await expect(
+        performAddCandidatePool(algod, deployment, creator, candidate)
+      ).rejects.toThrow();
+    });
+
+    it('should pick the candidate pool when it quotes higher', async () => {
+      const quote = await getBestSwapQuote(algod, deployment);
+      const expected = ammOut(BigInt(quote.usdcBalance), BigInt(poolReserveUsdc), BigInt(poolReserveIbus), 5n);
+
+      expect(quote.routeIndex).toBe(1);
+      expect(quote.poolAppId).toBe(candidate.poolAppId);
+      expect(quote.expectedOutput).toBe(Number(expected));
+      expect(quote.expectedOutput).toBeGreaterThan((await getSwapQuote(algod, deployment)).expectedOutput);
+    });
+
+    it('should swap through the best pool and leave the creation pool untouched', async () => {
+      const before = await getVaultStats(algod, deployment);
+      const poolIbusBefore = await getAssetBalance(algod, algosdk.getApplicationAddress(deployment.poolAppId).toString(), deployment.ibusAssetId);
+      const candidateIbusBefore = await getAssetBalance(algod, algosdk.getApplicationAddress(candidate.poolAppId).toString(), deployment.ibusAssetId);
+
+      const extraYield = 5_000_000;
+      const usdcTotal = before.usdcBalance + extraYield;
+      const expected = ammOut(BigInt(usdcTotal), BigInt(poolReserveUsdc), BigInt(poolReserveIbus), 5n);
+
+      await performSwapYield(algod, deployment, creator, extraYield, 0, [candidate]);
+
+      const after = await getVaultStats(algod, deployment);
+      expect(after.usdcBalance).toBe(0);
+      expect(after.swapAssetBalance - before.swapAssetBalance).toBe(Number(expected));
+
+      const poolIbusAfter = await getAssetBalance(algod, algosdk.getApplicationAddress(deployment.poolAppId).toString(), deployment.ibusAssetId);
+      const candidateIbusAfter = await getAssetBalance(algod, algosdk.getApplicationAddress(candidate.poolAppId).toString(), deployment.ibusAssetId);
+      expect(poolIbusAfter).toBe(poolIbusBefore);
+      expect(candidateIbusBefore - candidateIbusAfter).toBe(Number(expected));
+
+      console.log(`Best-execution swap: ${usdcTotal} USDC -> ${expected} IBUS via pool ${candidate.poolAppId}`);
+    });
+
+    it('should fall back to the creation route after the candidate is removed', async () => {
+      await performRemoveCandidatePool(algod, deployment, creator, candidate.poolAppId);
+
+      await fundAsset(algod, creator, deployment.vaultAddress, deployment.usdcAssetId, 3_000_000);
+      const quote = await getBestSwapQuote(algod, deployment);
+      expect(quote.routeIndex).toBe(0);
+      expect(quote.poolAppId).toBe(deployment.poolAppId);
+
+      await expect(
+        performRemoveCandidatePool(algod, deployment, creator, candidate.poolAppId)
+      ).rejects.toThrow();
+    });
+  });
+
+  describe('TWAP Price Guard', () => {
+    let deployment: VaultDeploymentResult;
+    const poolReserve = 10_000_000_000; // 10,000 USDC / 10,000 IBUS
+    const manipulationAmount = 2_000_000_000; // 2,000 USDC dumped into the pool
+
+    const ammOut = (amountIn: bigint, reserveIn: bigint, reserveOut: bigint, feeBps: bigint): bigint => {
+      const netInput = (amountIn * (10000n - feeBps)) / 10000n;
+      return (reserveOut * netInput) / (reserveIn + netInput);
+    };
+
+    beforeAll(async () => {
+      deployment = await deployVaultForTest(algod, creator, {
+        creatorFeeRate: 0,
+        minSwapThreshold: 2_000_000,
+        poolReserveUsdc: poolReserve,
+        poolReserveIbus: poolReserve,
+        maxPriceDeviationBps: 1000, // 10% (the contract default)
+      });
+
+      await optInToAsset(algod, alice, deployment.alphaAssetId);
+      await optInToAsset(algod, alice, deployment.ibusAssetId);
+      await fundAsset(algod, creator, alice.addr, deployment.alphaAssetId, 1_000_000_000);
+      await performUserOptIn(algod, deployment, alice);
+    });
+
+    it('should seed the TWAP at the spot price on the first observation', async () => {
+      const before = await getPriceOracle(algod, deployment);
+      expect(before.lastObservationTime).toBe(0);
+      expect(before.maxPriceDeviationBps).toBe(1000);
+
+      await performDeposit(algod, deployment, alice, 1_000_000_000);
+
+      const oracle = await getPriceOracle(algod, deployment);
+      const probeQuote = Number(ammOut(1_000_000n, BigInt(poolReserve), BigInt(poolReserve), 30n));
+      expect(oracle.spotPrice).toBe(probeQuote);
+      expect(oracle.twapPrice).toBe(probeQuote);
+      expect(oracle.lastObservationTime).toBeGreaterThan(0);
+    });
+
+    it('should let anyone record a price observation', async () => {
+      const before = await getPriceOracle(algod, deployment);
+      await performObservePrice(algod, deployment, alice);
+
+      const after = await getPriceOracle(algod, deployment);
+      expect(after.lastObservationTime).toBeGreaterThanOrEqual(before.lastObservationTime);
+      expect(after.spotPrice).toBe(before.spotPrice);
+    });
+
+    it('should restrict max price deviation updates to admins within bounds', async () => {
+      await expect(
+        performUpdateMaxPriceDeviation(algod, deployment, alice, 500)
+      ).rejects.toThrow();
+      await expect(
+        performUpdateMaxPriceDeviation(algod, deployment, creator, 99)
+      ).rejects.toThrow();
+      await expect(
+        performUpdateMaxPriceDeviation(algod, deployment, creator, 10_001)
+      ).rejects.toThrow();
+
+      await performUpdateMaxPriceDeviation(algod, deployment, creator, 500);
+      expect((await getPriceOracle(algod, deployment)).maxPriceDeviationBps).toBe(500);
+
+      await performUpdateMaxPriceDeviation(algod, deployment, creator, 1000);
+      expect((await getPriceOracle(algod, deployment)).maxPriceDeviationBps).toBe(1000);
+    });
+
+    it('should reject swapYield while the pool price is pushed away from the TWAP', async () => {
+      await performPoolSwap(
+        algod, creator, deployment.poolAppId, deployment.poolAddress,
+        deployment.usdcAssetId, deployment.ibusAssetId, manipulationAmount,
+      );
+
+      await expect(
+        performSwapYield(algod, deployment, creator, 5_000_000)
+      ).rejects.toThrow();
+
+      // Rejected swap leaves the vault untouched
+      const stats = await getVaultStats(algod, deployment);
+      expect(stats.swapAssetBalance).toBe(0);
+    });
+
+    it('should reject deposits that would trigger the auto-swap while the pool price is pushed away', async () => {
+      await fundAsset(algod, creator, alice.addr, deployment.alphaAssetId, 100_000_000);
+      await expect(
+        performDeposit(algod, deployment, alice, 100_000_000)
+      ).rejects.toThrow();
+
+      // The depositor can't slip in ahead of the unswapped yield
+      const stats = await getVaultStats(algod, deployment);
+      expect(stats.totalDeposits).toBe(1_000_000_000);
+      expect(stats.usdcBalance).toBe(5_000_000);
+      expect(stats.swapAssetBalance).toBe(0);
+    });
+
+    it('should record a skewed observation at the edge of the TWAP band', async () => {
+      await performObservePrice(algod, deployment, alice);
+
+      const oracle = await getPriceOracle(algod, deployment);
+      const bandFloor = oracle.twapPrice - Math.floor((oracle.twapPrice * oracle.maxPriceDeviationBps) / 10_000);
+      expect(oracle.spotPrice).toBeLessThan(bandFloor);
+      expect(await getLastSpotPrice(algod, deployment)).toBe(bandFloor);
+    });
+
+    it('should swap again once the pool price returns near the TWAP', async () => {
+      // Undo the manipulation: sell back the IBUS the first trade received
+      const ibusReceived = ammOut(BigInt(manipulationAmount), BigInt(poolReserve), BigInt(poolReserve), 30n);
+      await performPoolSwap(
+        algod, creator, deployment.poolAppId, deployment.poolAddress,
+        deployment.ibusAssetId, deployment.usdcAssetId, Number(ibusReceived),
+      );
+
+      await performSwapYield(algod, deployment, creator, 0);
+
+      const stats = await getVaultStats(algod, deployment);
+      expect(stats.usdcBalance).toBe(0);
+      expect(stats.swapAssetBalance).toBeGreaterThan(0);
+
+      const oracle = await getPriceOracle(algod, deployment);
+      console.log(`TWAP guard: spot ${oracle.spotPrice}, TWAP ${oracle.twapPrice}, max deviation ${oracle.maxPriceDeviationBps} bps`);
+    });
+  });
+
+  describe('Absolute minAmountOut', () => {
+    let deployment: VaultDeploymentResult;
+
+    beforeAll(async () => {
+      deployment = await deployVaultForTest(algod, creator, {
+        creatorFeeRate: 0,
+        minSwapThreshold: 2_000_000,
+      });
+
+      await optInToAsset(algod, alice, deployment.alphaAssetId);
+      await optInToAsset(algod, alice, deployment.ibusAssetId);
+      await fundAsset(algod, creator, alice.addr, deployment.alphaAssetId, 1_000_000_000);
+      await performUserOptIn(algod, deployment, alice);
+      await performDeposit(algod, deployment, alice, 1_000_000_000);
+
+      await fundAsset(algod, creator, deployment.vaultAddress, deployment.usdcAssetId, 10_000_000);
+    });
+
+    it('should reject a swap when minAmountOut is above the on-chain quote', async () => {
+      const quote = await getSwapQuote(algod, deployment);
+
+      // 1% slippage alone would pass; the absolute floor still applies
+      await expect(
+        performSwapYield(algod, deployment, creator, 0, 100, [], quote.expectedOutput + 1)
+      ).rejects.toThrow();
+
+      const stats = await getVaultStats(algod, deployment);
+      expect(stats.usdcBalance).toBe(10_000_000);
+    });
+
+    it('should swap when the output meets both slippage and minAmountOut', async () => {
+      const quote = await getSwapQuote(algod, deployment);
+      const before = await getVaultStats(algod, deployment);
+
+      await performSwapYield(algod, deployment, creator, 0, 100, [], quote.expectedOutput);
+
+      const after = await getVaultStats(algod, deployment);
+      expect(after.usdcBalance).toBe(0);
+      expect(after.swapAssetBalance - before.swapAssetBalance).toBe(quote.expectedOutput);
+    });
+  });
+
+  describe('Farm Schedules', () => {
+    let deployment: VaultDeploymentResult;
+    const depositAmount = 100_000_000; // 100 Alpha
+
+    beforeAll(async () => {
+      deployment = await deployVaultForTest(algod, creator, {
+        creatorFeeRate: 0,
+        minSwapThreshold: 2_000_000,
+      });
+
+      await optInToAsset(algod, alice, deployment.alphaAssetId);
+      await optInToAsset(algod, alice, deployment.ibusAssetId);
+      await fundAsset(algod, creator, alice.addr, deployment.alphaAssetId, 1_000_000_000);
+      await fundAsset(algod, creator, alice.addr, deployment.ibusAssetId, 10_000_000);
+      await performUserOptIn(algod, deployment, alice);
+      await performDeposit(algod, deployment, alice, depositAmount);
+    });
+
+    it('should only let creator or RareFi schedule farm emissions', async () => {
+      const now = await getLatestTimestamp(algod);
+      await expect(
+        performContributeFarmSchedule(algod, deployment, alice, 1_000_000, now, now + 3600)
+      ).rejects.toThrow();
+    });
+
+    it('should reject an empty window or one longer than a year', async () => {
+      const now = await getLatestTimestamp(algod);
+      await expect(
+        performContributeFarmSchedule(algod, deployment, creator, 1_000_000, now + 3600, now + 3600)
+      ).rejects.toThrow();
+      await expect(
+        performContributeFarmSchedule(algod, deployment, creator, 1_000_000, now, now + 366 * 86400)
+      ).rejects.toThrow();
+    });
+
+    it('should stream a schedule to depositors over time without a swap', async () => {
+      const now = await getLatestTimestamp(algod);
+      await performContributeFarmSchedule(algod, deployment, creator, 10_000_000, now, now + 4);
+
+      let farmStats = await getFarmStatsABI(algod, deployment);
+      expect(farmStats.scheduledAmount).toBe(10_000_000);
+      expect(farmStats.scheduledRemaining).toBeGreaterThan(0);
+      expect(farmStats.farmBalance).toBe(0); // Scheduled IBUS is kept apart from the swap bonus
+
+      // Wait past the end, then let an unrelated transaction produce a newer block
+      await new Promise((resolve) => setTimeout(resolve, 6000));
+      await fundAsset(algod, creator, alice.addr, deployment.alphaAssetId, 1);
+
+      const ibusBefore = await getAssetBalance(algod, alice.addr, deployment.ibusAssetId);
+      await performClaim(algod, deployment, alice);
+      const ibusAfter = await getAssetBalance(algod, alice.addr, deployment.ibusAssetId);
+      expect(ibusAfter - ibusBefore).toBe(10_000_000); // Sole depositor, no creator fee
+
+      // Fully released schedule frees its slot
+      farmStats = await getFarmStatsABI(algod, deployment);
+      expect(farmStats.scheduledAmount).toBe(0);
+      expect(farmStats.scheduledRemaining).toBe(0);
+    });
+
+    it('should hold at most three active schedules', async () => {
+      const now = await getLatestTimestamp(algod);
+      for (let i = 0; i < 3; i++) {
+        await performContributeFarmSchedule(algod, deployment, creator, 1_000_000, now, now + 3600);
+      }
+      await expect(
+        performContributeFarmSchedule(algod, deployment, creator, 1_000_000, now, now + 3600)
+      ).rejects.toThrow();
+
+      const farmStats = await getFarmStatsABI(algod, deployment);
+      expect(farmStats.scheduledAmount).toBe(3_000_000);
+    });
+  });
+
+  describe('Extra Reward Tokens', () => {
+    let deployment: VaultDeploymentResult;
+    let rewardAssetId: number;
+    const depositAmount = 100_000_000; // 100 Alpha
+
+    const waitAndAdvance = async (ms: number) => {
+      // Wait, then let an unrelated transaction produce a newer block
+      await new Promise((resolve) => setTimeout(resolve, ms));
+      await fundAsset(algod, creator, alice.addr, deployment.alphaAssetId, 1);
+    };
+
+    beforeAll(async () => {
+      deployment = await deployVaultForTest(algod, creator, {
+        creatorFeeRate: 0,
+        minSwapThreshold: 2_000_000,
+      });
+      rewardAssetId = await createTestAsset(algod, creator, 'Partner Token', 'PTNR', 1_000_000_000_000);
+
+      await optInToAsset(algod, alice, deployment.alphaAssetId);
+      await optInToAsset(algod, alice, deployment.ibusAssetId);
+      await optInToAsset(algod, alice, rewardAssetId);
+      await fundAsset(algod, creator, alice.addr, deployment.alphaAssetId, 1_000_000_000);
+      await performUserOptIn(algod, deployment, alice);
+      await performDeposit(algod, deployment, alice, depositAmount);
+    });
+
+    it('should only let the creator add reward tokens other than the vault assets', async () => {
+      await expect(
+        performAddRewardToken(algod, deployment, alice, rewardAssetId, 1_000_000)
+      ).rejects.toThrow();
+      await expect(
+        performAddRewardToken(algod, deployment, creator, deployment.ibusAssetId, 1_000_000)
+      ).rejects.toThrow();
+
+      await performAddRewardToken(algod, deployment, creator, rewardAssetId, 1_000_000); // 1 token per second
+      await expect(
+        performAddRewardToken(algod, deployment, creator, rewardAssetId, 1_000_000)
+      ).rejects.toThrow(); // Already added
+    });
+
+    it('should reject contributions in tokens that are not reward streams', async () => {
+      await expect(
+        performContributeReward(algod, deployment, creator, deployment.ibusAssetId, 1_000_000)
+      ).rejects.toThrow();
+    });
+
+    it('should release contributed rewards at the stream rate and pay them on claim', async () => {
+      await performContributeReward(algod, deployment, creator, rewardAssetId, 5_000_000); // Runs out after 5s
+      await waitAndAdvance(7000);
+
+      const [pendingYield, pendingReward, pendingEmptySlot] = await getPendingYieldABI(algod, deployment, alice.addr);
+      expect(pendingYield).toBe(0);
+      expect(pendingReward).toBe(5_000_000); // Sole depositor gets the whole balance
+      expect(pendingEmptySlot).toBe(0);
+
+      // No swapAsset yield, the reward alone makes the claim valid
+      const before = await getAssetBalance(algod, alice.addr, rewardAssetId);
+      await performClaim(algod, deployment, alice, [rewardAssetId]);
+      const after = await getAssetBalance(algod, alice.addr, rewardAssetId);
+      expect(after - before).toBe(5_000_000);
+
+      const [, pendingAfterClaim] = await getPendingYieldABI(algod, deployment, alice.addr);
+      expect(pendingAfterClaim).toBe(0);
+    });
+
+    it('should hold rewards for users who have not opted into the token', async () => {
+      await optInToAsset(algod, bob, deployment.alphaAssetId);
+      await fundAsset(algod, creator, bob.addr, deployment.alphaAssetId, depositAmount);
+      await performUserOptIn(algod, deployment, bob);
+      await performDeposit(algod, deployment, bob, depositAmount);
+
+      await performContributeReward(algod, deployment, creator, rewardAssetId, 2_000_000);
+      await waitAndAdvance(4000);
+
+      // Nothing Bob can receive yet: no swapAsset yield and not opted into the reward token
+      await expect(performClaim(algod, deployment, bob, [rewardAssetId])).rejects.toThrow();
+      await expect(performCloseOut(algod, deployment, bob, [rewardAssetId])).rejects.toThrow();
+
+      await optInToAsset(algod, bob, rewardAssetId);
+      await performClaim(algod, deployment, bob, [rewardAssetId]);
+      expect(await getAssetBalance(algod, bob.addr, rewardAssetId)).toBe(1_000_000); // Equal deposits split the release
+
+      const [, alicePending] = await getPendingYieldABI(algod, deployment, alice.addr);
+      expect(alicePending).toBe(1_000_000);
+      await performCloseOut(algod, deployment, bob, [rewardAssetId]);
+    });
+
+    it('should let creator or RareFi change the stream rate', async () => {
+      await expect(
+        performSetRewardRate(algod, deployment, alice, rewardAssetId, 0)
+      ).rejects.toThrow();
+
+      await performSetRewardRate(algod, deployment, creator, rewardAssetId, 0);
+      const [, pendingBefore] = await getPendingYieldABI(algod, deployment, alice.addr);
+      await performContributeReward(algod, deployment, creator, rewardAssetId, 1_000_000);
+      await waitAndAdvance(2000);
+
+      const [, pendingAfter] = await getPendingYieldABI(algod, deployment, alice.addr);
+      expect(pendingAfter).toBe(pendingBefore); // Rate 0 holds the balance
+    });
+
+    it('should hold at most two reward tokens', async () => {
+      const second = await createTestAsset(algod, creator, 'Partner Token 2', 'PTN2', 1_000_000_000);
+      const third = await createTestAsset(algod, creator, 'Partner Token 3', 'PTN3', 1_000_000_000);
+
+      await performAddRewardToken(algod, deployment, creator, second, 1_000);
+      await expect(
+        performAddRewardToken(algod, deployment, creator, third, 1_000)
+      ).rejects.toThrow();
+    });
+  });
+
+  describe('Time-Locked Deposits', () => {
+    let deployment: VaultDeploymentResult;
+    const depositAmount = 100_000_000; // 100 Alpha
+    const shortLock = 5; // Seconds, short enough to expire within the test
+
+    beforeAll(async () => {
+      deployment = await deployVaultForTest(algod, creator, {
+        creatorFeeRate: 0,
+        minSwapThreshold: 2_000_000,
+      });
+
+      for (const user of [alice, bob]) {
+        await optInToAsset(algod, user, deployment.alphaAssetId);
+        await optInToAsset(algod, user, deployment.ibusAssetId);
+        await fundAsset(algod, creator, user.addr, deployment.alphaAssetId, depositAmount);
+        await performUserOptIn(algod, deployment, user);
+      }
+    });
+
+    it('should only let the creator set lock tiers within bounds', async () => {
+      await expect(performSetLockTier(algod, deployment, alice, 0, shortLock, 20_000)).rejects.toThrow();
+      await expect(performSetLockTier(algod, deployment, creator, 3, shortLock, 20_000)).rejects.toThrow(); // No slot 3
+      await expect(performSetLockTier(algod, deployment, creator, 0, shortLock, 10_000)).rejects.toThrow(); // No boost
+      await expect(performSetLockTier(algod, deployment, creator, 0, shortLock, 30_001)).rejects.toThrow(); // Above 3x
+      await expect(performSetLockTier(algod, deployment, creator, 0, 366 * 86400, 20_000)).rejects.toThrow();
+
+      await performSetLockTier(algod, deployment, creator, 0, shortLock, 20_000);
+      await performSetLockTier(algod, deployment, creator, 1, 30 * 86400, 15_000);
+      await expect(
+        performSetLockTier(algod, deployment, creator, 2, shortLock, 25_000)
+      ).rejects.toThrow(); // Duration already offered in slot 0
+    });
+
+    it('should reject a locked deposit for a duration that is not offered', async () => {
+      await expect(performDepositLocked(algod, deployment, alice, depositAmount, 60)).rejects.toThrow();
+    });
+
+    it('should give a locked position a boosted share of yield', async () => {
+      await performDepositLocked(algod, deployment, alice, depositAmount, shortLock);
+      await performDeposit(algod, deployment, bob, depositAmount);
+
+      const lock = await getUserLock(algod, deployment, alice.addr);
+      expect(lock.weight).toBe(depositAmount * 2);
+      expect(lock.boostBps).toBe(20_000);
+      expect(lock.lockedUntil).toBeGreaterThan(0);
+
+      await performSwapYield(algod, deployment, creator, 3_000_000, 100);
+      const alicePending = await getPendingYield(algod, deployment, alice.addr);
+      const bobPending = await getPendingYield(algod, deployment, bob.addr);
+      expect(Math.abs(alicePending - 2 * bobPending)).toBeLessThanOrEqual(2); // 2x weight, 2x yield
+
+      await expect(performWithdraw(algod, deployment, alice, 0)).rejects.toThrow(); // Still locked
+      await expect(performCloseOut(algod, deployment, alice)).rejects.toThrow();
+      await expect(performReleaseLock(algod, deployment, bob, alice.addr)).rejects.toThrow();
+    });
+
+    it('should let anyone release an expired lock back to base weight', async () => {
+      await expect(performReleaseLock(algod, deployment, alice, bob.addr)).rejects.toThrow(); // Bob never locked
+
+      // Wait past the lock, then let an unrelated transaction produce a newer block
+      await new Promise((resolve) => setTimeout(resolve, (shortLock + 2) * 1000));
+      await fundAsset(algod, creator, alice.addr, deployment.alphaAssetId, 1);
+
+      const pendingBefore = await getPendingYield(algod, deployment, alice.addr);
+      await performReleaseLock(algod, deployment, bob, alice.addr);
+
+      const lock = await getUserLock(algod, deployment, alice.addr);
+      expect(lock.weight).toBe(depositAmount);
+      expect(lock.boostBps).toBe(10_000);
+      expect(await getPendingYield(algod, deployment, alice.addr)).toBe(pendingBefore); // Boosted yield is kept
+
+      const stats = await getVaultStats(algod, deployment);
+      expect(stats.totalDeposits).toBe(depositAmount * 2);
+      await performWithdraw(algod, deployment, alice, 0);
+      expect(await getUserDeposit(algod, deployment, alice.addr)).toBe(0);
+    });
+  });
+
+  describe('Exit Fee', () => {
+    let deployment: VaultDeploymentResult;
+    const depositAmount = 100_000_000; // 100 Alpha
+    let aliceFee = 0;
+
+    beforeAll(async () => {
+      deployment = await deployVaultForTest(algod, creator, {
+        creatorFeeRate: 0,
+        minSwapThreshold: 2_000_000,
+      });
+
+      for (const user of [alice, bob]) {
+        await optInToAsset(algod, user, deployment.alphaAssetId);
+        await fundAsset(algod, creator, user.addr, deployment.alphaAssetId, depositAmount * 2);
+        await performUserOptIn(algod, deployment, user);
+      }
+    });
+
+    it('should only let the creator set the exit fee within bounds', async () => {
+      await expect(performSetExitFee(algod, deployment, alice, 500, 3600)).rejects.toThrow();
+      await expect(performSetExitFee(algod, deployment, creator, 501, 3600)).rejects.toThrow(); // Above 5%
+      await expect(performSetExitFee(algod, deployment, creator, 500, 31 * 86400)).rejects.toThrow(); // Above 30 days
+      await expect(performSetExitFee(algod, deployment, creator, 500, 0)).rejects.toThrow(); // Fee without a period
+
+      await performSetExitFee(algod, deployment, creator, 500, 3600);
+      const exitFee = await getExitFee(algod, deployment, alice.addr);
+      expect(exitFee.exitFeeBps).toBe(500);
+      expect(exitFee.exitFeePeriod).toBe(3600);
+      expect(exitFee.userFeeBps).toBe(0); // Nothing deposited yet
+    });
+
+    it('should charge an early withdrawal and credit the fee to the remaining depositors', async () => {
+      await performDeposit(algod, deployment, alice, depositAmount);
+      await performDeposit(algod, deployment, bob, depositAmount);
+
+      const exitFee = await getExitFee(algod, deployment, alice.addr);
+      expect(exitFee.userFeeBps).toBeGreaterThan(490);
+      expect(exitFee.userFeeBps).toBeLessThanOrEqual(500);
+
+      const before = await getAssetBalance(algod, alice.addr, deployment.alphaAssetId);
+      await performWithdraw(algod, deployment, alice, 0);
+      const received = (await getAssetBalance(algod, alice.addr, deployment.alphaAssetId)) - before;
+
+      aliceFee = depositAmount - received;
+      expect(aliceFee).toBeGreaterThan(4_900_000);
+      expect(aliceFee).toBeLessThanOrEqual(5_000_000);
+
+      // The fee stays in the vault for Bob
+      expect(await getAssetBalance(algod, deployment.vaultAddress, deployment.alphaAssetId)).toBe(depositAmount + aliceFee);
+    });
+
+    it('should waive the fee for the last depositor, who keeps the credited fees', async () => {
+      expect((await getExitFee(algod, deployment, bob.addr)).userFeeBps).toBeGreaterThan(0);
+
+      const before = await getAssetBalance(algod, bob.addr, deployment.alphaAssetId);
+      await performWithdraw(algod, deployment, bob, 0);
+      const received = (await getAssetBalance(algod, bob.addr, deployment.alphaAssetId)) - before;
+      expect(received).toBe(depositAmount + aliceFee);
+    });
+
+    it('should decay the fee to zero over the exit fee period', async () => {
+      await performSetExitFee(algod, deployment, creator, 500, 3);
+      await performDeposit(algod, deployment, alice, depositAmount);
+      await performDeposit(algod, deployment, bob, depositAmount);
+
+      // Wait past the period, then let an unrelated transaction produce a newer block
+      await new Promise((resolve) => setTimeout(resolve, 5000));
+      await fundAsset(algod, creator, alice.addr, deployment.alphaAssetId, 1);
+      expect((await getExitFee(algod, deployment, alice.addr)).userFeeBps).toBe(0);
+
+      const before = await getAssetBalance(algod, alice.addr, deployment.alphaAssetId);
+      await performWithdraw(algod, deployment, alice, 0);
+      expect((await getAssetBalance(algod, alice.addr, deployment.alphaAssetId)) - before).toBe(depositAmount);
+    });
+  });
+
+  /**
+   * VAULT MIGRATION TESTS
+   * Tests setSuccessorVault and migrateTo: positions move into a new vault version without withdrawing
+   */
+  describe('Vault Migration', () => {
+    let deployment: VaultDeploymentResult;
+    let successor: VaultDeploymentResult;
+    const depositAmount = 100_000_000; // 100 Alpha
+
+    beforeAll(async () => {
+      deployment = await deployVaultForTest(algod, creator, { creatorFeeRate: 0, minSwapThreshold: 2_000_000 });
+      successor = await deployVaultForTest(algod, creator, {
+        creatorFeeRate: 0,
+        minSwapThreshold: 2_000_000,
+        reuseAssetsFrom: deployment,
+      });
+
+      await optInToAsset(algod, alice, deployment.alphaAssetId);
+      await optInToAsset(algod, alice, deployment.ibusAssetId);
+      await fundAsset(algod, creator, alice.addr, deployment.alphaAssetId, depositAmount);
+      await performUserOptIn(algod, deployment, alice);
+      await performUserOptIn(algod, successor, alice);
+    });
+
+    it('should only let creator or RareFi approve a successor with the same assets', async () => {
+      await expect(performSetSuccessorVault(algod, deployment, alice, successor.vaultAppId)).rejects.toThrow();
+      await expect(performSetSuccessorVault(algod, deployment, creator, deployment.vaultAppId)).rejects.toThrow(); // Itself
+
+      const unrelated = await deployVaultForTest(algod, creator, { creatorFeeRate: 0 });
+      await expect(performSetSuccessorVault(algod, deployment, creator, unrelated.vaultAppId)).rejects.toThrow();
+    });
+
+    it('should reject migration before the successor is approved', async () => {
+      await performDeposit(algod, deployment, alice, depositAmount);
+      await expect(performMigrateTo(algod, deployment, successor, alice)).rejects.toThrow();
+    });
+
+    it('should reject acceptMigration called directly by a user', async () => {
+      const contract = new algosdk.ABIContract(successor.arc56Spec);
+      const suggestedParams = await algod.getTransactionParams().do();
+      const signer = algosdk.makeBasicAccountTransactionSigner({ sk: alice.sk, addr: algosdk.decodeAddress(alice.addr) });
+
+      const atc = new algosdk.AtomicTransactionComposer();
+      atc.addMethodCall({
+        appID: successor.vaultAppId,
+        method: contract.getMethodByName('acceptMigration'),
+        methodArgs: [alice.addr, 0, 100],
+        sender: alice.addr,
+        signer,
+        suggestedParams: { ...suggestedParams, fee: 1000, flatFee: true },
+        boxes: [{ appIndex: successor.vaultAppId, name: positionBoxName(alice.addr) }],
+      });
+
+      await expect(atc.execute(algod, 5)).rejects.toThrow();
+    });
+
+    it('should move deposit and earned yield into the successor in one call', async () => {
+      await performSwapYield(algod, deployment, creator, 10_000_000);
+      const pendingYield = await getPendingYield(algod, deployment, alice.addr);
+      expect(pendingYield).toBeGreaterThan(0);
+
+      await performSetSuccessorVault(algod, deployment, creator, successor.vaultAppId);
+      await performSetPredecessorVault(algod, successor, creator, deployment.vaultAppId);
+      await performMigrateTo(algod, deployment, successor, alice);
+
+      // Old position is gone and the old vault holds nothing for Alice
+      const oldPosition = await getUserPosition(algod, deployment.vaultAppId, alice.addr);
+      expect(oldPosition.depositedAmount).toBe(0);
+      expect((await getVaultStats(algod, deployment)).totalDeposits).toBe(0);
+
+      // Successor credits the same deposit and yield, with no exit fee
+      const newPosition = await getUserPosition(algod, successor.vaultAppId, alice.addr);
+      expect(newPosition.depositedAmount).toBe(depositAmount);
+      expect(newPosition.earnedYield).toBe(pendingYield);
+      expect(await getAssetBalance(algod, successor.vaultAddress, successor.alphaAssetId)).toBe(depositAmount);
+      expect(await getAssetBalance(algod, successor.vaultAddress, successor.ibusAssetId)).toBe(pendingYield);
+
+      // Alice can claim the migrated yield from the successor
+      const before = await getAssetBalance(algod, alice.addr, successor.ibusAssetId);
+      await performClaim(algod, successor, alice);
+      expect((await getAssetBalance(algod, alice.addr, successor.ibusAssetId)) - before).toBe(pendingYield);
+    });
+
+    it('should only accept migrations from the predecessor the successor approved', async () => {
+      await expect(performSetPredecessorVault(algod, successor, alice, deployment.vaultAppId)).rejects.toThrow();
+
+      // A second vault that names the successor but was never approved by it
+      const other = await deployVaultForTest(algod, creator, { creatorFeeRate: 0, reuseAssetsFrom: deployment });
+      await fundAsset(algod, creator, alice.addr, deployment.alphaAssetId, depositAmount);
+      await performUserOptIn(algod, other, alice);
+      await performDeposit(algod, other, alice, depositAmount);
+      await performSetSuccessorVault(algod, other, creator, successor.vaultAppId);
+
+      await expect(performMigrateTo(algod, other, successor, alice)).rejects.toThrow();
+      expect((await getUserPosition(algod, other.vaultAppId, alice.addr)).depositedAmount).toBe(depositAmount);
+    });
+
+    it('should charge the exit fee when migrating within the fee period', async () => {
+      const predecessor = await deployVaultForTest(algod, creator, { creatorFeeRate: 0, reuseAssetsFrom: deployment });
+      const target = await deployVaultForTest(algod, creator, { creatorFeeRate: 0, reuseAssetsFrom: deployment });
+      await optInToAsset(algod, bob, deployment.alphaAssetId);
+      await fundAsset(algod, creator, alice.addr, deployment.alphaAssetId, depositAmount);
+      await fundAsset(algod, creator, bob.addr, deployment.alphaAssetId, depositAmount);
+      for (const user of [alice, bob]) {
+        await performUserOptIn(algod, predecessor, user);
+        await performDeposit(algod, predecessor, user, depositAmount);
+      }
+      await performUserOptIn(algod, target, alice);
+      await performSetExitFee(algod, predecessor, creator, 500, 86_400); // 5% over a day
+      await performSetSuccessorVault(algod, predecessor, creator, target.vaultAppId);
+      await performSetPredecessorVault(algod, target, creator, predecessor.vaultAppId);
+
+      await performMigrateTo(algod, predecessor, target, alice);
+
+      // The fee stays behind for Bob, just as on withdraw
+      const migrated = (await getUserPosition(algod, target.vaultAppId, alice.addr)).depositedAmount;
+      expect(migrated).toBeLessThan(depositAmount);
+      expect(migrated).toBeGreaterThanOrEqual(depositAmount * 0.95);
+      expect(await getAssetBalance(algod, predecessor.vaultAddress, predecessor.alphaAssetId)).toBe(2 * depositAmount - migrated);
+    });
+  });
+
+  /**
+   * DEPOSIT FOR TESTS
+   * Tests depositFor: the caller funds the deposit, the beneficiary's position is credited
+   */
+  describe('Deposit For', () => {
+    let deployment: VaultDeploymentResult;
+    const depositAmount = 50_000_000; // 50 Alpha
+
+    beforeAll(async () => {
+      deployment = await deployVaultForTest(algod, creator, { creatorFeeRate: 0, minSwapThreshold: 2_000_000 });
+      await optInToAsset(algod, alice, deployment.alphaAssetId);
+      await performUserOptIn(algod, deployment, alice);
+    });
+
+    it('should credit the beneficiary with a deposit funded by the caller', async () => {
+      await performDepositFor(algod, deployment, creator, alice.addr, depositAmount);
+
+      expect(await getUserDeposit(algod, deployment, alice.addr)).toBe(depositAmount);
+      expect(await getUserDeposit(algod, deployment, creator.addr)).toBe(0);
+      expect((await getVaultStats(algod, deployment)).totalDeposits).toBe(depositAmount);
+
+      // Alice owns the position and can withdraw it
+      await performWithdraw(algod, deployment, alice, 0);
+      expect(await getAssetBalance(algod, alice.addr, deployment.alphaAssetId)).toBe(depositAmount);
+    });
+
+    it('should reject a beneficiary without a position box', async () => {
+      const stranger = algosdk.generateAccount().addr.toString();
+      await expect(performDepositFor(algod, deployment, creator, stranger, depositAmount)).rejects.toThrow();
+    });
+  });
+
+  /**
+   * CLAIM ROUTING TESTS
+   * Tests yield recipients and approved claimers (claimFor)
+   */
+  describe('Claim Routing', () => {
+    let deployment: VaultDeploymentResult;
+    const depositAmount = 100_000_000; // 100 Alpha
+
+    beforeAll(async () => {
+      deployment = await deployVaultForTest(algod, creator, { creatorFeeRate: 0, minSwapThreshold: 2_000_000 });
+      await optInToAsset(algod, alice, deployment.alphaAssetId);
+      await optInToAsset(algod, alice, deployment.ibusAssetId);
+      await optInToAsset(algod, bob, deployment.ibusAssetId);
+      await fundAsset(algod, creator, alice.addr, deployment.alphaAssetId, depositAmount);
+
+      await performUserOptIn(algod, deployment, alice);
+      await performDeposit(algod, deployment, alice, depositAmount);
+    });
+
+    it('should send claimed yield to the yield recipient', async () => {
+      await performSetYieldRecipient(algod, deployment, alice, bob.addr);
+      expect(await getClaimSettings(algod, deployment, alice.addr)).toEqual({
+        recipient: bob.addr.toString(),
+        claimer: algosdk.ALGORAND_ZERO_ADDRESS_STRING,
+      });
+
+      await performSwapYield(algod, deployment, creator, 10_000_000);
+      const pendingYield = await getPendingYield(algod, deployment, alice.addr);
+      expect(pendingYield).toBeGreaterThan(0);
+
+      const bobBefore = await getAssetBalance(algod, bob.addr, deployment.ibusAssetId);
+      await performClaim(algod, deployment, alice, [], bob.addr);
+
+      expect((await getAssetBalance(algod, bob.addr, deployment.ibusAssetId)) - bobBefore).toBe(pendingYield);
+      expect(await getAssetBalance(algod, alice.addr, deployment.ibusAssetId)).toBe(0);
+    });
+
+    it('should only let the approved claimer claim, paying the user\'s recipient', async () => {
+      await performSwapYield(algod, deployment, creator, 10_000_000);
+      await expect(performClaimFor(algod, deployment, creator, alice.addr, bob.addr)).rejects.toThrow();
+
+      // Box already exists, no further MBR
+      await performApproveClaimer(algod, deployment, alice, creator.addr, 0);
+      const pendingYield = await getPendingYield(algod, deployment, alice.addr);
+
+      const bobBefore = await getAssetBalance(algod, bob.addr, deployment.ibusAssetId);
+      const creatorBefore = await getAssetBalance(algod, creator.addr, deployment.ibusAssetId);
+      await performClaimFor(algod, deployment, creator, alice.addr, bob.addr);
+
+      expect((await getAssetBalance(algod, bob.addr, deployment.ibusAssetId)) - bobBefore).toBe(pendingYield);
+      expect(await getAssetBalance(algod, creator.addr, deployment.ibusAssetId)).toBe(creatorBefore);
+      expect(await getPendingYield(algod, deployment, alice.addr)).toBe(0);
+    });
+
+    it('should delete the box and refund MBR on clearClaimSettings', async () => {
+      const algoBefore = Number((await algod.accountInformation(alice.addr).do()).amount);
+      await performClearClaimSettings(algod, deployment, alice);
+
+      const algoAfter = Number((await algod.accountInformation(alice.addr).do()).amount);
+      expect(algoAfter - algoBefore).toBe(CLAIM_SETTINGS_MBR - 2000); // refund minus outer fee
+      await expect(
+        algod.getApplicationBoxByName(deployment.vaultAppId, claimSettingsBoxName(alice.addr)).do()
+      ).rejects.toThrow();
+
+      // Yield goes back to Alice, and a new setting needs the MBR again
+      await performSwapYield(algod, deployment, creator, 10_000_000);
+      const pendingYield = await getPendingYield(algod, deployment, alice.addr);
+      await performClaim(algod, deployment, alice);
+      expect(await getAssetBalance(algod, alice.addr, deployment.ibusAssetId)).toBe(pendingYield);
+
+      await expect(performSetYieldRecipient(algod, deployment, alice, bob.addr, 0)).rejects.toThrow();
+    });
+  });
+
+  /**
+   * CLAIM AND STAKE TESTS
+   * Tests claimAndStake: earned yield deposited into an allowlisted compounding vault in the user's name
+   */
+  describe('Claim And Stake', () => {
+    let deployment: VaultDeploymentResult;
+    let target: CompoundingVaultDeploymentResult;
+    let unrelated: VaultDeploymentResult;
+    const depositAmount = 100_000_000; // 100 Alpha
+
+    beforeAll(async () => {
+      deployment = await deployVaultForTest(algod, creator, { creatorFeeRate: 0, minSwapThreshold: 2_000_000 });
+      target = await deployCompoundingVaultForTest(algod, creator, { creatorFeeRate: 0, alphaAssetId: deployment.ibusAssetId });
+      unrelated = await deployVaultForTest(algod, creator, { creatorFeeRate: 0 });
+
+      await optInToAsset(algod, alice, deployment.alphaAssetId);
+      await fundAsset(algod, creator, alice.addr, deployment.alphaAssetId, depositAmount);
+      await performUserOptIn(algod, deployment, alice);
+      await performDeposit(algod, deployment, alice, depositAmount);
+      await performCompoundingOptIn(algod, target, alice);
+    });
+
+    it('should only allowlist vaults that take swapAsset deposits, by creator or RareFi', async () => {
+      await expect(performAddStakeTarget(algod, deployment, alice, target.vaultAppId)).rejects.toThrow();
+      await expect(performAddStakeTarget(algod, deployment, creator, unrelated.vaultAppId)).rejects.toThrow();
+      await expect(performAddStakeTarget(algod, deployment, creator, deployment.vaultAppId)).rejects.toThrow();
+
+      await performAddStakeTarget(algod, deployment, creator, target.vaultAppId);
+      expect(await getStakeTargets(algod, deployment)).toEqual([target.vaultAppId, 0]);
+      await expect(performAddStakeTarget(algod, deployment, creator, target.vaultAppId)).rejects.toThrow();
+    });
+
+    it('should deposit earned yield into the target as the user\'s shares', async () => {
+      await performSwapYield(algod, deployment, creator, 10_000_000);
+      const pendingYield = await getPendingYield(algod, deployment, alice.addr);
+      expect(pendingYield).toBeGreaterThan(1_000_000); // Above the target's minimum deposit
+
+      await expect(performClaimAndStake(algod, deployment, alice, unrelated)).rejects.toThrow();
+      await performClaimAndStake(algod, deployment, alice, target);
+
+      expect(await getPendingYield(algod, deployment, alice.addr)).toBe(0);
+      expect(await getUserShares(algod, target, alice.addr)).toBe(pendingYield); // First depositor, 1:1 shares
+      expect(await getAssetBalance(algod, target.vaultAddress, deployment.ibusAssetId)).toBe(pendingYield);
+      expect(await getUserDeposit(algod, deployment, alice.addr)).toBe(depositAmount);
+    });
+
+    it('should reject claimAndStake after the target is removed', async () => {
+      await performSwapYield(algod, deployment, creator, 10_000_000);
+      await performRemoveStakeTarget(algod, deployment, creator, target.vaultAppId);
+      expect(await getStakeTargets(algod, deployment)).toEqual([0, 0]);
+
+      await expect(performClaimAndStake(algod, deployment, alice, target)).rejects.toThrow();
+      await expect(performRemoveStakeTarget(algod, deployment, creator, target.vaultAppId)).rejects.toThrow();
+    });
+  });
+
+  describe('Zap Deposit', () => {
+    let deployment: VaultDeploymentResult;
+    let zapPool: CandidatePoolRef;
+    const depositAmount = 100_000_000; // 100 Alpha
+    const zapAmount = 50_000_000;      // 50 USDC
+
+    beforeAll(async () => {
+      deployment = await deployVaultForTest(algod, creator, { creatorFeeRate: 0, minSwapThreshold: 2_000_000 });
+      zapPool = await deployFundedMockPool(
+        algod, creator, deployment.usdcAssetId, deployment.alphaAssetId, 10_000_000_000, 10_000_000_000,
+      );
+
+      await optInToAsset(algod, alice, deployment.alphaAssetId);
+      await optInToAsset(algod, alice, deployment.usdcAssetId);
+      await fundAsset(algod, creator, alice.addr, deployment.alphaAssetId, depositAmount);
+      await fundAsset(algod, creator, alice.addr, deployment.usdcAssetId, zapAmount * 2);
+      await performUserOptIn(algod, deployment, alice);
+      await performDeposit(algod, deployment, alice, depositAmount);
+    });
+
+    it('should only accept a USDC/depositAsset zap pool, set by creator or RareFi', async () => {
+      await expect(performZapDeposit(algod, deployment, alice, zapPool, zapAmount, 1_000_000)).rejects.toThrow();
+      expect(await getZapQuote(algod, deployment, zapAmount)).toBe(0);
+
+      await expect(performSetZapPool(algod, deployment, alice, zapPool)).rejects.toThrow();
+      const creationPool = { poolAppId: deployment.poolAppId, poolAddress: deployment.poolAddress }; // USDC/IBUS
+      await expect(performSetZapPool(algod, deployment, creator, creationPool)).rejects.toThrow();
+
+      await performSetZapPool(algod, deployment, creator, zapPool);
+      expect(await getZapQuote(algod, deployment, zapAmount)).toBeGreaterThan(0);
+    });
+
+    it('should swap zapped USDC to Alpha and credit it as a deposit', async () => {
+      const quote = await getZapQuote(algod, deployment, zapAmount);
+      await expect(performZapDeposit(algod, deployment, alice, zapPool, zapAmount, quote + 1)).rejects.toThrow();
+
+      await performZapDeposit(algod, deployment, alice, zapPool, zapAmount, quote);
+      expect(await getUserDeposit(algod, deployment, alice.addr)).toBe(depositAmount + quote);
+
+      const stats = await getVaultStats(algod, deployment);
+      expect(stats.totalDeposits).toBe(depositAmount + quote);
+      expect(stats.usdcBalance).toBe(0); // Zapped USDC is never treated as yield
+      expect(stats.yieldPerToken).toBe(0);
+    });
+
+    it('should auto-swap existing yield first, leaving the zapped USDC out of it', async () => {
+      await fundAsset(algod, creator, deployment.vaultAddress, deployment.usdcAssetId, 5_000_000);
+      const depositBefore = await getUserDeposit(algod, deployment, alice.addr);
+      const quote = await getZapQuote(algod, deployment, zapAmount);
+
+      await performZapDeposit(algod, deployment, alice, zapPool, zapAmount, quote);
+
+      // Only the 5 USDC of yield went through the creation pool; the zap swap is unaffected by it
+      expect(await getUserDeposit(algod, deployment, alice.addr)).toBe(depositBefore + quote);
+      expect((await getVaultStats(algod, deployment)).usdcBalance).toBe(0);
+      expect(await getPendingYield(algod, deployment, alice.addr)).toBeGreaterThan(0);
+    });
+  });
 });